@@ -18,6 +18,7 @@ import {
   TrendingDown,
   ArrowUpRight,
   ArrowDownRight,
+  ArrowRightLeft,
   PieChart,
   Target,
   CreditCard,
@@ -33,6 +34,9 @@ import {
   useCategoriesQuery,
   useMonthlyStats,
   useGroupedTransactions,
+  useAccountsQuery,
+  useAccountBalances,
+  useCurrencyConversion,
   type Transaction,
   type TransactionCategory,
 } from '@/hooks'
@@ -72,8 +76,11 @@ interface TransactionItemProps {
 }
 
 function TransactionItem({ transaction, category, delay, onPress }: TransactionItemProps) {
+  const { t } = useTranslation()
   const { colors } = useTheme()
   const isIncome = transaction.type === 'income'
+  const isTransfer = transaction.type === 'transfer'
+  const amountColor = isTransfer ? colors.info : isIncome ? colors.success : colors.error
 
   return (
     <Animated.View entering={FadeInDown.delay(delay).duration(400)}>
@@ -82,10 +89,12 @@ function TransactionItem({ transaction, category, delay, onPress }: TransactionI
           <View
             style={[
               styles.transactionIcon,
-              { backgroundColor: isIncome ? colors.success + '15' : colors.error + '15' },
+              { backgroundColor: amountColor + '15' },
             ]}
           >
-            {isIncome ? (
+            {isTransfer ? (
+              <ArrowRightLeft size={20} color={colors.info} />
+            ) : isIncome ? (
               <ArrowUpRight size={20} color={colors.success} />
             ) : (
               <ArrowDownRight size={20} color={colors.error} />
@@ -96,16 +105,16 @@ function TransactionItem({ transaction, category, delay, onPress }: TransactionI
               {transaction.description}
             </Text>
             <Text style={[styles.transactionMeta, { color: colors.mutedForeground }]}>
-              {category?.name || 'Sem categoria'}
+              {isTransfer ? t('finances.transfer') : category?.name || 'Sem categoria'}
             </Text>
           </View>
           <Text
             style={[
               styles.transactionAmount,
-              { color: isIncome ? colors.success : colors.error },
+              { color: amountColor },
             ]}
           >
-            {isIncome ? '+' : '-'}R$ {formatCurrency(transaction.amount)}
+            {isTransfer ? '' : isIncome ? '+' : '-'}R$ {formatCurrency(transaction.amount)}
           </Text>
         </View>
       </Pressable>
@@ -257,7 +266,15 @@ export default function FinancesScreen() {
     refetch: refetchCategories,
   } = useCategoriesQuery()
 
-  const monthlyStats = useMonthlyStats(transactions, currentMonth)
+  const { data: accounts, refetch: refetchAccounts } = useAccountsQuery()
+
+  const conversion = useCurrencyConversion()
+  const monthlyStats = useMonthlyStats(transactions, currentMonth, conversion)
+  const accountBalances = useAccountBalances(accounts, transactions, conversion)
+  const activeAccounts = useMemo(
+    () => (accounts ?? []).filter((account) => !account.isArchived),
+    [accounts]
+  )
   const groupedTransactions = useGroupedTransactions(transactions)
 
   const isLoading = isLoadingTransactions || isLoadingCategories
@@ -267,9 +284,9 @@ export default function FinancesScreen() {
 
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true)
-    await Promise.all([refetchTransactions(), refetchCategories()])
+    await Promise.all([refetchTransactions(), refetchCategories(), refetchAccounts()])
     setIsRefreshing(false)
-  }, [refetchTransactions, refetchCategories])
+  }, [refetchTransactions, refetchCategories, refetchAccounts])
 
   const handleTransactionPress = useCallback(
     (id: string) => {
@@ -424,6 +441,47 @@ export default function FinancesScreen() {
           </View>
         </View>
 
+        {/* Accounts Section */}
+        {activeAccounts.length > 0 && (
+          <Animated.View entering={FadeInDown.delay(300).duration(400)} style={styles.accountsSection}>
+            <Text style={[styles.sectionTitle, { color: colors.mutedForeground }]}>
+              {t('finances.accounts.title')}
+            </Text>
+            <View style={[styles.accountsCard, { backgroundColor: colors.card }, cardShadow]}>
+              {activeAccounts.map((account, index) => {
+                const accountBalance = accountBalances[account.id] ?? 0
+                return (
+                  <View
+                    key={account.id}
+                    style={[
+                      styles.accountRow,
+                      index > 0 && { borderTopWidth: 1, borderTopColor: colors.border },
+                    ]}
+                  >
+                    <View style={[styles.accountDot, { backgroundColor: account.color }]} />
+                    <View style={styles.transactionContent}>
+                      <Text style={[styles.accountName, { color: colors.foreground }]}>
+                        {account.name}
+                      </Text>
+                      <Text style={[styles.transactionMeta, { color: colors.mutedForeground }]}>
+                        {t(`finances.accounts.types.${account.type}`)}
+                      </Text>
+                    </View>
+                    <Text
+                      style={[
+                        styles.accountBalance,
+                        { color: accountBalance < 0 ? colors.error : colors.foreground },
+                      ]}
+                    >
+                      {hideBalance ? '••••' : `R$ ${formatCurrency(accountBalance)}`}
+                    </Text>
+                  </View>
+                )
+              })}
+            </View>
+          </Animated.View>
+        )}
+
         {/* Recent Transactions Section */}
         <Animated.View
           entering={FadeInDown.delay(300).duration(400)}
@@ -621,6 +679,36 @@ const styles = StyleSheet.create({
     flex: 1,
   },
 
+  // Accounts
+  accountsSection: {
+    paddingHorizontal: spacing[6],
+    marginBottom: spacing[6],
+    gap: spacing[3],
+  },
+  accountsCard: {
+    borderRadius: radius.xl,
+    paddingHorizontal: spacing[3.5],
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing[3],
+    gap: spacing[3],
+  },
+  accountDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  accountName: {
+    fontSize: typography.size.base - 1,
+    fontWeight: typography.weight.medium,
+  },
+  accountBalance: {
+    fontSize: typography.size.base - 1,
+    fontWeight: typography.weight.semibold,
+  },
+
   // Section Header
   sectionHeader: {
     flexDirection: 'row',
@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from 'react'
+import { useState, useCallback, useEffect, useMemo } from 'react'
 import { View, Text, ScrollView, Pressable, StyleSheet, RefreshControl } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { useTranslation } from 'react-i18next'
@@ -18,7 +18,10 @@ import {
   useHabitsQuery,
   useToggleHabitCompletion,
   useSetCompletionValue,
+  useLogRelapse,
+  useClaimCleanDays,
 } from '@/hooks'
+import { calculateHabitStreak, isCompletionSuccessful } from '@hagu/core'
 import type { Habit } from '@hagu/core'
 
 function getTodayString(): string {
@@ -63,6 +66,12 @@ function calculateStreak(completions: Array<{ date: string }>): number {
   return streak
 }
 
+// Avoid habits count clean days rather than consecutive completions
+function getHabitStreak(habit: Habit): number {
+  if (habit.tracking.type === 'avoid') return calculateHabitStreak(habit).currentStreak
+  return calculateStreak(habit.completions)
+}
+
 function EmptyState({ onAdd }: { onAdd: () => void }) {
   const { t } = useTranslation()
   const { colors } = useTheme()
@@ -99,6 +108,8 @@ export default function HabitsScreen() {
   const { data: habits = [], isLoading, refetch } = useHabitsQuery()
   const toggleCompletion = useToggleHabitCompletion()
   const setCompletionValue = useSetCompletionValue()
+  const logRelapse = useLogRelapse()
+  const { mutate: claimCleanDays } = useClaimCleanDays()
 
   const last7Days = getLast7Days()
 
@@ -115,19 +126,35 @@ export default function HabitsScreen() {
 
   const completedToday = useMemo(
     () =>
-      activeHabits.filter((h) =>
-        h.completions.some((c) => c.date === getTodayString())
-      ).length,
+      activeHabits.filter((h) => {
+        const completion = h.completions.find((c) => c.date === getTodayString())
+        // An avoid habit is on track until today's slips go over its limit
+        if (h.tracking.type === 'avoid') {
+          return !completion || isCompletionSuccessful(h.tracking, completion)
+        }
+        return !!completion
+      }).length,
     [activeHabits]
   )
 
   const maxStreak = useMemo(() => {
     return activeHabits.reduce((max, habit) => {
-      const streak = calculateStreak(habit.completions)
+      const streak = getHabitStreak(habit)
       return Math.max(max, streak)
     }, 0)
   }, [activeHabits])
 
+  // Avoid habits have nothing to check off, so clean days are credited on visit
+  const avoidHabitIds = activeHabits
+    .filter((h) => h.tracking.type === 'avoid')
+    .map((h) => h.id)
+    .join(',')
+
+  useEffect(() => {
+    if (!avoidHabitIds) return
+    avoidHabitIds.split(',').forEach((habitId) => claimCleanDays(habitId))
+  }, [avoidHabitIds, claimCleanDays])
+
   const handleAddHabit = useCallback(() => {
     setEditingHabit(null)
     setShowFormModal(true)
@@ -157,6 +184,13 @@ export default function HabitsScreen() {
     [toggleCompletion, setCompletionValue, habits]
   )
 
+  const handleLogRelapse = useCallback(
+    (habitId: string) => {
+      logRelapse.mutate({ habitId, date: getTodayString() })
+    },
+    [logRelapse]
+  )
+
   const toggleShowArchived = useCallback(() => {
     setShowArchived((prev) => !prev)
   }, [])
@@ -247,9 +281,10 @@ export default function HabitsScreen() {
             {activeHabits.map((habit, index) => (
               <HabitCard
                 key={habit.id}
-                habit={{ ...habit, streak: calculateStreak(habit.completions) }}
+                habit={{ ...habit, streak: getHabitStreak(habit) }}
                 last7Days={last7Days}
                 onToggle={handleToggleHabit}
+                onLogRelapse={handleLogRelapse}
                 onPress={handleHabitPress}
                 index={index}
               />
@@ -6,6 +6,7 @@ import { Link } from 'expo-router'
 import {
   CheckCircle2,
   Circle,
+  XCircle,
   Plus,
   ChevronRight,
   Flame,
@@ -18,17 +19,22 @@ import {
   Eye,
   EyeOff,
   FolderKanban,
+  Search,
 } from 'lucide-react-native'
 import Animated, { FadeInDown } from 'react-native-reanimated'
+import { isHabitDueOn, isTaskBlocked, isCompletionSuccessful, isRelapse } from '@hagu/core'
+import type { Habit } from '@hagu/core'
 import { useAuth } from '@/lib/auth'
 import { useTheme, cardShadow, spacing, radius, typography } from '@/theme'
 import { useHomeWidgets } from '@/hooks/use-settings'
 import {
   useHabitsQuery,
+  useVacationsQuery,
   useTasksQuery,
   useTaskStats,
   useTransactionsQuery,
   useMonthlyStats,
+  useCurrencyConversion,
   useProjectsWithProgressQuery,
   useUserStats,
   useGlobalStreak,
@@ -67,6 +73,16 @@ function getTodayDateString(): string {
   return new Date().toISOString().split('T')[0]
 }
 
+// Done for the day when the target is met; an avoid habit is on track until
+// the day's slips go over its limit, even with nothing logged
+function isHabitDoneOn(habit: Habit, date: string): boolean {
+  const completion = habit.completions?.find(c => c.date === date)
+  if (habit.tracking.type === 'avoid') {
+    return !completion || isCompletionSuccessful(habit.tracking, completion)
+  }
+  return !!completion && isCompletionSuccessful(habit.tracking, completion)
+}
+
 export default function HomeScreen() {
   const { t, i18n } = useTranslation()
   const { user } = useAuth()
@@ -76,10 +92,12 @@ export default function HomeScreen() {
 
   // Real data hooks
   const { data: habits, isLoading: habitsLoading, refetch: refetchHabits } = useHabitsQuery()
+  const { data: vacations = [] } = useVacationsQuery()
   const { data: tasks, isLoading: tasksLoading, refetch: refetchTasks } = useTasksQuery()
   const taskStats = useTaskStats(tasks)
   const { data: transactions, isLoading: transactionsLoading, refetch: refetchTransactions } = useTransactionsQuery()
-  const monthlyStats = useMonthlyStats(transactions, getCurrentMonth())
+  const conversion = useCurrencyConversion()
+  const monthlyStats = useMonthlyStats(transactions, getCurrentMonth(), conversion)
   const { data: projects, isLoading: projectsLoading, refetch: refetchProjects } = useProjectsWithProgressQuery()
   const { data: userStats } = useUserStats()
   const streakData = useGlobalStreak()
@@ -108,14 +126,17 @@ export default function HomeScreen() {
     [habits]
   )
 
+  const todayHabits = useMemo(() =>
+    activeHabits.filter(h => isHabitDueOn(h, today, vacations)),
+    [activeHabits, today, vacations]
+  )
+
   const completedHabitsToday = useMemo(() =>
-    activeHabits.filter(h =>
-      h.completions?.some(c => c.date === today)
-    ).length,
-    [activeHabits, today]
+    todayHabits.filter(h => isHabitDoneOn(h, today)).length,
+    [todayHabits, today]
   )
 
-  const totalHabitsToday = activeHabits.length
+  const totalHabitsToday = todayHabits.length
   const habitProgress = totalHabitsToday > 0
     ? Math.round((completedHabitsToday / totalHabitsToday) * 100)
     : 0
@@ -124,8 +145,11 @@ export default function HomeScreen() {
   const streak = streakData.currentStreak
 
   // Limit items for home widgets
-  const displayHabits = activeHabits.slice(0, 5)
-  const displayTasks = (tasks || []).filter(t => t.status !== 'done').slice(0, 5)
+  const displayHabits = todayHabits.slice(0, 5)
+  // Blocked tasks wait until their blockers are done
+  const displayTasks = (tasks || [])
+    .filter(t => t.status !== 'done' && !isTaskBlocked(t, tasks || []))
+    .slice(0, 5)
   const displayProjects = (projects || []).filter(p => p.status === 'active').slice(0, 3)
 
   return (
@@ -152,6 +176,15 @@ export default function HomeScreen() {
               {getGreeting()}, {userName}
             </Text>
           </View>
+          <Link href="/search" asChild>
+            <Pressable
+              style={[styles.searchButton, { backgroundColor: colors.card }, cardShadow]}
+              hitSlop={8}
+              accessibilityLabel={t('search.title')}
+            >
+              <Search size={20} color={colors.foreground} />
+            </Pressable>
+          </Link>
         </Animated.View>
 
         {/* Quick Stats Bar (like web) */}
@@ -222,7 +255,9 @@ export default function HomeScreen() {
                   </Text>
                 ) : (
                   displayHabits.map((habit) => {
-                    const completedToday = habit.completions?.some(c => c.date === today)
+                    const completion = habit.completions?.find(c => c.date === today)
+                    const relapsed = !!completion && isRelapse(habit.tracking, completion)
+                    const completedToday = isHabitDoneOn(habit, today)
                     return (
                       <Pressable
                         key={habit.id}
@@ -234,7 +269,9 @@ export default function HomeScreen() {
                           },
                         ]}
                       >
-                        {completedToday ? (
+                        {relapsed ? (
+                          <XCircle size={20} color={colors.error} />
+                        ) : completedToday ? (
                           <CheckCircle2 size={20} color={colors.success} />
                         ) : (
                           <Circle size={20} color={colors.mutedForeground} />
@@ -565,6 +602,9 @@ const styles = StyleSheet.create({
 
   // Header
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     paddingHorizontal: spacing[6],
     paddingTop: spacing[4],
     paddingBottom: spacing[2],
@@ -578,6 +618,13 @@ const styles = StyleSheet.create({
     fontSize: typography.size.sm,
     marginTop: spacing[1],
   },
+  searchButton: {
+    width: 40,
+    height: 40,
+    borderRadius: radius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
 
   // Stats Bar
   statsBar: {
@@ -29,7 +29,7 @@ import {
   useDeleteManyTasks,
   useUpdateManyTasksStatus,
 } from '@/hooks'
-import type { Task, TaskStatus, TaskPriority } from '@hagu/core'
+import { isTaskBlocked, type Task, type TaskStatus, type TaskPriority } from '@hagu/core'
 
 type FilterType = 'all' | TaskStatus
 
@@ -473,6 +473,7 @@ export default function TasksScreen() {
                 selectionMode={selectionMode}
                 isSelected={selectedIds.has(task.id)}
                 onSelect={handleSelectTask}
+                isBlocked={isTaskBlocked(task, tasks ?? [])}
               />
             ))}
           </View>
@@ -17,7 +17,7 @@ import {
 } from 'lucide-react-native'
 import Animated, { FadeInDown } from 'react-native-reanimated'
 import { useTheme, cardShadow, spacing, radius, typography, chartColors } from '@/theme'
-import { useHabitsQuery, useTasksQuery, useAreasQuery } from '@/hooks'
+import { useHabitsQuery, useHabitSummaries, useTasksQuery, useAreasQuery } from '@/hooks'
 import { BarChart, LineChart, DonutChart, PieChart, ProgressRing } from '@/components/charts'
 
 // =============================================================================
@@ -167,6 +167,7 @@ export default function AnalyticsScreen() {
   const [timeRange, setTimeRange] = useState<TimeRange>('week')
 
   const { data: habits = [], isLoading: habitsLoading, refetch: refetchHabits } = useHabitsQuery()
+  const { data: summaries = [] } = useHabitSummaries()
   const { data: tasks = [], isLoading: tasksLoading, refetch: refetchTasks } = useTasksQuery()
   const { data: areas = [], isLoading: areasLoading, refetch: refetchAreas } = useAreasQuery()
 
@@ -362,9 +363,10 @@ export default function AnalyticsScreen() {
       return new Date(task.dueDate) < now
     }).length
 
-    // Most consistent habit
+    // Most consistent habit, by lifetime completions
+    const totalsByHabit = new Map(summaries.map((s) => [s.habitId, s.totalCompletions]))
     const habitsByCompletions = [...activeHabits].sort(
-      (a, b) => b.completions.length - a.completions.length
+      (a, b) => (totalsByHabit.get(b.id) ?? 0) - (totalsByHabit.get(a.id) ?? 0)
     )
     const topHabit = habitsByCompletions[0]?.title || null
 
@@ -408,7 +410,7 @@ export default function AnalyticsScreen() {
       trendData,
       totalHabits: activeHabits.length,
     }
-  }, [habits, tasks, areas, timeRange, locale, t])
+  }, [habits, summaries, tasks, areas, timeRange, locale, t])
 
   const hasData = analytics.totalHabits > 0 || tasks.length > 0
 
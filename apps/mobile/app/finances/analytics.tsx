@@ -7,6 +7,8 @@ import {
   ScrollView,
   RefreshControl,
   ActivityIndicator,
+  Switch,
+  TextInput,
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Stack, router } from 'expo-router'
@@ -18,6 +20,9 @@ import {
   PieChart as PieChartIcon,
   BarChart3,
   LineChart as LineChartIcon,
+  CalendarRange,
+  Plus,
+  Trash2,
 } from 'lucide-react-native'
 import Animated, { FadeInDown } from 'react-native-reanimated'
 import { useTheme, spacing, radius, typography, cardShadow } from '@/theme'
@@ -25,13 +30,22 @@ import {
   useTransactionsQuery,
   useCategoriesQuery,
   useMonthlyStats,
+  useCurrencyConversion,
+  useAccountsQuery,
+  useBudgetTemplatesQuery,
+  useGoalsQuery,
+  useRecurrenceExceptionsQuery,
+  useCashFlowForecast,
   type Transaction,
   type TransactionCategory,
 } from '@/hooks'
+import type { ForecastAdjustment } from '@hagu/core'
 import { BarChart, PieChart, LineChart } from '@/components/finances'
 
 type TimeRange = 'week' | 'month' | 'year'
 
+const FORECAST_HORIZONS = [3, 6, 12]
+
 const MONTHS = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez']
 const DAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb']
 
@@ -79,11 +93,30 @@ export default function AnalyticsScreen() {
   const { data: categories = [] } = useCategoriesQuery()
 
   const currentMonth = new Date().toISOString().slice(0, 7)
-  const monthlyStats = useMonthlyStats(transactions, currentMonth)
+  const conversion = useCurrencyConversion()
+  const monthlyStats = useMonthlyStats(transactions, currentMonth, conversion)
 
   const [timeRange, setTimeRange] = useState<TimeRange>('month')
   const [isRefreshing, setIsRefreshing] = useState(false)
 
+  const { data: accounts } = useAccountsQuery()
+  const { data: exceptions } = useRecurrenceExceptionsQuery()
+  const { data: templates } = useBudgetTemplatesQuery()
+  const { data: goals } = useGoalsQuery()
+  const [forecastMonths, setForecastMonths] = useState(6)
+  // What-if items only live on this screen, they are for trying things out
+  const [adjustments, setAdjustments] = useState<ForecastAdjustment[]>([])
+  const [whatIfDescription, setWhatIfDescription] = useState('')
+  const [whatIfAmount, setWhatIfAmount] = useState('')
+  const [whatIfMonth, setWhatIfMonth] = useState<string | undefined>()
+
+  const forecast = useCashFlowForecast(transactions, accounts, exceptions, forecastMonths, {
+    templates,
+    goals,
+    adjustments,
+    conversion,
+  })
+
   const categoryMap = useMemo(() => {
     const map = new Map<string, TransactionCategory>()
     categories.forEach((cat) => map.set(cat.id, cat))
@@ -181,6 +214,36 @@ export default function AnalyticsScreen() {
       })
   }, [transactions, timeRange])
 
+  const forecastData = useMemo(
+    () =>
+      forecast.map((m) => ({
+        label: MONTHS[Number(m.month.slice(5, 7)) - 1],
+        value: m.balance,
+      })),
+    [forecast]
+  )
+  const lowestBalance = Math.min(...forecast.map((m) => m.balance))
+
+  const handleAddWhatIf = () => {
+    const value = parseFloat(whatIfAmount.replace(',', '.'))
+    const month = whatIfMonth ?? forecast[0]?.month
+    if (!whatIfDescription.trim() || isNaN(value) || value <= 0 || !month) return
+
+    setAdjustments((current) => [
+      ...current,
+      {
+        id: `${Date.now()}`,
+        description: whatIfDescription.trim(),
+        type: 'expense',
+        amount: value,
+        month,
+        enabled: true,
+      },
+    ])
+    setWhatIfDescription('')
+    setWhatIfAmount('')
+  }
+
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true)
     await refetch()
@@ -395,6 +458,170 @@ export default function AnalyticsScreen() {
             )}
           </View>
         </Animated.View>
+
+        {/* Cash Flow Forecast */}
+        <Animated.View
+          entering={FadeInDown.delay(400).duration(400)}
+          style={[styles.chartCard, { backgroundColor: colors.card }, cardShadow]}
+        >
+          <View style={styles.chartHeader}>
+            <CalendarRange size={20} color={colors.accent} />
+            <Text style={[styles.chartTitle, { color: colors.foreground }]}>
+              {t('finances.forecast.title')}
+            </Text>
+          </View>
+          <View style={styles.chipRow}>
+            {FORECAST_HORIZONS.map((n) => (
+              <Pressable
+                key={n}
+                onPress={() => setForecastMonths(n)}
+                style={[
+                  styles.chip,
+                  {
+                    backgroundColor:
+                      forecastMonths === n ? colors.accent + '20' : colors.secondary,
+                    borderColor: forecastMonths === n ? colors.accent : colors.border,
+                  },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    { color: forecastMonths === n ? colors.accent : colors.mutedForeground },
+                  ]}
+                >
+                  {t('finances.forecast.months', { count: n })}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          <View style={styles.lineChartContainer}>
+            {forecastData.length > 1 ? (
+              <LineChart
+                data={forecastData}
+                height={180}
+                color={lowestBalance < 0 ? colors.error : colors.success}
+              />
+            ) : (
+              <View style={styles.emptyChart}>
+                <Text style={[styles.emptyChartText, { color: colors.mutedForeground }]}>
+                  {t('finances.stats.noData')}
+                </Text>
+              </View>
+            )}
+          </View>
+          {forecast.length > 0 && (
+            <Text
+              style={[
+                styles.forecastSummary,
+                { color: lowestBalance < 0 ? colors.error : colors.mutedForeground },
+              ]}
+            >
+              {t('finances.forecast.endBalance', {
+                amount: `R$ ${formatCurrency(forecast[forecast.length - 1].balance)}`,
+              })}
+            </Text>
+          )}
+
+          {/* What-if items */}
+          <Text style={[styles.whatIfTitle, { color: colors.foreground }]}>
+            {t('finances.forecast.whatIf')}
+          </Text>
+          {adjustments.map((a) => (
+            <View key={a.id} style={[styles.whatIfRow, { borderColor: colors.border }]}>
+              <Switch
+                value={a.enabled}
+                onValueChange={(enabled) =>
+                  setAdjustments((current) =>
+                    current.map((item) => (item.id === a.id ? { ...item, enabled } : item))
+                  )
+                }
+                trackColor={{ false: colors.muted, true: colors.accent + '80' }}
+                thumbColor={a.enabled ? colors.accent : colors.mutedForeground}
+              />
+              <Text
+                style={[
+                  styles.whatIfDescription,
+                  { color: a.enabled ? colors.foreground : colors.mutedForeground },
+                ]}
+                numberOfLines={1}
+              >
+                {a.description} · {MONTHS[Number(a.month.slice(5, 7)) - 1]}
+              </Text>
+              <Text style={[styles.whatIfAmount, { color: colors.error }]}>
+                R$ {formatCurrency(a.amount)}
+              </Text>
+              <Pressable
+                onPress={() =>
+                  setAdjustments((current) => current.filter((item) => item.id !== a.id))
+                }
+                hitSlop={8}
+              >
+                <Trash2 size={16} color={colors.mutedForeground} />
+              </Pressable>
+            </View>
+          ))}
+          <View style={styles.chipRow}>
+            {forecast.map((m) => {
+              const selected = (whatIfMonth ?? forecast[0]?.month) === m.month
+              return (
+                <Pressable
+                  key={m.month}
+                  onPress={() => setWhatIfMonth(m.month)}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: selected ? colors.accent + '20' : colors.secondary,
+                      borderColor: selected ? colors.accent : colors.border,
+                    },
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      { color: selected ? colors.accent : colors.mutedForeground },
+                    ]}
+                  >
+                    {MONTHS[Number(m.month.slice(5, 7)) - 1]}
+                  </Text>
+                </Pressable>
+              )
+            })}
+          </View>
+          <View style={styles.whatIfForm}>
+            <TextInput
+              style={[
+                styles.whatIfInput,
+                { backgroundColor: colors.secondary, color: colors.foreground, borderColor: colors.border },
+              ]}
+              value={whatIfDescription}
+              onChangeText={setWhatIfDescription}
+              placeholder={t('finances.forecast.whatIfPlaceholder')}
+              placeholderTextColor={colors.mutedForeground}
+            />
+            <TextInput
+              style={[
+                styles.whatIfInput,
+                styles.whatIfAmountInput,
+                { backgroundColor: colors.secondary, color: colors.foreground, borderColor: colors.border },
+              ]}
+              value={whatIfAmount}
+              onChangeText={(text) => setWhatIfAmount(text.replace(/[^0-9.,]/g, ''))}
+              placeholder="0,00"
+              placeholderTextColor={colors.mutedForeground}
+              keyboardType="decimal-pad"
+            />
+            <Pressable
+              onPress={handleAddWhatIf}
+              style={[styles.whatIfAddButton, { backgroundColor: colors.accent }]}
+            >
+              <Plus size={18} color={colors.primaryForeground} />
+            </Pressable>
+          </View>
+          <Text style={[styles.forecastHint, { color: colors.mutedForeground }]}>
+            {t('finances.forecast.hint')}
+          </Text>
+        </Animated.View>
       </ScrollView>
     </SafeAreaView>
   )
@@ -560,4 +787,73 @@ const styles = StyleSheet.create({
   emptyChartText: {
     fontSize: typography.size.sm,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[2],
+    marginBottom: spacing[3],
+  },
+  chip: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[1.5],
+    borderRadius: radius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.medium,
+  },
+  forecastSummary: {
+    fontSize: typography.size.sm,
+    textAlign: 'center',
+    marginBottom: spacing[4],
+  },
+  whatIfTitle: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+    marginBottom: spacing[2],
+  },
+  whatIfRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+    paddingVertical: spacing[2],
+    borderBottomWidth: 1,
+  },
+  whatIfDescription: {
+    flex: 1,
+    fontSize: typography.size.sm,
+  },
+  whatIfAmount: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
+  whatIfForm: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  whatIfInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: radius.lg,
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    fontSize: typography.size.sm,
+  },
+  whatIfAmountInput: {
+    flex: 0,
+    width: 90,
+  },
+  whatIfAddButton: {
+    width: 36,
+    height: 36,
+    borderRadius: radius.lg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  forecastHint: {
+    fontSize: typography.size.xs,
+    marginTop: spacing[3],
+  },
 })
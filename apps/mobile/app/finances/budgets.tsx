@@ -8,6 +8,7 @@ import {
   Alert,
   TextInput,
   ActivityIndicator,
+  Switch,
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Stack, router } from 'expo-router'
@@ -27,43 +28,47 @@ import {
   useBudgetsQuery,
   useUpsertBudget,
   useDeleteBudget,
+  useBudgetTemplatesQuery,
+  useUpsertBudgetTemplate,
+  useDeleteBudgetTemplate,
+  useBudgetMode,
+  useUpdateBudgetMode,
   useCategoriesQuery,
   useTransactionsQuery,
-  useBudgetProgress,
-  type Budget,
+  useBudgetStatuses,
+  useEnvelopeSummary,
+  useCurrencyConversion,
   type TransactionCategory,
 } from '@/hooks'
+import type { BudgetPeriod, BudgetStatus } from '@hagu/core'
 
 function formatCurrency(value: number): string {
   return value.toFixed(2).replace('.', ',')
 }
 
+// Sign in front of the currency symbol: "-R$ 10,00"
+function formatSigned(value: number): string {
+  return `${value < 0 ? '-' : ''}R$ ${formatCurrency(Math.abs(value))}`
+}
+
 function getCurrentMonth(): string {
   return new Date().toISOString().slice(0, 7)
 }
 
 interface BudgetItemProps {
-  budget: Budget
+  status: BudgetStatus
   category: TransactionCategory | undefined
-  spent: number
-  percentage: number
-  isOverBudget: boolean
   onDelete: () => void
   delay: number
 }
 
-function BudgetItem({
-  budget,
-  category,
-  spent,
-  percentage,
-  isOverBudget,
-  onDelete,
-  delay,
-}: BudgetItemProps) {
+function BudgetItem({ status, category, onDelete, delay }: BudgetItemProps) {
   const { t } = useTranslation()
   const { colors } = useTheme()
 
+  const percentage = Math.min(status.percentage, 100)
+  const isOverBudget = status.remaining < 0
+
   const progressColor = isOverBudget
     ? colors.error
     : percentage > 80
@@ -85,6 +90,11 @@ function BudgetItem({
                   })
                 : '-'}
             </Text>
+            {status.period === 'yearly' && (
+              <Text style={[styles.periodBadge, { color: colors.info }]}>
+                {t('finances.budget.yearly')}
+              </Text>
+            )}
           </View>
           <Pressable
             onPress={onDelete}
@@ -101,19 +111,28 @@ function BudgetItem({
               {t('finances.budget.spent')}
             </Text>
             <Text style={[styles.valueAmount, { color: colors.foreground }]}>
-              R$ {formatCurrency(spent)}
+              R$ {formatCurrency(status.spent)}
             </Text>
           </View>
           <View style={{ alignItems: 'flex-end' }}>
             <Text style={[styles.valueLabel, { color: colors.mutedForeground }]}>
-              {t('finances.budget.monthlyLimit')}
+              {t('finances.budget.available')}
             </Text>
             <Text style={[styles.valueAmount, { color: colors.foreground }]}>
-              R$ {formatCurrency(budget.monthlyLimit)}
+              {formatSigned(status.available)}
             </Text>
           </View>
         </View>
 
+        {status.carried !== 0 && (
+          <Text style={[styles.carriedText, { color: colors.mutedForeground }]}>
+            {t('finances.budget.carried', {
+              allocated: formatSigned(status.allocated),
+              carried: formatSigned(status.carried),
+            })}
+          </Text>
+        )}
+
         {/* Progress Bar */}
         <View style={[styles.progressContainer, { backgroundColor: colors.muted }]}>
           <Animated.View
@@ -129,7 +148,7 @@ function BudgetItem({
 
         <View style={styles.budgetFooter}>
           <Text style={[styles.progressText, { color: progressColor }]}>
-            {t('finances.budget.progress', { percent: Math.round(percentage) })}
+            {t('finances.budget.remainingAmount', { amount: formatSigned(status.remaining) })}
           </Text>
           {isOverBudget && (
             <View style={styles.overBudgetBadge}>
@@ -145,10 +164,18 @@ function BudgetItem({
   )
 }
 
+export interface BudgetFormValues {
+  categoryId: string
+  amount: number
+  onlyThisMonth: boolean
+  period: BudgetPeriod
+  rollover: boolean
+}
+
 interface BudgetFormProps {
   categories: TransactionCategory[]
   existingBudgetCategoryIds: string[]
-  onSubmit: (categoryId: string, monthlyLimit: number) => void
+  onSubmit: (values: BudgetFormValues) => void
   onCancel: () => void
   isLoading: boolean
 }
@@ -165,6 +192,9 @@ function BudgetForm({
 
   const [categoryId, setCategoryId] = useState('')
   const [amount, setAmount] = useState('')
+  const [onlyThisMonth, setOnlyThisMonth] = useState(false)
+  const [period, setPeriod] = useState<BudgetPeriod>('monthly')
+  const [rollover, setRollover] = useState(false)
   const [showCategoryPicker, setShowCategoryPicker] = useState(false)
 
   // Only expense categories that don't have a budget yet
@@ -179,9 +209,27 @@ function BudgetForm({
   const handleSubmit = () => {
     if (!isValid) return
     const parsedAmount = parseFloat(amount.replace(',', '.'))
-    onSubmit(categoryId, parsedAmount)
+    onSubmit({ categoryId, amount: parsedAmount, onlyThisMonth, period, rollover })
   }
 
+  const renderOption = (label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? colors.accent + '20' : colors.secondary,
+          borderColor: selected ? colors.accent : colors.border,
+        },
+      ]}
+    >
+      <Text style={[styles.chipText, { color: selected ? colors.accent : colors.foreground }]}>
+        {label}
+      </Text>
+    </Pressable>
+  )
+
   return (
     <View style={[styles.formContainer, { backgroundColor: colors.card }, cardShadow]}>
       <View style={styles.formHeader}>
@@ -268,10 +316,25 @@ function BudgetForm({
         )}
       </View>
 
-      {/* Monthly Limit */}
+      {/* Scope */}
+      <View style={styles.chipRow}>
+        {renderOption(t('finances.budget.everyMonth'), !onlyThisMonth, () => setOnlyThisMonth(false))}
+        {renderOption(t('finances.budget.onlyThisMonth'), onlyThisMonth, () => setOnlyThisMonth(true))}
+      </View>
+
+      {!onlyThisMonth && (
+        <View style={styles.chipRow}>
+          {renderOption(t('finances.budget.monthly'), period === 'monthly', () => setPeriod('monthly'))}
+          {renderOption(t('finances.budget.yearly'), period === 'yearly', () => setPeriod('yearly'))}
+        </View>
+      )}
+
+      {/* Limit */}
       <View style={styles.field}>
         <Text style={[styles.label, { color: colors.foreground }]}>
-          {t('finances.budget.monthlyLimit')}
+          {!onlyThisMonth && period === 'yearly'
+            ? t('finances.budget.yearlyLimit')
+            : t('finances.budget.monthlyLimit')}
         </Text>
         <View
           style={[
@@ -294,6 +357,20 @@ function BudgetForm({
         </View>
       </View>
 
+      {!onlyThisMonth && (
+        <View style={styles.switchRow}>
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.label, { color: colors.foreground }]}>
+              {t('finances.budget.rollover')}
+            </Text>
+            <Text style={[styles.hint, { color: colors.mutedForeground }]}>
+              {t('finances.budget.rolloverHint')}
+            </Text>
+          </View>
+          <Switch value={rollover} onValueChange={setRollover} />
+        </View>
+      )}
+
       {/* Actions */}
       <View style={styles.formActions}>
         <Pressable
@@ -354,30 +431,58 @@ export default function BudgetsScreen() {
   const currentMonth = getCurrentMonth()
 
   const { data: budgets = [], isLoading } = useBudgetsQuery()
+  const { data: templates = [] } = useBudgetTemplatesQuery()
   const { data: categories = [] } = useCategoriesQuery()
   const { data: transactions = [] } = useTransactionsQuery()
   const upsertBudget = useUpsertBudget()
   const deleteBudget = useDeleteBudget()
+  const upsertTemplate = useUpsertBudgetTemplate()
+  const deleteTemplate = useDeleteBudgetTemplate()
+  const budgetMode = useBudgetMode()
+  const updateBudgetMode = useUpdateBudgetMode()
+  const envelopeMode = budgetMode === 'envelopes'
 
   const [showForm, setShowForm] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
-  // Get budgets for current month
-  const monthBudgets = budgets.filter((b) => b.month === currentMonth)
-
-  // Calculate progress for each budget
-  const budgetProgress = useBudgetProgress(transactions, monthBudgets, categories, currentMonth)
+  // Templates carry over to every month, rollover included
+  const conversion = useCurrencyConversion()
+  const budgetStatuses = useBudgetStatuses(
+    transactions,
+    budgets,
+    templates,
+    categories,
+    currentMonth,
+    { conversion, envelopeMode }
+  )
+  const envelope = useEnvelopeSummary(
+    transactions,
+    budgets,
+    templates,
+    currentMonth,
+    conversion
+  )
 
-  const existingBudgetCategoryIds = monthBudgets.map((b) => b.categoryId)
+  const existingBudgetCategoryIds = budgetStatuses.map((s) => s.categoryId)
 
-  const handleCreateBudget = async (categoryId: string, monthlyLimit: number) => {
+  const handleCreateBudget = async (values: BudgetFormValues) => {
     setIsSubmitting(true)
     try {
-      await upsertBudget.mutateAsync({
-        categoryId,
-        monthlyLimit,
-        month: currentMonth,
-      })
+      if (values.onlyThisMonth) {
+        await upsertBudget.mutateAsync({
+          categoryId: values.categoryId,
+          monthlyLimit: values.amount,
+          month: currentMonth,
+        })
+      } else {
+        await upsertTemplate.mutateAsync({
+          categoryId: values.categoryId,
+          amount: values.amount,
+          period: values.period,
+          rollover: values.rollover,
+          startMonth: currentMonth,
+        })
+      }
       setShowForm(false)
     } catch (error) {
       Alert.alert(t('common.error'), t('finances.transaction.saveError'))
@@ -386,7 +491,8 @@ export default function BudgetsScreen() {
     }
   }
 
-  const handleDeleteBudget = (budget: Budget) => {
+  // A single-month budget is removed first, uncovering the template again
+  const handleDeleteBudget = (status: BudgetStatus) => {
     Alert.alert(
       t('finances.budget.deleteTitle'),
       t('finances.budget.deleteConfirm'),
@@ -397,7 +503,11 @@ export default function BudgetsScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteBudget.mutateAsync(budget.id)
+              if (status.budget) {
+                await deleteBudget.mutateAsync(status.budget.id)
+              } else if (status.template) {
+                await deleteTemplate.mutateAsync(status.template.id)
+              }
             } catch (error) {
               Alert.alert(t('common.error'), t('finances.transaction.deleteError'))
             }
@@ -454,6 +564,42 @@ export default function BudgetsScreen() {
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
       >
+        {/* Envelope Mode */}
+        <View style={[styles.envelopeCard, { backgroundColor: colors.card }, cardShadow]}>
+          <View style={styles.switchRow}>
+            <Text style={[styles.label, { flex: 1, color: colors.foreground }]}>
+              {t('finances.budget.envelopes')}
+            </Text>
+            <Switch
+              value={envelopeMode}
+              onValueChange={(checked) =>
+                updateBudgetMode.mutate(checked ? 'envelopes' : 'limits')
+              }
+            />
+          </View>
+          {envelopeMode && (
+            <>
+              <Text style={[styles.valueLabel, { color: colors.mutedForeground }]}>
+                {t('finances.budget.toAssign')}
+              </Text>
+              <Text
+                style={[
+                  styles.valueAmount,
+                  { color: envelope.toAssign < 0 ? colors.error : colors.foreground },
+                ]}
+              >
+                {formatSigned(envelope.toAssign)}
+              </Text>
+              <Text style={[styles.hint, { color: colors.mutedForeground }]}>
+                {t('finances.budget.envelopeSummary', {
+                  income: formatSigned(envelope.income),
+                  assigned: formatSigned(envelope.assigned),
+                })}
+              </Text>
+            </>
+          )}
+        </View>
+
         {/* Budget Form */}
         {showForm && (
           <BudgetForm
@@ -466,19 +612,16 @@ export default function BudgetsScreen() {
         )}
 
         {/* Empty State */}
-        {monthBudgets.length === 0 && !showForm ? (
+        {budgetStatuses.length === 0 && !showForm ? (
           <EmptyState onAddBudget={() => setShowForm(true)} />
         ) : (
           <View style={styles.budgetList}>
-            {budgetProgress.map((item, index) => (
+            {budgetStatuses.map((item, index) => (
               <BudgetItem
-                key={item.budget.id}
-                budget={item.budget}
+                key={item.categoryId}
+                status={item}
                 category={item.category}
-                spent={item.spent}
-                percentage={item.percentage}
-                isOverBudget={item.isOverBudget}
-                onDelete={() => handleDeleteBudget(item.budget)}
+                onDelete={() => handleDeleteBudget(item)}
                 delay={100 + index * 50}
               />
             ))}
@@ -605,6 +748,18 @@ const styles = StyleSheet.create({
     fontSize: typography.size.xs,
     fontWeight: typography.weight.medium,
   },
+  periodBadge: {
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.medium,
+  },
+  carriedText: {
+    fontSize: typography.size.xs,
+  },
+  envelopeCard: {
+    padding: spacing[4],
+    borderRadius: radius.xl,
+    gap: spacing[1],
+  },
 
   // Form
   formContainer: {
@@ -680,6 +835,29 @@ const styles = StyleSheet.create({
     fontWeight: typography.weight.semibold,
     padding: 0,
   },
+  chipRow: {
+    flexDirection: 'row',
+    gap: spacing[2],
+  },
+  chip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing[2.5],
+    borderRadius: radius.lg,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[3],
+  },
+  hint: {
+    fontSize: typography.size.xs,
+  },
   formActions: {
     flexDirection: 'row',
     gap: spacing[3],
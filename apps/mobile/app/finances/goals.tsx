@@ -20,6 +20,7 @@ import {
   PartyPopper,
   X,
   Calendar,
+  AlertTriangle,
 } from 'lucide-react-native'
 import Animated, { FadeInDown } from 'react-native-reanimated'
 import { useTheme, spacing, radius, typography, cardShadow } from '@/theme'
@@ -29,7 +30,10 @@ import {
   useCreateGoal,
   useDeleteGoal,
   useAddContribution,
+  useTransactionsQuery,
+  useGoalPlans,
   type FinancialGoal,
+  type GoalPlan,
 } from '@/hooks'
 
 const GOAL_COLORS = [
@@ -53,18 +57,20 @@ function formatCurrency(value: number): string {
 
 interface GoalItemProps {
   goal: FinancialGoal
+  plan?: GoalPlan
   onDelete: () => void
   onAddContribution: () => void
   delay: number
 }
 
-function GoalItem({ goal, onDelete, onAddContribution, delay }: GoalItemProps) {
+function GoalItem({ goal, plan, onDelete, onAddContribution, delay }: GoalItemProps) {
   const { t } = useTranslation()
   const { colors } = useTheme()
 
   const percentage = Math.round((goal.currentAmount / goal.targetAmount) * 100)
   const remaining = goal.targetAmount - goal.currentAmount
   const isCompleted = goal.completedAt !== null && goal.completedAt !== undefined
+  const isOffTrack = !isCompleted && plan?.status === 'off_track'
 
   return (
     <Animated.View entering={FadeInDown.delay(delay).duration(400)}>
@@ -81,6 +87,14 @@ function GoalItem({ goal, onDelete, onAddContribution, delay }: GoalItemProps) {
             </View>
             <View style={styles.goalNameContainer}>
               <Text style={[styles.goalName, { color: colors.foreground }]}>{goal.name}</Text>
+              {isOffTrack && (
+                <View style={styles.offTrackBadge}>
+                  <AlertTriangle size={12} color={colors.warning} />
+                  <Text style={[styles.offTrackText, { color: colors.warning }]}>
+                    {t('finances.goal.offTrack')}
+                  </Text>
+                </View>
+              )}
               {goal.deadline && (
                 <Text style={[styles.goalDeadline, { color: colors.mutedForeground }]}>
                   {new Date(goal.deadline).toLocaleDateString('pt-BR', {
@@ -140,6 +154,34 @@ function GoalItem({ goal, onDelete, onAddContribution, delay }: GoalItemProps) {
           )}
         </View>
 
+        {/* Plan */}
+        {!isCompleted && plan && plan.status !== 'completed' && (
+          <View style={styles.goalPlan}>
+            {plan.requiredMonthly !== undefined && (
+              <Text
+                style={[
+                  styles.remainingText,
+                  { color: isOffTrack ? colors.warning : colors.mutedForeground },
+                ]}
+              >
+                {t('finances.goal.requiredMonthly', {
+                  amount: `R$ ${formatCurrency(plan.requiredMonthly)}`,
+                })}
+              </Text>
+            )}
+            <Text style={[styles.remainingText, { color: colors.mutedForeground }]}>
+              {plan.projectedCompletion
+                ? t('finances.goal.projectedCompletion', {
+                    month: new Date(`${plan.projectedCompletion}-01T00:00:00`).toLocaleDateString(
+                      'pt-BR',
+                      { month: 'short', year: 'numeric' }
+                    ),
+                  })
+                : t('finances.goal.noPace')}
+            </Text>
+          </View>
+        )}
+
         {/* Add Contribution Button */}
         {!isCompleted && (
           <Pressable
@@ -486,6 +528,8 @@ export default function GoalsScreen() {
   const { colors } = useTheme()
 
   const { data: goals = [], isLoading } = useGoalsQuery()
+  const { data: transactions } = useTransactionsQuery()
+  const plans = useGoalPlans(goals, transactions)
   const createGoal = useCreateGoal()
   const deleteGoal = useDeleteGoal()
   const addContribution = useAddContribution()
@@ -624,6 +668,7 @@ export default function GoalsScreen() {
               <GoalItem
                 key={goal.id}
                 goal={goal}
+                plan={plans.get(goal.id)}
                 onDelete={() => handleDeleteGoal(goal)}
                 onAddContribution={() => setContributingGoal(goal)}
                 delay={100 + index * 50}
@@ -759,6 +804,22 @@ const styles = StyleSheet.create({
   remainingText: {
     fontSize: typography.size.xs,
   },
+  goalPlan: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    gap: spacing[1],
+  },
+  offTrackBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[1],
+    marginTop: spacing[0.5],
+  },
+  offTrackText: {
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.semibold,
+  },
   addContributionButton: {
     flexDirection: 'row',
     alignItems: 'center',
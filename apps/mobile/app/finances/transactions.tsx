@@ -19,6 +19,7 @@ import {
   X,
   ArrowUpRight,
   ArrowDownRight,
+  ArrowRightLeft,
   Filter,
   Wallet,
 } from 'lucide-react-native'
@@ -63,8 +64,11 @@ interface TransactionItemProps {
 }
 
 function TransactionItem({ transaction, category, onPress }: TransactionItemProps) {
+  const { t } = useTranslation()
   const { colors } = useTheme()
   const isIncome = transaction.type === 'income'
+  const isTransfer = transaction.type === 'transfer'
+  const amountColor = isTransfer ? colors.info : isIncome ? colors.success : colors.error
 
   return (
     <Pressable onPress={onPress}>
@@ -72,10 +76,12 @@ function TransactionItem({ transaction, category, onPress }: TransactionItemProp
         <View
           style={[
             styles.transactionIcon,
-            { backgroundColor: isIncome ? colors.success + '15' : colors.error + '15' },
+            { backgroundColor: amountColor + '15' },
           ]}
         >
-          {isIncome ? (
+          {isTransfer ? (
+            <ArrowRightLeft size={20} color={colors.info} />
+          ) : isIncome ? (
             <ArrowUpRight size={20} color={colors.success} />
           ) : (
             <ArrowDownRight size={20} color={colors.error} />
@@ -86,16 +92,16 @@ function TransactionItem({ transaction, category, onPress }: TransactionItemProp
             {transaction.description}
           </Text>
           <Text style={[styles.transactionMeta, { color: colors.mutedForeground }]}>
-            {category?.name || 'Sem categoria'}
+            {isTransfer ? t('finances.transfer') : category?.name || 'Sem categoria'}
           </Text>
         </View>
         <Text
           style={[
             styles.transactionAmount,
-            { color: isIncome ? colors.success : colors.error },
+            { color: amountColor },
           ]}
         >
-          {isIncome ? '+' : '-'}R$ {formatCurrency(transaction.amount)}
+          {isTransfer ? '' : isIncome ? '+' : '-'}R$ {formatCurrency(transaction.amount)}
         </Text>
       </View>
     </Pressable>
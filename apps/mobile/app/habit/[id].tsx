@@ -13,79 +13,42 @@ import {
   TrendingUp,
   Calendar,
   CheckCircle2,
+  Snowflake,
+  ShieldAlert,
 } from 'lucide-react-native'
 import Animated, { FadeInDown, FadeIn } from 'react-native-reanimated'
+import { calculateHabitStreak, addDays, isHabitDueOn, isVacationDay } from '@hagu/core'
+import type { Vacation } from '@hagu/core'
 import { useTheme, cardShadow, spacing, radius, typography } from '@/theme'
 import {
-  useHabitQuery,
+  useHabitsQuery,
+  useHabitCompletionsRange,
+  useHabitSummary,
   useDeleteHabit,
   useArchiveHabit,
   useUnarchiveHabit,
   useToggleHabitCompletion,
   useSetCompletionValue,
+  useLogRelapse,
+  useVacationsQuery,
+  useHabitFreezes,
+  useSpendStreakFreeze,
+  useUserStats,
 } from '@/hooks'
 import { HabitFormModal, QuantityInputModal } from '@/components/habits'
+import { PageMentions } from '@/components/notes'
 
 const SCREEN_WIDTH = Dimensions.get('window').width
 const CELL_SIZE = Math.floor((SCREEN_WIDTH - 48 - 12 * 6) / 53) // 53 weeks, some padding
 const CELL_GAP = 2
+const FROZEN_COLOR = '#38bdf8'
+// 52 weeks plus the partial week the heatmap starts with
+const HISTORY_DAYS = 371
 
 function getTodayString(): string {
   return new Date().toISOString().split('T')[0]
 }
 
-function calculateStreak(completions: Array<{ date: string }>): number {
-  if (!completions || completions.length === 0) return 0
-
-  const dates = completions.map((c) => c.date).sort((a, b) => b.localeCompare(a))
-  const today = getTodayString()
-  const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0]
-
-  const checkDate = dates[0] === today ? today : dates[0] === yesterday ? yesterday : null
-  if (!checkDate) return 0
-
-  let streak = 1
-  let prevDate = new Date(checkDate)
-
-  for (let i = 1; i < dates.length; i++) {
-    const expectedPrev = new Date(prevDate)
-    expectedPrev.setDate(expectedPrev.getDate() - 1)
-    const expectedPrevStr = expectedPrev.toISOString().split('T')[0]
-
-    if (dates[i] === expectedPrevStr) {
-      streak++
-      prevDate = expectedPrev
-    } else {
-      break
-    }
-  }
-
-  return streak
-}
-
-function calculateBestStreak(completions: Array<{ date: string }>): number {
-  if (!completions || completions.length === 0) return 0
-
-  const dates = [...new Set(completions.map((c) => c.date))].sort()
-  let maxStreak = 1
-  let currentStreak = 1
-
-  for (let i = 1; i < dates.length; i++) {
-    const prev = new Date(dates[i - 1])
-    const curr = new Date(dates[i])
-    const diffDays = Math.round((curr.getTime() - prev.getTime()) / 86400000)
-
-    if (diffDays === 1) {
-      currentStreak++
-      maxStreak = Math.max(maxStreak, currentStreak)
-    } else {
-      currentStreak = 1
-    }
-  }
-
-  return maxStreak
-}
-
 function getYearDates(): string[][] {
   const today = new Date()
   const weeks: string[][] = []
@@ -122,9 +85,21 @@ interface YearHeatmapProps {
   color: string
   isQuantitative: boolean
   target: number
+  frozenDates: string[]
+  vacations: Pick<Vacation, 'startDate' | 'endDate'>[]
+  // Set for avoid habits: days logged over the limit are drawn as relapses
+  relapseLimit?: number
 }
 
-function YearHeatmap({ completions, color, isQuantitative, target }: YearHeatmapProps) {
+function YearHeatmap({
+  completions,
+  color,
+  isQuantitative,
+  target,
+  frozenDates,
+  vacations,
+  relapseLimit,
+}: YearHeatmapProps) {
   const { colors } = useTheme()
   const weeks = useMemo(() => getYearDates(), [])
   const today = getTodayString()
@@ -156,9 +131,14 @@ function YearHeatmap({ completions, color, isQuantitative, target }: YearHeatmap
           {weeks.map((week, weekIndex) => (
             <View key={weekIndex} style={styles.heatmapWeek}>
               {week.map((date) => {
-                const value = completionMap.get(date) ?? 0
+                const logged = completionMap.get(date) ?? 0
+                const isRelapse = relapseLimit !== undefined && logged > relapseLimit
+                const value = relapseLimit !== undefined ? 0 : logged
                 const isToday = date === today
                 const isFuture = date > today
+                // Rest days keep the streak alive, so they are drawn apart from misses
+                const isFrozen = value === 0 && frozenDates.includes(date)
+                const isVacation = value === 0 && !isFrozen && isVacationDay(date, vacations)
 
                 return (
                   <View
@@ -170,8 +150,22 @@ function YearHeatmap({ completions, color, isQuantitative, target }: YearHeatmap
                           ? 'transparent'
                           : value > 0
                           ? color
+                          : isRelapse
+                          ? colors.error
+                          : isFrozen
+                          ? FROZEN_COLOR
+                          : isVacation
+                          ? colors.mutedForeground
                           : colors.muted,
-                        opacity: isFuture ? 0.3 : getOpacity(value),
+                        opacity: isFuture
+                          ? 0.3
+                          : isRelapse
+                          ? 0.8
+                          : isFrozen
+                          ? 0.6
+                          : isVacation
+                          ? 0.35
+                          : getOpacity(value),
                         borderWidth: isToday ? 2 : 0,
                         borderColor: isToday ? colors.foreground : 'transparent',
                       },
@@ -202,30 +196,74 @@ export default function HabitDetailScreen() {
   const { t } = useTranslation()
   const { colors } = useTheme()
 
-  const { data: habit, isLoading } = useHabitQuery(id)
+  // The habit list only carries recent completions; history is loaded by range
+  const { data: habits, isLoading } = useHabitsQuery()
+  const habit = habits?.find((h) => h.id === id)
+  const today = getTodayString()
+  const { data: historyCompletions } = useHabitCompletionsRange(
+    id,
+    addDays(today, -HISTORY_DAYS),
+    today
+  )
+  const { data: summary } = useHabitSummary(id)
+  const { data: vacations = [] } = useVacationsQuery()
+  const { data: freezes = [] } = useHabitFreezes(id)
+  const { data: userStats } = useUserStats()
+  const spendFreeze = useSpendStreakFreeze()
   const deleteHabit = useDeleteHabit()
   const archiveHabit = useArchiveHabit()
   const unarchiveHabit = useUnarchiveHabit()
   const toggleCompletion = useToggleHabitCompletion()
   const setCompletionValue = useSetCompletionValue()
+  const logRelapse = useLogRelapse()
 
   const [showEditModal, setShowEditModal] = useState(false)
   const [showQuantityModal, setShowQuantityModal] = useState(false)
 
-  const today = getTodayString()
   const todayCompletion = habit?.completions.find((c) => c.date === today)
   const isCompletedToday = !!todayCompletion
 
   const isQuantitative = habit?.tracking.type === 'quantitative'
   const target = habit?.tracking.type === 'quantitative' ? habit.tracking.target : 1
-  const unit = habit?.tracking.type === 'quantitative' ? habit.tracking.unit : ''
+  const isAvoid = habit?.tracking.type === 'avoid'
+  const limit = habit?.tracking.type === 'avoid' ? habit.tracking.limit : undefined
+  const unit =
+    habit?.tracking.type === 'quantitative'
+      ? habit.tracking.unit
+      : habit?.tracking.type === 'avoid'
+      ? habit.tracking.unit ?? ''
+      : ''
   const currentValue = todayCompletion?.value ?? 0
   const progress = isQuantitative && target > 0 ? Math.min((currentValue / target) * 100, 100) : 0
   const isTargetMet = isQuantitative ? currentValue >= target : isCompletedToday
 
-  const streak = useMemo(() => (habit ? calculateStreak(habit.completions) : 0), [habit])
-  const bestStreak = useMemo(() => (habit ? calculateBestStreak(habit.completions) : 0), [habit])
-  const totalCompletions = useMemo(() => habit?.completions.length ?? 0, [habit])
+  const frozenDates = useMemo(() => freezes.map((f) => f.date), [freezes])
+  const historyHabit = useMemo(
+    () => (habit ? { ...habit, completions: historyCompletions ?? habit.completions } : null),
+    [habit, historyCompletions]
+  )
+  const habitStreak = useMemo(
+    () => (historyHabit ? calculateHabitStreak(historyHabit, { frozenDates, vacations }) : null),
+    [historyHabit, frozenDates, vacations]
+  )
+  // Older history is outside the loaded range, which would cap a run that
+  // started before it. The stored streak was computed over the whole history
+  // when the habit was last logged, so it holds a run that is still going
+  const streak = habitStreak?.currentStreak
+    ? Math.max(habitStreak.currentStreak, summary?.currentStreak ?? 0)
+    : 0
+  // Likewise keep the best streak ever recorded
+  const bestStreak = Math.max(habitStreak?.longestStreak ?? 0, streak, summary?.longestStreak ?? 0)
+  const totalCompletions = summary?.totalCompletions ?? historyHabit?.completions.length ?? 0
+
+  // A missed day can still be covered by a freeze the day after
+  const yesterday = addDays(today, -1)
+  const canFreezeYesterday =
+    !!habit &&
+    isHabitDueOn(habit, yesterday, vacations) &&
+    !habit.completions.some((c) => c.date === yesterday) &&
+    !frozenDates.includes(yesterday)
+  const freezeTokens = userStats?.freezeTokens ?? 0
 
   const handleBack = useCallback(() => {
     router.back()
@@ -275,12 +313,14 @@ export default function HabitDetailScreen() {
   const handleToggle = useCallback(() => {
     if (!habit) return
 
-    if (isQuantitative) {
+    if (isAvoid) {
+      logRelapse.mutate({ habitId: habit.id, date: today })
+    } else if (isQuantitative) {
       setShowQuantityModal(true)
     } else {
       toggleCompletion.mutate({ habitId: habit.id, date: today })
     }
-  }, [habit, isQuantitative, toggleCompletion, today])
+  }, [habit, isAvoid, isQuantitative, logRelapse, toggleCompletion, today])
 
   const handleQuantitySubmit = useCallback(
     (value: number) => {
@@ -290,6 +330,18 @@ export default function HabitDetailScreen() {
     [habit, setCompletionValue, today]
   )
 
+  const handleFreezeYesterday = useCallback(() => {
+    if (!habit) return
+
+    Alert.alert(t('habits.freezeYesterday'), t('habits.freezeConfirm', { count: freezeTokens }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.confirm'),
+        onPress: () => spendFreeze.mutate({ habitId: habit.id, date: yesterday }),
+      },
+    ])
+  }, [habit, freezeTokens, spendFreeze, yesterday, t])
+
   if (isLoading || !habit) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
@@ -387,34 +439,60 @@ export default function HabitDetailScreen() {
               </View>
             )}
 
-            <Pressable
-              onPress={handleToggle}
-              style={[
-                styles.todayButton,
-                {
-                  backgroundColor: isTargetMet ? habit.color : colors.secondary,
-                },
-              ]}
-            >
-              <CheckCircle2
-                size={22}
-                color={isTargetMet ? colors.white : colors.mutedForeground}
-              />
-              <Text
+            {isAvoid && (
+              <View style={styles.quantitativeProgress}>
+                <View style={styles.progressRow}>
+                  <ShieldAlert size={16} color={habit.color} />
+                  <Text style={[styles.progressText, { color: colors.mutedForeground }]}>
+                    {t('habits.todayCount', { count: currentValue, limit })} {unit}
+                  </Text>
+                  <Text style={[styles.percentText, { color: habit.color }]}>
+                    {t('habits.cleanDays', { count: streak })}
+                  </Text>
+                </View>
+              </View>
+            )}
+
+            {isAvoid ? (
+              <Pressable
+                onPress={handleToggle}
+                style={[styles.todayButton, { backgroundColor: colors.secondary }]}
+              >
+                <ShieldAlert size={22} color={colors.mutedForeground} />
+                <Text style={[styles.todayButtonText, { color: colors.foreground }]}>
+                  {t('habits.logRelapse')}
+                </Text>
+              </Pressable>
+            ) : (
+              <Pressable
+                onPress={handleToggle}
                 style={[
-                  styles.todayButtonText,
-                  { color: isTargetMet ? colors.white : colors.foreground },
+                  styles.todayButton,
+                  {
+                    backgroundColor: isTargetMet ? habit.color : colors.secondary,
+                  },
                 ]}
               >
-                {isQuantitative
-                  ? isTargetMet
-                    ? t('habits.complete')
-                    : t('habits.addValue')
-                  : isTargetMet
-                  ? t('habits.completed')
-                  : t('habits.markComplete')}
-              </Text>
-            </Pressable>
+                <CheckCircle2
+                  size={22}
+                  color={isTargetMet ? colors.white : colors.mutedForeground}
+                />
+                <Text
+                  style={[
+                    styles.todayButtonText,
+                    { color: isTargetMet ? colors.white : colors.foreground },
+                  ]}
+                >
+                  {isQuantitative
+                    ? isTargetMet
+                      ? t('habits.complete')
+                      : t('habits.addValue')
+                    : isTargetMet
+                    ? t('habits.completed')
+                    : t('habits.markComplete')}
+                </Text>
+              </Pressable>
+            )}
           </Animated.View>
         )}
 
@@ -459,6 +537,22 @@ export default function HabitDetailScreen() {
               </Text>
             </View>
           </View>
+
+          {canFreezeYesterday && (
+            <Pressable
+              onPress={handleFreezeYesterday}
+              disabled={freezeTokens < 1 || spendFreeze.isPending}
+              style={[
+                styles.freezeButton,
+                { borderColor: FROZEN_COLOR, opacity: freezeTokens < 1 ? 0.5 : 1 },
+              ]}
+            >
+              <Snowflake size={16} color={FROZEN_COLOR} />
+              <Text style={[styles.freezeButtonText, { color: FROZEN_COLOR }]}>
+                {t('habits.freezeYesterdayCount', { count: freezeTokens })}
+              </Text>
+            </Pressable>
+          )}
         </Animated.View>
 
         {/* Year Heatmap */}
@@ -470,12 +564,18 @@ export default function HabitDetailScreen() {
             {t('habits.thisYear')}
           </Text>
           <YearHeatmap
-            completions={habit.completions}
+            completions={historyHabit?.completions ?? habit.completions}
             color={habit.color}
             isQuantitative={isQuantitative}
             target={target}
+            frozenDates={frozenDates}
+            vacations={vacations}
+            relapseLimit={limit}
           />
         </Animated.View>
+
+        {/* Notes mentioning the habit */}
+        <PageMentions targetType="habit" targetId={habit.id} style={styles.mentions} />
       </ScrollView>
 
       {/* Edit Modal */}
@@ -636,6 +736,20 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
   },
+  freezeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing[2],
+    marginTop: spacing[4],
+    paddingVertical: spacing[2],
+    borderWidth: 1,
+    borderRadius: radius.lg,
+  },
+  freezeButtonText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
   statItem: {
     alignItems: 'center',
     flex: 1,
@@ -668,6 +782,10 @@ const styles = StyleSheet.create({
   heatmapContainer: {
     // Container for heatmap
   },
+  mentions: {
+    marginHorizontal: spacing[6],
+    marginBottom: spacing[4],
+  },
   heatmapScroll: {
     paddingRight: spacing[2],
   },
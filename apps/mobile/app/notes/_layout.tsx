@@ -35,6 +35,12 @@ export default function NotesLayout() {
           title: '',
         }}
       />
+      <Stack.Screen
+        name="review"
+        options={{
+          title: '',
+        }}
+      />
     </Stack>
   )
 }
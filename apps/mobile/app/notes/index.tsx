@@ -21,6 +21,7 @@ import {
   ChevronLeft,
   X,
   Check,
+  Layers,
 } from 'lucide-react-native'
 import Animated, { FadeInDown } from 'react-native-reanimated'
 import { useTheme, cardShadow, spacing, radius, typography } from '@/theme'
@@ -32,6 +33,7 @@ import {
   NOTEBOOK_COLORS,
   Notebook,
 } from '@/hooks/use-notes'
+import { useDueFlashcards } from '@/hooks/use-flashcards'
 
 // =============================================================================
 // Helpers
@@ -235,6 +237,7 @@ export default function NotesScreen() {
   const router = useRouter()
 
   const { data: notebooks = [], isLoading, refetch } = useNotebooksQuery()
+  const { data: dueCards = [] } = useDueFlashcards()
   const [searchQuery, setSearchQuery] = useState('')
   const searchResults = useSearchNotes(searchQuery)
   const [showCreateModal, setShowCreateModal] = useState(false)
@@ -302,6 +305,27 @@ export default function NotesScreen() {
           </View>
         </Animated.View>
 
+        {/* Flashcard Review */}
+        {!isSearching && dueCards.length > 0 && (
+          <Animated.View entering={FadeInDown.delay(75).duration(400)}>
+            <Pressable
+              style={[styles.reviewBanner, { backgroundColor: colors.card }, cardShadow]}
+              onPress={() => router.push('/notes/review')}
+            >
+              <Layers size={20} color={colors.accent} />
+              <View style={styles.reviewBannerContent}>
+                <Text style={[styles.reviewBannerTitle, { color: colors.foreground }]}>
+                  {t('flashcards.dailyReview')}
+                </Text>
+                <Text style={[styles.reviewBannerText, { color: colors.mutedForeground }]}>
+                  {t('flashcards.dueToday', { count: dueCards.length })}
+                </Text>
+              </View>
+              <ChevronRight size={18} color={colors.mutedForeground} />
+            </Pressable>
+          </Animated.View>
+        )}
+
         {/* Search Results */}
         {isSearching ? (
           <View style={styles.searchResults}>
@@ -325,7 +349,7 @@ export default function NotesScreen() {
                     {index > 0 && <View style={[styles.divider, { backgroundColor: colors.border }]} />}
                     <SearchResult
                       title={note.title}
-                      preview={note.content.substring(0, 100)}
+                      preview={note.preview.substring(0, 100)}
                       onPress={() => router.push(`/notes/note/${note.id}`)}
                     />
                   </View>
@@ -468,6 +492,27 @@ const styles = StyleSheet.create({
     marginTop: spacing[0.5],
   },
 
+  // Flashcard Review
+  reviewBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[3],
+    marginTop: spacing[4],
+    padding: spacing[4],
+    borderRadius: radius.xl,
+  },
+  reviewBannerContent: {
+    flex: 1,
+    gap: spacing[1],
+  },
+  reviewBannerTitle: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+  reviewBannerText: {
+    fontSize: typography.size.xs,
+  },
+
   // Search Results
   searchResults: {
     flex: 1,
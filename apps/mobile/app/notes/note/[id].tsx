@@ -22,6 +22,9 @@ import {
   PinOff,
   Clock,
   Check,
+  Eye,
+  PenLine,
+  History,
 } from 'lucide-react-native'
 import Animated, { FadeInDown } from 'react-native-reanimated'
 import { useTheme, spacing, radius, typography } from '@/theme'
@@ -30,8 +33,16 @@ import {
   useUpdateNote,
   useDeleteNote,
   useToggleNotePin,
+  type Note,
 } from '@/hooks/use-notes'
-import { FormattingToolbar, applyFormatting, type FormatAction } from '@/components/notes'
+import {
+  FormattingToolbar,
+  MarkdownRenderer,
+  PageMentions,
+  PageHistory,
+  applyFormatting,
+  type FormatAction,
+} from '@/components/notes'
 
 // =============================================================================
 // Helpers
@@ -67,14 +78,19 @@ export default function NoteEditorScreen() {
   const [showMenu, setShowMenu] = useState(false)
   const [selection, setSelection] = useState({ start: 0, end: 0 })
   const [isKeyboardVisible, setIsKeyboardVisible] = useState(false)
+  const [isPreview, setIsPreview] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
 
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const hasChangesRef = useRef(false)
   const contentInputRef = useRef<TextInput>(null)
 
-  // Initialize state from note data
+  // Initialize state from note data once, so refetches after saving do not
+  // replace what is being typed with the normalized Markdown
+  const loadedNoteIdRef = useRef<string | null>(null)
   useEffect(() => {
-    if (note) {
+    if (note && loadedNoteIdRef.current !== note.id) {
+      loadedNoteIdRef.current = note.id
       setTitle(note.title)
       setContent(note.content)
     }
@@ -196,6 +212,17 @@ export default function NoteEditorScreen() {
     setShowMenu(false)
   }
 
+  // The restored version replaces what is in the editor, pending save included
+  const handleRestored = (restored: Note) => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current)
+    }
+    hasChangesRef.current = false
+    setTitle(restored.title)
+    setContent(restored.content)
+    setLastSaved(new Date())
+  }
+
   if (isLoading || !note) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
@@ -236,6 +263,19 @@ export default function NoteEditorScreen() {
                 ) : null}
               </View>
 
+              <Pressable
+                onPress={() => setIsPreview((value) => !value)}
+                hitSlop={8}
+                style={styles.headerButton}
+                accessibilityLabel={isPreview ? t('notes.edit') : t('notes.preview')}
+              >
+                {isPreview ? (
+                  <PenLine size={20} color={colors.foreground} />
+                ) : (
+                  <Eye size={20} color={colors.foreground} />
+                )}
+              </Pressable>
+
               <Pressable onPress={() => setShowMenu(true)} hitSlop={8} style={styles.headerButton}>
                 <MoreVertical size={22} color={colors.foreground} />
               </Pressable>
@@ -296,21 +336,28 @@ export default function NoteEditorScreen() {
           <View style={[styles.divider, { backgroundColor: colors.border }]} />
 
           {/* Content Input */}
-          <TextInput
-            ref={contentInputRef}
-            style={[styles.contentInput, { color: colors.foreground }]}
-            value={content}
-            onChangeText={handleContentChange}
-            onSelectionChange={(e) => setSelection(e.nativeEvent.selection)}
-            placeholder={t('notes.contentPlaceholder')}
-            placeholderTextColor={colors.mutedForeground}
-            multiline
-            textAlignVertical="top"
-          />
+          {isPreview ? (
+            <MarkdownRenderer content={content} />
+          ) : (
+            <TextInput
+              ref={contentInputRef}
+              style={[styles.contentInput, { color: colors.foreground }]}
+              value={content}
+              onChangeText={handleContentChange}
+              onSelectionChange={(e) => setSelection(e.nativeEvent.selection)}
+              placeholder={t('notes.contentPlaceholder')}
+              placeholderTextColor={colors.mutedForeground}
+              multiline
+              textAlignVertical="top"
+            />
+          )}
+
+          {/* Backlinks */}
+          <PageMentions targetType="page" targetId={id} style={styles.backlinks} />
         </ScrollView>
 
         {/* Formatting Toolbar */}
-        {isKeyboardVisible && <FormattingToolbar onFormat={handleFormat} />}
+        {isKeyboardVisible && !isPreview && <FormattingToolbar onFormat={handleFormat} />}
       </KeyboardAvoidingView>
 
       {/* Menu Modal */}
@@ -335,6 +382,19 @@ export default function NoteEditorScreen() {
               )}
             </Pressable>
             <View style={[styles.menuDivider, { backgroundColor: colors.border }]} />
+            <Pressable
+              style={styles.menuItem}
+              onPress={() => {
+                setShowMenu(false)
+                setShowHistory(true)
+              }}
+            >
+              <History size={20} color={colors.foreground} />
+              <Text style={[styles.menuItemText, { color: colors.foreground }]}>
+                {t('notes.history')}
+              </Text>
+            </Pressable>
+            <View style={[styles.menuDivider, { backgroundColor: colors.border }]} />
             <Pressable style={styles.menuItem} onPress={handleDelete}>
               <Trash2 size={20} color={colors.error} />
               <Text style={[styles.menuItemText, { color: colors.error }]}>
@@ -344,6 +404,15 @@ export default function NoteEditorScreen() {
           </View>
         </Pressable>
       </Modal>
+
+      {/* Version History */}
+      <PageHistory
+        visible={showHistory}
+        onClose={() => setShowHistory(false)}
+        pageId={id}
+        currentContent={content}
+        onRestored={handleRestored}
+      />
     </SafeAreaView>
   )
 }
@@ -447,6 +516,9 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     minHeight: 200,
   },
+  backlinks: {
+    marginTop: spacing[6],
+  },
 
   // Menu Modal
   menuOverlay: {
@@ -24,6 +24,8 @@ import {
   ChevronLeft,
   X,
   Check,
+  Layers,
+  ChevronRight,
 } from 'lucide-react-native'
 import Animated, { FadeInDown } from 'react-native-reanimated'
 import { useTheme, cardShadow, spacing, radius, typography } from '@/theme'
@@ -37,6 +39,7 @@ import {
   NOTEBOOK_COLORS,
   Note,
 } from '@/hooks/use-notes'
+import { useDueFlashcards } from '@/hooks/use-flashcards'
 
 // =============================================================================
 // Helpers
@@ -96,7 +99,7 @@ function NoteCard({ note, onPress, delay, cardWidth }: NoteCardProps) {
           {note.title}
         </Text>
         <Text style={[styles.notePreview, { color: colors.mutedForeground }]} numberOfLines={2}>
-          {note.content || 'No content'}
+          {note.preview || 'No content'}
         </Text>
         <Text style={[styles.noteDate, { color: colors.mutedForeground }]}>
           {formatDate(note.updatedAt)}
@@ -239,6 +242,7 @@ export default function NotebookScreen() {
   const { data: notes = [], isLoading, refetch } = useNotesQuery(id)
   const { mutate: createNote } = useCreateNote()
   const { mutate: deleteNotebook } = useDeleteNotebook()
+  const { data: dueCards = [] } = useDueFlashcards(id)
 
   const [showEditModal, setShowEditModal] = useState(false)
   const [showMenu, setShowMenu] = useState(false)
@@ -351,6 +355,27 @@ export default function NotebookScreen() {
           </Text>
         </Animated.View>
 
+        {/* Flashcard Review */}
+        {dueCards.length > 0 && (
+          <Animated.View entering={FadeInDown.delay(75).duration(400)}>
+            <Pressable
+              style={[styles.reviewBanner, { backgroundColor: colors.card }, cardShadow]}
+              onPress={() => router.push(`/notes/review?notebookId=${id}` as any)}
+            >
+              <Layers size={20} color={colors.accent} />
+              <View style={styles.reviewBannerContent}>
+                <Text style={[styles.reviewBannerTitle, { color: colors.foreground }]}>
+                  {t('flashcards.dailyReview')}
+                </Text>
+                <Text style={[styles.reviewBannerText, { color: colors.mutedForeground }]}>
+                  {t('flashcards.dueToday', { count: dueCards.length })}
+                </Text>
+              </View>
+              <ChevronRight size={18} color={colors.mutedForeground} />
+            </Pressable>
+          </Animated.View>
+        )}
+
         {/* Notes Grid */}
         {sortedNotes.length === 0 ? (
           <Animated.View
@@ -479,6 +504,27 @@ const styles = StyleSheet.create({
     fontWeight: typography.weight.medium,
   },
 
+  // Flashcard Review
+  reviewBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[3],
+    marginTop: spacing[4],
+    padding: spacing[4],
+    borderRadius: radius.xl,
+  },
+  reviewBannerContent: {
+    flex: 1,
+    gap: spacing[1],
+  },
+  reviewBannerTitle: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+  reviewBannerText: {
+    fontSize: typography.size.xs,
+  },
+
   // Notes Grid
   notesGrid: {
     flexDirection: 'row',
@@ -0,0 +1,410 @@
+import { useState } from 'react'
+import { View, Text, StyleSheet, Pressable, ScrollView, Switch } from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { useTranslation } from 'react-i18next'
+import { Stack, useRouter, useLocalSearchParams } from 'expo-router'
+import { ChevronLeft, Layers, PartyPopper, Star, Activity } from 'lucide-react-native'
+import Animated, { FadeInDown } from 'react-native-reanimated'
+import { scheduleFlashcard, getTodayString } from '@hagu/core'
+import { useTheme, cardShadow, spacing, radius, typography } from '@/theme'
+import { useDueFlashcards, useReviewFlashcard, useCompleteFlashcardSession } from '@/hooks'
+import type { Flashcard, FlashcardGrade, FlashcardSessionResult } from '@/hooks'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const GRADES: FlashcardGrade[] = ['again', 'hard', 'good', 'easy']
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+// Daily review of the cards due today, in one notebook or in all of them.
+// Cards graded "again" come back at the end of the session; finishing it
+// awards XP and, if the user switched it on, counts toward the habits linked
+// to the reviewed notebooks
+export default function FlashcardReviewScreen() {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const router = useRouter()
+  const { notebookId } = useLocalSearchParams<{ notebookId?: string }>()
+
+  const { data: dueCards = [], isLoading } = useDueFlashcards(notebookId)
+  const reviewMutation = useReviewFlashcard()
+  const completeMutation = useCompleteFlashcardSession()
+
+  // The due list is only read when the session starts; from then on the
+  // remaining cards live here
+  const [queue, setQueue] = useState<Flashcard[] | null>(null)
+  const [reviewed, setReviewed] = useState<Flashcard[]>([])
+  const [showBack, setShowBack] = useState(false)
+  const [result, setResult] = useState<FlashcardSessionResult | null>(null)
+  const [completeHabits, setCompleteHabits] = useState(false)
+
+  const cards = queue ?? dueCards
+  const current = cards[0]
+  const total = reviewed.length + cards.filter((card) => !reviewed.some((r) => r.id === card.id)).length
+  const today = getTodayString()
+
+  const gradeColors: Record<FlashcardGrade, string> = {
+    again: colors.error,
+    hard: colors.warning,
+    good: colors.success,
+    easy: colors.info,
+  }
+
+  const handleGrade = async (grade: FlashcardGrade) => {
+    if (!current || reviewMutation.isPending) return
+
+    let updated: Flashcard
+    try {
+      updated = await reviewMutation.mutateAsync({ card: current, grade })
+    } catch {
+      return
+    }
+
+    const rest = cards.slice(1)
+    const nextQueue = grade === 'again' ? [...rest, updated] : rest
+    const nextReviewed = reviewed.some((card) => card.id === current.id)
+      ? reviewed
+      : [...reviewed, current]
+
+    setQueue(nextQueue)
+    setReviewed(nextReviewed)
+    setShowBack(false)
+
+    if (nextQueue.length === 0) {
+      completeMutation.mutate(
+        {
+          reviewed: nextReviewed.length,
+          notebookIds: nextReviewed.map((card) => card.notebookId),
+          completeHabits,
+        },
+        { onSuccess: setResult }
+      )
+    }
+  }
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <View style={[styles.cardSkeleton, { backgroundColor: colors.muted }]} />
+    }
+
+    // Session finished
+    if (!current && reviewed.length > 0) {
+      return (
+        <Animated.View
+          entering={FadeInDown.duration(400)}
+          style={[styles.emptyState, { backgroundColor: colors.card }, cardShadow]}
+        >
+          <PartyPopper size={48} color={colors.accent} />
+          <Text style={[styles.emptyTitle, { color: colors.foreground }]}>
+            {t('flashcards.sessionComplete')}
+          </Text>
+          <Text style={[styles.emptyDescription, { color: colors.mutedForeground }]}>
+            {t('flashcards.cardsReviewed', { count: reviewed.length })}
+          </Text>
+          {result && (
+            <View style={styles.summaryRow}>
+              <View style={styles.summaryItem}>
+                <Star size={16} color={colors.warning} />
+                <Text style={[styles.summaryText, { color: colors.foreground }]}>
+                  {t('flashcards.xpEarned', { xp: result.xpEarned })}
+                </Text>
+              </View>
+              {result.completedHabitIds.length > 0 && (
+                <View style={styles.summaryItem}>
+                  <Activity size={16} color={colors.success} />
+                  <Text style={[styles.summaryText, { color: colors.foreground }]}>
+                    {t('flashcards.habitsCompleted', { count: result.completedHabitIds.length })}
+                  </Text>
+                </View>
+              )}
+            </View>
+          )}
+          <Pressable
+            style={[styles.primaryButton, { backgroundColor: colors.accent }]}
+            onPress={() => router.back()}
+          >
+            <Text style={styles.primaryButtonText}>{t('flashcards.done')}</Text>
+          </Pressable>
+        </Animated.View>
+      )
+    }
+
+    // Nothing due
+    if (!current) {
+      return (
+        <Animated.View
+          entering={FadeInDown.duration(400)}
+          style={[styles.emptyState, { backgroundColor: colors.card }, cardShadow]}
+        >
+          <Layers size={48} color={colors.mutedForeground} />
+          <Text style={[styles.emptyTitle, { color: colors.foreground }]}>
+            {t('flashcards.noCardsDue')}
+          </Text>
+          <Text style={[styles.emptyDescription, { color: colors.mutedForeground }]}>
+            {t('flashcards.noCardsDueDescription')}
+          </Text>
+        </Animated.View>
+      )
+    }
+
+    return (
+      <>
+        {/* Progress */}
+        <View style={styles.progressHeader}>
+          <Text style={[styles.progressText, { color: colors.mutedForeground }]}>
+            {t('flashcards.progress', { current: reviewed.length, total })}
+          </Text>
+          <Text style={[styles.progressText, { color: colors.mutedForeground }]}>
+            {t('flashcards.remaining', { count: cards.length })}
+          </Text>
+        </View>
+        <View style={[styles.progressTrack, { backgroundColor: colors.muted }]}>
+          <View
+            style={[
+              styles.progressFill,
+              {
+                backgroundColor: colors.accent,
+                width: `${total > 0 ? (reviewed.length / total) * 100 : 0}%`,
+              },
+            ]}
+          />
+        </View>
+        <View style={styles.switchRow}>
+          <Text style={[styles.switchLabel, { color: colors.mutedForeground }]}>
+            {t('flashcards.completeLinkedHabits')}
+          </Text>
+          <Switch value={completeHabits} onValueChange={setCompleteHabits} />
+        </View>
+
+        {/* Card */}
+        <Pressable
+          style={[styles.card, { backgroundColor: colors.card }, cardShadow]}
+          onPress={() => setShowBack(true)}
+          disabled={showBack}
+        >
+          <Text style={[styles.cardFront, { color: colors.foreground }]}>{current.front}</Text>
+          {showBack && (
+            <>
+              <View style={[styles.cardDivider, { backgroundColor: colors.border }]} />
+              <Text style={[styles.cardBack, { color: colors.mutedForeground }]}>
+                {current.back}
+              </Text>
+            </>
+          )}
+        </Pressable>
+
+        {/* Answer */}
+        {showBack ? (
+          <View style={styles.gradeGrid}>
+            {GRADES.map((grade) => (
+              <Pressable
+                key={grade}
+                style={[
+                  styles.gradeButton,
+                  {
+                    borderColor: gradeColors[grade],
+                    backgroundColor: gradeColors[grade] + '15',
+                    opacity: reviewMutation.isPending ? 0.5 : 1,
+                  },
+                ]}
+                onPress={() => handleGrade(grade)}
+                disabled={reviewMutation.isPending}
+              >
+                <Text style={[styles.gradeLabel, { color: gradeColors[grade] }]}>
+                  {t(`flashcards.grades.${grade}`)}
+                </Text>
+                <Text style={[styles.gradeInterval, { color: colors.mutedForeground }]}>
+                  {t('flashcards.intervalDays', {
+                    count: scheduleFlashcard(current, grade, today).interval,
+                  })}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        ) : (
+          <Pressable
+            style={[styles.primaryButton, { backgroundColor: colors.accent }]}
+            onPress={() => setShowBack(true)}
+          >
+            <Text style={styles.primaryButtonText}>{t('flashcards.showAnswer')}</Text>
+          </Pressable>
+        )}
+      </>
+    )
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'left', 'right']}>
+      <Stack.Screen
+        options={{
+          title: t('flashcards.dailyReview'),
+          headerShown: true,
+          headerStyle: { backgroundColor: colors.background },
+          headerTintColor: colors.foreground,
+          headerShadowVisible: false,
+          headerLeft: () => (
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={styles.headerButton}
+            >
+              <ChevronLeft size={24} color={colors.foreground} />
+            </Pressable>
+          ),
+        }}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {renderContent()}
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing[4],
+    paddingTop: spacing[4],
+    paddingBottom: spacing[8],
+    gap: spacing[4],
+  },
+  headerButton: {
+    padding: spacing[2],
+  },
+
+  // Progress
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  progressText: {
+    fontSize: typography.size.sm,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: radius.full,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: radius.full,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[3],
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: typography.size.sm,
+  },
+
+  // Card
+  card: {
+    minHeight: 240,
+    justifyContent: 'center',
+    gap: spacing[5],
+    padding: spacing[6],
+    borderRadius: radius.xl,
+  },
+  cardSkeleton: {
+    height: 240,
+    borderRadius: radius.xl,
+  },
+  cardFront: {
+    fontSize: typography.size.xl,
+    fontWeight: typography.weight.medium,
+    textAlign: 'center',
+  },
+  cardDivider: {
+    height: 1,
+  },
+  cardBack: {
+    fontSize: typography.size.lg,
+    textAlign: 'center',
+  },
+
+  // Grades
+  gradeGrid: {
+    flexDirection: 'row',
+    gap: spacing[2],
+  },
+  gradeButton: {
+    flex: 1,
+    alignItems: 'center',
+    gap: spacing[1],
+    paddingVertical: spacing[3],
+    borderRadius: radius.lg,
+    borderWidth: 1,
+  },
+  gradeLabel: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.semibold,
+  },
+  gradeInterval: {
+    fontSize: typography.size.xs,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    paddingVertical: spacing[3],
+    paddingHorizontal: spacing[6],
+    borderRadius: radius.lg,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: typography.size.base,
+    fontWeight: typography.weight.semibold,
+  },
+
+  // Empty State / Summary
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: spacing[8],
+    borderRadius: radius.xl,
+    gap: spacing[3],
+  },
+  emptyTitle: {
+    fontSize: typography.size.lg,
+    fontWeight: typography.weight.semibold,
+    textAlign: 'center',
+  },
+  emptyDescription: {
+    fontSize: typography.size.sm,
+    textAlign: 'center',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: spacing[4],
+  },
+  summaryItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[1],
+  },
+  summaryText: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
+})
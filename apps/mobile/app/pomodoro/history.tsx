@@ -16,6 +16,7 @@ import {
 import Animated, { FadeInDown } from 'react-native-reanimated'
 import { useTheme, cardShadow, spacing, radius, typography } from '@/theme'
 import { usePomodoroSessions, usePomodoroStats, TimerMode, PomodoroSession } from '@/hooks/use-pomodoro'
+import { useTasksQuery, useHabitsQuery } from '@/hooks'
 
 // =============================================================================
 // Helpers
@@ -74,9 +75,10 @@ const MODE_COLORS: Record<TimerMode, string> = {
 
 interface SessionItemProps {
   session: PomodoroSession
+  targetTitle?: string
 }
 
-function SessionItem({ session }: SessionItemProps) {
+function SessionItem({ session, targetTitle }: SessionItemProps) {
   const { t } = useTranslation()
   const { colors } = useTheme()
   const modeColor = MODE_COLORS[session.mode]
@@ -103,14 +105,14 @@ function SessionItem({ session }: SessionItemProps) {
             {formatTime(session.completedAt)}
           </Text>
         </View>
-        {session.taskTitle && (
+        {targetTitle && (
           <View style={styles.sessionTask}>
             <Target size={12} color={colors.mutedForeground} />
             <Text
               style={[styles.sessionTaskText, { color: colors.mutedForeground }]}
               numberOfLines={1}
             >
-              {session.taskTitle}
+              {targetTitle}
             </Text>
           </View>
         )}
@@ -128,10 +130,11 @@ function SessionItem({ session }: SessionItemProps) {
 interface DayGroupProps {
   date: string
   sessions: PomodoroSession[]
+  targetTitles: Map<string, string>
   delay: number
 }
 
-function DayGroup({ date, sessions, delay }: DayGroupProps) {
+function DayGroup({ date, sessions, targetTitles, delay }: DayGroupProps) {
   const { t } = useTranslation()
   const { colors } = useTheme()
 
@@ -168,7 +171,13 @@ function DayGroup({ date, sessions, delay }: DayGroupProps) {
         {sessions.map((session, index) => (
           <View key={session.id}>
             {index > 0 && <View style={[styles.sessionDivider, { backgroundColor: colors.border }]} />}
-            <SessionItem session={session} />
+            <SessionItem
+              session={session}
+              targetTitle={
+                session.taskTitle ??
+                targetTitles.get(session.taskId ?? session.habitId ?? '')
+              }
+            />
           </View>
         ))}
       </View>
@@ -207,6 +216,16 @@ export default function PomodoroHistoryScreen() {
 
   const { sessions, isLoading, refetch } = usePomodoroSessions()
   const stats = usePomodoroStats()
+  const { data: tasks } = useTasksQuery()
+  const { data: habits } = useHabitsQuery()
+
+  // Sessions synced from other devices only carry IDs of what they were linked to
+  const targetTitles = useMemo(() => {
+    const titles = new Map<string, string>()
+    tasks?.forEach(task => titles.set(task.id, task.title))
+    habits?.forEach(habit => titles.set(habit.id, habit.title))
+    return titles
+  }, [tasks, habits])
 
   const groupedSessions = useMemo(() => groupSessionsByDate(sessions), [sessions])
   const dateGroups = useMemo(() => Array.from(groupedSessions.entries()), [groupedSessions])
@@ -293,6 +312,7 @@ export default function PomodoroHistoryScreen() {
                 key={date}
                 date={date}
                 sessions={daySessions}
+                targetTitles={targetTitles}
                 delay={100 + index * 50}
               />
             ))
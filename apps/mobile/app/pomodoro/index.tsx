@@ -26,6 +26,7 @@ import {
   Link2,
   Link2Off,
   ChevronRight,
+  Repeat,
 } from 'lucide-react-native'
 import Animated, {
   FadeInDown,
@@ -43,7 +44,8 @@ import {
   usePomodoroStats,
   TimerMode,
 } from '@/hooks/use-pomodoro'
-import { useTasksQuery } from '@/hooks'
+import { useTasksQuery, useHabitsQuery } from '@/hooks'
+import type { PomodoroFocusTarget } from '@hagu/core'
 
 // =============================================================================
 // Constants
@@ -127,25 +129,28 @@ function StatCard({ icon, label, value, color }: StatCardProps) {
   )
 }
 
-interface TaskSelectorModalProps {
+interface FocusTargetModalProps {
   visible: boolean
   onClose: () => void
-  onSelect: (task: { id: string; title: string } | null) => void
+  onSelect: (target: PomodoroFocusTarget | null) => void
 }
 
-function TaskSelectorModal({ visible, onClose, onSelect }: TaskSelectorModalProps) {
+function FocusTargetModal({ visible, onClose, onSelect }: FocusTargetModalProps) {
   const { t } = useTranslation()
   const { colors } = useTheme()
   const { data: tasks } = useTasksQuery()
+  const { data: habits } = useHabitsQuery()
 
   const pendingTasks = tasks?.filter(t => t.status !== 'done') || []
+  // Focused minutes are logged as the habit's value, so only quantitative habits fit
+  const minuteHabits = habits?.filter(h => !h.archivedAt && h.tracking.type === 'quantitative') || []
 
   return (
     <Modal visible={visible} animationType="slide" transparent>
       <View style={styles.modalOverlay}>
         <View style={[styles.modalContent, { backgroundColor: colors.card }]}>
           <Text style={[styles.modalTitle, { color: colors.foreground }]}>
-            {t('pomodoro.selectTask')}
+            {t('pomodoro.selectTarget')}
           </Text>
 
           <ScrollView style={styles.taskList}>
@@ -158,16 +163,21 @@ function TaskSelectorModal({ visible, onClose, onSelect }: TaskSelectorModalProp
             >
               <Link2Off size={20} color={colors.mutedForeground} />
               <Text style={[styles.taskItemText, { color: colors.mutedForeground }]}>
-                {t('pomodoro.noTask')}
+                {t('pomodoro.noTarget')}
               </Text>
             </Pressable>
 
+            {pendingTasks.length > 0 && (
+              <Text style={[styles.targetSectionLabel, { color: colors.mutedForeground }]}>
+                {t('pomodoro.targetTasks')}
+              </Text>
+            )}
             {pendingTasks.map(task => (
               <Pressable
                 key={task.id}
                 style={[styles.taskItem, { borderColor: colors.border }]}
                 onPress={() => {
-                  onSelect({ id: task.id, title: task.title })
+                  onSelect({ type: 'task', id: task.id, title: task.title })
                   onClose()
                 }}
               >
@@ -181,6 +191,31 @@ function TaskSelectorModal({ visible, onClose, onSelect }: TaskSelectorModalProp
                 <ChevronRight size={18} color={colors.mutedForeground} />
               </Pressable>
             ))}
+
+            {minuteHabits.length > 0 && (
+              <Text style={[styles.targetSectionLabel, { color: colors.mutedForeground }]}>
+                {t('pomodoro.targetHabits')}
+              </Text>
+            )}
+            {minuteHabits.map(habit => (
+              <Pressable
+                key={habit.id}
+                style={[styles.taskItem, { borderColor: colors.border }]}
+                onPress={() => {
+                  onSelect({ type: 'habit', id: habit.id, title: habit.title })
+                  onClose()
+                }}
+              >
+                <Repeat size={20} color={habit.color} />
+                <Text
+                  style={[styles.taskItemText, { color: colors.foreground }]}
+                  numberOfLines={1}
+                >
+                  {habit.title}
+                </Text>
+                <ChevronRight size={18} color={colors.mutedForeground} />
+              </Pressable>
+            ))}
           </ScrollView>
 
           <Pressable
@@ -214,19 +249,19 @@ export default function PomodoroScreen() {
     progress,
     formattedTime,
     sessionsCompleted,
-    linkedTask,
+    focusTarget,
     start,
     pause,
     reset,
     skip,
     changeMode,
-    linkTask,
+    linkFocusTarget,
   } = usePomodoroTimer()
 
   const { settings } = usePomodoroSettings()
   const stats = usePomodoroStats()
 
-  const [showTaskSelector, setShowTaskSelector] = useState(false)
+  const [showTargetSelector, setShowTargetSelector] = useState(false)
 
   const modeColor = MODE_COLORS[mode]
 
@@ -351,27 +386,27 @@ export default function PomodoroScreen() {
           </View>
         </Animated.View>
 
-        {/* Linked Task */}
+        {/* Focus Target */}
         <Animated.View entering={FadeInDown.delay(150).duration(400)}>
           <Pressable
             style={[styles.linkedTask, { backgroundColor: colors.card, borderColor: colors.border }]}
-            onPress={() => setShowTaskSelector(true)}
+            onPress={() => setShowTargetSelector(true)}
           >
-            {linkedTask ? (
+            {focusTarget ? (
               <>
                 <Link2 size={18} color={colors.accent} />
                 <Text
                   style={[styles.linkedTaskText, { color: colors.foreground }]}
                   numberOfLines={1}
                 >
-                  {linkedTask.title}
+                  {focusTarget.title}
                 </Text>
               </>
             ) : (
               <>
                 <Link2Off size={18} color={colors.mutedForeground} />
                 <Text style={[styles.linkedTaskText, { color: colors.mutedForeground }]}>
-                  {t('pomodoro.linkTask')}
+                  {t('pomodoro.linkTarget')}
                 </Text>
               </>
             )}
@@ -462,11 +497,11 @@ export default function PomodoroScreen() {
         </Animated.View>
       </ScrollView>
 
-      {/* Task Selector Modal */}
-      <TaskSelectorModal
-        visible={showTaskSelector}
-        onClose={() => setShowTaskSelector(false)}
-        onSelect={linkTask}
+      {/* Focus Target Modal */}
+      <FocusTargetModal
+        visible={showTargetSelector}
+        onClose={() => setShowTargetSelector(false)}
+        onSelect={linkFocusTarget}
       />
     </SafeAreaView>
   )
@@ -681,6 +716,14 @@ const styles = StyleSheet.create({
     flex: 1,
     fontSize: typography.size.sm,
   },
+  targetSectionLabel: {
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.medium,
+    textTransform: 'uppercase',
+    marginTop: spacing[3],
+    marginBottom: spacing[1],
+    paddingHorizontal: spacing[4],
+  },
   modalCloseButton: {
     padding: spacing[4],
     borderRadius: radius.lg,
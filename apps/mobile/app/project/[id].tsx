@@ -54,6 +54,7 @@ import {
 import { ProjectForm } from '@/components/projects'
 import { ObjectivesList } from '@/components/projects/ObjectivesList'
 import { MilestoneTimeline } from '@/components/projects/MilestoneTimeline'
+import { PageMentions } from '@/components/notes'
 import type { ProjectFormData, Objective, Milestone, ObjectiveStatus } from '@/hooks'
 
 type TabType = 'overview' | 'objectives' | 'milestones' | 'tasks'
@@ -616,6 +617,8 @@ export default function ProjectDetailScreen() {
                   </Pressable>
                 )}
               </View>
+
+              <PageMentions targetType="project" targetId={id} style={{ marginTop: spacing[4] }} />
             </Animated.View>
           )}
 
@@ -0,0 +1,307 @@
+import { useState, useEffect } from 'react'
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { useTranslation } from 'react-i18next'
+import { Stack, useRouter } from 'expo-router'
+import {
+  Search,
+  X,
+  ChevronLeft,
+  ChevronRight,
+  FileText,
+  CheckSquare,
+  CheckCircle2,
+  FolderKanban,
+  Target,
+  Receipt,
+} from 'lucide-react-native'
+import Animated, { FadeInDown } from 'react-native-reanimated'
+import { useTheme, cardShadow, spacing, radius, typography } from '@/theme'
+import { useSearch } from '@/hooks'
+import type { SearchResult, SearchResultType } from '@/hooks'
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const SEARCH_DELAY_MS = 300
+
+const RESULT_ICONS: Record<SearchResultType, typeof FileText> = {
+  page: FileText,
+  task: CheckSquare,
+  habit: CheckCircle2,
+  project: FolderKanban,
+  objective: Target,
+  transaction: Receipt,
+}
+
+function getResultRoute(result: SearchResult): string {
+  switch (result.type) {
+    case 'page':
+      return `/notes/note/${result.id}`
+    case 'task':
+      return `/task/${result.id}`
+    case 'habit':
+      return `/habit/${result.id}`
+    case 'project':
+      return `/project/${result.id}`
+    case 'objective':
+      return `/project/${result.parentId}`
+    case 'transaction':
+      return `/transaction/${result.id}`
+  }
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+interface SearchResultItemProps {
+  result: SearchResult
+  onPress: () => void
+}
+
+function SearchResultItem({ result, onPress }: SearchResultItemProps) {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const Icon = RESULT_ICONS[result.type]
+
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.result, { opacity: pressed ? 0.7 : 1 }]}
+      onPress={onPress}
+    >
+      <Icon size={18} color={colors.mutedForeground} />
+      <View style={styles.resultContent}>
+        <View style={styles.resultHeader}>
+          <Text style={[styles.resultTitle, { color: colors.foreground }]} numberOfLines={1}>
+            {result.title || t('search.untitled')}
+          </Text>
+          <Text style={[styles.resultType, { color: colors.mutedForeground }]}>
+            {t(`search.types.${result.type}`)}
+          </Text>
+        </View>
+        <Text style={[styles.resultSnippet, { color: colors.mutedForeground }]} numberOfLines={2}>
+          {result.snippet.map((piece, index) => (
+            <Text
+              key={index}
+              style={
+                piece.highlighted
+                  ? [styles.highlight, { color: colors.foreground, backgroundColor: colors.accent + '30' }]
+                  : undefined
+              }
+            >
+              {piece.text}
+            </Text>
+          ))}
+        </Text>
+      </View>
+      <ChevronRight size={18} color={colors.mutedForeground} />
+    </Pressable>
+  )
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+// Searches notes, tasks, habits, projects and transactions at once
+export default function SearchScreen() {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const router = useRouter()
+
+  const [input, setInput] = useState('')
+  const [query, setQuery] = useState('')
+  const { data: results = [], isFetching } = useSearch(query)
+
+  // Only search once the user pauses typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input), SEARCH_DELAY_MS)
+    return () => clearTimeout(timeout)
+  }, [input])
+
+  const isSearching = query.trim().length > 0
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'left', 'right']}>
+      <Stack.Screen
+        options={{
+          title: t('search.title'),
+          headerShown: true,
+          headerStyle: { backgroundColor: colors.background },
+          headerTintColor: colors.foreground,
+          headerShadowVisible: false,
+          headerLeft: () => (
+            <Pressable
+              onPress={() => router.back()}
+              hitSlop={8}
+              style={styles.headerButton}
+            >
+              <ChevronLeft size={24} color={colors.foreground} />
+            </Pressable>
+          ),
+        }}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {/* Search Bar */}
+        <View style={[styles.searchContainer, { backgroundColor: colors.card }, cardShadow]}>
+          <Search size={20} color={colors.mutedForeground} />
+          <TextInput
+            style={[styles.searchInput, { color: colors.foreground }]}
+            placeholder={t('search.placeholder')}
+            placeholderTextColor={colors.mutedForeground}
+            value={input}
+            onChangeText={setInput}
+            returnKeyType="search"
+            autoFocus
+          />
+          {isFetching && <ActivityIndicator size="small" color={colors.mutedForeground} />}
+          {input.length > 0 && (
+            <Pressable onPress={() => setInput('')} hitSlop={8}>
+              <X size={18} color={colors.mutedForeground} />
+            </Pressable>
+          )}
+        </View>
+
+        {/* Results */}
+        {!isSearching ? (
+          <Text style={[styles.hint, { color: colors.mutedForeground }]}>
+            {t('search.hint')}
+          </Text>
+        ) : results.length === 0 && !isFetching ? (
+          <Animated.View
+            entering={FadeInDown.delay(50).duration(400)}
+            style={[styles.emptyState, { backgroundColor: colors.card }, cardShadow]}
+          >
+            <Search size={48} color={colors.mutedForeground} />
+            <Text style={[styles.emptyTitle, { color: colors.foreground }]}>
+              {t('search.noResults', { query: query.trim() })}
+            </Text>
+          </Animated.View>
+        ) : (
+          <View style={[styles.resultsCard, { backgroundColor: colors.card }, cardShadow]}>
+            {results.map((result, index) => (
+              <View key={`${result.type}:${result.id}`}>
+                {index > 0 && <View style={[styles.divider, { backgroundColor: colors.border }]} />}
+                <SearchResultItem
+                  result={result}
+                  onPress={() => router.push(getResultRoute(result) as any)}
+                />
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  )
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: spacing[4],
+    paddingBottom: spacing[8],
+    gap: spacing[4],
+  },
+  headerButton: {
+    padding: spacing[2],
+  },
+
+  // Search
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[3],
+    marginTop: spacing[4],
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[3],
+    borderRadius: radius.xl,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: typography.size.sm,
+  },
+  hint: {
+    fontSize: typography.size.sm,
+    textAlign: 'center',
+    marginTop: spacing[6],
+  },
+
+  // Results
+  resultsCard: {
+    borderRadius: radius.xl,
+    overflow: 'hidden',
+  },
+  result: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[3],
+    padding: spacing[4],
+  },
+  resultContent: {
+    flex: 1,
+    gap: spacing[1],
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  resultTitle: {
+    flexShrink: 1,
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
+  resultType: {
+    fontSize: typography.size.xs,
+  },
+  resultSnippet: {
+    fontSize: typography.size.xs,
+  },
+  highlight: {
+    fontWeight: typography.weight.semibold,
+  },
+  divider: {
+    height: 1,
+    marginLeft: spacing[12],
+  },
+
+  // Empty State
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: spacing[8],
+    borderRadius: radius.xl,
+    gap: spacing[3],
+  },
+  emptyTitle: {
+    fontSize: typography.size.lg,
+    fontWeight: typography.weight.semibold,
+    textAlign: 'center',
+  },
+})
@@ -19,10 +19,12 @@ import {
   CheckCircle2,
   Circle,
   Clock,
+  Timer,
 } from 'lucide-react-native'
 import Animated, { FadeInDown } from 'react-native-reanimated'
 import { useTheme, spacing, radius, typography, cardShadow } from '@/theme'
 import { TaskForm, type TaskFormData, SubtaskList } from '@/components/tasks'
+import { PageMentions } from '@/components/notes'
 import {
   useTaskQuery,
   useCreateTask,
@@ -33,6 +35,7 @@ import {
   useToggleSubtask,
   useUpdateSubtask,
   useDeleteSubtask,
+  useTaskFocusMinutes,
 } from '@/hooks'
 import type { TaskStatus, TaskPriority } from '@hagu/core'
 
@@ -56,6 +59,7 @@ export default function TaskModal() {
 
   const isNew = id === 'new'
   const { data: task, isLoading: isLoadingTask } = useTaskQuery(isNew ? undefined : id)
+  const focusedMinutes = useTaskFocusMinutes(isNew ? undefined : id)
 
   const createTask = useCreateTask()
   const updateTask = useUpdateTask()
@@ -307,6 +311,18 @@ export default function TaskModal() {
                     </Text>
                   </View>
                 )}
+
+                {/* Estimated vs. actual (pomodoro) time */}
+                {(task.estimatedMinutes || focusedMinutes > 0) && (
+                  <View style={[styles.metaItem, { backgroundColor: colors.secondary }]}>
+                    <Timer size={14} color={colors.mutedForeground} />
+                    <Text style={[styles.metaText, { color: colors.mutedForeground }]}>
+                      {task.estimatedMinutes
+                        ? t('tasks.focusedTime', { actual: focusedMinutes, estimated: task.estimatedMinutes })
+                        : t('tasks.focusedTimeNoEstimate', { actual: focusedMinutes })}
+                    </Text>
+                  </View>
+                )}
               </View>
             </Animated.View>
 
@@ -375,6 +391,9 @@ export default function TaskModal() {
               />
             </Animated.View>
 
+            {/* Notes mentioning the task */}
+            <PageMentions targetType="task" targetId={id} />
+
             {/* Delete Button */}
             <Animated.View entering={FadeInDown.delay(200).duration(400)}>
               <Pressable
@@ -1,17 +1,21 @@
 import { useState } from 'react'
 import { View, Text, Pressable, StyleSheet } from 'react-native'
 import { useTranslation } from 'react-i18next'
-import { CheckCircle2, Circle, Flame, TrendingUp } from 'lucide-react-native'
+import { CheckCircle2, Circle, Flame, ShieldAlert, TrendingUp } from 'lucide-react-native'
 import Animated, { FadeInDown } from 'react-native-reanimated'
 import { useTheme, cardShadow, spacing, radius, typography } from '@/theme'
 import { QuantityInputModal } from './QuantityInputModal'
+import { isRelapse } from '@hagu/core'
 import type { Habit, HabitCompletion } from '@hagu/core'
 
 function getTodayString(): string {
   return new Date().toISOString().split('T')[0]
 }
 
-function getFrequencyLabel(habit: Habit, t: (key: string) => string): string {
+function getFrequencyLabel(
+  habit: Habit,
+  t: (key: string, options?: Record<string, unknown>) => string
+): string {
   switch (habit.frequency.type) {
     case 'daily':
       return t('habits.frequencyDaily')
@@ -21,6 +25,10 @@ function getFrequencyLabel(habit: Habit, t: (key: string) => string): string {
       return t('habits.frequencySpecificDays')
     case 'monthly':
       return `${habit.frequency.timesPerMonth}x/${t('habits.month')}`
+    case 'interval':
+      return t('habits.everyNDays', { count: habit.frequency.everyDays })
+    case 'nthWeekday':
+      return t('habits.frequencyNthWeekday')
     default:
       return ''
   }
@@ -30,11 +38,19 @@ export interface HabitCardProps {
   habit: Habit & { streak?: number }
   last7Days: string[]
   onToggle: (habitId: string, value?: number) => void
+  onLogRelapse?: (habitId: string) => void
   onPress?: (habit: Habit) => void
   index: number
 }
 
-export function HabitCard({ habit, last7Days, onToggle, onPress, index }: HabitCardProps) {
+export function HabitCard({
+  habit,
+  last7Days,
+  onToggle,
+  onLogRelapse,
+  onPress,
+  index,
+}: HabitCardProps) {
   const { t } = useTranslation()
   const { colors } = useTheme()
   const [showQuantityModal, setShowQuantityModal] = useState(false)
@@ -44,18 +60,28 @@ export function HabitCard({ habit, last7Days, onToggle, onPress, index }: HabitC
   const isCompletedToday = !!todayCompletion
 
   const isQuantitative = habit.tracking.type === 'quantitative'
+  const isAvoid = habit.tracking.type === 'avoid'
+  const limit = habit.tracking.type === 'avoid' ? habit.tracking.limit : 0
   const target = habit.tracking.type === 'quantitative' ? habit.tracking.target : 1
-  const unit = habit.tracking.type === 'quantitative' ? habit.tracking.unit : ''
+  const unit =
+    habit.tracking.type === 'quantitative'
+      ? habit.tracking.unit
+      : habit.tracking.type === 'avoid'
+      ? habit.tracking.unit ?? ''
+      : ''
   const currentValue = todayCompletion?.value ?? 0
 
   // Calculate progress for quantitative habits
   const progress = isQuantitative && target > 0 ? Math.min((currentValue / target) * 100, 100) : 0
   const isTargetMet = isQuantitative ? currentValue >= target : isCompletedToday
+  const isOverLimit = isAvoid && currentValue > limit
 
   const streak = habit.streak ?? 0
 
   const handleTogglePress = () => {
-    if (isQuantitative) {
+    if (isAvoid) {
+      onLogRelapse?.(habit.id)
+    } else if (isQuantitative) {
       setShowQuantityModal(true)
     } else {
       onToggle(habit.id)
@@ -85,7 +111,7 @@ export function HabitCard({ habit, last7Days, onToggle, onPress, index }: HabitC
                     style={[
                       styles.habitTitle,
                       { color: colors.foreground },
-                      isTargetMet && styles.habitTitleCompleted,
+                      !isAvoid && isTargetMet && styles.habitTitleCompleted,
                     ]}
                     numberOfLines={1}
                   >
@@ -145,12 +171,32 @@ export function HabitCard({ habit, last7Days, onToggle, onPress, index }: HabitC
               </View>
             )}
 
+            {/* Today's slips against the limit for avoid habits */}
+            {isAvoid && (
+              <View style={styles.progressRow}>
+                <ShieldAlert size={14} color={isOverLimit ? colors.error : habit.color} />
+                <Text
+                  style={[
+                    styles.progressLabel,
+                    { color: isOverLimit ? colors.error : colors.mutedForeground },
+                  ]}
+                >
+                  {t('habits.todayCount', { count: currentValue, limit })} {unit}
+                </Text>
+                <Text style={[styles.percentText, { color: habit.color }]}>
+                  {t('habits.cleanDays', { count: streak })}
+                </Text>
+              </View>
+            )}
+
             {/* Heatmap (last 7 days) - only for non-quantitative */}
             {!isQuantitative && (
               <View style={styles.heatmapContainer}>
                 {last7Days.map((date) => {
                   const completion = habit.completions.find((c) => c.date === date)
-                  const isCompleted = !!completion
+                  // Avoid habits fill in the clean days and mark relapses
+                  const relapsed = !!completion && isRelapse(habit.tracking, completion)
+                  const isCompleted = isAvoid ? !relapsed && date < today : !!completion
                   const isToday = date === today
 
                   return (
@@ -161,6 +207,8 @@ export function HabitCard({ habit, last7Days, onToggle, onPress, index }: HabitC
                         {
                           backgroundColor: isCompleted
                             ? habit.color
+                            : relapsed
+                            ? colors.error
                             : isToday
                             ? `${colors.mutedForeground}40`
                             : colors.muted,
@@ -175,38 +223,51 @@ export function HabitCard({ habit, last7Days, onToggle, onPress, index }: HabitC
             )}
 
             {/* Toggle button */}
-            <Pressable
-              onPress={handleTogglePress}
-              style={[
-                styles.toggleButton,
-                {
-                  backgroundColor: isTargetMet ? `${habit.color}20` : colors.secondary,
-                  borderColor: isTargetMet ? habit.color : 'transparent',
-                  borderWidth: isTargetMet ? 1 : 0,
-                },
-              ]}
-              hitSlop={8}
-            >
-              {isTargetMet ? (
-                <CheckCircle2 size={20} color={habit.color} />
-              ) : (
-                <Circle size={20} color={colors.mutedForeground} />
-              )}
-              <Text
+            {isAvoid ? (
+              <Pressable
+                onPress={handleTogglePress}
+                style={[styles.toggleButton, { backgroundColor: colors.secondary }]}
+                hitSlop={8}
+              >
+                <ShieldAlert size={20} color={colors.mutedForeground} />
+                <Text style={[styles.toggleText, { color: colors.mutedForeground }]}>
+                  {t('habits.logRelapse')}
+                </Text>
+              </Pressable>
+            ) : (
+              <Pressable
+                onPress={handleTogglePress}
                 style={[
-                  styles.toggleText,
-                  { color: isTargetMet ? habit.color : colors.mutedForeground },
+                  styles.toggleButton,
+                  {
+                    backgroundColor: isTargetMet ? `${habit.color}20` : colors.secondary,
+                    borderColor: isTargetMet ? habit.color : 'transparent',
+                    borderWidth: isTargetMet ? 1 : 0,
+                  },
                 ]}
+                hitSlop={8}
               >
-                {isQuantitative
-                  ? isTargetMet
-                    ? t('habits.complete')
-                    : t('habits.addValue')
-                  : isTargetMet
-                  ? t('habits.completed')
-                  : t('habits.markComplete')}
-              </Text>
-            </Pressable>
+                {isTargetMet ? (
+                  <CheckCircle2 size={20} color={habit.color} />
+                ) : (
+                  <Circle size={20} color={colors.mutedForeground} />
+                )}
+                <Text
+                  style={[
+                    styles.toggleText,
+                    { color: isTargetMet ? habit.color : colors.mutedForeground },
+                  ]}
+                >
+                  {isQuantitative
+                    ? isTargetMet
+                      ? t('habits.complete')
+                      : t('habits.addValue')
+                    : isTargetMet
+                    ? t('habits.completed')
+                    : t('habits.markComplete')}
+                </Text>
+              </Pressable>
+            )}
           </View>
         </Animated.View>
       </Pressable>
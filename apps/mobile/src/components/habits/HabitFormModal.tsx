@@ -21,8 +21,11 @@ import type { Habit, HabitFrequency, HabitTracking, LifeArea } from '@hagu/core'
 // Days of week for specific days selection
 const DAYS_OF_WEEK = [0, 1, 2, 3, 4, 5, 6] as const
 
-type FrequencyType = 'daily' | 'weekly' | 'specificDays' | 'monthly'
-type TrackingType = 'boolean' | 'quantitative'
+// Week of the month for Nth-weekday habits (-1 = last)
+const WEEKS_OF_MONTH = [1, 2, 3, 4, -1] as const
+
+type FrequencyType = HabitFrequency['type']
+type TrackingType = HabitTracking['type']
 
 interface HabitFormModalProps {
   visible: boolean
@@ -47,12 +50,28 @@ function getInitialTimesPerMonth(habit?: Habit): number {
   return habit?.frequency.type === 'monthly' ? habit.frequency.timesPerMonth : 10
 }
 
+function getInitialEveryDays(habit?: Habit): number {
+  return habit?.frequency.type === 'interval' ? habit.frequency.everyDays : 2
+}
+
+function getInitialNthWeekday(habit?: Habit): { week: number; weekday: number } {
+  return habit?.frequency.type === 'nthWeekday'
+    ? { week: habit.frequency.week, weekday: habit.frequency.weekday }
+    : { week: 1, weekday: 1 }
+}
+
 function getInitialTarget(habit?: Habit): number {
   return habit?.tracking.type === 'quantitative' ? habit.tracking.target : 1
 }
 
 function getInitialUnit(habit?: Habit): string {
-  return habit?.tracking.type === 'quantitative' ? habit.tracking.unit : ''
+  if (habit?.tracking.type === 'quantitative') return habit.tracking.unit
+  if (habit?.tracking.type === 'avoid') return habit.tracking.unit ?? ''
+  return ''
+}
+
+function getInitialLimit(habit?: Habit): number {
+  return habit?.tracking.type === 'avoid' ? habit.tracking.limit : 0
 }
 
 export function HabitFormModal({
@@ -83,12 +102,15 @@ export function HabitFormModal({
   const [daysPerWeek, setDaysPerWeek] = useState(getInitialDaysPerWeek(habit))
   const [specificDays, setSpecificDays] = useState<number[]>(getInitialSpecificDays(habit))
   const [timesPerMonth, setTimesPerMonth] = useState(getInitialTimesPerMonth(habit))
+  const [everyDays, setEveryDays] = useState(getInitialEveryDays(habit))
+  const [nthWeekday, setNthWeekday] = useState(getInitialNthWeekday(habit))
 
   // Tracking state
   const [trackingType, setTrackingType] = useState<TrackingType>(
     habit?.tracking.type || 'boolean'
   )
   const [target, setTarget] = useState(getInitialTarget(habit))
+  const [limit, setLimit] = useState(getInitialLimit(habit))
   const [unit, setUnit] = useState(getInitialUnit(habit))
 
   // Update areaId when areas first load if we started with empty value
@@ -110,8 +132,11 @@ export function HabitFormModal({
         setDaysPerWeek(getInitialDaysPerWeek(habit))
         setSpecificDays(getInitialSpecificDays(habit))
         setTimesPerMonth(getInitialTimesPerMonth(habit))
+        setEveryDays(getInitialEveryDays(habit))
+        setNthWeekday(getInitialNthWeekday(habit))
         setTrackingType(habit.tracking.type)
         setTarget(getInitialTarget(habit))
+        setLimit(getInitialLimit(habit))
         setUnit(getInitialUnit(habit))
       } else {
         setTitle('')
@@ -122,8 +147,11 @@ export function HabitFormModal({
         setDaysPerWeek(3)
         setSpecificDays([1, 3, 5])
         setTimesPerMonth(10)
+        setEveryDays(2)
+        setNthWeekday({ week: 1, weekday: 1 })
         setTrackingType('boolean')
         setTarget(1)
+        setLimit(0)
         setUnit('')
       }
     }
@@ -161,14 +189,26 @@ export function HabitFormModal({
       case 'monthly':
         frequency = { type: 'monthly', timesPerMonth }
         break
+      case 'interval':
+        frequency = { type: 'interval', everyDays }
+        break
+      case 'nthWeekday':
+        frequency = { type: 'nthWeekday', ...nthWeekday }
+        break
     }
 
     // Build tracking object
     let tracking: HabitTracking
-    if (trackingType === 'boolean') {
-      tracking = { type: 'boolean' }
-    } else {
-      tracking = { type: 'quantitative', target, unit }
+    switch (trackingType) {
+      case 'boolean':
+        tracking = { type: 'boolean' }
+        break
+      case 'quantitative':
+        tracking = { type: 'quantitative', target, unit }
+        break
+      case 'avoid':
+        tracking = { type: 'avoid', limit, unit: unit.trim() || undefined }
+        break
     }
 
     try {
@@ -419,6 +459,39 @@ export function HabitFormModal({
                       </Pressable>
                     ))}
                   </View>
+                  <View style={styles.tabsRow}>
+                    {(['interval', 'nthWeekday'] as const).map((type) => (
+                      <Pressable
+                        key={type}
+                        onPress={() => setFrequencyType(type)}
+                        style={[
+                          styles.tab,
+                          {
+                            backgroundColor:
+                              frequencyType === type ? colors.primary : colors.secondary,
+                            borderColor:
+                              frequencyType === type ? colors.primary : colors.border,
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.tabText,
+                            {
+                              color:
+                                frequencyType === type
+                                  ? colors.primaryForeground
+                                  : colors.foreground,
+                            },
+                          ]}
+                        >
+                          {t(
+                            `habits.frequency${type.charAt(0).toUpperCase() + type.slice(1)}`
+                          )}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
                 </View>
 
                 {/* Frequency Options */}
@@ -491,6 +564,108 @@ export function HabitFormModal({
                   </View>
                 )}
 
+                {frequencyType === 'interval' && (
+                  <View style={styles.frequencyOptions}>
+                    <Text style={[styles.optionLabel, { color: colors.mutedForeground }]}>
+                      {t('habits.everyDays')}
+                    </Text>
+                    <View style={styles.numberInputRow}>
+                      <Pressable
+                        onPress={() => setEveryDays(Math.max(1, everyDays - 1))}
+                        style={[styles.numberButton, { backgroundColor: colors.secondary }]}
+                      >
+                        <Text style={[styles.numberButtonText, { color: colors.foreground }]}>
+                          -
+                        </Text>
+                      </Pressable>
+                      <Text style={[styles.numberValue, { color: colors.foreground }]}>
+                        {everyDays}
+                      </Text>
+                      <Pressable
+                        onPress={() => setEveryDays(Math.min(365, everyDays + 1))}
+                        style={[styles.numberButton, { backgroundColor: colors.secondary }]}
+                      >
+                        <Text style={[styles.numberButtonText, { color: colors.foreground }]}>
+                          +
+                        </Text>
+                      </Pressable>
+                    </View>
+                  </View>
+                )}
+
+                {frequencyType === 'nthWeekday' && (
+                  <View style={styles.frequencyOptions}>
+                    <Text style={[styles.optionLabel, { color: colors.mutedForeground }]}>
+                      {t('habits.selectWeek')}
+                    </Text>
+                    <View style={styles.tabsRow}>
+                      {WEEKS_OF_MONTH.map((week) => (
+                        <Pressable
+                          key={week}
+                          onPress={() => setNthWeekday((prev) => ({ ...prev, week }))}
+                          style={[
+                            styles.tab,
+                            {
+                              backgroundColor:
+                                nthWeekday.week === week ? colors.primary : colors.secondary,
+                              borderColor:
+                                nthWeekday.week === week ? colors.primary : colors.border,
+                            },
+                          ]}
+                        >
+                          <Text
+                            style={[
+                              styles.tabText,
+                              {
+                                color:
+                                  nthWeekday.week === week
+                                    ? colors.primaryForeground
+                                    : colors.foreground,
+                              },
+                            ]}
+                          >
+                            {t(week === -1 ? 'habits.weekOrdinalLast' : `habits.weekOrdinal${week}`)}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                    <Text style={[styles.optionLabel, { color: colors.mutedForeground }]}>
+                      {t('habits.selectWeekday')}
+                    </Text>
+                    <View style={styles.daysRow}>
+                      {DAYS_OF_WEEK.map((day) => (
+                        <Pressable
+                          key={day}
+                          onPress={() => setNthWeekday((prev) => ({ ...prev, weekday: day }))}
+                          style={[
+                            styles.dayButton,
+                            {
+                              backgroundColor:
+                                nthWeekday.weekday === day ? colors.primary : colors.secondary,
+                              borderColor:
+                                nthWeekday.weekday === day ? colors.primary : colors.border,
+                            },
+                          ]}
+                        >
+                          <Text
+                            style={[
+                              styles.dayButtonText,
+                              {
+                                color:
+                                  nthWeekday.weekday === day
+                                    ? colors.primaryForeground
+                                    : colors.foreground,
+                              },
+                            ]}
+                          >
+                            {dayLabels[day]}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  </View>
+                )}
+
                 {frequencyType === 'monthly' && (
                   <View style={styles.frequencyOptions}>
                     <Text style={[styles.optionLabel, { color: colors.mutedForeground }]}>
@@ -527,60 +702,35 @@ export function HabitFormModal({
                   {t('habits.trackingType')}
                 </Text>
                 <View style={styles.tabsRow}>
-                  <Pressable
-                    onPress={() => setTrackingType('boolean')}
-                    style={[
-                      styles.tab,
-                      {
-                        backgroundColor:
-                          trackingType === 'boolean' ? colors.primary : colors.secondary,
-                        borderColor:
-                          trackingType === 'boolean' ? colors.primary : colors.border,
-                      },
-                    ]}
-                  >
-                    <Text
-                      style={[
-                        styles.tabText,
-                        {
-                          color:
-                            trackingType === 'boolean'
-                              ? colors.primaryForeground
-                              : colors.foreground,
-                        },
-                      ]}
-                    >
-                      {t('habits.trackingBoolean')}
-                    </Text>
-                  </Pressable>
-                  <Pressable
-                    onPress={() => setTrackingType('quantitative')}
-                    style={[
-                      styles.tab,
-                      {
-                        backgroundColor:
-                          trackingType === 'quantitative'
-                            ? colors.primary
-                            : colors.secondary,
-                        borderColor:
-                          trackingType === 'quantitative' ? colors.primary : colors.border,
-                      },
-                    ]}
-                  >
-                    <Text
+                  {(['boolean', 'quantitative', 'avoid'] as const).map((type) => (
+                    <Pressable
+                      key={type}
+                      onPress={() => setTrackingType(type)}
                       style={[
-                        styles.tabText,
+                        styles.tab,
                         {
-                          color:
-                            trackingType === 'quantitative'
-                              ? colors.primaryForeground
-                              : colors.foreground,
+                          backgroundColor:
+                            trackingType === type ? colors.primary : colors.secondary,
+                          borderColor:
+                            trackingType === type ? colors.primary : colors.border,
                         },
                       ]}
                     >
-                      {t('habits.trackingQuantitative')}
-                    </Text>
-                  </Pressable>
+                      <Text
+                        style={[
+                          styles.tabText,
+                          {
+                            color:
+                              trackingType === type
+                                ? colors.primaryForeground
+                                : colors.foreground,
+                          },
+                        ]}
+                      >
+                        {t(`habits.tracking${type.charAt(0).toUpperCase() + type.slice(1)}`)}
+                      </Text>
+                    </Pressable>
+                  ))}
                 </View>
 
                 {/* Quantitative Options */}
@@ -633,6 +783,60 @@ export function HabitFormModal({
                     </View>
                   </View>
                 )}
+
+                {/* Avoid Options */}
+                {trackingType === 'avoid' && (
+                  <View style={styles.quantitativeOptions}>
+                    <Text style={[styles.optionLabel, { color: colors.mutedForeground }]}>
+                      {t('habits.trackingAvoidDescription')}
+                    </Text>
+                    <View style={styles.quantitativeRow}>
+                      <View style={styles.quantitativeField}>
+                        <Text
+                          style={[styles.optionLabel, { color: colors.mutedForeground }]}
+                        >
+                          {t('habits.dailyLimit')}
+                        </Text>
+                        <TextInput
+                          style={[
+                            styles.quantitativeInput,
+                            {
+                              backgroundColor: colors.secondary,
+                              color: colors.foreground,
+                              borderColor: colors.border,
+                            },
+                          ]}
+                          value={limit.toString()}
+                          onChangeText={(text) => setLimit(Math.max(0, parseInt(text, 10) || 0))}
+                          keyboardType="numeric"
+                          placeholder="0"
+                          placeholderTextColor={colors.mutedForeground}
+                        />
+                      </View>
+                      <View style={[styles.quantitativeField, { flex: 2 }]}>
+                        <Text
+                          style={[styles.optionLabel, { color: colors.mutedForeground }]}
+                        >
+                          {t('habits.unit')}
+                        </Text>
+                        <TextInput
+                          style={[
+                            styles.quantitativeInput,
+                            {
+                              backgroundColor: colors.secondary,
+                              color: colors.foreground,
+                              borderColor: colors.border,
+                            },
+                          ]}
+                          value={unit}
+                          onChangeText={setUnit}
+                          placeholder={t('habits.unitPlaceholder')}
+                          placeholderTextColor={colors.mutedForeground}
+                        />
+                      </View>
+                    </View>
+                  </View>
+                )}
               </View>
 
               {/* Bottom padding */}
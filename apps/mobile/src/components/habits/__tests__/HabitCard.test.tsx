@@ -194,4 +194,24 @@ describe('HabitCard', () => {
 
     expect(element.props.habit.completions).toHaveLength(3)
   })
+
+  it('should accept avoid habits with a relapse callback', () => {
+    const onLogRelapse = jest.fn()
+    const habit: Habit = {
+      ...mockHabit,
+      tracking: { type: 'avoid', limit: 1, unit: 'coffees' },
+      completions: [
+        { date: '2025-01-17', value: 3, completedAt: '2025-01-17T16:00:00Z' },
+      ],
+    }
+
+    const element = React.createElement(HabitCard, {
+      ...defaultProps,
+      habit,
+      onLogRelapse,
+    })
+
+    expect(element.props.habit.tracking.type).toBe('avoid')
+    expect(element.props.onLogRelapse).toBe(onLogRelapse)
+  })
 })
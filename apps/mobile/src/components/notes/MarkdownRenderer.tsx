@@ -1,4 +1,7 @@
-import { Text, View, StyleSheet, Linking, Pressable } from 'react-native'
+import { useMemo } from 'react'
+import { Text, View, StyleSheet, Linking } from 'react-native'
+import { markdownToBlocks } from '@hagu/core'
+import type { NoteBlock, NoteInlineContent, NoteTextStyles } from '@hagu/core'
 import { useTheme, spacing, radius, typography } from '@/theme'
 
 // =============================================================================
@@ -10,381 +13,189 @@ interface MarkdownRendererProps {
   style?: object
 }
 
-interface ParsedBlock {
-  type: 'h1' | 'h2' | 'h3' | 'paragraph' | 'bullet' | 'numbered' | 'checklist' | 'quote' | 'code' | 'divider'
-  content: string
-  checked?: boolean
-  number?: number
-}
-
-// =============================================================================
-// Markdown Parser
-// =============================================================================
-
-function parseMarkdown(text: string): ParsedBlock[] {
-  const lines = text.split('\n')
-  const blocks: ParsedBlock[] = []
-  let numberedCounter = 0
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
-
-    // Divider
-    if (/^---+$/.test(line.trim())) {
-      blocks.push({ type: 'divider', content: '' })
-      continue
-    }
-
-    // Headings
-    if (line.startsWith('# ')) {
-      blocks.push({ type: 'h1', content: line.slice(2) })
-      numberedCounter = 0
-      continue
-    }
-    if (line.startsWith('## ')) {
-      blocks.push({ type: 'h2', content: line.slice(3) })
-      numberedCounter = 0
-      continue
-    }
-    if (line.startsWith('### ')) {
-      blocks.push({ type: 'h3', content: line.slice(4) })
-      numberedCounter = 0
-      continue
-    }
-
-    // Bullet list
-    if (/^[-*]\s/.test(line)) {
-      blocks.push({ type: 'bullet', content: line.slice(2) })
-      numberedCounter = 0
-      continue
-    }
-
-    // Numbered list
-    const numberedMatch = line.match(/^(\d+)\.\s(.*)/)
-    if (numberedMatch) {
-      numberedCounter++
-      blocks.push({ type: 'numbered', content: numberedMatch[2], number: numberedCounter })
-      continue
-    }
-
-    // Checklist
-    if (line.startsWith('- [ ] ')) {
-      blocks.push({ type: 'checklist', content: line.slice(6), checked: false })
-      numberedCounter = 0
-      continue
-    }
-    if (line.startsWith('- [x] ') || line.startsWith('- [X] ')) {
-      blocks.push({ type: 'checklist', content: line.slice(6), checked: true })
-      numberedCounter = 0
-      continue
-    }
-
-    // Quote
-    if (line.startsWith('> ')) {
-      blocks.push({ type: 'quote', content: line.slice(2) })
-      numberedCounter = 0
-      continue
-    }
-
-    // Code block (simple inline)
-    if (line.startsWith('```') || line.startsWith('`')) {
-      // For simplicity, treat backtick lines as code
-      const content = line.replace(/^`+|`+$/g, '')
-      if (content) {
-        blocks.push({ type: 'code', content })
-      }
-      numberedCounter = 0
-      continue
-    }
-
-    // Empty line
-    if (!line.trim()) {
-      numberedCounter = 0
-      continue
-    }
-
-    // Regular paragraph
-    blocks.push({ type: 'paragraph', content: line })
-    numberedCounter = 0
-  }
-
-  return blocks
+interface TextStyles {
+  base: object
+  bold: object
+  italic: object
+  link: object
+  code: object
 }
 
 // =============================================================================
-// Inline Text Renderer (bold, italic, links)
+// Inline Text Renderer (bold, italic, strike, underline, code, links)
 // =============================================================================
 
-interface InlineTextProps {
-  content: string
-  baseStyle: object
-  boldStyle: object
-  italicStyle: object
-  linkStyle: object
-  codeStyle: object
-  codeBackgroundStyle: object
+function styledTextStyle(styles: NoteTextStyles, textStyles: TextStyles): object[] {
+  const decorations = [styles.underline && 'underline', styles.strike && 'line-through']
+    .filter(Boolean)
+    .join(' ')
+
+  return [
+    styles.bold && textStyles.bold,
+    styles.italic && textStyles.italic,
+    styles.code && textStyles.code,
+    decorations && { textDecorationLine: decorations },
+  ].filter(Boolean) as object[]
 }
 
 function InlineText({
   content,
   baseStyle,
-  boldStyle,
-  italicStyle,
-  linkStyle,
-  codeStyle,
-  codeBackgroundStyle,
-}: InlineTextProps) {
-  // Parse inline formatting: **bold**, *italic*, `code`, [link](url)
-  const parts: React.ReactNode[] = []
-  let remaining = content
-  let key = 0
-
-  while (remaining.length > 0) {
-    // Bold: **text**
-    const boldMatch = remaining.match(/^\*\*(.+?)\*\*/)
-    if (boldMatch) {
-      parts.push(
-        <Text key={key++} style={boldStyle}>
-          {boldMatch[1]}
-        </Text>
-      )
-      remaining = remaining.slice(boldMatch[0].length)
-      continue
-    }
-
-    // Italic: *text*
-    const italicMatch = remaining.match(/^\*(.+?)\*/)
-    if (italicMatch) {
-      parts.push(
-        <Text key={key++} style={italicStyle}>
-          {italicMatch[1]}
-        </Text>
-      )
-      remaining = remaining.slice(italicMatch[0].length)
-      continue
-    }
-
-    // Code: `text`
-    const codeMatch = remaining.match(/^`(.+?)`/)
-    if (codeMatch) {
-      parts.push(
-        <Text key={key++} style={[codeStyle, codeBackgroundStyle]}>
-          {codeMatch[1]}
-        </Text>
-      )
-      remaining = remaining.slice(codeMatch[0].length)
-      continue
-    }
-
-    // Link: [text](url)
-    const linkMatch = remaining.match(/^\[(.+?)\]\((.+?)\)/)
-    if (linkMatch) {
-      const text = linkMatch[1]
-      const url = linkMatch[2]
-      parts.push(
-        <Text
-          key={key++}
-          style={linkStyle}
-          onPress={() => Linking.openURL(url)}
-        >
-          {text}
-        </Text>
-      )
-      remaining = remaining.slice(linkMatch[0].length)
-      continue
-    }
-
-    // Regular text - find next special character
-    const nextSpecial = remaining.search(/\*|`|\[/)
-    if (nextSpecial === -1) {
-      parts.push(
-        <Text key={key++} style={baseStyle}>
-          {remaining}
-        </Text>
-      )
-      break
-    } else if (nextSpecial === 0) {
-      // No match but at special char, just consume it
-      parts.push(
-        <Text key={key++} style={baseStyle}>
-          {remaining[0]}
-        </Text>
-      )
-      remaining = remaining.slice(1)
-    } else {
-      parts.push(
-        <Text key={key++} style={baseStyle}>
-          {remaining.slice(0, nextSpecial)}
-        </Text>
-      )
-      remaining = remaining.slice(nextSpecial)
-    }
-  }
+  textStyles,
+}: {
+  content: NoteInlineContent[]
+  baseStyle: object
+  textStyles: TextStyles
+}) {
+  return (
+    <Text style={baseStyle}>
+      {content.map((item, index) => {
+        if (item.type === 'link') {
+          return (
+            <Text key={index} style={textStyles.link} onPress={() => Linking.openURL(item.href)}>
+              {item.content.map((text, i) => (
+                <Text key={i} style={styledTextStyle(text.styles, textStyles)}>
+                  {text.text}
+                </Text>
+              ))}
+            </Text>
+          )
+        }
 
-  return <Text style={baseStyle}>{parts}</Text>
+        return (
+          <Text key={index} style={styledTextStyle(item.styles, textStyles)}>
+            {item.text}
+          </Text>
+        )
+      })}
+    </Text>
+  )
 }
 
 // =============================================================================
-// Main Component
+// Block Renderer
 // =============================================================================
 
-export function MarkdownRenderer({ content, style }: MarkdownRendererProps) {
+function NoteBlocks({ blocks, textStyles }: { blocks: NoteBlock[]; textStyles: TextStyles }) {
   const { colors } = useTheme()
-
-  const blocks = parseMarkdown(content)
-
-  const baseTextStyle = {
-    color: colors.foreground,
-    fontSize: typography.size.base,
-    lineHeight: 24,
-  }
-
-  const boldStyle = {
-    ...baseTextStyle,
-    fontWeight: typography.weight.bold as any,
-  }
-
-  const italicStyle = {
-    ...baseTextStyle,
-    fontStyle: 'italic' as const,
-  }
-
-  const linkStyle = {
-    ...baseTextStyle,
-    color: colors.accent,
-    textDecorationLine: 'underline' as const,
-  }
-
-  const codeStyle = {
-    fontFamily: 'monospace',
-    fontSize: typography.size.sm,
-    color: colors.foreground,
-  }
-
-  const codeBackgroundStyle = {
-    backgroundColor: colors.muted,
-    paddingHorizontal: 4,
-    borderRadius: 4,
-  }
+  let number = 0
 
   return (
-    <View style={[styles.container, style]}>
+    <>
       {blocks.map((block, index) => {
-        switch (block.type) {
-          case 'h1':
-            return (
-              <Text
-                key={index}
-                style={[styles.h1, { color: colors.foreground }]}
-              >
-                {block.content}
-              </Text>
-            )
+        const content = block.content ?? []
+        const props = block.props ?? {}
+        const children = block.children?.length ? (
+          <View style={styles.children}>
+            <NoteBlocks blocks={block.children} textStyles={textStyles} />
+          </View>
+        ) : null
+
+        if (block.type === 'numberedListItem') {
+          const continues = blocks[index - 1]?.type === 'numberedListItem'
+          number = continues ? number + 1 : Number(props.start ?? 1)
+        }
 
-          case 'h2':
+        switch (block.type) {
+          case 'heading': {
+            const level = Number(props.level ?? 1)
+            const headingStyle = level === 1 ? styles.h1 : level === 2 ? styles.h2 : styles.h3
             return (
-              <Text
-                key={index}
-                style={[styles.h2, { color: colors.foreground }]}
-              >
-                {block.content}
-              </Text>
+              <View key={index}>
+                <InlineText
+                  content={content}
+                  baseStyle={[headingStyle, { color: colors.foreground }]}
+                  textStyles={textStyles}
+                />
+                {children}
+              </View>
             )
+          }
 
-          case 'h3':
+          case 'bulletListItem':
             return (
-              <Text
-                key={index}
-                style={[styles.h3, { color: colors.foreground }]}
-              >
-                {block.content}
-              </Text>
+              <View key={index}>
+                <View style={styles.listItem}>
+                  <Text style={[styles.bullet, { color: colors.foreground }]}>•</Text>
+                  <InlineText
+                    content={content}
+                    baseStyle={textStyles.base}
+                    textStyles={textStyles}
+                  />
+                </View>
+                {children}
+              </View>
             )
 
-          case 'bullet':
+          case 'numberedListItem':
             return (
-              <View key={index} style={styles.listItem}>
-                <Text style={[styles.bullet, { color: colors.foreground }]}>•</Text>
-                <InlineText
-                  content={block.content}
-                  baseStyle={baseTextStyle}
-                  boldStyle={boldStyle}
-                  italicStyle={italicStyle}
-                  linkStyle={linkStyle}
-                  codeStyle={codeStyle}
-                  codeBackgroundStyle={codeBackgroundStyle}
-                />
+              <View key={index}>
+                <View style={styles.listItem}>
+                  <Text style={[styles.number, { color: colors.foreground }]}>{number}.</Text>
+                  <InlineText
+                    content={content}
+                    baseStyle={textStyles.base}
+                    textStyles={textStyles}
+                  />
+                </View>
+                {children}
               </View>
             )
 
-          case 'numbered':
+          case 'checkListItem':
             return (
-              <View key={index} style={styles.listItem}>
-                <Text style={[styles.number, { color: colors.foreground }]}>
-                  {block.number}.
-                </Text>
-                <InlineText
-                  content={block.content}
-                  baseStyle={baseTextStyle}
-                  boldStyle={boldStyle}
-                  italicStyle={italicStyle}
-                  linkStyle={linkStyle}
-                  codeStyle={codeStyle}
-                  codeBackgroundStyle={codeBackgroundStyle}
-                />
+              <View key={index}>
+                <View style={styles.listItem}>
+                  <Text
+                    style={[
+                      styles.checkbox,
+                      { color: props.checked ? colors.success : colors.mutedForeground },
+                    ]}
+                  >
+                    {props.checked ? '☑' : '☐'}
+                  </Text>
+                  <InlineText
+                    content={content}
+                    baseStyle={[
+                      textStyles.base,
+                      !!props.checked && styles.checkedText,
+                      !!props.checked && { color: colors.mutedForeground },
+                    ]}
+                    textStyles={textStyles}
+                  />
+                </View>
+                {children}
               </View>
             )
 
-          case 'checklist':
+          case 'quote':
             return (
-              <View key={index} style={styles.listItem}>
-                <Text
-                  style={[
-                    styles.checkbox,
-                    { color: block.checked ? colors.success : colors.mutedForeground },
-                  ]}
-                >
-                  {block.checked ? '☑' : '☐'}
-                </Text>
-                <Text
+              <View key={index}>
+                <View
                   style={[
-                    baseTextStyle,
-                    block.checked && styles.checkedText,
-                    block.checked && { color: colors.mutedForeground },
+                    styles.quote,
+                    { borderLeftColor: colors.accent, backgroundColor: colors.muted },
                   ]}
                 >
-                  {block.content}
-                </Text>
+                  <InlineText
+                    content={content}
+                    baseStyle={[textStyles.base, { fontStyle: 'italic' }]}
+                    textStyles={textStyles}
+                  />
+                </View>
+                {children}
               </View>
             )
 
-          case 'quote':
+          case 'codeBlock':
             return (
-              <View
-                key={index}
-                style={[styles.quote, { borderLeftColor: colors.accent, backgroundColor: colors.muted }]}
-              >
-                <InlineText
-                  content={block.content}
-                  baseStyle={{ ...baseTextStyle, fontStyle: 'italic' }}
-                  boldStyle={boldStyle}
-                  italicStyle={italicStyle}
-                  linkStyle={linkStyle}
-                  codeStyle={codeStyle}
-                  codeBackgroundStyle={codeBackgroundStyle}
-                />
-              </View>
-            )
-
-          case 'code':
-            return (
-              <View
-                key={index}
-                style={[styles.codeBlock, { backgroundColor: colors.muted }]}
-              >
-                <Text style={[styles.codeText, { color: colors.foreground }]}>
-                  {block.content}
-                </Text>
+              <View key={index}>
+                <View style={[styles.codeBlock, { backgroundColor: colors.muted }]}>
+                  <Text style={[styles.codeText, { color: colors.foreground }]}>
+                    {content.map((item) => (item.type === 'text' ? item.text : '')).join('')}
+                  </Text>
+                </View>
+                {children}
               </View>
             )
 
@@ -397,22 +208,57 @@ export function MarkdownRenderer({ content, style }: MarkdownRendererProps) {
             )
 
           case 'paragraph':
-          default:
+            // Empty lines only separate blocks
+            if (content.length === 0 && !children) return null
             return (
               <View key={index} style={styles.paragraph}>
-                <InlineText
-                  content={block.content}
-                  baseStyle={baseTextStyle}
-                  boldStyle={boldStyle}
-                  italicStyle={italicStyle}
-                  linkStyle={linkStyle}
-                  codeStyle={codeStyle}
-                  codeBackgroundStyle={codeBackgroundStyle}
-                />
+                <InlineText content={content} baseStyle={textStyles.base} textStyles={textStyles} />
+                {children}
               </View>
             )
+
+          default:
+            // Blocks Markdown cannot express (images, tables...) are not shown
+            return children ? <View key={index}>{children}</View> : null
         }
       })}
+    </>
+  )
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+export function MarkdownRenderer({ content, style }: MarkdownRendererProps) {
+  const { colors } = useTheme()
+
+  const blocks = useMemo(() => markdownToBlocks(content), [content])
+
+  const baseTextStyle = {
+    color: colors.foreground,
+    fontSize: typography.size.base,
+    lineHeight: 24,
+  }
+
+  const textStyles: TextStyles = {
+    base: baseTextStyle,
+    bold: { fontWeight: typography.weight.bold as any },
+    italic: { fontStyle: 'italic' as const },
+    link: {
+      color: colors.accent,
+      textDecorationLine: 'underline' as const,
+    },
+    code: {
+      fontFamily: 'monospace',
+      fontSize: typography.size.sm,
+      backgroundColor: colors.muted,
+    },
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <NoteBlocks blocks={blocks} textStyles={textStyles} />
     </View>
   )
 }
@@ -450,6 +296,10 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     paddingLeft: spacing[2],
   },
+  children: {
+    paddingLeft: spacing[4],
+    gap: spacing[2],
+  },
   bullet: {
     width: 20,
     fontSize: typography.size.base,
@@ -0,0 +1,265 @@
+import { useState, useMemo } from 'react'
+import { View, Text, StyleSheet, Pressable, ScrollView, Modal, Alert } from 'react-native'
+import { useTranslation } from 'react-i18next'
+import { X, RotateCcw } from 'lucide-react-native'
+import { blocksToMarkdown, diffRevisionLines } from '@hagu/core'
+import type { NoteBlock } from '@hagu/core'
+import { useTheme, spacing, radius, typography } from '@/theme'
+import { usePageRevisions, useRestorePageRevision, type Note } from '@/hooks/use-notes'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface PageHistoryProps {
+  visible: boolean
+  onClose: () => void
+  pageId: string
+  currentContent: string // Markdown in the editor
+  onRestored: (note: Note) => void
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+// Earlier versions of a note, compared line by line with what is in the
+// editor now, and restored in one tap
+export function PageHistory({ visible, onClose, pageId, currentContent, onRestored }: PageHistoryProps) {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const { data: revisions = [], isLoading } = usePageRevisions(pageId, visible)
+  const { mutate: restoreRevision, isPending } = useRestorePageRevision()
+
+  const selected = revisions.find((revision) => revision.id === selectedId) ?? revisions[0]
+
+  const diff = useMemo(
+    () =>
+      selected
+        ? diffRevisionLines(blocksToMarkdown(selected.content as NoteBlock[]), currentContent)
+        : [],
+    [selected, currentContent]
+  )
+  const hasDifferences = diff.some((line) => line.type !== 'unchanged')
+
+  const handleRestore = () => {
+    if (!selected) return
+
+    Alert.alert(t('notes.restoreVersion'), t('notes.restoreVersionConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('notes.restoreVersion'),
+        onPress: () => {
+          restoreRevision(selected, {
+            onSuccess: (note) => {
+              onRestored(note)
+              onClose()
+            },
+          })
+        },
+      },
+    ])
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.content, { backgroundColor: colors.card }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.foreground }]}>{t('notes.history')}</Text>
+            <Pressable onPress={onClose} hitSlop={8}>
+              <X size={24} color={colors.mutedForeground} />
+            </Pressable>
+          </View>
+          <Text style={[styles.description, { color: colors.mutedForeground }]}>
+            {t('notes.historyDescription')}
+          </Text>
+
+          {isLoading ? (
+            <View style={[styles.skeleton, { backgroundColor: colors.muted }]} />
+          ) : !selected ? (
+            <Text style={[styles.empty, { color: colors.mutedForeground }]}>
+              {t('notes.noRevisions')}
+            </Text>
+          ) : (
+            <>
+              {/* Versions */}
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.versions}
+              >
+                {revisions.map((revision) => {
+                  const isSelected = revision.id === selected.id
+                  return (
+                    <Pressable
+                      key={revision.id}
+                      onPress={() => setSelectedId(revision.id)}
+                      style={[
+                        styles.version,
+                        {
+                          backgroundColor: isSelected ? colors.accent + '20' : colors.muted,
+                          borderColor: isSelected ? colors.accent : 'transparent',
+                        },
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.versionText,
+                          { color: isSelected ? colors.accent : colors.foreground },
+                        ]}
+                      >
+                        {new Date(revision.createdAt).toLocaleString(undefined, {
+                          month: 'short',
+                          day: 'numeric',
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })}
+                      </Text>
+                    </Pressable>
+                  )
+                })}
+              </ScrollView>
+
+              {/* Diff */}
+              <Text style={[styles.diffLabel, { color: colors.mutedForeground }]}>
+                {t('notes.comparedWithCurrent')}
+              </Text>
+              <ScrollView style={[styles.diff, { borderColor: colors.border }]}>
+                {!hasDifferences ? (
+                  <Text style={[styles.diffEmpty, { color: colors.mutedForeground }]}>
+                    {t('notes.noDifferences')}
+                  </Text>
+                ) : (
+                  diff.map((line, index) => (
+                    <Text
+                      key={index}
+                      style={[
+                        styles.diffLine,
+                        line.type === 'added' && {
+                          color: colors.success,
+                          backgroundColor: colors.success + '15',
+                        },
+                        line.type === 'removed' && {
+                          color: colors.error,
+                          backgroundColor: colors.error + '15',
+                        },
+                        line.type === 'unchanged' && { color: colors.mutedForeground },
+                      ]}
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                      {line.text}
+                    </Text>
+                  ))
+                )}
+              </ScrollView>
+
+              <Pressable
+                style={[styles.restoreButton, { backgroundColor: colors.accent, opacity: isPending ? 0.5 : 1 }]}
+                onPress={handleRestore}
+                disabled={isPending}
+              >
+                <RotateCcw size={18} color="#fff" />
+                <Text style={styles.restoreButtonText}>{t('notes.restoreVersion')}</Text>
+              </Pressable>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    maxHeight: '85%',
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    padding: spacing[4],
+    paddingBottom: spacing[8],
+    gap: spacing[3],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: typography.size.lg,
+    fontWeight: typography.weight.semibold,
+  },
+  description: {
+    fontSize: typography.size.sm,
+  },
+  skeleton: {
+    height: 200,
+    borderRadius: radius.lg,
+  },
+  empty: {
+    fontSize: typography.size.sm,
+    textAlign: 'center',
+    paddingVertical: spacing[8],
+  },
+
+  // Versions
+  versions: {
+    gap: spacing[2],
+  },
+  version: {
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    borderRadius: radius.full,
+    borderWidth: 1,
+  },
+  versionText: {
+    fontSize: typography.size.xs,
+    fontWeight: typography.weight.medium,
+  },
+
+  // Diff
+  diffLabel: {
+    fontSize: typography.size.xs,
+  },
+  diff: {
+    maxHeight: 320,
+    borderWidth: 1,
+    borderRadius: radius.lg,
+    paddingVertical: spacing[2],
+  },
+  diffEmpty: {
+    fontSize: typography.size.sm,
+    padding: spacing[3],
+  },
+  diffLine: {
+    fontFamily: 'monospace',
+    fontSize: typography.size.xs,
+    paddingHorizontal: spacing[3],
+    paddingVertical: 1,
+  },
+
+  // Restore
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing[2],
+    paddingVertical: spacing[3],
+    borderRadius: radius.lg,
+  },
+  restoreButtonText: {
+    color: '#fff',
+    fontSize: typography.size.base,
+    fontWeight: typography.weight.semibold,
+  },
+})
@@ -0,0 +1,95 @@
+import { Text, View, StyleSheet, Pressable } from 'react-native'
+import { useTranslation } from 'react-i18next'
+import { useRouter } from 'expo-router'
+import { FileText, Link2 } from 'lucide-react-native'
+import type { PageLinkTargetType } from '@hagu/core'
+import { useTheme, spacing, radius, typography } from '@/theme'
+import { usePageBacklinks } from '@/hooks/use-notes'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface PageMentionsProps {
+  targetType: PageLinkTargetType
+  targetId: string
+  style?: object
+}
+
+// =============================================================================
+// Main Component
+// =============================================================================
+
+// Notes that link to a note ([[Title]]) or mention a task, habit or project
+// (@task[Title]...); hidden while there are none
+export function PageMentions({ targetType, targetId, style }: PageMentionsProps) {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const router = useRouter()
+  const { data: backlinks = [] } = usePageBacklinks(targetType, targetId)
+
+  if (backlinks.length === 0) return null
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.header}>
+        <Link2 size={16} color={colors.mutedForeground} />
+        <Text style={[styles.title, { color: colors.mutedForeground }]}>
+          {targetType === 'page' ? t('notes.linkedFrom') : t('notes.mentionedIn')}
+        </Text>
+        <Text style={[styles.count, { color: colors.mutedForeground }]}>{backlinks.length}</Text>
+      </View>
+
+      {backlinks.map((backlink) => (
+        <Pressable
+          key={backlink.pageId}
+          onPress={() => router.push(`/notes/note/${backlink.pageId}`)}
+          style={({ pressed }) => [
+            styles.item,
+            { borderColor: colors.border, opacity: pressed ? 0.7 : 1 },
+          ]}
+        >
+          <FileText size={16} color={colors.mutedForeground} />
+          <Text style={[styles.itemText, { color: colors.foreground }]} numberOfLines={1}>
+            {backlink.title || t('notes.titlePlaceholder')}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  )
+}
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing[2],
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  title: {
+    fontSize: typography.size.sm,
+    fontWeight: typography.weight.medium,
+  },
+  count: {
+    fontSize: typography.size.xs,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+    borderWidth: 1,
+    borderRadius: radius.md,
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+  },
+  itemText: {
+    flex: 1,
+    fontSize: typography.size.sm,
+  },
+})
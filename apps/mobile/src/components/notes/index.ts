@@ -2,3 +2,5 @@ export { FormattingToolbar } from './FormattingToolbar'
 export { MarkdownRenderer } from './MarkdownRenderer'
 export { applyFormatting } from './utils'
 export type { FormatAction } from './utils'
+export { PageMentions } from './PageMentions'
+export { PageHistory } from './PageHistory'
@@ -4,7 +4,9 @@ import {
   Text,
   Pressable,
   Modal,
+  ScrollView,
   StyleSheet,
+  Switch,
 } from 'react-native'
 import { useTranslation } from 'react-i18next'
 import {
@@ -17,9 +19,15 @@ import {
 } from 'lucide-react-native'
 import Animated, { FadeIn, SlideInDown } from 'react-native-reanimated'
 import { useTheme, spacing, radius, typography } from '@/theme'
-import type { RecurrencePattern } from '@hagu/core'
+import {
+  formatLocalDate,
+  getNextOccurrence,
+  getTodayString,
+  type RecurrencePattern,
+} from '@hagu/core'
 
-type RecurrenceType = 'daily' | 'weekly' | 'monthly' | 'yearly'
+type RecurrenceType = RecurrencePattern['type']
+type MonthlyMode = 'dayOfMonth' | 'lastDay' | 'lastBusinessDay' | 'nthWeekday'
 
 interface RecurrencePickerProps {
   value?: RecurrencePattern
@@ -27,28 +35,89 @@ interface RecurrencePickerProps {
 }
 
 const RECURRENCE_TYPES: RecurrenceType[] = ['daily', 'weekly', 'monthly', 'yearly']
+const MONTHLY_MODES: MonthlyMode[] = ['dayOfMonth', 'lastDay', 'lastBusinessDay', 'nthWeekday']
+const DAYS_OF_WEEK = [0, 1, 2, 3, 4, 5, 6] as const
+const BUSINESS_DAYS = [1, 2, 3, 4, 5]
+const WEEK_POSITIONS = [1, 2, 3, 4, -1] as const
+const dayLabels = ['D', 'S', 'T', 'Q', 'Q', 'S', 'S'] // Dom, Seg, Ter, Qua, Qui, Sex, Sab
+
+function getMonthlyMode(pattern?: RecurrencePattern): MonthlyMode {
+  if (!pattern) return 'dayOfMonth'
+  if (pattern.monthDays?.length === 1 && pattern.monthDays[0] === -1) return 'lastDay'
+  if (pattern.setPosition === -1 && pattern.weekdays?.length === BUSINESS_DAYS.length) {
+    return 'lastBusinessDay'
+  }
+  if (pattern.setPosition && pattern.weekdays?.length === 1) return 'nthWeekday'
+  return 'dayOfMonth'
+}
 
 export function RecurrencePicker({ value, onChange }: RecurrencePickerProps) {
-  const { t } = useTranslation()
+  const { t, i18n } = useTranslation()
   const { colors } = useTheme()
 
   const [showModal, setShowModal] = useState(false)
   const [selectedType, setSelectedType] = useState<RecurrenceType>(value?.type ?? 'daily')
   const [interval, setInterval] = useState(value?.interval ?? 1)
+  const [weekdays, setWeekdays] = useState<number[]>(value?.weekdays ?? [])
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>(getMonthlyMode(value))
+  const [nthWeek, setNthWeek] = useState(value?.setPosition ?? 1)
+  const [nthWeekday, setNthWeekday] = useState(value?.weekdays?.[0] ?? 1)
+  const [count, setCount] = useState(value?.count ?? 0)
+  const [fromCompletion, setFromCompletion] = useState(value?.fromCompletion ?? false)
 
   const handleOpen = useCallback(() => {
     setSelectedType(value?.type ?? 'daily')
     setInterval(value?.interval ?? 1)
+    setWeekdays(value?.weekdays ?? [])
+    setMonthlyMode(getMonthlyMode(value))
+    setNthWeek(value?.setPosition ?? 1)
+    setNthWeekday(value?.weekdays?.[0] ?? 1)
+    setCount(value?.count ?? 0)
+    setFromCompletion(value?.fromCompletion ?? false)
     setShowModal(true)
   }, [value])
 
-  const handleSave = useCallback(() => {
-    onChange({
+  const buildPattern = (): RecurrencePattern => {
+    const pattern: RecurrencePattern = {
       type: selectedType,
       interval,
-    })
+      endDate: value?.endDate,
+    }
+
+    if (selectedType === 'weekly' && weekdays.length > 0) {
+      pattern.weekdays = [...weekdays].sort()
+    }
+    if (selectedType === 'monthly') {
+      switch (monthlyMode) {
+        case 'lastDay':
+          pattern.monthDays = [-1]
+          break
+        case 'lastBusinessDay':
+          pattern.weekdays = BUSINESS_DAYS
+          pattern.setPosition = -1
+          break
+        case 'nthWeekday':
+          pattern.weekdays = [nthWeekday]
+          pattern.setPosition = nthWeek
+          break
+      }
+    }
+    if (count > 0) pattern.count = count
+    if (fromCompletion) pattern.fromCompletion = true
+
+    return pattern
+  }
+
+  const handleSave = () => {
+    onChange(buildPattern())
     setShowModal(false)
-  }, [selectedType, interval, onChange])
+  }
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]
+    )
+  }
 
   const handleClear = useCallback(() => {
     onChange(undefined)
@@ -65,12 +134,28 @@ export function RecurrencePicker({ value, onChange }: RecurrencePickerProps) {
 
   const getRecurrenceLabel = (pattern: RecurrencePattern): string => {
     const { type, interval } = pattern
-    if (interval === 1) {
-      return t(`tasks.recurrence.every_${type}`)
+    const parts = [
+      interval === 1
+        ? t(`tasks.recurrence.every_${type}`)
+        : t(`tasks.recurrence.every_n_${type}s`, { count: interval }),
+    ]
+
+    if (type === 'weekly' && pattern.weekdays?.length) {
+      parts.push(pattern.weekdays.map((d) => dayLabels[d]).join(' '))
     }
-    return t(`tasks.recurrence.every_n_${type}s`, { count: interval })
+    if (type === 'monthly') {
+      const mode = getMonthlyMode(pattern)
+      if (mode !== 'dayOfMonth') parts.push(t(`tasks.recurrence.${mode}`))
+    }
+    if (pattern.count) parts.push(t('tasks.recurrence.timesCount', { count: pattern.count }))
+    if (pattern.fromCompletion) parts.push(t('tasks.recurrence.afterCompletion'))
+
+    return parts.join(' · ')
   }
 
+  const previewPattern = buildPattern()
+  const nextOccurrence = getNextOccurrence(previewPattern, getTodayString())
+
   return (
     <>
       <Pressable
@@ -126,7 +211,7 @@ export function RecurrencePicker({ value, onChange }: RecurrencePickerProps) {
           </View>
 
           {/* Content */}
-          <View style={styles.modalBody}>
+          <ScrollView contentContainerStyle={styles.modalBody}>
             {/* Recurrence Type */}
             <Text style={[styles.sectionLabel, { color: colors.foreground }]}>
               {t('tasks.recurrence.frequency')}
@@ -202,14 +287,207 @@ export function RecurrencePicker({ value, onChange }: RecurrencePickerProps) {
               </Text>
             </View>
 
+            {/* Weekdays */}
+            {selectedType === 'weekly' && (
+              <>
+                <Text style={[styles.sectionLabel, { color: colors.foreground, marginTop: spacing[5] }]}>
+                  {t('tasks.recurrence.onDays')}
+                </Text>
+                <View style={styles.chipRow}>
+                  {DAYS_OF_WEEK.map((day) => {
+                    const isSelected = weekdays.includes(day)
+                    return (
+                      <Pressable
+                        key={day}
+                        onPress={() => toggleWeekday(day)}
+                        style={[
+                          styles.dayChip,
+                          {
+                            backgroundColor: isSelected ? colors.accent : colors.secondary,
+                            borderColor: isSelected ? colors.accent : colors.border,
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.typeText,
+                            { color: isSelected ? colors.white : colors.foreground },
+                          ]}
+                        >
+                          {dayLabels[day]}
+                        </Text>
+                      </Pressable>
+                    )
+                  })}
+                </View>
+              </>
+            )}
+
+            {/* Monthly rule */}
+            {selectedType === 'monthly' && (
+              <>
+                <Text style={[styles.sectionLabel, { color: colors.foreground, marginTop: spacing[5] }]}>
+                  {t('tasks.recurrence.repeatOn')}
+                </Text>
+                <View style={styles.typeGrid}>
+                  {MONTHLY_MODES.map((mode) => {
+                    const isSelected = monthlyMode === mode
+                    return (
+                      <Pressable
+                        key={mode}
+                        onPress={() => setMonthlyMode(mode)}
+                        style={[
+                          styles.typeButton,
+                          {
+                            backgroundColor: isSelected ? colors.accent + '15' : colors.secondary,
+                            borderColor: isSelected ? colors.accent : colors.border,
+                          },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.typeText,
+                            { color: isSelected ? colors.accent : colors.foreground },
+                          ]}
+                        >
+                          {t(`tasks.recurrence.${mode}`)}
+                        </Text>
+                      </Pressable>
+                    )
+                  })}
+                </View>
+
+                {monthlyMode === 'nthWeekday' && (
+                  <>
+                    <View style={[styles.chipRow, { marginTop: spacing[3] }]}>
+                      {WEEK_POSITIONS.map((week) => {
+                        const isSelected = nthWeek === week
+                        return (
+                          <Pressable
+                            key={week}
+                            onPress={() => setNthWeek(week)}
+                            style={[
+                              styles.typeButton,
+                              {
+                                backgroundColor: isSelected ? colors.accent + '15' : colors.secondary,
+                                borderColor: isSelected ? colors.accent : colors.border,
+                              },
+                            ]}
+                          >
+                            <Text
+                              style={[
+                                styles.typeText,
+                                { color: isSelected ? colors.accent : colors.foreground },
+                              ]}
+                            >
+                              {week === -1
+                                ? t('habits.weekOrdinalLast')
+                                : t(`habits.weekOrdinal${week}`)}
+                            </Text>
+                          </Pressable>
+                        )
+                      })}
+                    </View>
+                    <View style={[styles.chipRow, { marginTop: spacing[2] }]}>
+                      {DAYS_OF_WEEK.map((day) => {
+                        const isSelected = nthWeekday === day
+                        return (
+                          <Pressable
+                            key={day}
+                            onPress={() => setNthWeekday(day)}
+                            style={[
+                              styles.dayChip,
+                              {
+                                backgroundColor: isSelected ? colors.accent : colors.secondary,
+                                borderColor: isSelected ? colors.accent : colors.border,
+                              },
+                            ]}
+                          >
+                            <Text
+                              style={[
+                                styles.typeText,
+                                { color: isSelected ? colors.white : colors.foreground },
+                              ]}
+                            >
+                              {dayLabels[day]}
+                            </Text>
+                          </Pressable>
+                        )
+                      })}
+                    </View>
+                  </>
+                )}
+              </>
+            )}
+
+            {/* Ends after N occurrences (0 = never) */}
+            <Text style={[styles.sectionLabel, { color: colors.foreground, marginTop: spacing[5] }]}>
+              {t('tasks.recurrence.ends')}
+            </Text>
+            <View style={styles.intervalRow}>
+              <View style={[styles.intervalControls, { backgroundColor: colors.secondary }]}>
+                <Pressable
+                  onPress={() => setCount((prev) => Math.max(prev - 1, 0))}
+                  disabled={count <= 0}
+                  style={[styles.intervalButton, { opacity: count <= 0 ? 0.4 : 1 }]}
+                >
+                  <ChevronDown size={20} color={colors.foreground} />
+                </Pressable>
+                <Text style={[styles.intervalValue, { color: colors.foreground }]}>
+                  {count > 0 ? count : '∞'}
+                </Text>
+                <Pressable
+                  onPress={() => setCount((prev) => Math.min(prev + 1, 999))}
+                  style={styles.intervalButton}
+                >
+                  <ChevronUp size={20} color={colors.foreground} />
+                </Pressable>
+              </View>
+              <Text style={[styles.intervalLabel, { color: colors.mutedForeground }]}>
+                {count > 0
+                  ? t('tasks.recurrence.timesCount', { count })
+                  : t('tasks.recurrence.never')}
+              </Text>
+            </View>
+
+            {/* Completion-based */}
+            <View style={styles.switchRow}>
+              <View style={styles.switchText}>
+                <Text style={[styles.previewText, { color: colors.foreground }]}>
+                  {t('tasks.recurrence.fromCompletion')}
+                </Text>
+                <Text style={[styles.intervalLabel, { color: colors.mutedForeground }]}>
+                  {t('tasks.recurrence.fromCompletionHint')}
+                </Text>
+              </View>
+              <Switch
+                value={fromCompletion}
+                onValueChange={setFromCompletion}
+                trackColor={{ true: colors.accent }}
+              />
+            </View>
+
             {/* Preview */}
             <View style={[styles.previewCard, { backgroundColor: colors.secondary }]}>
               <Calendar size={18} color={colors.accent} />
-              <Text style={[styles.previewText, { color: colors.foreground }]}>
-                {getRecurrenceLabel({ type: selectedType, interval })}
-              </Text>
+              <View style={styles.switchText}>
+                <Text style={[styles.previewText, { color: colors.foreground }]}>
+                  {getRecurrenceLabel(previewPattern)}
+                </Text>
+                {nextOccurrence && (
+                  <Text style={[styles.intervalLabel, { color: colors.mutedForeground }]}>
+                    {t('tasks.recurrence.nextDate', {
+                      date: formatLocalDate(nextOccurrence, i18n.language, {
+                        weekday: 'short',
+                        day: 'numeric',
+                        month: 'short',
+                      }),
+                    })}
+                  </Text>
+                )}
+              </View>
             </View>
-          </View>
+          </ScrollView>
 
           {/* Actions */}
           <View style={[styles.modalFooter, { borderTopColor: colors.border }]}>
@@ -311,6 +589,29 @@ const styles = StyleSheet.create({
     borderRadius: radius.lg,
     borderWidth: 1,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[2],
+  },
+  dayChip: {
+    width: 36,
+    height: 36,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: radius.full,
+    borderWidth: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[3],
+    marginTop: spacing[5],
+  },
+  switchText: {
+    flex: 1,
+    gap: spacing[1],
+  },
   typeCheck: {
     marginRight: spacing[1.5],
   },
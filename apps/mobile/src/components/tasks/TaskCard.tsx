@@ -7,6 +7,7 @@ import {
   Calendar,
   ChevronRight,
   Repeat,
+  Lock,
 } from 'lucide-react-native'
 import Animated, { FadeIn } from 'react-native-reanimated'
 import { useTheme, cardShadow, spacing, radius, typography, priorityColors } from '@/theme'
@@ -50,6 +51,7 @@ interface TaskCardProps {
   selectionMode?: boolean
   isSelected?: boolean
   onSelect?: (task: Task) => void
+  isBlocked?: boolean
 }
 
 export function TaskCard({
@@ -60,6 +62,7 @@ export function TaskCard({
   selectionMode = false,
   isSelected = false,
   onSelect,
+  isBlocked = false,
 }: TaskCardProps) {
   const { t, i18n } = useTranslation()
   const { colors } = useTheme()
@@ -186,6 +189,15 @@ export function TaskCard({
                 <Repeat size={14} color={colors.accent} />
               </View>
             )}
+
+            {isBlocked && task.status !== 'done' && (
+              <View style={styles.metaItem}>
+                <Lock size={14} color={colors.warning} />
+                <Text style={[styles.metaText, { color: colors.warning }]}>
+                  {t('tasks.blocked')}
+                </Text>
+              </View>
+            )}
           </View>
         </View>
 
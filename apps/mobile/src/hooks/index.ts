@@ -18,6 +18,9 @@ export type { TaskStats } from './use-tasks'
 export {
   useHabitsQuery,
   useHabitQuery,
+  useHabitCompletionsRange,
+  useHabitSummary,
+  useHabitSummaries,
   useCreateHabit,
   useUpdateHabit,
   useDeleteHabit,
@@ -25,6 +28,8 @@ export {
   useUnarchiveHabit,
   useToggleHabitCompletion,
   useSetCompletionValue,
+  useLogRelapse,
+  useVacationsQuery,
   useHabitStats,
 } from './use-habits'
 export type { CreateHabitData, UpdateHabitData, HabitStats } from './use-habits'
@@ -108,6 +113,11 @@ export {
   useBudgetsByMonthQuery,
   useUpsertBudget,
   useDeleteBudget,
+  useBudgetTemplatesQuery,
+  useUpsertBudgetTemplate,
+  useDeleteBudgetTemplate,
+  useBudgetMode,
+  useUpdateBudgetMode,
   // Goals
   useGoalsQuery,
   useGoalQuery,
@@ -115,10 +125,21 @@ export {
   useUpdateGoal,
   useDeleteGoal,
   useAddContribution,
+  // Accounts
+  useAccountsQuery,
+  // Exchange rates
+  useExchangeRatesQuery,
+  useCurrencyConversion,
+  // Recurring transactions
+  useRecurrenceExceptionsQuery,
   // Derived hooks
   useMonthlyStats,
+  useAccountBalances,
   useCategorySummary,
-  useBudgetProgress,
+  useBudgetStatuses,
+  useEnvelopeSummary,
+  useCashFlowForecast,
+  useGoalPlans,
   useGroupedTransactions,
 } from './use-finances'
 
@@ -126,12 +147,16 @@ export type {
   Transaction,
   TransactionCategory,
   Budget,
+  BudgetMode,
+  BudgetTemplate,
   FinancialGoal,
   GoalContribution,
+  GoalPlan,
   TransactionType,
   RecurrenceFrequency,
   MonthlyBalance,
   CategorySummary,
+  Account,
   CreateTransactionData,
   CreateCategoryData,
   CreateGoalData,
@@ -153,6 +178,9 @@ export {
   useUserStats,
   useAchievements,
   useHabitStreaks,
+  useHabitFreezes,
+  useSpendStreakFreeze,
+  useClaimCleanDays,
   useUnlockAchievement,
   useAddXp,
   // Derived
@@ -194,6 +222,7 @@ export {
   usePomodoroSettings,
   usePomodoroSessions,
   usePomodoroStats,
+  useTaskFocusMinutes,
 } from './use-pomodoro'
 
 export type {
@@ -219,6 +248,9 @@ export {
   useToggleNotePin,
   useSearchNotes,
   useAutoSaveNote,
+  usePageBacklinks,
+  usePageRevisions,
+  useRestorePageRevision,
   NOTEBOOK_COLORS,
 } from './use-notes'
 
@@ -230,3 +262,17 @@ export type {
   CreateNoteData,
   UpdateNoteData,
 } from './use-notes'
+
+// Search hooks
+export { useSearch } from './use-search'
+
+export type { SearchResult, SearchResultType, SearchHighlight } from './use-search'
+
+// Flashcards hooks
+export {
+  useDueFlashcards,
+  useReviewFlashcard,
+  useCompleteFlashcardSession,
+} from './use-flashcards'
+
+export type { Flashcard, FlashcardGrade, FlashcardSessionResult } from './use-flashcards'
@@ -4,18 +4,40 @@ import {
   transactionsService,
   categoriesService,
   budgetsService,
+  budgetTemplatesService,
   goalsService,
+  accountsService,
+  exchangeRatesService,
+  recurrenceExceptionsService,
+  settingsService,
+  calculateAccountBalances,
+  calculateBudgetStatuses,
+  calculateCashFlowForecast,
+  calculateEnvelopeSummary,
+  getGoalPlan,
+  getTodayString,
+  listOccurrences,
+  shiftMonth,
+  toBaseAmount,
 } from '@hagu/core'
 import type {
   Transaction,
   TransactionCategory,
   Budget,
+  BudgetMode,
+  BudgetTemplate,
   FinancialGoal,
   GoalContribution,
+  GoalPlan,
   TransactionType,
   RecurrenceFrequency,
   MonthlyBalance,
   CategorySummary,
+  Account,
+  CurrencyConversion,
+  BudgetTemplateInput,
+  ForecastAdjustment,
+  RecurrenceException,
 } from '@hagu/core'
 import { supabase } from '@/lib/supabase'
 
@@ -23,7 +45,12 @@ import { supabase } from '@/lib/supabase'
 const TRANSACTIONS_KEY = ['transactions']
 const CATEGORIES_KEY = ['categories']
 const BUDGETS_KEY = ['budgets']
+const BUDGET_TEMPLATES_KEY = ['budget-templates']
 const GOALS_KEY = ['financial-goals']
+const ACCOUNTS_KEY = ['accounts']
+const EXCHANGE_RATES_KEY = ['exchange-rates']
+const RECURRENCE_EXCEPTIONS_KEY = ['recurrence-exceptions']
+const USER_SETTINGS_KEY = ['user-settings']
 
 // ============ Transactions Queries ============
 
@@ -213,6 +240,38 @@ export function useDeleteBudget() {
   })
 }
 
+// ============ Budget Templates ============
+
+export function useBudgetTemplatesQuery() {
+  return useQuery({
+    queryKey: BUDGET_TEMPLATES_KEY,
+    queryFn: () => budgetTemplatesService.getAll(supabase),
+  })
+}
+
+export function useUpsertBudgetTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (template: BudgetTemplateInput) =>
+      budgetTemplatesService.upsert(supabase, template),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: BUDGET_TEMPLATES_KEY })
+    },
+  })
+}
+
+export function useDeleteBudgetTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => budgetTemplatesService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: BUDGET_TEMPLATES_KEY })
+    },
+  })
+}
+
 // ============ Goals Queries ============
 
 export function useGoalsQuery() {
@@ -301,6 +360,68 @@ export function useAddContribution() {
   })
 }
 
+// ============ Accounts Queries ============
+
+export function useAccountsQuery() {
+  return useQuery({
+    queryKey: ACCOUNTS_KEY,
+    queryFn: () => accountsService.getAll(supabase),
+  })
+}
+
+// ============ Exchange Rates Queries ============
+
+export function useExchangeRatesQuery() {
+  return useQuery({
+    queryKey: EXCHANGE_RATES_KEY,
+    queryFn: () => exchangeRatesService.getAll(supabase),
+  })
+}
+
+// ============ Recurrence Exceptions Queries ============
+
+export function useRecurrenceExceptionsQuery() {
+  return useQuery({
+    queryKey: RECURRENCE_EXCEPTIONS_KEY,
+    queryFn: () => recurrenceExceptionsService.getAll(supabase),
+  })
+}
+
+// Account settings shared with the web app (base currency, budget mode)
+function useUserSettingsQuery() {
+  return useQuery({
+    queryKey: USER_SETTINGS_KEY,
+    queryFn: () => settingsService.get(supabase),
+  })
+}
+
+export function useCurrencyConversion(): CurrencyConversion | undefined {
+  const { data: settings } = useUserSettingsQuery()
+  const { data: rates } = useExchangeRatesQuery()
+  const baseCurrency = settings?.currency ?? 'BRL'
+
+  return useMemo(
+    () => (rates ? { baseCurrency, rates } : undefined),
+    [baseCurrency, rates]
+  )
+}
+
+export function useBudgetMode(): BudgetMode {
+  const { data: settings } = useUserSettingsQuery()
+  return settings?.budgetMode ?? 'limits'
+}
+
+export function useUpdateBudgetMode() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (budgetMode: BudgetMode) => settingsService.update(supabase, { budgetMode }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: USER_SETTINGS_KEY })
+    },
+  })
+}
+
 // ============ Derived Data Hooks ============
 
 export interface MonthlyStats {
@@ -312,7 +433,8 @@ export interface MonthlyStats {
 
 export function useMonthlyStats(
   transactions: Transaction[] | undefined,
-  month: string
+  month: string,
+  conversion?: CurrencyConversion
 ): MonthlyStats {
   return useMemo(() => {
     if (!transactions) {
@@ -323,11 +445,11 @@ export function useMonthlyStats(
 
     const totalIncome = filtered
       .filter((t) => t.type === 'income')
-      .reduce((sum, t) => sum + t.amount, 0)
+      .reduce((sum, t) => sum + toBaseAmount(t, conversion), 0)
 
     const totalExpenses = filtered
       .filter((t) => t.type === 'expense')
-      .reduce((sum, t) => sum + t.amount, 0)
+      .reduce((sum, t) => sum + toBaseAmount(t, conversion), 0)
 
     return {
       totalIncome,
@@ -335,26 +457,38 @@ export function useMonthlyStats(
       balance: totalIncome - totalExpenses,
       transactionCount: filtered.length,
     }
-  }, [transactions, month])
+  }, [transactions, month, conversion])
+}
+
+export function useAccountBalances(
+  accounts: Account[] | undefined,
+  transactions: Transaction[] | undefined,
+  conversion?: CurrencyConversion
+): Record<string, number> {
+  return useMemo(
+    () => calculateAccountBalances(accounts ?? [], transactions ?? [], conversion),
+    [accounts, transactions, conversion]
+  )
 }
 
 export function useCategorySummary(
   transactions: Transaction[] | undefined,
   categories: TransactionCategory[] | undefined,
-  type: TransactionType
+  type: TransactionType,
+  conversion?: CurrencyConversion
 ): CategorySummary[] {
   return useMemo(() => {
     if (!transactions || !categories) return []
 
     const filtered = transactions.filter((t) => t.type === type)
-    const total = filtered.reduce((sum, t) => sum + t.amount, 0)
+    const total = filtered.reduce((sum, t) => sum + toBaseAmount(t, conversion), 0)
 
     const summaryMap = new Map<string, { total: number; count: number }>()
 
     filtered.forEach((t) => {
       const existing = summaryMap.get(t.categoryId) || { total: 0, count: 0 }
       summaryMap.set(t.categoryId, {
-        total: existing.total + t.amount,
+        total: existing.total + toBaseAmount(t, conversion),
         count: existing.count + 1,
       })
     })
@@ -367,43 +501,96 @@ export function useCategorySummary(
         percentage: total > 0 ? (data.total / total) * 100 : 0,
       }))
       .sort((a, b) => b.total - a.total)
-  }, [transactions, categories, type])
+  }, [transactions, categories, type, conversion])
 }
 
-export function useBudgetProgress(
+// Remaining vs spent per budgeted category, rollover included
+export function useBudgetStatuses(
   transactions: Transaction[] | undefined,
   budgets: Budget[] | undefined,
+  templates: BudgetTemplate[] | undefined,
   categories: TransactionCategory[] | undefined,
-  month: string
+  month: string,
+  options: { conversion?: CurrencyConversion; envelopeMode?: boolean } = {}
+) {
+  const { conversion, envelopeMode } = options
+
+  return useMemo(() => {
+    if (!transactions || !budgets || !templates || !categories) return []
+
+    return calculateBudgetStatuses(month, budgets, templates, transactions, {
+      conversion,
+      envelopeMode,
+    }).map((status) => ({
+      ...status,
+      category: categories.find((c) => c.id === status.categoryId),
+    }))
+  }, [transactions, budgets, templates, categories, month, conversion, envelopeMode])
+}
+
+export function useEnvelopeSummary(
+  transactions: Transaction[] | undefined,
+  budgets: Budget[] | undefined,
+  templates: BudgetTemplate[] | undefined,
+  month: string,
+  conversion?: CurrencyConversion
+) {
+  return useMemo(
+    () =>
+      calculateEnvelopeSummary(month, budgets ?? [], templates ?? [], transactions ?? [], conversion),
+    [transactions, budgets, templates, month, conversion]
+  )
+}
+
+// Balance projected for the current and next months, with what-if items
+export function useCashFlowForecast(
+  transactions: Transaction[] | undefined,
+  accounts: Account[] | undefined,
+  exceptions: RecurrenceException[] | undefined,
+  months: number,
+  options: {
+    templates?: BudgetTemplate[]
+    goals?: FinancialGoal[]
+    adjustments?: ForecastAdjustment[]
+    conversion?: CurrencyConversion
+  } = {}
 ) {
+  const { templates, goals, adjustments, conversion } = options
+
   return useMemo(() => {
-    if (!transactions || !budgets || !categories) return []
-
-    const monthBudgets = budgets.filter((b) => b.month === month)
-    const monthExpenses = transactions.filter(
-      (t) => t.type === 'expense' && t.date.startsWith(month)
-    )
-
-    return monthBudgets.map((budget) => {
-      const category = categories.find((c) => c.id === budget.categoryId)
-      const spent = monthExpenses
-        .filter((t) => t.categoryId === budget.categoryId)
-        .reduce((sum, t) => sum + t.amount, 0)
-
-      const percentage = budget.monthlyLimit > 0 ? (spent / budget.monthlyLimit) * 100 : 0
-      const remaining = budget.monthlyLimit - spent
-      const isOverBudget = spent > budget.monthlyLimit
-
-      return {
-        budget,
-        category,
-        spent,
-        percentage: Math.min(percentage, 100),
-        remaining,
-        isOverBudget,
-      }
+    if (!transactions) return []
+
+    const today = getTodayString()
+    const lastMonth = shiftMonth(today.slice(0, 7), months - 1)
+
+    return calculateCashFlowForecast(transactions, accounts ?? [], today, months, {
+      occurrences: listOccurrences(transactions, exceptions ?? [], today, `${lastMonth}-31`),
+      templates,
+      goals,
+      adjustments,
+      conversion,
     })
-  }, [transactions, budgets, categories, month])
+  }, [transactions, accounts, exceptions, months, templates, goals, adjustments, conversion])
+}
+
+// Contribution plan of each goal, by goal id
+export function useGoalPlans(
+  goals: FinancialGoal[] | undefined,
+  transactions: Transaction[] | undefined
+) {
+  const { data: settings } = useUserSettingsQuery()
+  const baseCurrency = settings?.currency ?? 'BRL'
+
+  return useMemo(() => {
+    const today = getTodayString()
+    const plans = new Map<string, GoalPlan>()
+
+    for (const goal of goals ?? []) {
+      plans.set(goal.id, getGoalPlan(goal, transactions ?? [], today, baseCurrency))
+    }
+
+    return plans
+  }, [goals, transactions, baseCurrency])
 }
 
 // Group transactions by date
@@ -429,10 +616,14 @@ export type {
   Transaction,
   TransactionCategory,
   Budget,
+  BudgetMode,
+  BudgetTemplate,
   FinancialGoal,
   GoalContribution,
+  GoalPlan,
   TransactionType,
   RecurrenceFrequency,
   MonthlyBalance,
   CategorySummary,
+  Account,
 }
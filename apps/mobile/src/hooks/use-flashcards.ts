@@ -0,0 +1,62 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { flashcardsService } from '@hagu/core'
+import type { Flashcard, FlashcardGrade } from '@hagu/core'
+import { supabase } from '@/lib/supabase'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type { Flashcard, FlashcardGrade, FlashcardSessionResult } from '@hagu/core'
+
+// =============================================================================
+// Query Keys
+// =============================================================================
+
+const QUERY_KEYS = {
+  flashcards: ['flashcards'],
+  due: ['flashcards', 'due'],
+}
+
+// =============================================================================
+// Query Hooks
+// =============================================================================
+
+// Cards due today, in one notebook or in all of them
+export function useDueFlashcards(notebookId?: string) {
+  return useQuery<Flashcard[]>({
+    queryKey: [...QUERY_KEYS.due, notebookId ?? 'all'],
+    queryFn: () => flashcardsService.getDue(supabase, notebookId),
+    staleTime: 1000 * 60, // 1 minute
+  })
+}
+
+// =============================================================================
+// Mutation Hooks
+// =============================================================================
+
+// Doesn't refetch the due cards, so a review session in progress keeps its queue
+export function useReviewFlashcard() {
+  return useMutation({
+    mutationFn: ({ card, grade }: { card: Flashcard; grade: FlashcardGrade }) =>
+      flashcardsService.review(supabase, card, grade),
+  })
+}
+
+// Awards the session XP and, when asked to, counts it toward the habits linked
+// to the reviewed notebooks
+export function useCompleteFlashcardSession() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (session: { reviewed: number; notebookIds: string[]; completeHabits: boolean }) =>
+      flashcardsService.completeSession(supabase, session),
+    onSuccess: (_, session) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.flashcards })
+      queryClient.invalidateQueries({ queryKey: ['userStats'] })
+      if (session.completeHabits) {
+        queryClient.invalidateQueries({ queryKey: ['habits'] })
+      }
+    },
+  })
+}
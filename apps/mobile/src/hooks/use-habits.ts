@@ -1,10 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useMemo } from 'react'
-import { habitsService, completionsService } from '@hagu/core'
+import { habitsService, completionsService, vacationsService } from '@hagu/core'
 import type { Habit, HabitFrequency, HabitTracking } from '@hagu/core'
 import { supabase } from '@/lib/supabase'
 
 const HABITS_KEY = ['habits']
+const VACATIONS_KEY = ['vacations']
 
 export function useHabitsQuery() {
   return useQuery({
@@ -13,6 +14,29 @@ export function useHabitsQuery() {
   })
 }
 
+export function useHabitCompletionsRange(habitId: string | undefined, from: string, to: string) {
+  return useQuery({
+    queryKey: [...HABITS_KEY, 'completions', habitId, from, to],
+    queryFn: () => completionsService.getRange(supabase, habitId!, from, to),
+    enabled: !!habitId,
+  })
+}
+
+export function useHabitSummary(habitId: string | undefined) {
+  return useQuery({
+    queryKey: [...HABITS_KEY, 'summary', habitId],
+    queryFn: () => completionsService.getSummary(supabase, habitId!),
+    enabled: !!habitId,
+  })
+}
+
+export function useHabitSummaries() {
+  return useQuery({
+    queryKey: [...HABITS_KEY, 'summaries'],
+    queryFn: () => completionsService.getSummaries(supabase),
+  })
+}
+
 export function useHabitQuery(id: string | undefined) {
   return useQuery({
     queryKey: [...HABITS_KEY, id],
@@ -150,6 +174,26 @@ export function useSetCompletionValue() {
   })
 }
 
+// Avoid habits log slips on top of what was already logged that day
+export function useLogRelapse() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ habitId, date, amount }: { habitId: string; date: string; amount?: number }) =>
+      completionsService.logRelapse(supabase, habitId, date, amount),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: HABITS_KEY })
+    },
+  })
+}
+
+export function useVacationsQuery() {
+  return useQuery({
+    queryKey: VACATIONS_KEY,
+    queryFn: () => vacationsService.getAll(supabase),
+  })
+}
+
 export interface HabitStats {
   total: number
   active: number
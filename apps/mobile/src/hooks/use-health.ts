@@ -7,6 +7,7 @@ import {
   userStatsService,
   achievementsService,
   habitStreaksService,
+  habitFreezesService,
   getXpForLevel,
   getXpForNextLevel,
   getXpProgress,
@@ -31,6 +32,7 @@ const QUERY_KEYS = {
   userStats: ['userStats'] as const,
   achievements: ['achievements'] as const,
   streaks: ['streaks'] as const,
+  habitFreezes: (habitId: string) => ['habitFreezes', habitId] as const,
 }
 
 // Types
@@ -194,6 +196,46 @@ export function useHabitStreaks() {
   })
 }
 
+export function useHabitFreezes(habitId: string | undefined) {
+  return useQuery({
+    queryKey: QUERY_KEYS.habitFreezes(habitId ?? ''),
+    queryFn: async () => {
+      return habitFreezesService.getByHabit(supabase, habitId!)
+    },
+    enabled: !!habitId,
+  })
+}
+
+export function useSpendStreakFreeze() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ habitId, date }: { habitId: string; date: string }) => {
+      return habitFreezesService.spend(supabase, habitId, date)
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.habitFreezes(variables.habitId) })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.userStats })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.streaks })
+    },
+  })
+}
+
+// Credits the clean days an avoid habit gained since it was last refreshed
+export function useClaimCleanDays() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (habitId: string) => {
+      return habitStreaksService.claimCleanDays(supabase, habitId)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.userStats })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.streaks })
+    },
+  })
+}
+
 export function useUnlockAchievement() {
   const queryClient = useQueryClient()
 
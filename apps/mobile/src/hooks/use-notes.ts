@@ -1,6 +1,12 @@
 import { useState, useCallback, useMemo } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { notebooksService, NOTEBOOK_COLORS } from '@hagu/core'
+import {
+  notebooksService,
+  NOTEBOOK_COLORS,
+  blocksToMarkdown,
+  blocksToPlainText,
+  markdownToBlocks,
+} from '@hagu/core'
 import type {
   NotebookWithPageCount,
   NotebookPage,
@@ -9,6 +15,9 @@ import type {
   UpdateNotebookData as CoreUpdateNotebookData,
   UpdatePageData,
   NotebookContent,
+  NoteBlock,
+  PageLinkTargetType,
+  PageRevision,
 } from '@hagu/core'
 import { supabase } from '@/lib/supabase'
 
@@ -42,7 +51,8 @@ export interface Note {
   id: string
   notebookId: string
   title: string
-  content: string // Text representation of content for display
+  content: string // Markdown the note is edited as
+  preview: string // Plain text for lists and search
   rawContent: NotebookContent // Original BlockNote content
   createdAt: string
   updatedAt: string
@@ -56,59 +66,26 @@ export interface Note {
 const QUERY_KEYS = {
   notebooks: ['notes', 'notebooks'],
   pages: ['notes', 'pages'],
+  backlinks: ['notes', 'backlinks'],
+  revisions: ['notes', 'revisions'],
+  // Cards written in pages change with them (see use-flashcards)
+  flashcards: ['flashcards'],
 }
 
 // =============================================================================
 // Helpers
 // =============================================================================
 
-// Extract plain text from BlockNote content for display/search
-function extractTextFromContent(content: NotebookContent): string {
-  if (!content || !Array.isArray(content)) return ''
-
-  try {
-    // BlockNote content is an array of blocks
-    // Each block has a 'content' array with text items
-    const texts: string[] = []
-
-    for (const block of content) {
-      if (typeof block === 'object' && block !== null) {
-        const blockObj = block as Record<string, unknown>
-
-        // Handle content array (paragraphs, headings, etc.)
-        if (Array.isArray(blockObj.content)) {
-          for (const item of blockObj.content) {
-            if (typeof item === 'object' && item !== null) {
-              const itemObj = item as Record<string, unknown>
-              if (typeof itemObj.text === 'string') {
-                texts.push(itemObj.text)
-              }
-            }
-          }
-        }
-
-        // Handle nested children (lists, etc.)
-        if (Array.isArray(blockObj.children)) {
-          const childText = extractTextFromContent(blockObj.children as NotebookContent)
-          if (childText) texts.push(childText)
-        }
-      }
-    }
-
-    return texts.join(' ').trim()
-  } catch {
-    return ''
-  }
-}
-
 // Convert NotebookPage to Note for mobile compatibility
 function toNote(page: NotebookPage | NotebookPageSummary): Note {
   const rawContent = 'content' in page ? page.content : []
+  const blocks = (Array.isArray(rawContent) ? rawContent : []) as NoteBlock[]
   return {
     id: page.id,
     notebookId: page.notebookId,
     title: page.title,
-    content: extractTextFromContent(rawContent),
+    content: blocksToMarkdown(blocks),
+    preview: blocksToPlainText(blocks),
     rawContent,
     createdAt: page.createdAt,
     updatedAt: page.updatedAt,
@@ -184,6 +161,7 @@ export function useDeleteNotebook() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.notebooks })
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.pages })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.flashcards })
     },
   })
 }
@@ -223,10 +201,8 @@ export function useCreateNote() {
 
   return useMutation({
     mutationFn: async (data: { notebookId: string; title: string; content?: string }) => {
-      // Convert string content to BlockNote format
-      const blockContent: NotebookContent = data.content
-        ? [{ type: 'paragraph', content: [{ type: 'text', text: data.content }] }]
-        : []
+      // Convert Markdown content to BlockNote format
+      const blockContent: NotebookContent = data.content ? markdownToBlocks(data.content) : []
 
       const page = await notebooksService.createPage(supabase, {
         notebookId: data.notebookId,
@@ -238,7 +214,9 @@ export function useCreateNote() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.pages })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.flashcards })
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.notebooks })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.backlinks })
     },
   })
 }
@@ -255,8 +233,13 @@ export function useUpdateNote() {
       }
 
       if (data.content !== undefined) {
-        // Convert string content to BlockNote format
-        updateData.content = [{ type: 'paragraph', content: [{ type: 'text', text: data.content }] }]
+        // Convert Markdown content to BlockNote format, keeping the blocks the
+        // edit did not touch (ids, colors, images...) as they were
+        const current = queryClient.getQueryData<Note | null>([...QUERY_KEYS.pages, 'single', id])
+        updateData.content = markdownToBlocks(
+          data.content,
+          (current?.rawContent ?? []) as NoteBlock[]
+        )
       }
 
       const page = await notebooksService.updatePage(supabase, id, updateData)
@@ -264,6 +247,9 @@ export function useUpdateNote() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.pages })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.flashcards })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.backlinks })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.revisions })
     },
   })
 }
@@ -277,7 +263,9 @@ export function useDeleteNote() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.pages })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.flashcards })
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.notebooks })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.backlinks })
     },
   })
 }
@@ -294,6 +282,48 @@ export function useToggleNotePin() {
   })
 }
 
+// =============================================================================
+// Backlinks Hook
+// =============================================================================
+
+// Notes that link to a note ([[Title]]) or mention a task, habit or project
+export function usePageBacklinks(targetType: PageLinkTargetType, targetId: string) {
+  return useQuery({
+    queryKey: [...QUERY_KEYS.backlinks, targetType, targetId],
+    queryFn: () => notebooksService.getBacklinks(supabase, targetType, targetId),
+    staleTime: 1000 * 60, // 1 minute
+    enabled: !!targetId,
+  })
+}
+
+// Earlier versions of a note, newest first
+export function usePageRevisions(pageId: string, enabled: boolean = true) {
+  return useQuery<PageRevision[]>({
+    queryKey: [...QUERY_KEYS.revisions, pageId],
+    queryFn: () => notebooksService.getPageRevisions(supabase, pageId),
+    enabled: !!pageId && enabled,
+  })
+}
+
+// Puts an earlier version back; the note as it was becomes a version itself
+export function useRestorePageRevision() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (revision: PageRevision) => {
+      const page = await notebooksService.restorePageRevision(supabase, revision)
+      return toNote(page)
+    },
+    onSuccess: (note) => {
+      queryClient.setQueryData([...QUERY_KEYS.pages, 'single', note.id], note)
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.pages })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.flashcards })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.backlinks })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.revisions })
+    },
+  })
+}
+
 // =============================================================================
 // Search Hook
 // =============================================================================
@@ -330,7 +360,7 @@ export function useSearchNotes(query: string) {
     return allNotes.filter(
       note =>
         note.title.toLowerCase().includes(lowerQuery) ||
-        note.content.toLowerCase().includes(lowerQuery)
+        note.preview.toLowerCase().includes(lowerQuery)
     )
   }, [allNotes, query])
 }
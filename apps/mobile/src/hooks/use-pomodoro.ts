@@ -2,6 +2,13 @@ import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { AppState, AppStateStatus, Platform, Vibration } from 'react-native'
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { pomodoroService } from '@hagu/core'
+import type {
+  PomodoroSession as FocusSession,
+  PomodoroFocusTarget,
+  CreatePomodoroSessionData,
+} from '@hagu/core'
+import { supabase } from '@/lib/supabase'
 
 // Note: expo-notifications would be imported here when the package is installed
 // import * as Notifications from 'expo-notifications'
@@ -28,6 +35,7 @@ export interface PomodoroSession {
   id: string
   taskId?: string
   taskTitle?: string
+  habitId?: string
   mode: TimerMode
   duration: number // in minutes
   completedAt: string
@@ -81,6 +89,7 @@ const QUERY_KEYS = {
   settings: ['pomodoro', 'settings'],
   sessions: ['pomodoro', 'sessions'],
   stats: ['pomodoro', 'stats'],
+  taskMinutes: ['pomodoro', 'taskMinutes'],
 }
 
 // =============================================================================
@@ -125,6 +134,61 @@ async function saveSessions(sessions: PomodoroSession[]): Promise<void> {
   await AsyncStorage.setItem(STORAGE_KEYS.sessions, JSON.stringify(filteredSessions))
 }
 
+// =============================================================================
+// Server Sync
+// =============================================================================
+
+function toFocusSession(session: PomodoroSession): CreatePomodoroSessionData {
+  return {
+    date: session.date,
+    focusMinutes: session.duration,
+    completedAt: session.completedAt,
+    taskId: session.taskId,
+    habitId: session.habitId,
+  }
+}
+
+function fromFocusSession(session: FocusSession): PomodoroSession {
+  return {
+    id: session.id,
+    mode: 'work',
+    duration: session.focusMinutes,
+    completedAt: session.completedAt,
+    date: session.date,
+    taskId: session.taskId,
+    habitId: session.habitId,
+  }
+}
+
+// Work sessions are stored in Supabase so history is shared across devices.
+// Breaks stay on the device, and work sessions that have not been uploaded yet
+// (offline, or recorded before sessions were synced) wait in AsyncStorage.
+async function fetchSessions(): Promise<PomodoroSession[]> {
+  let localSessions = await loadSessions()
+  const pendingSessions = localSessions.filter(s => s.mode === 'work')
+
+  if (pendingSessions.length > 0) {
+    try {
+      await pomodoroService.importSessions(supabase, pendingSessions.map(toFocusSession))
+      localSessions = localSessions.filter(s => s.mode !== 'work')
+      await saveSessions(localSessions)
+    } catch (error) {
+      console.error('Failed to sync pomodoro sessions:', error)
+    }
+  }
+
+  let remoteSessions: PomodoroSession[] = []
+  try {
+    remoteSessions = (await pomodoroService.getAll(supabase)).map(fromFocusSession)
+  } catch (error) {
+    console.error('Failed to load pomodoro history:', error)
+  }
+
+  return [...remoteSessions, ...localSessions].sort((a, b) =>
+    a.completedAt.localeCompare(b.completedAt)
+  )
+}
+
 async function saveTimerSnapshot(snapshot: TimerSnapshot | null): Promise<void> {
   if (snapshot) {
     await AsyncStorage.setItem(STORAGE_KEYS.timerSnapshot, JSON.stringify(snapshot))
@@ -231,7 +295,7 @@ export function usePomodoroSessions() {
 
   const { data: sessions = [], isLoading, refetch } = useQuery({
     queryKey: QUERY_KEYS.sessions,
-    queryFn: loadSessions,
+    queryFn: fetchSessions,
     staleTime: 1000 * 60, // 1 minute
   })
 
@@ -244,13 +308,23 @@ export function usePomodoroSessions() {
         completedAt: now.toISOString(),
         date: now.toISOString().split('T')[0],
       }
-      const updatedSessions = [...sessions, newSession]
-      await saveSessions(updatedSessions)
-      return { sessions: updatedSessions, newSession }
+      // Saved locally first; refetching uploads work sessions to the server
+      const localSessions = await loadSessions()
+      await saveSessions([...localSessions, newSession])
+      return newSession
     },
-    onSuccess: ({ sessions: updatedSessions }) => {
-      queryClient.setQueryData(QUERY_KEYS.sessions, updatedSessions)
+    onSuccess: async (newSession) => {
+      queryClient.setQueryData<PomodoroSession[]>(QUERY_KEYS.sessions, (current = []) => [
+        ...current,
+        newSession,
+      ])
+      await queryClient.invalidateQueries({ queryKey: QUERY_KEYS.sessions })
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.stats })
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.taskMinutes })
+      // Uploaded sessions linked to a habit log minutes into its completions
+      if (newSession.habitId) {
+        queryClient.invalidateQueries({ queryKey: ['habits'] })
+      }
     },
   })
 
@@ -262,6 +336,16 @@ export function usePomodoroSessions() {
   }
 }
 
+export function useTaskFocusMinutes(taskId: string | undefined) {
+  const { data: minutesByTask } = useQuery({
+    queryKey: QUERY_KEYS.taskMinutes,
+    queryFn: () => pomodoroService.getFocusMinutesByTask(supabase),
+    staleTime: 1000 * 60, // 1 minute
+  })
+
+  return taskId ? (minutesByTask?.get(taskId) ?? 0) : 0
+}
+
 export function usePomodoroStats() {
   const { sessions } = usePomodoroSessions()
 
@@ -321,8 +405,8 @@ export function usePomodoroTimer() {
   const [timeRemaining, setTimeRemaining] = useState(settings.workDuration * 60)
   const [sessionsCompleted, setSessionsCompleted] = useState(0)
 
-  // Task linking
-  const [linkedTask, setLinkedTask] = useState<{ id: string; title: string } | null>(null)
+  // Task or habit the focus sessions count towards
+  const [focusTarget, setFocusTarget] = useState<PomodoroFocusTarget | null>(null)
 
   // Refs
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
@@ -380,8 +464,9 @@ export function usePomodoroTimer() {
       await addSession({
         mode: 'work',
         duration: settings.workDuration,
-        taskId: linkedTask?.id,
-        taskTitle: linkedTask?.title,
+        taskId: focusTarget?.type === 'task' ? focusTarget.id : undefined,
+        taskTitle: focusTarget?.type === 'task' ? focusTarget.title : undefined,
+        habitId: focusTarget?.type === 'habit' ? focusTarget.id : undefined,
       })
 
       const newSessionsCompleted = sessionsCompleted + 1
@@ -423,7 +508,7 @@ export function usePomodoroTimer() {
 
     // Clear snapshot
     await saveTimerSnapshot(null)
-  }, [mode, settings, sessionsCompleted, linkedTask, addSession, resetToMode])
+  }, [mode, settings, sessionsCompleted, focusTarget, addSession, resetToMode])
 
   // Start timer
   const start = useCallback(async () => {
@@ -482,9 +567,9 @@ export function usePomodoroTimer() {
     await saveTimerSnapshot(null)
   }, [resetToMode])
 
-  // Link/unlink task
-  const linkTask = useCallback((task: { id: string; title: string } | null) => {
-    setLinkedTask(task)
+  // Link/unlink task or habit
+  const linkFocusTarget = useCallback((target: PomodoroFocusTarget | null) => {
+    setFocusTarget(target)
   }, [])
 
   // Timer interval effect
@@ -570,7 +655,7 @@ export function usePomodoroTimer() {
     progress,
     formattedTime,
     sessionsCompleted,
-    linkedTask,
+    focusTarget,
 
     // Actions
     start,
@@ -578,6 +663,6 @@ export function usePomodoroTimer() {
     reset,
     skip,
     changeMode,
-    linkTask,
+    linkFocusTarget,
   }
 }
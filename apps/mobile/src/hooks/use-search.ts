@@ -0,0 +1,36 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
+import { searchService } from '@hagu/core'
+import type { SearchResult } from '@hagu/core'
+import { supabase } from '@/lib/supabase'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type { SearchResult, SearchResultType, SearchHighlight } from '@hagu/core'
+
+// =============================================================================
+// Query Keys
+// =============================================================================
+
+const QUERY_KEYS = {
+  search: ['search'],
+}
+
+// =============================================================================
+// Query Hooks
+// =============================================================================
+
+// Ranked matches across notes, tasks, habits, projects, objectives and
+// transactions; the previous results stay on screen while the next query loads
+export function useSearch(query: string) {
+  const trimmed = query.trim()
+
+  return useQuery<SearchResult[]>({
+    queryKey: [...QUERY_KEYS.search, trimmed],
+    queryFn: () => searchService.search(supabase, trimmed),
+    enabled: trimmed.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 1000 * 30, // 30 seconds
+  })
+}
@@ -26,7 +26,7 @@ export function useCreateTask() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (task: Omit<Task, 'id' | 'createdAt' | 'subtasks'>) =>
+    mutationFn: (task: Omit<Task, 'id' | 'createdAt' | 'subtasks' | 'blockedBy'>) =>
       tasksService.create(supabase, task),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: TASKS_KEY })
@@ -48,7 +48,7 @@ export function useUpdateTask() {
       updates,
     }: {
       id: string
-      updates: Partial<Omit<Task, 'id' | 'createdAt' | 'subtasks'>>
+      updates: Partial<Omit<Task, 'id' | 'createdAt' | 'subtasks' | 'blockedBy'>>
     }) => tasksService.update(supabase, id, updates),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: TASKS_KEY })
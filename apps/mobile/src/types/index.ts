@@ -26,6 +26,7 @@ export interface UserStats {
   tasksCompleted: number
   currentStreak: number
   longestStreak: number
+  freezeTokens: number // Streak freezes available to spend
 }
 
 // Task Types
@@ -60,10 +61,13 @@ export type HabitFrequency =
   | { type: 'weekly'; daysPerWeek: number }
   | { type: 'specificDays'; days: number[] }
   | { type: 'monthly'; timesPerMonth: number }
+  | { type: 'interval'; everyDays: number }
+  | { type: 'nthWeekday'; week: number; weekday: number }
 
 export type HabitTracking =
   | { type: 'boolean' }
   | { type: 'quantitative'; target: number; unit: string }
+  | { type: 'avoid'; limit: number; unit?: string }
 
 export interface HabitCompletion {
   date: string
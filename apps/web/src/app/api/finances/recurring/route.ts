@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { goalsService, recurringTransactionsService } from '@/services/finances.service'
+import { getTodayString } from '@/lib/utils'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+// Create admin client for cron job (not user-scoped)
+const supabaseAdmin: SupabaseClient | null =
+  supabaseUrl && supabaseServiceKey ? createClient(supabaseUrl, supabaseServiceKey) : null
+
+// GET /api/finances/recurring - Record due occurrences of recurring transactions and
+// contribute them to the goals they fund (called by cron)
+export async function GET(request: NextRequest) {
+  if (!supabaseAdmin) {
+    return NextResponse.json(
+      { error: 'Recurring transactions not configured' },
+      { status: 503 }
+    )
+  }
+
+  // Verify cron secret to prevent unauthorized calls
+  const authHeader = request.headers.get('authorization')
+  const cronSecret = process.env.CRON_SECRET
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const now = new Date()
+    const today = getTodayString()
+
+    const results = { users: 0, created: 0, contributed: 0, failed: 0 }
+
+    // Only users with a recurring transaction or a goal with a contribution
+    // category have anything to record
+    const { data: templates, error } = await supabaseAdmin
+      .from('transactions')
+      .select('user_id')
+      .eq('is_recurring', true)
+
+    if (error) throw error
+
+    const { data: plannedGoals, error: goalsError } = await supabaseAdmin
+      .from('financial_goals')
+      .select('user_id')
+      .not('contribution_category_id', 'is', null)
+
+    if (goalsError) throw goalsError
+
+    const userIds = [
+      ...new Set(
+        ([...(templates ?? []), ...(plannedGoals ?? [])] as { user_id: string }[]).map(
+          (row) => row.user_id
+        )
+      ),
+    ]
+
+    // One user failing must not hold back the others; the next run retries
+    for (const userId of userIds) {
+      try {
+        const created = await recurringTransactionsService.materializeDue(supabaseAdmin, userId, today)
+        const contributions = await goalsService.syncAutoContributions(
+          supabaseAdmin,
+          userId,
+          today
+        )
+        results.users++
+        results.created += created.length
+        results.contributed += contributions.length
+      } catch (err) {
+        console.error('Error recording recurring transactions for user:', userId, err)
+        results.failed++
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: now.toISOString(),
+      results,
+    })
+  } catch (error) {
+    console.error('Recurring transactions error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process recurring transactions' },
+      { status: 500 }
+    )
+  }
+}
@@ -14,12 +14,20 @@ import {
 import { PageTransition } from '@/components/ui/motion'
 import {
   TransactionForm,
+  ImportTransactionsDialog,
+  CategorizationRulesDialog,
   TransactionList,
   BalanceSummary,
   CategoryBreakdown,
   MonthlyChart,
+  CashFlowForecast,
   GoalsSection,
+  AccountsSection,
+  BudgetsSection,
+  UpcomingBills,
+  ExchangeRatesDialog,
   InvestmentCalculator,
+  InvestmentPortfolio,
 } from '@/components/finances'
 import { useSettings, useUpdateSettings } from '@/hooks/queries/use-settings'
 import { useSyncPaymentReminders } from '@/hooks/queries/use-finances'
@@ -33,7 +41,9 @@ import {
   Wallet,
   Receipt,
   Target,
-  Calculator,
+  Landmark,
+  PiggyBank,
+  TrendingUp,
   ArrowUpCircle,
   ArrowDownCircle,
   Bell,
@@ -143,6 +153,15 @@ export default function FinancesPage() {
             </SelectContent>
           </Select>
 
+          {/* Exchange Rates Button */}
+          <ExchangeRatesDialog />
+
+          {/* Categorization Rules Button */}
+          {activeTab === 'transactions' && <CategorizationRulesDialog />}
+
+          {/* Import Statement Button */}
+          {activeTab === 'transactions' && <ImportTransactionsDialog />}
+
           {/* Add Transaction Button */}
           {activeTab === 'transactions' && (
             <TransactionForm
@@ -162,18 +181,26 @@ export default function FinancesPage() {
 
       {/* Main Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="transactions" className="gap-2">
             <Receipt className="h-4 w-4" />
             <span className="hidden sm:inline">{t('finances.tabs.transactions')}</span>
           </TabsTrigger>
+          <TabsTrigger value="budgets" className="gap-2">
+            <PiggyBank className="h-4 w-4" />
+            <span className="hidden sm:inline">{t('finances.tabs.budgets')}</span>
+          </TabsTrigger>
+          <TabsTrigger value="accounts" className="gap-2">
+            <Landmark className="h-4 w-4" />
+            <span className="hidden sm:inline">{t('finances.tabs.accounts')}</span>
+          </TabsTrigger>
           <TabsTrigger value="goals" className="gap-2">
             <Target className="h-4 w-4" />
             <span className="hidden sm:inline">{t('finances.tabs.goals')}</span>
           </TabsTrigger>
-          <TabsTrigger value="calculator" className="gap-2">
-            <Calculator className="h-4 w-4" />
-            <span className="hidden sm:inline">{t('finances.tabs.calculator')}</span>
+          <TabsTrigger value="investments" className="gap-2">
+            <TrendingUp className="h-4 w-4" />
+            <span className="hidden sm:inline">{t('finances.tabs.investments')}</span>
           </TabsTrigger>
         </TabsList>
 
@@ -205,6 +232,9 @@ export default function FinancesPage() {
 
             {/* Right Column - Charts & Categories */}
             <div className="space-y-6">
+              {/* Recurring expenses coming up */}
+              <UpcomingBills />
+
               {/* Monthly Chart */}
               <MonthlyChart months={6} />
 
@@ -225,6 +255,46 @@ export default function FinancesPage() {
           </div>
         </TabsContent>
 
+        {/* Budgets Tab */}
+        <TabsContent value="budgets" className="mt-6">
+          <div className="grid gap-6 lg:grid-cols-3">
+            <div className="lg:col-span-2 space-y-6">
+              {/* Month Selector */}
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold">{t('finances.budgets.title')}</h2>
+                <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {months.map((month) => (
+                      <SelectItem key={month} value={month}>
+                        {getMonthName(month)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <BudgetsSection month={selectedMonth} />
+            </div>
+            <div className="space-y-6">
+              <CategoryBreakdown type="expense" month={selectedMonth} />
+            </div>
+          </div>
+        </TabsContent>
+
+        {/* Accounts Tab */}
+        <TabsContent value="accounts" className="mt-6">
+          <div className="grid gap-6 lg:grid-cols-2">
+            <AccountsSection />
+            <div className="space-y-6">
+              <MonthlyChart months={6} />
+              <CashFlowForecast />
+            </div>
+          </div>
+        </TabsContent>
+
         {/* Goals Tab */}
         <TabsContent value="goals" className="mt-6">
           <div className="grid gap-6 lg:grid-cols-2">
@@ -235,9 +305,12 @@ export default function FinancesPage() {
           </div>
         </TabsContent>
 
-        {/* Calculator Tab */}
-        <TabsContent value="calculator" className="mt-6">
-          <InvestmentCalculator />
+        {/* Investments Tab */}
+        <TabsContent value="investments" className="mt-6">
+          <div className="grid gap-6 lg:grid-cols-2">
+            <InvestmentPortfolio />
+            <InvestmentCalculator />
+          </div>
         </TabsContent>
       </Tabs>
 
@@ -30,6 +30,8 @@ import { ProjectFormDialog } from '@/components/projects/project-form-dialog'
 import { ObjectiveList } from '@/components/projects/objective-list'
 import { MilestoneTimeline } from '@/components/projects/milestone-timeline'
 import { MetricGrid } from '@/components/projects/metric-card'
+import { DependencyChain } from '@/components/projects/dependency-chain'
+import { PageMentions } from '@/components/studies/page-mentions'
 import { HabitFormDialog } from '@/components/habits/habit-form-dialog'
 import {
   useProjectWithProgress,
@@ -61,6 +63,7 @@ import {
   Repeat,
   BarChart3,
   Plus,
+  GitBranch,
 } from 'lucide-react'
 import {
   Target as TargetIcon,
@@ -105,6 +108,7 @@ export default function ProjectDetailPage() {
   const router = useRouter()
   const t = useTranslations('projects')
   const tCommon = useTranslations('common')
+  const tTasks = useTranslations('tasks')
   const projectId = params.projectId as string
 
   const [activeTab, setActiveTab] = useState('objectives')
@@ -372,7 +376,7 @@ export default function ProjectDetailPage() {
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="objectives" className="gap-2">
             <Target className="h-4 w-4" />
             <span className="hidden sm:inline">{t('objectives')}</span>
@@ -385,6 +389,10 @@ export default function ProjectDetailPage() {
             <BarChart3 className="h-4 w-4" />
             <span className="hidden sm:inline">{t('metrics')}</span>
           </TabsTrigger>
+          <TabsTrigger value="dependencies" className="gap-2">
+            <GitBranch className="h-4 w-4" />
+            <span className="hidden sm:inline">{tTasks('dependencies')}</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="objectives" className="mt-6">
@@ -398,6 +406,10 @@ export default function ProjectDetailPage() {
         <TabsContent value="metrics" className="mt-6">
           <MetricGrid projectId={projectId} color={project.color} />
         </TabsContent>
+
+        <TabsContent value="dependencies" className="mt-6">
+          <DependencyChain tasks={tasks} color={project.color} />
+        </TabsContent>
       </Tabs>
 
       {/* Related Items */}
@@ -511,6 +523,9 @@ export default function ProjectDetailPage() {
         </div>
       )}
 
+      {/* Pages mentioning the project */}
+      <PageMentions targetType="project" targetId={projectId} />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
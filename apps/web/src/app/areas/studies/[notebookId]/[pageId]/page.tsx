@@ -8,6 +8,8 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { PageTransition } from '@/components/ui/motion'
 import { PageEditor } from '@/components/studies/page-editor'
+import { PageMentions } from '@/components/studies/page-mentions'
+import { PageHistoryDialog } from '@/components/studies/page-history-dialog'
 import {
   useNotebook,
   usePage,
@@ -16,9 +18,21 @@ import {
 import { useTasksByPage, useSetTaskStatus, useDeleteTask } from '@/hooks/queries/use-tasks'
 import { TaskFormDialog } from '@/components/tasks/task-form-dialog'
 import type { Block } from '@blocknote/core'
-import { ChevronLeft, ListTodo, Save, Loader2, CheckCircle2, Circle, Trash2 } from 'lucide-react'
+import {
+  ChevronLeft,
+  ListTodo,
+  Save,
+  Loader2,
+  CheckCircle2,
+  Circle,
+  Trash2,
+  FileDown,
+  History,
+} from 'lucide-react'
 import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
+import { blocksToMarkdown } from '@/lib/markdown'
+import type { NoteBlock, NotebookPage } from '@/types/studies'
 
 export default function PageEditorPage() {
   const params = useParams()
@@ -32,6 +46,8 @@ export default function PageEditorPage() {
   const [content, setContent] = useState<Block[]>([])
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
+  // Bumped to rebuild the editor when a version is restored
+  const [editorKey, setEditorKey] = useState(0)
   const initialLoadRef = useRef(true)
 
   const { data: notebook } = useNotebook(notebookId)
@@ -124,6 +140,23 @@ export default function PageEditorPage() {
       .slice(0, 500) // Limit description length
   }
 
+  // Same Markdown the mobile app edits notes as
+  const handleCopyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(blocksToMarkdown(content as NoteBlock[]))
+      toast.success(t('markdownCopied'))
+    } catch {
+      toast.error(t('markdownCopyError'))
+    }
+  }
+
+  const handleRestored = (restored: NotebookPage) => {
+    setTitle(restored.title)
+    setContent(restored.content)
+    setHasUnsavedChanges(false)
+    setEditorKey((key) => key + 1)
+  }
+
   const handleTaskCreated = () => {
     toast.success(t('taskCreated'), {
       description: t('taskCreatedDescription'),
@@ -208,6 +241,31 @@ export default function PageEditorPage() {
             {t('newTask')}
           </Button>
 
+          {/* Copy as Markdown button */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCopyMarkdown}
+          >
+            <FileDown className="mr-2 h-4 w-4" />
+            {t('copyMarkdown')}
+          </Button>
+
+          {/* History button */}
+          <PageHistoryDialog
+            trigger={
+              <Button variant="outline" size="sm">
+                <History className="mr-2 h-4 w-4" />
+                {t('history')}
+              </Button>
+            }
+            notebookId={notebookId}
+            pageId={pageId}
+            currentContent={content}
+            hasUnsavedChanges={hasUnsavedChanges}
+            onRestored={handleRestored}
+          />
+
           {/* Save button */}
           <Button
             variant="outline"
@@ -239,6 +297,7 @@ export default function PageEditorPage() {
       {/* Editor */}
       <div className="flex-1">
         <PageEditor
+          key={editorKey}
           initialContent={page.content}
           onChange={handleContentChange}
         />
@@ -288,6 +347,9 @@ export default function PageEditorPage() {
         </div>
       )}
 
+      {/* Backlinks */}
+      <PageMentions targetType="page" targetId={pageId} className="border-t pt-4 mt-4" />
+
       {/* Task Creation Dialog */}
       <TaskFormDialog
         open={showTaskDialog}
@@ -23,6 +23,7 @@ import { Button } from '@/components/ui/button'
 import { PageTransition } from '@/components/ui/motion'
 import { SortablePageListItem } from '@/components/studies/sortable-page-list-item'
 import { PageFormDialog } from '@/components/studies/page-form-dialog'
+import { FlashcardsDialog } from '@/components/studies/flashcards-dialog'
 import {
   useNotebook,
   usePages,
@@ -30,9 +31,10 @@ import {
   useReorderPages,
 } from '@/hooks/queries/use-notebooks'
 import { useHabitsByNotebook } from '@/hooks/queries/use-habits'
+import { useDueFlashcards } from '@/hooks/queries/use-flashcards'
 import { useTasksByNotebook } from '@/hooks/queries/use-tasks'
 import type { NotebookPageSummary } from '@/types'
-import { Plus, ChevronLeft, FileText, Book, Activity, ListTodo } from 'lucide-react'
+import { Plus, ChevronLeft, FileText, Book, Activity, ListTodo, Layers } from 'lucide-react'
 import { toast } from 'sonner'
 
 export default function NotebookPage() {
@@ -40,6 +42,7 @@ export default function NotebookPage() {
   const router = useRouter()
   const locale = useLocale()
   const t = useTranslations('studies')
+  const tFlashcards = useTranslations('flashcards')
   const notebookId = params.notebookId as string
 
   const [mounted, setMounted] = useState(false)
@@ -50,6 +53,7 @@ export default function NotebookPage() {
   const { data: pages, isLoading: isLoadingPages } = usePages(notebookId)
   const { data: linkedHabits = [] } = useHabitsByNotebook(notebookId)
   const { data: notebookTasks = [] } = useTasksByNotebook(notebookId)
+  const { data: dueCards = [] } = useDueFlashcards(notebookId)
   const deleteMutation = useDeletePage()
   const reorderMutation = useReorderPages()
 
@@ -160,16 +164,32 @@ export default function NotebookPage() {
               )}
             </div>
           </div>
-          <PageFormDialog
-            trigger={
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                {t('newPage')}
-              </Button>
-            }
-            notebookId={notebookId}
-            onSuccess={handleCreateSuccess}
-          />
+          <div className="flex flex-wrap items-center gap-2">
+            <FlashcardsDialog
+              trigger={
+                <Button variant="outline">
+                  <Layers className="mr-2 h-4 w-4" />
+                  {tFlashcards('title')}
+                </Button>
+              }
+              notebookId={notebookId}
+            />
+            {dueCards.length > 0 && (
+              <Link href={`/areas/studies/${notebookId}/review`}>
+                <Button variant="outline">{tFlashcards('reviewDue', { count: dueCards.length })}</Button>
+              </Link>
+            )}
+            <PageFormDialog
+              trigger={
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t('newPage')}
+                </Button>
+              }
+              notebookId={notebookId}
+              onSuccess={handleCreateSuccess}
+            />
+          </div>
         </div>
       </header>
 
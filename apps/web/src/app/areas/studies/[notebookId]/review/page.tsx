@@ -0,0 +1,38 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { PageTransition } from '@/components/ui/motion'
+import { FlashcardReview } from '@/components/studies'
+import { useNotebook } from '@/hooks/queries/use-notebooks'
+import { ChevronLeft } from 'lucide-react'
+
+export default function NotebookReviewPage() {
+  const params = useParams()
+  const t = useTranslations('flashcards')
+  const tStudies = useTranslations('studies')
+  const notebookId = params.notebookId as string
+
+  const { data: notebook } = useNotebook(notebookId)
+
+  return (
+    <PageTransition className="container mx-auto max-w-2xl space-y-6 p-4 lg:p-6">
+      <header className="space-y-4">
+        <Link
+          href={`/areas/studies/${notebookId}`}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          {tStudies('backToNotebook')}
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold">{t('review')}</h1>
+          {notebook && <p className="text-muted-foreground">{notebook.title}</p>}
+        </div>
+      </header>
+
+      <FlashcardReview notebookId={notebookId} backHref={`/areas/studies/${notebookId}`} />
+    </PageTransition>
+  )
+}
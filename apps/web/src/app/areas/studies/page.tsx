@@ -9,19 +9,22 @@ import {
   useNotebooksWithPageCount,
   useDeleteNotebook,
 } from '@/hooks/queries/use-notebooks'
+import { useDueFlashcards } from '@/hooks/queries/use-flashcards'
 import type { NotebookWithPageCount } from '@/types'
-import { Plus, BookOpen, GraduationCap } from 'lucide-react'
+import { Plus, BookOpen, GraduationCap, Layers } from 'lucide-react'
 import { toast } from 'sonner'
 import Link from 'next/link'
 
 export default function StudiesPage() {
   const t = useTranslations('studies')
+  const tFlashcards = useTranslations('flashcards')
   const [mounted, setMounted] = useState(false)
   const [editingNotebook, setEditingNotebook] = useState<NotebookWithPageCount | null>(
     null
   )
 
   const { data: notebooks, isLoading } = useNotebooksWithPageCount()
+  const { data: dueCards = [] } = useDueFlashcards()
   const deleteMutation = useDeleteNotebook()
 
   useEffect(() => {
@@ -66,6 +69,12 @@ export default function StudiesPage() {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          <Link href="/areas/studies/review">
+            <Button variant="outline">
+              <Layers className="mr-2 h-4 w-4" />
+              {tFlashcards('reviewDue', { count: dueCards.length })}
+            </Button>
+          </Link>
           <Link href="/pomodoro">
             <Button variant="outline">
               <BookOpen className="mr-2 h-4 w-4" />
@@ -0,0 +1,29 @@
+'use client'
+
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { PageTransition } from '@/components/ui/motion'
+import { FlashcardReview } from '@/components/studies'
+import { ChevronLeft } from 'lucide-react'
+
+export default function StudiesReviewPage() {
+  const t = useTranslations('flashcards')
+  const tStudies = useTranslations('studies')
+
+  return (
+    <PageTransition className="container mx-auto max-w-2xl space-y-6 p-4 lg:p-6">
+      <header className="space-y-4">
+        <Link
+          href="/areas/studies"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          {tStudies('backToNotebooks')}
+        </Link>
+        <h1 className="text-2xl font-bold">{t('dailyReview')}</h1>
+      </header>
+
+      <FlashcardReview backHref="/areas/studies" />
+    </PageTransition>
+  )
+}
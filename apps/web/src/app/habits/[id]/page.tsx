@@ -20,14 +20,27 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
 import { PageTransition, CountUp } from '@/components/ui/motion'
-import { useHabit, useDeleteHabit, useToggleCompletion } from '@/hooks/queries/use-habits'
 import {
-  useHabitStreak,
+  useHabits,
+  useHabitCompletionsRange,
+  useHabitSummary,
+  useDeleteHabit,
+  useToggleCompletion,
+  useLogRelapse,
+  useHabitFreezes,
+  useVacations,
+  useSpendFreeze,
+} from '@/hooks/queries/use-habits'
+import {
   useUpdateGamificationStreak,
   useIncrementHabitsCompleted,
+  useUserStats,
 } from '@/hooks/queries/use-gamification'
 import { useSettingsStore } from '@/stores/settings'
+import { calculateHabitStreak } from '@/lib/streaks'
+import { addDays, isHabitDueOn } from '@/lib/habits'
 import { HabitYearHeatmap, HabitFormDialog, AddCompletionDialog } from '@/components/habits'
+import { PageMentions } from '@/components/studies/page-mentions'
 import {
   ArrowLeft,
   Flame,
@@ -41,7 +54,10 @@ import {
   Circle,
   Clock,
   BarChart3,
+  Snowflake,
+  ShieldAlert,
 } from 'lucide-react'
+import { toast } from 'sonner'
 
 interface HabitDetailPageProps {
   params: Promise<{ id: string }>
@@ -51,6 +67,9 @@ function getTodayString(): string {
   return new Date().toISOString().split('T')[0]
 }
 
+// Weeks shown in the year heatmap, which is also the window stats are computed from
+const HISTORY_WEEKS = 52
+
 const DAY_NAMES_PT = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado']
 const DAY_NAMES_EN = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
 
@@ -61,26 +80,41 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
   const tCommon = useTranslations('common')
   const [mounted, setMounted] = useState(false)
 
-  const { data: habit, isLoading: isLoadingHabit } = useHabit(id)
+  // The habit list only carries recent completions; history is loaded by range
+  const { data: habits, isLoading: isLoadingHabit } = useHabits()
+  const habit = habits?.find((h) => h.id === id)
+  const today = getTodayString()
+  const historyStart = addDays(today, -(HISTORY_WEEKS * 7 - 1))
+  const { data: historyCompletions } = useHabitCompletionsRange(id, historyStart, today)
+  const { data: summary } = useHabitSummary(id)
+  const { data: freezes = [] } = useHabitFreezes(id)
+  const { data: vacations = [] } = useVacations()
+  const { data: userStats } = useUserStats()
+  const spendFreezeMutation = useSpendFreeze()
   const deleteHabitMutation = useDeleteHabit()
   const toggleCompletionMutation = useToggleCompletion()
-  const { data: streak } = useHabitStreak(id)
+  const logRelapseMutation = useLogRelapse()
   const updateStreakMutation = useUpdateGamificationStreak()
   const incrementHabitsMutation = useIncrementHabitsCompleted()
   const locale = useSettingsStore((state) => state.locale)
+  const weekStartsOn = useSettingsStore((state) => state.weekStartsOn)
 
   useEffect(() => {
     setMounted(true)
   }, [])
 
   const dayNames = locale === 'pt-BR' ? DAY_NAMES_PT : DAY_NAMES_EN
+  const frozenDates = useMemo(() => freezes.map((f) => f.date), [freezes])
+  const historyHabit = useMemo(
+    () => (habit ? { ...habit, completions: historyCompletions ?? habit.completions } : undefined),
+    [habit, historyCompletions]
+  )
 
   // Calculate advanced statistics
   const stats = useMemo(() => {
-    if (!habit) return null
+    if (!habit || !historyHabit) return null
 
-    const today = getTodayString()
-    const completions = habit.completions
+    const completions = historyHabit.completions
 
     // Last 30 days
     const last30Days = Array.from({ length: 30 }, (_, i) => {
@@ -116,8 +150,25 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
     ).length
     const avgPerWeek = Math.round((completionsLast12Weeks / 12) * 10) / 10
 
+    // Streaks in the habit's own units (days, scheduled days, weeks or months)
+    const streak = calculateHabitStreak(historyHabit, { today, weekStartsOn, frozenDates, vacations })
+    // Older history is outside the loaded range, which would cap a run that
+    // started before it. The stored streak was computed over the whole history
+    // when the habit was last logged, so it holds a run that is still going
+    const currentStreak =
+      streak.currentStreak > 0 ? Math.max(streak.currentStreak, summary?.currentStreak ?? 0) : 0
+    // Likewise keep the best streak ever recorded
+    const longestStreak = Math.max(streak.longestStreak, currentStreak, summary?.longestStreak ?? 0)
+
+    // A missed day can still be covered by a freeze the day after
+    const yesterday = addDays(today, -1)
+    const canFreezeYesterday =
+      isHabitDueOn(habit, yesterday, vacations) &&
+      !completions.some((c) => c.date === yesterday) &&
+      !frozenDates.includes(yesterday)
+
     // Is completed today
-    const isCompletedToday = completions.some((c) => c.date === today)
+    const isCompletedToday = habit.completions.some((c) => c.date === today)
 
     // Recent completions (last 10)
     const recentCompletions = [...completions]
@@ -125,9 +176,9 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
       .slice(0, 10)
 
     // First completion date
-    const firstCompletion = completions.length > 0
+    const firstCompletion = summary?.firstCompletion ?? (completions.length > 0
       ? completions.reduce((min, c) => (c.date < min ? c.date : min), completions[0].date)
-      : null
+      : null)
 
     // Days since start
     const daysSinceStart = firstCompletion
@@ -135,7 +186,7 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
       : 0
 
     return {
-      totalCompletions: completions.length,
+      totalCompletions: summary?.totalCompletions ?? completions.length,
       completionsLast30,
       completionsLast7,
       completionRate30: Math.round((completionsLast30 / 30) * 100),
@@ -143,11 +194,13 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
       bestDay,
       avgPerWeek,
       isCompletedToday,
+      streak: { ...streak, currentStreak, longestStreak },
+      canFreezeYesterday,
       recentCompletions,
       firstCompletion,
       daysSinceStart,
     }
-  }, [habit, dayNames])
+  }, [habit, historyHabit, summary, today, dayNames, weekStartsOn, frozenDates, vacations])
 
   if (isLoadingHabit) {
     return (
@@ -171,18 +224,39 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
 
   const handleToggleToday = () => {
     if (!habit) return
-    const today = getTodayString()
     const wasCompleted = stats?.isCompletedToday
 
-    toggleCompletionMutation.mutate({ habitId: habit.id, date: today })
+    // Recalculate the streak once the completion is saved
+    toggleCompletionMutation.mutate(
+      { habitId: habit.id, date: today },
+      { onSuccess: () => updateStreakMutation.mutate(habit.id) }
+    )
 
     // Update gamification when completing (not uncompleting)
     if (!wasCompleted) {
-      updateStreakMutation.mutate({ habitId: habit.id, date: today })
       incrementHabitsMutation.mutate()
     }
   }
 
+  const handleLogRelapse = () => {
+    if (!habit) return
+    logRelapseMutation.mutate(
+      { habitId: habit.id, date: today },
+      { onSuccess: () => toast(t('relapseLogged')) }
+    )
+  }
+
+  const handleFreezeYesterday = () => {
+    if (!habit) return
+    spendFreezeMutation.mutate(
+      { habitId: habit.id, date: addDays(today, -1) },
+      {
+        onSuccess: () => toast.success(t('freezeUsed')),
+        onError: () => toast.error(t('freezeError')),
+      }
+    )
+  }
+
   const handleDelete = async () => {
     if (!habit) return
     try {
@@ -193,8 +267,8 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
     }
   }
 
-  const displayStreak = mounted ? (streak?.currentStreak || 0) : 0
-  const displayLongestStreak = mounted ? (streak?.longestStreak || 0) : 0
+  const displayStreak = mounted ? stats.streak.currentStreak : 0
+  const displayLongestStreak = mounted ? stats.streak.longestStreak : 0
 
   return (
     <PageTransition className="container mx-auto max-w-md space-y-6 p-4 lg:max-w-4xl lg:p-6">
@@ -218,6 +292,21 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
 
         {/* Action buttons */}
         <div className="flex items-center gap-2">
+          {/* Cover yesterday with a streak freeze */}
+          {stats.canFreezeYesterday && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleFreezeYesterday}
+              disabled={!userStats?.freezeTokens || spendFreezeMutation.isPending}
+              title={t('freezeYesterday')}
+              className="gap-1 text-sky-500"
+            >
+              <Snowflake className="h-4 w-4" />
+              {userStats?.freezeTokens ?? 0}
+            </Button>
+          )}
+
           {/* Add past completion */}
           <AddCompletionDialog habit={habit}>
             <Button variant="ghost" size="icon" title={t('addPastCompletion')}>
@@ -225,25 +314,38 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
             </Button>
           </AddCompletionDialog>
 
-          {/* Today's toggle button */}
-          <Button
-            variant={stats.isCompletedToday ? 'default' : 'outline'}
-            size="sm"
-            onClick={handleToggleToday}
-            className="gap-2"
-          >
-            {stats.isCompletedToday ? (
-              <>
-                <CheckCircle2 className="h-4 w-4" />
-                {t('done')}
-              </>
-            ) : (
-              <>
-                <Circle className="h-4 w-4" />
-                {t('markToday')}
-              </>
-            )}
-          </Button>
+          {/* Today's toggle button, or slip logging for avoid habits */}
+          {habit.tracking.type === 'avoid' ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleLogRelapse}
+              disabled={logRelapseMutation.isPending}
+              className="gap-2"
+            >
+              <ShieldAlert className="h-4 w-4" />
+              {t('logRelapse')}
+            </Button>
+          ) : (
+            <Button
+              variant={stats.isCompletedToday ? 'default' : 'outline'}
+              size="sm"
+              onClick={handleToggleToday}
+              className="gap-2"
+            >
+              {stats.isCompletedToday ? (
+                <>
+                  <CheckCircle2 className="h-4 w-4" />
+                  {t('done')}
+                </>
+              ) : (
+                <>
+                  <Circle className="h-4 w-4" />
+                  {t('markToday')}
+                </>
+              )}
+            </Button>
+          )}
         </div>
       </header>
 
@@ -257,12 +359,24 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
             `${habit.frequency.days.length} dias por semana`}
           {habit.frequency.type === 'monthly' &&
             `${habit.frequency.timesPerMonth}x por mês`}
+          {habit.frequency.type === 'interval' &&
+            t('everyNDays', { count: habit.frequency.everyDays })}
+          {habit.frequency.type === 'nthWeekday' &&
+            t('nthWeekdayLabel', {
+              week: t(habit.frequency.week === -1 ? 'weekOrdinalLast' : `weekOrdinal${habit.frequency.week}`),
+              weekday: dayNames[habit.frequency.weekday],
+            })}
         </Badge>
         {habit.tracking.type === 'quantitative' && (
           <Badge variant="outline">
             Meta: {habit.tracking.target} {habit.tracking.unit}
           </Badge>
         )}
+        {habit.tracking.type === 'avoid' && (
+          <Badge variant="outline">
+            {t('dailyLimit')}: {habit.tracking.limit} {habit.tracking.unit}
+          </Badge>
+        )}
         {stats.firstCompletion && (
           <Badge variant="outline" className="text-muted-foreground">
             <Clock className="mr-1 h-3 w-3" />
@@ -332,7 +446,12 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <HabitYearHeatmap habit={habit} weeks={52} />
+          <HabitYearHeatmap
+            habit={historyHabit ?? habit}
+            weeks={HISTORY_WEEKS}
+            frozenDates={frozenDates}
+            vacations={vacations}
+          />
         </CardContent>
       </Card>
 
@@ -445,6 +564,9 @@ export default function HabitDetailPage({ params }: HabitDetailPageProps) {
         </Card>
       )}
 
+      {/* Pages mentioning the habit */}
+      <PageMentions targetType="habit" targetId={habit.id} />
+
       {/* Actions */}
       <Separator />
       <div className="flex gap-2">
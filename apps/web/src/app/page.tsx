@@ -21,19 +21,24 @@ import {
 import { PageTransition, motion } from '@/components/ui/motion'
 import {
   useActiveHabits,
+  useVacations,
   useToggleCompletion,
   useSetCompletionValue,
   useRemoveCompletion,
+  useLogRelapse,
 } from '@/hooks/queries/use-habits'
 import { useTodayAndOverdueTasks, useSetTaskStatus } from '@/hooks/queries/use-tasks'
 import {
   useUserStats,
   useUpdateGamificationStreak,
+  useClaimCleanDays,
   useIncrementHabitsCompleted,
   useIncrementTasksCompleted,
 } from '@/hooks/queries/use-gamification'
 import { useSettingsStore } from '@/stores/settings'
-import { HabitFormDialog, QuantitativeHabitInput } from '@/components/habits'
+import { isHabitDueOn } from '@/lib/habits'
+import { isCompletionSuccessful } from '@/lib/streaks'
+import { AvoidHabitInput, HabitFormDialog, QuantitativeHabitInput } from '@/components/habits'
 import { TaskFormDialog } from '@/components/tasks'
 import { NotebooksWidget, FinancesWidget, HealthWidget } from '@/components/home'
 import { StreakSparkline } from '@/components/charts'
@@ -66,16 +71,20 @@ const WIDGET_LABELS: Record<HomeWidgetType, { pt: string; en: string }> = {
 export default function HomePage() {
   const t = useTranslations('home')
   const tNav = useTranslations('nav')
+  const tHabits = useTranslations('habits')
   const [mounted, setMounted] = useState(false)
 
   const { data: habits = [], isLoading: isLoadingHabits } = useActiveHabits()
+  const { data: vacations = [] } = useVacations()
   const { allTasks: tasks, overdueTasks, hasOverdue, isLoading: isLoadingTasks } = useTodayAndOverdueTasks()
   const toggleCompletionMutation = useToggleCompletion()
   const setCompletionValueMutation = useSetCompletionValue()
   const removeCompletionMutation = useRemoveCompletion()
+  const logRelapseMutation = useLogRelapse()
   const setTaskStatusMutation = useSetTaskStatus()
   const { data: stats } = useUserStats()
   const updateStreakMutation = useUpdateGamificationStreak()
+  const { mutate: claimCleanDays } = useClaimCleanDays()
   const incrementHabitsMutation = useIncrementHabitsCompleted()
   const incrementTasksMutation = useIncrementTasksCompleted()
   const locale = useSettingsStore((state) => state.locale)
@@ -91,6 +100,17 @@ export default function HomePage() {
     setMounted(true)
   }, [])
 
+  // Avoid habits have nothing to check off, so clean days are credited on visit
+  const avoidHabitIds = habits
+    .filter((habit) => habit.tracking.type === 'avoid')
+    .map((habit) => habit.id)
+    .join(',')
+
+  useEffect(() => {
+    if (!avoidHabitIds) return
+    avoidHabitIds.split(',').forEach((habitId) => claimCleanDays(habitId))
+  }, [avoidHabitIds, claimCleanDays])
+
   // Use default values during SSR to prevent hydration mismatch
   const displayStreak = mounted ? currentStreak : 0
   const displayLevel = mounted ? level : 1
@@ -98,22 +118,16 @@ export default function HomePage() {
   const displayUserName = mounted ? userName : undefined
 
   const today = getTodayString()
-  const dayOfWeek = new Date().getDay()
 
   // Filter habits that should be done today
-  const todayHabits = habits.filter((habit) => {
-    if (habit.frequency.type === 'daily') return true
-    if (habit.frequency.type === 'specificDays') {
-      return habit.frequency.days.includes(dayOfWeek)
-    }
-    if (habit.frequency.type === 'weekly' || habit.frequency.type === 'monthly') {
-      return true
-    }
-    return false
-  })
+  const todayHabits = habits.filter((habit) => isHabitDueOn(habit, today, vacations))
 
   const completedHabits = todayHabits.filter((habit) => {
     const completion = habit.completions.find((c) => c.date === today)
+    // An avoid habit is on track until today's slips go over its limit
+    if (habit.tracking.type === 'avoid') {
+      return !completion || isCompletionSuccessful(habit.tracking, completion)
+    }
     if (!completion) return false
     if (habit.tracking.type === 'quantitative') {
       return completion.value >= habit.tracking.target
@@ -130,10 +144,13 @@ export default function HomePage() {
     const habit = habits.find((h) => h.id === habitId)
     const wasCompleted = habit?.completions.some((c) => c.date === today)
 
-    toggleCompletionMutation.mutate({ habitId, date: today })
+    // Recalculate the streak once the completion is saved
+    toggleCompletionMutation.mutate(
+      { habitId, date: today },
+      { onSuccess: () => updateStreakMutation.mutate(habitId) }
+    )
 
     if (!wasCompleted) {
-      updateStreakMutation.mutate({ habitId, date: today })
       incrementHabitsMutation.mutate()
       toast.success('Hábito concluído! 🎉')
     }
@@ -146,15 +163,24 @@ export default function HomePage() {
     const wasCompleted = habit.completions.some((c) => c.date === today)
     const isNowCompleted = value >= habit.tracking.target
 
-    setCompletionValueMutation.mutate({ habitId, date: today, value })
+    setCompletionValueMutation.mutate(
+      { habitId, date: today, value },
+      { onSuccess: () => updateStreakMutation.mutate(habitId) }
+    )
 
     if (!wasCompleted && isNowCompleted) {
-      updateStreakMutation.mutate({ habitId, date: today })
       incrementHabitsMutation.mutate()
       toast.success('Meta atingida! 🎯')
     }
   }
 
+  const handleLogRelapse = (habitId: string) => {
+    logRelapseMutation.mutate(
+      { habitId, date: today },
+      { onSuccess: () => toast(tHabits('relapseLogged')) }
+    )
+  }
+
   const handleQuantitativeRemove = (habitId: string) => {
     removeCompletionMutation.mutate({ habitId, date: today })
   }
@@ -242,7 +268,20 @@ export default function HomePage() {
                         className="flex items-center gap-3 rounded-lg border p-3"
                         style={{ borderLeftColor: habit.color, borderLeftWidth: 4 }}
                       >
-                        {isQuantitative && habit.tracking.type === 'quantitative' ? (
+                        {habit.tracking.type === 'avoid' ? (
+                          <>
+                            <div className="flex-1">
+                              <p>{habit.title}</p>
+                            </div>
+                            <AvoidHabitInput
+                              limit={habit.tracking.limit}
+                              unit={habit.tracking.unit}
+                              completion={completion}
+                              onLogRelapse={() => handleLogRelapse(habit.id)}
+                              disabled={logRelapseMutation.isPending}
+                            />
+                          </>
+                        ) : isQuantitative && habit.tracking.type === 'quantitative' ? (
                           <QuantitativeHabitInput
                             target={habit.tracking.target}
                             unit={habit.tracking.unit}
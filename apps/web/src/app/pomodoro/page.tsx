@@ -2,29 +2,27 @@
 
 import { useState, useEffect } from 'react'
 import { useTranslations } from 'next-intl'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Card, CardContent } from '@/components/ui/card'
 import { PageTransition, CountUp } from '@/components/ui/motion'
-import { PomodoroTimer, PomodoroSettings } from '@/components/pomodoro'
-import { usePomodoroStore, useTodaySessions } from '@/stores/pomodoro'
+import { PomodoroTimer, PomodoroSettings, PomodoroHistory, PomodoroFocusTarget } from '@/components/pomodoro'
+import { usePomodoroStore } from '@/stores/pomodoro'
+import { usePomodoroStats, useSyncPomodoroSessions } from '@/hooks/queries/use-pomodoro'
 import { Timer, Target, Clock, Coffee } from 'lucide-react'
 
 export default function PomodoroPage() {
   const t = useTranslations('studies')
   const [mounted, setMounted] = useState(false)
 
-  const { totalFocusMinutes, settings } = usePomodoroStore()
-  const todaySessions = useTodaySessions()
+  const { settings } = usePomodoroStore()
+  const stats = usePomodoroStats()
+
+  useSyncPomodoroSessions()
 
   useEffect(() => {
     setMounted(true)
   }, [])
 
-  const todayFocusMinutes = todaySessions.reduce(
-    (acc, session) => acc + session.focusMinutes,
-    0
-  )
-
-  const totalHours = Math.floor(totalFocusMinutes / 60)
+  const totalHours = Math.floor(stats.totalMinutes / 60)
 
   return (
     <PageTransition className="container mx-auto max-w-md space-y-6 p-4 lg:max-w-4xl lg:p-6">
@@ -39,7 +37,8 @@ export default function PomodoroPage() {
 
       {/* Timer */}
       <Card>
-        <CardContent className="flex justify-center py-8">
+        <CardContent className="flex flex-col items-center gap-6 py-8">
+          <PomodoroFocusTarget />
           <PomodoroTimer />
         </CardContent>
       </Card>
@@ -54,7 +53,7 @@ export default function PomodoroPage() {
               </div>
               <div>
                 <CountUp
-                  to={mounted ? todaySessions.length : 0}
+                  to={mounted ? stats.todaySessions : 0}
                   duration={1}
                   className="text-2xl font-bold"
                 />
@@ -72,7 +71,7 @@ export default function PomodoroPage() {
               </div>
               <div>
                 <CountUp
-                  to={mounted ? todayFocusMinutes : 0}
+                  to={mounted ? stats.todayMinutes : 0}
                   duration={1}
                   className="text-2xl font-bold"
                 />
@@ -117,6 +116,9 @@ export default function PomodoroPage() {
         </Card>
       </div>
 
+      {/* History */}
+      <PomodoroHistory />
+
       {/* Info Card */}
       <Card className="bg-muted/30">
         <CardContent className="p-4">
@@ -21,6 +21,7 @@ import {
 } from '@/components/ui/alert-dialog'
 import { useSettingsStore } from '@/stores/settings'
 import { downloadData, importData, clearAllData } from '@/lib/data'
+import { createClient } from '@/lib/supabase/client'
 import {
   requestNotificationPermission,
   getNotificationPermission,
@@ -28,6 +29,7 @@ import {
 } from '@/lib/notifications'
 import { Moon, Sun, Monitor, Globe, Bell, Download, Upload, Trash2, Loader2, LogOut, User, Calendar } from 'lucide-react'
 import { useAuth } from '@/hooks/use-auth'
+import { VacationsCard } from '@/components/habits'
 
 export default function SettingsPage() {
   const t = useTranslations('settings')
@@ -44,6 +46,7 @@ export default function SettingsPage() {
   } = useSettingsStore()
 
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isExporting, setIsExporting] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
 
   const handleLocaleChange = (newLocale: 'pt-BR' | 'en-US') => {
@@ -52,13 +55,15 @@ export default function SettingsPage() {
     window.location.reload()
   }
 
-  const handleExport = () => {
+  const handleExport = async () => {
+    setIsExporting(true)
     try {
-      downloadData()
+      await downloadData(createClient())
       toast.success('Dados exportados com sucesso!')
     } catch {
       toast.error('Erro ao exportar dados')
     }
+    setIsExporting(false)
   }
 
   const handleImportClick = () => {
@@ -70,7 +75,7 @@ export default function SettingsPage() {
     if (!file) return
 
     setIsImporting(true)
-    const result = await importData(file)
+    const result = await importData(createClient(), file)
 
     if (result.success) {
       toast.success('Dados importados com sucesso! Recarregando...')
@@ -245,6 +250,9 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Vacations */}
+      <VacationsCard />
+
       {/* Data Management */}
       <Card className="lg:col-span-2">
         <CardHeader className="pb-3">
@@ -260,8 +268,13 @@ export default function SettingsPage() {
             variant="outline"
             className="justify-start lg:flex-1 rounded-xl h-11"
             onClick={handleExport}
+            disabled={isExporting}
           >
-            <Download className="mr-2 h-4 w-4" />
+            {isExporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
             {t('exportData')}
           </Button>
           <Button
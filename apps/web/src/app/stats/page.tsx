@@ -10,7 +10,7 @@ import {
   MonthlyProgressChart,
   TaskDistributionChart,
 } from '@/components/charts'
-import { useActiveHabits } from '@/hooks/queries/use-habits'
+import { useActiveHabits, useHabitSummaries } from '@/hooks/queries/use-habits'
 import { useTasks } from '@/hooks/queries/use-tasks'
 import { useUserStats, useXpProgress } from '@/hooks/queries/use-gamification'
 import { getXpForNextLevel } from '@/services/gamification.service'
@@ -47,6 +47,7 @@ export default function StatsPage() {
   const t = useTranslations('stats')
   const [mounted, setMounted] = useState(false)
   const { data: habits = [] } = useActiveHabits()
+  const { data: summaries = [] } = useHabitSummaries()
   const { data: tasks = [] } = useTasks()
   const { data: stats } = useUserStats()
   const xpProgress = useXpProgress()
@@ -67,11 +68,12 @@ export default function StatsPage() {
   const last30Days = getLast30Days()
   const last7Days = getLast7Days()
 
-  // Calculate habit stats
-  const totalHabitCompletions = habits.reduce(
-    (acc, habit) => acc + habit.completions.length,
-    0
-  )
+  // Calculate habit stats (lifetime totals come from the summaries, not the
+  // recent completions loaded with the habit list)
+  const activeHabitIds = new Set(habits.map((h) => h.id))
+  const totalHabitCompletions = summaries
+    .filter((summary) => activeHabitIds.has(summary.habitId))
+    .reduce((acc, summary) => acc + summary.totalCompletions, 0)
 
   const habitCompletionsLast30 = habits.reduce((acc, habit) => {
     const completions = habit.completions.filter((c) =>
@@ -30,6 +30,7 @@ import { toast } from 'sonner'
 import { TaskListSkeleton } from '@/components/skeletons'
 import { Plus, Calendar, ListTodo, CheckSquare, Trash2, X, CheckCircle2, AlertCircle, Clock, CalendarDays, CalendarX } from 'lucide-react'
 import { getTodayString } from '@/lib/utils'
+import { isTaskBlocked } from '@/lib/tasks'
 import type { Task } from '@/types'
 
 // Helper function to categorize tasks by date
@@ -293,6 +294,7 @@ export default function TasksPage() {
                         selected={selectedTasks.has(task.id)}
                         onSelect={handleSelectTask}
                         isToggling={togglingTaskId === task.id}
+                        isBlocked={isTaskBlocked(task, tasks)}
                       />
                     ))}
                   </div>
@@ -317,6 +319,7 @@ export default function TasksPage() {
                         selected={selectedTasks.has(task.id)}
                         onSelect={handleSelectTask}
                         isToggling={togglingTaskId === task.id}
+                        isBlocked={isTaskBlocked(task, tasks)}
                       />
                     ))}
                   </div>
@@ -341,6 +344,7 @@ export default function TasksPage() {
                         selected={selectedTasks.has(task.id)}
                         onSelect={handleSelectTask}
                         isToggling={togglingTaskId === task.id}
+                        isBlocked={isTaskBlocked(task, tasks)}
                       />
                     ))}
                   </div>
@@ -365,6 +369,7 @@ export default function TasksPage() {
                         selected={selectedTasks.has(task.id)}
                         onSelect={handleSelectTask}
                         isToggling={togglingTaskId === task.id}
+                        isBlocked={isTaskBlocked(task, tasks)}
                       />
                     ))}
                   </div>
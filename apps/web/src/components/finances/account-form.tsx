@@ -0,0 +1,273 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useSettings } from '@/hooks/queries/use-settings'
+import { useCreateAccount, useUpdateAccount } from '@/hooks/queries/use-finances'
+import { CurrencySelect } from './currency-select'
+import type { Account, AccountType, CurrencyCode } from '@/types/finances'
+import { Plus, Landmark } from 'lucide-react'
+
+export const ACCOUNT_TYPES: AccountType[] = [
+  'checking',
+  'savings',
+  'credit_card',
+  'cash',
+  'investment',
+]
+
+const ACCOUNT_COLORS = [
+  '#3b82f6', // blue
+  '#8b5cf6', // violet
+  '#22c55e', // green
+  '#f59e0b', // amber
+  '#ef4444', // red
+  '#06b6d4', // cyan
+  '#ec4899', // pink
+  '#64748b', // slate
+]
+
+interface AccountFormProps {
+  trigger?: React.ReactNode
+  /** Account to edit (if provided, form enters edit mode; remount with a key to switch accounts) */
+  account?: Account
+  /** Control dialog open state externally */
+  open?: boolean
+  /** Callback when dialog open state changes */
+  onOpenChange?: (open: boolean) => void
+}
+
+export function AccountForm({
+  trigger,
+  account,
+  open: controlledOpen,
+  onOpenChange,
+}: AccountFormProps) {
+  const t = useTranslations()
+  const { data: settings } = useSettings()
+  const createAccount = useCreateAccount()
+  const updateAccount = useUpdateAccount()
+
+  const isEditMode = !!account
+  const [internalOpen, setInternalOpen] = useState(false)
+  const open = controlledOpen !== undefined ? controlledOpen : internalOpen
+  const setOpen = onOpenChange || setInternalOpen
+
+  // Credit cards are entered as the amount owed and stored as a negative balance
+  const initialAmount = account
+    ? account.type === 'credit_card'
+      ? -account.openingBalance
+      : account.openingBalance
+    : 0
+
+  const [name, setName] = useState(account?.name ?? '')
+  const [type, setType] = useState<AccountType>(account?.type ?? 'checking')
+  const [openingBalance, setOpeningBalance] = useState(
+    initialAmount ? String(initialAmount).replace('.', ',') : ''
+  )
+  // Unset until picked: follows the base currency
+  const [pickedCurrency, setPickedCurrency] = useState<CurrencyCode | undefined>(
+    account?.currency
+  )
+  const [closingDay, setClosingDay] = useState(account?.closingDay ? String(account.closingDay) : '')
+  const [dueDay, setDueDay] = useState(account?.dueDay ? String(account.dueDay) : '')
+  const [color, setColor] = useState(account?.color ?? ACCOUNT_COLORS[0])
+
+  const isCreditCard = type === 'credit_card'
+  const currency = pickedCurrency ?? settings?.currency ?? 'BRL'
+
+  function resetForm() {
+    if (!isEditMode) {
+      setName('')
+      setType('checking')
+      setOpeningBalance('')
+      setPickedCurrency(undefined)
+      setClosingDay('')
+      setDueDay('')
+      setColor(ACCOUNT_COLORS[0])
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    const amount = openingBalance ? parseFloat(openingBalance.replace(',', '.')) : 0
+    if (isNaN(amount)) return
+
+    const data = {
+      name: name.trim(),
+      type,
+      openingBalance: isCreditCard ? -amount : amount,
+      currency,
+      closingDay: isCreditCard && closingDay ? Number(closingDay) : undefined,
+      dueDay: isCreditCard && dueDay ? Number(dueDay) : undefined,
+      color,
+    }
+
+    try {
+      if (isEditMode && account) {
+        await updateAccount.mutateAsync({ id: account.id, updates: data })
+      } else {
+        await createAccount.mutateAsync(data)
+      }
+      resetForm()
+      setOpen(false)
+    } catch (error) {
+      console.error('Failed to save account:', error)
+    }
+  }
+
+  const isSubmitting = createAccount.isPending || updateAccount.isPending
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {trigger !== null && (
+        <DialogTrigger asChild>
+          {trigger || (
+            <Button variant="outline" size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              {t('finances.accounts.add')}
+            </Button>
+          )}
+        </DialogTrigger>
+      )}
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Landmark className="h-5 w-5" />
+            {isEditMode ? t('finances.accounts.edit') : t('finances.accounts.add')}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Name */}
+          <div className="space-y-2">
+            <Label htmlFor="accountName">{t('finances.accounts.name')}</Label>
+            <Input
+              id="accountName"
+              placeholder={t('finances.accounts.namePlaceholder')}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          {/* Type */}
+          <div className="space-y-2">
+            <Label>{t('finances.accounts.type')}</Label>
+            <Select value={type} onValueChange={(v) => setType(v as AccountType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ACCOUNT_TYPES.map((accountType) => (
+                  <SelectItem key={accountType} value={accountType}>
+                    {t(`finances.accounts.types.${accountType}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Opening Balance */}
+          <div className="space-y-2">
+            <Label htmlFor="openingBalance">
+              {isCreditCard
+                ? t('finances.accounts.openingDebt')
+                : t('finances.accounts.openingBalance')}
+            </Label>
+            <div className="grid grid-cols-[1fr_6.5rem] gap-2">
+              <Input
+                id="openingBalance"
+                type="text"
+                inputMode="decimal"
+                placeholder="0,00"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+              />
+              <CurrencySelect
+                value={currency}
+                onValueChange={setPickedCurrency}
+                aria-label={t('finances.currency')}
+              />
+            </div>
+          </div>
+
+          {/* Statement Days (credit cards) */}
+          {isCreditCard && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="closingDay">{t('finances.accounts.closingDay')}</Label>
+                <Input
+                  id="closingDay"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={closingDay}
+                  onChange={(e) => setClosingDay(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dueDay">{t('finances.accounts.dueDay')}</Label>
+                <Input
+                  id="dueDay"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={dueDay}
+                  onChange={(e) => setDueDay(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Color */}
+          <div className="space-y-2">
+            <Label>{t('finances.accounts.color')}</Label>
+            <div className="flex flex-wrap gap-2">
+              {ACCOUNT_COLORS.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  onClick={() => setColor(c)}
+                  className={`h-8 w-8 rounded-full transition-transform ${
+                    color === c ? 'ring-2 ring-offset-2 ring-primary scale-110' : ''
+                  }`}
+                  style={{ backgroundColor: c }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting
+              ? t('common.saving')
+              : isEditMode
+                ? t('finances.saveChanges')
+                : t('finances.accounts.create')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { AccountForm } from './account-form'
+import { CreditCardStatementDialog } from './credit-card-statement'
+import {
+  useAccounts,
+  useAccountBalances,
+  useCurrencyConversion,
+  useUpdateAccount,
+  useDeleteAccount,
+} from '@/hooks/queries/use-finances'
+import { useSettingsStore } from '@/stores/settings'
+import { formatCurrency, getTodayString, toBaseAmount } from '@/lib/finances'
+import { isCreditCardAccount, type CreditCardAccount } from '@/lib/credit-card'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+import type { Account, AccountType } from '@/types/finances'
+import {
+  Landmark,
+  PiggyBank,
+  CreditCard,
+  Banknote,
+  TrendingUp,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  Receipt,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+} from 'lucide-react'
+
+const HIDDEN_VALUE = '••••••'
+
+const ACCOUNT_ICONS: Record<AccountType, typeof Landmark> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  credit_card: CreditCard,
+  cash: Banknote,
+  investment: TrendingUp,
+}
+
+export function AccountsSection() {
+  const t = useTranslations()
+  const conversion = useCurrencyConversion()
+  const { data: accounts = [], isLoading } = useAccounts()
+  const { data: balances } = useAccountBalances()
+  const updateAccount = useUpdateAccount()
+  const deleteAccount = useDeleteAccount()
+  const hideBalances = useSettingsStore((state) => state.hideBalances) ?? false
+  const currency = conversion.baseCurrency
+
+  const [editingAccount, setEditingAccount] = useState<Account | undefined>()
+  const [statementCard, setStatementCard] = useState<CreditCardAccount | undefined>()
+
+  const activeAccounts = accounts.filter((a) => !a.isArchived)
+  const archivedAccounts = accounts.filter((a) => a.isArchived)
+  // Balances in other currencies count at today's rate
+  const today = getTodayString()
+  const total = activeAccounts.reduce(
+    (sum, a) =>
+      sum +
+      toBaseAmount({ amount: balances[a.id] ?? 0, currency: a.currency, date: today }, conversion),
+    0
+  )
+
+  const renderAccount = (account: Account) => {
+    const Icon = ACCOUNT_ICONS[account.type]
+    const balance = balances[account.id] ?? 0
+
+    return (
+      <div
+        key={account.id}
+        className={cn(
+          'flex items-center gap-3 rounded-lg border p-3',
+          account.isArchived && 'opacity-60'
+        )}
+      >
+        <div
+          className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full"
+          style={{ backgroundColor: `${account.color}20` }}
+        >
+          <Icon className="h-5 w-5" style={{ color: account.color }} />
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="truncate font-medium">{account.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {t(`finances.accounts.types.${account.type}`)}
+          </p>
+        </div>
+        <p
+          className={cn(
+            'font-semibold',
+            hideBalances ? 'text-muted-foreground' : balance < 0 && 'text-red-500'
+          )}
+        >
+          {hideBalances ? HIDDEN_VALUE : formatCurrency(balance, account.currency ?? currency)}
+        </p>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-8 w-8">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {isCreditCardAccount(account) && (
+              <DropdownMenuItem onClick={() => setStatementCard(account)}>
+                <Receipt className="mr-2 h-4 w-4" />
+                {t('finances.statement.view')}
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={() => setEditingAccount(account)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              {t('common.edit')}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() =>
+                updateAccount.mutate({
+                  id: account.id,
+                  updates: { isArchived: !account.isArchived },
+                })
+              }
+            >
+              {account.isArchived ? (
+                <ArchiveRestore className="mr-2 h-4 w-4" />
+              ) : (
+                <Archive className="mr-2 h-4 w-4" />
+              )}
+              {account.isArchived
+                ? t('finances.accounts.unarchive')
+                : t('finances.accounts.archive')}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="text-destructive"
+              onClick={() =>
+                deleteAccount.mutate(account.id, {
+                  onSuccess: (result) => {
+                    if (result === 'archived') toast.info(t('finances.accounts.archivedInstead'))
+                  },
+                })
+              }
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              {t('common.delete')}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Landmark className="h-5 w-5" />
+          {t('finances.accounts.title')}
+        </CardTitle>
+        <AccountForm />
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : accounts.length === 0 ? (
+          <div className="py-8 text-center">
+            <Landmark className="mx-auto h-12 w-12 text-muted-foreground/50" />
+            <p className="mt-4 text-muted-foreground">{t('finances.accounts.empty')}</p>
+            <p className="text-sm text-muted-foreground">{t('finances.accounts.emptyHint')}</p>
+          </div>
+        ) : (
+          <>
+            {activeAccounts.map(renderAccount)}
+
+            <div className="flex items-center justify-between border-t pt-3 text-sm">
+              <span className="text-muted-foreground">{t('finances.accounts.total')}</span>
+              <span className="font-semibold">
+                {hideBalances ? HIDDEN_VALUE : formatCurrency(total, currency)}
+              </span>
+            </div>
+
+            {/* Archived Accounts */}
+            {archivedAccounts.length > 0 && (
+              <div className="space-y-3 pt-4">
+                <p className="text-sm font-medium text-muted-foreground">
+                  {t('finances.accounts.archivedCount', { count: archivedAccounts.length })}
+                </p>
+                {archivedAccounts.map(renderAccount)}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AccountForm
+        key={editingAccount?.id}
+        trigger={null}
+        account={editingAccount}
+        open={!!editingAccount}
+        onOpenChange={(open) => !open && setEditingAccount(undefined)}
+      />
+
+      {statementCard && (
+        <CreditCardStatementDialog
+          key={statementCard.id}
+          card={statementCard}
+          open
+          onOpenChange={(open) => !open && setStatementCard(undefined)}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useUpsertBudget, useUpsertBudgetTemplate } from '@/hooks/queries/use-finances'
+import { getCategoriesByType } from '@/config/finance-categories'
+import { getMonthName } from '@/lib/finances'
+import type { BudgetPeriod, BudgetStatus } from '@/types/finances'
+import { Plus, PiggyBank } from 'lucide-react'
+
+type BudgetScope = 'recurring' | 'month'
+
+interface BudgetFormProps {
+  /** Month the budget is created from, or overridden in */
+  month: string
+  trigger?: React.ReactNode
+  /** Budget to edit (remount with a key to switch budgets) */
+  status?: BudgetStatus
+  /** Categories that already have a budget, hidden when creating */
+  budgetedCategoryIds?: string[]
+  open?: boolean
+  onOpenChange?: (open: boolean) => void
+}
+
+export function BudgetForm({
+  month,
+  trigger,
+  status,
+  budgetedCategoryIds = [],
+  open: controlledOpen,
+  onOpenChange,
+}: BudgetFormProps) {
+  const t = useTranslations()
+  const upsertTemplate = useUpsertBudgetTemplate()
+  const upsertBudget = useUpsertBudget()
+
+  const isEditMode = !!status
+  const [internalOpen, setInternalOpen] = useState(false)
+  const open = controlledOpen !== undefined ? controlledOpen : internalOpen
+  const setOpen = onOpenChange || setInternalOpen
+
+  // Single-month budgets are edited as such, everything else as the template
+  const initialAmount = status?.budget?.monthlyLimit ?? status?.template?.amount
+
+  const [categoryId, setCategoryId] = useState(status?.categoryId ?? '')
+  const [scope, setScope] = useState<BudgetScope>(status?.budget ? 'month' : 'recurring')
+  const [period, setPeriod] = useState<BudgetPeriod>(status?.template?.period ?? 'monthly')
+  const [amount, setAmount] = useState(
+    initialAmount ? String(initialAmount).replace('.', ',') : ''
+  )
+  const [rollover, setRollover] = useState(status?.template?.rollover ?? false)
+
+  const categories = getCategoriesByType('expense').filter(
+    (c) => c.id === status?.categoryId || !budgetedCategoryIds.includes(c.id)
+  )
+  const isRecurring = scope === 'recurring'
+
+  function resetForm() {
+    if (!isEditMode) {
+      setCategoryId('')
+      setScope('recurring')
+      setPeriod('monthly')
+      setAmount('')
+      setRollover(false)
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+
+    const value = parseFloat(amount.replace(',', '.'))
+    if (!categoryId || isNaN(value) || value < 0) return
+
+    try {
+      if (isRecurring) {
+        await upsertTemplate.mutateAsync({
+          categoryId,
+          amount: value,
+          period,
+          rollover,
+          startMonth: status?.template?.startMonth ?? month,
+        })
+      } else {
+        await upsertBudget.mutateAsync({ categoryId, monthlyLimit: value, month })
+      }
+      resetForm()
+      setOpen(false)
+    } catch (error) {
+      console.error('Failed to save budget:', error)
+    }
+  }
+
+  const isSubmitting = upsertTemplate.isPending || upsertBudget.isPending
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {trigger !== null && (
+        <DialogTrigger asChild>
+          {trigger || (
+            <Button variant="outline" size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              {t('finances.budgets.add')}
+            </Button>
+          )}
+        </DialogTrigger>
+      )}
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PiggyBank className="h-5 w-5" />
+            {isEditMode ? t('finances.budgets.edit') : t('finances.budgets.add')}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Category */}
+          <div className="space-y-2">
+            <Label>{t('finances.category')}</Label>
+            <Select value={categoryId} onValueChange={setCategoryId} disabled={isEditMode}>
+              <SelectTrigger>
+                <SelectValue placeholder={t('finances.selectCategory')} />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((cat) => (
+                  <SelectItem key={cat.id} value={cat.id}>
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: cat.color }}
+                      />
+                      {t(cat.nameKey)}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Scope */}
+          <div className="space-y-2">
+            <Label>{t('finances.budgets.scope')}</Label>
+            <Select value={scope} onValueChange={(v) => setScope(v as BudgetScope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recurring">{t('finances.budgets.recurring')}</SelectItem>
+                <SelectItem value="month">
+                  {t('finances.budgets.onlyMonth', { month: getMonthName(month) })}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Amount */}
+          <div className="grid grid-cols-[1fr_8rem] gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="budgetAmount">
+                {isRecurring && period === 'yearly'
+                  ? t('finances.budgets.yearlyAmount')
+                  : t('finances.budgets.monthlyAmount')}
+              </Label>
+              <Input
+                id="budgetAmount"
+                type="text"
+                inputMode="decimal"
+                placeholder="0,00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            {isRecurring && (
+              <div className="space-y-2">
+                <Label>{t('finances.budgets.period')}</Label>
+                <Select value={period} onValueChange={(v) => setPeriod(v as BudgetPeriod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="monthly">{t('finances.budgets.periods.monthly')}</SelectItem>
+                    <SelectItem value="yearly">{t('finances.budgets.periods.yearly')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          {isRecurring && period === 'yearly' && (
+            <p className="text-xs text-muted-foreground">{t('finances.budgets.yearlyHint')}</p>
+          )}
+
+          {/* Rollover */}
+          {isRecurring && (
+            <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="budgetRollover">{t('finances.budgets.rollover')}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {t('finances.budgets.rolloverHint')}
+                </p>
+              </div>
+              <Switch id="budgetRollover" checked={rollover} onCheckedChange={setRollover} />
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting || !categoryId}>
+            {isSubmitting
+              ? t('common.saving')
+              : isEditMode
+                ? t('finances.saveChanges')
+                : t('finances.budgets.create')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,220 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Switch } from '@/components/ui/switch'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { BudgetForm } from './budget-form'
+import { useSettings, useUpdateSettings } from '@/hooks/queries/use-settings'
+import {
+  useBudgetStatuses,
+  useDeleteBudget,
+  useDeleteBudgetTemplate,
+  useEnvelopeSummary,
+} from '@/hooks/queries/use-finances'
+import { getCategoryById } from '@/config/finance-categories'
+import { formatCurrency } from '@/lib/finances'
+import { cn } from '@/lib/utils'
+import type { BudgetStatus } from '@/types/finances'
+import { Loader2, MoreHorizontal, Pencil, PiggyBank, Trash2 } from 'lucide-react'
+
+interface BudgetsSectionProps {
+  month: string
+}
+
+export function BudgetsSection({ month }: BudgetsSectionProps) {
+  const t = useTranslations()
+  const { data: settings } = useSettings()
+  const updateSettings = useUpdateSettings()
+  const { data: statuses, isLoading } = useBudgetStatuses(month)
+  const envelope = useEnvelopeSummary(month)
+  const deleteBudget = useDeleteBudget()
+  const deleteTemplate = useDeleteBudgetTemplate()
+  const currency = settings?.currency ?? 'BRL'
+  const envelopeMode = settings?.budgetMode === 'envelopes'
+
+  const [editingStatus, setEditingStatus] = useState<BudgetStatus | undefined>()
+
+  const totalAvailable = statuses.reduce((sum, s) => sum + s.available, 0)
+  const totalSpent = statuses.reduce((sum, s) => sum + s.spent, 0)
+
+  // A single-month budget is removed first, uncovering the template again
+  const handleDelete = (status: BudgetStatus) => {
+    if (status.budget) {
+      deleteBudget.mutate(status.budget.id)
+    } else if (status.template) {
+      deleteTemplate.mutate(status.template.id)
+    }
+  }
+
+  const renderStatus = (status: BudgetStatus) => {
+    const category = getCategoryById(status.categoryId)
+    const isOver = status.remaining < 0
+
+    return (
+      <div key={status.categoryId} className="space-y-2 rounded-lg border p-3">
+        <div className="flex items-center gap-2">
+          <div
+            className="h-3 w-3 shrink-0 rounded-full"
+            style={{ backgroundColor: category?.color ?? '#6b7280' }}
+          />
+          <span className="flex-1 truncate font-medium">
+            {category ? t(category.nameKey) : status.categoryId}
+          </span>
+          {status.period === 'yearly' && (
+            <Badge variant="secondary">{t('finances.budgets.periods.yearly')}</Badge>
+          )}
+          {status.budget && status.template && (
+            <Badge variant="outline">{t('finances.budgets.adjusted')}</Badge>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" className="h-8 w-8">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setEditingStatus(status)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                {t('common.edit')}
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(status)}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                {status.budget && status.template
+                  ? t('finances.budgets.resetMonth')
+                  : t('common.delete')}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        <Progress
+          value={Math.min(status.percentage, 100)}
+          variant={isOver || status.percentage > 80 ? 'warning' : 'success'}
+        />
+
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {t('finances.budgets.spentOf', {
+              spent: formatCurrency(status.spent, currency),
+              available: formatCurrency(status.available, currency),
+            })}
+          </span>
+          <span className={cn('font-medium', isOver ? 'text-red-500' : 'text-green-500')}>
+            {isOver
+              ? t('finances.budgets.over', {
+                  amount: formatCurrency(-status.remaining, currency),
+                })
+              : t('finances.budgets.left', { amount: formatCurrency(status.remaining, currency) })}
+          </span>
+        </div>
+
+        {status.carried !== 0 && (
+          <p className="text-xs text-muted-foreground">
+            {t('finances.budgets.carried', {
+              allocated: formatCurrency(status.allocated, currency),
+              carried: `${status.carried > 0 ? '+' : '−'}${formatCurrency(Math.abs(status.carried), currency)}`,
+            })}
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <PiggyBank className="h-5 w-5" />
+          {t('finances.budgets.title')}
+        </CardTitle>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="envelopeMode"
+              checked={envelopeMode}
+              onCheckedChange={(checked) =>
+                updateSettings.mutate({ budgetMode: checked ? 'envelopes' : 'limits' })
+              }
+            />
+            <Label htmlFor="envelopeMode" className="text-sm">
+              {t('finances.budgets.envelopes')}
+            </Label>
+          </div>
+          <BudgetForm month={month} budgetedCategoryIds={statuses.map((s) => s.categoryId)} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* Income still to be allocated */}
+        {envelopeMode && (
+          <div
+            className={cn(
+              'rounded-lg border p-3 text-sm',
+              envelope.toAssign < 0 ? 'border-red-500/50 bg-red-500/10' : 'bg-muted/50'
+            )}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">{t('finances.budgets.toAssign')}</span>
+              <span
+                className={cn('text-lg font-semibold', envelope.toAssign < 0 && 'text-red-500')}
+              >
+                {formatCurrency(envelope.toAssign, currency)}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t('finances.budgets.envelopeSummary', {
+                income: formatCurrency(envelope.income, currency),
+                assigned: formatCurrency(envelope.assigned, currency),
+              })}
+            </p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : statuses.length === 0 ? (
+          <div className="py-8 text-center">
+            <PiggyBank className="mx-auto h-12 w-12 text-muted-foreground/50" />
+            <p className="mt-4 text-muted-foreground">{t('finances.budgets.empty')}</p>
+            <p className="text-sm text-muted-foreground">{t('finances.budgets.emptyHint')}</p>
+          </div>
+        ) : (
+          <>
+            {statuses.map(renderStatus)}
+
+            <div className="flex items-center justify-between border-t pt-3 text-sm">
+              <span className="text-muted-foreground">{t('finances.budgets.total')}</span>
+              <span className="font-semibold">
+                {t('finances.budgets.spentOf', {
+                  spent: formatCurrency(totalSpent, currency),
+                  available: formatCurrency(totalAvailable, currency),
+                })}
+              </span>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <BudgetForm
+        key={editingStatus?.categoryId}
+        month={month}
+        trigger={null}
+        status={editingStatus}
+        open={!!editingStatus}
+        onOpenChange={(open) => !open && setEditingStatus(undefined)}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,241 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useSettings } from '@/hooks/queries/use-settings'
+import { useCashFlowForecast } from '@/hooks/queries/use-finances'
+import { formatCurrency, getMonthName } from '@/lib/finances'
+import { cn } from '@/lib/utils'
+import type { ForecastAdjustment } from '@/types/finances'
+import { AlertTriangle, Plus, TrendingUp, Trash2 } from 'lucide-react'
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+} from 'recharts'
+
+const HORIZONS = [3, 6, 12]
+
+export function CashFlowForecast() {
+  const t = useTranslations()
+  const { data: settings } = useSettings()
+  const currency = settings?.currency ?? 'BRL'
+
+  const [months, setMonths] = useState(6)
+  // What-if items only live in this session, they are for trying things out
+  const [adjustments, setAdjustments] = useState<ForecastAdjustment[]>([])
+  const { data: forecast } = useCashFlowForecast(months, adjustments)
+
+  const [description, setDescription] = useState('')
+  const [amount, setAmount] = useState('')
+  const [month, setMonth] = useState('')
+
+  const chartData = useMemo(
+    () =>
+      forecast.map((m) => {
+        const [year, monthNum] = m.month.split('-')
+        const date = new Date(parseInt(year), parseInt(monthNum) - 1)
+
+        return {
+          month: date.toLocaleDateString('pt-BR', { month: 'short' }),
+          net: m.net,
+          balance: m.balance,
+        }
+      }),
+    [forecast]
+  )
+
+  const lowest = forecast.reduce<(typeof forecast)[number] | undefined>(
+    (min, m) => (!min || m.balance < min.balance ? m : min),
+    undefined
+  )
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const value = parseFloat(amount.replace(',', '.'))
+    const target = month || forecast[0]?.month
+    if (!description.trim() || isNaN(value) || value <= 0 || !target) return
+
+    setAdjustments((current) => [
+      ...current,
+      {
+        id: crypto.randomUUID(),
+        description: description.trim(),
+        type: 'expense',
+        amount: value,
+        month: target,
+        enabled: true,
+      },
+    ])
+    setDescription('')
+    setAmount('')
+  }
+
+  const toggleAdjustment = (id: string, enabled: boolean) =>
+    setAdjustments((current) => current.map((a) => (a.id === id ? { ...a, enabled } : a)))
+
+  const removeAdjustment = (id: string) =>
+    setAdjustments((current) => current.filter((a) => a.id !== id))
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <TrendingUp className="h-5 w-5" />
+          {t('finances.forecast.title')}
+        </CardTitle>
+        <Select value={String(months)} onValueChange={(v) => setMonths(Number(v))}>
+          <SelectTrigger className="w-[130px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HORIZONS.map((n) => (
+              <SelectItem key={n} value={String(n)}>
+                {t('finances.forecast.months', { count: n })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="h-[250px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" vertical={false} />
+              <XAxis
+                dataKey="month"
+                tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                axisLine={{ stroke: 'var(--border)' }}
+                tickLine={false}
+              />
+              <YAxis
+                tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                axisLine={false}
+                tickLine={false}
+                tickFormatter={(value) => {
+                  if (Math.abs(value) >= 1000) return `${(value / 1000).toFixed(0)}k`
+                  return value.toString()
+                }}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'var(--card)',
+                  border: '1px solid var(--border)',
+                  borderRadius: '8px',
+                  color: 'var(--card-foreground)',
+                }}
+                labelStyle={{ color: 'var(--card-foreground)' }}
+                itemStyle={{ color: 'var(--card-foreground)' }}
+                formatter={(value) => formatCurrency(value as number, currency)}
+              />
+              <Legend wrapperStyle={{ color: 'var(--foreground)' }} />
+              <ReferenceLine y={0} stroke="var(--border)" />
+              <Bar
+                dataKey="net"
+                name={t('finances.forecast.net')}
+                fill="#3b82f6"
+                radius={[4, 4, 0, 0]}
+                maxBarSize={40}
+              />
+              <Line
+                type="monotone"
+                dataKey="balance"
+                name={t('finances.forecast.balance')}
+                stroke="#22c55e"
+                strokeWidth={2}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {lowest && lowest.balance < 0 && (
+          <div className="flex items-center gap-2 rounded-lg border border-red-500/50 bg-red-500/10 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 shrink-0 text-red-500" />
+            {t('finances.forecast.negative', {
+              month: getMonthName(lowest.month),
+              amount: formatCurrency(lowest.balance, currency),
+            })}
+          </div>
+        )}
+
+        {/* What-if items */}
+        <div className="space-y-2">
+          <p className="text-sm font-medium">{t('finances.forecast.whatIf')}</p>
+          {adjustments.map((a) => (
+            <div key={a.id} className="flex items-center gap-3 rounded-lg border p-2 text-sm">
+              <Switch
+                checked={a.enabled}
+                onCheckedChange={(checked) => toggleAdjustment(a.id, checked)}
+              />
+              <span className={cn('flex-1 truncate', !a.enabled && 'text-muted-foreground')}>
+                {a.description}
+              </span>
+              <span className="text-xs text-muted-foreground">{getMonthName(a.month)}</span>
+              <span className={cn('font-medium', a.enabled && 'text-red-500')}>
+                {formatCurrency(a.amount, currency)}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => removeAdjustment(a.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <form onSubmit={handleAdd} className="grid grid-cols-[1fr_6rem_8rem_auto] gap-2">
+            <Input
+              placeholder={t('finances.forecast.whatIfPlaceholder')}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+            <Input
+              type="text"
+              inputMode="decimal"
+              placeholder="0,00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <Select value={month || forecast[0]?.month} onValueChange={setMonth}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {forecast.map((m) => (
+                  <SelectItem key={m.month} value={m.month}>
+                    {getMonthName(m.month)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" size="icon" variant="outline">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+          <p className="text-xs text-muted-foreground">{t('finances.forecast.hint')}</p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,371 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useSettings } from '@/hooks/queries/use-settings'
+import {
+  useCategorizationRules,
+  useCreateCategorizationRule,
+  useUpdateCategorizationRule,
+  useDeleteCategorizationRule,
+  useReapplyCategorizationRules,
+} from '@/hooks/queries/use-finances'
+import {
+  getCategoriesByType,
+  getCategoryById,
+  PAYMENT_METHODS,
+} from '@/config/finance-categories'
+import type { CategorizationRule, RuleMatchMode, TransactionType } from '@/types/finances'
+import { ArrowDown, ArrowUp, Plus, RefreshCw, Trash2, Wand2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+const ANY = 'any'
+
+function parseTags(value: string): string[] {
+  return value
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+}
+
+export function CategorizationRulesDialog() {
+  const t = useTranslations()
+  const { data: settings } = useSettings()
+  const { data: rules = [] } = useCategorizationRules()
+  const createRule = useCreateCategorizationRule()
+  const updateRule = useUpdateCategorizationRule()
+  const deleteRule = useDeleteCategorizationRule()
+  const reapplyRules = useReapplyCategorizationRules()
+
+  const currency = (settings?.currency ?? 'BRL') as 'BRL' | 'USD' | 'EUR'
+  const [open, setOpen] = useState(false)
+  const [type, setType] = useState<TransactionType>('expense')
+  const [matchMode, setMatchMode] = useState<RuleMatchMode>('contains')
+  const [pattern, setPattern] = useState('')
+  const [minAmount, setMinAmount] = useState(0)
+  const [maxAmount, setMaxAmount] = useState(0)
+  const [paymentMethod, setPaymentMethod] = useState(ANY)
+  const [requiredTags, setRequiredTags] = useState('')
+  const [categoryId, setCategoryId] = useState('')
+  const [addTags, setAddTags] = useState('')
+  const [overwrite, setOverwrite] = useState(false)
+
+  function resetForm() {
+    setMatchMode('contains')
+    setPattern('')
+    setMinAmount(0)
+    setMaxAmount(0)
+    setPaymentMethod(ANY)
+    setRequiredTags('')
+    setCategoryId('')
+    setAddTags('')
+  }
+
+  function describeRule(rule: CategorizationRule): string {
+    const conditions: string[] = []
+    if (rule.descriptionPattern) {
+      conditions.push(
+        t(`finances.rules.match.${rule.descriptionMatch ?? 'contains'}`, {
+          pattern: rule.descriptionPattern,
+        })
+      )
+    }
+    if (rule.minAmount !== undefined) conditions.push(`≥ ${rule.minAmount}`)
+    if (rule.maxAmount !== undefined) conditions.push(`≤ ${rule.maxAmount}`)
+    if (rule.paymentMethod) {
+      const method = PAYMENT_METHODS.find((m) => m.id === rule.paymentMethod)
+      conditions.push(method ? t(method.nameKey) : rule.paymentMethod)
+    }
+    if (rule.requiredTags?.length) {
+      conditions.push(rule.requiredTags.map((tag) => `#${tag}`).join(' '))
+    }
+    return conditions.length > 0 ? conditions.join(' · ') : t('finances.rules.anyTransaction')
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!categoryId) return
+
+    if (matchMode === 'regex' && pattern) {
+      try {
+        new RegExp(pattern)
+      } catch {
+        toast.error(t('finances.rules.invalidPattern'))
+        return
+      }
+    }
+
+    const category = getCategoryById(categoryId)
+    try {
+      await createRule.mutateAsync({
+        name: pattern || (category ? t(category.nameKey) : categoryId),
+        priority: rules.reduce((max, rule) => Math.max(max, rule.priority + 1), 0),
+        isActive: true,
+        transactionType: type,
+        descriptionMatch: pattern ? matchMode : undefined,
+        descriptionPattern: pattern || undefined,
+        minAmount: minAmount > 0 ? minAmount : undefined,
+        maxAmount: maxAmount > 0 ? maxAmount : undefined,
+        paymentMethod: paymentMethod !== ANY ? paymentMethod : undefined,
+        requiredTags: parseTags(requiredTags),
+        categoryId,
+        addTags: parseTags(addTags),
+      })
+      resetForm()
+    } catch (error) {
+      console.error('Failed to create rule:', error)
+      toast.error(t('finances.rules.error'))
+    }
+  }
+
+  // Swap priorities with the neighbouring rule
+  async function moveRule(index: number, direction: -1 | 1) {
+    const rule = rules[index]
+    const other = rules[index + direction]
+    if (!rule || !other) return
+
+    const priority = other.priority === rule.priority ? rule.priority + direction : other.priority
+    await Promise.all([
+      updateRule.mutateAsync({ id: rule.id, updates: { priority } }),
+      updateRule.mutateAsync({ id: other.id, updates: { priority: rule.priority } }),
+    ])
+  }
+
+  async function handleReapply() {
+    try {
+      const count = await reapplyRules.mutateAsync({ onlyUncategorized: !overwrite })
+      toast.success(t('finances.rules.reapplied', { count }))
+    } catch (error) {
+      console.error('Failed to re-apply rules:', error)
+      toast.error(t('finances.rules.error'))
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value)
+        if (!value) resetForm()
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title={t('finances.rules.title')}>
+          <Wand2 className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] max-w-[calc(100vw-2rem)] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{t('finances.rules.title')}</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">{t('finances.rules.description')}</p>
+
+        {/* Existing rules, in evaluation order */}
+        <div className="space-y-2">
+          {rules.length === 0 && (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              {t('finances.rules.empty')}
+            </p>
+          )}
+          {rules.map((rule, index) => {
+            const category = getCategoryById(rule.categoryId)
+            return (
+              <div key={rule.id} className="flex items-center gap-2 rounded-lg border p-2">
+                <div className="flex flex-col">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5"
+                    disabled={index === 0}
+                    onClick={() => moveRule(index, -1)}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5"
+                    disabled={index === rules.length - 1}
+                    onClick={() => moveRule(index, 1)}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm">{describeRule(rule)}</p>
+                  <div className="mt-1 flex flex-wrap items-center gap-1">
+                    <Badge
+                      variant="secondary"
+                      className="text-xs"
+                      style={category ? { color: category.color } : undefined}
+                    >
+                      {category ? t(category.nameKey) : rule.categoryId}
+                    </Badge>
+                    {rule.addTags?.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-xs">
+                        #{tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <Switch
+                  checked={rule.isActive}
+                  onCheckedChange={(isActive) =>
+                    updateRule.mutate({ id: rule.id, updates: { isActive } })
+                  }
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  onClick={() => deleteRule.mutate(rule.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+
+        {/* New rule */}
+        <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border p-3">
+          <p className="text-sm font-medium">{t('finances.rules.newRule')}</p>
+
+          <div className="grid grid-cols-[8rem_1fr] gap-2">
+            <Select value={matchMode} onValueChange={(v) => setMatchMode(v as RuleMatchMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="contains">{t('finances.rules.contains')}</SelectItem>
+                <SelectItem value="regex">{t('finances.rules.regex')}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={t('finances.rules.patternPlaceholder')}
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">{t('finances.rules.minAmount')}</Label>
+              <CurrencyInput value={minAmount} onChange={setMinAmount} currency={currency} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t('finances.rules.maxAmount')}</Label>
+              <CurrencyInput value={maxAmount} onChange={setMaxAmount} currency={currency} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={type}
+              onValueChange={(v) => {
+                setType(v as TransactionType)
+                setCategoryId('')
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="expense">{t('finances.expense')}</SelectItem>
+                <SelectItem value="income">{t('finances.income')}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t('finances.rules.anyPaymentMethod')}</SelectItem>
+                {PAYMENT_METHODS.map((method) => (
+                  <SelectItem key={method.id} value={method.id}>
+                    {t(method.nameKey)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Input
+            placeholder={t('finances.rules.requiredTagsPlaceholder')}
+            value={requiredTags}
+            onChange={(e) => setRequiredTags(e.target.value)}
+          />
+
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={categoryId} onValueChange={setCategoryId} required>
+              <SelectTrigger>
+                <SelectValue placeholder={t('finances.selectCategory')} />
+              </SelectTrigger>
+              <SelectContent>
+                {getCategoriesByType(type).map((cat) => (
+                  <SelectItem key={cat.id} value={cat.id}>
+                    {t(cat.nameKey)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={t('finances.rules.addTagsPlaceholder')}
+              value={addTags}
+              onChange={(e) => setAddTags(e.target.value)}
+            />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={!categoryId || createRule.isPending}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t('finances.rules.add')}
+          </Button>
+        </form>
+
+        {/* Re-apply to past transactions */}
+        <div className="space-y-2 rounded-lg border p-3">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="overwriteCategories" className="text-sm font-normal">
+              {t('finances.rules.overwrite')}
+            </Label>
+            <Switch id="overwriteCategories" checked={overwrite} onCheckedChange={setOverwrite} />
+          </div>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleReapply}
+            disabled={rules.length === 0 || reapplyRules.isPending}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {t('finances.rules.reapply')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useSettings } from '@/hooks/queries/use-settings'
+import { useTransactions } from '@/hooks/queries/use-finances'
+import { formatCurrency, getMonthName, getTodayString } from '@/lib/finances'
+import { buildStatement, getStatementMonth, shiftMonth } from '@/lib/credit-card'
+import type { CreditCardAccount } from '@/lib/credit-card'
+import { cn, formatLocalDate } from '@/lib/utils'
+import { ChevronLeft, ChevronRight, CreditCard } from 'lucide-react'
+
+interface CreditCardStatementDialogProps {
+  card: CreditCardAccount
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function CreditCardStatementDialog({
+  card,
+  open,
+  onOpenChange,
+}: CreditCardStatementDialogProps) {
+  const t = useTranslations()
+  const { data: settings } = useSettings()
+  const { data: transactions = [] } = useTransactions()
+  const currency = card.currency ?? settings?.currency ?? 'BRL'
+
+  // Start on the statement purchases made today would be billed in
+  const [month, setMonth] = useState(() => getStatementMonth(getTodayString(), card))
+  const statement = buildStatement(card, transactions, month)
+
+  const formatDate = (date: string) =>
+    formatLocalDate(date, 'pt-BR', { day: '2-digit', month: 'short' })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-[calc(100vw-2rem)] overflow-y-auto sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CreditCard className="h-5 w-5" style={{ color: card.color }} />
+            {card.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Month Navigation */}
+          <div className="flex items-center justify-between">
+            <Button variant="ghost" size="icon" onClick={() => setMonth(shiftMonth(month, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <span className="font-medium capitalize">{getMonthName(month)}</span>
+              <Badge variant={statement.status === 'open' ? 'default' : 'secondary'}>
+                {t(`finances.statement.status.${statement.status}`)}
+              </Badge>
+            </div>
+            <Button variant="ghost" size="icon" onClick={() => setMonth(shiftMonth(month, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {/* Summary */}
+          <div className="rounded-lg border p-4 text-center">
+            <p className="text-sm text-muted-foreground">{t('finances.statement.total')}</p>
+            <p className="text-2xl font-bold">{formatCurrency(statement.total, currency)}</p>
+            <div className="mt-2 flex justify-center gap-4 text-xs text-muted-foreground">
+              <span>
+                {t('finances.statement.closes', { date: formatDate(statement.closingDate) })}
+              </span>
+              <span>{t('finances.statement.due', { date: formatDate(statement.dueDate) })}</span>
+            </div>
+          </div>
+
+          {/* Transactions */}
+          {statement.transactions.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              {t('finances.statement.empty')}
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {statement.transactions.map((transaction) => (
+                <div key={transaction.id} className="flex items-center gap-3 rounded-md p-2">
+                  <span className="w-14 shrink-0 text-xs text-muted-foreground">
+                    {formatDate(transaction.date)}
+                  </span>
+                  <span className="flex-1 truncate text-sm">{transaction.description}</span>
+                  {transaction.installment && (
+                    <Badge variant="outline" className="shrink-0 text-xs">
+                      {transaction.installment.number}/{transaction.installment.count}
+                    </Badge>
+                  )}
+                  <span
+                    className={cn(
+                      'shrink-0 text-sm font-medium',
+                      transaction.type === 'income' && 'text-green-500'
+                    )}
+                  >
+                    {transaction.type === 'income' && '-'}
+                    {formatCurrency(transaction.amount, currency)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CURRENCIES } from '@/lib/finances'
+import type { CurrencyCode } from '@/types/finances'
+
+interface CurrencySelectProps {
+  value: CurrencyCode
+  onValueChange: (currency: CurrencyCode) => void
+  className?: string
+  'aria-label'?: string
+}
+
+export function CurrencySelect({
+  value,
+  onValueChange,
+  className,
+  'aria-label': ariaLabel,
+}: CurrencySelectProps) {
+  return (
+    <Select value={value} onValueChange={(v) => onValueChange(v as CurrencyCode)}>
+      <SelectTrigger className={className} aria-label={ariaLabel}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(CURRENCIES).map((curr) => (
+          <SelectItem key={curr.code} value={curr.code}>
+            {curr.symbol} {curr.code}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,188 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  useCurrencyConversion,
+  useDeleteExchangeRate,
+  useTransactions,
+  useUpsertExchangeRates,
+} from '@/hooks/queries/use-finances'
+import {
+  getMissingRateCurrencies,
+  getTodayString,
+  parseExchangeRatesCsv,
+} from '@/lib/finances'
+import { formatLocalDate } from '@/lib/utils'
+import { CurrencySelect } from './currency-select'
+import type { CurrencyCode } from '@/types/finances'
+import { AlertTriangle, Coins, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export function ExchangeRatesDialog() {
+  const t = useTranslations()
+  const conversion = useCurrencyConversion()
+  const { data: transactions = [] } = useTransactions()
+  const upsertRates = useUpsertExchangeRates()
+  const deleteRate = useDeleteExchangeRate()
+
+  const { baseCurrency, rates } = conversion
+  const [date, setDate] = useState(getTodayString())
+  const [fromCurrency, setFromCurrency] = useState<CurrencyCode>(
+    baseCurrency === 'USD' ? 'EUR' : 'USD'
+  )
+  const [toCurrency, setToCurrency] = useState<CurrencyCode | undefined>()
+  const [rate, setRate] = useState('')
+
+  const missingCurrencies = getMissingRateCurrencies(transactions, conversion)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+
+    const value = parseFloat(rate.replace(',', '.'))
+    const to = toCurrency ?? baseCurrency
+    if (isNaN(value) || value <= 0 || fromCurrency === to) return
+
+    try {
+      await upsertRates.mutateAsync([{ fromCurrency, toCurrency: to, rate: value, date }])
+      setRate('')
+    } catch (error) {
+      console.error('Failed to save exchange rate:', error)
+      toast.error(t('finances.exchangeRates.error'))
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+
+    try {
+      const imported = parseExchangeRatesCsv(await file.text())
+      await upsertRates.mutateAsync(imported)
+      toast.success(t('finances.exchangeRates.imported', { count: imported.length }))
+    } catch (error) {
+      console.error('Failed to import exchange rates:', error)
+      toast.error(t('finances.exchangeRates.parseError'))
+    }
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title={t('finances.exchangeRates.title')}>
+          <Coins className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] max-w-[calc(100vw-2rem)] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('finances.exchangeRates.title')}</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          {t('finances.exchangeRates.description', { currency: baseCurrency })}
+        </p>
+
+        {missingCurrencies.length > 0 && (
+          <div className="flex items-center gap-2 rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 shrink-0 text-yellow-500" />
+            {t('finances.exchangeRates.missing', { currencies: missingCurrencies.join(', ') })}
+          </div>
+        )}
+
+        {/* New rate */}
+        <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border p-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">{t('finances.exchangeRates.from')}</Label>
+              <CurrencySelect value={fromCurrency} onValueChange={setFromCurrency} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t('finances.exchangeRates.to')}</Label>
+              <CurrencySelect value={toCurrency ?? baseCurrency} onValueChange={setToCurrency} />
+            </div>
+          </div>
+          <div className="grid grid-cols-[1fr_1fr_auto] items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="rateDate" className="text-xs">
+                {t('finances.date')}
+              </Label>
+              <Input
+                id="rateDate"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rateValue" className="text-xs">
+                {t('finances.exchangeRates.rate')}
+              </Label>
+              <Input
+                id="rateValue"
+                type="text"
+                inputMode="decimal"
+                placeholder="5,00"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" size="icon" disabled={upsertRates.isPending}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </form>
+
+        {/* CSV import */}
+        <div className="space-y-1">
+          <Label htmlFor="ratesFile">{t('finances.exchangeRates.import')}</Label>
+          <Input
+            id="ratesFile"
+            type="file"
+            accept=".csv,.txt"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <p className="text-xs text-muted-foreground">{t('finances.exchangeRates.importHint')}</p>
+        </div>
+
+        {/* Stored rates, newest first */}
+        <div className="space-y-2">
+          {rates.length === 0 && (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              {t('finances.exchangeRates.empty')}
+            </p>
+          )}
+          {rates.map((r) => (
+            <div key={r.id} className="flex items-center gap-3 rounded-lg border p-2 text-sm">
+              <span className="w-20 shrink-0 text-xs text-muted-foreground">
+                {formatLocalDate(r.date, 'pt-BR', { day: '2-digit', month: 'short', year: '2-digit' })}
+              </span>
+              <span className="flex-1">
+                1 {r.fromCurrency} = {r.rate.toLocaleString('pt-BR', { maximumFractionDigits: 6 })}{' '}
+                {r.toCurrency}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => deleteRate.mutate(r.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
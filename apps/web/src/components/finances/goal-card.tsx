@@ -19,8 +19,8 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { useSettings } from '@/hooks/queries/use-settings'
-import { useAddGoalContribution, useDeleteGoal } from '@/hooks/queries/use-finances'
-import { formatCurrency, formatPercentage } from '@/lib/finances'
+import { useAddGoalContribution, useDeleteGoal, useGoalPlan } from '@/hooks/queries/use-finances'
+import { CURRENCIES, formatCurrency, formatPercentage } from '@/lib/finances'
 import type { FinancialGoal } from '@/types/finances'
 import {
   Target,
@@ -30,6 +30,8 @@ import {
   Calendar,
   CheckCircle2,
   TrendingUp,
+  AlertTriangle,
+  Repeat,
 } from 'lucide-react'
 import { cn, parseLocalDate, formatLocalDate } from '@/lib/utils'
 
@@ -42,7 +44,8 @@ export function GoalCard({ goal }: GoalCardProps) {
   const { data: settings } = useSettings()
   const addContributionMutation = useAddGoalContribution()
   const deleteGoalMutation = useDeleteGoal()
-  const currency = settings?.currency ?? 'BRL'
+  const { data: plan } = useGoalPlan(goal)
+  const currency = goal.currency ?? settings?.currency ?? 'BRL'
 
   const [showContribution, setShowContribution] = useState(false)
   const [contributionAmount, setContributionAmount] = useState('')
@@ -50,6 +53,7 @@ export function GoalCard({ goal }: GoalCardProps) {
   const progress = Math.min((goal.currentAmount / goal.targetAmount) * 100, 100)
   const remaining = goal.targetAmount - goal.currentAmount
   const isCompleted = goal.completedAt !== undefined
+  const isOffTrack = !isCompleted && plan.status === 'off_track'
 
   async function handleAddContribution() {
     const amount = parseFloat(contributionAmount.replace(',', '.'))
@@ -86,6 +90,10 @@ export function GoalCard({ goal }: GoalCardProps) {
     return formatLocalDate(deadline, 'pt-BR', { month: 'short', year: 'numeric' })
   }
 
+  function formatMonth(month: string): string {
+    return formatLocalDate(`${month}-01`, 'pt-BR', { month: 'short', year: 'numeric' })
+  }
+
   return (
     <>
       <Card className={cn(isCompleted && 'border-green-500/50 bg-green-500/5')}>
@@ -112,6 +120,12 @@ export function GoalCard({ goal }: GoalCardProps) {
                     {t('finances.goals.completed')}
                   </span>
                 )}
+                {isOffTrack && (
+                  <span className="flex items-center gap-1 text-xs text-amber-500 font-medium">
+                    <AlertTriangle className="h-3 w-3" />
+                    {t('finances.goals.offTrack')}
+                  </span>
+                )}
               </div>
 
               {goal.description && (
@@ -154,6 +168,34 @@ export function GoalCard({ goal }: GoalCardProps) {
                   </div>
                 )}
               </div>
+
+              {/* Plan */}
+              {!isCompleted && plan.status !== 'completed' && (
+                <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                  {plan.requiredMonthly !== undefined && (
+                    <span className={cn(isOffTrack && 'text-amber-500')}>
+                      {t('finances.goals.requiredMonthly', {
+                        amount: formatCurrency(plan.requiredMonthly, currency),
+                      })}
+                    </span>
+                  )}
+                  {plan.plannedMonthly > 0 && (
+                    <span className="flex items-center gap-1">
+                      <Repeat className="h-3 w-3" />
+                      {t('finances.goals.scheduledMonthly', {
+                        amount: formatCurrency(plan.plannedMonthly, currency),
+                      })}
+                    </span>
+                  )}
+                  <span>
+                    {plan.projectedCompletion
+                      ? t('finances.goals.projectedCompletion', {
+                          month: formatMonth(plan.projectedCompletion),
+                        })
+                      : t('finances.goals.noPace')}
+                  </span>
+                </div>
+              )}
             </div>
 
             {/* Actions */}
@@ -204,7 +246,7 @@ export function GoalCard({ goal }: GoalCardProps) {
             </div>
             <div className="relative">
               <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
-                {currency === 'BRL' ? 'R$' : currency === 'USD' ? '$' : '€'}
+                {CURRENCIES[currency].symbol}
               </span>
               <Input
                 type="text"
@@ -13,8 +13,18 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { useSettings } from '@/hooks/queries/use-settings'
 import { useCreateGoal } from '@/hooks/queries/use-finances'
+import { getCategoriesByType } from '@/config/finance-categories'
+import { CurrencySelect } from './currency-select'
+import type { CurrencyCode } from '@/types/finances'
 import { Plus, Target } from 'lucide-react'
 import { getTodayString } from '@/lib/utils'
 
@@ -29,6 +39,8 @@ const GOAL_COLORS = [
   '#8b5cf6', // violet
 ]
 
+const NO_CATEGORY = 'none'
+
 interface GoalFormProps {
   trigger?: React.ReactNode
   onSuccess?: () => void
@@ -38,21 +50,28 @@ export function GoalForm({ trigger, onSuccess }: GoalFormProps) {
   const t = useTranslations()
   const { data: settings } = useSettings()
   const createGoalMutation = useCreateGoal()
-  const currency = settings?.currency ?? 'BRL'
 
   const [open, setOpen] = useState(false)
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
   const [targetAmount, setTargetAmount] = useState('')
+  // Unset until picked: follows the base currency
+  const [pickedCurrency, setPickedCurrency] = useState<CurrencyCode | undefined>()
   const [deadline, setDeadline] = useState('')
   const [color, setColor] = useState(GOAL_COLORS[0])
+  const [contributionCategoryId, setContributionCategoryId] = useState(NO_CATEGORY)
+
+  const categories = getCategoriesByType('expense')
+  const currency = pickedCurrency ?? settings?.currency ?? 'BRL'
 
   function resetForm() {
     setName('')
     setDescription('')
     setTargetAmount('')
+    setPickedCurrency(undefined)
     setDeadline('')
     setColor(GOAL_COLORS[0])
+    setContributionCategoryId(NO_CATEGORY)
   }
 
   async function handleSubmit(e: React.FormEvent) {
@@ -67,8 +86,11 @@ export function GoalForm({ trigger, onSuccess }: GoalFormProps) {
         name: name.trim(),
         description: description.trim() || undefined,
         targetAmount: numericAmount,
+        currency,
         deadline: deadline || undefined,
         color,
+        contributionCategoryId:
+          contributionCategoryId !== NO_CATEGORY ? contributionCategoryId : undefined,
       })
 
       resetForm()
@@ -125,10 +147,7 @@ export function GoalForm({ trigger, onSuccess }: GoalFormProps) {
           {/* Target Amount */}
           <div className="space-y-2">
             <Label htmlFor="targetAmount">{t('finances.goals.targetAmount')}</Label>
-            <div className="relative">
-              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
-                {currency === 'BRL' ? 'R$' : currency === 'USD' ? '$' : '€'}
-              </span>
+            <div className="grid grid-cols-[1fr_6.5rem] gap-2">
               <Input
                 id="targetAmount"
                 type="text"
@@ -136,9 +155,13 @@ export function GoalForm({ trigger, onSuccess }: GoalFormProps) {
                 placeholder="10.000,00"
                 value={targetAmount}
                 onChange={(e) => setTargetAmount(e.target.value)}
-                className="pl-10"
                 required
               />
+              <CurrencySelect
+                value={currency}
+                onValueChange={setPickedCurrency}
+                aria-label={t('finances.currency')}
+              />
             </div>
           </div>
 
@@ -154,6 +177,33 @@ export function GoalForm({ trigger, onSuccess }: GoalFormProps) {
             />
           </div>
 
+          {/* Expenses in this category are contributed automatically */}
+          <div className="space-y-2">
+            <Label>{t('finances.goals.contributionCategory')}</Label>
+            <Select value={contributionCategoryId} onValueChange={setContributionCategoryId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CATEGORY}>{t('finances.goals.noContributionCategory')}</SelectItem>
+                {categories.map((cat) => (
+                  <SelectItem key={cat.id} value={cat.id}>
+                    <div className="flex items-center gap-2">
+                      <div
+                        className="h-3 w-3 rounded-full"
+                        style={{ backgroundColor: cat.color }}
+                      />
+                      {t(cat.nameKey)}
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {t('finances.goals.contributionCategoryHint')}
+            </p>
+          </div>
+
           {/* Color */}
           <div className="space-y-2">
             <Label>{t('finances.goals.color')}</Label>
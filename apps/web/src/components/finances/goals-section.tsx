@@ -1,15 +1,26 @@
 'use client'
 
+import { useEffect, useRef } from 'react'
 import { useTranslations } from 'next-intl'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { GoalForm } from './goal-form'
 import { GoalCard } from './goal-card'
-import { useFinancialGoals } from '@/hooks/queries/use-finances'
+import { useFinancialGoals, useSyncGoalContributions } from '@/hooks/queries/use-finances'
 import { Target, Loader2 } from 'lucide-react'
 
 export function GoalsSection() {
   const t = useTranslations()
   const { data: goals = [], isLoading } = useFinancialGoals()
+  const syncContributions = useSyncGoalContributions()
+  const hasSynced = useRef(false)
+
+  // Pick up expenses recorded in contribution categories since the last scheduled run
+  const hasPlannedGoals = goals.some((g) => g.contributionCategoryId && !g.completedAt)
+  useEffect(() => {
+    if (!hasPlannedGoals || hasSynced.current) return
+    hasSynced.current = true
+    syncContributions.mutate()
+  }, [hasPlannedGoals, syncContributions])
 
   // Sort: incomplete first, then by creation date
   const sortedGoals = [...goals].sort((a, b) => {
@@ -0,0 +1,244 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useSettings } from '@/hooks/queries/use-settings'
+import { useImportPreview, useImportTransactions } from '@/hooks/queries/use-finances'
+import { getCategoriesByType } from '@/config/finance-categories'
+import { decodeStatement, parseStatement, CSV_PRESETS } from '@/lib/bank-import'
+import { formatCurrency } from '@/lib/finances'
+import { cn, formatLocalDate } from '@/lib/utils'
+import type { CsvPresetId, ImportedTransaction, ImportPreviewRow } from '@/types/finances'
+import { Upload } from 'lucide-react'
+import { toast } from 'sonner'
+
+const AUTO_PRESET = 'auto'
+const PRESET_IDS = Object.keys(CSV_PRESETS) as CsvPresetId[]
+
+export function ImportTransactionsDialog() {
+  const t = useTranslations()
+  const { data: settings } = useSettings()
+  const importPreview = useImportPreview()
+  const importTransactions = useImportTransactions()
+
+  const currency = settings?.currency ?? 'BRL'
+  const [open, setOpen] = useState(false)
+  const [preset, setPreset] = useState<CsvPresetId | typeof AUTO_PRESET>(AUTO_PRESET)
+  const [rows, setRows] = useState<ImportPreviewRow[]>([])
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [categoryIds, setCategoryIds] = useState<Record<ImportedTransaction['type'], string>>({
+    expense: 'other-expense',
+    income: 'other-income',
+  })
+
+  const reset = () => {
+    setRows([])
+    setSelected(new Set())
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+
+    try {
+      const content = decodeStatement(new Uint8Array(await file.arrayBuffer()))
+      const imported = parseStatement(
+        content,
+        preset === AUTO_PRESET ? undefined : CSV_PRESETS[preset]
+      )
+      const preview = await importPreview.mutateAsync(imported)
+      setRows(preview)
+      // Likely duplicates start unchecked
+      setSelected(
+        new Set(preview.flatMap((row, index) => (row.duplicateOfId ? [] : [index])))
+      )
+    } catch (error) {
+      console.error('Failed to parse statement:', error)
+      toast.error(t('finances.import.parseError'))
+      reset()
+    }
+  }
+
+  const toggleRow = (index: number, checked: boolean) => {
+    const next = new Set(selected)
+    if (checked) {
+      next.add(index)
+    } else {
+      next.delete(index)
+    }
+    setSelected(next)
+  }
+
+  const handleImport = async () => {
+    const transactions = rows
+      .filter((_, index) => selected.has(index))
+      .map(({ transaction }) => ({
+        type: transaction.type,
+        amount: transaction.amount,
+        categoryId: categoryIds[transaction.type],
+        description: transaction.description,
+        date: transaction.date,
+        externalId: transaction.externalId,
+        isRecurring: false,
+      }))
+
+    try {
+      await importTransactions.mutateAsync(transactions)
+      toast.success(t('finances.import.success', { count: transactions.length }))
+      reset()
+      setOpen(false)
+    } catch (error) {
+      console.error('Failed to import transactions:', error)
+      toast.error(t('finances.import.error'))
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value)
+        if (!value) reset()
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title={t('finances.import.title')}>
+          <Upload className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] max-w-[calc(100vw-2rem)] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t('finances.import.title')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <p className="text-sm text-muted-foreground">{t('finances.import.description')}</p>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t('finances.import.format')}</Label>
+              <Select
+                value={preset}
+                onValueChange={(value) => setPreset(value as CsvPresetId | typeof AUTO_PRESET)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_PRESET}>{t('finances.import.formatAuto')}</SelectItem>
+                  {PRESET_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {t(`finances.import.presets.${id}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statementFile">{t('finances.import.file')}</Label>
+              <Input
+                id="statementFile"
+                type="file"
+                accept=".ofx,.qfx,.csv,.txt"
+                disabled={importPreview.isPending}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {(['expense', 'income'] as const).map((type) => (
+                  <div key={type} className="space-y-2">
+                    <Label>
+                      {t('finances.category')} ({t(`finances.${type}`)})
+                    </Label>
+                    <Select
+                      value={categoryIds[type]}
+                      onValueChange={(value) =>
+                        setCategoryIds((prev) => ({ ...prev, [type]: value }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getCategoriesByType(type).map((cat) => (
+                          <SelectItem key={cat.id} value={cat.id}>
+                            {t(cat.nameKey)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="max-h-80 space-y-1 overflow-y-auto rounded-lg border p-2">
+                {rows.map(({ transaction, duplicateOfId }, index) => (
+                  <label
+                    key={index}
+                    className="flex cursor-pointer items-center gap-3 rounded-md p-2 hover:bg-accent/50"
+                  >
+                    <Checkbox
+                      checked={selected.has(index)}
+                      onCheckedChange={(checked) => toggleRow(index, checked === true)}
+                    />
+                    <span className="w-16 shrink-0 text-xs text-muted-foreground">
+                      {formatLocalDate(transaction.date, 'pt-BR', {
+                        day: '2-digit',
+                        month: 'short',
+                      })}
+                    </span>
+                    <span className="flex-1 truncate text-sm">{transaction.description}</span>
+                    {duplicateOfId && (
+                      <Badge variant="outline" className="shrink-0 text-xs">
+                        {t('finances.import.duplicate')}
+                      </Badge>
+                    )}
+                    <span
+                      className={cn(
+                        'shrink-0 text-sm font-medium',
+                        transaction.type === 'expense' ? 'text-red-500' : 'text-green-500'
+                      )}
+                    >
+                      {transaction.type === 'expense' ? '-' : '+'}
+                      {formatCurrency(transaction.amount, currency)}
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <Button
+                className="w-full"
+                onClick={handleImport}
+                disabled={selected.size === 0 || importTransactions.isPending}
+              >
+                {t('finances.import.submit', { count: selected.size })}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,10 +1,22 @@
 export { TransactionForm } from './transaction-form'
+export { ImportTransactionsDialog } from './import-transactions-dialog'
+export { CategorizationRulesDialog } from './categorization-rules-dialog'
 export { TransactionCard } from './transaction-card'
 export { TransactionList } from './transaction-list'
 export { BalanceSummary } from './balance-summary'
 export { CategoryBreakdown } from './category-breakdown'
 export { MonthlyChart } from './monthly-chart'
+export { CashFlowForecast } from './cash-flow-forecast'
 export { GoalForm } from './goal-form'
 export { GoalCard } from './goal-card'
 export { GoalsSection } from './goals-section'
+export { AccountForm } from './account-form'
+export { AccountsSection } from './accounts-section'
+export { CreditCardStatementDialog } from './credit-card-statement'
+export { BudgetForm } from './budget-form'
+export { BudgetsSection } from './budgets-section'
+export { OccurrenceForm } from './occurrence-form'
+export { UpcomingBills } from './upcoming-bills'
+export { ExchangeRatesDialog } from './exchange-rates-dialog'
 export { InvestmentCalculator } from './investment-calculator'
+export { InvestmentPortfolio } from './investment-portfolio'
@@ -0,0 +1,208 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useSettings } from '@/hooks/queries/use-settings'
+import {
+  useAccounts,
+  useCreateInvestmentAsset,
+  useUpdateInvestmentAsset,
+} from '@/hooks/queries/use-finances'
+import { CurrencySelect } from './currency-select'
+import type { CurrencyCode, InvestmentAsset, InvestmentAssetType } from '@/types/finances'
+import { Plus, TrendingUp } from 'lucide-react'
+
+export const INVESTMENT_ASSET_TYPES: InvestmentAssetType[] = [
+  'stock',
+  'fund',
+  'fixed_income',
+  'crypto',
+  'other',
+]
+
+const NO_ACCOUNT = 'none'
+
+interface InvestmentAssetFormProps {
+  trigger?: React.ReactNode
+  /** Asset to edit (if provided, form enters edit mode; remount with a key to switch assets) */
+  asset?: InvestmentAsset
+  open?: boolean
+  onOpenChange?: (open: boolean) => void
+}
+
+export function InvestmentAssetForm({
+  trigger,
+  asset,
+  open: controlledOpen,
+  onOpenChange,
+}: InvestmentAssetFormProps) {
+  const t = useTranslations()
+  const { data: settings } = useSettings()
+  const { data: accounts = [] } = useAccounts()
+  const createAsset = useCreateInvestmentAsset()
+  const updateAsset = useUpdateInvestmentAsset()
+
+  const isEditMode = !!asset
+  const [internalOpen, setInternalOpen] = useState(false)
+  const open = controlledOpen !== undefined ? controlledOpen : internalOpen
+  const setOpen = onOpenChange || setInternalOpen
+
+  const [name, setName] = useState(asset?.name ?? '')
+  const [ticker, setTicker] = useState(asset?.ticker ?? '')
+  const [type, setType] = useState<InvestmentAssetType>(asset?.type ?? 'stock')
+  const [pickedCurrency, setPickedCurrency] = useState<CurrencyCode | undefined>(asset?.currency)
+  const [accountId, setAccountId] = useState(asset?.accountId ?? NO_ACCOUNT)
+
+  const currency = pickedCurrency ?? settings?.currency ?? 'BRL'
+  const investmentAccounts = accounts.filter((a) => a.type === 'investment' && !a.isArchived)
+
+  function resetForm() {
+    if (!isEditMode) {
+      setName('')
+      setTicker('')
+      setType('stock')
+      setPickedCurrency(undefined)
+      setAccountId(NO_ACCOUNT)
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!name.trim()) return
+
+    const data = {
+      name: name.trim(),
+      ticker: ticker.trim().toUpperCase() || undefined,
+      type,
+      currency,
+      accountId: accountId !== NO_ACCOUNT ? accountId : undefined,
+    }
+
+    try {
+      if (isEditMode && asset) {
+        await updateAsset.mutateAsync({ id: asset.id, updates: data })
+      } else {
+        await createAsset.mutateAsync(data)
+      }
+      resetForm()
+      setOpen(false)
+    } catch (error) {
+      console.error('Failed to save asset:', error)
+    }
+  }
+
+  const isSubmitting = createAsset.isPending || updateAsset.isPending
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {trigger !== null && (
+        <DialogTrigger asChild>
+          {trigger || (
+            <Button variant="outline" size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              {t('finances.investments.addAsset')}
+            </Button>
+          )}
+        </DialogTrigger>
+      )}
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            {isEditMode ? t('finances.investments.editAsset') : t('finances.investments.addAsset')}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-[1fr_7rem] gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="assetName">{t('finances.investments.name')}</Label>
+              <Input
+                id="assetName"
+                placeholder={t('finances.investments.namePlaceholder')}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assetTicker">{t('finances.investments.ticker')}</Label>
+              <Input
+                id="assetTicker"
+                placeholder="PETR4"
+                value={ticker}
+                onChange={(e) => setTicker(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-[1fr_6.5rem] gap-2">
+            <div className="space-y-2">
+              <Label>{t('finances.investments.type')}</Label>
+              <Select value={type} onValueChange={(v) => setType(v as InvestmentAssetType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVESTMENT_ASSET_TYPES.map((assetType) => (
+                    <SelectItem key={assetType} value={assetType}>
+                      {t(`finances.investments.types.${assetType}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('finances.currency')}</Label>
+              <CurrencySelect value={currency} onValueChange={setPickedCurrency} />
+            </div>
+          </div>
+
+          {/* Investment account the trades move money into and out of */}
+          <div className="space-y-2">
+            <Label>{t('finances.investments.account')}</Label>
+            <Select value={accountId} onValueChange={setAccountId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ACCOUNT}>{t('finances.investments.noAccount')}</SelectItem>
+                {investmentAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{t('finances.investments.accountHint')}</p>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting
+              ? t('common.saving')
+              : isEditMode
+                ? t('finances.saveChanges')
+                : t('finances.investments.createAsset')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
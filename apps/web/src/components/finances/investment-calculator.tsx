@@ -15,8 +15,14 @@ import {
 } from '@/components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useSettings } from '@/hooks/queries/use-settings'
+import {
+  useCreateInvestmentSimulation,
+  useDeleteInvestmentSimulation,
+  useInvestmentSimulations,
+} from '@/hooks/queries/use-finances'
 import { formatCurrency, calculateCompoundInterest } from '@/lib/finances'
-import type { CompoundingFrequency } from '@/types/finances'
+import { getEffectiveAnnualRate } from '@/lib/investments'
+import type { CompoundingFrequency, InvestmentSimulation, YieldIndex } from '@/types/finances'
 import {
   LineChart,
   Line,
@@ -29,7 +35,17 @@ import {
   AreaChart,
   Legend,
 } from 'recharts'
-import { Calculator, TrendingUp, PiggyBank, Percent } from 'lucide-react'
+import { Calculator, TrendingUp, PiggyBank, Percent, Save, X } from 'lucide-react'
+
+const YIELD_INDEXES: YieldIndex[] = ['fixed', 'cdi', 'ipca']
+
+function parseDecimal(value: string): number {
+  return parseFloat(value.replace(',', '.'))
+}
+
+function formatDecimal(value: number): string {
+  return String(value).replace('.', ',')
+}
 
 export function InvestmentCalculator() {
   const t = useTranslations()
@@ -42,21 +58,60 @@ export function InvestmentCalculator() {
   const [periodYears, setPeriodYears] = useState('10')
   const [compoundingFrequency, setCompoundingFrequency] =
     useState<CompoundingFrequency>('monthly')
+  const [yieldIndex, setYieldIndex] = useState<YieldIndex>('fixed')
+  const [indexRate, setIndexRate] = useState('')
+  const [simulationName, setSimulationName] = useState('')
+
+  const { data: simulations = [] } = useInvestmentSimulations()
+  const createSimulation = useCreateInvestmentSimulation()
+  const deleteSimulation = useDeleteInvestmentSimulation()
+
+  const effectiveRate = getEffectiveAnnualRate({
+    yieldIndex,
+    annualRate: parseDecimal(annualRate) || 0,
+    indexRate: parseDecimal(indexRate) || 0,
+  })
 
   const result = useMemo(() => {
-    const principal = parseFloat(initialAmount.replace(',', '.')) || 0
-    const monthly = parseFloat(monthlyContribution.replace(',', '.')) || 0
-    const rate = parseFloat(annualRate.replace(',', '.')) || 0
+    const principal = parseDecimal(initialAmount) || 0
+    const monthly = parseDecimal(monthlyContribution) || 0
     const years = parseInt(periodYears) || 1
 
     return calculateCompoundInterest(
       principal,
       monthly,
-      rate,
+      effectiveRate,
       years,
       compoundingFrequency
     )
-  }, [initialAmount, monthlyContribution, annualRate, periodYears, compoundingFrequency])
+  }, [initialAmount, monthlyContribution, effectiveRate, periodYears, compoundingFrequency])
+
+  const loadSimulation = (simulation: InvestmentSimulation) => {
+    setInitialAmount(formatDecimal(simulation.initialAmount))
+    setMonthlyContribution(formatDecimal(simulation.monthlyContribution))
+    setAnnualRate(formatDecimal(simulation.annualRate))
+    setPeriodYears(String(simulation.periodYears))
+    setCompoundingFrequency(simulation.compoundingFrequency)
+    setYieldIndex(simulation.yieldIndex)
+    setIndexRate(simulation.indexRate !== undefined ? formatDecimal(simulation.indexRate) : '')
+    setSimulationName(simulation.name)
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!simulationName.trim()) return
+
+    createSimulation.mutate({
+      name: simulationName.trim(),
+      initialAmount: parseDecimal(initialAmount) || 0,
+      monthlyContribution: parseDecimal(monthlyContribution) || 0,
+      annualRate: parseDecimal(annualRate) || 0,
+      periodYears: parseInt(periodYears) || 1,
+      compoundingFrequency,
+      yieldIndex,
+      indexRate: yieldIndex !== 'fixed' ? parseDecimal(indexRate) || 0 : undefined,
+    })
+  }
 
   const chartData = result.yearlyBreakdown.map((item) => ({
     year: `${item.year}`,
@@ -74,6 +129,31 @@ export function InvestmentCalculator() {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* Saved Simulations */}
+        {simulations.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {simulations.map((simulation) => (
+              <div
+                key={simulation.id}
+                className="flex items-center rounded-full border pl-3 text-sm"
+              >
+                <button type="button" onClick={() => loadSimulation(simulation)}>
+                  {simulation.name}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 rounded-full text-muted-foreground hover:text-destructive"
+                  onClick={() => deleteSimulation.mutate(simulation.id)}
+                  aria-label={t('common.delete')}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Input Form */}
         <div className="grid gap-4 sm:grid-cols-2">
           {/* Initial Amount */}
@@ -110,9 +190,45 @@ export function InvestmentCalculator() {
             </div>
           </div>
 
+          {/* Yield Index */}
+          <div className="space-y-2">
+            <Label>{t('finances.calculator.yieldIndex')}</Label>
+            <Select value={yieldIndex} onValueChange={(v) => setYieldIndex(v as YieldIndex)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {YIELD_INDEXES.map((index) => (
+                  <SelectItem key={index} value={index}>
+                    {t(`finances.calculator.yieldIndexes.${index}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Expected CDI or IPCA */}
+          {yieldIndex !== 'fixed' && (
+            <div className="space-y-2">
+              <Label>{t(`finances.calculator.indexRate.${yieldIndex}`)}</Label>
+              <div className="relative">
+                <Input
+                  type="text"
+                  inputMode="decimal"
+                  value={indexRate}
+                  onChange={(e) => setIndexRate(e.target.value)}
+                  className="pr-8"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                  %
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Annual Rate */}
           <div className="space-y-2">
-            <Label>{t('finances.calculator.annualRate')}</Label>
+            <Label>{t(`finances.calculator.rateLabel.${yieldIndex}`)}</Label>
             <div className="relative">
               <Input
                 type="text"
@@ -127,6 +243,26 @@ export function InvestmentCalculator() {
             </div>
           </div>
 
+          {/* Compounding */}
+          <div className="space-y-2">
+            <Label>{t('finances.calculator.compounding')}</Label>
+            <Select
+              value={compoundingFrequency}
+              onValueChange={(v) => setCompoundingFrequency(v as CompoundingFrequency)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(['monthly', 'quarterly', 'yearly'] as const).map((frequency) => (
+                  <SelectItem key={frequency} value={frequency}>
+                    {t(`finances.calculator.compoundingFrequencies.${frequency}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Period */}
           <div className="space-y-2">
             <Label>{t('finances.calculator.period')}</Label>
@@ -146,6 +282,12 @@ export function InvestmentCalculator() {
           </div>
         </div>
 
+        {yieldIndex !== 'fixed' && (
+          <p className="text-sm text-muted-foreground">
+            {t('finances.calculator.effectiveRate', { rate: effectiveRate.toFixed(2) })}
+          </p>
+        )}
+
         {/* Results Summary */}
         <div className="grid gap-3 sm:grid-cols-3">
           <div className="rounded-lg bg-primary/10 p-4 text-center">
@@ -179,6 +321,23 @@ export function InvestmentCalculator() {
           </div>
         </div>
 
+        {/* Save Simulation */}
+        <form onSubmit={handleSave} className="flex gap-2">
+          <Input
+            placeholder={t('finances.calculator.simulationName')}
+            value={simulationName}
+            onChange={(e) => setSimulationName(e.target.value)}
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={!simulationName.trim() || createSimulation.isPending}
+          >
+            <Save className="mr-2 h-4 w-4" />
+            {t('finances.calculator.save')}
+          </Button>
+        </form>
+
         {/* Chart */}
         <Tabs defaultValue="chart">
           <TabsList className="grid w-full grid-cols-2">
@@ -0,0 +1,272 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useAccounts, useCreateInvestmentEvent } from '@/hooks/queries/use-finances'
+import { useSettings } from '@/hooks/queries/use-settings'
+import { formatCurrency, getTodayString } from '@/lib/finances'
+import { getEventAmount } from '@/lib/investments'
+import type { InvestmentAsset, InvestmentEventType } from '@/types/finances'
+import { ArrowRightLeft } from 'lucide-react'
+
+const EVENT_TYPES: InvestmentEventType[] = ['buy', 'sell', 'dividend']
+
+function parseDecimal(value: string): number {
+  return parseFloat(value.replace(',', '.'))
+}
+
+interface InvestmentEventFormProps {
+  /** Asset the event belongs to (remount with a key to switch assets) */
+  asset: InvestmentAsset
+  /** Units currently held, sells cannot exceed it */
+  held: number
+  defaultType?: InvestmentEventType
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function InvestmentEventForm({
+  asset,
+  held,
+  defaultType = 'buy',
+  open,
+  onOpenChange,
+}: InvestmentEventFormProps) {
+  const t = useTranslations()
+  const { data: settings } = useSettings()
+  const { data: accounts = [] } = useAccounts()
+  const createEvent = useCreateInvestmentEvent()
+  const currency = asset.currency ?? settings?.currency ?? 'BRL'
+
+  const [type, setType] = useState<InvestmentEventType>(defaultType)
+  const [date, setDate] = useState(getTodayString())
+  const [quantity, setQuantity] = useState('')
+  const [price, setPrice] = useState('')
+  const [fees, setFees] = useState('')
+  const [dividend, setDividend] = useState('')
+  const [note, setNote] = useState('')
+  const [recordTransaction, setRecordTransaction] = useState(false)
+  const [accountId, setAccountId] = useState('')
+
+  const isDividend = type === 'dividend'
+  const units = parseDecimal(quantity)
+  const unitPrice = parseDecimal(price)
+  const feeAmount = fees ? parseDecimal(fees) : 0
+  const amount = isDividend
+    ? parseDecimal(dividend)
+    : getEventAmount(type, units, unitPrice, feeAmount)
+
+  // Trades are transfers into or out of the asset's account, so they need one
+  const canRecord = isDividend || !!asset.accountId
+  const cashAccounts = accounts.filter((a) => !a.isArchived && a.id !== asset.accountId)
+  const exceedsHeld = type === 'sell' && units > held
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+
+    if (isDividend) {
+      if (isNaN(amount) || amount <= 0) return
+    } else if (isNaN(units) || units <= 0 || isNaN(unitPrice) || isNaN(feeAmount) || exceedsHeld) {
+      return
+    }
+    if (amount < 0) return
+
+    const label = asset.ticker ?? asset.name
+
+    try {
+      await createEvent.mutateAsync({
+        event: {
+          assetId: asset.id,
+          type,
+          date,
+          quantity: isDividend ? 0 : units,
+          price: isDividend ? 0 : unitPrice,
+          fees: isDividend ? 0 : feeAmount,
+          amount,
+          note: note.trim() || undefined,
+        },
+        transaction:
+          recordTransaction && canRecord
+            ? {
+                asset,
+                accountId: accountId || undefined,
+                description: `${t(`finances.investments.events.${type}`)} ${label}`,
+              }
+            : undefined,
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save investment event:', error)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            {asset.ticker ? `${asset.ticker} · ${asset.name}` : asset.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Tabs value={type} onValueChange={(v) => setType(v as InvestmentEventType)}>
+            <TabsList className="grid w-full grid-cols-3">
+              {EVENT_TYPES.map((eventType) => (
+                <TabsTrigger key={eventType} value={eventType}>
+                  {t(`finances.investments.events.${eventType}`)}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <div className="space-y-2">
+            <Label htmlFor="eventDate">{t('finances.date')}</Label>
+            <Input
+              id="eventDate"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              required
+            />
+          </div>
+
+          {isDividend ? (
+            <div className="space-y-2">
+              <Label htmlFor="eventDividend">{t('finances.amount')}</Label>
+              <Input
+                id="eventDividend"
+                type="text"
+                inputMode="decimal"
+                placeholder="0,00"
+                value={dividend}
+                onChange={(e) => setDividend(e.target.value)}
+                required
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="eventQuantity">{t('finances.investments.quantity')}</Label>
+                <Input
+                  id="eventQuantity"
+                  type="text"
+                  inputMode="decimal"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="eventPrice">{t('finances.investments.price')}</Label>
+                <Input
+                  id="eventPrice"
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="eventFees">{t('finances.investments.fees')}</Label>
+                <Input
+                  id="eventFees"
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  value={fees}
+                  onChange={(e) => setFees(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {exceedsHeld && (
+            <p className="text-sm text-destructive">
+              {t('finances.investments.exceedsHeld', { quantity: held })}
+            </p>
+          )}
+
+          {!isDividend && !isNaN(amount) && (
+            <div className="flex items-center justify-between rounded-lg bg-muted/50 p-3 text-sm">
+              <span className="text-muted-foreground">{t('finances.investments.eventTotal')}</span>
+              <span className="font-semibold">{formatCurrency(amount, currency)}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="eventNote">{t('finances.investments.note')}</Label>
+            <Input id="eventNote" value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+
+          {/* Money moved by the event */}
+          <div className="space-y-3 rounded-lg border p-3">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <Label htmlFor="recordTransaction">
+                  {t('finances.investments.recordTransaction')}
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  {canRecord
+                    ? t(`finances.investments.recordHint.${type}`)
+                    : t('finances.investments.needsAccount')}
+                </p>
+              </div>
+              <Switch
+                id="recordTransaction"
+                checked={recordTransaction && canRecord}
+                onCheckedChange={setRecordTransaction}
+                disabled={!canRecord}
+              />
+            </div>
+            {recordTransaction && canRecord && (
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t('finances.accounts.select')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {cashAccounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={
+              createEvent.isPending || (recordTransaction && canRecord && !isDividend && !accountId)
+            }
+          >
+            {createEvent.isPending ? t('common.saving') : t('finances.investments.saveEvent')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
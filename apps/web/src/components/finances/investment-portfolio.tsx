@@ -0,0 +1,378 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { InvestmentAssetForm } from './investment-asset-form'
+import { InvestmentEventForm } from './investment-event-form'
+import { InvestmentPriceForm } from './investment-price-form'
+import {
+  useCurrencyConversion,
+  useDeleteInvestmentAsset,
+  useDeleteInvestmentEvent,
+  useInvestmentEvents,
+  usePortfolio,
+} from '@/hooks/queries/use-finances'
+import { useSettingsStore } from '@/stores/settings'
+import { formatCurrency } from '@/lib/finances'
+import { cn, formatLocalDate } from '@/lib/utils'
+import type {
+  InvestmentAsset,
+  InvestmentEventType,
+  InvestmentPosition,
+} from '@/types/finances'
+import {
+  Briefcase,
+  Loader2,
+  Minus,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Coins,
+  Tag,
+  Trash2,
+} from 'lucide-react'
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+
+const HIDDEN_VALUE = '••••••'
+const RECENT_EVENTS = 8
+
+function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString('pt-BR', { maximumFractionDigits: 8 })
+}
+
+export function InvestmentPortfolio() {
+  const t = useTranslations()
+  const conversion = useCurrencyConversion()
+  const { data: portfolio, isLoading } = usePortfolio(12)
+  const { data: events = [] } = useInvestmentEvents()
+  const deleteAsset = useDeleteInvestmentAsset()
+  const deleteEvent = useDeleteInvestmentEvent()
+  const hideBalances = useSettingsStore((state) => state.hideBalances) ?? false
+  const currency = conversion.baseCurrency
+
+  const [editingAsset, setEditingAsset] = useState<InvestmentAsset | undefined>()
+  const [eventTarget, setEventTarget] = useState<
+    { position: InvestmentPosition; type: InvestmentEventType } | undefined
+  >()
+  const [pricing, setPricing] = useState<InvestmentPosition | undefined>()
+
+  const { positions, summary, history } = portfolio
+  // Assets sold out are kept apart; new ones, with no events yet, stay on top
+  const tradedIds = new Set(events.map((e) => e.assetId))
+  const held = positions.filter((p) => p.quantity > 0 || !tradedIds.has(p.asset.id))
+  const soldOut = positions.filter((p) => p.quantity === 0 && tradedIds.has(p.asset.id))
+
+  const chartData = useMemo(
+    () =>
+      history.map((point) => {
+        const [year, month] = point.month.split('-')
+        const date = new Date(parseInt(year), parseInt(month) - 1)
+
+        return {
+          month: date.toLocaleDateString('pt-BR', { month: 'short' }),
+          value: point.value,
+          invested: point.invested,
+        }
+      }),
+    [history]
+  )
+
+  const assetById = new Map(positions.map((p) => [p.asset.id, p.asset]))
+  const recentEvents = [...events]
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))
+    .slice(0, RECENT_EVENTS)
+
+  const money = (amount: number, code = currency) =>
+    hideBalances ? HIDDEN_VALUE : formatCurrency(amount, code)
+
+  const renderPosition = (position: InvestmentPosition) => {
+    const { asset } = position
+    const assetCurrency = asset.currency ?? currency
+
+    return (
+      <div key={asset.id} className="flex items-center gap-3 rounded-lg border p-3">
+        <div className="min-w-0 flex-1">
+          <p className="truncate font-medium">
+            {asset.ticker ? `${asset.ticker} · ${asset.name}` : asset.name}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {t(`finances.investments.types.${asset.type}`)} ·{' '}
+            {formatQuantity(position.quantity)} ×{' '}
+            {position.price !== undefined ? money(position.price, assetCurrency) : '—'}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="font-semibold">{money(position.marketValue, assetCurrency)}</p>
+          <p
+            className={cn(
+              'text-xs',
+              position.totalReturn >= 0 ? 'text-green-500' : 'text-red-500'
+            )}
+          >
+            {position.returnPercentage >= 0 ? '+' : ''}
+            {position.returnPercentage.toFixed(2)}%
+          </p>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-8 w-8">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => setEventTarget({ position, type: 'buy' })}>
+              <Plus className="mr-2 h-4 w-4" />
+              {t('finances.investments.events.buy')}
+            </DropdownMenuItem>
+            {position.quantity > 0 && (
+              <DropdownMenuItem onClick={() => setEventTarget({ position, type: 'sell' })}>
+                <Minus className="mr-2 h-4 w-4" />
+                {t('finances.investments.events.sell')}
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={() => setEventTarget({ position, type: 'dividend' })}>
+              <Coins className="mr-2 h-4 w-4" />
+              {t('finances.investments.events.dividend')}
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setPricing(position)}>
+              <Tag className="mr-2 h-4 w-4" />
+              {t('finances.investments.updatePrice')}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setEditingAsset(asset)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              {t('common.edit')}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              className="text-destructive"
+              onClick={() => deleteAsset.mutate(asset.id)}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              {t('common.delete')}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Briefcase className="h-5 w-5" />
+          {t('finances.investments.title')}
+        </CardTitle>
+        <InvestmentAssetForm />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : positions.length === 0 ? (
+          <div className="py-8 text-center">
+            <Briefcase className="mx-auto h-12 w-12 text-muted-foreground/50" />
+            <p className="mt-4 text-muted-foreground">{t('finances.investments.empty')}</p>
+            <p className="text-sm text-muted-foreground">{t('finances.investments.emptyHint')}</p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="rounded-lg bg-blue-500/10 p-3 text-center">
+                <p className="text-xs text-muted-foreground">
+                  {t('finances.investments.marketValue')}
+                </p>
+                <p className="text-lg font-bold text-blue-500">{money(summary.marketValue)}</p>
+              </div>
+              <div
+                className={cn(
+                  'rounded-lg p-3 text-center',
+                  summary.totalReturn >= 0 ? 'bg-green-500/10' : 'bg-red-500/10'
+                )}
+              >
+                <p className="text-xs text-muted-foreground">
+                  {t('finances.investments.totalReturn')}
+                </p>
+                <p
+                  className={cn(
+                    'text-lg font-bold',
+                    summary.totalReturn >= 0 ? 'text-green-500' : 'text-red-500'
+                  )}
+                >
+                  {money(summary.totalReturn)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {summary.returnPercentage.toFixed(2)}%
+                </p>
+              </div>
+              <div className="rounded-lg bg-primary/10 p-3 text-center">
+                <p className="text-xs text-muted-foreground">
+                  {t('finances.investments.dividends')}
+                </p>
+                <p className="text-lg font-bold">{money(summary.dividends)}</p>
+              </div>
+            </div>
+
+            {/* Value over time */}
+            {!hideBalances && events.length > 0 && (
+              <div className="h-[200px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" vertical={false} />
+                    <XAxis
+                      dataKey="month"
+                      tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                      axisLine={{ stroke: 'var(--border)' }}
+                      tickLine={false}
+                    />
+                    <YAxis
+                      tick={{ fill: 'var(--muted-foreground)', fontSize: 12 }}
+                      axisLine={false}
+                      tickLine={false}
+                      tickFormatter={(value) => {
+                        if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`
+                        if (value >= 1000) return `${(value / 1000).toFixed(0)}k`
+                        return value.toString()
+                      }}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: 'var(--card)',
+                        border: '1px solid var(--border)',
+                        borderRadius: '8px',
+                        color: 'var(--card-foreground)',
+                      }}
+                      labelStyle={{ color: 'var(--card-foreground)' }}
+                      itemStyle={{ color: 'var(--card-foreground)' }}
+                      formatter={(value) => formatCurrency(value as number, currency)}
+                    />
+                    <Legend wrapperStyle={{ color: 'var(--foreground)' }} />
+                    <Area
+                      type="monotone"
+                      dataKey="invested"
+                      name={t('finances.investments.invested')}
+                      stroke="#3b82f6"
+                      fill="#3b82f6"
+                      fillOpacity={0.2}
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="value"
+                      name={t('finances.investments.value')}
+                      stroke="#22c55e"
+                      fill="#22c55e"
+                      fillOpacity={0.3}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            {/* Positions */}
+            <div className="space-y-2">{held.map(renderPosition)}</div>
+            {soldOut.length > 0 && (
+              <div className="space-y-2 pt-2">
+                <p className="text-sm font-medium text-muted-foreground">
+                  {t('finances.investments.soldOut')}
+                </p>
+                {soldOut.map(renderPosition)}
+              </div>
+            )}
+
+            {/* Recent events */}
+            {recentEvents.length > 0 && (
+              <div className="space-y-2 border-t pt-4">
+                <p className="text-sm font-medium">{t('finances.investments.recentEvents')}</p>
+                {recentEvents.map((event) => {
+                  const asset = assetById.get(event.assetId)
+
+                  return (
+                    <div key={event.id} className="flex items-center gap-3 text-sm">
+                      <span className="w-14 shrink-0 text-xs text-muted-foreground">
+                        {formatLocalDate(event.date, 'pt-BR', { day: '2-digit', month: 'short' })}
+                      </span>
+                      <span className="flex-1 truncate">
+                        {t(`finances.investments.events.${event.type}`)}{' '}
+                        {asset?.ticker ?? asset?.name}
+                        {event.type !== 'dividend' && (
+                          <span className="text-muted-foreground">
+                            {' '}
+                            · {formatQuantity(event.quantity)}
+                          </span>
+                        )}
+                      </span>
+                      <span
+                        className={cn(
+                          'font-medium',
+                          event.type === 'buy' ? 'text-red-500' : 'text-green-500'
+                        )}
+                      >
+                        {money(event.amount, asset?.currency ?? currency)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => deleteEvent.mutate(event.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <InvestmentAssetForm
+        key={editingAsset?.id}
+        trigger={null}
+        asset={editingAsset}
+        open={!!editingAsset}
+        onOpenChange={(open) => !open && setEditingAsset(undefined)}
+      />
+
+      {eventTarget && (
+        <InvestmentEventForm
+          key={`${eventTarget.position.asset.id}-${eventTarget.type}`}
+          asset={eventTarget.position.asset}
+          held={eventTarget.position.quantity}
+          defaultType={eventTarget.type}
+          open
+          onOpenChange={(open) => !open && setEventTarget(undefined)}
+        />
+      )}
+
+      {pricing && (
+        <InvestmentPriceForm
+          key={pricing.asset.id}
+          position={pricing}
+          open
+          onOpenChange={(open) => !open && setPricing(undefined)}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useUpdateInvestmentPrice } from '@/hooks/queries/use-finances'
+import { getTodayString } from '@/lib/finances'
+import type { InvestmentPosition } from '@/types/finances'
+import { Tag } from 'lucide-react'
+
+interface InvestmentPriceFormProps {
+  /** Position whose price is updated (remount with a key to switch positions) */
+  position: InvestmentPosition
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Manual price update; prices are kept per day to chart the portfolio over time
+export function InvestmentPriceForm({ position, open, onOpenChange }: InvestmentPriceFormProps) {
+  const t = useTranslations()
+  const updatePrice = useUpdateInvestmentPrice()
+
+  const [price, setPrice] = useState(
+    position.price !== undefined ? String(position.price).replace('.', ',') : ''
+  )
+  const [date, setDate] = useState(getTodayString())
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+
+    const value = parseFloat(price.replace(',', '.'))
+    if (isNaN(value) || value < 0 || !date) return
+
+    try {
+      await updatePrice.mutateAsync({ assetId: position.asset.id, price: value, date })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to update price:', error)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            {t('finances.investments.updatePrice')}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="assetPrice">{t('finances.investments.price')}</Label>
+              <Input
+                id="assetPrice"
+                type="text"
+                inputMode="decimal"
+                placeholder="0,00"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assetPriceDate">{t('finances.date')}</Label>
+              <Input
+                id="assetPriceDate"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={updatePrice.isPending}>
+            {updatePrice.isPending ? t('common.saving') : t('finances.saveChanges')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
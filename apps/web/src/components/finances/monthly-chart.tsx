@@ -4,7 +4,7 @@ import { useMemo } from 'react'
 import { useTranslations } from 'next-intl'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { useSettings } from '@/hooks/queries/use-settings'
-import { useTransactions } from '@/hooks/queries/use-finances'
+import { useCurrencyConversion, useTransactions } from '@/hooks/queries/use-finances'
 import {
   formatCurrency,
   getLastNMonths,
@@ -29,13 +29,14 @@ export function MonthlyChart({ months = 6 }: MonthlyChartProps) {
   const t = useTranslations()
   const { data: settings } = useSettings()
   const { data: transactions = [] } = useTransactions()
+  const conversion = useCurrencyConversion()
   const currency = settings?.currency ?? 'BRL'
 
   const chartData = useMemo(() => {
     const lastMonths = getLastNMonths(months)
 
     return lastMonths.map((month) => {
-      const balance = calculateMonthlyBalance(transactions, month)
+      const balance = calculateMonthlyBalance(transactions, month, conversion)
       const [year, monthNum] = month.split('-')
       const date = new Date(parseInt(year), parseInt(monthNum) - 1)
       const monthName = date.toLocaleDateString('pt-BR', { month: 'short' })
@@ -48,7 +49,7 @@ export function MonthlyChart({ months = 6 }: MonthlyChartProps) {
         balance: balance.balance,
       }
     })
-  }, [transactions, months])
+  }, [transactions, months, conversion])
 
   const hasData = chartData.some((d) => d.income > 0 || d.expenses > 0)
 
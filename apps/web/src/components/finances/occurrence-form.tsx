@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useUpsertRecurrenceException } from '@/hooks/queries/use-finances'
+import { formatLocalDate } from '@/lib/utils'
+import type { RecurringOccurrence } from '@/types/finances'
+import { CalendarClock } from 'lucide-react'
+
+interface OccurrenceFormProps {
+  /** Occurrence to edit (remount with a key to switch occurrences) */
+  occurrence?: RecurringOccurrence
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Edits a single occurrence of a recurring transaction, leaving the others as they are
+export function OccurrenceForm({ occurrence, open, onOpenChange }: OccurrenceFormProps) {
+  const t = useTranslations()
+  const upsertException = useUpsertRecurrenceException()
+
+  const [amount, setAmount] = useState(
+    occurrence ? String(occurrence.amount).replace('.', ',') : ''
+  )
+  const [description, setDescription] = useState(occurrence?.description ?? '')
+  const [date, setDate] = useState(occurrence?.date ?? '')
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    if (!occurrence) return
+
+    const value = parseFloat(amount.replace(',', '.'))
+    if (isNaN(value) || value <= 0 || !date) return
+
+    const { transaction } = occurrence
+
+    try {
+      // Only what differs from the recurring transaction is stored
+      await upsertException.mutateAsync({
+        transactionId: transaction.id,
+        occurrenceDate: occurrence.occurrenceDate,
+        changes: {
+          amount: value !== transaction.amount ? value : undefined,
+          description: description !== transaction.description ? description : undefined,
+          date: date !== occurrence.occurrenceDate ? date : undefined,
+        },
+      })
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to save occurrence:', error)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[calc(100vw-2rem)] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            {t('finances.upcomingBills.editOccurrence')}
+          </DialogTitle>
+        </DialogHeader>
+
+        {occurrence && (
+          <p className="text-sm text-muted-foreground">
+            {t('finances.upcomingBills.editHint', {
+              date: formatLocalDate(occurrence.occurrenceDate, 'pt-BR', {
+                day: '2-digit',
+                month: 'short',
+              }),
+            })}
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="occurrenceDescription">{t('finances.description')}</Label>
+            <Input
+              id="occurrenceDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="occurrenceAmount">{t('finances.amount')}</Label>
+              <Input
+                id="occurrenceAmount"
+                type="text"
+                inputMode="decimal"
+                placeholder="0,00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="occurrenceDate">{t('finances.date')}</Label>
+              <Input
+                id="occurrenceDate"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={upsertException.isPending}>
+            {upsertException.isPending ? t('common.saving') : t('finances.saveChanges')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -12,10 +12,14 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import { useSettings } from '@/hooks/queries/use-settings'
-import { useDeleteTransaction } from '@/hooks/queries/use-finances'
+import {
+  useAccounts,
+  useCurrencyConversion,
+  useDeleteTransaction,
+  useDeleteInstallments,
+} from '@/hooks/queries/use-finances'
 import { getCategoryById } from '@/config/finance-categories'
-import { formatCurrency } from '@/lib/finances'
+import { findExchangeRate, formatCurrency, isForeignCurrency } from '@/lib/finances'
 import { TransactionForm } from './transaction-form'
 import type { Transaction } from '@/types/finances'
 import {
@@ -24,6 +28,7 @@ import {
   Repeat,
   ArrowDownCircle,
   ArrowUpCircle,
+  ArrowRightLeft,
   Pencil,
 } from 'lucide-react'
 import { cn, formatLocalDate } from '@/lib/utils'
@@ -34,14 +39,25 @@ interface TransactionCardProps {
 
 export function TransactionCard({ transaction }: TransactionCardProps) {
   const t = useTranslations()
-  const { data: settings } = useSettings()
+  const conversion = useCurrencyConversion()
   const deleteTransactionMutation = useDeleteTransaction()
+  const deleteInstallmentsMutation = useDeleteInstallments()
+  const { data: accounts = [] } = useAccounts()
   const [editDialogOpen, setEditDialogOpen] = useState(false)
 
-  const currency = settings?.currency ?? 'BRL'
+  const { baseCurrency } = conversion
+  const currency = transaction.currency ?? baseCurrency
+  // Foreign amounts also show their value in the base currency
+  const rate = isForeignCurrency(transaction, baseCurrency)
+    ? findExchangeRate(conversion.rates, currency, baseCurrency, transaction.date)
+    : undefined
   const category = getCategoryById(transaction.categoryId)
 
   const isExpense = transaction.type === 'expense'
+  const isTransfer = transaction.type === 'transfer'
+  const accountName = (id?: string) => accounts.find((a) => a.id === id)?.name
+  const account = accountName(transaction.accountId)
+  const { installment } = transaction
 
   return (
     <Card className="p-3">
@@ -50,10 +66,12 @@ export function TransactionCard({ transaction }: TransactionCardProps) {
         <div
           className={cn(
             'flex h-10 w-10 items-center justify-center rounded-full',
-            isExpense ? 'bg-red-500/10' : 'bg-green-500/10'
+            isTransfer ? 'bg-blue-500/10' : isExpense ? 'bg-red-500/10' : 'bg-green-500/10'
           )}
         >
-          {isExpense ? (
+          {isTransfer ? (
+            <ArrowRightLeft className="h-5 w-5 text-blue-500" />
+          ) : isExpense ? (
             <ArrowDownCircle className="h-5 w-5 text-red-500" />
           ) : (
             <ArrowUpCircle className="h-5 w-5 text-green-500" />
@@ -64,11 +82,19 @@ export function TransactionCard({ transaction }: TransactionCardProps) {
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2">
             <p className="font-medium truncate">
-              {transaction.description || t(category?.nameKey || 'finances.transaction')}
+              {transaction.description ||
+                (isTransfer
+                  ? t('finances.transfer')
+                  : t(category?.nameKey || 'finances.transaction'))}
             </p>
             {transaction.isRecurring && (
               <Repeat className="h-3.5 w-3.5 text-muted-foreground" />
             )}
+            {installment && (
+              <Badge variant="outline" className="shrink-0 text-xs">
+                {installment.number}/{installment.count}
+              </Badge>
+            )}
           </div>
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             {category && (
@@ -83,6 +109,14 @@ export function TransactionCard({ transaction }: TransactionCardProps) {
                 {t(category.nameKey)}
               </Badge>
             )}
+            {isTransfer ? (
+              <span className="truncate">
+                {account ?? '?'} →{' '}
+                {accountName(transaction.toAccountId) ?? '?'}
+              </span>
+            ) : (
+              account && <span className="truncate">{account}</span>
+            )}
             <span>
               {formatLocalDate(transaction.date, 'pt-BR', {
                 day: '2-digit',
@@ -97,12 +131,19 @@ export function TransactionCard({ transaction }: TransactionCardProps) {
           <p
             className={cn(
               'font-semibold',
-              isExpense ? 'text-red-500' : 'text-green-500'
+              isTransfer ? 'text-blue-500' : isExpense ? 'text-red-500' : 'text-green-500'
             )}
           >
-            {isExpense ? '-' : '+'}
+            {isTransfer ? '' : isExpense ? '-' : '+'}
             {formatCurrency(transaction.amount, currency)}
           </p>
+          {currency !== baseCurrency && (
+            <p className="text-xs text-muted-foreground">
+              {rate !== undefined
+                ? `≈ ${formatCurrency(transaction.amount * rate, baseCurrency)}`
+                : t('finances.exchangeRates.noRate')}
+            </p>
+          )}
         </div>
 
         {/* Actions */}
@@ -125,6 +166,15 @@ export function TransactionCard({ transaction }: TransactionCardProps) {
               <Trash2 className="mr-2 h-4 w-4" />
               {t('common.delete')}
             </DropdownMenuItem>
+            {installment && (
+              <DropdownMenuItem
+                className="text-destructive"
+                onClick={() => deleteInstallmentsMutation.mutate(installment.groupId)}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                {t('finances.installments.deleteAll', { count: installment.count })}
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
 
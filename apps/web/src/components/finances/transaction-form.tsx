@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useTranslations } from 'next-intl'
 import {
   Dialog,
@@ -24,11 +24,25 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { useSettings } from '@/hooks/queries/use-settings'
-import { useCreateTransaction, useUpdateTransaction } from '@/hooks/queries/use-finances'
-import { getCategoriesByType, PAYMENT_METHODS } from '@/config/finance-categories'
-import { getTodayString } from '@/lib/finances'
-import type { Transaction, TransactionType, RecurrenceFrequency } from '@/types/finances'
-import { Plus, ArrowDownCircle, ArrowUpCircle } from 'lucide-react'
+import {
+  useCreateTransaction,
+  useCreateCardPurchase,
+  useUpdateTransaction,
+  useTransactions,
+  useAccounts,
+} from '@/hooks/queries/use-finances'
+import { getCategoriesByType, getCategoryById, PAYMENT_METHODS } from '@/config/finance-categories'
+import { formatCurrency, getTodayString, TRANSFER_CATEGORY_ID } from '@/lib/finances'
+import { getStatementMonth, isCreditCardAccount } from '@/lib/credit-card'
+import { suggestCategory, UNCATEGORIZED_CATEGORY_IDS } from '@/lib/categorization'
+import { CurrencySelect } from './currency-select'
+import type {
+  Transaction,
+  TransactionType,
+  RecurrenceFrequency,
+  CurrencyCode,
+} from '@/types/finances'
+import { Plus, ArrowDownCircle, ArrowUpCircle, ArrowRightLeft, Sparkles } from 'lucide-react'
 
 interface TransactionFormProps {
   trigger?: React.ReactNode
@@ -50,6 +64,8 @@ const RECURRENCE_OPTIONS: { value: RecurrenceFrequency; labelKey: string }[] = [
   { value: 'yearly', labelKey: 'finances.recurrence.yearly' },
 ]
 
+const MAX_INSTALLMENTS = 24
+
 export function TransactionForm({
   trigger,
   defaultType = 'expense',
@@ -61,9 +77,12 @@ export function TransactionForm({
   const t = useTranslations()
   const { data: settings } = useSettings()
   const createTransaction = useCreateTransaction()
+  const createCardPurchase = useCreateCardPurchase()
   const updateTransactionMutation = useUpdateTransaction()
+  const { data: history = [] } = useTransactions()
+  const { data: allAccounts = [] } = useAccounts()
 
-  const currency = settings?.currency ?? 'BRL'
+  const baseCurrency = settings?.currency ?? 'BRL'
   const isEditMode = !!transaction
   const [internalOpen, setInternalOpen] = useState(false)
 
@@ -73,10 +92,17 @@ export function TransactionForm({
 
   const [type, setType] = useState<TransactionType>(transaction?.type || defaultType)
   const [amount, setAmount] = useState<number>(transaction?.amount || 0)
+  // Unset until picked: follows the account, then the base currency
+  const [pickedCurrency, setPickedCurrency] = useState<CurrencyCode | undefined>(
+    transaction?.currency
+  )
   const [categoryId, setCategoryId] = useState(transaction?.categoryId || '')
   const [description, setDescription] = useState(transaction?.description || '')
   const [date, setDate] = useState(transaction?.date || getTodayString())
   const [paymentMethod, setPaymentMethod] = useState(transaction?.paymentMethod || '')
+  const [accountId, setAccountId] = useState(transaction?.accountId || '')
+  const [toAccountId, setToAccountId] = useState(transaction?.toAccountId || '')
+  const [installments, setInstallments] = useState(1)
   const [isRecurring, setIsRecurring] = useState(transaction?.isRecurring || false)
   const [recurrenceFrequency, setRecurrenceFrequency] =
     useState<RecurrenceFrequency>(transaction?.recurrence?.frequency || 'monthly')
@@ -86,25 +112,53 @@ export function TransactionForm({
     if (transaction) {
       setType(transaction.type)
       setAmount(transaction.amount)
+      setPickedCurrency(transaction.currency)
       setCategoryId(transaction.categoryId)
       setDescription(transaction.description)
       setDate(transaction.date)
       setPaymentMethod(transaction.paymentMethod || '')
+      setAccountId(transaction.accountId || '')
+      setToAccountId(transaction.toAccountId || '')
       setIsRecurring(transaction.isRecurring)
       setRecurrenceFrequency(transaction.recurrence?.frequency || 'monthly')
     }
   }, [transaction])
 
   const categories = getCategoriesByType(type)
+  const isTransfer = type === 'transfer'
+  // Archived accounts stay selectable on transactions that already use them
+  const accounts = allAccounts.filter(
+    (a) => !a.isArchived || a.id === transaction?.accountId || a.id === transaction?.toAccountId
+  )
+  const selectedAccount = accounts.find((a) => a.id === accountId)
+  const currency = pickedCurrency ?? selectedAccount?.currency ?? baseCurrency
+  const isCardPurchase = type === 'expense' && selectedAccount?.type === 'credit_card'
+  // Purchases and refunds on a card are billed in the statement of their date
+  const card =
+    !isTransfer && selectedAccount && isCreditCardAccount(selectedAccount)
+      ? selectedAccount
+      : undefined
+
+  // Learn from how similar descriptions were categorized before
+  const suggestion = useMemo(
+    () =>
+      categoryId || type === 'transfer' ? null : suggestCategory(description, type, history),
+    [categoryId, description, type, history]
+  )
+  const suggestedCategory = suggestion ? getCategoryById(suggestion.categoryId) : undefined
 
   function resetForm() {
     if (!isEditMode) {
       setType(defaultType)
       setAmount(0)
+      setPickedCurrency(undefined)
       setCategoryId('')
       setDescription('')
       setDate(getTodayString())
       setPaymentMethod('')
+      setAccountId('')
+      setToAccountId('')
+      setInstallments(1)
       setIsRecurring(false)
       setRecurrenceFrequency('monthly')
     }
@@ -119,15 +173,28 @@ export function TransactionForm({
     e.preventDefault()
 
     if (amount <= 0) return
-    if (!categoryId) return
+    if (isTransfer && (!accountId || !toAccountId || accountId === toAccountId)) return
+    if (!isTransfer && !categoryId && isEditMode) return
 
     const transactionData = {
       type,
       amount,
-      categoryId,
+      currency,
+      // Left empty, the categorization rules pick the category on create
+      categoryId: isTransfer
+        ? TRANSFER_CATEGORY_ID
+        : categoryId || UNCATEGORIZED_CATEGORY_IDS[type],
       description,
       date,
-      paymentMethod: paymentMethod || undefined,
+      paymentMethod: type === 'expense' ? paymentMethod || undefined : undefined,
+      accountId: accountId || undefined,
+      toAccountId: isTransfer ? toAccountId : undefined,
+      // Installments keep the statement they were split into
+      statementMonth: transaction?.installment
+        ? transaction.statementMonth
+        : card
+          ? getStatementMonth(date, card)
+          : undefined,
       isRecurring,
       recurrence: isRecurring
         ? { frequency: recurrenceFrequency }
@@ -141,6 +208,12 @@ export function TransactionForm({
           id: transaction.id,
           updates: transactionData,
         })
+      } else if (isCardPurchase && selectedAccount && !isRecurring) {
+        await createCardPurchase.mutateAsync({
+          purchase: transactionData,
+          card: selectedAccount,
+          installments,
+        })
       } else {
         // Add new transaction
         await createTransaction.mutateAsync(transactionData)
@@ -154,7 +227,10 @@ export function TransactionForm({
     }
   }
 
-  const isSubmitting = createTransaction.isPending || updateTransactionMutation.isPending
+  const isSubmitting =
+    createTransaction.isPending ||
+    createCardPurchase.isPending ||
+    updateTransactionMutation.isPending
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -181,7 +257,9 @@ export function TransactionForm({
             value={type}
             onValueChange={(v) => handleTypeChange(v as TransactionType)}
           >
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList
+              className={`grid w-full ${accounts.length > 1 || isTransfer ? 'grid-cols-3' : 'grid-cols-2'}`}
+            >
               <TabsTrigger value="expense" className="gap-2">
                 <ArrowDownCircle className="h-4 w-4 text-red-500" />
                 {t('finances.expense')}
@@ -190,43 +268,115 @@ export function TransactionForm({
                 <ArrowUpCircle className="h-4 w-4 text-green-500" />
                 {t('finances.income')}
               </TabsTrigger>
+              {/* Transfers need two accounts to move money between */}
+              {(accounts.length > 1 || isTransfer) && (
+                <TabsTrigger value="transfer" className="gap-2">
+                  <ArrowRightLeft className="h-4 w-4 text-blue-500" />
+                  {t('finances.transfer')}
+                </TabsTrigger>
+              )}
             </TabsList>
           </Tabs>
 
           {/* Amount */}
           <div className="space-y-2">
             <Label htmlFor="amount">{t('finances.amount')}</Label>
-            <CurrencyInput
-              id="amount"
-              value={amount}
-              onChange={setAmount}
-              currency={currency as 'BRL' | 'USD' | 'EUR'}
-              required
-            />
+            <div className="grid grid-cols-[1fr_6.5rem] gap-2">
+              <CurrencyInput
+                id="amount"
+                value={amount}
+                onChange={setAmount}
+                currency={currency}
+                required
+              />
+              <CurrencySelect
+                value={currency}
+                onValueChange={setPickedCurrency}
+                aria-label={t('finances.currency')}
+              />
+            </div>
           </div>
 
+          {/* Accounts */}
+          {accounts.length > 0 && (
+            <div className={isTransfer ? 'grid grid-cols-2 gap-2' : 'space-y-2'}>
+              <div className="space-y-2">
+                <Label>
+                  {isTransfer ? t('finances.accounts.from') : t('finances.accounts.account')}
+                </Label>
+                <Select value={accountId} onValueChange={setAccountId} required={isTransfer}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t('finances.accounts.select')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {isTransfer && (
+                <div className="space-y-2">
+                  <Label>{t('finances.accounts.to')}</Label>
+                  <Select value={toAccountId} onValueChange={setToAccountId} required>
+                    <SelectTrigger>
+                      <SelectValue placeholder={t('finances.accounts.select')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {accounts
+                        .filter((account) => account.id !== accountId)
+                        .map((account) => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Category */}
-          <div className="space-y-2">
-            <Label>{t('finances.category')}</Label>
-            <Select value={categoryId} onValueChange={setCategoryId} required>
-              <SelectTrigger>
-                <SelectValue placeholder={t('finances.selectCategory')} />
-              </SelectTrigger>
-              <SelectContent>
-                {categories.map((cat) => (
-                  <SelectItem key={cat.id} value={cat.id}>
-                    <div className="flex items-center gap-2">
-                      <div
-                        className="h-3 w-3 rounded-full"
-                        style={{ backgroundColor: cat.color }}
-                      />
-                      {t(cat.nameKey)}
-                    </div>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          {!isTransfer && (
+            <div className="space-y-2">
+              <Label>{t('finances.category')}</Label>
+              <Select value={categoryId} onValueChange={setCategoryId} required={isEditMode}>
+                <SelectTrigger>
+                  <SelectValue
+                    placeholder={
+                      isEditMode ? t('finances.selectCategory') : t('finances.rules.automatic')
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((cat) => (
+                    <SelectItem key={cat.id} value={cat.id}>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="h-3 w-3 rounded-full"
+                          style={{ backgroundColor: cat.color }}
+                        />
+                        {t(cat.nameKey)}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {suggestedCategory && (
+                <button
+                  type="button"
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                  onClick={() => setCategoryId(suggestedCategory.id)}
+                >
+                  <Sparkles className="h-3 w-3" />
+                  {t('finances.rules.suggested', { category: t(suggestedCategory.nameKey) })}
+                </button>
+              )}
+            </div>
+          )}
 
           {/* Description */}
           <div className="space-y-2">
@@ -271,6 +421,33 @@ export function TransactionForm({
             </div>
           )}
 
+          {/* Installments (new credit card purchases) */}
+          {isCardPurchase && !isEditMode && !isRecurring && (
+            <div className="space-y-2">
+              <Label>{t('finances.installments.label')}</Label>
+              <Select
+                value={String(installments)}
+                onValueChange={(v) => setInstallments(Number(v))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_INSTALLMENTS }, (_, index) => index + 1).map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count === 1
+                        ? t('finances.installments.single')
+                        : t('finances.installments.option', {
+                            count,
+                            amount: formatCurrency(amount / count, currency),
+                          })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Recurring */}
           <div className="flex items-center justify-between rounded-lg border p-3">
             <div>
@@ -318,7 +495,9 @@ export function TransactionForm({
                 ? t('finances.saveChanges')
                 : type === 'expense'
                   ? t('finances.addExpense')
-                  : t('finances.addIncome')}
+                  : isTransfer
+                    ? t('finances.addTransfer')
+                    : t('finances.addIncome')}
           </Button>
         </form>
       </DialogContent>
@@ -0,0 +1,141 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { OccurrenceForm } from './occurrence-form'
+import { useSettings } from '@/hooks/queries/use-settings'
+import {
+  useDeleteRecurrenceException,
+  useUpcomingBills,
+  useUpsertRecurrenceException,
+} from '@/hooks/queries/use-finances'
+import { getCategoryById } from '@/config/finance-categories'
+import { formatCurrency } from '@/lib/finances'
+import { cn, formatLocalDate } from '@/lib/utils'
+import type { RecurringOccurrence } from '@/types/finances'
+import { CalendarClock, MoreHorizontal, Pencil, RotateCcw, SkipForward } from 'lucide-react'
+
+interface UpcomingBillsProps {
+  days?: number
+}
+
+export function UpcomingBills({ days = 30 }: UpcomingBillsProps) {
+  const t = useTranslations()
+  const { data: settings } = useSettings()
+  const { data: bills } = useUpcomingBills(days)
+  const upsertException = useUpsertRecurrenceException()
+  const deleteException = useDeleteRecurrenceException()
+  const currency = settings?.currency ?? 'BRL'
+
+  const [editing, setEditing] = useState<RecurringOccurrence | undefined>()
+
+  const total = bills
+    .filter((b) => !b.skipped && (b.transaction.currency ?? currency) === currency)
+    .reduce((sum, b) => sum + b.amount, 0)
+
+  const handleSkip = (bill: RecurringOccurrence) => {
+    upsertException.mutate({
+      transactionId: bill.transaction.id,
+      occurrenceDate: bill.occurrenceDate,
+      changes: { skip: true },
+    })
+  }
+
+  const renderBill = (bill: RecurringOccurrence) => {
+    const category = getCategoryById(bill.transaction.categoryId)
+    const isEdited = !!bill.exception && !bill.skipped
+
+    return (
+      <div
+        key={`${bill.transaction.id}-${bill.occurrenceDate}`}
+        className={cn('flex items-center gap-3 rounded-lg border p-2 text-sm', bill.skipped && 'opacity-60')}
+      >
+        <span className="w-14 shrink-0 text-xs text-muted-foreground">
+          {formatLocalDate(bill.date, 'pt-BR', { day: '2-digit', month: 'short' })}
+        </span>
+        <div
+          className="h-3 w-3 shrink-0 rounded-full"
+          style={{ backgroundColor: category?.color ?? '#6b7280' }}
+        />
+        <span className={cn('flex-1 truncate', bill.skipped && 'line-through')}>
+          {bill.description}
+        </span>
+        {bill.skipped && <Badge variant="secondary">{t('finances.upcomingBills.skipped')}</Badge>}
+        {isEdited && <Badge variant="outline">{t('finances.upcomingBills.edited')}</Badge>}
+        <span className={cn('font-medium', bill.skipped && 'line-through')}>
+          {formatCurrency(bill.amount, bill.transaction.currency ?? currency)}
+        </span>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-8 w-8">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {!bill.skipped && (
+              <DropdownMenuItem onClick={() => setEditing(bill)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                {t('finances.upcomingBills.editOccurrence')}
+              </DropdownMenuItem>
+            )}
+            {!bill.skipped && (
+              <DropdownMenuItem onClick={() => handleSkip(bill)}>
+                <SkipForward className="mr-2 h-4 w-4" />
+                {t('finances.upcomingBills.skip')}
+              </DropdownMenuItem>
+            )}
+            {bill.exception && (
+              <DropdownMenuItem onClick={() => deleteException.mutate(bill.exception!.id)}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                {t('finances.upcomingBills.restore')}
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarClock className="h-5 w-5" />
+          {t('finances.upcomingBills.title', { days })}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {bills.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            {t('finances.upcomingBills.empty')}
+          </p>
+        ) : (
+          <>
+            {bills.map(renderBill)}
+
+            <div className="flex items-center justify-between border-t pt-3 text-sm">
+              <span className="text-muted-foreground">{t('finances.total')}</span>
+              <span className="font-semibold">{formatCurrency(total, currency)}</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <OccurrenceForm
+        key={editing ? `${editing.transaction.id}-${editing.occurrenceDate}` : undefined}
+        occurrence={editing}
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(undefined)}
+      />
+    </Card>
+  )
+}
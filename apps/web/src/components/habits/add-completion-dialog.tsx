@@ -50,7 +50,8 @@ export function AddCompletionDialog({ habit, children }: AddCompletionDialogProp
 
   const setCompletionMutation = useSetCompletionValue()
 
-  const isQuantitative = habit.tracking.type === 'quantitative'
+  // Avoid habits log how many slips happened that day
+  const hasValue = habit.tracking.type !== 'boolean'
   const today = getTodayString()
 
   // Check if there's already a completion for the selected date
@@ -64,9 +65,9 @@ export function AddCompletionDialog({ habit, children }: AddCompletionDialogProp
       return
     }
 
-    const numValue = isQuantitative ? parseFloat(value) : 1
+    const numValue = hasValue ? parseFloat(value) : 1
 
-    if (isQuantitative && (isNaN(numValue) || numValue <= 0)) {
+    if (hasValue && (isNaN(numValue) || numValue <= 0)) {
       toast.error(t('invalidValue'))
       return
     }
@@ -153,13 +154,32 @@ export function AddCompletionDialog({ habit, children }: AddCompletionDialogProp
             </div>
           )}
 
+          {habit.tracking.type === 'avoid' && (
+            <div className="space-y-2">
+              <Label htmlFor="completion-value">
+                {t('value')}{habit.tracking.unit && ` (${habit.tracking.unit})`}
+              </Label>
+              <Input
+                id="completion-value"
+                type="number"
+                min="1"
+                step="1"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t('dailyLimit')}: {habit.tracking.limit} {habit.tracking.unit}
+              </p>
+            </div>
+          )}
+
           {/* Warning if completion exists */}
           {existingCompletion && (
             <div className="rounded-lg bg-yellow-500/10 p-3 text-sm text-yellow-600 dark:text-yellow-500">
               {t('existingCompletionWarning', {
-                value: habit.tracking.type === 'quantitative'
-                  ? `${existingCompletion.value} ${habit.tracking.unit}`
-                  : ''
+                value: habit.tracking.type === 'boolean'
+                  ? ''
+                  : `${existingCompletion.value} ${habit.tracking.unit ?? ''}`.trim()
               })}
             </div>
           )}
@@ -0,0 +1,46 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { ShieldAlert } from 'lucide-react'
+import type { HabitCompletion } from '@/types'
+
+interface AvoidHabitInputProps {
+  limit: number
+  unit?: string
+  completion: HabitCompletion | undefined
+  onLogRelapse: () => void
+  disabled?: boolean
+}
+
+export function AvoidHabitInput({
+  limit,
+  unit,
+  completion,
+  onLogRelapse,
+  disabled,
+}: AvoidHabitInputProps) {
+  const t = useTranslations('habits')
+  const count = completion?.value ?? 0
+  const isOverLimit = count > limit
+
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        className={`text-xs ${isOverLimit ? 'font-medium text-red-500' : 'text-muted-foreground'}`}
+      >
+        {t('todayCount', { count, limit })} {unit}
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 gap-1 px-2 text-xs"
+        onClick={onLogRelapse}
+        disabled={disabled}
+      >
+        <ShieldAlert className="h-3.5 w-3.5" />
+        {t('logRelapse')}
+      </Button>
+    </div>
+  )
+}
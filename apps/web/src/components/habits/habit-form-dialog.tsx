@@ -23,8 +23,9 @@ import { toast } from 'sonner'
 import { PICKER_COLORS, getColorName } from '@/config/colors'
 
 const DAYS_OF_WEEK = [0, 1, 2, 3, 4, 5, 6] // Sun-Sat
+const WEEKS_OF_MONTH = [1, 2, 3, 4, -1] // -1 = last
 
-function getInitialFrequencyType(habit?: Habit): 'daily' | 'weekly' | 'specificDays' | 'monthly' {
+function getInitialFrequencyType(habit?: Habit): HabitFrequency['type'] {
   return habit?.frequency.type || 'daily'
 }
 
@@ -40,12 +41,28 @@ function getInitialTimesPerMonth(habit?: Habit): number {
   return habit?.frequency.type === 'monthly' ? habit.frequency.timesPerMonth : 10
 }
 
+function getInitialEveryDays(habit?: Habit): number {
+  return habit?.frequency.type === 'interval' ? habit.frequency.everyDays : 2
+}
+
+function getInitialNthWeekday(habit?: Habit): { week: number; weekday: number } {
+  return habit?.frequency.type === 'nthWeekday'
+    ? { week: habit.frequency.week, weekday: habit.frequency.weekday }
+    : { week: 1, weekday: 1 }
+}
+
 function getInitialTarget(habit?: Habit): number {
   return habit?.tracking.type === 'quantitative' ? habit.tracking.target : 1
 }
 
 function getInitialUnit(habit?: Habit): string {
-  return habit?.tracking.type === 'quantitative' ? habit.tracking.unit : ''
+  if (habit?.tracking.type === 'quantitative') return habit.tracking.unit
+  if (habit?.tracking.type === 'avoid') return habit.tracking.unit ?? ''
+  return ''
+}
+
+function getInitialLimit(habit?: Habit): number {
+  return habit?.tracking.type === 'avoid' ? habit.tracking.limit : 0
 }
 
 interface HabitFormDialogProps {
@@ -88,14 +105,17 @@ export function HabitFormDialog({ children, habit, defaultAreaId: propDefaultAre
   }, [areas])
 
   // Frequency state
-  const [frequencyType, setFrequencyType] = useState<'daily' | 'weekly' | 'specificDays' | 'monthly'>(getInitialFrequencyType(habit))
+  const [frequencyType, setFrequencyType] = useState<HabitFrequency['type']>(getInitialFrequencyType(habit))
   const [daysPerWeek, setDaysPerWeek] = useState(getInitialDaysPerWeek(habit))
   const [specificDays, setSpecificDays] = useState<number[]>(getInitialSpecificDays(habit))
   const [timesPerMonth, setTimesPerMonth] = useState(getInitialTimesPerMonth(habit))
+  const [everyDays, setEveryDays] = useState(getInitialEveryDays(habit))
+  const [nthWeekday, setNthWeekday] = useState(getInitialNthWeekday(habit))
 
   // Tracking state
-  const [trackingType, setTrackingType] = useState<'boolean' | 'quantitative'>(habit?.tracking.type || 'boolean')
+  const [trackingType, setTrackingType] = useState<HabitTracking['type']>(habit?.tracking.type || 'boolean')
   const [target, setTarget] = useState(getInitialTarget(habit))
+  const [limit, setLimit] = useState(getInitialLimit(habit))
   const [unit, setUnit] = useState(getInitialUnit(habit))
 
   const resetForm = () => {
@@ -111,8 +131,11 @@ export function HabitFormDialog({ children, habit, defaultAreaId: propDefaultAre
       setDaysPerWeek(getInitialDaysPerWeek(habit))
       setSpecificDays(getInitialSpecificDays(habit))
       setTimesPerMonth(getInitialTimesPerMonth(habit))
+      setEveryDays(getInitialEveryDays(habit))
+      setNthWeekday(getInitialNthWeekday(habit))
       setTrackingType(habit.tracking.type)
       setTarget(getInitialTarget(habit))
+      setLimit(getInitialLimit(habit))
       setUnit(getInitialUnit(habit))
     } else {
       // Reset to defaults for create mode
@@ -126,8 +149,11 @@ export function HabitFormDialog({ children, habit, defaultAreaId: propDefaultAre
       setDaysPerWeek(3)
       setSpecificDays([1, 3, 5])
       setTimesPerMonth(10)
+      setEveryDays(2)
+      setNthWeekday({ week: 1, weekday: 1 })
       setTrackingType('boolean')
       setTarget(1)
+      setLimit(0)
       setUnit('')
     }
   }
@@ -152,13 +178,25 @@ export function HabitFormDialog({ children, habit, defaultAreaId: propDefaultAre
       case 'monthly':
         frequency = { type: 'monthly', timesPerMonth }
         break
+      case 'interval':
+        frequency = { type: 'interval', everyDays }
+        break
+      case 'nthWeekday':
+        frequency = { type: 'nthWeekday', ...nthWeekday }
+        break
     }
 
     let tracking: HabitTracking
-    if (trackingType === 'boolean') {
-      tracking = { type: 'boolean' }
-    } else {
-      tracking = { type: 'quantitative', target, unit }
+    switch (trackingType) {
+      case 'boolean':
+        tracking = { type: 'boolean' }
+        break
+      case 'quantitative':
+        tracking = { type: 'quantitative', target, unit }
+        break
+      case 'avoid':
+        tracking = { type: 'avoid', limit, unit: unit.trim() || undefined }
+        break
     }
 
     try {
@@ -384,6 +422,10 @@ export function HabitFormDialog({ children, habit, defaultAreaId: propDefaultAre
                 <TabsTrigger value="specificDays">{t('frequencySpecificDays')}</TabsTrigger>
                 <TabsTrigger value="monthly">{t('frequencyMonthly')}</TabsTrigger>
               </TabsList>
+              <TabsList className="mt-1 grid w-full grid-cols-2">
+                <TabsTrigger value="interval">{t('frequencyInterval')}</TabsTrigger>
+                <TabsTrigger value="nthWeekday">{t('frequencyNthWeekday')}</TabsTrigger>
+              </TabsList>
 
               <TabsContent value="daily" className="mt-3">
                 <p className="text-sm text-muted-foreground">
@@ -438,6 +480,62 @@ export function HabitFormDialog({ children, habit, defaultAreaId: propDefaultAre
                   <span className="text-sm text-muted-foreground">x por mês</span>
                 </div>
               </TabsContent>
+
+              <TabsContent value="interval" className="mt-3 space-y-2">
+                <Label>{t('everyDays')}</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={everyDays}
+                    onChange={(e) => setEveryDays(Number(e.target.value))}
+                    className="w-20"
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    {t('everyNDays', { count: everyDays })}
+                  </span>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="nthWeekday" className="mt-3 space-y-2">
+                <Label>{t('selectWeek')}</Label>
+                <div className="flex gap-1">
+                  {WEEKS_OF_MONTH.map((week) => (
+                    <Button
+                      key={week}
+                      type="button"
+                      variant={nthWeekday.week === week ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-9 flex-1"
+                      onClick={() => setNthWeekday((prev) => ({ ...prev, week }))}
+                    >
+                      {t(week === -1 ? 'weekOrdinalLast' : `weekOrdinal${week}`)}
+                    </Button>
+                  ))}
+                </div>
+                <Label>{t('selectWeekday')}</Label>
+                <div className="flex gap-1">
+                  {DAYS_OF_WEEK.map((day) => (
+                    <Button
+                      key={day}
+                      type="button"
+                      variant={nthWeekday.weekday === day ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-9 w-9 p-0"
+                      onClick={() => setNthWeekday((prev) => ({ ...prev, weekday: day }))}
+                    >
+                      {tDays(dayLabels[day])[0]}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {t('nthWeekdayLabel', {
+                    week: t(nthWeekday.week === -1 ? 'weekOrdinalLast' : `weekOrdinal${nthWeekday.week}`),
+                    weekday: tDays(dayLabels[nthWeekday.weekday]),
+                  })}
+                </p>
+              </TabsContent>
             </Tabs>
           </div>
 
@@ -445,9 +543,10 @@ export function HabitFormDialog({ children, habit, defaultAreaId: propDefaultAre
           <div className="space-y-3">
             <Label>{t('trackingType')}</Label>
             <Tabs value={trackingType} onValueChange={(v) => setTrackingType(v as typeof trackingType)}>
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="boolean">{t('trackingBoolean')}</TabsTrigger>
                 <TabsTrigger value="quantitative">{t('trackingQuantitative')}</TabsTrigger>
+                <TabsTrigger value="avoid">{t('trackingAvoid')}</TabsTrigger>
               </TabsList>
 
               <TabsContent value="boolean" className="mt-3">
@@ -476,6 +575,28 @@ export function HabitFormDialog({ children, habit, defaultAreaId: propDefaultAre
                   />
                 </div>
               </TabsContent>
+
+              <TabsContent value="avoid" className="mt-3 space-y-3">
+                <p className="text-sm text-muted-foreground">{t('trackingAvoidDescription')}</p>
+                <div className="space-y-2">
+                  <Label>{t('dailyLimit')}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={limit}
+                    onChange={(e) => setLimit(Math.max(0, Number(e.target.value)))}
+                    placeholder="0"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('unit')}</Label>
+                  <Input
+                    value={unit}
+                    onChange={(e) => setUnit(e.target.value)}
+                    placeholder="cafés, cigarros..."
+                  />
+                </div>
+              </TabsContent>
             </Tabs>
           </div>
 
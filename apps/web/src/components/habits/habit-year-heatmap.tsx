@@ -2,10 +2,18 @@
 
 import { useMemo } from 'react'
 import { useSettingsStore } from '@/stores/settings'
-import type { Habit } from '@/types'
+import { isVacationDay } from '@/lib/habits'
+import type { Habit, Vacation } from '@/types'
+
+const FROZEN_COLOR = '#38bdf8'
+const RELAPSE_COLOR = '#ef4444'
+const VACATION_PATTERN =
+  'repeating-linear-gradient(45deg, var(--muted-foreground) 0 1px, transparent 1px 3px)'
 
 interface HabitYearHeatmapProps {
   habit: Habit
+  frozenDates?: string[]
+  vacations?: Pick<Vacation, 'startDate' | 'endDate'>[]
   weeks?: number
   cellSize?: number
   gap?: number
@@ -26,6 +34,8 @@ function formatDate(date: Date, locale: string): string {
 
 export function HabitYearHeatmap({
   habit,
+  frozenDates = [],
+  vacations = [],
   weeks = 52,
   cellSize = 10,
   gap = 2,
@@ -34,7 +44,14 @@ export function HabitYearHeatmap({
 
   const { days, months, completionMap } = useMemo(() => {
     const totalDays = weeks * 7
-    const days: { date: string; dayOfWeek: number; value: number }[] = []
+    const days: {
+      date: string
+      dayOfWeek: number
+      value: number
+      isFrozen: boolean
+      isVacation: boolean
+    }[] = []
+    const frozen = new Set(frozenDates)
     const monthLabels: { label: string; weekIndex: number }[] = []
     const completionMap = new Map<string, number>()
 
@@ -70,11 +87,13 @@ export function HabitYearHeatmap({
         date: dateStr,
         dayOfWeek,
         value: completionMap.get(dateStr) || 0,
+        isFrozen: frozen.has(dateStr),
+        isVacation: isVacationDay(dateStr, vacations),
       })
     }
 
     return { days, months: monthLabels, completionMap }
-  }, [habit.completions, weeks, locale])
+  }, [habit.completions, frozenDates, vacations, weeks, locale])
 
   // Group days into weeks (columns)
   const columns: (typeof days[number] | null)[][] = []
@@ -108,6 +127,11 @@ export function HabitYearHeatmap({
     locale === 'pt-BR'
       ? ['Dom', '', 'Ter', '', 'Qui', '', 'Sáb']
       : ['Sun', '', 'Tue', '', 'Thu', '', 'Sat']
+  const frozenLabel = locale === 'pt-BR' ? 'Congelado' : 'Frozen'
+  const vacationLabel = locale === 'pt-BR' ? 'Férias' : 'Vacation'
+  const relapseLabel = locale === 'pt-BR' ? 'Recaída' : 'Relapse'
+  const isAvoid = habit.tracking.type === 'avoid'
+  const hasRestDays = days.some((day) => day.isFrozen || day.isVacation)
 
   // Calculate max value for intensity scaling (for quantitative habits)
   const maxValue = Math.max(
@@ -119,7 +143,7 @@ export function HabitYearHeatmap({
     if (value === 0) return 0
     if (habit.tracking.type === 'boolean') return 1
     // For quantitative, scale from 0.3 to 1 based on value vs target
-    const target = habit.tracking.target || maxValue
+    const target = (habit.tracking.type === 'quantitative' && habit.tracking.target) || maxValue
     return Math.min(1, Math.max(0.3, value / target))
   }
 
@@ -179,8 +203,14 @@ export function HabitYearHeatmap({
                 }
 
                 const intensity = getIntensity(day.value)
-                const isCompleted = day.value > 0
+                // For avoid habits the logged value counts slips, so only relapses are drawn
+                const isRelapse =
+                  habit.tracking.type === 'avoid' && day.value > habit.tracking.limit
+                const isCompleted = !isAvoid && day.value > 0
                 const isToday = day.date === new Date().toISOString().split('T')[0]
+                // Rest days keep the streak alive, so they are drawn apart from misses
+                const isFrozen = !isCompleted && day.isFrozen
+                const isVacation = !isCompleted && !isFrozen && day.isVacation
 
                 return (
                   <div
@@ -193,15 +223,26 @@ export function HabitYearHeatmap({
                       height: cellSize,
                       backgroundColor: isCompleted
                         ? habit.color
-                        : 'var(--muted)',
-                      opacity: isCompleted ? intensity : 0.2,
+                        : isRelapse
+                          ? RELAPSE_COLOR
+                          : isFrozen
+                          ? FROZEN_COLOR
+                          : 'var(--muted)',
+                      backgroundImage: isVacation ? VACATION_PATTERN : undefined,
+                      opacity: isCompleted ? intensity : isRelapse ? 0.8 : isFrozen ? 0.6 : isVacation ? 0.5 : 0.2,
                     }}
                     title={`${formatDate(new Date(day.date), locale)}: ${
                       isCompleted
                         ? habit.tracking.type === 'quantitative'
                           ? `${day.value} ${habit.tracking.unit}`
                           : 'Completado'
-                        : 'Não completado'
+                        : isRelapse
+                          ? `${relapseLabel} (${day.value})`
+                          : isFrozen
+                          ? frozenLabel
+                          : isVacation
+                            ? vacationLabel
+                            : 'Não completado'
                     }`}
                   />
                 )
@@ -217,6 +258,45 @@ export function HabitYearHeatmap({
           {habit.completions.length} conclusões no último ano
         </span>
         <div className="flex items-center gap-2">
+          {isAvoid && (
+            <>
+              <div
+                className="rounded-sm"
+                style={{
+                  width: cellSize - 2,
+                  height: cellSize - 2,
+                  backgroundColor: RELAPSE_COLOR,
+                  opacity: 0.8,
+                }}
+              />
+              <span className="mr-2">{relapseLabel}</span>
+            </>
+          )}
+          {hasRestDays && (
+            <>
+              <div
+                className="rounded-sm"
+                style={{
+                  width: cellSize - 2,
+                  height: cellSize - 2,
+                  backgroundColor: FROZEN_COLOR,
+                  opacity: 0.6,
+                }}
+              />
+              <span>{frozenLabel}</span>
+              <div
+                className="rounded-sm"
+                style={{
+                  width: cellSize - 2,
+                  height: cellSize - 2,
+                  backgroundColor: 'var(--muted)',
+                  backgroundImage: VACATION_PATTERN,
+                  opacity: 0.5,
+                }}
+              />
+              <span className="mr-2">{vacationLabel}</span>
+            </>
+          )}
           <span>Menos</span>
           <div className="flex" style={{ gap: 2 }}>
             <div
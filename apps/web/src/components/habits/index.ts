@@ -1,6 +1,8 @@
 export { AddCompletionDialog } from './add-completion-dialog'
+export { AvoidHabitInput } from './avoid-habit-input'
 export { HabitFormDialog } from './habit-form-dialog'
 export { HabitHeatmap } from './habit-heatmap'
 export { HabitYearHeatmap } from './habit-year-heatmap'
 export { QuantitativeHabitInput } from './quantitative-habit-input'
 export { SortableHabitCard } from './sortable-habit-card'
+export { VacationsCard } from './vacations-card'
@@ -7,9 +7,12 @@ import { useTranslations } from 'next-intl'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { useHabitStreak } from '@/hooks/queries/use-gamification'
+import { isRelapse } from '@/lib/streaks'
 import { Flame, TrendingUp, GripVertical } from 'lucide-react'
 import type { Habit } from '@/types'
 
+const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const
+
 interface SortableHabitCardProps {
   habit: Habit
   last7Days: string[]
@@ -17,6 +20,7 @@ interface SortableHabitCardProps {
 
 export function SortableHabitCard({ habit, last7Days }: SortableHabitCardProps) {
   const t = useTranslations('habits')
+  const tDays = useTranslations('days')
   const { data: streak } = useHabitStreak(habit.id)
 
   const {
@@ -33,9 +37,14 @@ export function SortableHabitCard({ habit, last7Days }: SortableHabitCardProps)
     transition,
   }
 
-  const completionsThisWeek = habit.completions.filter((c) =>
-    last7Days.includes(c.date)
-  ).length
+  // Avoid habits succeed on every day without a relapse
+  const completionsThisWeek =
+    habit.tracking.type === 'avoid'
+      ? last7Days.filter((date) => {
+          const completion = habit.completions.find((c) => c.date === date)
+          return !completion || !isRelapse(habit.tracking, completion)
+        }).length
+      : habit.completions.filter((c) => last7Days.includes(c.date)).length
   const completionRate = Math.round((completionsThisWeek / 7) * 100)
 
   return (
@@ -85,6 +94,13 @@ export function SortableHabitCard({ habit, last7Days }: SortableHabitCardProps)
                     `${habit.frequency.days.length}x/sem`}
                   {habit.frequency.type === 'monthly' &&
                     `${habit.frequency.timesPerMonth}x/mês`}
+                  {habit.frequency.type === 'interval' &&
+                    t('everyNDays', { count: habit.frequency.everyDays })}
+                  {habit.frequency.type === 'nthWeekday' &&
+                    t('nthWeekdayLabel', {
+                      week: t(habit.frequency.week === -1 ? 'weekOrdinalLast' : `weekOrdinal${habit.frequency.week}`),
+                      weekday: tDays(DAY_KEYS[habit.frequency.weekday]),
+                    })}
                 </Badge>
               </div>
 
@@ -94,6 +110,11 @@ export function SortableHabitCard({ habit, last7Days }: SortableHabitCardProps)
                   Meta: <span className="font-medium text-foreground">{habit.tracking.target}</span> {habit.tracking.unit}
                 </p>
               )}
+              {habit.tracking.type === 'avoid' && (
+                <p className="mt-1.5 text-sm text-muted-foreground">
+                  {t('dailyLimit')}: <span className="font-medium text-foreground">{habit.tracking.limit}</span> {habit.tracking.unit}
+                </p>
+              )}
 
               {/* Streak and stats */}
               <div className="mt-3 flex items-center gap-4 text-sm">
@@ -101,8 +122,16 @@ export function SortableHabitCard({ habit, last7Days }: SortableHabitCardProps)
                   <div className="flex h-6 w-6 items-center justify-center rounded-md bg-orange-500/10">
                     <Flame className="h-3.5 w-3.5 text-orange-500" />
                   </div>
-                  <span className="font-medium">{streak?.currentStreak || 0}</span>
-                  <span className="text-muted-foreground">dias</span>
+                  {habit.tracking.type === 'avoid' ? (
+                    <span className="font-medium">
+                      {t('cleanDays', { count: streak?.currentStreak || 0 })}
+                    </span>
+                  ) : (
+                    <>
+                      <span className="font-medium">{streak?.currentStreak || 0}</span>
+                      <span className="text-muted-foreground">dias</span>
+                    </>
+                  )}
                 </div>
                 <div className="flex items-center gap-1.5">
                   <div className="flex h-6 w-6 items-center justify-center rounded-md bg-primary/10">
@@ -117,7 +146,8 @@ export function SortableHabitCard({ habit, last7Days }: SortableHabitCardProps)
               <div className="mt-4 flex gap-1.5">
                 {last7Days.map((date) => {
                   const completion = habit.completions.find((c) => c.date === date)
-                  const isCompleted = !!completion
+                  const relapsed = !!completion && isRelapse(habit.tracking, completion)
+                  const isCompleted = habit.tracking.type === 'avoid' ? !relapsed : !!completion
 
                   return (
                     <div
@@ -125,7 +155,9 @@ export function SortableHabitCard({ habit, last7Days }: SortableHabitCardProps)
                       className={`h-7 flex-1 rounded-lg transition-all duration-200 ${
                         isCompleted
                           ? 'shadow-sm'
-                          : 'bg-muted/50 group-hover:bg-muted'
+                          : relapsed
+                            ? 'bg-red-500/70'
+                            : 'bg-muted/50 group-hover:bg-muted'
                       }`}
                       style={{
                         backgroundColor: isCompleted ? habit.color : undefined,
@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations, useLocale } from 'next-intl'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useVacations, useCreateVacation, useDeleteVacation } from '@/hooks/queries/use-habits'
+import { parseLocalDate } from '@/lib/utils'
+import { Palmtree, Trash2 } from 'lucide-react'
+
+export function VacationsCard() {
+  const t = useTranslations('habits')
+  const locale = useLocale()
+  const { data: vacations = [] } = useVacations()
+  const createVacationMutation = useCreateVacation()
+  const deleteVacationMutation = useDeleteVacation()
+
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [note, setNote] = useState('')
+
+  const formatDate = (date: string) =>
+    parseLocalDate(date).toLocaleDateString(locale, { day: 'numeric', month: 'short', year: 'numeric' })
+
+  const handleAdd = () => {
+    if (!startDate || !endDate) return
+    if (endDate < startDate) {
+      toast.error(t('vacationInvalidRange'))
+      return
+    }
+
+    createVacationMutation.mutate(
+      { startDate, endDate, note: note.trim() || undefined },
+      {
+        onSuccess: () => {
+          setStartDate('')
+          setEndDate('')
+          setNote('')
+        },
+      }
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-3">
+          <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-sky-500/10">
+            <Palmtree className="h-5 w-5 text-sky-500" />
+          </div>
+          <CardTitle className="text-lg">{t('vacations')}</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">{t('vacationsDescription')}</p>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="vacation-start">{t('vacationStart')}</Label>
+            <Input
+              id="vacation-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="vacation-end">{t('vacationEnd')}</Label>
+            <Input
+              id="vacation-end"
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            placeholder={t('vacationNote')}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <Button
+            onClick={handleAdd}
+            disabled={!startDate || !endDate || createVacationMutation.isPending}
+            className="rounded-xl"
+          >
+            {t('addVacation')}
+          </Button>
+        </div>
+
+        {vacations.length > 0 && (
+          <ul className="space-y-2">
+            {vacations.map((vacation) => (
+              <li key={vacation.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1">
+                  {formatDate(vacation.startDate)} – {formatDate(vacation.endDate)}
+                  {vacation.note && (
+                    <span className="text-muted-foreground"> · {vacation.note}</span>
+                  )}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteVacationMutation.mutate(vacation.id)}
+                  title={t('deleteVacation')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
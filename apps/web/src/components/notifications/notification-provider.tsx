@@ -2,12 +2,13 @@
 
 import { useEffect, useRef } from 'react'
 import { useSettingsStore } from '@/stores/settings'
-import { useActiveHabits } from '@/hooks/queries/use-habits'
+import { useActiveHabits, useVacations } from '@/hooks/queries/use-habits'
 import { useTodayTasks } from '@/hooks/queries/use-tasks'
 import {
   sendDailySummary,
   getNotificationPermission,
 } from '@/lib/notifications'
+import { isHabitDueOn } from '@/lib/habits'
 
 function getTodayString(): string {
   return new Date().toISOString().split('T')[0]
@@ -20,6 +21,7 @@ export function NotificationProvider({
 }) {
   const notificationsEnabled = useSettingsStore((state) => state.notificationsEnabled)
   const { data: habits = [] } = useActiveHabits()
+  const { data: vacations = [] } = useVacations()
   const { tasks } = useTodayTasks()
   const lastNotificationDate = useRef<string | null>(null)
 
@@ -28,20 +30,13 @@ export function NotificationProvider({
     if (getNotificationPermission() !== 'granted') return
 
     const today = getTodayString()
-    const dayOfWeek = new Date().getDay()
 
     // Only send daily summary once per day
     if (lastNotificationDate.current === today) return
     lastNotificationDate.current = today
 
     // Calculate pending habits for today
-    const todayHabits = habits.filter((habit) => {
-      if (habit.frequency.type === 'daily') return true
-      if (habit.frequency.type === 'specificDays') {
-        return habit.frequency.days.includes(dayOfWeek)
-      }
-      return true
-    })
+    const todayHabits = habits.filter((habit) => isHabitDueOn(habit, today, vacations))
 
     const pendingHabits = todayHabits.filter(
       (habit) => !habit.completions.some((c) => c.date === today)
@@ -57,7 +52,7 @@ export function NotificationProvider({
         sendDailySummary(pendingHabits.length, pendingTasks.length)
       }, 2000)
     }
-  }, [notificationsEnabled, habits, tasks])
+  }, [notificationsEnabled, habits, vacations, tasks])
 
   return <>{children}</>
 }
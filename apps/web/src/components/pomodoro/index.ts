@@ -1,2 +1,4 @@
 export { PomodoroTimer } from './pomodoro-timer'
 export { PomodoroSettings } from './pomodoro-settings'
+export { PomodoroHistory } from './pomodoro-history'
+export { PomodoroFocusTarget } from './pomodoro-focus-target'
@@ -0,0 +1,77 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useTasks } from '@/hooks/queries/use-tasks'
+import { useActiveHabits } from '@/hooks/queries/use-habits'
+import { usePomodoroStore } from '@/stores/pomodoro'
+
+const NONE_VALUE = 'none'
+
+export function PomodoroFocusTarget() {
+  const t = useTranslations('studies')
+  const { status, focusTarget, setFocusTarget } = usePomodoroStore()
+  const { data: allTasks = [] } = useTasks()
+  const { data: habits = [] } = useActiveHabits()
+
+  const tasks = allTasks.filter((task) => task.status !== 'done')
+  // Minutes are logged as the habit's value, so only quantitative habits fit
+  const quantitativeHabits = habits.filter((h) => h.tracking.type === 'quantitative')
+
+  const value = focusTarget ? `${focusTarget.type}:${focusTarget.id}` : NONE_VALUE
+
+  const handleChange = (newValue: string) => {
+    if (newValue === NONE_VALUE) {
+      setFocusTarget(null)
+      return
+    }
+
+    const [type, id] = newValue.split(':') as ['task' | 'habit', string]
+    const source = type === 'task' ? tasks : quantitativeHabits
+    const item = source.find((i) => i.id === id)
+    if (item) {
+      setFocusTarget({ type, id, title: item.title })
+    }
+  }
+
+  return (
+    <Select value={value} onValueChange={handleChange} disabled={status === 'running'}>
+      <SelectTrigger className="w-full max-w-xs">
+        <SelectValue placeholder={t('focusTarget')}>
+          {focusTarget ? focusTarget.title : t('noFocusTarget')}
+        </SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE_VALUE}>{t('noFocusTarget')}</SelectItem>
+        {tasks.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>{t('focusTargetTasks')}</SelectLabel>
+            {tasks.map((task) => (
+              <SelectItem key={task.id} value={`task:${task.id}`}>
+                {task.title}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        {quantitativeHabits.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>{t('focusTargetHabits')}</SelectLabel>
+            {quantitativeHabits.map((habit) => (
+              <SelectItem key={habit.id} value={`habit:${habit.id}`}>
+                {habit.title}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { useTranslations, useLocale } from 'next-intl'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { usePomodoroSessions } from '@/hooks/queries/use-pomodoro'
+import { Timer } from 'lucide-react'
+
+const MAX_SESSIONS = 10
+
+export function PomodoroHistory() {
+  const t = useTranslations('studies')
+  const locale = useLocale()
+  const { data: sessions = [] } = usePomodoroSessions()
+
+  const recentSessions = sessions.slice(0, MAX_SESSIONS)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{t('recentSessions')}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {recentSessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('noSessionsYet')}</p>
+        ) : (
+          <ul className="space-y-3">
+            {recentSessions.map((session) => {
+              const completedAt = new Date(session.completedAt)
+
+              return (
+                <li key={session.id} className="flex items-center gap-3">
+                  <div className="rounded-lg bg-primary/10 p-2">
+                    <Timer className="h-4 w-4 text-primary" />
+                  </div>
+                  <span className="flex-1 text-sm">
+                    {completedAt.toLocaleDateString(locale, { day: 'numeric', month: 'short' })}
+                    {' · '}
+                    {completedAt.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <span className="text-sm font-medium">
+                    {t('sessionMinutes', { minutes: session.focusMinutes })}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useTranslations } from 'next-intl'
+import { ArrowRight, CheckCircle2, Circle, Lock } from 'lucide-react'
+import { getDependencyStages, getOpenBlockers } from '@/lib/tasks'
+import { cn } from '@/lib/utils'
+import type { Task } from '@/types'
+
+interface DependencyChainProps {
+  tasks: Task[]
+  color?: string
+}
+
+export function DependencyChain({ tasks, color }: DependencyChainProps) {
+  const t = useTranslations('tasks')
+  const stages = getDependencyStages(tasks)
+  const titleById = new Map(tasks.map((task) => [task.id, task.title]))
+
+  if (stages.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+        {t('noDependencies')}
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-stretch gap-2 overflow-x-auto pb-2">
+      {stages.map((stage, index) => (
+        <div key={index} className="flex items-stretch gap-2">
+          {index > 0 && (
+            <ArrowRight className="h-4 w-4 shrink-0 self-center text-muted-foreground" />
+          )}
+          <div className="min-w-[200px] space-y-2">
+            <p className="text-xs font-medium uppercase text-muted-foreground">
+              {t('dependencyStage', { stage: index + 1 })}
+            </p>
+            {stage.map((task) => {
+              const isDone = task.status === 'done'
+              const isBlocked = !isDone && getOpenBlockers(task, tasks).length > 0
+              const blockerTitles = task.blockedBy
+                .map((id) => titleById.get(id))
+                .filter(Boolean)
+                .join(', ')
+
+              return (
+                <div
+                  key={task.id}
+                  className={cn('rounded-lg border p-2', isBlocked && 'border-dashed')}
+                  style={{ borderLeftColor: color, borderLeftWidth: 3 }}
+                >
+                  <div className="flex items-center gap-2">
+                    {isDone ? (
+                      <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />
+                    ) : isBlocked ? (
+                      <Lock className="h-4 w-4 shrink-0 text-amber-600" />
+                    ) : (
+                      <Circle className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    )}
+                    <span
+                      className={cn(
+                        'truncate text-sm',
+                        isDone && 'text-muted-foreground line-through'
+                      )}
+                    >
+                      {task.title}
+                    </span>
+                  </div>
+                  {blockerTitles && (
+                    <p className="mt-1 truncate text-xs text-muted-foreground">
+                      {t('blockedByTasks', { titles: blockerTitles })}
+                    </p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
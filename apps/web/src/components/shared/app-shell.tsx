@@ -6,6 +6,7 @@ import { useSettingsStore } from '@/stores/settings'
 import { OnboardingFlow } from '@/components/onboarding'
 import { Sidebar } from './sidebar'
 import { BottomNav } from './bottom-nav'
+import { CommandPalette } from './command-palette'
 
 // Routes that should not show navigation
 const AUTH_ROUTES = ['/login', '/signup', '/auth']
@@ -16,6 +17,7 @@ interface AppShellProps {
 
 export function AppShell({ children }: AppShellProps) {
   const [mounted, setMounted] = useState(false)
+  const [searchOpen, setSearchOpen] = useState(false)
   const pathname = usePathname()
   const onboardingCompleted = useSettingsStore((state) => state.onboardingCompleted)
 
@@ -50,7 +52,7 @@ export function AppShell({ children }: AppShellProps) {
   return (
     <div className="relative min-h-screen">
       {/* Desktop Sidebar */}
-      <Sidebar />
+      <Sidebar onSearch={() => setSearchOpen(true)} />
 
       {/* Main Content */}
       <main className="min-h-screen pb-20 lg:pb-0 lg:pl-64">
@@ -59,6 +61,9 @@ export function AppShell({ children }: AppShellProps) {
 
       {/* Mobile Bottom Nav */}
       <BottomNav />
+
+      {/* Search (Cmd/Ctrl+K) */}
+      <CommandPalette open={searchOpen} onOpenChange={setSearchOpen} />
     </div>
   )
 }
@@ -0,0 +1,194 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { useSearch } from '@/hooks/queries/use-search'
+import type { SearchResult, SearchResultType } from '@/types'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+import {
+  Search,
+  FileText,
+  ListTodo,
+  CheckCircle2,
+  FolderKanban,
+  Target,
+  Receipt,
+  Loader2,
+} from 'lucide-react'
+
+const SEARCH_DELAY_MS = 200
+
+const RESULT_ICONS: Record<SearchResultType, React.ReactNode> = {
+  page: <FileText className="h-4 w-4" />,
+  task: <ListTodo className="h-4 w-4" />,
+  habit: <CheckCircle2 className="h-4 w-4" />,
+  project: <FolderKanban className="h-4 w-4" />,
+  objective: <Target className="h-4 w-4" />,
+  transaction: <Receipt className="h-4 w-4" />,
+}
+
+function getResultHref(result: SearchResult): string {
+  switch (result.type) {
+    case 'page':
+      return `/areas/studies/${result.parentId}/${result.id}`
+    case 'task':
+      return '/tasks'
+    case 'habit':
+      return `/habits/${result.id}`
+    case 'project':
+      return `/areas/projects/${result.id}`
+    case 'objective':
+      return `/areas/projects/${result.parentId}`
+    case 'transaction':
+      return '/areas/finances'
+  }
+}
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Searches everything the user wrote (Cmd/Ctrl+K) and opens the chosen result
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const t = useTranslations('search')
+  const router = useRouter()
+  const [input, setInput] = useState('')
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const { data: results = [], isFetching } = useSearch(query)
+  const visibleResults = query.trim() ? results : []
+
+  // Toggle with Cmd+K / Ctrl+K from anywhere in the app
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        onOpenChange(!open)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [open, onOpenChange])
+
+  // Only search once the user pauses typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input), SEARCH_DELAY_MS)
+    return () => clearTimeout(timeout)
+  }, [input])
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setInput('')
+      setQuery('')
+    }
+    onOpenChange(value)
+  }
+
+  const selectResult = (result: SearchResult) => {
+    handleOpenChange(false)
+    router.push(getResultHref(result))
+  }
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (visibleResults.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((index) => (index + 1) % visibleResults.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((index) => (index - 1 + visibleResults.length) % visibleResults.length)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      const result = visibleResults[Math.min(activeIndex, visibleResults.length - 1)]
+      if (result) selectResult(result)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent
+        showCloseButton={false}
+        className="top-[15%] translate-y-0 gap-0 overflow-hidden p-0 sm:max-w-xl"
+      >
+        <DialogTitle className="sr-only">{t('title')}</DialogTitle>
+        <DialogDescription className="sr-only">{t('description')}</DialogDescription>
+
+        <div className="flex items-center gap-2 border-b px-3">
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <input
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value)
+              setActiveIndex(0)
+            }}
+            onKeyDown={handleInputKeyDown}
+            placeholder={t('placeholder')}
+            aria-label={t('title')}
+            className="h-12 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            autoFocus
+          />
+          {isFetching && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />}
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto p-2" role="listbox" aria-label={t('results')}>
+          {!query.trim() ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">{t('hint')}</p>
+          ) : visibleResults.length === 0 && !isFetching ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+              {t('noResults', { query: query.trim() })}
+            </p>
+          ) : (
+            visibleResults.map((result, index) => (
+              <button
+                key={`${result.type}:${result.id}`}
+                type="button"
+                role="option"
+                aria-selected={index === activeIndex}
+                onClick={() => selectResult(result)}
+                onMouseMove={() => setActiveIndex(index)}
+                className={cn(
+                  'flex w-full items-start gap-3 rounded-md px-3 py-2 text-left',
+                  index === activeIndex && 'bg-muted'
+                )}
+              >
+                <span className="mt-0.5 text-muted-foreground">{RESULT_ICONS[result.type]}</span>
+                <span className="min-w-0 flex-1">
+                  <span className="flex items-center gap-2">
+                    <span className="truncate text-sm font-medium">
+                      {result.title || t('untitled')}
+                    </span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {t(`types.${result.type}`)}
+                    </span>
+                  </span>
+                  <span className="line-clamp-2 text-xs text-muted-foreground">
+                    {result.snippet.map((piece, i) =>
+                      piece.highlighted ? (
+                        <mark key={i} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+                          {piece.text}
+                        </mark>
+                      ) : (
+                        <span key={i}>{piece.text}</span>
+                      )
+                    )}
+                  </span>
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,4 +1,5 @@
 export { AppShell } from './app-shell'
 export { BottomNav } from './bottom-nav'
+export { CommandPalette } from './command-palette'
 export { Sidebar } from './sidebar'
 export { ThemeProvider } from './theme-provider'
@@ -20,6 +20,7 @@ import {
   Trophy,
   Timer,
   HelpCircle,
+  Search,
 } from 'lucide-react'
 
 interface NavItem {
@@ -45,9 +46,14 @@ const BOTTOM_ITEMS: NavItem[] = [
   { href: '/settings', labelKey: 'settings', icon: <Settings className="h-4.5 w-4.5" /> },
 ]
 
-export function Sidebar() {
+interface SidebarProps {
+  onSearch?: () => void
+}
+
+export function Sidebar({ onSearch }: SidebarProps) {
   const pathname = usePathname()
   const t = useTranslations('nav')
+  const tSearch = useTranslations('search')
   const [mounted, setMounted] = useState(false)
   const { data: stats } = useUserStats()
   const xpProgress = useXpProgress()
@@ -116,6 +122,21 @@ export function Sidebar() {
         </div>
       </div>
 
+      {/* Search */}
+      {onSearch && (
+        <div className="px-3 pb-3">
+          <button
+            type="button"
+            onClick={onSearch}
+            className="flex w-full items-center gap-2 rounded-lg border bg-muted/30 px-3 py-2 text-sm text-muted-foreground transition-colors hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
+          >
+            <Search className="h-4 w-4" />
+            <span className="flex-1 text-left">{tSearch('title')}</span>
+            <kbd className="rounded border bg-background px-1.5 text-[10px] font-medium">⌘K</kbd>
+          </button>
+        </div>
+      )}
+
       {/* Main Navigation */}
       <nav className="flex-1 overflow-y-auto px-3 scrollbar-thin" aria-label="Navegação principal">
         <div className="space-y-1">
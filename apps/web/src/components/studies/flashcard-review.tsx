@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  useDueFlashcards,
+  useReviewFlashcard,
+  useCompleteFlashcardSession,
+} from '@/hooks/queries/use-flashcards'
+import { scheduleFlashcard } from '@/lib/flashcards'
+import { getTodayString, cn } from '@/lib/utils'
+import type { Flashcard, FlashcardGrade, FlashcardSessionResult } from '@/types'
+import { Layers, PartyPopper, Star, Activity } from 'lucide-react'
+
+const GRADES: { grade: FlashcardGrade; className: string }[] = [
+  { grade: 'again', className: 'border-red-500/40 hover:bg-red-500/10' },
+  { grade: 'hard', className: 'border-amber-500/40 hover:bg-amber-500/10' },
+  { grade: 'good', className: 'border-green-500/40 hover:bg-green-500/10' },
+  { grade: 'easy', className: 'border-blue-500/40 hover:bg-blue-500/10' },
+]
+
+interface FlashcardReviewProps {
+  notebookId?: string
+  backHref: string
+}
+
+// Daily review of the cards due today, in one notebook or in all of them.
+// Cards graded "again" come back at the end of the session; finishing it
+// awards XP and, if the user ticked it, counts toward the habits linked to
+// the reviewed notebooks
+export function FlashcardReview({ notebookId, backHref }: FlashcardReviewProps) {
+  const t = useTranslations('flashcards')
+  const { data: dueCards = [], isLoading } = useDueFlashcards(notebookId)
+  const reviewMutation = useReviewFlashcard()
+  const completeMutation = useCompleteFlashcardSession()
+
+  // The due list is only read when the session starts; from then on the
+  // remaining cards live here
+  const [queue, setQueue] = useState<Flashcard[] | null>(null)
+  const [reviewed, setReviewed] = useState<Flashcard[]>([])
+  const [showBack, setShowBack] = useState(false)
+  const [result, setResult] = useState<FlashcardSessionResult | null>(null)
+  const [completeHabits, setCompleteHabits] = useState(false)
+
+  const cards = queue ?? dueCards
+  const current = cards[0]
+  const total = reviewed.length + cards.filter((card) => !reviewed.some((r) => r.id === card.id)).length
+  const today = getTodayString()
+
+  const handleGrade = async (grade: FlashcardGrade) => {
+    if (!current || reviewMutation.isPending) return
+
+    let updated: Flashcard
+    try {
+      updated = await reviewMutation.mutateAsync({ card: current, grade })
+    } catch {
+      return
+    }
+
+    const rest = cards.slice(1)
+    const nextQueue = grade === 'again' ? [...rest, updated] : rest
+    const nextReviewed = reviewed.some((card) => card.id === current.id)
+      ? reviewed
+      : [...reviewed, current]
+
+    setQueue(nextQueue)
+    setReviewed(nextReviewed)
+    setShowBack(false)
+
+    if (nextQueue.length === 0) {
+      completeMutation.mutate(
+        {
+          reviewed: nextReviewed.length,
+          notebookIds: nextReviewed.map((card) => card.notebookId),
+          completeHabits,
+        },
+        { onSuccess: setResult }
+      )
+    }
+  }
+
+  // Space shows the answer, 1-4 grade it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!current || e.target instanceof HTMLInputElement) return
+
+      if (!showBack && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault()
+        setShowBack(true)
+      } else if (showBack && ['1', '2', '3', '4'].includes(e.key)) {
+        e.preventDefault()
+        handleGrade(GRADES[Number(e.key) - 1].grade)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  if (isLoading) {
+    return <div className="h-64 animate-pulse rounded-lg bg-muted" />
+  }
+
+  // Session finished
+  if (!current && reviewed.length > 0) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4 rounded-lg border py-12 text-center">
+        <div className="flex h-16 w-16 items-center justify-center rounded-full bg-primary/10">
+          <PartyPopper className="h-8 w-8 text-primary" />
+        </div>
+        <div className="space-y-1">
+          <h2 className="text-lg font-semibold">{t('sessionComplete')}</h2>
+          <p className="text-muted-foreground">
+            {t('cardsReviewed', { count: reviewed.length })}
+          </p>
+        </div>
+        {result && (
+          <div className="flex flex-wrap justify-center gap-3 text-sm">
+            <span className="inline-flex items-center gap-1.5">
+              <Star className="h-4 w-4 text-warning" />
+              {t('xpEarned', { xp: result.xpEarned })}
+            </span>
+            {result.completedHabitIds.length > 0 && (
+              <span className="inline-flex items-center gap-1.5">
+                <Activity className="h-4 w-4 text-green-500" />
+                {t('habitsCompleted', { count: result.completedHabitIds.length })}
+              </span>
+            )}
+          </div>
+        )}
+        <Link href={backHref}>
+          <Button variant="outline">{t('done')}</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  // Nothing due
+  if (!current) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center">
+        <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+          <Layers className="h-8 w-8 text-muted-foreground" />
+        </div>
+        <h3 className="mb-2 text-lg font-semibold">{t('noCardsDue')}</h3>
+        <p className="mb-4 max-w-md text-muted-foreground">{t('noCardsDueDescription')}</p>
+        <Link href={backHref}>
+          <Button variant="outline">{t('done')}</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm text-muted-foreground">
+          <span>{t('progress', { current: reviewed.length, total })}</span>
+          <span>{t('remaining', { count: cards.length })}</span>
+        </div>
+        <Progress value={total > 0 ? (reviewed.length / total) * 100 : 0} className="h-1.5" />
+        <label className="flex cursor-pointer items-center gap-2 text-sm text-muted-foreground">
+          <Checkbox
+            checked={completeHabits}
+            onCheckedChange={(checked) => setCompleteHabits(checked === true)}
+          />
+          {t('completeLinkedHabits')}
+        </label>
+      </div>
+
+      <div className="flex min-h-64 flex-col justify-center gap-6 rounded-lg border p-6 text-center">
+        <p className="whitespace-pre-wrap text-xl font-medium">{current.front}</p>
+        {showBack && (
+          <>
+            <div className="border-t" />
+            <p className="whitespace-pre-wrap text-lg text-muted-foreground">{current.back}</p>
+          </>
+        )}
+      </div>
+
+      {showBack ? (
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {GRADES.map(({ grade, className }, index) => (
+            <Button
+              key={grade}
+              variant="outline"
+              className={cn('h-auto flex-col gap-0.5 py-2', className)}
+              onClick={() => handleGrade(grade)}
+              disabled={reviewMutation.isPending}
+            >
+              <span>{t(`grades.${grade}`)}</span>
+              <span className="text-xs text-muted-foreground">
+                {index + 1} · {t('intervalDays', { count: scheduleFlashcard(current, grade, today).interval })}
+              </span>
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <Button className="w-full" onClick={() => setShowBack(true)}>
+          {t('showAnswer')}
+        </Button>
+      )}
+    </div>
+  )
+}
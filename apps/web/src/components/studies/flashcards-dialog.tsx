@@ -0,0 +1,140 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations, useLocale } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  useNotebookFlashcards,
+  useCreateFlashcard,
+  useDeleteFlashcard,
+} from '@/hooks/queries/use-flashcards'
+import { formatLocalDate } from '@/lib/utils'
+import { FileText, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface FlashcardsDialogProps {
+  trigger: React.ReactNode
+  notebookId: string
+}
+
+// Cards of a notebook. Standalone cards are added and removed here; cards
+// written in a page ("Question :: Answer") are edited in the page itself
+export function FlashcardsDialog({ trigger, notebookId }: FlashcardsDialogProps) {
+  const t = useTranslations('flashcards')
+  const locale = useLocale()
+  const [open, setOpen] = useState(false)
+  const [front, setFront] = useState('')
+  const [back, setBack] = useState('')
+
+  const { data: cards = [] } = useNotebookFlashcards(notebookId)
+  const createMutation = useCreateFlashcard()
+  const deleteMutation = useDeleteFlashcard()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!front.trim() || !back.trim()) {
+      toast.error(t('bothSidesRequired'))
+      return
+    }
+
+    createMutation.mutate(
+      { notebookId, front: front.trim(), back: back.trim() },
+      {
+        onSuccess: () => {
+          toast.success(t('cardAdded'))
+          setFront('')
+          setBack('')
+        },
+      }
+    )
+  }
+
+  const handleDelete = (id: string) => {
+    deleteMutation.mutate(id, {
+      onSuccess: () => toast.success(t('cardDeleted')),
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('title')}</DialogTitle>
+          <DialogDescription>{t('description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-72 space-y-2 overflow-y-auto">
+          {cards.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">{t('noCards')}</p>
+          ) : (
+            cards.map((card) => (
+              <div key={card.id} className="flex items-start gap-3 rounded-md border p-3">
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="text-sm font-medium">{card.front}</p>
+                  <p className="text-sm text-muted-foreground">{card.back}</p>
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    {card.pageId && <FileText className="h-3 w-3" />}
+                    {card.pageId ? t('fromPage') : t('standalone')}
+                    {' · '}
+                    {t('dueOn', {
+                      date: formatLocalDate(card.dueDate, locale, { day: 'numeric', month: 'short' }),
+                    })}
+                  </p>
+                </div>
+                {!card.pageId && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => handleDelete(card.id)}
+                    disabled={deleteMutation.isPending}
+                    aria-label={t('deleteCard')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="flashcard-front">{t('front')}</Label>
+            <Input
+              id="flashcard-front"
+              value={front}
+              onChange={(e) => setFront(e.target.value)}
+              placeholder={t('frontPlaceholder')}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="flashcard-back">{t('back')}</Label>
+            <Input
+              id="flashcard-back"
+              value={back}
+              onChange={(e) => setBack(e.target.value)}
+              placeholder={t('backPlaceholder')}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={createMutation.isPending}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('addCard')}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,3 +4,7 @@ export { PageListItem } from './page-list-item'
 export { SortablePageListItem } from './sortable-page-list-item'
 export { PageFormDialog } from './page-form-dialog'
 export { PageEditor } from './page-editor'
+export { PageMentions } from './page-mentions'
+export { FlashcardsDialog } from './flashcards-dialog'
+export { FlashcardReview } from './flashcard-review'
+export { PageHistoryDialog } from './page-history-dialog'
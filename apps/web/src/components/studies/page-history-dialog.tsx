@@ -0,0 +1,158 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { useTranslations, useLocale } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { usePageRevisions, useRestorePageRevision } from '@/hooks/queries/use-notebooks'
+import { blocksToMarkdown } from '@/lib/markdown'
+import { diffRevisionLines } from '@/lib/page-revisions'
+import { cn } from '@/lib/utils'
+import type { NotebookPage, NoteBlock } from '@/types'
+import type { Block } from '@blocknote/core'
+import { RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface PageHistoryDialogProps {
+  trigger: React.ReactNode
+  notebookId: string
+  pageId: string
+  currentContent: Block[]
+  hasUnsavedChanges: boolean
+  onRestored: (page: NotebookPage) => void
+}
+
+// Earlier versions of a page, compared line by line (as Markdown) with what
+// is in the editor now, and restored in one click
+export function PageHistoryDialog({
+  trigger,
+  notebookId,
+  pageId,
+  currentContent,
+  hasUnsavedChanges,
+  onRestored,
+}: PageHistoryDialogProps) {
+  const t = useTranslations('studies')
+  const locale = useLocale()
+  const [open, setOpen] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const { data: revisions = [], isLoading } = usePageRevisions(pageId, open)
+  const restoreMutation = useRestorePageRevision()
+
+  const selected = revisions.find((revision) => revision.id === selectedId) ?? revisions[0]
+
+  const diff = useMemo(
+    () =>
+      selected
+        ? diffRevisionLines(
+            blocksToMarkdown(selected.content as NoteBlock[]),
+            blocksToMarkdown(currentContent as NoteBlock[])
+          )
+        : [],
+    [selected, currentContent]
+  )
+  const hasDifferences = diff.some((line) => line.type !== 'unchanged')
+
+  const handleRestore = () => {
+    if (!selected) return
+
+    restoreMutation.mutate(
+      { revision: selected, notebookId },
+      {
+        onSuccess: (page) => {
+          toast.success(t('versionRestored'))
+          onRestored(page)
+          setOpen(false)
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t('history')}</DialogTitle>
+          <DialogDescription>{t('historyDescription')}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="h-64 animate-pulse rounded-lg bg-muted" />
+        ) : !selected ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">{t('noRevisions')}</p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[12rem_1fr]">
+            {/* Versions */}
+            <div className="max-h-96 space-y-1 overflow-y-auto">
+              {revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={cn(
+                    'w-full rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-muted',
+                    revision.id === selected.id && 'bg-muted font-medium'
+                  )}
+                >
+                  <span className="block">
+                    {new Date(revision.createdAt).toLocaleString(locale, {
+                      day: 'numeric',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </span>
+                  <span className="block truncate text-xs text-muted-foreground">
+                    {revision.title}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            <div className="min-w-0 space-y-2">
+              <p className="text-xs text-muted-foreground">{t('comparedWithCurrent')}</p>
+              <div className="max-h-96 overflow-auto rounded-md border font-mono text-xs">
+                {!hasDifferences ? (
+                  <p className="p-4 text-muted-foreground">{t('noDifferences')}</p>
+                ) : (
+                  diff.map((line, index) => (
+                    <div
+                      key={index}
+                      className={cn(
+                        'whitespace-pre-wrap px-3 py-0.5',
+                        line.type === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+                        line.type === 'removed' && 'bg-red-500/10 text-red-700 dark:text-red-400',
+                        line.type === 'unchanged' && 'text-muted-foreground'
+                      )}
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                      {line.text || ' '}
+                    </div>
+                  ))
+                )}
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  {hasUnsavedChanges && t('unsavedChangesLost')}
+                </p>
+                <Button size="sm" onClick={handleRestore} disabled={restoreMutation.isPending}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  {t('restoreVersion')}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,45 @@
+'use client'
+
+import Link from 'next/link'
+import { useTranslations } from 'next-intl'
+import { usePageBacklinks } from '@/hooks/queries/use-notebooks'
+import type { PageLinkTargetType } from '@/types'
+import { FileText, Link2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+interface PageMentionsProps {
+  targetType: PageLinkTargetType
+  targetId: string
+  className?: string
+}
+
+// Notebook pages that link to a page ([[Title]]) or mention a task, habit or
+// project (@task[Title]...); hidden while there are none
+export function PageMentions({ targetType, targetId, className }: PageMentionsProps) {
+  const t = useTranslations('studies')
+  const { data: backlinks = [] } = usePageBacklinks(targetType, targetId)
+
+  if (backlinks.length === 0) return null
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Link2 className="h-4 w-4" />
+        <span>{targetType === 'page' ? t('linkedFrom') : t('mentionedIn')}</span>
+        <span className="bg-muted px-1.5 py-0.5 rounded text-xs">{backlinks.length}</span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {backlinks.map((backlink) => (
+          <Link
+            key={backlink.pageId}
+            href={`/areas/studies/${backlink.notebookId}/${backlink.pageId}`}
+            className="inline-flex items-center gap-2 px-2 py-1 rounded-md border text-sm hover:bg-muted/50"
+          >
+            <FileText className="h-4 w-4 text-muted-foreground" />
+            <span className="truncate">{backlink.title || t('untitled')}</span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  )
+}
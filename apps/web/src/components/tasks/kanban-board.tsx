@@ -20,7 +20,7 @@ import {
   useSortable,
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { useTasks, useSetTaskStatus, useReorderTasks } from '@/hooks/queries/use-tasks'
@@ -35,9 +35,12 @@ import {
   Flag,
   Plus,
   Repeat,
+  Lock,
+  Link2,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { formatLocalDate } from '@/lib/utils'
+import { getDependencyChain, getOpenBlockers } from '@/lib/tasks'
 import { TaskFormDialog } from './task-form-dialog'
 import type { Task, TaskStatus } from '@/types'
 import { STATUS_COLORS, PRIORITY_COLORS } from '@/config/colors'
@@ -70,22 +73,34 @@ const COLUMNS: KanbanColumn[] = [
   },
 ]
 
+interface TaskDependencyInfo {
+  blockers: Task[]
+  blocksCount: number
+}
+
 interface KanbanTaskCardProps {
   task: Task
+  dependencyInfo?: TaskDependencyInfo
+  isHighlighted?: boolean
   isDragging?: boolean
 }
 
-function KanbanTaskCard({ task, isDragging }: KanbanTaskCardProps) {
+function KanbanTaskCard({ task, dependencyInfo, isHighlighted, isDragging }: KanbanTaskCardProps) {
+  const t = useTranslations('tasks')
   const { data: areas = [] } = useOrderedAreas()
   const area = areas.find((a) => a.id === task.areaId)
 
   const subtasksDone = task.subtasks.filter((s) => s.done).length
   const hasSubtasks = task.subtasks.length > 0
+  const blockers = task.status === 'done' ? [] : (dependencyInfo?.blockers ?? [])
+  const blocksCount = dependencyInfo?.blocksCount ?? 0
 
   return (
     <div
       className={`rounded-lg border bg-card p-3 shadow-sm transition-shadow hover:shadow-md ${
         isDragging ? 'opacity-50' : ''
+      } ${blockers.length > 0 ? 'border-dashed' : ''} ${
+        isHighlighted ? 'ring-2 ring-primary/60' : ''
       }`}
     >
       <div className="space-y-2">
@@ -144,6 +159,23 @@ function KanbanTaskCard({ task, isDragging }: KanbanTaskCardProps) {
               <Repeat className="h-3 w-3" />
             </div>
           )}
+
+          {/* Dependencies */}
+          {blockers.length > 0 && (
+            <div
+              className="flex items-center gap-1 text-amber-600"
+              title={t('blockedByTasks', { titles: blockers.map((b) => b.title).join(', ') })}
+            >
+              <Lock className="h-3 w-3" />
+              <span>{t('blocked')}</span>
+            </div>
+          )}
+          {blocksCount > 0 && task.status !== 'done' && (
+            <div className="flex items-center gap-1 text-muted-foreground">
+              <Link2 className="h-3 w-3" />
+              <span>{t('blocksCount', { count: blocksCount })}</span>
+            </div>
+          )}
         </div>
 
         {/* Area tag */}
@@ -167,9 +199,17 @@ function KanbanTaskCard({ task, isDragging }: KanbanTaskCardProps) {
 
 interface SortableKanbanCardProps {
   task: Task
+  dependencyInfo?: TaskDependencyInfo
+  isHighlighted?: boolean
+  onHoverChange: (taskId: string | null) => void
 }
 
-function SortableKanbanCard({ task }: SortableKanbanCardProps) {
+function SortableKanbanCard({
+  task,
+  dependencyInfo,
+  isHighlighted,
+  onHoverChange,
+}: SortableKanbanCardProps) {
   const {
     attributes,
     listeners,
@@ -185,8 +225,20 @@ function SortableKanbanCard({ task }: SortableKanbanCardProps) {
   }
 
   return (
-    <div ref={setNodeRef} style={style} {...attributes} {...listeners}>
-      <KanbanTaskCard task={task} isDragging={isDragging} />
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      onMouseEnter={() => onHoverChange(task.id)}
+      onMouseLeave={() => onHoverChange(null)}
+    >
+      <KanbanTaskCard
+        task={task}
+        dependencyInfo={dependencyInfo}
+        isHighlighted={isHighlighted}
+        isDragging={isDragging}
+      />
     </div>
   )
 }
@@ -194,9 +246,18 @@ function SortableKanbanCard({ task }: SortableKanbanCardProps) {
 interface KanbanColumnProps {
   column: KanbanColumn
   tasks: Task[]
+  dependencyInfo: Map<string, TaskDependencyInfo>
+  highlightedIds: Set<string>
+  onHoverChange: (taskId: string | null) => void
 }
 
-function KanbanColumnComponent({ column, tasks }: KanbanColumnProps) {
+function KanbanColumnComponent({
+  column,
+  tasks,
+  dependencyInfo,
+  highlightedIds,
+  onHoverChange,
+}: KanbanColumnProps) {
   const t = useTranslations('tasks')
 
   return (
@@ -221,7 +282,13 @@ function KanbanColumnComponent({ column, tasks }: KanbanColumnProps) {
         >
           <div className="space-y-2">
             {tasks.map((task) => (
-              <SortableKanbanCard key={task.id} task={task} />
+              <SortableKanbanCard
+                key={task.id}
+                task={task}
+                dependencyInfo={dependencyInfo.get(task.id)}
+                isHighlighted={highlightedIds.has(task.id)}
+                onHoverChange={onHoverChange}
+              />
             ))}
           </div>
         </SortableContext>
@@ -253,6 +320,7 @@ export function KanbanBoard() {
   const setTaskStatusMutation = useSetTaskStatus()
   const reorderTasksMutation = useReorderTasks()
   const [activeTask, setActiveTask] = useState<Task | null>(null)
+  const [hoveredTaskId, setHoveredTaskId] = useState<string | null>(null)
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -271,6 +339,27 @@ export function KanbanBoard() {
     done: tasks.filter((t) => t.status === 'done'),
   }
 
+  const dependencyInfo = useMemo(() => {
+    const info = new Map<string, TaskDependencyInfo>()
+    for (const task of tasks) {
+      info.set(task.id, { blockers: getOpenBlockers(task, tasks), blocksCount: 0 })
+    }
+    for (const task of tasks) {
+      if (task.status === 'done') continue
+      for (const id of task.blockedBy) {
+        const blocker = info.get(id)
+        if (blocker) blocker.blocksCount += 1
+      }
+    }
+    return info
+  }, [tasks])
+
+  // Hovering a card highlights the rest of its dependency chain
+  const highlightedIds = useMemo(
+    () => (hoveredTaskId && !activeTask ? getDependencyChain(hoveredTaskId, tasks) : new Set<string>()),
+    [hoveredTaskId, activeTask, tasks]
+  )
+
   function handleDragStart(event: DragStartEvent) {
     const task = tasks.find((t) => t.id === event.active.id)
     setActiveTask(task || null)
@@ -341,12 +430,17 @@ export function KanbanBoard() {
             key={column.id}
             column={column}
             tasks={tasksByStatus[column.id]}
+            dependencyInfo={dependencyInfo}
+            highlightedIds={highlightedIds}
+            onHoverChange={setHoveredTaskId}
           />
         ))}
       </div>
 
       <DragOverlay>
-        {activeTask && <KanbanTaskCard task={activeTask} />}
+        {activeTask && (
+          <KanbanTaskCard task={activeTask} dependencyInfo={dependencyInfo.get(activeTask.id)} />
+        )}
       </DragOverlay>
     </DndContext>
   )
@@ -15,7 +15,16 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import { GripVertical, Calendar, Clock, Repeat, MoreVertical, Trash2, Pencil } from 'lucide-react'
+import {
+  GripVertical,
+  Calendar,
+  Clock,
+  Repeat,
+  MoreVertical,
+  Trash2,
+  Pencil,
+  Lock,
+} from 'lucide-react'
 import { formatLocalDate } from '@/lib/utils'
 import { TaskFormDialog } from './task-form-dialog'
 import type { Task } from '@/types'
@@ -30,6 +39,7 @@ interface SortableTaskCardProps {
   onSelect?: (taskId: string, selected: boolean) => void
   isToggling?: boolean
   showDragHandle?: boolean
+  isBlocked?: boolean
 }
 
 const priorityColors = {
@@ -55,6 +65,7 @@ export function SortableTaskCard({
   onSelect,
   isToggling = false,
   showDragHandle = false,
+  isBlocked = false,
 }: SortableTaskCardProps) {
   const t = useTranslations('tasks')
   const tCommon = useTranslations('common')
@@ -147,6 +158,13 @@ export function SortableTaskCard({
                 </span>
               )}
 
+              {isBlocked && !isCompleted && (
+                <span className="flex items-center gap-1 text-amber-600">
+                  <Lock className="h-3 w-3" />
+                  {t('blocked')}
+                </span>
+              )}
+
               {hasSubtasks && (
                 <span>
                   {subtasksDone}/{task.subtasks.length} subtarefas
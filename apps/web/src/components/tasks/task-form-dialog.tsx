@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
 import {
   Dialog,
   DialogContent,
@@ -20,15 +21,52 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { useCreateTask, useUpdateTask } from '@/hooks/queries/use-tasks'
+import {
+  useCreateTask,
+  useUpdateTask,
+  useTasks,
+  useSetTaskBlockers,
+} from '@/hooks/queries/use-tasks'
 import { useActiveProjects, useObjectivesByProject } from '@/hooks/queries/use-projects'
 import { useOrderedAreas } from '@/hooks/queries/use-areas'
+import { useTaskFocusMinutes } from '@/hooks/queries/use-pomodoro'
+import { wouldCreateCycle } from '@/lib/tasks'
+import { getNextOccurrence } from '@/lib/recurrence'
+import { formatLocalDate } from '@/lib/utils'
 import type { Task, TaskPriority, RecurrencePattern } from '@/types'
-import { Plus, Flag, Calendar, FolderOpen, Clock, Repeat, Target, Rocket } from 'lucide-react'
+import {
+  Plus,
+  Flag,
+  Calendar,
+  FolderOpen,
+  Clock,
+  Repeat,
+  Target,
+  Rocket,
+  Lock,
+  X,
+} from 'lucide-react'
 import { toast } from 'sonner'
 import { PRIORITY_COLORS } from '@/config/colors'
+import { PageMentions } from '@/components/studies/page-mentions'
 
 type RecurrenceType = RecurrencePattern['type'] | 'none'
+type MonthlyMode = 'dayOfMonth' | 'lastDay' | 'lastBusinessDay' | 'nthWeekday'
+
+const DAYS_OF_WEEK = [0, 1, 2, 3, 4, 5, 6] as const
+const BUSINESS_DAYS = [1, 2, 3, 4, 5]
+const WEEKS_OF_MONTH = [1, 2, 3, 4, -1] as const
+const dayLabels = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const
+
+function getMonthlyMode(recurrence?: RecurrencePattern): MonthlyMode {
+  if (!recurrence) return 'dayOfMonth'
+  if (recurrence.monthDays?.length === 1 && recurrence.monthDays[0] === -1) return 'lastDay'
+  if (recurrence.setPosition === -1 && recurrence.weekdays?.length === BUSINESS_DAYS.length) {
+    return 'lastBusinessDay'
+  }
+  if (recurrence.setPosition && recurrence.weekdays?.length === 1) return 'nthWeekday'
+  return 'dayOfMonth'
+}
 
 const NONE_VALUE = '__none__' // Special value to represent "no selection"
 
@@ -71,10 +109,14 @@ export function TaskFormDialog({
 }: TaskFormDialogProps) {
   const t = useTranslations('tasks')
   const tCommon = useTranslations('common')
+  const tHabits = useTranslations('habits')
+  const tDays = useTranslations('days')
 
   const isEditMode = !!task
   const createTaskMutation = useCreateTask()
   const updateTaskMutation = useUpdateTask()
+  const setTaskBlockersMutation = useSetTaskBlockers()
+  const { data: allTasks = [] } = useTasks()
   const { data: projects = [] } = useActiveProjects()
   const { data: areas = [] } = useOrderedAreas()
 
@@ -94,12 +136,22 @@ export function TaskFormDialog({
   const [recurrenceType, setRecurrenceType] = useState<RecurrenceType>('none')
   const [recurrenceInterval, setRecurrenceInterval] = useState('1')
   const [recurrenceEndDate, setRecurrenceEndDate] = useState('')
+  const [recurrenceWeekdays, setRecurrenceWeekdays] = useState<number[]>([])
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>('dayOfMonth')
+  const [nthWeekday, setNthWeekday] = useState({ week: 1, weekday: 1 })
+  const [recurrenceCount, setRecurrenceCount] = useState('')
+  const [fromCompletion, setFromCompletion] = useState(false)
   const [tags] = useState<string[]>(defaultTags || [])
+  const [blockedBy, setBlockedBy] = useState<string[]>([])
 
   // Load objectives when a project is selected
   const selectedProjectId = projectId !== NONE_VALUE ? projectId : ''
   const { data: objectives = [] } = useObjectivesByProject(selectedProjectId)
 
+  // Actual time comes from pomodoro sessions linked to this task
+  const { data: focusMinutesByTask } = useTaskFocusMinutes()
+  const focusedMinutes = task ? (focusMinutesByTask?.get(task.id) ?? 0) : 0
+
   // Populate form with task data when editing
   useEffect(() => {
     if (task && open) {
@@ -114,9 +166,31 @@ export function TaskFormDialog({
       setRecurrenceType(task.recurrence?.type || 'none')
       setRecurrenceInterval(task.recurrence?.interval?.toString() || '1')
       setRecurrenceEndDate(task.recurrence?.endDate || '')
+      setRecurrenceWeekdays(task.recurrence?.type === 'weekly' ? (task.recurrence.weekdays ?? []) : [])
+      setMonthlyMode(getMonthlyMode(task.recurrence))
+      setNthWeekday({
+        week: task.recurrence?.setPosition ?? 1,
+        weekday: task.recurrence?.weekdays?.[0] ?? 1,
+      })
+      setRecurrenceCount(task.recurrence?.count?.toString() || '')
+      setFromCompletion(task.recurrence?.fromCompletion ?? false)
+      setBlockedBy(task.blockedBy)
     }
   }, [task, open])
 
+  // Open tasks that can be added as blockers without closing a loop
+  const dependencies = allTasks.flatMap((other) =>
+    other.blockedBy.map((blockedById) => ({ taskId: other.id, blockedById }))
+  )
+  const blockerCandidates = allTasks.filter(
+    (candidate) =>
+      candidate.status !== 'done' &&
+      candidate.id !== task?.id &&
+      !blockedBy.includes(candidate.id) &&
+      (!task || !wouldCreateCycle(dependencies, task.id, candidate.id))
+  )
+  const titleById = new Map(allTasks.map((other) => [other.id, other.title]))
+
   const resetForm = () => {
     if (isEditMode) return // Don't reset in edit mode
     setTitle(defaultTitle || '')
@@ -130,6 +204,53 @@ export function TaskFormDialog({
     setRecurrenceType('none')
     setRecurrenceInterval('1')
     setRecurrenceEndDate('')
+    setRecurrenceWeekdays([])
+    setMonthlyMode('dayOfMonth')
+    setNthWeekday({ week: 1, weekday: 1 })
+    setRecurrenceCount('')
+    setFromCompletion(false)
+    setBlockedBy([])
+  }
+
+  const buildRecurrence = (): RecurrencePattern | undefined => {
+    if (recurrenceType === 'none') return undefined
+
+    const recurrence: RecurrencePattern = {
+      type: recurrenceType,
+      interval: parseInt(recurrenceInterval) || 1,
+      endDate: recurrenceEndDate || undefined,
+    }
+    if (recurrenceType === 'weekly' && recurrenceWeekdays.length > 0) {
+      recurrence.weekdays = [...recurrenceWeekdays].sort()
+    }
+    if (recurrenceType === 'monthly') {
+      if (monthlyMode === 'lastDay') recurrence.monthDays = [-1]
+      if (monthlyMode === 'lastBusinessDay') {
+        recurrence.weekdays = BUSINESS_DAYS
+        recurrence.setPosition = -1
+      }
+      if (monthlyMode === 'nthWeekday') {
+        recurrence.weekdays = [nthWeekday.weekday]
+        recurrence.setPosition = nthWeekday.week
+      }
+    }
+    if (parseInt(recurrenceCount) > 0) recurrence.count = parseInt(recurrenceCount)
+    if (fromCompletion) recurrence.fromCompletion = true
+    return recurrence
+  }
+
+  const previewRecurrence = buildRecurrence()
+  const nextOccurrence = previewRecurrence
+    ? getNextOccurrence(
+        previewRecurrence,
+        previewRecurrence.fromCompletion ? getTodayString() : dueDate || getTodayString()
+      )
+    : null
+
+  const toggleRecurrenceWeekday = (day: number) => {
+    setRecurrenceWeekdays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]
+    )
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -137,16 +258,10 @@ export function TaskFormDialog({
 
     if (!title.trim()) return
 
-    const recurrence: RecurrencePattern | undefined =
-      recurrenceType !== 'none'
-        ? {
-            type: recurrenceType,
-            interval: parseInt(recurrenceInterval) || 1,
-            endDate: recurrenceEndDate || undefined,
-          }
-        : undefined
+    const recurrence = buildRecurrence()
 
     try {
+      let savedTaskId: string
       if (isEditMode && task) {
         // Update existing task
         await updateTaskMutation.mutateAsync({
@@ -164,10 +279,10 @@ export function TaskFormDialog({
             tags,
           },
         })
-        toast.success(t('taskUpdated'))
+        savedTaskId = task.id
       } else {
         // Create new task
-        await createTaskMutation.mutateAsync({
+        const created = await createTaskMutation.mutateAsync({
           title: title.trim(),
           description: description.trim() || undefined,
           dueDate: dueDate || undefined,
@@ -182,19 +297,35 @@ export function TaskFormDialog({
           notebookId,
           pageId,
         })
-        toast.success(t('taskCreated'))
+        savedTaskId = created.id
+      }
+
+      const previousBlockers = task?.blockedBy ?? []
+      const blockersChanged =
+        blockedBy.length !== previousBlockers.length ||
+        blockedBy.some((id) => !previousBlockers.includes(id))
+      if (blockersChanged) {
+        await setTaskBlockersMutation.mutateAsync({ taskId: savedTaskId, blockedByIds: blockedBy })
       }
+      toast.success(isEditMode ? t('taskUpdated') : t('taskCreated'))
 
       resetForm()
       setOpen(false)
       onSuccess?.()
     } catch (error) {
       console.error('Failed to save task:', error)
+      if (error instanceof Error && error.message.includes('cycle')) {
+        toast.error(t('dependencyCycle'))
+        return
+      }
       toast.error(isEditMode ? t('taskUpdateError') : t('taskCreateError'))
     }
   }
 
-  const isPending = createTaskMutation.isPending || updateTaskMutation.isPending
+  const isPending =
+    createTaskMutation.isPending ||
+    updateTaskMutation.isPending ||
+    setTaskBlockersMutation.isPending
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -390,6 +521,13 @@ export function TaskFormDialog({
                 min={1}
               />
             </div>
+            {focusedMinutes > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {task?.estimatedMinutes
+                  ? t('focusedTime', { actual: focusedMinutes, estimated: task.estimatedMinutes })
+                  : t('focusedTimeNoEstimate', { actual: focusedMinutes })}
+              </p>
+            )}
           </div>
 
           {/* Recurrence */}
@@ -451,8 +589,171 @@ export function TaskFormDialog({
                 </div>
               </div>
             )}
+
+            {recurrenceType === 'weekly' && (
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{t('recurrenceOnDays')}</Label>
+                <div className="flex gap-1">
+                  {DAYS_OF_WEEK.map((day) => (
+                    <Button
+                      key={day}
+                      type="button"
+                      variant={recurrenceWeekdays.includes(day) ? 'default' : 'outline'}
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => toggleRecurrenceWeekday(day)}
+                    >
+                      {tDays(dayLabels[day])[0]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {recurrenceType === 'monthly' && (
+              <div className="space-y-2">
+                <Select
+                  value={monthlyMode}
+                  onValueChange={(value) => setMonthlyMode(value as MonthlyMode)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="dayOfMonth">{t('recurrenceDayOfMonth')}</SelectItem>
+                    <SelectItem value="lastDay">{t('recurrenceLastDay')}</SelectItem>
+                    <SelectItem value="lastBusinessDay">{t('recurrenceLastBusinessDay')}</SelectItem>
+                    <SelectItem value="nthWeekday">{t('recurrenceNthWeekday')}</SelectItem>
+                  </SelectContent>
+                </Select>
+                {monthlyMode === 'nthWeekday' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={String(nthWeekday.week)}
+                      onValueChange={(value) =>
+                        setNthWeekday((prev) => ({ ...prev, week: Number(value) }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKS_OF_MONTH.map((week) => (
+                          <SelectItem key={week} value={String(week)}>
+                            {tHabits(week === -1 ? 'weekOrdinalLast' : `weekOrdinal${week}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={String(nthWeekday.weekday)}
+                      onValueChange={(value) =>
+                        setNthWeekday((prev) => ({ ...prev, weekday: Number(value) }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DAYS_OF_WEEK.map((day) => (
+                          <SelectItem key={day} value={String(day)}>
+                            {tDays(dayLabels[day])}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {recurrenceType !== 'none' && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Label className="text-xs text-muted-foreground">{t('recurrenceCount')}</Label>
+                  <Input
+                    type="number"
+                    value={recurrenceCount}
+                    onChange={(e) => setRecurrenceCount(e.target.value)}
+                    className="w-20"
+                    min={1}
+                    placeholder="∞"
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="fromCompletion" className="text-xs text-muted-foreground">
+                    {t('recurrenceFromCompletion')}
+                  </Label>
+                  <Switch
+                    id="fromCompletion"
+                    checked={fromCompletion}
+                    onCheckedChange={setFromCompletion}
+                  />
+                </div>
+                {nextOccurrence && (
+                  <p className="text-xs text-muted-foreground">
+                    {t('recurrenceNextDate', {
+                      date: formatLocalDate(nextOccurrence, 'pt-BR', {
+                        weekday: 'short',
+                        day: 'numeric',
+                        month: 'short',
+                      }),
+                    })}
+                  </p>
+                )}
+              </div>
+            )}
           </div>
 
+          {/* Blocked by */}
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              {t('blockedBy')}
+            </Label>
+            {blockedBy.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {blockedBy.map((id) => (
+                  <span
+                    key={id}
+                    className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs"
+                  >
+                    {titleById.get(id) ?? '…'}
+                    <button
+                      type="button"
+                      onClick={() => setBlockedBy(blockedBy.filter((b) => b !== id))}
+                      className="text-muted-foreground hover:text-foreground"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <Select
+              value={NONE_VALUE}
+              onValueChange={(value) => {
+                if (value !== NONE_VALUE) setBlockedBy([...blockedBy, value])
+              }}
+              disabled={blockerCandidates.length === 0}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={t('blockedByNone')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE_VALUE}>{t('blockedByNone')}</SelectItem>
+                {blockerCandidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Pages mentioning the task */}
+          {task && <PageMentions targetType="task" targetId={task.id} />}
+
           {/* Actions */}
           <div className="flex gap-2 pt-4">
             <Button
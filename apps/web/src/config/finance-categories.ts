@@ -1,4 +1,4 @@
-import type { TransactionCategory } from '@/types/finances'
+import type { TransactionCategory, TransactionType } from '@/types/finances'
 
 export const EXPENSE_CATEGORIES: TransactionCategory[] = [
   {
@@ -160,6 +160,8 @@ export function getCategoryById(id: string): TransactionCategory | undefined {
   return ALL_CATEGORIES.find((cat) => cat.id === id)
 }
 
-export function getCategoriesByType(type: 'income' | 'expense'): TransactionCategory[] {
+// Transfers between accounts have no categories
+export function getCategoriesByType(type: TransactionType): TransactionCategory[] {
+  if (type === 'transfer') return []
   return type === 'income' ? INCOME_CATEGORIES : EXPENSE_CATEGORIES
 }
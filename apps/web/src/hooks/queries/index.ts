@@ -5,3 +5,6 @@ export * from './use-tasks'
 export * from './use-projects'
 export * from './use-gamification'
 export * from './use-finances'
+export * from './use-pomodoro'
+export * from './use-search'
+export * from './use-flashcards'
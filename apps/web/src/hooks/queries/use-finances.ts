@@ -1,23 +1,67 @@
 'use client'
 
+import { useMemo } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { createClient } from '@/lib/supabase/client'
 import {
   transactionsService,
+  accountsService,
+  categorizationRulesService,
   categoriesService,
   budgetsService,
+  budgetTemplatesService,
+  exchangeRatesService,
   goalsService,
+  recurrenceExceptionsService,
+  investmentAssetsService,
+  investmentPricesService,
+  investmentEventsService,
+  investmentSimulationsService,
 } from '@/services/finances.service'
 import {
   createPaymentReminderTask,
   createMissingPaymentReminders,
 } from '@/lib/payment-reminders'
+import {
+  calculateAccountBalances,
+  calculateCashFlowForecast,
+  calculateMonthlyBalance,
+  calculateTotalBalance,
+  type ExchangeRateInput,
+} from '@/lib/finances'
+import { getUpcomingStatements, isCreditCardAccount, shiftMonth } from '@/lib/credit-card'
+import {
+  calculateBudgetStatuses,
+  calculateEnvelopeSummary,
+  type BudgetTemplateInput,
+} from '@/lib/budgets'
+import { getUpcomingBills, listOccurrences } from '@/lib/recurring-transactions'
+import {
+  calculatePortfolioHistory,
+  calculatePortfolioSummary,
+  calculatePositions,
+  type InvestmentAssetInput,
+  type InvestmentEventInput,
+  type InvestmentSimulationInput,
+} from '@/lib/investments'
+import { getGoalPlan } from '@/lib/goals'
+import { buildImportPreview } from '@/lib/bank-import'
+import { getTodayString } from '@/lib/utils'
 import { tasksKeys } from './use-tasks'
+import { useSettings } from './use-settings'
 import type {
   Transaction,
+  Account,
   TransactionCategory,
+  CategorizationRule,
   Budget,
   FinancialGoal,
+  CurrencyConversion,
+  ExchangeRate,
+  ForecastAdjustment,
+  ImportedTransaction,
+  InvestmentAsset,
+  RecurrenceExceptionChanges,
 } from '@/types/finances'
 
 // ============================================
@@ -29,12 +73,22 @@ export const financesKeys = {
   transactionsList: () => [...financesKeys.transactions(), 'list'] as const,
   transactionsByMonth: (month: string) => [...financesKeys.transactions(), 'month', month] as const,
   transactionDetail: (id: string) => [...financesKeys.transactions(), 'detail', id] as const,
+  accounts: () => [...financesKeys.all, 'accounts'] as const,
   categories: () => [...financesKeys.all, 'categories'] as const,
+  rules: () => [...financesKeys.all, 'rules'] as const,
   budgets: () => [...financesKeys.all, 'budgets'] as const,
   budgetsByMonth: (month: string) => [...financesKeys.budgets(), 'month', month] as const,
+  budgetTemplates: () => [...financesKeys.budgets(), 'templates'] as const,
+  exchangeRates: () => [...financesKeys.all, 'exchangeRates'] as const,
+  recurrenceExceptions: () => [...financesKeys.all, 'recurrenceExceptions'] as const,
   goals: () => [...financesKeys.all, 'goals'] as const,
   goalsList: () => [...financesKeys.goals(), 'list'] as const,
   goalDetail: (id: string) => [...financesKeys.goals(), 'detail', id] as const,
+  investments: () => [...financesKeys.all, 'investments'] as const,
+  investmentAssets: () => [...financesKeys.investments(), 'assets'] as const,
+  investmentPrices: () => [...financesKeys.investments(), 'prices'] as const,
+  investmentEvents: () => [...financesKeys.investments(), 'events'] as const,
+  investmentSimulations: () => [...financesKeys.investments(), 'simulations'] as const,
 }
 
 // ============================================
@@ -92,6 +146,70 @@ export function useCreateTransaction() {
   })
 }
 
+export function useCreateCardPurchase() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      purchase,
+      card,
+      installments,
+    }: {
+      purchase: Omit<Transaction, 'id' | 'createdAt'>
+      card: Account
+      installments: number
+    }) => {
+      const created = await transactionsService.createCardPurchase(
+        supabase,
+        purchase,
+        card,
+        installments
+      )
+
+      // Remind the payment of every statement the purchase is billed in
+      if (isCreditCardAccount(card)) {
+        for (const statement of getUpcomingStatements(card, created)) {
+          await createPaymentReminderTask(supabase, statement)
+        }
+      }
+
+      return created
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.transactions() })
+      queryClient.invalidateQueries({ queryKey: tasksKeys.all })
+    },
+  })
+}
+
+// Flags the statement rows already recorded, looking them up when the file is
+// picked since the loaded transaction list may not reach back that far
+export function useImportPreview() {
+  const supabase = createClient()
+
+  return useMutation({
+    mutationFn: async (imported: ImportedTransaction[]) =>
+      buildImportPreview(
+        imported,
+        await transactionsService.getImportCandidates(supabase, imported)
+      ),
+  })
+}
+
+export function useImportTransactions() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (transactions: Omit<Transaction, 'id' | 'createdAt'>[]) =>
+      transactionsService.createMany(supabase, transactions),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.transactions() })
+    },
+  })
+}
+
 export function useUpdateTransaction() {
   const supabase = createClient()
   const queryClient = useQueryClient()
@@ -119,6 +237,67 @@ export function useDeleteTransaction() {
     mutationFn: (id: string) => transactionsService.delete(supabase, id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: financesKeys.transactions() })
+      // Deleting a recorded occurrence skips it
+      queryClient.invalidateQueries({ queryKey: financesKeys.recurrenceExceptions() })
+    },
+  })
+}
+
+export function useDeleteInstallments() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (groupId: string) => transactionsService.deleteInstallments(supabase, groupId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.transactions() })
+    },
+  })
+}
+
+// ============================================
+// RECURRENCE EXCEPTIONS HOOKS
+// ============================================
+
+export function useRecurrenceExceptions() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: financesKeys.recurrenceExceptions(),
+    queryFn: () => recurrenceExceptionsService.getAll(supabase),
+  })
+}
+
+export function useUpsertRecurrenceException() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      transactionId,
+      occurrenceDate,
+      changes,
+    }: {
+      transactionId: string
+      occurrenceDate: string
+      changes: RecurrenceExceptionChanges
+    }) => recurrenceExceptionsService.upsert(supabase, transactionId, occurrenceDate, changes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.recurrenceExceptions() })
+      // Occurrences already recorded are deleted or updated too
+      queryClient.invalidateQueries({ queryKey: financesKeys.transactions() })
+    },
+  })
+}
+
+export function useDeleteRecurrenceException() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => recurrenceExceptionsService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.recurrenceExceptions() })
     },
   })
 }
@@ -161,6 +340,133 @@ export function useDeleteCategory() {
   })
 }
 
+// ============================================
+// ACCOUNTS HOOKS
+// ============================================
+
+export function useAccounts() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: financesKeys.accounts(),
+    queryFn: () => accountsService.getAll(supabase),
+  })
+}
+
+export function useCreateAccount() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (account: Omit<Account, 'id' | 'createdAt' | 'isArchived'>) =>
+      accountsService.create(supabase, account),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.accounts() })
+    },
+  })
+}
+
+export function useUpdateAccount() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      updates,
+    }: {
+      id: string
+      updates: Partial<Omit<Account, 'id' | 'createdAt'>>
+    }) => accountsService.update(supabase, id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.accounts() })
+    },
+  })
+}
+
+export function useDeleteAccount() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => accountsService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.accounts() })
+      // Transactions of a deleted account lose their account link
+      queryClient.invalidateQueries({ queryKey: financesKeys.transactions() })
+    },
+  })
+}
+
+// ============================================
+// CATEGORIZATION RULES HOOKS
+// ============================================
+
+export function useCategorizationRules() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: financesKeys.rules(),
+    queryFn: () => categorizationRulesService.getAll(supabase),
+  })
+}
+
+export function useCreateCategorizationRule() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (rule: Omit<CategorizationRule, 'id' | 'createdAt'>) =>
+      categorizationRulesService.create(supabase, rule),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.rules() })
+    },
+  })
+}
+
+export function useUpdateCategorizationRule() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      updates,
+    }: {
+      id: string
+      updates: Partial<Omit<CategorizationRule, 'id' | 'createdAt'>>
+    }) => categorizationRulesService.update(supabase, id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.rules() })
+    },
+  })
+}
+
+export function useDeleteCategorizationRule() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => categorizationRulesService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.rules() })
+    },
+  })
+}
+
+export function useReapplyCategorizationRules() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (options: { onlyUncategorized?: boolean } = {}) =>
+      categorizationRulesService.reapply(supabase, options),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.transactions() })
+    },
+  })
+}
+
 // ============================================
 // BUDGETS HOOKS
 // ============================================
@@ -216,6 +522,91 @@ export function useDeleteBudget() {
   })
 }
 
+export function useBudgetTemplates() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: financesKeys.budgetTemplates(),
+    queryFn: () => budgetTemplatesService.getAll(supabase),
+  })
+}
+
+export function useUpsertBudgetTemplate() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (template: BudgetTemplateInput) => budgetTemplatesService.upsert(supabase, template),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.budgetTemplates() })
+    },
+  })
+}
+
+export function useDeleteBudgetTemplate() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => budgetTemplatesService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.budgetTemplates() })
+    },
+  })
+}
+
+// ============================================
+// EXCHANGE RATES HOOKS
+// ============================================
+
+const NO_RATES: ExchangeRate[] = []
+
+export function useExchangeRates() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: financesKeys.exchangeRates(),
+    queryFn: () => exchangeRatesService.getAll(supabase),
+  })
+}
+
+export function useUpsertExchangeRates() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (rates: ExchangeRateInput[]) => exchangeRatesService.upsertMany(supabase, rates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.exchangeRates() })
+    },
+  })
+}
+
+export function useDeleteExchangeRate() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => exchangeRatesService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.exchangeRates() })
+    },
+  })
+}
+
+/**
+ * Base currency from the settings plus the user's exchange rates, to convert
+ * amounts in other currencies.
+ */
+export function useCurrencyConversion(): CurrencyConversion {
+  const { data: settings } = useSettings()
+  const { data: rates = NO_RATES } = useExchangeRates()
+  const baseCurrency = settings?.currency ?? 'BRL'
+
+  // Stable between renders so it can be a memo dependency
+  return useMemo(() => ({ baseCurrency, rates }), [baseCurrency, rates])
+}
+
 // ============================================
 // FINANCIAL GOALS HOOKS
 // ============================================
@@ -305,56 +696,299 @@ export function useAddGoalContribution() {
   })
 }
 
+// Contributes expenses recorded in the goals' contribution categories since the last sync
+export function useSyncGoalContributions() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async () => {
+      const { data: userData } = await supabase.auth.getUser()
+      if (!userData.user) throw new Error('User not authenticated')
+      return goalsService.syncAutoContributions(supabase, userData.user.id)
+    },
+    onSuccess: (created) => {
+      if (created.length > 0) {
+        queryClient.invalidateQueries({ queryKey: financesKeys.goals() })
+      }
+    },
+  })
+}
+
+// ============================================
+// INVESTMENTS HOOKS
+// ============================================
+
+export function useInvestmentAssets() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: financesKeys.investmentAssets(),
+    queryFn: () => investmentAssetsService.getAll(supabase),
+  })
+}
+
+export function useCreateInvestmentAsset() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (asset: InvestmentAssetInput) => investmentAssetsService.create(supabase, asset),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.investmentAssets() })
+    },
+  })
+}
+
+export function useUpdateInvestmentAsset() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<InvestmentAssetInput> }) =>
+      investmentAssetsService.update(supabase, id, updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.investmentAssets() })
+    },
+  })
+}
+
+export function useDeleteInvestmentAsset() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => investmentAssetsService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.investments() })
+    },
+  })
+}
+
+export function useInvestmentPrices() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: financesKeys.investmentPrices(),
+    queryFn: () => investmentPricesService.getAll(supabase),
+  })
+}
+
+export function useUpdateInvestmentPrice() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ assetId, price, date }: { assetId: string; price: number; date?: string }) =>
+      investmentPricesService.upsert(supabase, assetId, price, date),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.investmentPrices() })
+    },
+  })
+}
+
+export function useInvestmentEvents() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: financesKeys.investmentEvents(),
+    queryFn: () => investmentEventsService.getAll(supabase),
+  })
+}
+
+export function useCreateInvestmentEvent() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      event,
+      transaction,
+    }: {
+      event: InvestmentEventInput
+      transaction?: { asset: InvestmentAsset; accountId?: string; description: string }
+    }) => investmentEventsService.create(supabase, event, transaction),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.investmentEvents() })
+      queryClient.invalidateQueries({ queryKey: financesKeys.transactions() })
+    },
+  })
+}
+
+export function useDeleteInvestmentEvent() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => investmentEventsService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.investmentEvents() })
+      queryClient.invalidateQueries({ queryKey: financesKeys.transactions() })
+    },
+  })
+}
+
+export function useInvestmentSimulations() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: financesKeys.investmentSimulations(),
+    queryFn: () => investmentSimulationsService.getAll(supabase),
+  })
+}
+
+export function useCreateInvestmentSimulation() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (simulation: InvestmentSimulationInput) =>
+      investmentSimulationsService.create(supabase, simulation),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.investmentSimulations() })
+    },
+  })
+}
+
+export function useDeleteInvestmentSimulation() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => investmentSimulationsService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: financesKeys.investmentSimulations() })
+    },
+  })
+}
+
 // ============================================
 // COMPUTED HOOKS
 // ============================================
 
 export function useMonthlyBalance(month: string) {
   const { data: transactions, ...rest } = useTransactionsByMonth(month)
-
-  const balance = transactions?.reduce(
-    (acc, t) => {
-      if (t.type === 'income') {
-        acc.totalIncome += t.amount
-      } else {
-        acc.totalExpenses += t.amount
-      }
-      return acc
-    },
-    { totalIncome: 0, totalExpenses: 0 }
-  )
+  const conversion = useCurrencyConversion()
 
   return {
     ...rest,
-    data: balance
-      ? {
-          month,
-          totalIncome: balance.totalIncome,
-          totalExpenses: balance.totalExpenses,
-          balance: balance.totalIncome - balance.totalExpenses,
-          transactionCount: transactions?.length ?? 0,
-        }
-      : undefined,
+    data: transactions ? calculateMonthlyBalance(transactions, month, conversion) : undefined,
   }
 }
 
 export function useTotalBalance() {
   const { data: transactions, ...rest } = useTransactions()
+  const { data: accounts } = useAccounts()
+  const conversion = useCurrencyConversion()
 
-  const balance = transactions?.reduce(
-    (acc, t) => {
-      if (t.type === 'income') {
-        return acc + t.amount
-      } else {
-        return acc - t.amount
-      }
-    },
-    0
-  )
+  return {
+    ...rest,
+    data: transactions ? calculateTotalBalance(transactions, accounts, conversion) : 0,
+  }
+}
+
+// Balances are in each account's own currency
+export function useAccountBalances() {
+  const { data: transactions = [], ...rest } = useTransactions()
+  const { data: accounts = [] } = useAccounts()
+  const conversion = useCurrencyConversion()
+
+  return {
+    ...rest,
+    data: calculateAccountBalances(accounts, transactions, conversion),
+  }
+}
+
+// Remaining vs spent per budgeted category, rollover included
+export function useBudgetStatuses(month: string) {
+  const { data: budgets = [], ...rest } = useBudgets()
+  const { data: templates = [] } = useBudgetTemplates()
+  const { data: transactions = [] } = useTransactions()
+  const { data: settings } = useSettings()
+  const conversion = useCurrencyConversion()
+  const envelopeMode = settings?.budgetMode === 'envelopes'
+
+  return {
+    ...rest,
+    data: calculateBudgetStatuses(month, budgets, templates, transactions, {
+      conversion,
+      envelopeMode,
+    }),
+  }
+}
+
+export function useEnvelopeSummary(month: string) {
+  const { data: budgets = [] } = useBudgets()
+  const { data: templates = [] } = useBudgetTemplates()
+  const { data: transactions = [] } = useTransactions()
+  const conversion = useCurrencyConversion()
+
+  return calculateEnvelopeSummary(month, budgets, templates, transactions, conversion)
+}
+
+// Recurring expenses expected in the next days, with skips and edits applied
+export function useUpcomingBills(days?: number) {
+  const { data: transactions = [], ...rest } = useTransactions()
+  const { data: exceptions = [] } = useRecurrenceExceptions()
+
+  return {
+    ...rest,
+    data: getUpcomingBills(transactions, exceptions, getTodayString(), days),
+  }
+}
+
+// Balance projected for the current and next months, with what-if items
+export function useCashFlowForecast(months: number, adjustments: ForecastAdjustment[] = []) {
+  const { data: transactions = [], ...rest } = useTransactions()
+  const { data: accounts = [] } = useAccounts()
+  const { data: exceptions = [] } = useRecurrenceExceptions()
+  const { data: templates = [] } = useBudgetTemplates()
+  const { data: goals = [] } = useFinancialGoals()
+  const conversion = useCurrencyConversion()
+
+  const today = getTodayString()
+  const lastMonth = shiftMonth(today.slice(0, 7), months - 1)
+
+  return {
+    ...rest,
+    data: calculateCashFlowForecast(transactions, accounts, today, months, {
+      occurrences: listOccurrences(transactions, exceptions, today, `${lastMonth}-31`),
+      templates,
+      goals,
+      adjustments,
+      conversion,
+    }),
+  }
+}
+
+// Required monthly amount, pace and projected completion of a goal
+export function useGoalPlan(goal: FinancialGoal) {
+  const { data: transactions = [], ...rest } = useTransactions()
+  const { baseCurrency } = useCurrencyConversion()
+
+  return {
+    ...rest,
+    data: getGoalPlan(goal, transactions, getTodayString(), baseCurrency),
+  }
+}
+
+// Positions, totals in the base currency and value over the last months
+export function usePortfolio(months = 12) {
+  const { data: assets = [], ...rest } = useInvestmentAssets()
+  const { data: events = [] } = useInvestmentEvents()
+  const { data: prices = [] } = useInvestmentPrices()
+  const conversion = useCurrencyConversion()
+
+  const today = getTodayString()
+  const positions = calculatePositions(assets, events, prices)
 
   return {
     ...rest,
-    data: balance ?? 0,
+    data: {
+      positions,
+      summary: calculatePortfolioSummary(positions, events, today, conversion),
+      history: calculatePortfolioHistory(assets, events, prices, today, months, conversion),
+    },
   }
 }
 
@@ -363,8 +997,9 @@ export function useTotalBalance() {
 // ============================================
 
 /**
- * Hook to sync all recurring expenses with payment reminder tasks.
- * Creates tasks for recurring expenses that don't already have an active task.
+ * Hook to sync all recurring expenses and credit card statements with payment reminder tasks.
+ * Creates tasks for recurring expenses that don't already have an active task and for
+ * upcoming statements that were never reminded.
  */
 export function useSyncPaymentReminders() {
   const supabase = createClient()
@@ -373,15 +1008,23 @@ export function useSyncPaymentReminders() {
   return useMutation({
     mutationFn: async () => {
       // Get all transactions
-      const transactions = await transactionsService.getAll(supabase)
+      const [transactions, accounts] = await Promise.all([
+        transactionsService.getAll(supabase),
+        accountsService.getAll(supabase),
+      ])
 
       // Filter to recurring expenses only
       const recurringExpenses = transactions.filter(
         (t) => t.type === 'expense' && t.isRecurring && t.recurrence
       )
 
+      const statements = accounts
+        .filter((a) => !a.isArchived)
+        .filter(isCreditCardAccount)
+        .flatMap((card) => getUpcomingStatements(card, transactions))
+
       // Create missing payment reminders
-      return createMissingPaymentReminders(supabase, recurringExpenses)
+      return createMissingPaymentReminders(supabase, [...recurringExpenses, ...statements])
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: tasksKeys.all })
@@ -0,0 +1,129 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { createClient } from '@/lib/supabase/client'
+import { flashcardsService } from '@/services/flashcards.service'
+import type {
+  Flashcard,
+  FlashcardGrade,
+  CreateFlashcardData,
+  UpdateFlashcardData,
+} from '@/types'
+import { toast } from 'sonner'
+import { habitsKeys } from './use-habits'
+import { gamificationKeys } from './use-gamification'
+
+// Query keys
+export const flashcardKeys = {
+  all: ['flashcards'] as const,
+  notebook: (notebookId: string) => [...flashcardKeys.all, 'notebook', notebookId] as const,
+  due: (notebookId?: string) => [...flashcardKeys.all, 'due', notebookId ?? 'all'] as const,
+}
+
+// =====================================================
+// QUERIES
+// =====================================================
+
+export function useNotebookFlashcards(notebookId: string) {
+  const supabase = createClient()
+
+  return useQuery<Flashcard[]>({
+    queryKey: flashcardKeys.notebook(notebookId),
+    queryFn: () => flashcardsService.getByNotebook(supabase, notebookId),
+    enabled: !!notebookId,
+  })
+}
+
+// Cards to review today, in every notebook or in one
+export function useDueFlashcards(notebookId?: string) {
+  const supabase = createClient()
+
+  return useQuery<Flashcard[]>({
+    queryKey: flashcardKeys.due(notebookId),
+    queryFn: () => flashcardsService.getDue(supabase, notebookId),
+  })
+}
+
+// =====================================================
+// MUTATIONS
+// =====================================================
+
+export function useCreateFlashcard() {
+  const queryClient = useQueryClient()
+  const supabase = createClient()
+
+  return useMutation({
+    mutationFn: (data: CreateFlashcardData) => flashcardsService.create(supabase, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: flashcardKeys.all })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+}
+
+export function useUpdateFlashcard() {
+  const queryClient = useQueryClient()
+  const supabase = createClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateFlashcardData }) =>
+      flashcardsService.update(supabase, id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: flashcardKeys.all })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+}
+
+export function useDeleteFlashcard() {
+  const queryClient = useQueryClient()
+  const supabase = createClient()
+
+  return useMutation({
+    mutationFn: (id: string) => flashcardsService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: flashcardKeys.all })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+}
+
+// Due lists are refreshed when the session ends, so the queue being reviewed
+// does not change under the user
+export function useReviewFlashcard() {
+  const supabase = createClient()
+
+  return useMutation({
+    mutationFn: ({ card, grade }: { card: Flashcard; grade: FlashcardGrade }) =>
+      flashcardsService.review(supabase, card, grade),
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+}
+
+export function useCompleteFlashcardSession() {
+  const queryClient = useQueryClient()
+  const supabase = createClient()
+
+  return useMutation({
+    mutationFn: (session: { reviewed: number; notebookIds: string[]; completeHabits: boolean }) =>
+      flashcardsService.completeSession(supabase, session),
+    onSuccess: (_, session) => {
+      queryClient.invalidateQueries({ queryKey: flashcardKeys.all })
+      queryClient.invalidateQueries({ queryKey: gamificationKeys.all })
+      if (session.completeHabits) {
+        queryClient.invalidateQueries({ queryKey: habitsKeys.all })
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+}
@@ -164,8 +164,20 @@ export function useUpdateGamificationStreak() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: ({ habitId, date }: { habitId: string; date: string }) =>
-      habitStreaksService.updateStreak(supabase, habitId, date),
+    mutationFn: (habitId: string) => habitStreaksService.updateStreak(supabase, habitId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: gamificationKeys.streaks() })
+      queryClient.invalidateQueries({ queryKey: gamificationKeys.stats() })
+    },
+  })
+}
+
+export function useClaimCleanDays() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (habitId: string) => habitStreaksService.claimCleanDays(supabase, habitId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: gamificationKeys.streaks() })
       queryClient.invalidateQueries({ queryKey: gamificationKeys.stats() })
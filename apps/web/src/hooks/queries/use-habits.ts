@@ -2,8 +2,16 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { createClient } from '@/lib/supabase/client'
-import { habitsService, completionsService } from '@/services/habits.service'
+import {
+  habitsService,
+  completionsService,
+  habitFreezesService,
+  vacationsService,
+  type CreateVacationData,
+} from '@/services/habits.service'
+import { isHabitDueOn } from '@/lib/habits'
 import type { Habit } from '@/types'
+import { gamificationKeys } from './use-gamification'
 
 // Query keys
 export const habitsKeys = {
@@ -18,6 +26,14 @@ export const habitsKeys = {
   details: () => [...habitsKeys.all, 'detail'] as const,
   detail: (id: string) => [...habitsKeys.details(), id] as const,
   streaks: () => [...habitsKeys.all, 'streaks'] as const,
+  freezes: () => [...habitsKeys.all, 'freezes'] as const,
+  freezesByHabit: (habitId: string) => [...habitsKeys.freezes(), habitId] as const,
+  vacations: () => [...habitsKeys.all, 'vacations'] as const,
+  history: () => [...habitsKeys.all, 'history'] as const,
+  completionsRange: (habitId: string, from: string, to: string) =>
+    [...habitsKeys.history(), 'completions', habitId, from, to] as const,
+  summaries: () => [...habitsKeys.history(), 'summaries'] as const,
+  summary: (habitId: string) => [...habitsKeys.summaries(), habitId] as const,
 }
 
 // Habits Hooks
@@ -98,6 +114,35 @@ export function useHabitStreaks() {
   })
 }
 
+export function useHabitCompletionsRange(habitId: string, from: string, to: string) {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: habitsKeys.completionsRange(habitId, from, to),
+    queryFn: () => completionsService.getRange(supabase, habitId, from, to),
+    enabled: !!habitId,
+  })
+}
+
+export function useHabitSummaries() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: habitsKeys.summaries(),
+    queryFn: () => completionsService.getSummaries(supabase),
+  })
+}
+
+export function useHabitSummary(habitId: string) {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: habitsKeys.summary(habitId),
+    queryFn: () => completionsService.getSummary(supabase, habitId),
+    enabled: !!habitId,
+  })
+}
+
 export function useCreateHabit() {
   const supabase = createClient()
   const queryClient = useQueryClient()
@@ -271,6 +316,7 @@ export function useToggleCompletion() {
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: habitsKeys.lists() })
       queryClient.invalidateQueries({ queryKey: habitsKeys.streaks() })
+      queryClient.invalidateQueries({ queryKey: habitsKeys.history() })
     },
   })
 }
@@ -338,6 +384,7 @@ export function useSetCompletionValue() {
       queryClient.invalidateQueries({ queryKey: habitsKeys.lists() })
       queryClient.invalidateQueries({ queryKey: habitsKeys.detail(variables.habitId) })
       queryClient.invalidateQueries({ queryKey: habitsKeys.streaks() })
+      queryClient.invalidateQueries({ queryKey: habitsKeys.history() })
     },
   })
 }
@@ -377,6 +424,86 @@ export function useRemoveCompletion() {
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: habitsKeys.lists() })
       queryClient.invalidateQueries({ queryKey: habitsKeys.streaks() })
+      queryClient.invalidateQueries({ queryKey: habitsKeys.history() })
+    },
+  })
+}
+
+// Avoid habits log slips on top of what was already logged that day
+export function useLogRelapse() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ habitId, date, amount }: { habitId: string; date: string; amount?: number }) =>
+      completionsService.logRelapse(supabase, habitId, date, amount),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: habitsKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: habitsKeys.detail(variables.habitId) })
+      queryClient.invalidateQueries({ queryKey: habitsKeys.streaks() })
+      queryClient.invalidateQueries({ queryKey: habitsKeys.history() })
+      queryClient.invalidateQueries({ queryKey: gamificationKeys.streaks() })
+    },
+  })
+}
+
+// Streak Freeze & Vacation Hooks
+
+export function useHabitFreezes(habitId: string) {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: habitsKeys.freezesByHabit(habitId),
+    queryFn: () => habitFreezesService.getByHabit(supabase, habitId),
+    enabled: !!habitId,
+  })
+}
+
+export function useSpendFreeze() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ habitId, date }: { habitId: string; date: string }) =>
+      habitFreezesService.spend(supabase, habitId, date),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: habitsKeys.freezesByHabit(variables.habitId) })
+      queryClient.invalidateQueries({ queryKey: habitsKeys.streaks() })
+      queryClient.invalidateQueries({ queryKey: habitsKeys.history() })
+      queryClient.invalidateQueries({ queryKey: gamificationKeys.all })
+    },
+  })
+}
+
+export function useVacations() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: habitsKeys.vacations(),
+    queryFn: () => vacationsService.getAll(supabase),
+  })
+}
+
+export function useCreateVacation() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (vacation: CreateVacationData) => vacationsService.create(supabase, vacation),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: habitsKeys.vacations() })
+    },
+  })
+}
+
+export function useDeleteVacation() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => vacationsService.delete(supabase, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: habitsKeys.vacations() })
     },
   })
 }
@@ -407,26 +534,12 @@ export function useTodayCompletions() {
 
 export function useHabitsForDate(date: string) {
   const { data: habits } = useActiveHabits()
+  const { data: vacations = [] } = useVacations()
 
   if (!habits) return { habits: [], completedCount: 0 }
 
   // Filter habits that should be done on this date based on frequency
-  const dayOfWeek = new Date(date).getDay()
-
-  const habitsForDate = habits.filter((habit) => {
-    switch (habit.frequency.type) {
-      case 'daily':
-        return true
-      case 'specificDays':
-        return habit.frequency.days.includes(dayOfWeek)
-      case 'weekly':
-      case 'monthly':
-        // For weekly/monthly, show all habits
-        return true
-      default:
-        return true
-    }
-  })
+  const habitsForDate = habits.filter((habit) => isHabitDueOn(habit, date, vacations))
 
   const completedCount = habitsForDate.filter((habit) =>
     habit.completions.some((c) => c.date === date)
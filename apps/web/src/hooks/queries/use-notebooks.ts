@@ -12,8 +12,12 @@ import type {
   UpdateNotebookData,
   CreatePageData,
   UpdatePageData,
+  PageBacklink,
+  PageLinkTargetType,
+  PageRevision,
 } from '@/types'
 import { toast } from 'sonner'
+import { flashcardKeys } from './use-flashcards'
 
 // Query keys
 export const notebookKeys = {
@@ -25,6 +29,10 @@ export const notebookKeys = {
   detail: (id: string) => [...notebookKeys.details(), id] as const,
   pages: (notebookId: string) => [...notebookKeys.all, 'pages', notebookId] as const,
   page: (id: string) => [...notebookKeys.all, 'page', id] as const,
+  allBacklinks: () => [...notebookKeys.all, 'backlinks'] as const,
+  backlinks: (targetType: PageLinkTargetType, targetId: string) =>
+    [...notebookKeys.allBacklinks(), targetType, targetId] as const,
+  revisions: (pageId: string) => [...notebookKeys.all, 'revisions', pageId] as const,
 }
 
 // =====================================================
@@ -104,6 +112,7 @@ export function useDeleteNotebook() {
     onSuccess: () => {
       // Invalidate all notebook queries to ensure fresh data
       queryClient.invalidateQueries({ queryKey: notebookKeys.all })
+      queryClient.invalidateQueries({ queryKey: flashcardKeys.all })
     },
     onError: (error: Error) => {
       toast.error(error.message)
@@ -151,6 +160,28 @@ export function usePage(id: string) {
   })
 }
 
+// Pages that link to a page or mention a task, habit or project
+export function usePageBacklinks(targetType: PageLinkTargetType, targetId: string) {
+  const supabase = createClient()
+
+  return useQuery<PageBacklink[]>({
+    queryKey: notebookKeys.backlinks(targetType, targetId),
+    queryFn: () => notebooksService.getBacklinks(supabase, targetType, targetId),
+    enabled: !!targetId,
+  })
+}
+
+// Earlier versions of a page, newest first
+export function usePageRevisions(pageId: string, enabled: boolean = true) {
+  const supabase = createClient()
+
+  return useQuery<PageRevision[]>({
+    queryKey: notebookKeys.revisions(pageId),
+    queryFn: () => notebooksService.getPageRevisions(supabase, pageId),
+    enabled: !!pageId && enabled,
+  })
+}
+
 // =====================================================
 // PAGES MUTATIONS
 // =====================================================
@@ -164,6 +195,8 @@ export function useCreatePage() {
     onSuccess: (_, { notebookId }) => {
       queryClient.invalidateQueries({ queryKey: notebookKeys.pages(notebookId) })
       queryClient.invalidateQueries({ queryKey: notebookKeys.listWithCount() })
+      queryClient.invalidateQueries({ queryKey: notebookKeys.allBacklinks() })
+      queryClient.invalidateQueries({ queryKey: flashcardKeys.all })
     },
     onError: (error: Error) => {
       toast.error(error.message)
@@ -188,6 +221,9 @@ export function useUpdatePage() {
     onSuccess: (_, { id, notebookId }) => {
       queryClient.invalidateQueries({ queryKey: notebookKeys.page(id) })
       queryClient.invalidateQueries({ queryKey: notebookKeys.pages(notebookId) })
+      queryClient.invalidateQueries({ queryKey: notebookKeys.allBacklinks() })
+      queryClient.invalidateQueries({ queryKey: notebookKeys.revisions(id) })
+      queryClient.invalidateQueries({ queryKey: flashcardKeys.all })
     },
     onError: (error: Error) => {
       toast.error(error.message)
@@ -205,6 +241,8 @@ export function useDeletePage() {
     onSuccess: (_, { notebookId }) => {
       queryClient.invalidateQueries({ queryKey: notebookKeys.pages(notebookId) })
       queryClient.invalidateQueries({ queryKey: notebookKeys.listWithCount() })
+      queryClient.invalidateQueries({ queryKey: notebookKeys.allBacklinks() })
+      queryClient.invalidateQueries({ queryKey: flashcardKeys.all })
     },
     onError: (error: Error) => {
       toast.error(error.message)
@@ -232,3 +270,24 @@ export function useReorderPages() {
     },
   })
 }
+
+export function useRestorePageRevision() {
+  const queryClient = useQueryClient()
+  const supabase = createClient()
+
+  return useMutation({
+    mutationFn: ({ revision }: { revision: PageRevision; notebookId: string }) =>
+      notebooksService.restorePageRevision(supabase, revision),
+    onSuccess: (page, { revision, notebookId }) => {
+      // The editor is rebuilt from the cached page right after restoring
+      queryClient.setQueryData(notebookKeys.page(page.id), page)
+      queryClient.invalidateQueries({ queryKey: notebookKeys.pages(notebookId) })
+      queryClient.invalidateQueries({ queryKey: notebookKeys.allBacklinks() })
+      queryClient.invalidateQueries({ queryKey: notebookKeys.revisions(revision.pageId) })
+      queryClient.invalidateQueries({ queryKey: flashcardKeys.all })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+}
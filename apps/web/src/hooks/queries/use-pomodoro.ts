@@ -0,0 +1,88 @@
+'use client'
+
+import { useEffect, useMemo } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { createClient } from '@/lib/supabase/client'
+import { pomodoroService } from '@/services/pomodoro.service'
+import { usePomodoroStore } from '@/stores/pomodoro'
+import { getTodayString } from '@/lib/utils'
+import { habitsKeys } from './use-habits'
+
+// Query keys
+export const pomodoroKeys = {
+  all: ['pomodoro'] as const,
+  sessions: () => [...pomodoroKeys.all, 'sessions'] as const,
+  taskMinutes: () => [...pomodoroKeys.all, 'taskMinutes'] as const,
+}
+
+export interface PomodoroStats {
+  todaySessions: number
+  todayMinutes: number
+  totalMinutes: number
+}
+
+export function usePomodoroSessions() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: pomodoroKeys.sessions(),
+    queryFn: () => pomodoroService.getAll(supabase),
+  })
+}
+
+export function useTaskFocusMinutes() {
+  const supabase = createClient()
+
+  return useQuery({
+    queryKey: pomodoroKeys.taskMinutes(),
+    queryFn: () => pomodoroService.getFocusMinutesByTask(supabase),
+  })
+}
+
+// Uploads sessions the store still holds locally (completed while offline or
+// logged out, or recorded before sessions were synced) and drops them once saved
+export function useSyncPomodoroSessions() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+  const pendingSessions = usePomodoroStore((state) => state.sessions)
+  const markSessionsSynced = usePomodoroStore((state) => state.markSessionsSynced)
+
+  useEffect(() => {
+    if (pendingSessions.length === 0) return
+
+    pomodoroService
+      .importSessions(supabase, pendingSessions)
+      .then(() => {
+        markSessionsSynced(pendingSessions.map((s) => s.id))
+        queryClient.invalidateQueries({ queryKey: pomodoroKeys.all })
+        // Sessions linked to a habit log minutes into its completions
+        if (pendingSessions.some((s) => s.habitId)) {
+          queryClient.invalidateQueries({ queryKey: habitsKeys.all })
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to sync pomodoro sessions:', error)
+      })
+  }, [supabase, queryClient, pendingSessions, markSessionsSynced])
+}
+
+export function usePomodoroStats(): PomodoroStats {
+  const { data: sessions = [] } = usePomodoroSessions()
+  const pendingSessions = usePomodoroStore((state) => state.sessions)
+
+  return useMemo(() => {
+    const today = getTodayString()
+    const syncedAt = new Set(sessions.map((s) => s.completedAt))
+    const allSessions = [
+      ...sessions,
+      ...pendingSessions.filter((s) => !syncedAt.has(s.completedAt)),
+    ]
+    const todaySessions = allSessions.filter((s) => s.date === today)
+
+    return {
+      todaySessions: todaySessions.length,
+      todayMinutes: todaySessions.reduce((sum, s) => sum + s.focusMinutes, 0),
+      totalMinutes: allSessions.reduce((sum, s) => sum + s.focusMinutes, 0),
+    }
+  }, [sessions, pendingSessions])
+}
@@ -0,0 +1,26 @@
+'use client'
+
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
+import { createClient } from '@/lib/supabase/client'
+import { searchService } from '@/services/search.service'
+import type { SearchResult } from '@/types'
+
+// Query keys
+export const searchKeys = {
+  all: ['search'] as const,
+  results: (query: string) => [...searchKeys.all, query] as const,
+}
+
+// Ranked matches across pages, tasks, habits, projects, objectives and
+// transactions; the previous results stay on screen while the next query loads
+export function useSearch(query: string) {
+  const supabase = createClient()
+  const trimmed = query.trim()
+
+  return useQuery<SearchResult[]>({
+    queryKey: searchKeys.results(trimmed),
+    queryFn: () => searchService.search(supabase, trimmed),
+    enabled: trimmed.length > 0,
+    placeholderData: keepPreviousData,
+  })
+}
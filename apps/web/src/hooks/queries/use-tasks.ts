@@ -1,8 +1,16 @@
 'use client'
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
 import { createClient } from '@/lib/supabase/client'
-import { tasksService, subtasksService } from '@/services/tasks.service'
+import {
+  tasksService,
+  subtasksService,
+  taskDependenciesService,
+} from '@/services/tasks.service'
+import { isTaskBlocked } from '@/lib/tasks'
+import { sendTaskUnblockedNotification } from '@/lib/notifications'
+import { useSettingsStore } from '@/stores/settings'
 import type { Task, TaskStatus } from '@/types'
 
 // Query keys
@@ -95,7 +103,7 @@ export function useCreateTask() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (task: Omit<Task, 'id' | 'createdAt' | 'subtasks'>) =>
+    mutationFn: (task: Omit<Task, 'id' | 'createdAt' | 'subtasks' | 'blockedBy'>) =>
       tasksService.create(supabase, task),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: tasksKeys.lists() })
@@ -113,7 +121,7 @@ export function useUpdateTask() {
       updates,
     }: {
       id: string
-      updates: Partial<Omit<Task, 'id' | 'createdAt' | 'subtasks'>>
+      updates: Partial<Omit<Task, 'id' | 'createdAt' | 'subtasks' | 'blockedBy'>>
     }) => tasksService.update(supabase, id, updates),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: tasksKeys.lists() })
@@ -178,6 +186,14 @@ export function useSetTaskStatus() {
         queryClient.setQueryData(tasksKeys.list(), context.previousTasks)
       }
     },
+    onSuccess: ({ unblockedTasks }) => {
+      // Finishing the last blocker makes its dependents actionable
+      const notificationsEnabled = useSettingsStore.getState().notificationsEnabled
+      for (const task of unblockedTasks) {
+        toast.success(`Tarefa desbloqueada: ${task.title}`)
+        if (notificationsEnabled) sendTaskUnblockedNotification(task.title, task.id)
+      }
+    },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: tasksKeys.lists() })
       queryClient.invalidateQueries({ queryKey: ['finances', 'transactions'] })
@@ -294,13 +310,32 @@ export function useDeleteSubtask() {
   })
 }
 
+// Dependency Hooks
+
+export function useSetTaskBlockers() {
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ taskId, blockedByIds }: { taskId: string; blockedByIds: string[] }) =>
+      taskDependenciesService.setBlockers(supabase, taskId, blockedByIds),
+    onSuccess: (_data, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: tasksKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: tasksKeys.detail(taskId) })
+    },
+  })
+}
+
 // Helper hooks
 
 export function useTodayTasks() {
   const { data: tasks, isLoading } = useTasks()
   const today = new Date().toISOString().split('T')[0]
 
-  const filteredTasks = tasks?.filter((task) => task.dueDate === today && task.status !== 'done') ?? []
+  // Blocked tasks stay out of today's list until their blockers are done
+  const filteredTasks = tasks?.filter(
+    (task) => task.dueDate === today && task.status !== 'done' && !isTaskBlocked(task, tasks)
+  ) ?? []
 
   return { tasks: filteredTasks, isLoading }
 }
@@ -323,13 +358,14 @@ export function useTodayAndOverdueTasks() {
   const { data: tasks, isLoading } = useTasks()
   const today = new Date().toISOString().split('T')[0]
 
-  const todayTasks = tasks?.filter(
-    (task) => task.dueDate === today && task.status !== 'done'
+  // Blocked tasks can't be worked on yet, so they are left out of both lists
+  const openTasks = tasks?.filter(
+    (task) => task.status !== 'done' && !isTaskBlocked(task, tasks)
   ) ?? []
 
-  const overdueTasks = tasks?.filter(
-    (task) => task.dueDate && task.dueDate < today && task.status !== 'done'
-  ) ?? []
+  const todayTasks = openTasks.filter((task) => task.dueDate === today)
+
+  const overdueTasks = openTasks.filter((task) => task.dueDate && task.dueDate < today)
 
   // Combined list with overdue tasks first (sorted by priority), then today's tasks (sorted by priority)
   const allTasks = [
@@ -0,0 +1,249 @@
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { describe, it, expect } from 'vitest'
+import {
+  CSV_PRESETS,
+  buildImportPreview,
+  decodeStatement,
+  detectCsvPreset,
+  parseCsv,
+  parseOfx,
+  parseStatement,
+  parseStatementAmount,
+} from './bank-import'
+
+function readFixture(name: string): string {
+  return readFileSync(join(__dirname, '__fixtures__', 'bank-statements', name), 'utf-8')
+}
+
+describe('bank statement import', () => {
+  describe('parseOfx', () => {
+    it('should parse SGML OFX statements', () => {
+      const transactions = parseOfx(readFixture('statement.ofx'))
+
+      expect(transactions).toEqual([
+        {
+          date: '2024-01-05',
+          amount: 45.9,
+          type: 'expense',
+          description: 'SUPERMERCADO BOM PRECO',
+          externalId: '202401050001',
+        },
+        {
+          date: '2024-01-10',
+          amount: 5000,
+          type: 'income',
+          description: 'SALARIO ACME LTDA',
+          externalId: '202401100002',
+        },
+        {
+          date: '2024-01-15',
+          amount: 120,
+          type: 'expense',
+          description: 'PIX ENVIADO Joao Silva',
+          externalId: '202401150003',
+        },
+      ])
+    })
+
+    it('should parse XML QFX statements', () => {
+      expect(parseOfx(readFixture('statement-v2.qfx'))).toEqual([
+        {
+          date: '2024-02-03',
+          amount: 12.5,
+          type: 'expense',
+          description: 'COFFEE SHOP',
+          externalId: 'QFX-1',
+        },
+      ])
+    })
+  })
+
+  describe('parseCsv', () => {
+    it('should parse Nubank account exports', () => {
+      const transactions = parseCsv(readFixture('nubank.csv'), CSV_PRESETS.nubank)
+
+      expect(transactions).toHaveLength(3)
+      expect(transactions[0]).toEqual({
+        date: '2024-01-05',
+        amount: 45.9,
+        type: 'expense',
+        description: 'Compra no débito - Padaria Pão Quente',
+        externalId: '6597a1b2-0001',
+      })
+      expect(transactions[1]).toMatchObject({
+        type: 'income',
+        amount: 1500,
+        description: 'Transferência recebida pelo Pix - MARIA SOUZA - 123.456.789-00',
+      })
+    })
+
+    it('should treat positive card amounts as expenses', () => {
+      const transactions = parseCsv(readFixture('nubank-card.csv'), CSV_PRESETS.nubankCard)
+
+      expect(transactions.map((t) => [t.type, t.amount])).toEqual([
+        ['expense', 23.45],
+        ['expense', 55.9],
+        ['income', 23.45],
+      ])
+    })
+
+    it('should parse Itaú exports with decimal commas and quoted fields', () => {
+      const transactions = parseCsv(readFixture('itau.csv'), CSV_PRESETS.itau)
+
+      expect(transactions.map((t) => [t.date, t.amount, t.description])).toEqual([
+        ['2024-01-05', 45.9, 'SUPERMERCADO BOM PRECO'],
+        ['2024-01-10', 5000, 'TED RECEBIDA ACME'],
+        ['2024-01-15', 120, 'PIX ENVIADO; JOAO'],
+      ])
+    })
+
+    it('should support custom layouts', () => {
+      const content = 'Amount\tWhen\tWhat\n(12.00)\t02/29/2024\tBook store\n'
+
+      expect(
+        parseCsv(content, {
+          delimiter: '\t',
+          hasHeader: true,
+          dateColumn: 'When',
+          descriptionColumn: 'What',
+          amountColumn: 'Amount',
+          dateFormat: 'MM/DD/YYYY',
+          decimalSeparator: '.',
+        })
+      ).toEqual([{ date: '2024-02-29', amount: 12, type: 'expense', description: 'Book store' }])
+    })
+
+    it('should fail on missing columns', () => {
+      expect(() => parseCsv('a,b\n1,2', CSV_PRESETS.nubankCard)).toThrow('Column not found')
+    })
+  })
+
+  describe('parseStatementAmount', () => {
+    it('should handle currency symbols and thousands separators', () => {
+      expect(parseStatementAmount('R$ -1.234,56', ',')).toBe(-1234.56)
+      expect(parseStatementAmount('1,234.56', '.')).toBe(1234.56)
+      expect(() => parseStatementAmount('abc', '.')).toThrow('Invalid statement amount')
+    })
+  })
+
+  describe('detectCsvPreset / parseStatement', () => {
+    it('should recognise bank exports by their first line', () => {
+      expect(detectCsvPreset(readFixture('nubank.csv'))).toBe('nubank')
+      expect(detectCsvPreset(readFixture('nubank-card.csv'))).toBe('nubankCard')
+      expect(detectCsvPreset(readFixture('itau.csv'))).toBe('itau')
+      expect(detectCsvPreset('foo,bar\n1,2')).toBeNull()
+    })
+
+    it('should pick the parser from the content', () => {
+      expect(parseStatement(readFixture('statement.ofx'))).toHaveLength(3)
+      expect(parseStatement(readFixture('itau.csv'))).toHaveLength(3)
+      expect(() => parseStatement('foo,bar\n1,2')).toThrow('Unrecognized statement format')
+    })
+  })
+
+  describe('decodeStatement', () => {
+    const windows1252 = (text: string) => new Uint8Array(Buffer.from(text, 'latin1'))
+    const utf8 = (text: string) => new Uint8Array(Buffer.from(text, 'utf-8'))
+
+    it('should read OFX 1.x files in the declared code page', () => {
+      const content = 'ENCODING:USASCII\nCHARSET:1252\n\n<OFX><MEMO>PADARIA PÃO</OFX>'
+
+      expect(decodeStatement(windows1252(content))).toBe(content)
+    })
+
+    it('should read OFX files declaring UTF-8 as UTF-8', () => {
+      const sgml = 'ENCODING:UTF-8\nCHARSET:NONE\n\n<OFX><MEMO>PADARIA PÃO</OFX>'
+      const xml = '<?xml version="1.0" encoding="UTF-8"?>\n<OFX><MEMO>PADARIA PÃO</MEMO></OFX>'
+
+      expect(decodeStatement(utf8(sgml))).toBe(sgml)
+      expect(decodeStatement(utf8(xml))).toBe(xml)
+    })
+
+    it('should read CSVs as UTF-8 and fall back to windows-1252', () => {
+      const content = '05/01/2024;Padaria Pão de Açúcar;-45,90'
+
+      expect(decodeStatement(utf8(content))).toBe(content)
+      expect(decodeStatement(windows1252(content))).toBe(content)
+    })
+
+    it('should drop the byte order mark', () => {
+      expect(decodeStatement(utf8('\uFEFFData,Valor'))).toBe('Data,Valor')
+    })
+  })
+
+  describe('buildImportPreview', () => {
+    const imported = parseOfx(readFixture('statement.ofx'))
+
+    it('should flag rows matching an existing transaction', () => {
+      const existing = [
+        {
+          id: 'tx-1',
+          date: '2024-01-05',
+          type: 'expense' as const,
+          amount: 45.9,
+          description: 'Supermercado Bom Preço',
+        },
+        {
+          id: 'tx-2',
+          date: '2024-01-15',
+          type: 'expense' as const,
+          amount: 100,
+          description: 'PIX ENVIADO Joao Silva',
+        },
+      ]
+
+      const preview = buildImportPreview(imported, existing)
+
+      expect(preview.map((row) => row.duplicateOfId)).toEqual(['tx-1', undefined, undefined])
+    })
+
+    it('should match each existing transaction only once', () => {
+      const coffee = { date: '2024-01-05', amount: 8, type: 'expense' as const, description: 'Café' }
+      const existing = [{ id: 'tx-1', ...coffee, description: 'cafe' }]
+
+      const preview = buildImportPreview([coffee, coffee], existing)
+
+      expect(preview.map((row) => row.duplicateOfId)).toEqual(['tx-1', undefined])
+    })
+
+    it('should match on the bank identifier first', () => {
+      const existing = [
+        {
+          id: 'tx-1',
+          date: '2024-01-10',
+          type: 'income' as const,
+          amount: 5000,
+          description: 'Salário',
+        },
+        {
+          id: 'tx-2',
+          date: '2024-01-11',
+          type: 'income' as const,
+          amount: 4800,
+          description: 'Salário de janeiro',
+          externalId: '202401100002',
+        },
+      ]
+
+      const preview = buildImportPreview(imported, existing)
+
+      expect(preview.map((row) => row.duplicateOfId)).toEqual([undefined, 'tx-2', undefined])
+    })
+
+    it('should not pair transactions with different bank identifiers', () => {
+      const coffee = { date: '2024-01-05', amount: 8, type: 'expense' as const, description: 'Café' }
+      const existing = [{ id: 'tx-1', ...coffee, externalId: 'fitid-1' }]
+
+      const preview = buildImportPreview(
+        [
+          { ...coffee, externalId: 'fitid-2' },
+          { ...coffee, externalId: 'fitid-1' },
+        ],
+        existing
+      )
+
+      expect(preview.map((row) => row.duplicateOfId)).toEqual([undefined, 'tx-1'])
+    })
+  })
+})
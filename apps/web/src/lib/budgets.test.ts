@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateBudgetStatuses,
+  calculateEnvelopeSummary,
+  getBudgetedCategoryIds,
+  getMonthlyAllocation,
+} from './budgets'
+import type { Budget, BudgetTemplate, Transaction } from '@/types/finances'
+
+function template(overrides: Partial<BudgetTemplate> = {}): BudgetTemplate {
+  return {
+    id: 'tpl-1',
+    categoryId: 'food',
+    amount: 500,
+    period: 'monthly',
+    rollover: false,
+    startMonth: '2024-01',
+    createdAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+function budget(overrides: Partial<Budget> = {}): Budget {
+  return {
+    id: 'budget-1',
+    categoryId: 'food',
+    monthlyLimit: 300,
+    month: '2024-02',
+    ...overrides,
+  }
+}
+
+function transaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'txn-1',
+    type: 'expense',
+    amount: 100,
+    categoryId: 'food',
+    description: 'Mercado',
+    date: '2024-01-15',
+    isRecurring: false,
+    createdAt: '2024-01-15T10:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('budgets', () => {
+  describe('getMonthlyAllocation', () => {
+    it('should prefer the single-month budget over the template', () => {
+      expect(getMonthlyAllocation('2024-02', template(), budget())).toBe(300)
+      expect(getMonthlyAllocation('2024-03', template(), undefined)).toBe(500)
+    })
+
+    it('should spread yearly templates across months', () => {
+      expect(getMonthlyAllocation('2024-05', template({ period: 'yearly', amount: 1200 }), undefined)).toBe(100)
+    })
+
+    it('should not allocate before the template starts', () => {
+      expect(getMonthlyAllocation('2023-12', template(), undefined)).toBe(0)
+    })
+  })
+
+  describe('getBudgetedCategoryIds', () => {
+    it('should combine started templates and single-month budgets', () => {
+      const templates = [template(), template({ id: 'tpl-2', categoryId: 'fun', startMonth: '2024-06' })]
+      const budgets = [budget(), budget({ id: 'budget-2', categoryId: 'health' })]
+
+      expect(getBudgetedCategoryIds('2024-02', budgets, templates)).toEqual(['food', 'health'])
+      expect(getBudgetedCategoryIds('2024-06', budgets, templates)).toEqual(['food', 'fun'])
+    })
+  })
+
+  describe('calculateBudgetStatuses', () => {
+    const transactions = [
+      transaction({ id: 'jan', amount: 400, date: '2024-01-10' }),
+      transaction({ id: 'feb', amount: 650, date: '2024-02-10' }),
+      transaction({ id: 'mar', amount: 200, date: '2024-03-10' }),
+      transaction({ id: 'other', amount: 999, categoryId: 'fun', date: '2024-03-10' }),
+      transaction({ id: 'income', type: 'income', amount: 999, date: '2024-03-10' }),
+    ]
+
+    it('should carry templates to new months without rollover', () => {
+      const [status] = calculateBudgetStatuses('2024-03', [], [template()], transactions)
+
+      expect(status).toMatchObject({
+        categoryId: 'food',
+        allocated: 500,
+        carried: 0,
+        available: 500,
+        spent: 200,
+        remaining: 300,
+        percentage: 40,
+      })
+    })
+
+    it('should roll over unspent and overspent amounts', () => {
+      const templates = [template({ rollover: true })]
+
+      // January leaves 100, February overspends by 150
+      expect(calculateBudgetStatuses('2024-02', [], templates, transactions)[0]).toMatchObject({
+        carried: 100,
+        available: 600,
+        remaining: -50,
+      })
+      expect(calculateBudgetStatuses('2024-03', [], templates, transactions)[0]).toMatchObject({
+        carried: -50,
+        available: 450,
+        remaining: 250,
+      })
+    })
+
+    it('should use single-month budgets in the rollover', () => {
+      const templates = [template({ rollover: true })]
+      const [status] = calculateBudgetStatuses('2024-03', [budget({ monthlyLimit: 800 })], templates, transactions)
+
+      expect(status.carried).toBe(100 + 800 - 650)
+    })
+
+    it('should not carry spending from months without a budget', () => {
+      const templates = [template({ rollover: true, startMonth: '2024-02' })]
+      const legacy = budget({ month: '2023-06' })
+      const [status] = calculateBudgetStatuses('2024-03', [legacy], templates, transactions)
+
+      // January was not budgeted; February overspends by 150
+      expect(status.carried).toBe(-150)
+    })
+
+    it('should roll over every category in envelope mode', () => {
+      const [status] = calculateBudgetStatuses('2024-03', [], [template()], transactions, {
+        envelopeMode: true,
+      })
+
+      expect(status.carried).toBe(-50)
+    })
+
+    it('should accumulate yearly budgets within the year', () => {
+      const ipva = template({ categoryId: 'taxes', period: 'yearly', amount: 2400, startMonth: '2024-01' })
+      const payments = [transaction({ categoryId: 'taxes', amount: 1500, date: '2024-01-20' })]
+
+      const [march] = calculateBudgetStatuses('2024-03', [], [ipva], payments)
+      expect(march).toMatchObject({ period: 'yearly', allocated: 200, carried: -1100, remaining: -900 })
+
+      // A new year starts over unless the template rolls over
+      expect(calculateBudgetStatuses('2025-01', [], [ipva], payments)[0].carried).toBe(0)
+      expect(
+        calculateBudgetStatuses('2025-01', [], [{ ...ipva, rollover: true }], payments)[0].carried
+      ).toBe(2400 - 1500)
+    })
+
+    it('should count credit card purchases in their statement month', () => {
+      const [status] = calculateBudgetStatuses(
+        '2024-02',
+        [],
+        [template()],
+        [transaction({ date: '2024-01-28', statementMonth: '2024-02' })]
+      )
+
+      expect(status.spent).toBe(100)
+    })
+
+    it('should convert foreign expenses to the base currency', () => {
+      const conversion = {
+        baseCurrency: 'BRL' as const,
+        rates: [
+          {
+            id: 'rate-1',
+            fromCurrency: 'USD' as const,
+            toCurrency: 'BRL' as const,
+            rate: 5,
+            date: '2024-01-01',
+            createdAt: '2024-01-01T00:00:00Z',
+          },
+        ],
+      }
+      const [status] = calculateBudgetStatuses(
+        '2024-01',
+        [],
+        [template()],
+        [transaction({ amount: 20, currency: 'USD' })],
+        { conversion }
+      )
+
+      expect(status.spent).toBe(100)
+    })
+
+    it('should report full usage when nothing is available', () => {
+      const [status] = calculateBudgetStatuses('2024-01', [budget({ month: '2024-01', monthlyLimit: 0 })], [], [
+        transaction(),
+      ])
+
+      expect(status.percentage).toBe(100)
+    })
+  })
+
+  describe('calculateEnvelopeSummary', () => {
+    it('should carry unassigned income forward', () => {
+      const transactions = [
+        transaction({ id: 'salary-jan', type: 'income', amount: 3000, categoryId: 'salary', date: '2024-01-05' }),
+        transaction({ id: 'salary-feb', type: 'income', amount: 3000, categoryId: 'salary', date: '2024-02-05' }),
+      ]
+      const templates = [template({ amount: 1000 }), template({ id: 'tpl-2', categoryId: 'rent', amount: 1500 })]
+
+      expect(calculateEnvelopeSummary('2024-02', [], templates, transactions)).toEqual({
+        income: 3000,
+        assigned: 2500,
+        toAssign: 1000,
+      })
+    })
+
+    it('should report only the month income without budgets', () => {
+      const income = transaction({ type: 'income', amount: 2000 })
+
+      expect(calculateEnvelopeSummary('2024-01', [], [], [income])).toEqual({
+        income: 2000,
+        assigned: 0,
+        toAssign: 2000,
+      })
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import type {
+  Budget,
+  BudgetStatus,
+  BudgetTemplate,
+  CurrencyConversion,
+  EnvelopeSummary,
+  Transaction,
+} from '@/types/finances'
+import { getBudgetMonth, toBaseAmount } from './finances'
+import { shiftMonth } from './credit-card'
+
+export type BudgetTemplateInput = Omit<BudgetTemplate, 'id' | 'createdAt'>
+
+type MonthTotals = Map<string, number>
+
+function addToTotals(totals: Map<string, MonthTotals>, key: string, month: string, amount: number) {
+  const months = totals.get(key) ?? new Map<string, number>()
+  months.set(month, (months.get(month) ?? 0) + amount)
+  totals.set(key, months)
+}
+
+// Expenses per category and budget month, in the base currency
+function getSpentByCategory(
+  transactions: Transaction[],
+  conversion?: CurrencyConversion
+): Map<string, MonthTotals> {
+  const spent = new Map<string, MonthTotals>()
+  for (const t of transactions) {
+    if (t.type !== 'expense') continue
+    addToTotals(spent, t.categoryId, getBudgetMonth(t), toBaseAmount(t, conversion))
+  }
+  return spent
+}
+
+/**
+ * Amount budgeted for a category in `month`. A single-month budget wins over
+ * the template; yearly templates contribute a twelfth of their amount.
+ */
+export function getMonthlyAllocation(
+  month: string,
+  template: BudgetTemplate | undefined,
+  override: Budget | undefined
+): number {
+  if (override) return override.monthlyLimit
+  if (!template || template.startMonth > month) return 0
+  return template.period === 'yearly' ? template.amount / 12 : template.amount
+}
+
+/**
+ * Categories with a budget in `month`, either from a template already started
+ * or from a single-month budget.
+ */
+export function getBudgetedCategoryIds(
+  month: string,
+  budgets: Budget[],
+  templates: BudgetTemplate[]
+): string[] {
+  const ids = templates.filter((t) => t.startMonth <= month).map((t) => t.categoryId)
+  for (const budget of budgets) {
+    if (budget.month === month && !ids.includes(budget.categoryId)) ids.push(budget.categoryId)
+  }
+  return ids
+}
+
+// First month a category was budgeted, where rollover starts accumulating
+function getFirstBudgetMonth(
+  categoryId: string,
+  budgets: Budget[],
+  template: BudgetTemplate | undefined
+): string | undefined {
+  const months = budgets.filter((b) => b.categoryId === categoryId).map((b) => b.month)
+  if (template) months.push(template.startMonth)
+  return months.sort()[0]
+}
+
+/**
+ * Spent, carried and remaining amounts for every category budgeted in `month`.
+ *
+ * Without rollover each month starts from its own allocation. With rollover
+ * (or in envelope mode) the leftover of every previous month, positive or
+ * negative, is carried forward until a month without a budget. Yearly budgets always accumulate within the
+ * calendar year, so an irregular expense paid in one month is covered by the
+ * shares of the others; they only carry across years with rollover on.
+ */
+export function calculateBudgetStatuses(
+  month: string,
+  budgets: Budget[],
+  templates: BudgetTemplate[],
+  transactions: Transaction[],
+  options: { conversion?: CurrencyConversion; envelopeMode?: boolean } = {}
+): BudgetStatus[] {
+  const spentByCategory = getSpentByCategory(transactions, options.conversion)
+
+  return getBudgetedCategoryIds(month, budgets, templates).map((categoryId) => {
+    const template = templates.find((t) => t.categoryId === categoryId)
+    const overrides = new Map(
+      budgets.filter((b) => b.categoryId === categoryId).map((b) => [b.month, b])
+    )
+    const spentByMonth = spentByCategory.get(categoryId)
+    const period = template?.period ?? 'monthly'
+    const rollsOver = options.envelopeMode || template?.rollover === true
+
+    let carried = 0
+    let current = getFirstBudgetMonth(categoryId, budgets, template) ?? month
+    while (current < month) {
+      const override = overrides.get(current)
+      if (!override && (!template || template.startMonth > current)) {
+        // Nothing was budgeted this month (e.g. between an old single-month
+        // budget and the template), so there is nothing to carry past it
+        carried = 0
+      } else {
+        carried +=
+          getMonthlyAllocation(current, template, override) - (spentByMonth?.get(current) ?? 0)
+      }
+      current = shiftMonth(current, 1)
+      if (!rollsOver && (period === 'monthly' || current.endsWith('-01'))) carried = 0
+    }
+
+    const budget = overrides.get(month)
+    const allocated = getMonthlyAllocation(month, template, budget)
+    const spent = spentByMonth?.get(month) ?? 0
+    const available = allocated + carried
+    const remaining = available - spent
+
+    return {
+      categoryId,
+      period,
+      allocated,
+      carried,
+      available,
+      spent,
+      remaining,
+      percentage: available > 0 ? (spent / available) * 100 : spent > 0 ? 100 : 0,
+      template,
+      budget,
+    }
+  })
+}
+
+/**
+ * Envelope mode: income received versus income allocated to categories.
+ * Unallocated income carries over, so `toAssign` covers every month since
+ * the first budget.
+ */
+export function calculateEnvelopeSummary(
+  month: string,
+  budgets: Budget[],
+  templates: BudgetTemplate[],
+  transactions: Transaction[],
+  conversion?: CurrencyConversion
+): EnvelopeSummary {
+  const incomeByMonth = new Map<string, number>()
+  for (const t of transactions) {
+    if (t.type !== 'income') continue
+    const m = t.date.slice(0, 7)
+    incomeByMonth.set(m, (incomeByMonth.get(m) ?? 0) + toBaseAmount(t, conversion))
+  }
+
+  const assignedIn = (m: string) =>
+    getBudgetedCategoryIds(m, budgets, templates).reduce(
+      (sum, categoryId) =>
+        sum +
+        getMonthlyAllocation(
+          m,
+          templates.find((t) => t.categoryId === categoryId),
+          budgets.find((b) => b.categoryId === categoryId && b.month === m)
+        ),
+      0
+    )
+
+  const firstMonth =
+    [...budgets.map((b) => b.month), ...templates.map((t) => t.startMonth)].sort()[0] ?? month
+
+  let toAssign = 0
+  for (let m = firstMonth; m < month; m = shiftMonth(m, 1)) {
+    toAssign += (incomeByMonth.get(m) ?? 0) - assignedIn(m)
+  }
+
+  const income = incomeByMonth.get(month) ?? 0
+  const assigned = assignedIn(month)
+
+  return { income, assigned, toAssign: toAssign + income - assigned }
+}
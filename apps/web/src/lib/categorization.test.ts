@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyCategorizationRules,
+  findMatchingRule,
+  getRuleChanges,
+  isUncategorized,
+  matchesRule,
+  suggestCategory,
+} from './categorization'
+import type { CategorizationRule, Transaction, TransactionCategory } from '@/types/finances'
+
+function rule(overrides: Partial<CategorizationRule> = {}): CategorizationRule {
+  return {
+    id: 'rule-1',
+    name: 'Rule',
+    priority: 0,
+    isActive: true,
+    categoryId: 'food',
+    createdAt: '2024-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+function transaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'txn-1',
+    type: 'expense',
+    amount: 50,
+    categoryId: 'other-expense',
+    description: 'IFOOD *Restaurante',
+    date: '2024-01-15',
+    tags: [],
+    isRecurring: false,
+    createdAt: '2024-01-15T10:00:00Z',
+    ...overrides,
+  }
+}
+
+const categories: Pick<TransactionCategory, 'id' | 'type'>[] = [
+  { id: 'work-meals', type: 'expense' },
+]
+
+describe('categorization', () => {
+  describe('matchesRule', () => {
+    it('should match descriptions ignoring case and accents', () => {
+      const padaria = rule({ descriptionMatch: 'contains', descriptionPattern: 'pão quente' })
+
+      expect(matchesRule(padaria, transaction({ description: 'PADARIA PAO QUENTE' }))).toBe(true)
+      expect(matchesRule(padaria, transaction({ description: 'Mercado' }))).toBe(false)
+    })
+
+    it('should match regular expressions and ignore invalid ones', () => {
+      const uber = rule({ descriptionMatch: 'regex', descriptionPattern: '^uber\\s*\\*?trip' })
+
+      expect(matchesRule(uber, transaction({ description: 'UBER *TRIP 1234' }))).toBe(true)
+      expect(matchesRule(uber, transaction({ description: 'Uber Eats' }))).toBe(false)
+      expect(
+        matchesRule(rule({ descriptionMatch: 'regex', descriptionPattern: '(' }), transaction())
+      ).toBe(false)
+    })
+
+    it('should check amount range, type, payment method and tags', () => {
+      const conditions = rule({
+        transactionType: 'expense',
+        minAmount: 10,
+        maxAmount: 50,
+        paymentMethod: 'credit',
+        requiredTags: ['work'],
+      })
+      const matching = transaction({ paymentMethod: 'credit', tags: ['work', 'lunch'] })
+
+      expect(matchesRule(conditions, matching)).toBe(true)
+      expect(matchesRule(conditions, { ...matching, amount: 50.01 })).toBe(false)
+      expect(matchesRule(conditions, { ...matching, type: 'income' })).toBe(false)
+      expect(matchesRule(conditions, { ...matching, paymentMethod: 'pix' })).toBe(false)
+      expect(matchesRule(conditions, { ...matching, tags: ['lunch'] })).toBe(false)
+    })
+
+    it('should only file transactions of the category type', () => {
+      const pix = rule({ descriptionPattern: 'pix', categoryId: 'food' })
+
+      expect(matchesRule(pix, transaction({ description: 'PIX ENVIADO' }))).toBe(true)
+      expect(matchesRule(pix, transaction({ type: 'income', description: 'PIX RECEBIDO' }))).toBe(
+        false
+      )
+      expect(
+        matchesRule(rule({ categoryId: 'work-meals' }), transaction({ type: 'income' }), categories)
+      ).toBe(false)
+      expect(matchesRule(rule({ categoryId: 'unknown' }), transaction())).toBe(false)
+    })
+  })
+
+  describe('findMatchingRule / applyCategorizationRules', () => {
+    const rules = [
+      rule({ id: 'generic', priority: 2, descriptionPattern: 'ifood', categoryId: 'food' }),
+      rule({
+        id: 'office',
+        priority: 1,
+        descriptionPattern: 'ifood',
+        requiredTags: ['work'],
+        categoryId: 'work-meals',
+        addTags: ['reimbursable', 'work'],
+      }),
+      rule({ id: 'disabled', priority: 0, isActive: false, categoryId: 'other' }),
+    ]
+
+    it('should pick the first active rule by priority', () => {
+      expect(findMatchingRule(rules, transaction(), categories)?.id).toBe('generic')
+      expect(findMatchingRule(rules, transaction({ tags: ['work'] }), categories)?.id).toBe('office')
+    })
+
+    it('should set the category and merge tags', () => {
+      expect(applyCategorizationRules(transaction({ tags: ['work'] }), rules, categories)).toMatchObject({
+        categoryId: 'work-meals',
+        tags: ['work', 'reimbursable'],
+      })
+    })
+
+    it('should leave unmatched transactions unchanged', () => {
+      const market = transaction({ description: 'Mercado' })
+
+      expect(applyCategorizationRules(market, rules, categories)).toBe(market)
+    })
+  })
+
+  describe('getRuleChanges', () => {
+    const rules = [rule({ descriptionPattern: 'ifood', categoryId: 'food', addTags: ['delivery'] })]
+
+    it('should only touch uncategorized transactions by default', () => {
+      const transactions = [
+        transaction({ id: 'a' }),
+        transaction({ id: 'b', categoryId: 'entertainment' }),
+        transaction({ id: 'c', description: 'Mercado' }),
+      ]
+
+      expect(getRuleChanges(transactions, rules, categories)).toEqual([
+        { id: 'a', categoryId: 'food', tags: ['delivery'] },
+      ])
+      expect(
+        getRuleChanges(transactions, rules, categories, { onlyUncategorized: false })
+      ).toHaveLength(2)
+    })
+
+    it('should skip transactions the rules would not change', () => {
+      const done = transaction({ categoryId: 'food', tags: ['delivery'] })
+
+      expect(getRuleChanges([done], rules, categories, { onlyUncategorized: false })).toEqual([])
+    })
+  })
+
+  describe('isUncategorized', () => {
+    it('should treat the fallback categories as uncategorized', () => {
+      expect(isUncategorized({ type: 'expense', categoryId: 'other-expense' })).toBe(true)
+      expect(isUncategorized({ type: 'income', categoryId: 'other-income' })).toBe(true)
+      expect(isUncategorized({ type: 'income', categoryId: 'other-expense' })).toBe(false)
+      expect(isUncategorized({ type: 'expense', categoryId: '' })).toBe(true)
+      expect(isUncategorized({ type: 'transfer', categoryId: 'transfer' })).toBe(false)
+    })
+  })
+
+  describe('suggestCategory', () => {
+    const history = [
+      transaction({ description: 'Uber *Trip São Paulo', categoryId: 'transport' }),
+      transaction({ description: 'UBER TRIP SAO PAULO 2401', categoryId: 'transport' }),
+      transaction({ description: 'Uber Trip Paulo', categoryId: 'entertainment' }),
+      transaction({ description: 'Uber Trip', categoryId: 'other-expense' }),
+      transaction({ type: 'income', description: 'Uber Trip Sao Paulo', categoryId: 'salary' }),
+    ]
+
+    it('should suggest the most common category of similar descriptions', () => {
+      const suggestion = suggestCategory('UBER TRIP SAO PAULO', 'expense', history)
+
+      expect(suggestion?.categoryId).toBe('transport')
+      expect(suggestion?.matches).toBe(3)
+      expect(suggestion?.confidence).toBeGreaterThan(0.6)
+    })
+
+    it('should return null without similar history', () => {
+      expect(suggestCategory('Farmácia', 'expense', history)).toBeNull()
+      expect(suggestCategory('123', 'expense', history)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildStatement,
+  getStatementDates,
+  getStatementMonth,
+  getUpcomingStatements,
+  isCreditCardAccount,
+  shiftMonth,
+  splitInstallments,
+  type CreditCardAccount,
+} from './credit-card'
+import type { Transaction } from '@/types/finances'
+
+const card: CreditCardAccount = {
+  id: 'card-1',
+  name: 'Nubank',
+  type: 'credit_card',
+  openingBalance: 0,
+  closingDay: 3,
+  dueDay: 10,
+  color: '#8b5cf6',
+  isArchived: false,
+  createdAt: '2024-01-01T00:00:00Z',
+}
+
+function transaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'txn-1',
+    type: 'expense',
+    amount: 100,
+    categoryId: 'food',
+    description: 'Mercado',
+    date: '2024-01-15',
+    accountId: 'card-1',
+    isRecurring: false,
+    createdAt: '2024-01-15T10:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('credit-card', () => {
+  describe('isCreditCardAccount', () => {
+    it('should require a credit card with closing and due days', () => {
+      expect(isCreditCardAccount(card)).toBe(true)
+      expect(isCreditCardAccount({ ...card, dueDay: undefined })).toBe(false)
+      expect(isCreditCardAccount({ ...card, type: 'checking' })).toBe(false)
+    })
+  })
+
+  describe('shiftMonth', () => {
+    it('should move across years', () => {
+      expect(shiftMonth('2024-12', 1)).toBe('2025-01')
+      expect(shiftMonth('2024-01', -1)).toBe('2023-12')
+    })
+  })
+
+  describe('getStatementMonth', () => {
+    it('should move purchases from the closing day on to the next statement', () => {
+      expect(getStatementMonth('2024-01-02', card)).toBe('2024-01')
+      expect(getStatementMonth('2024-01-03', card)).toBe('2024-02')
+      expect(getStatementMonth('2024-01-31', card)).toBe('2024-02')
+    })
+
+    it('should bill in the following month when the due day comes before closing', () => {
+      const lateClosing = { closingDay: 25, dueDay: 5 }
+
+      expect(getStatementMonth('2024-01-10', lateClosing)).toBe('2024-02')
+      expect(getStatementMonth('2024-01-26', lateClosing)).toBe('2024-03')
+      expect(getStatementMonth('2024-12-26', lateClosing)).toBe('2025-02')
+    })
+
+    it('should close on the last day of shorter months', () => {
+      const endOfMonth = { closingDay: 31, dueDay: 8 }
+
+      expect(getStatementMonth('2024-02-28', endOfMonth)).toBe('2024-03')
+      expect(getStatementMonth('2024-02-29', endOfMonth)).toBe('2024-04')
+    })
+  })
+
+  describe('getStatementDates', () => {
+    it('should return the closing and due dates of a statement', () => {
+      expect(getStatementDates('2024-02', card)).toEqual({
+        closingDate: '2024-02-03',
+        dueDate: '2024-02-10',
+      })
+      expect(getStatementDates('2024-03', { closingDay: 30, dueDay: 7 })).toEqual({
+        closingDate: '2024-02-29',
+        dueDate: '2024-03-07',
+      })
+    })
+  })
+
+  describe('splitInstallments', () => {
+    it('should bill each installment in the following statement', () => {
+      const installments = splitInstallments(
+        { amount: 100, date: '2024-01-31', description: 'TV' },
+        { count: 3, groupId: 'group-1', schedule: card }
+      )
+
+      expect(installments).toEqual([
+        {
+          amount: 33.34,
+          date: '2024-01-31',
+          description: 'TV',
+          statementMonth: '2024-02',
+          installment: { groupId: 'group-1', number: 1, count: 3 },
+        },
+        {
+          amount: 33.33,
+          date: '2024-02-29',
+          description: 'TV',
+          statementMonth: '2024-03',
+          installment: { groupId: 'group-1', number: 2, count: 3 },
+        },
+        {
+          amount: 33.33,
+          date: '2024-03-31',
+          description: 'TV',
+          statementMonth: '2024-04',
+          installment: { groupId: 'group-1', number: 3, count: 3 },
+        },
+      ])
+    })
+
+    it('should keep a single payment whole', () => {
+      expect(
+        splitInstallments({ amount: 50, date: '2024-01-02' }, { count: 1, groupId: 'g', schedule: card })
+      ).toEqual([{ amount: 50, date: '2024-01-02', statementMonth: '2024-01' }])
+    })
+  })
+
+  describe('buildStatement', () => {
+    const transactions = [
+      transaction({ id: 'a', date: '2024-01-05', amount: 120 }),
+      transaction({ id: 'b', date: '2024-01-20', amount: 30, type: 'income' }),
+      transaction({ id: 'c', date: '2023-12-20', amount: 50, statementMonth: '2024-02' }),
+      transaction({ id: 'd', date: '2024-01-02', amount: 80 }),
+      transaction({ id: 'e', date: '2024-01-10', amount: 90, accountId: 'other' }),
+      transaction({ id: 'f', type: 'transfer', accountId: 'checking', toAccountId: 'card-1' }),
+    ]
+
+    it('should total purchases minus refunds billed in the statement', () => {
+      const statement = buildStatement(card, transactions, '2024-02', '2024-01-20')
+
+      expect(statement).toMatchObject({
+        accountId: 'card-1',
+        accountName: 'Nubank',
+        closingDate: '2024-02-03',
+        dueDate: '2024-02-10',
+        status: 'open',
+        total: 140,
+      })
+      expect(statement.transactions.map((t) => t.id)).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should be closed from the closing day on', () => {
+      expect(buildStatement(card, transactions, '2024-02', '2024-02-03').status).toBe('closed')
+    })
+  })
+
+  describe('getUpcomingStatements', () => {
+    it('should list unpaid statements that are not yet due', () => {
+      const transactions = [
+        transaction({ id: 'past', date: '2024-01-01' }),
+        transaction({ id: 'open', date: '2024-01-15' }),
+        transaction({ id: 'next', date: '2024-02-15', statementMonth: '2024-03' }),
+        transaction({ id: 'refund', date: '2024-03-05', type: 'income' }),
+      ]
+
+      const statements = getUpcomingStatements(card, transactions, '2024-01-20')
+
+      expect(statements.map((s) => s.month)).toEqual(['2024-02', '2024-03'])
+    })
+  })
+})
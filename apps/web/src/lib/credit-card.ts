@@ -0,0 +1,156 @@
+import type { Account, CreditCardStatement, Transaction } from '@/types/finances'
+import { getTodayString } from './utils'
+
+type StatementSchedule = { closingDay: number; dueDay: number }
+
+export type CreditCardAccount = Account & StatementSchedule
+
+/**
+ * Month (YYYY-MM) `offset` months before or after `month`.
+ */
+export function shiftMonth(month: string, offset: number): string {
+  const [year, mon] = month.split('-').map(Number)
+  const date = new Date(year, mon - 1 + offset, 1)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+function daysInMonth(month: string): number {
+  const [year, mon] = month.split('-').map(Number)
+  return new Date(year, mon, 0).getDate()
+}
+
+// Day 31 falls on the last day of shorter months
+function dateInMonth(month: string, day: number): string {
+  return `${month}-${String(Math.min(day, daysInMonth(month))).padStart(2, '0')}`
+}
+
+/**
+ * Whether the account is a credit card with its closing and due days set.
+ */
+export function isCreditCardAccount(account: Account): account is CreditCardAccount {
+  return (
+    account.type === 'credit_card' && account.closingDay !== undefined && account.dueDay !== undefined
+  )
+}
+
+/**
+ * Statement a purchase made on `date` is billed in, identified by the month
+ * the statement is due. Purchases on or after the closing day go to the
+ * next statement.
+ */
+export function getStatementMonth(date: string, schedule: StatementSchedule): string {
+  const month = date.slice(0, 7)
+  const day = Number(date.slice(8, 10))
+  const closingMonth =
+    day < Math.min(schedule.closingDay, daysInMonth(month)) ? month : shiftMonth(month, 1)
+
+  // A due day on or before the closing day falls in the month after closing
+  return schedule.dueDay > schedule.closingDay ? closingMonth : shiftMonth(closingMonth, 1)
+}
+
+/**
+ * Closing and due dates of the statement due in `month`.
+ */
+export function getStatementDates(
+  month: string,
+  schedule: StatementSchedule
+): { closingDate: string; dueDate: string } {
+  const closingMonth = schedule.dueDay > schedule.closingDay ? month : shiftMonth(month, -1)
+
+  return {
+    closingDate: dateInMonth(closingMonth, schedule.closingDay),
+    dueDate: dateInMonth(month, schedule.dueDay),
+  }
+}
+
+/**
+ * Split a purchase into `count` monthly installments, one transaction each.
+ * Cents that do not divide evenly go to the first installment. With a
+ * statement schedule, the first installment is billed in the purchase's
+ * statement and each following one in the next.
+ */
+export function splitInstallments<T extends Pick<Transaction, 'amount' | 'date'>>(
+  purchase: T,
+  options: { count: number; groupId: string; schedule?: StatementSchedule }
+): (T & Pick<Transaction, 'statementMonth' | 'installment'>)[] {
+  const { count, groupId, schedule } = options
+  const firstStatement = schedule ? getStatementMonth(purchase.date, schedule) : undefined
+  const day = Number(purchase.date.slice(8, 10))
+
+  if (count <= 1) {
+    return [{ ...purchase, statementMonth: firstStatement }]
+  }
+
+  const totalCents = Math.round(purchase.amount * 100)
+  const installmentCents = Math.floor(totalCents / count)
+
+  return Array.from({ length: count }, (_, index) => {
+    const cents =
+      index === 0 ? totalCents - installmentCents * (count - 1) : installmentCents
+
+    return {
+      ...purchase,
+      amount: cents / 100,
+      date: dateInMonth(shiftMonth(purchase.date.slice(0, 7), index), day),
+      statementMonth: firstStatement && shiftMonth(firstStatement, index),
+      installment: { groupId, number: index + 1, count },
+    }
+  })
+}
+
+function isOnStatement(transaction: Transaction, card: CreditCardAccount, month: string): boolean {
+  if (transaction.accountId !== card.id || transaction.type === 'transfer') return false
+  return (transaction.statementMonth ?? getStatementMonth(transaction.date, card)) === month
+}
+
+/**
+ * Statement of a credit card for the month it is due. Purchases add to the
+ * total and refunds (income on the card) subtract from it; payments are
+ * transfers into the card and do not change the statement.
+ */
+export function buildStatement(
+  card: CreditCardAccount,
+  transactions: Transaction[],
+  month: string,
+  today: string = getTodayString()
+): CreditCardStatement {
+  const { closingDate, dueDate } = getStatementDates(month, card)
+  const statementTransactions = transactions.filter((t) => isOnStatement(t, card, month))
+  const total = statementTransactions.reduce(
+    (sum, t) => (t.type === 'expense' ? sum + t.amount : sum - t.amount),
+    0
+  )
+
+  return {
+    accountId: card.id,
+    accountName: card.name,
+    month,
+    closingDate,
+    dueDate,
+    status: today < closingDate ? 'open' : 'closed',
+    total: Math.round(total * 100) / 100,
+    transactions: statementTransactions,
+  }
+}
+
+/**
+ * Statements with something to pay that are not yet due, oldest first.
+ * Includes future statements that so far only hold installments.
+ */
+export function getUpcomingStatements(
+  card: CreditCardAccount,
+  transactions: Transaction[],
+  today: string = getTodayString()
+): CreditCardStatement[] {
+  const months = new Set<string>()
+  for (const t of transactions) {
+    if (t.accountId === card.id && t.type !== 'transfer') {
+      months.add(t.statementMonth ?? getStatementMonth(t.date, card))
+    }
+  }
+
+  return [...months]
+    .sort()
+    .map((month) => buildStatement(card, transactions, month, today))
+    .filter((statement) => statement.dueDate >= today && statement.total > 0)
+}
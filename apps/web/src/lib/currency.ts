@@ -1,18 +1,16 @@
 // Currency formatting and parsing utilities
 
-export type Currency = 'BRL' | 'USD' | 'EUR'
+import { CURRENCIES, type CurrencyCode } from '@/types/finances'
 
-export const CURRENCY_SYMBOLS: Record<Currency, string> = {
-  BRL: 'R$',
-  USD: '$',
-  EUR: '€',
-}
+export type Currency = CurrencyCode
 
-export const CURRENCY_LOCALE: Record<Currency, string> = {
-  BRL: 'pt-BR',
-  USD: 'en-US',
-  EUR: 'de-DE',
-}
+export const CURRENCY_SYMBOLS = Object.fromEntries(
+  Object.values(CURRENCIES).map((config) => [config.code, config.symbol])
+) as Record<Currency, string>
+
+export const CURRENCY_LOCALE = Object.fromEntries(
+  Object.values(CURRENCIES).map((config) => [config.code, config.locale])
+) as Record<Currency, string>
 
 /**
  * Formats a numeric value as a currency string without the symbol.
@@ -0,0 +1,425 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Account, AppData, Transaction } from '@/types'
+import { APP_DATA_VERSION } from '@/types'
+import { exportData, importData, restoreData } from './data'
+import {
+  habitsService,
+  completionsService,
+  habitFreezesService,
+  vacationsService,
+} from '@/services/habits.service'
+import { pomodoroService } from '@/services/pomodoro.service'
+import { tasksService, subtasksService, taskDependenciesService } from '@/services/tasks.service'
+import { projectsService, objectivesService } from '@/services/projects.service'
+import { areasService, metricsService } from '@/services/areas.service'
+import { notebooksService } from '@/services/notebooks.service'
+import {
+  transactionsService,
+  recurrenceExceptionsService,
+  accountsService,
+  categoriesService,
+  categorizationRulesService,
+  budgetsService,
+  budgetTemplatesService,
+  exchangeRatesService,
+  goalsService,
+  investmentAssetsService,
+  investmentPricesService,
+  investmentEventsService,
+  investmentSimulationsService,
+} from '@/services/finances.service'
+import {
+  userStatsService,
+  achievementsService,
+  habitStreaksService,
+} from '@/services/gamification.service'
+import { settingsService } from '@/services/settings.service'
+
+vi.mock('@/services/habits.service', () => ({
+  habitsService: { getAll: vi.fn(), getById: vi.fn(), create: vi.fn(), update: vi.fn() },
+  completionsService: { importCompletions: vi.fn() },
+  habitFreezesService: { getAll: vi.fn(), importFreezes: vi.fn() },
+  vacationsService: { getAll: vi.fn(), create: vi.fn() },
+}))
+vi.mock('@/services/pomodoro.service', () => ({
+  pomodoroService: { getAll: vi.fn(), importSessions: vi.fn() },
+}))
+vi.mock('@/services/tasks.service', () => ({
+  tasksService: { getAll: vi.fn(), create: vi.fn(), update: vi.fn() },
+  subtasksService: { add: vi.fn(), toggle: vi.fn() },
+  taskDependenciesService: { setBlockers: vi.fn() },
+}))
+vi.mock('@/services/projects.service', () => ({
+  projectsService: { getAll: vi.fn(), create: vi.fn(), update: vi.fn() },
+  objectivesService: { create: vi.fn(), update: vi.fn() },
+  milestonesService: { create: vi.fn(), update: vi.fn() },
+  projectMetricsService: { create: vi.fn(), addEntry: vi.fn() },
+}))
+vi.mock('@/services/areas.service', () => ({
+  areasService: { getAll: vi.fn(), create: vi.fn() },
+  metricsService: { getByArea: vi.fn(), create: vi.fn() },
+}))
+vi.mock('@/services/notebooks.service', () => ({
+  notebooksService: { getAll: vi.fn(), create: vi.fn(), createPage: vi.fn(), importPageRevisions: vi.fn() },
+}))
+vi.mock('@/services/flashcards.service', () => ({
+  flashcardsService: { importFlashcards: vi.fn() },
+}))
+vi.mock('@/services/finances.service', () => ({
+  transactionsService: { getAll: vi.fn(), create: vi.fn() },
+  recurrenceExceptionsService: { getAll: vi.fn(), upsert: vi.fn() },
+  accountsService: { getAll: vi.fn(), create: vi.fn(), update: vi.fn() },
+  categoriesService: { getAll: vi.fn(), create: vi.fn() },
+  categorizationRulesService: { getAll: vi.fn(), create: vi.fn() },
+  budgetsService: { getAll: vi.fn(), upsert: vi.fn() },
+  budgetTemplatesService: { getAll: vi.fn(), upsert: vi.fn() },
+  exchangeRatesService: { getAll: vi.fn(), upsertMany: vi.fn() },
+  goalsService: { getAll: vi.fn(), create: vi.fn(), addContribution: vi.fn(), update: vi.fn() },
+  investmentAssetsService: { getAll: vi.fn(), create: vi.fn() },
+  investmentPricesService: { getAll: vi.fn(), upsert: vi.fn() },
+  investmentEventsService: { getAll: vi.fn(), importEvents: vi.fn() },
+  investmentSimulationsService: { getAll: vi.fn(), create: vi.fn() },
+}))
+vi.mock('@/services/gamification.service', () => ({
+  userStatsService: { get: vi.fn(), addXp: vi.fn() },
+  achievementsService: { getAll: vi.fn(), unlock: vi.fn() },
+  habitStreaksService: { getAll: vi.fn() },
+}))
+vi.mock('@/services/settings.service', () => ({
+  settingsService: { get: vi.fn(), update: vi.fn() },
+}))
+
+const supabase = {} as SupabaseClient
+
+function createBackup(overrides: Partial<AppData> = {}): AppData {
+  return {
+    version: APP_DATA_VERSION,
+    exportedAt: '2024-01-20T00:00:00Z',
+    habits: [],
+    tasks: [],
+    projects: [],
+    areas: [],
+    metrics: [],
+    notebooks: [],
+    achievements: [],
+    streaks: [],
+    stats: null,
+    settings: null,
+    transactions: [],
+    categories: [],
+    budgets: [],
+    financialGoals: [],
+    ...overrides,
+  }
+}
+
+describe('restoreData', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(areasService.getAll).mockResolvedValue([
+      { id: 'new-health', name: 'Health', slug: 'health', color: '#22c55e', icon: 'heart', isDefault: true, order: 0, createdAt: '' },
+    ])
+  })
+
+  it('maps default areas by slug and creates custom ones', async () => {
+    vi.mocked(areasService.create).mockResolvedValue({ id: 'new-music' } as never)
+    vi.mocked(habitsService.create).mockResolvedValue({ id: 'new-habit' } as never)
+
+    await restoreData(supabase, createBackup({
+      areas: [
+        { id: 'old-health', name: 'Health', slug: 'health', color: '#22c55e', icon: 'heart', isDefault: true, order: 0, createdAt: '' },
+        { id: 'old-music', name: 'Music', slug: 'music', color: '#ec4899', icon: 'music', isDefault: false, order: 1, createdAt: '' },
+      ],
+      habits: [
+        {
+          id: 'old-habit',
+          title: 'Practice guitar',
+          areaId: 'old-music',
+          frequency: { type: 'daily' },
+          tracking: { type: 'boolean' },
+          color: '#ec4899',
+          completions: [{ date: '2024-01-15', value: 1, completedAt: '2024-01-15T10:00:00Z' }],
+          createdAt: '',
+        },
+      ],
+    }))
+
+    expect(areasService.create).toHaveBeenCalledTimes(1)
+    expect(habitsService.create).toHaveBeenCalledWith(supabase, expect.objectContaining({ areaId: 'new-music' }))
+    expect(completionsService.importCompletions).toHaveBeenCalledWith(supabase, 'new-habit', [
+      { date: '2024-01-15', value: 1, completedAt: '2024-01-15T10:00:00Z' },
+    ])
+  })
+
+  it('leaves the area of a habit unset when it is not in the backup', async () => {
+    vi.mocked(habitsService.create).mockResolvedValue({ id: 'new-habit' } as never)
+
+    await restoreData(supabase, createBackup({
+      habits: [
+        { id: 'old-habit', title: 'Read', areaId: '', frequency: { type: 'daily' }, tracking: { type: 'boolean' }, color: '#000', completions: [], createdAt: '' },
+      ],
+    }))
+
+    expect(habitsService.create).toHaveBeenCalledWith(supabase, expect.objectContaining({ areaId: undefined }))
+  })
+
+  it('restores habit history before the completions, which keep their values', async () => {
+    vi.mocked(habitsService.create).mockResolvedValue({ id: 'new-habit' } as never)
+    vi.mocked(tasksService.create).mockResolvedValue({ id: 'new-task' } as never)
+
+    await restoreData(supabase, createBackup({
+      habits: [
+        {
+          id: 'old-habit',
+          title: 'Study',
+          areaId: 'old-health',
+          frequency: { type: 'daily' },
+          tracking: { type: 'quantitative', target: 60, unit: 'min' },
+          color: '#000',
+          completions: [{ date: '2024-01-15', value: 50, completedAt: '2024-01-15T10:00:00Z' }],
+          createdAt: '',
+        },
+      ],
+      tasks: [
+        { id: 'old-task', title: 'Essay', status: 'pending', tags: [], subtasks: [], blockedBy: [], createdAt: '' },
+      ],
+      pomodoroSessions: [
+        { id: 's1', date: '2024-01-15', focusMinutes: 25, completedAt: '2024-01-15T09:25:00Z', taskId: 'old-task', habitId: 'old-habit' },
+      ],
+      habitFreezes: [
+        { id: 'f1', habitId: 'old-habit', date: '2024-01-14', createdAt: '' },
+        { id: 'f2', habitId: 'deleted-habit', date: '2024-01-14', createdAt: '' },
+      ],
+      vacations: [{ id: 'v1', startDate: '2024-01-01', endDate: '2024-01-07', createdAt: '' }],
+    }))
+
+    expect(vacationsService.create).toHaveBeenCalledWith(supabase, { startDate: '2024-01-01', endDate: '2024-01-07', note: undefined })
+    expect(habitFreezesService.importFreezes).toHaveBeenCalledWith(supabase, [{ habitId: 'new-habit', date: '2024-01-14' }])
+    expect(pomodoroService.importSessions).toHaveBeenCalledWith(supabase, [
+      { date: '2024-01-15', focusMinutes: 25, completedAt: '2024-01-15T09:25:00Z', taskId: 'new-task', habitId: 'new-habit' },
+    ])
+    const [sessionsOrder] = vi.mocked(pomodoroService.importSessions).mock.invocationCallOrder
+    const [completionsOrder] = vi.mocked(completionsService.importCompletions).mock.invocationCallOrder
+    expect(sessionsOrder).toBeLessThan(completionsOrder)
+  })
+
+  it('restores categorization rules after the transactions', async () => {
+    vi.mocked(categoriesService.create).mockResolvedValue({ id: 'new-category' } as never)
+    vi.mocked(transactionsService.create).mockResolvedValue({ id: 'new-transaction' } as never)
+
+    await restoreData(supabase, createBackup({
+      categories: [
+        { id: 'old-category', name: 'Pets', nameKey: 'pets', type: 'expense', icon: 'Dog', color: '#000', isCustom: true },
+      ],
+      transactions: [
+        { id: 't1', type: 'expense', amount: 50, categoryId: 'other-expense', description: 'Vet', date: '2024-01-10', isRecurring: false, createdAt: '' },
+      ],
+      categorizationRules: [
+        { id: 'r1', name: 'Vet', priority: 0, isActive: true, descriptionMatch: 'contains', descriptionPattern: 'vet', categoryId: 'old-category', createdAt: '' },
+      ],
+    }))
+
+    expect(categorizationRulesService.create).toHaveBeenCalledWith(supabase, expect.objectContaining({
+      name: 'Vet',
+      descriptionPattern: 'vet',
+      categoryId: 'new-category',
+    }))
+    const [transactionOrder] = vi.mocked(transactionsService.create).mock.invocationCallOrder
+    const [ruleOrder] = vi.mocked(categorizationRulesService.create).mock.invocationCallOrder
+    expect(transactionOrder).toBeLessThan(ruleOrder)
+  })
+
+  it('rewrites task foreign keys to the newly created entities', async () => {
+    vi.mocked(projectsService.create).mockResolvedValue({ id: 'new-project' } as never)
+    vi.mocked(objectivesService.create).mockResolvedValue({ id: 'new-objective' } as never)
+    vi.mocked(notebooksService.create).mockResolvedValue({ id: 'new-notebook' } as never)
+    vi.mocked(notebooksService.createPage).mockResolvedValue({ id: 'new-page' } as never)
+    vi.mocked(transactionsService.create).mockResolvedValue({ id: 'new-transaction' } as never)
+    vi.mocked(tasksService.create).mockResolvedValue({ id: 'new-task' } as never)
+    vi.mocked(subtasksService.add).mockResolvedValue({ id: 'new-subtask' } as never)
+
+    await restoreData(supabase, createBackup({
+      projects: [
+        {
+          id: 'old-project',
+          title: 'Launch',
+          status: 'active',
+          createdAt: '',
+          objectives: [
+            { id: 'old-objective', projectId: 'old-project', title: 'MVP', status: 'pending', order: 0, createdAt: '', updatedAt: '' },
+          ],
+          milestones: [],
+          metrics: [],
+        },
+      ],
+      notebooks: [
+        {
+          id: 'old-notebook',
+          userId: 'someone-else',
+          title: 'Research',
+          color: '#6366f1',
+          order: 0,
+          createdAt: '',
+          updatedAt: '',
+          pages: [
+            { id: 'old-page', notebookId: 'old-notebook', userId: 'someone-else', title: 'Notes', content: [], order: 0, createdAt: '', updatedAt: '' },
+          ],
+        },
+      ],
+      transactions: [
+        { id: 'old-transaction', type: 'expense', amount: 100, categoryId: 'housing', description: 'Rent', date: '2024-01-05', isRecurring: true, recurrence: { frequency: 'monthly' }, createdAt: '' },
+      ],
+      tasks: [
+        {
+          id: 'old-task',
+          title: 'Pay rent',
+          projectId: 'old-project',
+          objectiveId: 'old-objective',
+          notebookId: 'old-notebook',
+          pageId: 'old-page',
+          linkedTransactionId: 'old-transaction',
+          areaId: 'unknown-area',
+          status: 'done',
+          tags: [],
+          subtasks: [{ id: 'old-subtask', title: 'Transfer', done: true }],
+          blockedBy: [],
+          createdAt: '',
+          completedAt: '2024-01-05T12:00:00Z',
+        },
+      ],
+    }))
+
+    expect(tasksService.create).toHaveBeenCalledWith(supabase, expect.objectContaining({
+      projectId: 'new-project',
+      objectiveId: 'new-objective',
+      notebookId: 'new-notebook',
+      pageId: 'new-page',
+      linkedTransactionId: 'new-transaction',
+      areaId: undefined,
+    }))
+    expect(tasksService.update).toHaveBeenCalledWith(supabase, 'new-task', { completedAt: '2024-01-05T12:00:00Z' })
+    expect(subtasksService.toggle).toHaveBeenCalledWith(supabase, 'new-subtask')
+  })
+
+  it('restores task dependencies with the new task IDs', async () => {
+    vi.mocked(tasksService.create)
+      .mockResolvedValueOnce({ id: 'new-design' } as never)
+      .mockResolvedValueOnce({ id: 'new-build' } as never)
+
+    await restoreData(supabase, createBackup({
+      tasks: [
+        { id: 'old-design', title: 'Design', status: 'done', tags: [], subtasks: [], blockedBy: [], createdAt: '' },
+        { id: 'old-build', title: 'Build', status: 'pending', tags: [], subtasks: [], blockedBy: ['old-design', 'deleted-task'], createdAt: '' },
+      ],
+    }))
+
+    expect(taskDependenciesService.setBlockers).toHaveBeenCalledTimes(1)
+    expect(taskDependenciesService.setBlockers).toHaveBeenCalledWith(supabase, 'new-build', ['new-design'])
+  })
+
+  it('remaps custom categories but keeps default category IDs', async () => {
+    vi.mocked(categoriesService.create).mockResolvedValue({ id: 'new-category' } as never)
+    vi.mocked(transactionsService.create).mockResolvedValue({ id: 'new-transaction' } as never)
+
+    await restoreData(supabase, createBackup({
+      categories: [
+        { id: 'old-category', name: 'Pets', nameKey: 'pets', type: 'expense', icon: 'Dog', color: '#000', isCustom: true },
+      ],
+      transactions: [
+        { id: 't1', type: 'expense', amount: 50, categoryId: 'old-category', description: 'Vet', date: '2024-01-10', isRecurring: false, createdAt: '' },
+        { id: 't2', type: 'expense', amount: 20, categoryId: 'food', description: 'Lunch', date: '2024-01-11', isRecurring: false, createdAt: '' },
+      ],
+      budgets: [{ id: 'b1', categoryId: 'old-category', monthlyLimit: 200, month: '2024-01' }],
+    }))
+
+    expect(transactionsService.create).toHaveBeenNthCalledWith(1, supabase, expect.objectContaining({ categoryId: 'new-category' }))
+    expect(transactionsService.create).toHaveBeenNthCalledWith(2, supabase, expect.objectContaining({ categoryId: 'food' }))
+    expect(budgetsService.upsert).toHaveBeenCalledWith(supabase, 'new-category', 200, '2024-01')
+  })
+
+  it('round-trips transfers and installment purchases with their accounts', async () => {
+    const accounts: Account[] = [
+      { id: 'old-checking', name: 'Checking', type: 'checking', openingBalance: 1000, color: '#3b82f6', isArchived: false, createdAt: '' },
+      { id: 'old-card', name: 'Card', type: 'credit_card', openingBalance: 0, closingDay: 3, dueDay: 10, color: '#8b5cf6', isArchived: true, createdAt: '' },
+    ]
+    const purchase = { type: 'expense' as const, amount: 150, categoryId: 'shopping', description: 'TV', date: '2024-01-10', accountId: 'old-card', isRecurring: false, createdAt: '' }
+    const transactions: Transaction[] = [
+      { id: 'old-transfer', type: 'transfer', amount: 500, categoryId: 'transfer', description: 'Card bill', date: '2024-01-10', accountId: 'old-checking', toAccountId: 'old-card', isRecurring: false, createdAt: '' },
+      { ...purchase, id: 'old-installment-1', statementMonth: '2024-02', installment: { groupId: 'old-group', number: 1, count: 2 }, externalId: 'fitid-1' },
+      { ...purchase, id: 'old-installment-2', statementMonth: '2024-03', installment: { groupId: 'old-group', number: 2, count: 2 } },
+    ]
+
+    for (const service of [
+      habitsService, tasksService, projectsService, notebooksService, recurrenceExceptionsService,
+      categoriesService, budgetsService, budgetTemplatesService, exchangeRatesService, goalsService,
+      investmentAssetsService, investmentPricesService, investmentEventsService,
+      investmentSimulationsService, categorizationRulesService, pomodoroService,
+      habitFreezesService, vacationsService, achievementsService, habitStreaksService,
+    ]) {
+      vi.mocked(service.getAll).mockResolvedValue([])
+    }
+    vi.mocked(metricsService.getByArea).mockResolvedValue([])
+    vi.mocked(userStatsService.get).mockResolvedValue(null)
+    vi.mocked(settingsService.get).mockResolvedValue(null)
+    vi.mocked(accountsService.getAll).mockResolvedValue(accounts)
+    vi.mocked(transactionsService.getAll).mockResolvedValue(transactions)
+    vi.mocked(accountsService.create)
+      .mockResolvedValueOnce({ id: 'new-checking' } as never)
+      .mockResolvedValueOnce({ id: 'new-card' } as never)
+    vi.mocked(transactionsService.create).mockResolvedValue({ id: 'new-transaction' } as never)
+
+    const backup = JSON.parse(JSON.stringify(await exportData(supabase))) as AppData
+    await restoreData(supabase, backup)
+
+    expect(accountsService.create).toHaveBeenCalledWith(supabase, expect.objectContaining({ type: 'credit_card', closingDay: 3, dueDay: 10 }))
+    expect(accountsService.update).toHaveBeenCalledWith(supabase, 'new-card', { isArchived: true })
+
+    const [[, transfer], [, first], [, second]] = vi.mocked(transactionsService.create).mock.calls
+    expect(transfer).toMatchObject({ type: 'transfer', accountId: 'new-checking', toAccountId: 'new-card' })
+    expect(first).toMatchObject({ accountId: 'new-card', statementMonth: '2024-02', installment: { number: 1, count: 2 }, externalId: 'fitid-1' })
+    expect(second).toMatchObject({ accountId: 'new-card', statementMonth: '2024-03', installment: { number: 2, count: 2 } })
+    expect(first.installment?.groupId).not.toBe('old-group')
+    expect(second.installment?.groupId).toBe(first.installment?.groupId)
+  })
+
+  it('restores occurrences of recurring transactions after the transaction they come from', async () => {
+    vi.mocked(transactionsService.create)
+      .mockResolvedValueOnce({ id: 'new-rent' } as never)
+      .mockResolvedValueOnce({ id: 'new-occurrence' } as never)
+
+    await restoreData(supabase, createBackup({
+      transactions: [
+        { id: 'old-occurrence', type: 'expense', amount: 100, categoryId: 'housing', description: 'Rent', date: '2024-02-05', isRecurring: false, recurrenceParentId: 'old-rent', occurrenceDate: '2024-02-05', createdAt: '' },
+        { id: 'old-rent', type: 'expense', amount: 100, categoryId: 'housing', description: 'Rent', date: '2024-01-05', isRecurring: true, recurrence: { frequency: 'monthly', nextDate: '2024-03-05' }, createdAt: '' },
+      ],
+      recurrenceExceptions: [
+        { id: 'old-exception', transactionId: 'old-rent', occurrenceDate: '2024-03-05', skip: true, createdAt: '' },
+      ],
+    }))
+
+    expect(transactionsService.create).toHaveBeenNthCalledWith(2, supabase, expect.objectContaining({
+      recurrenceParentId: 'new-rent',
+      occurrenceDate: '2024-02-05',
+    }))
+    expect(recurrenceExceptionsService.upsert).toHaveBeenCalledWith(supabase, 'new-rent', '2024-03-05', expect.objectContaining({ skip: true }))
+  })
+})
+
+describe('importData', () => {
+  it('rejects backups from older versions', async () => {
+    const file = new File([JSON.stringify({ version: '0.1.0', exportedAt: '2024-01-01T00:00:00Z' })], 'backup.json')
+
+    const result = await importData(supabase, file)
+
+    expect(result).toEqual({ success: false, error: 'Unsupported backup version' })
+  })
+
+  it('rejects files that are not JSON', async () => {
+    const file = new File(['not json'], 'backup.json')
+
+    const result = await importData(supabase, file)
+
+    expect(result).toEqual({ success: false, error: 'Failed to parse backup file' })
+  })
+})
@@ -1,7 +1,54 @@
-import type { AppData } from '@/types'
-
-const APP_VERSION = '0.1.0'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  AppData,
+  Habit,
+  Notebook,
+  NotebookBackup,
+  NotebookPage,
+  Project,
+  ProjectBackup,
+} from '@/types'
+import { APP_DATA_VERSION } from '@/types'
+import {
+  habitsService,
+  completionsService,
+  habitFreezesService,
+  vacationsService,
+} from '@/services/habits.service'
+import { pomodoroService } from '@/services/pomodoro.service'
+import { tasksService, subtasksService, taskDependenciesService } from '@/services/tasks.service'
+import {
+  projectsService,
+  objectivesService,
+  milestonesService,
+  projectMetricsService,
+} from '@/services/projects.service'
+import { areasService, metricsService } from '@/services/areas.service'
+import { notebooksService } from '@/services/notebooks.service'
+import { flashcardsService } from '@/services/flashcards.service'
+import {
+  transactionsService,
+  recurrenceExceptionsService,
+  accountsService,
+  categoriesService,
+  categorizationRulesService,
+  budgetsService,
+  budgetTemplatesService,
+  exchangeRatesService,
+  goalsService,
+  investmentAssetsService,
+  investmentPricesService,
+  investmentEventsService,
+  investmentSimulationsService,
+} from '@/services/finances.service'
+import {
+  userStatsService,
+  achievementsService,
+  habitStreaksService,
+} from '@/services/gamification.service'
+import { settingsService, type FullUserSettings } from '@/services/settings.service'
 
+// Legacy localStorage keys from before the Supabase migration
 const STORAGE_KEYS = [
   'hagu-habits',
   'hagu-tasks',
@@ -10,50 +57,173 @@ const STORAGE_KEYS = [
   'hagu-settings',
 ] as const
 
-export function exportData(): AppData {
-  const data: Record<string, unknown> = {}
+export interface ImportResult {
+  success: boolean
+  error?: string
+}
 
-  STORAGE_KEYS.forEach((key) => {
-    const stored = localStorage.getItem(key)
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored)
-        data[key] = parsed.state || parsed
-      } catch {
-        // Skip if can't parse
-      }
-    }
+function daysSince(isoDate: string): number {
+  return Math.ceil((Date.now() - new Date(isoDate).getTime()) / 86400000) + 1
+}
+
+function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = (e) => resolve(e.target?.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file)
   })
+}
+
+// Look up the new ID for an entity from the backup, keeping unknown IDs unset
+function remap(ids: Map<string, string>, id: string | undefined): string | undefined {
+  return id ? ids.get(id) : undefined
+}
+
+// =====================================================
+// EXPORT
+// =====================================================
+
+async function exportProject(
+  supabase: SupabaseClient,
+  project: Project
+): Promise<ProjectBackup> {
+  const [objectives, milestones, metrics] = await Promise.all([
+    objectivesService.getByProject(supabase, project.id),
+    milestonesService.getByProject(supabase, project.id),
+    projectMetricsService.getByProject(supabase, project.id),
+  ])
+
+  const metricsWithHistory = await Promise.all(
+    metrics.map(async (metric) => ({
+      ...metric,
+      history: await projectMetricsService.getHistory(supabase, metric.id, daysSince(metric.createdAt)),
+    }))
+  )
+
+  return { ...project, objectives, milestones, metrics: metricsWithHistory }
+}
+
+async function exportNotebook(
+  supabase: SupabaseClient,
+  notebook: Notebook
+): Promise<NotebookBackup> {
+  const [summaries, flashcards] = await Promise.all([
+    notebooksService.getPages(supabase, notebook.id),
+    flashcardsService.getByNotebook(supabase, notebook.id),
+  ])
+  const pages = (
+    await Promise.all(summaries.map((p) => notebooksService.getPage(supabase, p.id)))
+  ).filter((p): p is NotebookPage => p !== null)
+
+  const pagesWithRevisions = await Promise.all(
+    pages.map(async (page) => ({
+      ...page,
+      revisions: await notebooksService.getPageRevisions(supabase, page.id),
+    }))
+  )
+
+  return { ...notebook, pages: pagesWithRevisions, flashcards }
+}
+
+export async function exportData(supabase: SupabaseClient): Promise<AppData> {
+  const [
+    habitList,
+    tasks,
+    projects,
+    areas,
+    notebooks,
+    transactions,
+    recurrenceExceptions,
+    accounts,
+    categories,
+    budgets,
+    budgetTemplates,
+    exchangeRates,
+    financialGoals,
+    investmentAssets,
+    investmentPrices,
+    investmentEvents,
+    investmentSimulations,
+    categorizationRules,
+    pomodoroSessions,
+    habitFreezes,
+    vacations,
+    achievements,
+    streaks,
+    stats,
+    settings,
+  ] = await Promise.all([
+    habitsService.getAll(supabase),
+    tasksService.getAll(supabase),
+    projectsService.getAll(supabase),
+    areasService.getAll(supabase),
+    notebooksService.getAll(supabase),
+    transactionsService.getAll(supabase),
+    recurrenceExceptionsService.getAll(supabase),
+    accountsService.getAll(supabase),
+    categoriesService.getAll(supabase),
+    budgetsService.getAll(supabase),
+    budgetTemplatesService.getAll(supabase),
+    exchangeRatesService.getAll(supabase),
+    goalsService.getAll(supabase),
+    investmentAssetsService.getAll(supabase),
+    investmentPricesService.getAll(supabase),
+    investmentEventsService.getAll(supabase),
+    investmentSimulationsService.getAll(supabase),
+    categorizationRulesService.getAll(supabase),
+    pomodoroService.getAll(supabase),
+    habitFreezesService.getAll(supabase),
+    vacationsService.getAll(supabase),
+    achievementsService.getAll(supabase),
+    habitStreaksService.getAll(supabase),
+    userStatsService.get(supabase),
+    settingsService.get(supabase),
+  ])
+
+  // getAll only loads recent completions, so fetch each habit with its full history
+  const habits = (
+    await Promise.all(habitList.map((h) => habitsService.getById(supabase, h.id)))
+  ).filter((h): h is Habit => h !== null)
+
+  const metrics = (
+    await Promise.all(areas.map((a) => metricsService.getByArea(supabase, a.id)))
+  ).flat()
 
   return {
-    version: APP_VERSION,
+    version: APP_DATA_VERSION,
     exportedAt: new Date().toISOString(),
-    habits: (data['hagu-habits'] as { habits?: unknown[] })?.habits || [],
-    tasks: (data['hagu-tasks'] as { tasks?: unknown[] })?.tasks || [],
-    projects: (data['hagu-tasks'] as { projects?: unknown[] })?.projects || [],
-    areas: (data['hagu-areas'] as { areas?: unknown[] })?.areas || [],
-    metrics: (data['hagu-areas'] as { metrics?: unknown[] })?.metrics || [],
-    achievements: (data['hagu-gamification'] as { achievements?: unknown[] })?.achievements || [],
-    streaks: (data['hagu-gamification'] as { streaks?: unknown[] })?.streaks || [],
-    stats: {
-      totalXp: (data['hagu-gamification'] as { totalXp?: number })?.totalXp || 0,
-      level: (data['hagu-gamification'] as { level?: number })?.level || 1,
-      habitsCompleted: (data['hagu-gamification'] as { totalHabitsCompleted?: number })?.totalHabitsCompleted || 0,
-      tasksCompleted: (data['hagu-gamification'] as { totalTasksCompleted?: number })?.totalTasksCompleted || 0,
-      currentStreak: (data['hagu-gamification'] as { currentStreak?: number })?.currentStreak || 0,
-      longestStreak: (data['hagu-gamification'] as { longestStreak?: number })?.longestStreak || 0,
-    },
-    settings: {
-      theme: (data['hagu-settings'] as { theme?: 'dark' | 'light' | 'system' })?.theme || 'dark',
-      locale: (data['hagu-settings'] as { locale?: 'pt-BR' | 'en-US' })?.locale || 'pt-BR',
-      weekStartsOn: (data['hagu-settings'] as { weekStartsOn?: 0 | 1 })?.weekStartsOn || 0,
-      notificationsEnabled: (data['hagu-settings'] as { notificationsEnabled?: boolean })?.notificationsEnabled || false,
-    },
-  } as AppData
+    habits,
+    tasks,
+    projects: await Promise.all(projects.map((p) => exportProject(supabase, p))),
+    areas,
+    metrics,
+    notebooks: await Promise.all(notebooks.map((n) => exportNotebook(supabase, n))),
+    achievements,
+    streaks,
+    stats,
+    settings,
+    transactions,
+    categories,
+    budgets,
+    financialGoals,
+    accounts,
+    exchangeRates,
+    budgetTemplates,
+    recurrenceExceptions,
+    investmentAssets,
+    investmentPrices,
+    investmentEvents,
+    investmentSimulations,
+    categorizationRules,
+    pomodoroSessions,
+    habitFreezes,
+    vacations,
+  }
 }
 
-export function downloadData(): void {
-  const data = exportData()
+export async function downloadData(supabase: SupabaseClient): Promise<void> {
+  const data = await exportData(supabase)
   const json = JSON.stringify(data, null, 2)
   const blob = new Blob([json], { type: 'application/json' })
   const url = URL.createObjectURL(blob)
@@ -70,95 +240,506 @@ export function downloadData(): void {
   URL.revokeObjectURL(url)
 }
 
-export function importData(file: File): Promise<{ success: boolean; error?: string }> {
-  return new Promise((resolve) => {
-    const reader = new FileReader()
+// =====================================================
+// IMPORT
+// =====================================================
+
+/**
+ * Restore a backup into the current account.
+ * Every entity is recreated through the services, so IDs are new and all
+ * foreign keys are rewritten using the old -> new ID maps built along the way.
+ */
+export async function restoreData(supabase: SupabaseClient, data: AppData): Promise<void> {
+  const areaIds = new Map<string, string>()
+  const projectIds = new Map<string, string>()
+  const objectiveIds = new Map<string, string>()
+  const notebookIds = new Map<string, string>()
+  const pageIds = new Map<string, string>()
+  const accountIds = new Map<string, string>()
+  const categoryIds = new Map<string, string>()
+  const transactionIds = new Map<string, string>()
+  const installmentGroupIds = new Map<string, string>()
+  const assetIds = new Map<string, string>()
+  const taskIds = new Map<string, string>()
+  const habitIds = new Map<string, string>()
+
+  // Areas: default areas already exist in every account, match them by slug
+  const existingAreas = await areasService.getAll(supabase)
+  for (const area of data.areas) {
+    const existing = existingAreas.find((a) => a.slug === area.slug)
+    if (existing) {
+      areaIds.set(area.id, existing.id)
+    } else {
+      const created = await areasService.create(supabase, {
+        name: area.name,
+        slug: area.slug,
+        color: area.color,
+        icon: area.icon,
+      })
+      areaIds.set(area.id, created.id)
+    }
+  }
+
+  for (const metric of data.metrics) {
+    const areaId = remap(areaIds, metric.areaId)
+    if (!areaId) continue
+    await metricsService.create(supabase, {
+      areaId,
+      type: metric.type,
+      value: metric.value,
+      unit: metric.unit,
+      date: metric.date,
+    })
+  }
 
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string
-        const data = JSON.parse(content) as AppData
-
-        // Validate data structure
-        if (!data.version || !data.exportedAt) {
-          resolve({ success: false, error: 'Invalid backup file format' })
-          return
-        }
-
-        // Import habits
-        if (data.habits && Array.isArray(data.habits)) {
-          const habitsStore = { state: { habits: data.habits }, version: 0 }
-          localStorage.setItem('hagu-habits', JSON.stringify(habitsStore))
-        }
-
-        // Import tasks and projects
-        if (data.tasks || data.projects) {
-          const tasksStore = {
-            state: {
-              tasks: data.tasks || [],
-              projects: data.projects || [],
-            },
-            version: 0,
-          }
-          localStorage.setItem('hagu-tasks', JSON.stringify(tasksStore))
-        }
-
-        // Import areas and metrics
-        if (data.areas || data.metrics) {
-          const areasStore = {
-            state: {
-              areas: data.areas || [],
-              metrics: data.metrics || [],
-            },
-            version: 0,
-          }
-          localStorage.setItem('hagu-areas', JSON.stringify(areasStore))
-        }
-
-        // Import gamification data
-        if (data.stats || data.achievements || data.streaks) {
-          const gamificationStore = {
-            state: {
-              totalXp: data.stats?.totalXp || 0,
-              level: data.stats?.level || 1,
-              currentStreak: data.stats?.currentStreak || 0,
-              longestStreak: data.stats?.longestStreak || 0,
-              totalHabitsCompleted: data.stats?.habitsCompleted || 0,
-              totalTasksCompleted: data.stats?.tasksCompleted || 0,
-              achievements: data.achievements || [],
-              streaks: data.streaks || [],
-            },
-            version: 0,
-          }
-          localStorage.setItem('hagu-gamification', JSON.stringify(gamificationStore))
-        }
-
-        // Import settings
-        if (data.settings) {
-          const settingsStore = {
-            state: {
-              theme: data.settings.theme || 'dark',
-              locale: data.settings.locale || 'pt-BR',
-              weekStartsOn: data.settings.weekStartsOn || 0,
-              notificationsEnabled: data.settings.notificationsEnabled || false,
-            },
-            version: 0,
-          }
-          localStorage.setItem('hagu-settings', JSON.stringify(settingsStore))
-        }
-
-        resolve({ success: true })
-      } catch {
-        resolve({ success: false, error: 'Failed to parse backup file' })
+  // Projects with objectives, milestones and metrics
+  for (const project of data.projects) {
+    const created = await projectsService.create(supabase, {
+      title: project.title,
+      description: project.description,
+      color: project.color,
+      icon: project.icon,
+      dueDate: project.dueDate,
+      startDate: project.startDate,
+    })
+    projectIds.set(project.id, created.id)
+
+    if (project.status !== 'active') {
+      await projectsService.update(supabase, created.id, { status: project.status })
+    }
+
+    const objectives = [...project.objectives].sort((a, b) => a.order - b.order)
+    for (const objective of objectives) {
+      const createdObjective = await objectivesService.create(supabase, {
+        projectId: created.id,
+        title: objective.title,
+        description: objective.description,
+        dueDate: objective.dueDate,
+      })
+      objectiveIds.set(objective.id, createdObjective.id)
+
+      if (objective.status !== 'pending') {
+        await objectivesService.update(supabase, createdObjective.id, { status: objective.status })
       }
     }
 
-    reader.onerror = () => {
-      resolve({ success: false, error: 'Failed to read file' })
+    for (const milestone of project.milestones) {
+      const createdMilestone = await milestonesService.create(supabase, {
+        projectId: created.id,
+        title: milestone.title,
+        description: milestone.description,
+        targetDate: milestone.targetDate,
+      })
+
+      if (milestone.status !== 'upcoming') {
+        await milestonesService.update(supabase, createdMilestone.id, { status: milestone.status })
+      }
     }
 
-    reader.readAsText(file)
-  })
+    for (const metric of project.metrics) {
+      const createdMetric = await projectMetricsService.create(supabase, {
+        projectId: created.id,
+        name: metric.name,
+        unit: metric.unit,
+        targetValue: metric.targetValue,
+        currentValue: metric.currentValue,
+      })
+
+      for (const entry of metric.history) {
+        await projectMetricsService.addEntry(supabase, createdMetric.id, entry.value, entry.date)
+      }
+    }
+  }
+
+  // Notebooks and pages
+  for (const notebook of data.notebooks) {
+    const created = await notebooksService.create(supabase, {
+      title: notebook.title,
+      description: notebook.description,
+      color: notebook.color,
+      icon: notebook.icon,
+    })
+    notebookIds.set(notebook.id, created.id)
+
+    const pages = [...notebook.pages].sort((a, b) => a.order - b.order)
+    for (const page of pages) {
+      const createdPage = await notebooksService.createPage(supabase, {
+        notebookId: created.id,
+        title: page.title,
+        content: page.content,
+      })
+      pageIds.set(page.id, createdPage.id)
+      await notebooksService.importPageRevisions(supabase, createdPage.id, page.revisions ?? [])
+    }
+
+    // Backups made before flashcards were included keep the cards synced from the pages
+    if (notebook.flashcards) {
+      await flashcardsService.importFlashcards(
+        supabase,
+        created.id,
+        notebook.flashcards.map((card) => ({ ...card, pageId: remap(pageIds, card.pageId) }))
+      )
+    }
+  }
+
+  // Finances: accounts and custom categories first, transactions reference
+  // them (default category IDs pass through)
+  for (const account of data.accounts ?? []) {
+    const created = await accountsService.create(supabase, {
+      name: account.name,
+      type: account.type,
+      openingBalance: account.openingBalance,
+      currency: account.currency,
+      closingDay: account.closingDay,
+      dueDay: account.dueDay,
+      color: account.color,
+    })
+    accountIds.set(account.id, created.id)
+
+    if (account.isArchived) {
+      await accountsService.update(supabase, created.id, { isArchived: true })
+    }
+  }
+
+  await exchangeRatesService.upsertMany(
+    supabase,
+    (data.exchangeRates ?? []).map((rate) => ({
+      fromCurrency: rate.fromCurrency,
+      toCurrency: rate.toCurrency,
+      rate: rate.rate,
+      date: rate.date,
+    }))
+  )
+
+  for (const category of data.categories) {
+    const created = await categoriesService.create(supabase, {
+      name: category.name,
+      nameKey: category.nameKey,
+      type: category.type,
+      icon: category.icon,
+      color: category.color,
+    })
+    categoryIds.set(category.id, created.id)
+  }
+
+  // Recurring transactions go before the occurrences recorded from them. A
+  // transfer can't be saved without both of its accounts, so transfers from
+  // backups made before accounts were included are left out.
+  const transactions = [...data.transactions].sort(
+    (a, b) => Number(!!a.recurrenceParentId) - Number(!!b.recurrenceParentId)
+  )
+  for (const transaction of transactions) {
+    const accountId = remap(accountIds, transaction.accountId)
+    const toAccountId = remap(accountIds, transaction.toAccountId)
+    if (transaction.type === 'transfer' && (!accountId || !toAccountId)) continue
+
+    // Installments of a purchase stay grouped, under a new group ID
+    let installment = transaction.installment
+    if (installment) {
+      const groupId = installmentGroupIds.get(installment.groupId) ?? crypto.randomUUID()
+      installmentGroupIds.set(installment.groupId, groupId)
+      installment = { ...installment, groupId }
+    }
+
+    const created = await transactionsService.create(supabase, {
+      type: transaction.type,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      categoryId: categoryIds.get(transaction.categoryId) ?? transaction.categoryId,
+      description: transaction.description,
+      date: transaction.date,
+      paymentMethod: transaction.paymentMethod,
+      accountId,
+      toAccountId,
+      statementMonth: transaction.statementMonth,
+      installment,
+      tags: transaction.tags,
+      isRecurring: transaction.isRecurring,
+      recurrence: transaction.recurrence,
+      recurrenceParentId: remap(transactionIds, transaction.recurrenceParentId),
+      occurrenceDate: transaction.occurrenceDate,
+      externalId: transaction.externalId,
+    })
+    transactionIds.set(transaction.id, created.id)
+  }
+
+  // Rules go after the transactions, so the ones left uncategorized in the
+  // backup aren't categorized by them on the way in
+  for (const rule of data.categorizationRules ?? []) {
+    await categorizationRulesService.create(supabase, {
+      name: rule.name,
+      priority: rule.priority,
+      isActive: rule.isActive,
+      transactionType: rule.transactionType,
+      descriptionMatch: rule.descriptionMatch,
+      descriptionPattern: rule.descriptionPattern,
+      minAmount: rule.minAmount,
+      maxAmount: rule.maxAmount,
+      paymentMethod: rule.paymentMethod,
+      requiredTags: rule.requiredTags,
+      categoryId: categoryIds.get(rule.categoryId) ?? rule.categoryId,
+      addTags: rule.addTags,
+    })
+  }
+
+  for (const exception of data.recurrenceExceptions ?? []) {
+    const transactionId = remap(transactionIds, exception.transactionId)
+    if (!transactionId) continue
+    await recurrenceExceptionsService.upsert(supabase, transactionId, exception.occurrenceDate, {
+      skip: exception.skip,
+      amount: exception.amount,
+      description: exception.description,
+      date: exception.date,
+    })
+  }
+
+  for (const budget of data.budgets) {
+    await budgetsService.upsert(
+      supabase,
+      categoryIds.get(budget.categoryId) ?? budget.categoryId,
+      budget.monthlyLimit,
+      budget.month
+    )
+  }
+
+  for (const template of data.budgetTemplates ?? []) {
+    await budgetTemplatesService.upsert(supabase, {
+      categoryId: categoryIds.get(template.categoryId) ?? template.categoryId,
+      amount: template.amount,
+      period: template.period,
+      rollover: template.rollover,
+      startMonth: template.startMonth,
+    })
+  }
+
+  for (const goal of data.financialGoals) {
+    const created = await goalsService.create(supabase, {
+      name: goal.name,
+      description: goal.description,
+      targetAmount: goal.targetAmount,
+      currency: goal.currency,
+      deadline: goal.deadline,
+      color: goal.color,
+      icon: goal.icon,
+      contributionCategoryId: goal.contributionCategoryId
+        ? (categoryIds.get(goal.contributionCategoryId) ?? goal.contributionCategoryId)
+        : undefined,
+    })
+
+    const contributions = [...goal.contributions].sort((a, b) => a.date.localeCompare(b.date))
+    for (const contribution of contributions) {
+      await goalsService.addContribution(
+        supabase,
+        created.id,
+        contribution.amount,
+        contribution.note,
+        contribution.date,
+        remap(transactionIds, contribution.transactionId)
+      )
+    }
+
+    // Current amount can be edited directly, so don't rely on the contribution sum
+    await goalsService.update(supabase, created.id, {
+      currentAmount: goal.currentAmount,
+      completedAt: goal.completedAt,
+    })
+  }
+
+  // Investments: events keep the link to the transactions that moved their money
+  for (const asset of data.investmentAssets ?? []) {
+    const created = await investmentAssetsService.create(supabase, {
+      name: asset.name,
+      ticker: asset.ticker,
+      type: asset.type,
+      currency: asset.currency,
+      accountId: remap(accountIds, asset.accountId),
+    })
+    assetIds.set(asset.id, created.id)
+  }
+
+  for (const price of data.investmentPrices ?? []) {
+    const assetId = remap(assetIds, price.assetId)
+    if (!assetId) continue
+    await investmentPricesService.upsert(supabase, assetId, price.price, price.date)
+  }
+
+  await investmentEventsService.importEvents(
+    supabase,
+    (data.investmentEvents ?? []).flatMap((event) => {
+      const assetId = remap(assetIds, event.assetId)
+      return assetId
+        ? [{ ...event, assetId, transactionId: remap(transactionIds, event.transactionId) }]
+        : []
+    })
+  )
+
+  for (const simulation of data.investmentSimulations ?? []) {
+    await investmentSimulationsService.create(supabase, {
+      name: simulation.name,
+      initialAmount: simulation.initialAmount,
+      monthlyContribution: simulation.monthlyContribution,
+      annualRate: simulation.annualRate,
+      periodYears: simulation.periodYears,
+      compoundingFrequency: simulation.compoundingFrequency,
+      yieldIndex: simulation.yieldIndex,
+      indexRate: simulation.indexRate,
+    })
+  }
+
+  // Habits first, their history is restored once the tasks exist
+  for (const habit of data.habits) {
+    const created = await habitsService.create(supabase, {
+      title: habit.title,
+      description: habit.description,
+      areaId: remap(areaIds, habit.areaId),
+      projectId: remap(projectIds, habit.projectId),
+      frequency: habit.frequency,
+      tracking: habit.tracking,
+      color: habit.color,
+      icon: habit.icon,
+      reminderTime: habit.reminderTime,
+      reminderEnabled: habit.reminderEnabled,
+      notebookId: remap(notebookIds, habit.notebookId),
+    })
+    habitIds.set(habit.id, created.id)
+
+    if (habit.archivedAt) {
+      await habitsService.update(supabase, created.id, { archivedAt: habit.archivedAt })
+    }
+  }
+
+  // Tasks with subtasks
+  for (const task of data.tasks) {
+    const created = await tasksService.create(supabase, {
+      title: task.title,
+      description: task.description,
+      projectId: remap(projectIds, task.projectId),
+      objectiveId: remap(objectiveIds, task.objectiveId),
+      areaId: remap(areaIds, task.areaId),
+      notebookId: remap(notebookIds, task.notebookId),
+      pageId: remap(pageIds, task.pageId),
+      dueDate: task.dueDate,
+      priority: task.priority,
+      status: task.status,
+      tags: task.tags,
+      estimatedMinutes: task.estimatedMinutes,
+      recurrence: task.recurrence,
+      linkedTransactionId: remap(transactionIds, task.linkedTransactionId),
+    })
+    taskIds.set(task.id, created.id)
+
+    if (task.completedAt) {
+      await tasksService.update(supabase, created.id, { completedAt: task.completedAt })
+    }
+
+    for (const subtask of task.subtasks) {
+      const createdSubtask = await subtasksService.add(supabase, created.id, subtask.title)
+      if (subtask.done) {
+        await subtasksService.toggle(supabase, createdSubtask.id)
+      }
+    }
+  }
+
+  // Dependencies point at other tasks, so they are restored once all tasks exist.
+  // Backups made before dependencies existed have no blockedBy.
+  for (const task of data.tasks) {
+    const newTaskId = taskIds.get(task.id)
+    const blockedBy = (task.blockedBy ?? [])
+      .map((id) => taskIds.get(id))
+      .filter((id): id is string => !!id)
+    if (newTaskId && blockedBy.length > 0) {
+      await taskDependenciesService.setBlockers(supabase, newTaskId, blockedBy)
+    }
+  }
+
+  // Habit history: vacations and freezes go before the completions so the
+  // streaks recomputed from them skip the same days. Focus sessions log their
+  // minutes into completions, so the completions from the backup come last
+  // and keep the values they had.
+  for (const vacation of data.vacations ?? []) {
+    await vacationsService.create(supabase, {
+      startDate: vacation.startDate,
+      endDate: vacation.endDate,
+      note: vacation.note,
+    })
+  }
+
+  await habitFreezesService.importFreezes(
+    supabase,
+    (data.habitFreezes ?? []).flatMap((freeze) => {
+      const habitId = remap(habitIds, freeze.habitId)
+      return habitId ? [{ habitId, date: freeze.date }] : []
+    })
+  )
+
+  await pomodoroService.importSessions(
+    supabase,
+    (data.pomodoroSessions ?? []).map((session) => ({
+      date: session.date,
+      focusMinutes: session.focusMinutes,
+      completedAt: session.completedAt,
+      taskId: remap(taskIds, session.taskId),
+      habitId: remap(habitIds, session.habitId),
+    }))
+  )
+
+  for (const habit of data.habits) {
+    const habitId = habitIds.get(habit.id)
+    if (habitId) {
+      await completionsService.importCompletions(supabase, habitId, habit.completions)
+    }
+  }
+
+  // Gamification: unlocking awards XP, so only top up the difference afterwards.
+  // Streaks are recomputed from the imported completions.
+  for (const achievement of data.achievements) {
+    await achievementsService.unlock(supabase, achievement.type, achievement.data)
+  }
+
+  if (data.stats) {
+    const current = await userStatsService.get(supabase)
+    const missingXp = data.stats.totalXp - (current?.totalXp ?? 0)
+    if (missingXp > 0) {
+      await userStatsService.addXp(supabase, missingXp)
+    }
+  }
+
+  if (data.settings) {
+    await settingsService.update(supabase, data.settings as Partial<FullUserSettings>)
+  }
+}
+
+export async function importData(supabase: SupabaseClient, file: File): Promise<ImportResult> {
+  let content: string
+  try {
+    content = await readFileAsText(file)
+  } catch {
+    return { success: false, error: 'Failed to read file' }
+  }
+
+  let data: AppData
+  try {
+    data = JSON.parse(content) as AppData
+  } catch {
+    return { success: false, error: 'Failed to parse backup file' }
+  }
+
+  // Validate data structure
+  if (!data.version || !data.exportedAt) {
+    return { success: false, error: 'Invalid backup file format' }
+  }
+
+  if (data.version !== APP_DATA_VERSION) {
+    return { success: false, error: 'Unsupported backup version' }
+  }
+
+  try {
+    await restoreData(supabase, data)
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to restore backup:', error)
+    return { success: false, error: 'Failed to restore backup' }
+  }
 }
 
 export function clearAllData(): void {
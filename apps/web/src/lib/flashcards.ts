@@ -0,0 +1,113 @@
+import type {
+  FlashcardGrade,
+  FlashcardSchedule,
+  NoteBlock,
+  PageFlashcard,
+} from '@/types/studies'
+import { addDays } from './habits'
+
+// A block reading "Question :: Answer" is a card; the separator needs spaces
+// around it so text like std::vector is left alone
+const CARD_SEPARATOR = /\s::(?:\s|$)/
+
+const INITIAL_EASE = 2.5
+const MIN_EASE = 1.3
+
+// Grade -> SM-2 answer quality (0-5)
+const GRADE_QUALITY: Record<FlashcardGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+}
+
+// Interval multipliers on top of SM-2, as Anki does, so "hard" and "easy"
+// space cards differently from "good"
+const HARD_INTERVAL_FACTOR = 1.2
+const EASY_BONUS = 1.3
+
+function blockText(block: NoteBlock): string {
+  if (!Array.isArray(block.content)) return ''
+
+  return block.content
+    .flatMap((item) => (item.type === 'link' ? item.content : [item]))
+    .map((item) => item.text ?? '')
+    .join('')
+}
+
+function collectFlashcards(blocks: NoteBlock[], cards: Map<string, PageFlashcard>) {
+  for (const block of blocks) {
+    if (block.type !== 'codeBlock') {
+      const text = blockText(block)
+      const separator = CARD_SEPARATOR.exec(text)
+      if (separator) {
+        const front = text.slice(0, separator.index).trim()
+        const back = text.slice(separator.index + separator[0].length).trim()
+        const key = front.toLowerCase()
+        if (front && back && !cards.has(key)) cards.set(key, { front, back })
+      }
+    }
+    collectFlashcards(block.children ?? [], cards)
+  }
+}
+
+// Cards written in a page, in document order. A question asked twice keeps
+// its first answer, since cards are matched by question when the page changes
+export function extractPageFlashcards(blocks: NoteBlock[]): PageFlashcard[] {
+  const cards = new Map<string, PageFlashcard>()
+  collectFlashcards(blocks, cards)
+  return [...cards.values()]
+}
+
+// A card never reviewed is due right away
+export function createFlashcardSchedule(today: string): FlashcardSchedule {
+  return {
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    dueDate: today,
+  }
+}
+
+/**
+ * Schedule the next review of a card with SM-2: "again" starts the card over
+ * and shows it tomorrow; otherwise the first two reviews are 1 and 6 days
+ * apart and later ones multiply the last interval by the ease factor, which
+ * grows with easy answers and shrinks with hard ones.
+ */
+export function scheduleFlashcard(
+  schedule: FlashcardSchedule,
+  grade: FlashcardGrade,
+  today: string
+): FlashcardSchedule {
+  const quality = GRADE_QUALITY[grade]
+  const ease = Math.max(
+    MIN_EASE,
+    Math.round((schedule.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)) * 100) / 100
+  )
+
+  if (grade === 'again') {
+    return { ease, interval: 1, repetitions: 0, dueDate: addDays(today, 1) }
+  }
+
+  const repetitions = schedule.repetitions + 1
+  let interval: number
+  if (repetitions === 1) {
+    interval = 1
+  } else if (repetitions === 2) {
+    interval = 6
+  } else {
+    interval = schedule.interval * (grade === 'hard' ? HARD_INTERVAL_FACTOR : ease)
+  }
+  if (grade === 'easy') interval *= EASY_BONUS
+  interval = Math.max(1, Math.round(interval))
+
+  return { ease, interval, repetitions, dueDate: addDays(today, interval) }
+}
+
+// Cards to review today, the most overdue first
+export function getDueFlashcards<T extends FlashcardSchedule>(cards: T[], today: string): T[] {
+  return cards
+    .filter((card) => card.dueDate <= today)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+}
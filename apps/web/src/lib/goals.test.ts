@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getAverageMonthlyContribution,
+  getGoalPlan,
+  getPendingGoalContributions,
+  getPlannedMonthlyContribution,
+  getRequiredMonthlyContribution,
+  projectGoalCompletion,
+} from './goals'
+import type { FinancialGoal, GoalContribution, Transaction } from '@/types/finances'
+
+function goal(overrides: Partial<FinancialGoal> = {}): FinancialGoal {
+  return {
+    id: 'trip',
+    name: 'Trip',
+    targetAmount: 1500,
+    currentAmount: 300,
+    deadline: '2024-05-31',
+    color: '#22c55e',
+    contributions: [],
+    createdAt: '2024-01-05T10:00:00Z',
+    ...overrides,
+  }
+}
+
+function contribution(overrides: Partial<GoalContribution> = {}): GoalContribution {
+  return { id: 'c-1', amount: 100, date: '2024-02-10', ...overrides }
+}
+
+function transaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'savings',
+    type: 'expense',
+    amount: 200,
+    categoryId: 'savings',
+    description: 'Poupança',
+    date: '2024-01-10',
+    isRecurring: false,
+    createdAt: '2024-01-10T10:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('goals', () => {
+  describe('getRequiredMonthlyContribution', () => {
+    it('should spread what is missing over the months left', () => {
+      expect(getRequiredMonthlyContribution(goal(), '2024-03-15')).toBe(400)
+    })
+
+    it('should need everything once the deadline has passed', () => {
+      expect(getRequiredMonthlyContribution(goal(), '2024-06-01')).toBe(1200)
+    })
+
+    it('should need nothing without a deadline', () => {
+      expect(getRequiredMonthlyContribution(goal({ deadline: undefined }), '2024-03-15')).toBe(
+        undefined
+      )
+    })
+  })
+
+  describe('getAverageMonthlyContribution', () => {
+    it('should average the last months', () => {
+      const contributions = [
+        contribution({ id: 'c-1', date: '2024-01-20', amount: 900 }),
+        contribution({ id: 'c-2', date: '2024-02-10', amount: 150 }),
+        contribution({ id: 'c-3', date: '2024-04-05', amount: 300 }),
+      ]
+
+      expect(getAverageMonthlyContribution(goal({ contributions }), '2024-04-15')).toBe(150)
+    })
+
+    it('should average young goals over their lifetime', () => {
+      const young = goal({
+        createdAt: '2024-04-01T00:00:00Z',
+        contributions: [contribution({ date: '2024-04-02', amount: 300 })],
+      })
+
+      expect(getAverageMonthlyContribution(young, '2024-04-15')).toBe(300)
+    })
+  })
+
+  describe('getPlannedMonthlyContribution', () => {
+    it('should add up recurring expenses in the contribution category', () => {
+      const funded = goal({ contributionCategoryId: 'savings' })
+      const transactions = [
+        transaction({ isRecurring: true, recurrence: { frequency: 'monthly' } }),
+        transaction({
+          id: 'weekly',
+          amount: 30,
+          isRecurring: true,
+          recurrence: { frequency: 'weekly' },
+        }),
+        transaction({ id: 'one-off', amount: 500 }),
+        transaction({
+          id: 'ended',
+          isRecurring: true,
+          recurrence: { frequency: 'monthly', endDate: '2024-02-10' },
+        }),
+      ]
+
+      expect(
+        getPlannedMonthlyContribution(funded, transactions, '2024-03-15', 'BRL')
+      ).toBeCloseTo(330, 6)
+    })
+
+    it('should plan nothing without a contribution category', () => {
+      const transactions = [
+        transaction({ isRecurring: true, recurrence: { frequency: 'monthly' } }),
+      ]
+
+      expect(getPlannedMonthlyContribution(goal(), transactions, '2024-03-15', 'BRL')).toBe(0)
+    })
+  })
+
+  describe('projectGoalCompletion', () => {
+    it('should count the current month as the first contribution', () => {
+      expect(projectGoalCompletion(goal(), 400, '2024-03-15')).toBe('2024-05')
+      expect(projectGoalCompletion(goal(), 1200 / 7, '2024-03-15')).toBe('2024-09')
+    })
+
+    it('should not project anything without contributions', () => {
+      expect(projectGoalCompletion(goal(), 0, '2024-03-15')).toBeUndefined()
+    })
+  })
+
+  describe('getGoalPlan', () => {
+    it('should be on track when the pace reaches the target in time', () => {
+      const contributions = [
+        contribution({ id: 'c-1', date: '2024-01-10', amount: 400 }),
+        contribution({ id: 'c-2', date: '2024-02-10', amount: 400 }),
+        contribution({ id: 'c-3', date: '2024-03-10', amount: 400 }),
+      ]
+
+      expect(getGoalPlan(goal({ contributions }), [], '2024-03-15', 'BRL')).toMatchObject({
+        remaining: 1200,
+        requiredMonthly: 400,
+        averageMonthly: 400,
+        projectedCompletion: '2024-05',
+        status: 'on_track',
+      })
+    })
+
+    it('should be off track when contributions fall short', () => {
+      const recent = goal({
+        createdAt: '2024-03-01T00:00:00Z',
+        contributions: [contribution({ date: '2024-03-01', amount: 100 })],
+      })
+
+      expect(getGoalPlan(recent, [], '2024-03-15', 'BRL')).toMatchObject({
+        projectedCompletion: '2025-02',
+        status: 'off_track',
+      })
+      expect(getGoalPlan(goal(), [], '2024-03-15', 'BRL').status).toBe('off_track')
+    })
+
+    it('should follow the planned contributions over the history', () => {
+      const funded = goal({ contributionCategoryId: 'savings' })
+      const transactions = [
+        transaction({ amount: 600, isRecurring: true, recurrence: { frequency: 'monthly' } }),
+      ]
+
+      expect(getGoalPlan(funded, transactions, '2024-03-15', 'BRL')).toMatchObject({
+        plannedMonthly: 600,
+        projectedCompletion: '2024-04',
+        status: 'on_track',
+      })
+    })
+
+    it('should tell reached goals and goals without a deadline apart', () => {
+      expect(getGoalPlan(goal({ currentAmount: 1500 }), [], '2024-03-15', 'BRL').status).toBe(
+        'completed'
+      )
+      expect(getGoalPlan(goal({ deadline: undefined }), [], '2024-03-15', 'BRL').status).toBe(
+        'no_deadline'
+      )
+    })
+  })
+
+  describe('getPendingGoalContributions', () => {
+    const funded = goal({ contributionCategoryId: 'savings' })
+
+    it('should contribute expenses recorded since the goal was created', () => {
+      const transactions = [
+        transaction({ id: 'before', date: '2024-01-02' }),
+        transaction({ id: 'jan', date: '2024-01-10' }),
+        transaction({ id: 'food', categoryId: 'food' }),
+        transaction({ id: 'income', type: 'income' }),
+        transaction({ id: 'future', date: '2024-04-10' }),
+      ]
+
+      expect(
+        getPendingGoalContributions([funded], transactions, '2024-03-15', 'BRL')
+      ).toEqual([
+        {
+          goalId: 'trip',
+          transactionId: 'jan',
+          amount: 200,
+          date: '2024-01-10',
+          note: 'Poupança',
+        },
+      ])
+    })
+
+    it('should skip expenses already contributed', () => {
+      const linked = goal({
+        contributionCategoryId: 'savings',
+        contributions: [contribution({ transactionId: 'jan' })],
+      })
+
+      expect(
+        getPendingGoalContributions([linked], [transaction({ id: 'jan' })], '2024-03-15', 'BRL')
+      ).toEqual([])
+    })
+
+    it('should treat an unset currency as the base currency', () => {
+      const inReais = goal({ contributionCategoryId: 'savings', currency: 'BRL' })
+      const transactions = [
+        transaction({ id: 'base' }),
+        transaction({ id: 'reais', currency: 'BRL' }),
+        transaction({ id: 'dollars', currency: 'USD' }),
+      ]
+
+      expect(
+        getPendingGoalContributions([inReais], transactions, '2024-03-15', 'BRL').map(
+          (p) => p.transactionId
+        )
+      ).toEqual(['base', 'reais'])
+      expect(
+        getPendingGoalContributions([funded], transactions, '2024-03-15', 'USD').map(
+          (p) => p.transactionId
+        )
+      ).toEqual(['base', 'dollars'])
+    })
+
+    it('should stop once the target is reached', () => {
+      const transactions = Array.from({ length: 8 }, (_, i) =>
+        transaction({ id: `t-${i}`, date: `2024-0${i + 1}-10` })
+      )
+
+      const pending = getPendingGoalContributions([funded], transactions, '2024-12-31', 'BRL')
+
+      expect(pending.map((p) => p.transactionId)).toEqual([
+        't-0',
+        't-1',
+        't-2',
+        't-3',
+        't-4',
+        't-5',
+      ])
+    })
+  })
+})
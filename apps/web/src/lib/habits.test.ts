@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import type { Habit } from '@/types'
+import {
+  addDays,
+  daysBetween,
+  getNthWeekdayOfMonth,
+  getPreviousNthWeekday,
+  isHabitDueOn,
+  isVacationDay,
+} from './habits'
+
+function makeHabit(
+  frequency: Habit['frequency'],
+  completionDates: string[] = []
+): Pick<Habit, 'frequency' | 'completions'> {
+  return {
+    frequency,
+    completions: completionDates.map((date) => ({ date, value: 1, completedAt: `${date}T12:00:00Z` })),
+  }
+}
+
+describe('habits utilities', () => {
+  describe('daysBetween', () => {
+    it('should count whole days between dates', () => {
+      expect(daysBetween('2024-01-01', '2024-01-04')).toBe(3)
+    })
+
+    it('should be negative when the second date is earlier', () => {
+      expect(daysBetween('2024-01-04', '2024-01-01')).toBe(-3)
+    })
+
+    it('should cross month and year boundaries', () => {
+      expect(daysBetween('2023-12-30', '2024-01-02')).toBe(3)
+      expect(daysBetween('2024-02-28', '2024-03-01')).toBe(2) // leap year
+    })
+  })
+
+  describe('addDays', () => {
+    it('should move forward and backward across month boundaries', () => {
+      expect(addDays('2024-01-31', 1)).toBe('2024-02-01')
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29')
+      expect(addDays('2023-12-31', 7)).toBe('2024-01-07')
+    })
+  })
+
+  describe('getNthWeekdayOfMonth', () => {
+    it('should return the first weekday of the month', () => {
+      // January 2024 starts on a Monday
+      expect(getNthWeekdayOfMonth(2024, 0, 1, 1)).toBe('2024-01-01')
+      expect(getNthWeekdayOfMonth(2024, 0, 1, 0)).toBe('2024-01-07')
+    })
+
+    it('should return the Nth weekday of the month', () => {
+      expect(getNthWeekdayOfMonth(2024, 0, 2, 2)).toBe('2024-01-09')
+      expect(getNthWeekdayOfMonth(2024, 0, 4, 5)).toBe('2024-01-26')
+    })
+
+    it('should return the last weekday of the month for week -1', () => {
+      expect(getNthWeekdayOfMonth(2024, 0, -1, 3)).toBe('2024-01-31')
+      expect(getNthWeekdayOfMonth(2024, 1, -1, 5)).toBe('2024-02-23')
+    })
+
+    it('should handle month indexes outside 0-11', () => {
+      expect(getNthWeekdayOfMonth(2024, -1, 1, 5)).toBe('2023-12-01')
+    })
+  })
+
+  describe('getPreviousNthWeekday', () => {
+    it('should return the date itself when it is the Nth weekday', () => {
+      expect(getPreviousNthWeekday('2024-01-09', 2, 2)).toBe('2024-01-09')
+    })
+
+    it('should return this month occurrence when already past', () => {
+      expect(getPreviousNthWeekday('2024-01-20', 2, 2)).toBe('2024-01-09')
+    })
+
+    it('should return last month occurrence when not reached yet', () => {
+      expect(getPreviousNthWeekday('2024-02-05', 2, 2)).toBe('2024-01-09')
+    })
+  })
+
+  describe('isVacationDay', () => {
+    const vacations = [{ startDate: '2024-01-10', endDate: '2024-01-12' }]
+
+    it('should include both ends of the range', () => {
+      expect(isVacationDay('2024-01-10', vacations)).toBe(true)
+      expect(isVacationDay('2024-01-11', vacations)).toBe(true)
+      expect(isVacationDay('2024-01-12', vacations)).toBe(true)
+    })
+
+    it('should be false outside every range', () => {
+      expect(isVacationDay('2024-01-09', vacations)).toBe(false)
+      expect(isVacationDay('2024-01-13', vacations)).toBe(false)
+      expect(isVacationDay('2024-01-13')).toBe(false)
+    })
+  })
+
+  describe('isHabitDueOn', () => {
+    it('should not be due during a vacation', () => {
+      const vacations = [{ startDate: '2024-01-10', endDate: '2024-01-12' }]
+      expect(isHabitDueOn(makeHabit({ type: 'daily' }), '2024-01-11', vacations)).toBe(false)
+      expect(isHabitDueOn(makeHabit({ type: 'daily' }), '2024-01-13', vacations)).toBe(true)
+    })
+
+    it('should always be due for daily, weekly and monthly habits', () => {
+      expect(isHabitDueOn(makeHabit({ type: 'daily' }), '2024-01-10')).toBe(true)
+      expect(isHabitDueOn(makeHabit({ type: 'weekly', daysPerWeek: 3 }), '2024-01-10')).toBe(true)
+      expect(isHabitDueOn(makeHabit({ type: 'monthly', timesPerMonth: 2 }), '2024-01-10')).toBe(true)
+    })
+
+    it('should be due on the selected days for specificDays habits', () => {
+      const habit = makeHabit({ type: 'specificDays', days: [1, 3] }) // Mon, Wed
+      expect(isHabitDueOn(habit, '2024-01-08')).toBe(true)
+      expect(isHabitDueOn(habit, '2024-01-10')).toBe(true)
+      expect(isHabitDueOn(habit, '2024-01-09')).toBe(false)
+    })
+
+    describe('interval', () => {
+      const frequency = { type: 'interval', everyDays: 3 } as const
+
+      it('should be due when never completed', () => {
+        expect(isHabitDueOn(makeHabit(frequency), '2024-01-10')).toBe(true)
+      })
+
+      it('should not be due before the interval has passed', () => {
+        const habit = makeHabit(frequency, ['2024-01-10'])
+        expect(isHabitDueOn(habit, '2024-01-11')).toBe(false)
+        expect(isHabitDueOn(habit, '2024-01-12')).toBe(false)
+      })
+
+      it('should be due once the interval has passed', () => {
+        const habit = makeHabit(frequency, ['2024-01-10'])
+        expect(isHabitDueOn(habit, '2024-01-13')).toBe(true)
+        expect(isHabitDueOn(habit, '2024-01-20')).toBe(true)
+      })
+
+      it('should stay due on the day it was completed', () => {
+        const habit = makeHabit(frequency, ['2024-01-08', '2024-01-10'])
+        expect(isHabitDueOn(habit, '2024-01-10')).toBe(true)
+      })
+
+      it('should ignore completions after the date', () => {
+        const habit = makeHabit(frequency, ['2024-01-15'])
+        expect(isHabitDueOn(habit, '2024-01-10')).toBe(true)
+      })
+    })
+
+    it('should be due only on the Nth weekday for nthWeekday habits', () => {
+      const habit = makeHabit({ type: 'nthWeekday', week: -1, weekday: 5 }) // last Friday
+      expect(isHabitDueOn(habit, '2024-01-26')).toBe(true)
+      expect(isHabitDueOn(habit, '2024-01-19')).toBe(false)
+      expect(isHabitDueOn(habit, '2024-01-31')).toBe(false)
+    })
+  })
+})
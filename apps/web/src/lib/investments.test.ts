@@ -0,0 +1,235 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildEventTransaction,
+  calculatePortfolioHistory,
+  calculatePortfolioSummary,
+  calculatePosition,
+  getEffectiveAnnualRate,
+  getEventAmount,
+  getLatestPrice,
+} from './investments'
+import type { InvestmentAsset, InvestmentEvent, InvestmentPrice } from '@/types/finances'
+
+const asset: InvestmentAsset = {
+  id: 'petr4',
+  name: 'Petrobras',
+  ticker: 'PETR4',
+  type: 'stock',
+  accountId: 'broker',
+  createdAt: '2024-01-01T00:00:00Z',
+}
+
+function event(overrides: Partial<InvestmentEvent> = {}): InvestmentEvent {
+  return {
+    id: 'buy-1',
+    assetId: 'petr4',
+    type: 'buy',
+    date: '2024-01-10',
+    quantity: 100,
+    price: 30,
+    fees: 10,
+    amount: 3010,
+    createdAt: '2024-01-10T10:00:00Z',
+    ...overrides,
+  }
+}
+
+function price(overrides: Partial<InvestmentPrice> = {}): InvestmentPrice {
+  return {
+    id: 'price-1',
+    assetId: 'petr4',
+    price: 40,
+    date: '2024-03-01',
+    createdAt: '2024-03-01T10:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('investments', () => {
+  describe('getEffectiveAnnualRate', () => {
+    it('should keep fixed rates as they are', () => {
+      expect(getEffectiveAnnualRate({ yieldIndex: 'fixed', annualRate: 12 })).toBe(12)
+    })
+
+    it('should yield the CDI itself at 100% of it', () => {
+      const rate = getEffectiveAnnualRate({ yieldIndex: 'cdi', annualRate: 100, indexRate: 10.65 })
+
+      expect(rate).toBeCloseTo(10.65, 6)
+    })
+
+    it('should apply a percentage of the CDI to its daily rate', () => {
+      const rate = getEffectiveAnnualRate({ yieldIndex: 'cdi', annualRate: 110, indexRate: 10 })
+
+      // Slightly above 11% because the extra 10% compounds daily
+      expect(rate).toBeGreaterThan(11)
+      expect(rate).toBeLessThan(11.1)
+    })
+
+    it('should compound an IPCA spread over inflation', () => {
+      const rate = getEffectiveAnnualRate({ yieldIndex: 'ipca', annualRate: 6, indexRate: 4 })
+
+      expect(rate).toBeCloseTo(10.24, 6)
+    })
+  })
+
+  describe('getEventAmount', () => {
+    it('should add fees to buys and take them from sells', () => {
+      expect(getEventAmount('buy', 10, 25, 5)).toBe(255)
+      expect(getEventAmount('sell', 10, 25, 5)).toBe(245)
+    })
+  })
+
+  describe('getLatestPrice', () => {
+    it('should use the most recent of manual and trade prices', () => {
+      const events = [event(), event({ id: 'buy-2', date: '2024-04-01', price: 35, amount: 3510 })]
+
+      expect(getLatestPrice('petr4', events, [price()])).toEqual({ price: 35, date: '2024-04-01' })
+      expect(getLatestPrice('petr4', events, [price()], '2024-03-15')).toEqual({
+        price: 40,
+        date: '2024-03-01',
+      })
+    })
+
+    it('should prefer a manual price on the day of a trade', () => {
+      const prices = [price({ date: '2024-01-10', price: 31 })]
+
+      expect(getLatestPrice('petr4', [event()], prices)?.price).toBe(31)
+    })
+  })
+
+  describe('calculatePosition', () => {
+    it('should value the units held at the latest price', () => {
+      const position = calculatePosition(asset, [event()], [price()])
+
+      expect(position).toMatchObject({
+        quantity: 100,
+        costBasis: 3010,
+        averageCost: 30.1,
+        marketValue: 4000,
+        unrealizedGain: 990,
+      })
+    })
+
+    it('should take the average cost out on sells', () => {
+      const events = [
+        event(),
+        event({ id: 'buy-2', date: '2024-02-10', price: 40, fees: 0, amount: 4000 }),
+        event({
+          id: 'sell-1',
+          type: 'sell',
+          date: '2024-03-10',
+          quantity: 50,
+          price: 50,
+          fees: 0,
+          amount: 2500,
+        }),
+      ]
+      const position = calculatePosition(asset, events, [])
+
+      expect(position.quantity).toBe(150)
+      expect(position.averageCost).toBeCloseTo(35.05, 6)
+      expect(position.realizedGain).toBeCloseTo(2500 - 50 * 35.05, 6)
+    })
+
+    it('should count dividends in the total return', () => {
+      const events = [
+        event({ fees: 0, amount: 3000 }),
+        event({
+          id: 'div-1',
+          type: 'dividend',
+          date: '2024-02-15',
+          quantity: 0,
+          price: 0,
+          fees: 0,
+          amount: 150,
+        }),
+      ]
+      const position = calculatePosition(asset, events, [price({ price: 30 })])
+
+      expect(position.dividends).toBe(150)
+      expect(position.totalReturn).toBe(150)
+      expect(position.returnPercentage).toBe(5)
+    })
+
+    it('should ignore events after the given date', () => {
+      expect(calculatePosition(asset, [event()], [], '2024-01-09').quantity).toBe(0)
+    })
+  })
+
+  describe('calculatePortfolioSummary', () => {
+    it('should convert positions to the base currency', () => {
+      const usd: InvestmentAsset = { ...asset, id: 'voo', currency: 'USD' }
+      const events = [
+        event({ fees: 0, amount: 3000 }),
+        event({ id: 'buy-2', assetId: 'voo', price: 10, fees: 0, amount: 1000 }),
+      ]
+      const positions = [calculatePosition(asset, events, []), calculatePosition(usd, events, [])]
+      const rates = [
+        {
+          id: 'r1',
+          fromCurrency: 'USD' as const,
+          toCurrency: 'BRL' as const,
+          rate: 5,
+          date: '2024-01-01',
+          createdAt: '2024-01-01T00:00:00Z',
+        },
+      ]
+
+      const summary = calculatePortfolioSummary(positions, events, '2024-03-31', {
+        baseCurrency: 'BRL',
+        rates,
+      })
+
+      expect(summary.marketValue).toBe(8000)
+      expect(summary.costBasis).toBe(8000)
+      expect(summary.returnPercentage).toBe(0)
+    })
+  })
+
+  describe('calculatePortfolioHistory', () => {
+    it('should value the portfolio at the end of each month', () => {
+      const history = calculatePortfolioHistory([asset], [event()], [price()], '2024-03-15', 3)
+
+      expect(history).toEqual([
+        { month: '2024-01', value: 3000, invested: 3010 },
+        { month: '2024-02', value: 3000, invested: 3010 },
+        { month: '2024-03', value: 4000, invested: 3010 },
+      ])
+    })
+  })
+
+  describe('buildEventTransaction', () => {
+    const options = { accountId: 'checking', description: 'PETR4' }
+
+    it('should move the money of buys and sells between accounts', () => {
+      expect(buildEventTransaction(event(), asset, options)).toMatchObject({
+        type: 'transfer',
+        amount: 3010,
+        accountId: 'checking',
+        toAccountId: 'broker',
+      })
+      expect(buildEventTransaction(event({ type: 'sell' }), asset, options)).toMatchObject({
+        type: 'transfer',
+        accountId: 'broker',
+        toAccountId: 'checking',
+      })
+    })
+
+    it('should need both accounts for trades', () => {
+      const unlinked = { ...asset, accountId: undefined }
+
+      expect(buildEventTransaction(event(), unlinked, options)).toBeUndefined()
+    })
+
+    it('should record dividends as investment income', () => {
+      const dividend = event({ type: 'dividend', amount: 150 })
+
+      expect(buildEventTransaction(dividend, asset, { description: 'PETR4' })).toMatchObject({
+        type: 'income',
+        categoryId: 'investments',
+        amount: 150,
+        accountId: 'broker',
+      })
+    })
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { extractNoteReferences } from './links'
+import { markdownToBlocks } from './markdown'
+
+describe('links', () => {
+  describe('extractNoteReferences', () => {
+    it('should find page links and mentions in every block', () => {
+      const blocks = markdownToBlocks(
+        [
+          '# Revisão de [[Limites]]',
+          '- Fazer @task[Lista 3] antes da prova',
+          '  - Manter o hábito @habit[Estudar 1h]',
+          '> Parte do @project[Cálculo I], ver também [[Derivadas]]',
+        ].join('\n')
+      )
+
+      expect(extractNoteReferences(blocks)).toEqual([
+        { type: 'page', title: 'Limites' },
+        { type: 'task', title: 'Lista 3' },
+        { type: 'habit', title: 'Estudar 1h' },
+        { type: 'project', title: 'Cálculo I' },
+        { type: 'page', title: 'Derivadas' },
+      ])
+    })
+
+    it('should list each reference once, ignoring case', () => {
+      const blocks = markdownToBlocks('[[Limites]] e [[limites]]\n[[ Limites ]] e @task[Limites]')
+
+      expect(extractNoteReferences(blocks)).toEqual([
+        { type: 'page', title: 'Limites' },
+        { type: 'task', title: 'Limites' },
+      ])
+    })
+
+    it('should ignore references written as code', () => {
+      const blocks = markdownToBlocks('Use `[[Página]]` para ligar\n```\n@task[Exemplo]\n```')
+
+      expect(extractNoteReferences(blocks)).toEqual([])
+    })
+  })
+})
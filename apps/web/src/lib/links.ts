@@ -0,0 +1,42 @@
+import type { NoteBlock, NoteReference, PageLinkTargetType } from '@/types/studies'
+
+// [[Page title]] links to another page; @task[Title], @habit[Title] and
+// @project[Title] mention the task, habit or project with that title
+const REFERENCE_PATTERN = /\[\[([^[\]]+)\]\]|@(task|habit|project)\[([^[\]]+)\]/g
+
+function blockText(block: NoteBlock): string {
+  if (!Array.isArray(block.content)) return ''
+
+  return block.content
+    .flatMap((item) => (item.type === 'link' ? item.content : [item]))
+    .filter((item) => !item.styles?.code)
+    .map((item) => item.text ?? '')
+    .join('')
+}
+
+function collectReferences(blocks: NoteBlock[], references: Map<string, NoteReference>) {
+  for (const block of blocks) {
+    // Code is shown as written, so references inside it are not links
+    if (block.type !== 'codeBlock') {
+      for (const match of blockText(block).matchAll(REFERENCE_PATTERN)) {
+        const type = (match[1] !== undefined ? 'page' : match[2]) as PageLinkTargetType
+        const title = (match[1] ?? match[3]).trim()
+        const key = `${type}:${title.toLowerCase()}`
+        if (title && !references.has(key)) references.set(key, { type, title })
+      }
+    }
+    collectReferences(block.children ?? [], references)
+  }
+}
+
+/**
+ * Pages, tasks, habits and projects a page refers to by title, once each
+ * (titles compared ignoring case), in the order they first appear.
+ */
+export function extractNoteReferences(blocks: NoteBlock[]): NoteReference[] {
+  if (!Array.isArray(blocks)) return []
+
+  const references = new Map<string, NoteReference>()
+  collectReferences(blocks, references)
+  return [...references.values()]
+}
@@ -0,0 +1,242 @@
+import { describe, it, expect } from 'vitest'
+import { blocksToMarkdown, blocksToPlainText, markdownToBlocks } from './markdown'
+import type { NoteBlock } from '@/types/studies'
+
+function block(type: string, text?: string, props: Record<string, unknown> = {}): NoteBlock {
+  return {
+    type,
+    props,
+    content: text === undefined ? undefined : text ? [{ type: 'text', text, styles: {} }] : [],
+    children: [],
+  }
+}
+
+const DOCUMENT = [
+  '# Cálculo I',
+  '## Limites',
+  'Um limite descreve o **comportamento** de _f(x)_ perto de um ponto.',
+  '',
+  '- Definição formal',
+  '  - Épsilon e delta',
+  '- Limites laterais',
+  '1. Substituir',
+  '2. Fatorar',
+  '- [x] Ler o capítulo 2',
+  '- [ ] Fazer os exercícios',
+  '> Pratique todo dia',
+  '---',
+  '```python',
+  'def f(x):',
+  '    return x ** 2',
+  '```',
+  'Veja [a lista](https://example.com/lista?a=1) e ~~esqueça~~ <u>sublinhe</u> `código`.',
+].join('\n')
+
+describe('markdown', () => {
+  describe('markdownToBlocks', () => {
+    it('should read every block of the notes dialect', () => {
+      const blocks = markdownToBlocks(DOCUMENT)
+
+      expect(blocks.map((b) => b.type)).toEqual([
+        'heading',
+        'heading',
+        'paragraph',
+        'paragraph',
+        'bulletListItem',
+        'bulletListItem',
+        'numberedListItem',
+        'numberedListItem',
+        'checkListItem',
+        'checkListItem',
+        'quote',
+        'divider',
+        'codeBlock',
+        'paragraph',
+      ])
+      expect(blocks[1].props).toEqual({ level: 2 })
+      expect(blocks[4].children).toEqual([block('bulletListItem', 'Épsilon e delta')])
+      expect(blocks[8].props).toEqual({ checked: true })
+      expect(blocks[12]).toEqual(
+        block('codeBlock', 'def f(x):\n    return x ** 2', { language: 'python' })
+      )
+    })
+
+    it('should read inline styles and links', () => {
+      const [paragraph] = markdownToBlocks('**negrito _e itálico_** [site](https://a.com)')
+
+      expect(paragraph.content).toEqual([
+        { type: 'text', text: 'negrito ', styles: { bold: true } },
+        { type: 'text', text: 'e itálico', styles: { bold: true, italic: true } },
+        { type: 'text', text: ' ', styles: {} },
+        {
+          type: 'link',
+          href: 'https://a.com',
+          content: [{ type: 'text', text: 'site', styles: {} }],
+        },
+      ])
+    })
+
+    it('should read what the mobile toolbar writes', () => {
+      const blocks = markdownToBlocks('*itálico* e ***ambos***\n- [ ] tarefa\n3. terceiro')
+
+      expect(blocks[0].content).toEqual([
+        { type: 'text', text: 'itálico', styles: { italic: true } },
+        { type: 'text', text: ' e ', styles: {} },
+        { type: 'text', text: 'ambos', styles: { bold: true, italic: true } },
+      ])
+      expect(blocks[1]).toEqual(block('checkListItem', 'tarefa', { checked: false }))
+      expect(blocks[2].props).toEqual({ start: 3 })
+    })
+
+    it('should keep underscores inside words as text', () => {
+      const [paragraph] = markdownToBlocks('use snake_case_name e _itálico_')
+
+      expect(paragraph.content).toEqual([
+        { type: 'text', text: 'use snake_case_name e ', styles: {} },
+        { type: 'text', text: 'itálico', styles: { italic: true } },
+      ])
+    })
+
+    it('should keep unmatched delimiters as text', () => {
+      const [paragraph] = markdownToBlocks('2 * 3 = 6 e **aberto')
+
+      expect(paragraph.content).toEqual([
+        { type: 'text', text: '2 * 3 = 6 e **aberto', styles: {} },
+      ])
+    })
+
+    it('should reuse unchanged blocks of the previous page', () => {
+      const previous: NoteBlock[] = [
+        {
+          id: 'title',
+          type: 'heading',
+          props: { level: 1, textColor: 'red', textAlignment: 'center' },
+          content: [{ type: 'text', text: 'Título', styles: {} }],
+          children: [],
+        },
+        { id: 'image', type: 'image', props: { url: 'https://a.com/x.png' }, children: [] },
+        { ...block('paragraph', 'antes'), id: 'body' },
+      ]
+
+      const markdown = blocksToMarkdown(previous)
+      const blocks = markdownToBlocks(markdown.replace('antes', 'depois'), previous)
+
+      expect(markdown).toBe('# Título\n<!-- block:image -->\nantes')
+      expect(blocks[0]).toEqual(previous[0])
+      expect(blocks[1]).toEqual(previous[1])
+      expect(blocks[2]).toEqual(block('paragraph', 'depois'))
+    })
+  })
+
+  describe('blocksToMarkdown', () => {
+    it('should write back the Markdown it reads', () => {
+      expect(blocksToMarkdown(markdownToBlocks(DOCUMENT))).toBe(DOCUMENT)
+    })
+
+    it('should round-trip blocks through Markdown', () => {
+      const blocks: NoteBlock[] = [
+        block('heading', 'Resumo', { level: 3 }),
+        {
+          ...block('numberedListItem', 'quinto', { start: 5 }),
+          children: [
+            block('paragraph', ''),
+            block('codeBlock', 'const a = 1\n\nreturn a', { language: 'text' }),
+          ],
+        },
+        block('numberedListItem', 'sexto'),
+        {
+          type: 'paragraph',
+          props: {},
+          content: [
+            { type: 'text', text: 'linha\nquebrada ', styles: { strike: true, underline: true } },
+            { type: 'text', text: 'a `b`', styles: { code: true } },
+            { type: 'text', text: ' *não* [é] _markdown_ \\ ~~', styles: {} },
+            {
+              type: 'link',
+              href: 'https://a.com/(x)',
+              content: [{ type: 'text', text: 'link', styles: { bold: true } }],
+            },
+          ],
+          children: [],
+        },
+        block('paragraph', '# não é título'),
+        block('paragraph', '  recuado'),
+        block('divider'),
+        block('paragraph', ''),
+      ]
+
+      expect(markdownToBlocks(blocksToMarkdown(blocks))).toEqual(blocks)
+    })
+
+    it('should open a style shared by adjacent runs once', () => {
+      const paragraph: NoteBlock = {
+        type: 'paragraph',
+        props: {},
+        content: [
+          { type: 'text', text: 'bold ', styles: { bold: true } },
+          { type: 'text', text: 'both', styles: { bold: true, italic: true } },
+          { type: 'text', text: ' tail', styles: {} },
+        ],
+        children: [],
+      }
+
+      expect(blocksToMarkdown([paragraph])).toBe('**bold _both_** tail')
+      expect(markdownToBlocks(blocksToMarkdown([paragraph]))).toEqual([paragraph])
+    })
+
+    it('should round-trip styles that overlap or start inside a word', () => {
+      const paragraph: NoteBlock = {
+        type: 'paragraph',
+        props: {},
+        content: [
+          { type: 'text', text: 'snake_', styles: {} },
+          { type: 'text', text: 'case', styles: { italic: true } },
+          { type: 'text', text: '_name ', styles: {} },
+          { type: 'text', text: 'a', styles: { italic: true } },
+          { type: 'text', text: 'b', styles: { italic: true, strike: true } },
+          { type: 'text', text: 'c', styles: { strike: true } },
+          { type: 'text', text: ' ', styles: {} },
+          { type: 'text', text: 'x', styles: { underline: true } },
+          { type: 'text', text: 'y', styles: { bold: true, underline: true } },
+          { type: 'text', text: 'z', styles: { bold: true } },
+        ],
+        children: [],
+      }
+
+      expect(markdownToBlocks(blocksToMarkdown([paragraph]))).toEqual([paragraph])
+    })
+
+    it('should fence code that contains fences', () => {
+      const code = block('codeBlock', '```\ncódigo\n```', { language: 'markdown' })
+
+      expect(blocksToMarkdown([code])).toBe('````markdown\n```\ncódigo\n```\n````')
+      expect(markdownToBlocks(blocksToMarkdown([code]))).toEqual([code])
+    })
+
+    it('should leave wiki links and mentions as typed', () => {
+      const markdown = 'Ver [[Limites]] e @task[Lista 3], não [isto](x)'
+      const [paragraph] = markdownToBlocks(markdown)
+
+      expect(paragraph.content?.[0]).toEqual({
+        type: 'text',
+        text: 'Ver [[Limites]] e @task[Lista 3], não ',
+        styles: {},
+      })
+      expect(blocksToMarkdown([block('paragraph', '[[a]] [b](c)')])).toBe('[[a]] [b\\](c)')
+    })
+
+    it('should keep notes saved as raw Markdown by the old mobile editor', () => {
+      const legacy = [{ type: 'paragraph', content: [{ type: 'text', text: '# Nota\n- item' }] }]
+
+      expect(blocksToMarkdown(legacy as NoteBlock[])).toBe('# Nota\n- item')
+    })
+  })
+
+  describe('blocksToPlainText', () => {
+    it('should join the text of every block', () => {
+      expect(blocksToPlainText(markdownToBlocks('# Título\n- **um**\n  - [dois](x)\n---'))).toBe(
+        'Título um dois'
+      )
+    })
+  })
+})
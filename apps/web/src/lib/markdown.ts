@@ -0,0 +1,556 @@
+import type {
+  NoteBlock,
+  NoteInlineContent,
+  NoteLink,
+  NoteStyledText,
+  NoteTextStyles,
+} from '@/types/studies'
+
+// Conversion between BlockNote pages and the Markdown dialect of the mobile
+// notes editor: `#` headings, `-` bullets, `1.` numbered items, `- [ ]`
+// checklists, `>` quotes, fenced code, `---` dividers, **bold**, _italic_
+// (or *italic*), ~~strike~~, <u>underline</u>, `code` and [links](url).
+// Children are indented by two spaces under their parent block.
+
+const INDENT = '  '
+const DEFAULT_CODE_LANGUAGE = 'text'
+
+// Blocks Markdown cannot express (images, tables...) are kept as a placeholder
+// line and restored from the previous content when converting back
+const PLACEHOLDER_PATTERN = /^<!-- block:(\S+) -->$/
+
+const STYLE_KEYS = ['bold', 'italic', 'underline', 'strike', 'code'] as const
+
+// =============================================================================
+// Inline content
+// =============================================================================
+
+// Brackets only need escaping where they could close a link, so [[wiki links]]
+// and @task[mentions] read as typed
+function escapeText(text: string, inLink = false): string {
+  return text
+    .replace(/[\\`*_]/g, '\\$&')
+    .replace(inLink ? /[[\]]/g : /\](?=\()/g, '\\$&')
+    .replace(/~~/g, '\\~\\~')
+    .replace(/<(?=\/?u>|br>)/g, '\\<')
+    .replace(/\n/g, '<br>')
+}
+
+// Fenced with one backtick more than the longest run inside, padded so
+// backticks at the edges do not merge with the fence
+function codeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  const fence = '`'.repeat(longestRun + 1)
+  return longestRun > 0 ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`
+}
+
+// Styles written with delimiters, outermost first when several start together
+const WRAPPED_STYLES = ['bold', 'italic', 'underline', 'strike'] as const
+type WrappedStyle = (typeof WRAPPED_STYLES)[number]
+
+function isWordChar(char: string | undefined): boolean {
+  return !!char && /[\p{L}\p{N}]/u.test(char)
+}
+
+function runToMarkdown(item: NoteStyledText, inLink: boolean): string {
+  return item.styles?.code ? codeSpan(item.text) : escapeText(item.text, inLink)
+}
+
+/**
+ * Markdown for consecutive styled runs. A style shared by adjacent runs is
+ * opened once around all of them, the longest-running outside, so bold
+ * "bold " followed by bold italic "both" is `**bold _both_**` rather than
+ * `**bold ****_both_**`, which would not read back. Italics inside a word
+ * use `*`, since `_` only delimits at word boundaries.
+ */
+function runsToMarkdown(
+  runs: NoteStyledText[],
+  styles: readonly WrappedStyle[],
+  inLink: boolean
+): string {
+  const isWrapped = (run: NoteStyledText) => styles.some((style) => run.styles?.[style])
+
+  let markdown = ''
+  let i = 0
+  while (i < runs.length) {
+    if (!isWrapped(runs[i])) {
+      markdown += runToMarkdown(runs[i], inLink)
+      i++
+      continue
+    }
+
+    const spans = styles
+      .filter((style) => runs[i].styles?.[style])
+      .map((style) => {
+        let end = i + 1
+        while (end < runs.length && runs[end].styles?.[style]) end++
+        return { style, end }
+      })
+    const { style, end } = spans.reduce((longest, span) => (span.end > longest.end ? span : longest))
+    const inner = runsToMarkdown(
+      runs.slice(i, end),
+      styles.filter((s) => s !== style),
+      inLink
+    )
+
+    const next = runs[end]
+    const intraword =
+      isWordChar(markdown[markdown.length - 1]) ||
+      (!!next && !isWrapped(next) && !next.styles?.code && isWordChar(next.text[0]))
+
+    switch (style) {
+      case 'bold':
+        markdown += `**${inner}**`
+        break
+      case 'italic':
+        markdown += intraword ? `*${inner}*` : `_${inner}_`
+        break
+      case 'underline':
+        markdown += `<u>${inner}</u>`
+        break
+      case 'strike':
+        markdown += `~~${inner}~~`
+        break
+    }
+    i = end
+  }
+
+  return markdown
+}
+
+function inlineToMarkdown(content: NoteInlineContent[] | undefined): string {
+  if (!Array.isArray(content)) return ''
+
+  let markdown = ''
+  let runs: NoteStyledText[] = []
+  const flush = () => {
+    markdown += runsToMarkdown(runs, WRAPPED_STYLES, false)
+    runs = []
+  }
+
+  for (const item of content) {
+    if (item.type === 'link') {
+      flush()
+      const href = item.href.replace(/[\\()]/g, '\\$&')
+      const text = runsToMarkdown(
+        item.content.filter((styled) => styled.text),
+        WRAPPED_STYLES,
+        true
+      )
+      markdown += `[${text}](${href})`
+    } else if (item.text) {
+      runs.push(item)
+    }
+  }
+  flush()
+
+  return markdown
+}
+
+// Index of the closing delimiter, skipping escaped characters
+function findClosing(text: string, delimiter: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++
+      continue
+    }
+    if (!text.startsWith(delimiter, i)) continue
+
+    if (delimiter === '_') {
+      // Underscores inside a word (snake_case) do not close italics
+      if (isWordChar(text[i + 1])) continue
+    } else if (delimiter === '*') {
+      // A single star closes italics only when it is not part of **bold**
+      if (text[i + 1] === '*') {
+        i++
+        continue
+      }
+    } else if (delimiter === '**') {
+      // In ***text*** the bold closes on the last two stars
+      let end = i
+      while (text[end] === '*') end++
+      return i === from ? -1 : end - 2
+    }
+    return i === from ? -1 : i
+  }
+  return -1
+}
+
+function stylesEqual(a: NoteTextStyles, b: NoteTextStyles): boolean {
+  return STYLE_KEYS.every((key) => !!a[key] === !!b[key])
+}
+
+function pushText(items: NoteInlineContent[], text: string, styles: NoteTextStyles) {
+  if (!text) return
+  const last = items[items.length - 1]
+  if (last?.type === 'text' && stylesEqual(last.styles, styles)) {
+    last.text += text
+  } else {
+    items.push({ type: 'text', text, styles: { ...styles } })
+  }
+}
+
+const DELIMITERS: { open: string; close: string; style: keyof NoteTextStyles }[] = [
+  { open: '**', close: '**', style: 'bold' },
+  { open: '~~', close: '~~', style: 'strike' },
+  { open: '<u>', close: '</u>', style: 'underline' },
+  { open: '_', close: '_', style: 'italic' },
+  { open: '*', close: '*', style: 'italic' },
+]
+
+function parseInline(
+  markdown: string,
+  styles: NoteTextStyles = {},
+  items: NoteInlineContent[] = []
+): NoteInlineContent[] {
+  let text = ''
+  const flush = () => {
+    pushText(items, text, styles)
+    text = ''
+  }
+
+  let i = 0
+  while (i < markdown.length) {
+    const char = markdown[i]
+
+    if (char === '\\' && i + 1 < markdown.length) {
+      text += markdown[i + 1]
+      i += 2
+      continue
+    }
+
+    if (markdown.startsWith('<br>', i)) {
+      text += '\n'
+      i += 4
+      continue
+    }
+
+    if (char === '`') {
+      let fenceEnd = i
+      while (markdown[fenceEnd] === '`') fenceEnd++
+      const fence = markdown.slice(i, fenceEnd)
+      const close = markdown.indexOf(fence, fenceEnd)
+      if (close !== -1 && markdown[close + fence.length] !== '`') {
+        let code = markdown.slice(fenceEnd, close)
+        if (fence.length > 1 && code.startsWith(' ') && code.endsWith(' ')) {
+          code = code.slice(1, -1)
+        }
+        flush()
+        pushText(items, code, { ...styles, code: true })
+        i = close + fence.length
+        continue
+      }
+    }
+
+    if (char === '[') {
+      const link = parseLink(markdown, i, styles)
+      if (link) {
+        flush()
+        items.push(link.link)
+        i = link.end
+        continue
+      }
+    }
+
+    const delimiter = DELIMITERS.find((d) => markdown.startsWith(d.open, i))
+    // Nor do they open them
+    if (delimiter && !(delimiter.open === '_' && isWordChar(markdown[i - 1]))) {
+      const start = i + delimiter.open.length
+      const close = findClosing(markdown, delimiter.close, start)
+      if (close !== -1) {
+        flush()
+        parseInline(markdown.slice(start, close), { ...styles, [delimiter.style]: true }, items)
+        i = close + delimiter.close.length
+        continue
+      }
+    }
+
+    text += char
+    i++
+  }
+
+  flush()
+  return items
+}
+
+function parseLink(
+  markdown: string,
+  start: number,
+  styles: NoteTextStyles
+): { link: NoteLink; end: number } | undefined {
+  const textEnd = findClosing(markdown, ']', start + 1)
+  if (textEnd === -1 || markdown[textEnd + 1] !== '(') return undefined
+
+  const hrefEnd = findClosing(markdown, ')', textEnd + 2)
+  if (hrefEnd === -1) return undefined
+
+  const href = markdown.slice(textEnd + 2, hrefEnd).replace(/\\(.)/g, '$1')
+  const content = parseInline(markdown.slice(start + 1, textEnd), styles).filter(
+    (item): item is NoteStyledText => item.type === 'text'
+  )
+  return { link: { type: 'link', href, content }, end: hrefEnd + 1 }
+}
+
+// =============================================================================
+// Blocks -> Markdown
+// =============================================================================
+
+type LineMatch =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'checkListItem'; checked: boolean; text: string }
+  | { type: 'bulletListItem'; text: string }
+  | { type: 'numberedListItem'; number: number; text: string }
+  | { type: 'quoteBlock'; text: string }
+  | { type: 'divider' }
+  | { type: 'fence'; fence: string; language: string }
+  | { type: 'placeholder'; id: string }
+
+// Block syntax at the start of a line, with the indentation already removed
+function matchLine(line: string): LineMatch | undefined {
+  let match = line.match(/^(`{3,})([^`]*)$/)
+  if (match) return { type: 'fence', fence: match[1], language: match[2].trim() }
+
+  match = line.match(PLACEHOLDER_PATTERN)
+  if (match) return { type: 'placeholder', id: match[1] }
+
+  if (/^-{3,}$/.test(line)) return { type: 'divider' }
+
+  match = line.match(/^(#{1,6})(?: (.*))?$/)
+  if (match) return { type: 'heading', level: match[1].length, text: match[2] ?? '' }
+
+  match = line.match(/^[-*+] \[([ xX])\](?: (.*))?$/)
+  if (match) return { type: 'checkListItem', checked: match[1] !== ' ', text: match[2] ?? '' }
+
+  match = line.match(/^[-*+](?: (.*))?$/)
+  if (match) return { type: 'bulletListItem', text: match[1] ?? '' }
+
+  match = line.match(/^(\d+)[.)](?: (.*))?$/)
+  if (match) return { type: 'numberedListItem', number: Number(match[1]), text: match[2] ?? '' }
+
+  match = line.match(/^>(?: (.*))?$/)
+  if (match) return { type: 'quoteBlock', text: match[1] ?? '' }
+
+  return undefined
+}
+
+function codeFence(code: string): string {
+  const longestRun = Math.max(0, ...(code.match(/^`+/gm) ?? []).map((run) => run.length))
+  return '`'.repeat(Math.max(3, longestRun + 1))
+}
+
+// Lines of a block on its own, without its children or indentation
+function blockLines(block: NoteBlock, number: number): string[] {
+  const props = block.props ?? {}
+  const text = inlineToMarkdown(block.content)
+
+  switch (block.type) {
+    case 'paragraph':
+      // Text that would read as block syntax (or indentation) is escaped
+      return [matchLine(text) || /^\s/.test(text) ? `\\${text}` : text]
+    case 'heading':
+      return [`${'#'.repeat(Number(props.level ?? 1))} ${text}`]
+    case 'bulletListItem':
+      return [`- ${text}`]
+    case 'numberedListItem':
+      return [`${number}. ${text}`]
+    case 'checkListItem':
+      return [`- [${props.checked ? 'x' : ' '}] ${text}`]
+    case 'quote':
+      return [`> ${text}`]
+    case 'codeBlock': {
+      const code = (Array.isArray(block.content) ? block.content : [])
+        .map((item) => (item.type === 'text' ? item.text : ''))
+        .join('')
+      const fence = codeFence(code)
+      const language = String(props.language ?? DEFAULT_CODE_LANGUAGE)
+      const info = language === DEFAULT_CODE_LANGUAGE ? '' : language
+      return [`${fence}${info}`, ...code.split('\n'), fence]
+    }
+    case 'divider':
+      return ['---']
+    default:
+      if (block.id) return [`<!-- block:${block.id} -->`]
+      return Array.isArray(block.content) ? [text] : []
+  }
+}
+
+function toLines(blocks: NoteBlock[], depth: number): string[] {
+  const indent = INDENT.repeat(depth)
+  const lines: string[] = []
+  let number = 0
+  let previousType: string | undefined
+
+  for (const block of blocks) {
+    if (block.type === 'numberedListItem') {
+      number = previousType === 'numberedListItem' ? number + 1 : Number(block.props?.start ?? 1)
+    }
+    previousType = block.type
+
+    for (const line of blockLines(block, number)) {
+      lines.push(line ? indent + line : depth > 0 ? indent : '')
+    }
+    lines.push(...toLines(block.children ?? [], depth + 1))
+  }
+
+  return lines
+}
+
+// Pages saved by the old mobile editor are a single paragraph holding the raw
+// Markdown typed on the phone, as text without styles
+function getLegacyText(blocks: NoteBlock[]): string | undefined {
+  if (blocks.length !== 1 || blocks[0].type !== 'paragraph') return undefined
+
+  const content = blocks[0].content
+  if (!Array.isArray(content) || content.length !== 1) return undefined
+
+  const item = content[0]
+  return item.type === 'text' && !(item as Partial<NoteStyledText>).styles ? item.text : undefined
+}
+
+/**
+ * Markdown for a BlockNote page. Blocks Markdown cannot express become a
+ * placeholder line that {@link markdownToBlocks} restores from the page.
+ */
+export function blocksToMarkdown(blocks: NoteBlock[]): string {
+  if (!Array.isArray(blocks) || blocks.length === 0) return ''
+
+  const legacy = getLegacyText(blocks)
+  if (legacy !== undefined) return legacy
+
+  return toLines(blocks, 0).join('\n')
+}
+
+// =============================================================================
+// Markdown -> Blocks
+// =============================================================================
+
+// What identifies a block regardless of its position, to recognize it again
+function blockKey(block: NoteBlock): string {
+  return `${block.type}\n${blockLines(block, 1).join('\n')}`
+}
+
+function flatten(blocks: NoteBlock[]): NoteBlock[] {
+  return blocks.flatMap((block) => [block, ...flatten(block.children ?? [])])
+}
+
+function createBlock(type: string, props: Record<string, unknown>, text?: string): NoteBlock {
+  return {
+    type,
+    props,
+    content: text === undefined ? undefined : parseInline(text),
+    children: [],
+  }
+}
+
+/**
+ * BlockNote blocks for Markdown written in the notes dialect. Blocks of the
+ * `previous` page that come out unchanged are reused as they were, keeping
+ * their ids and what Markdown cannot express (colors, alignment, images...).
+ */
+export function markdownToBlocks(markdown: string, previous: NoteBlock[] = []): NoteBlock[] {
+  if (!markdown) return []
+
+  const previousBlocks = flatten(Array.isArray(previous) ? previous : [])
+  const unchanged = new Map<string, NoteBlock[]>()
+  for (const block of previousBlocks) {
+    const key = blockKey(block)
+    unchanged.set(key, [...(unchanged.get(key) ?? []), block])
+  }
+  const reuse = (block: NoteBlock): NoteBlock => {
+    const match = unchanged.get(blockKey(block))?.shift()
+    return match ? { ...match, children: [] } : block
+  }
+
+  const root: NoteBlock[] = []
+  // Last block seen at each depth, the parents of deeper lines
+  const parents: NoteBlock[] = []
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n')
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const spaces = line.match(/^ */)![0].length
+    const depth = Math.min(Math.floor(spaces / INDENT.length), parents.length)
+    const indent = INDENT.repeat(depth)
+    const text = line.slice(indent.length)
+    const siblings = depth === 0 ? root : (parents[depth - 1].children ??= [])
+    const match = text.trim() ? matchLine(text) : undefined
+
+    let block: NoteBlock | undefined
+    switch (match?.type) {
+      case 'fence': {
+        const code: string[] = []
+        while (i + 1 < lines.length && lines[i + 1].slice(indent.length) !== match.fence) {
+          i++
+          code.push(lines[i].startsWith(indent) ? lines[i].slice(indent.length) : lines[i])
+        }
+        i++ // closing fence
+        block = {
+          type: 'codeBlock',
+          props: { language: match.language || DEFAULT_CODE_LANGUAGE },
+          content: code.length > 0 ? [{ type: 'text', text: code.join('\n'), styles: {} }] : [],
+          children: [],
+        }
+        break
+      }
+      case 'placeholder': {
+        const original = previousBlocks.find((b) => b.id === match.id)
+        if (original) block = { ...original, children: [] }
+        break
+      }
+      case 'divider':
+        block = createBlock('divider', {})
+        break
+      case 'heading':
+        block = createBlock('heading', { level: match.level }, match.text)
+        break
+      case 'checkListItem':
+        block = createBlock('checkListItem', { checked: match.checked }, match.text)
+        break
+      case 'bulletListItem':
+        block = createBlock('bulletListItem', {}, match.text)
+        break
+      case 'numberedListItem': {
+        const continues = siblings[siblings.length - 1]?.type === 'numberedListItem'
+        const props = !continues && match.number !== 1 ? { start: match.number } : {}
+        block = createBlock('numberedListItem', props, match.text)
+        break
+      }
+      case 'quoteBlock':
+        block = createBlock('quote', {}, match.text)
+        break
+      default:
+        block = createBlock('paragraph', {}, text.trim() ? text : '')
+    }
+
+    if (!block) continue
+    if (match?.type !== 'placeholder') block = reuse(block)
+
+    siblings.push(block)
+    parents.length = depth
+    parents.push(block)
+  }
+
+  return root
+}
+
+/**
+ * Text of a page without any formatting, for previews and search.
+ */
+export function blocksToPlainText(blocks: NoteBlock[]): string {
+  if (!Array.isArray(blocks)) return ''
+
+  const texts: string[] = []
+  for (const block of blocks) {
+    if (Array.isArray(block.content)) {
+      const text = block.content
+        .flatMap((item) => (item.type === 'link' ? item.content : [item]))
+        .map((item) => item.text ?? '')
+        .join('')
+      if (text) texts.push(text)
+    }
+    const childText = blocksToPlainText(block.children ?? [])
+    if (childText) texts.push(childText)
+  }
+
+  return texts.join(' ').trim()
+}
@@ -80,6 +80,18 @@ export function sendTaskDueReminder(taskTitle: string, taskId: string): void {
   })
 }
 
+// Task unblocked notification
+export function sendTaskUnblockedNotification(taskTitle: string, taskId: string): void {
+  sendNotification({
+    title: 'Tarefa Desbloqueada',
+    body: `Pronta para começar: ${taskTitle}`,
+    tag: `task-unblocked-${taskId}`,
+    onClick: () => {
+      window.location.href = '/tasks'
+    },
+  })
+}
+
 // Daily summary notification
 export function sendDailySummary(
   habitsCount: number,
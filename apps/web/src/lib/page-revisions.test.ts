@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  shouldCaptureRevision,
+  getRevisionsToPrune,
+  diffRevisionLines,
+  MAX_PAGE_REVISIONS,
+} from './page-revisions'
+
+const NOW = new Date('2026-10-18T12:00:00Z')
+
+describe('page-revisions', () => {
+  describe('shouldCaptureRevision', () => {
+    it('should capture the first revision of a page', () => {
+      expect(
+        shouldCaptureRevision({ previousText: 'Derivadas', nextText: 'Derivadas e integrais', now: NOW })
+      ).toBe(true)
+    })
+
+    it('should skip empty pages and unchanged text', () => {
+      expect(shouldCaptureRevision({ previousText: '  ', nextText: 'Derivadas', now: NOW })).toBe(false)
+      expect(
+        shouldCaptureRevision({ previousText: 'Derivadas', nextText: 'Derivadas', now: NOW })
+      ).toBe(false)
+    })
+
+    it('should wait for the interval between revisions', () => {
+      const options = { previousText: 'Derivadas', nextText: 'Derivadas e integrais', now: NOW }
+
+      expect(shouldCaptureRevision({ ...options, lastRevisionAt: '2026-10-18T11:55:00Z' })).toBe(false)
+      expect(shouldCaptureRevision({ ...options, lastRevisionAt: '2026-10-18T11:50:00Z' })).toBe(true)
+    })
+
+    it('should capture right away when most of the page is deleted', () => {
+      expect(
+        shouldCaptureRevision({
+          previousText: 'Regra da cadeia, regra do produto e regra do quociente',
+          nextText: '',
+          lastRevisionAt: '2026-10-18T11:59:00Z',
+          now: NOW,
+        })
+      ).toBe(true)
+    })
+  })
+
+  describe('getRevisionsToPrune', () => {
+    it('should keep the last day and one revision per day for a month', () => {
+      const revisions = [
+        { id: 'today-1', createdAt: '2026-10-18T11:00:00Z' },
+        { id: 'today-2', createdAt: '2026-10-18T09:00:00Z' },
+        { id: 'yesterday-late', createdAt: '2026-10-17T13:00:00Z' },
+        { id: 'last-week-late', createdAt: '2026-10-11T20:00:00Z' },
+        { id: 'last-week-early', createdAt: '2026-10-11T08:00:00Z' },
+        { id: 'two-months-ago', createdAt: '2026-08-18T10:00:00Z' },
+      ]
+
+      expect(getRevisionsToPrune(revisions, NOW)).toEqual(['last-week-early', 'two-months-ago'])
+    })
+
+    it('should cap the revisions kept per page', () => {
+      const revisions = Array.from({ length: MAX_PAGE_REVISIONS + 2 }, (_, i) => ({
+        id: `revision-${i}`,
+        createdAt: new Date(NOW.getTime() - i * 60 * 1000).toISOString(),
+      }))
+
+      expect(getRevisionsToPrune(revisions, NOW)).toEqual([
+        `revision-${MAX_PAGE_REVISIONS}`,
+        `revision-${MAX_PAGE_REVISIONS + 1}`,
+      ])
+    })
+  })
+
+  describe('diffRevisionLines', () => {
+    it('should mark removed, added and unchanged lines', () => {
+      const previous = ['# Limites', 'Limite de sen(x)/x em 0 é 1', 'Texto antigo', 'Fim'].join('\n')
+      const next = ['# Limites', 'Limite de sen(x)/x em 0 é 1', 'Texto novo', 'Outra linha', 'Fim'].join('\n')
+
+      expect(diffRevisionLines(previous, next)).toEqual([
+        { type: 'unchanged', text: '# Limites' },
+        { type: 'unchanged', text: 'Limite de sen(x)/x em 0 é 1' },
+        { type: 'removed', text: 'Texto antigo' },
+        { type: 'added', text: 'Texto novo' },
+        { type: 'added', text: 'Outra linha' },
+        { type: 'unchanged', text: 'Fim' },
+      ])
+    })
+
+    it('should match lines moved around the changes', () => {
+      expect(diffRevisionLines('a\nb\nc\nd', 'a\nc\nb\nd')).toEqual([
+        { type: 'unchanged', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'unchanged', text: 'c' },
+        { type: 'added', text: 'b' },
+        { type: 'unchanged', text: 'd' },
+      ])
+    })
+
+    it('should handle empty versions', () => {
+      expect(diffRevisionLines('', 'Nova página')).toEqual([{ type: 'added', text: 'Nova página' }])
+      expect(diffRevisionLines('Página apagada', '')).toEqual([
+        { type: 'removed', text: 'Página apagada' },
+      ])
+    })
+  })
+})
@@ -1,8 +1,8 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
-import type { Transaction, Task } from '@/types'
+import type { Transaction, Task, CreditCardStatement } from '@/types'
 import { tasksService } from '@/services/tasks.service'
 import { areasService } from '@/services/areas.service'
-import { calculateNextRecurrenceDate, getTodayString } from '@/lib/finances'
+import { calculateNextRecurrenceDate, getMonthName, getTodayString } from '@/lib/finances'
 
 const FINANCES_AREA_SLUG = 'finances'
 
@@ -38,14 +38,59 @@ function calculatePaymentDueDate(transaction: Transaction): string {
   return today
 }
 
+function isStatement(source: Transaction | CreditCardStatement): source is CreditCardStatement {
+  return 'closingDate' in source
+}
+
 /**
- * Creates a payment reminder task for a recurring expense transaction.
- * Returns null if a task already exists for this transaction (to prevent duplicates).
+ * Creates a payment reminder task for a credit card statement, due on the statement's due date.
+ * Each statement gets a single reminder, even after it has been completed.
+ */
+async function createStatementReminderTask(
+  supabase: SupabaseClient,
+  statement: CreditCardStatement
+): Promise<Task | null> {
+  const existingTask = await tasksService.getByLinkedStatement(
+    supabase,
+    statement.accountId,
+    statement.month
+  )
+  if (existingTask) {
+    return null
+  }
+
+  const financesArea = await areasService.getBySlug(supabase, FINANCES_AREA_SLUG)
+
+  return tasksService.create(supabase, {
+    title: `💳 ${statement.accountName} · ${getMonthName(statement.month)}`,
+    description: undefined,
+    projectId: undefined,
+    areaId: financesArea?.id,
+    dueDate: statement.dueDate,
+    priority: 'medium',
+    status: 'pending',
+    tags: ['payment', 'credit-card'],
+    estimatedMinutes: undefined,
+    recurrence: undefined,
+    linkedStatement: { accountId: statement.accountId, month: statement.month },
+    completedAt: undefined,
+  })
+}
+
+/**
+ * Creates a payment reminder task for a recurring expense transaction or a credit card statement.
+ * Returns null if a task already exists for it (to prevent duplicates).
  */
 export async function createPaymentReminderTask(
   supabase: SupabaseClient,
-  transaction: Transaction
+  source: Transaction | CreditCardStatement
 ): Promise<Task | null> {
+  if (isStatement(source)) {
+    return createStatementReminderTask(supabase, source)
+  }
+
+  const transaction = source
+
   // Only create tasks for recurring expenses
   if (transaction.type !== 'expense' || !transaction.isRecurring || !transaction.recurrence) {
     return null
@@ -90,18 +135,18 @@ export async function createPaymentReminderTask(
 }
 
 /**
- * Creates payment reminder tasks for all recurring expenses that don't have an active task.
- * Used for migrating existing recurring expenses.
+ * Creates payment reminder tasks for all recurring expenses and credit card statements
+ * that don't have one yet. Used for migrating existing recurring expenses.
  */
 export async function createMissingPaymentReminders(
   supabase: SupabaseClient,
-  recurringExpenses: Transaction[]
+  sources: (Transaction | CreditCardStatement)[]
 ): Promise<{ created: number; skipped: number }> {
   let created = 0
   let skipped = 0
 
-  for (const expense of recurringExpenses) {
-    const task = await createPaymentReminderTask(supabase, expense)
+  for (const source of sources) {
+    const task = await createPaymentReminderTask(supabase, source)
     if (task) {
       created++
     } else {
@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildOccurrenceTransaction,
+  getDueOccurrences,
+  getNextOccurrenceDate,
+  getOccurrenceDates,
+  getUpcomingBills,
+  listOccurrences,
+} from './recurring-transactions'
+import type { Account, RecurrenceException, Transaction } from '@/types/finances'
+
+function transaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 'rent',
+    type: 'expense',
+    amount: 1500,
+    categoryId: 'housing',
+    description: 'Aluguel',
+    date: '2024-01-10',
+    isRecurring: true,
+    recurrence: { frequency: 'monthly' },
+    createdAt: '2024-01-10T10:00:00Z',
+    ...overrides,
+  }
+}
+
+function exception(overrides: Partial<RecurrenceException> = {}): RecurrenceException {
+  return {
+    id: 'exc-1',
+    transactionId: 'rent',
+    occurrenceDate: '2024-02-10',
+    skip: false,
+    createdAt: '2024-02-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('recurring-transactions', () => {
+  describe('getOccurrenceDates', () => {
+    it('should list the dates after the template', () => {
+      expect(getOccurrenceDates(transaction(), '2024-04-10')).toEqual([
+        '2024-02-10',
+        '2024-03-10',
+        '2024-04-10',
+      ])
+    })
+
+    it('should stop at the recurrence end date', () => {
+      const t = transaction({ recurrence: { frequency: 'monthly', endDate: '2024-03-01' } })
+
+      expect(getOccurrenceDates(t, '2024-12-31')).toEqual(['2024-02-10'])
+    })
+
+    it('should move monthly dates past the end of a month to its last day', () => {
+      expect(getOccurrenceDates(transaction({ date: '2026-01-31' }), '2026-05-31')).toEqual([
+        '2026-02-28',
+        '2026-03-31',
+        '2026-04-30',
+        '2026-05-31',
+      ])
+      expect(getOccurrenceDates(transaction({ date: '2024-01-31' }), '2024-03-31')).toEqual([
+        '2024-02-29',
+        '2024-03-31',
+      ])
+      expect(getOccurrenceDates(transaction({ date: '2026-01-30' }), '2026-03-31')).toEqual([
+        '2026-02-28',
+        '2026-03-30',
+      ])
+      expect(getOccurrenceDates(transaction({ date: '2024-01-29' }), '2024-03-31')).toEqual([
+        '2024-02-29',
+        '2024-03-29',
+      ])
+      expect(getOccurrenceDates(transaction({ date: '2025-01-29' }), '2025-03-31')).toEqual([
+        '2025-02-28',
+        '2025-03-29',
+      ])
+    })
+
+    it('should keep yearly dates on Feb 29 in leap years', () => {
+      const t = transaction({ date: '2024-02-29', recurrence: { frequency: 'yearly' } })
+
+      expect(getOccurrenceDates(t, '2028-12-31')).toEqual([
+        '2025-02-28',
+        '2026-02-28',
+        '2027-02-28',
+        '2028-02-29',
+      ])
+    })
+
+    it('should return nothing for non-recurring transactions', () => {
+      expect(getOccurrenceDates(transaction({ recurrence: undefined }), '2024-12-31')).toEqual([])
+    })
+  })
+
+  describe('listOccurrences', () => {
+    it('should apply skips and one-off edits', () => {
+      const exceptions = [
+        exception({ skip: true }),
+        exception({ id: 'exc-2', occurrenceDate: '2024-03-10', amount: 1600, date: '2024-03-12' }),
+      ]
+      const [feb, mar] = listOccurrences([transaction()], exceptions, undefined, '2024-03-31')
+
+      expect(feb).toMatchObject({ occurrenceDate: '2024-02-10', skipped: true })
+      expect(mar).toMatchObject({
+        occurrenceDate: '2024-03-10',
+        date: '2024-03-12',
+        amount: 1600,
+        description: 'Aluguel',
+        skipped: false,
+      })
+    })
+
+    it('should attach occurrences already recorded', () => {
+      const linked = transaction({
+        id: 'rent-feb',
+        isRecurring: false,
+        recurrence: undefined,
+        date: '2024-02-11',
+        recurrenceParentId: 'rent',
+        occurrenceDate: '2024-02-10',
+      })
+      const legacy = transaction({
+        id: 'rent-mar',
+        isRecurring: false,
+        recurrence: undefined,
+        date: '2024-03-10',
+      })
+      const [feb, mar] = listOccurrences(
+        [transaction(), linked, legacy],
+        [],
+        undefined,
+        '2024-03-31'
+      )
+
+      expect(feb.materialized?.id).toBe('rent-feb')
+      expect(mar.materialized?.id).toBe('rent-mar')
+    })
+
+    it('should ignore transfers', () => {
+      expect(listOccurrences([transaction({ type: 'transfer' })], [], undefined, '2024-12-31')).toEqual(
+        []
+      )
+    })
+  })
+
+  describe('getDueOccurrences', () => {
+    it('should return past occurrences not yet recorded or skipped', () => {
+      const recorded = transaction({
+        id: 'rent-feb',
+        isRecurring: false,
+        recurrence: undefined,
+        recurrenceParentId: 'rent',
+        occurrenceDate: '2024-02-10',
+      })
+      const due = getDueOccurrences(
+        [transaction(), recorded],
+        [exception({ occurrenceDate: '2024-03-10', skip: true })],
+        '2024-04-15'
+      )
+
+      expect(due.map((o) => o.occurrenceDate)).toEqual(['2024-04-10'])
+    })
+
+    it('should wait for occurrences moved to a later day', () => {
+      const moved = exception({ date: '2024-02-20' })
+
+      expect(getDueOccurrences([transaction()], [moved], '2024-02-15')).toEqual([])
+    })
+  })
+
+  describe('getUpcomingBills', () => {
+    it('should project expenses within the window', () => {
+      const salary = transaction({ id: 'salary', type: 'income', categoryId: 'salary' })
+      const bills = getUpcomingBills([transaction(), salary], [], '2024-02-05', 40)
+
+      expect(bills.map((o) => [o.transaction.id, o.date])).toEqual([
+        ['rent', '2024-02-10'],
+        ['rent', '2024-03-10'],
+      ])
+    })
+
+    it('should keep skipped bills so they can be restored', () => {
+      const [bill] = getUpcomingBills([transaction()], [exception({ skip: true })], '2024-02-05', 10)
+
+      expect(bill.skipped).toBe(true)
+    })
+  })
+
+  describe('getNextOccurrenceDate', () => {
+    it('should return the first occurrence after today', () => {
+      expect(getNextOccurrenceDate(transaction(), '2024-03-10')).toBe('2024-04-10')
+    })
+
+    it('should count from the template date at the end of a month', () => {
+      const t = transaction({ date: '2026-01-31' })
+
+      expect(getNextOccurrenceDate(t, '2026-02-28')).toBe('2026-03-31')
+    })
+
+    it('should return undefined once the recurrence ended', () => {
+      const t = transaction({ recurrence: { frequency: 'monthly', endDate: '2024-03-31' } })
+
+      expect(getNextOccurrenceDate(t, '2024-03-10')).toBeUndefined()
+    })
+  })
+
+  describe('buildOccurrenceTransaction', () => {
+    it('should link the occurrence to its template', () => {
+      const [occurrence] = listOccurrences(
+        [transaction({ tags: ['casa'] })],
+        [exception({ amount: 1600 })],
+        undefined,
+        '2024-02-28'
+      )
+
+      expect(buildOccurrenceTransaction(occurrence)).toMatchObject({
+        amount: 1600,
+        date: '2024-02-10',
+        tags: ['casa'],
+        isRecurring: false,
+        recurrenceParentId: 'rent',
+        occurrenceDate: '2024-02-10',
+        statementMonth: undefined,
+      })
+    })
+
+    it('should bill card expenses in the statement of the occurrence', () => {
+      const card: Account = {
+        id: 'card',
+        name: 'Nubank',
+        type: 'credit_card',
+        openingBalance: 0,
+        closingDay: 5,
+        dueDay: 12,
+        color: '#8b5cf6',
+        isArchived: false,
+        createdAt: '2024-01-01T00:00:00Z',
+      }
+      const [occurrence] = listOccurrences(
+        [transaction({ accountId: 'card' })],
+        [],
+        undefined,
+        '2024-02-28'
+      )
+
+      expect(buildOccurrenceTransaction(occurrence, card).statementMonth).toBe('2024-03')
+    })
+  })
+})
@@ -0,0 +1,202 @@
+import type {
+  Account,
+  RecurrenceException,
+  RecurrenceFrequency,
+  RecurringOccurrence,
+  Transaction,
+} from '@/types/finances'
+import { getLocalDateString } from './finances'
+import { getStatementMonth, isCreditCardAccount } from './credit-card'
+
+// Guards against runaway loops on very old daily templates
+const MAX_OCCURRENCES = 1000
+
+function occurrenceKey(transactionId: string, occurrenceDate: string): string {
+  return `${transactionId}:${occurrenceDate}`
+}
+
+/**
+ * Date of the nth occurrence after `anchor`. Each one is counted from the
+ * anchor rather than from the previous occurrence, and monthly and yearly
+ * dates past the end of a month fall on its last day, so a bill on the 31st
+ * comes on Feb 28 (29 in leap years) and is back on the 31st in March.
+ */
+function getNthOccurrenceDate(anchor: string, frequency: RecurrenceFrequency, n: number): string {
+  const [year, month, day] = anchor.split('-').map(Number)
+
+  if (frequency === 'monthly' || frequency === 'yearly') {
+    const months = frequency === 'monthly' ? n : n * 12
+    const lastDay = new Date(year, month - 1 + months + 1, 0).getDate()
+    return getLocalDateString(new Date(year, month - 1 + months, Math.min(day, lastDay)))
+  }
+
+  const days = { daily: 1, weekly: 7, biweekly: 14 }[frequency]
+  return getLocalDateString(new Date(year, month - 1, day + n * days))
+}
+
+/**
+ * Whether the transaction is a recurring template whose occurrences can be
+ * materialized. Transfers never recur.
+ */
+export function isRecurringTemplate(transaction: Transaction): boolean {
+  return transaction.isRecurring && !!transaction.recurrence && transaction.type !== 'transfer'
+}
+
+/**
+ * Scheduled dates of a recurring transaction up to `until`, inclusive. The
+ * template itself is the first occurrence, so dates start after it; the
+ * recurrence end date, when set, is the last possible occurrence.
+ */
+export function getOccurrenceDates(transaction: Transaction, until: string): string[] {
+  if (!transaction.recurrence) return []
+
+  const { frequency, endDate } = transaction.recurrence
+  const last = endDate && endDate < until ? endDate : until
+  const dates: string[] = []
+
+  for (let n = 1; n <= MAX_OCCURRENCES; n++) {
+    const date = getNthOccurrenceDate(transaction.date, frequency, n)
+    if (date > last) break
+    dates.push(date)
+  }
+
+  return dates
+}
+
+// Instances recorded before occurrences were linked to their template (by the
+// payment reminder flow) are recognized by date, category and amount
+function isLegacyInstance(candidate: Transaction, template: Transaction, date: string): boolean {
+  return (
+    !candidate.isRecurring &&
+    !candidate.recurrenceParentId &&
+    candidate.date === date &&
+    candidate.type === template.type &&
+    candidate.categoryId === template.categoryId &&
+    candidate.amount === template.amount
+  )
+}
+
+/**
+ * Occurrences of every recurring transaction scheduled between `from` and
+ * `until` (inclusive, by scheduled date), with skips and one-off edits
+ * applied and the transaction already recorded for them, if any.
+ */
+export function listOccurrences(
+  transactions: Transaction[],
+  exceptions: RecurrenceException[],
+  from: string | undefined,
+  until: string
+): RecurringOccurrence[] {
+  const exceptionByKey = new Map(
+    exceptions.map((e) => [occurrenceKey(e.transactionId, e.occurrenceDate), e])
+  )
+  const instanceByKey = new Map<string, Transaction>()
+  for (const t of transactions) {
+    if (t.recurrenceParentId && t.occurrenceDate) {
+      instanceByKey.set(occurrenceKey(t.recurrenceParentId, t.occurrenceDate), t)
+    }
+  }
+
+  const occurrences: RecurringOccurrence[] = []
+  for (const template of transactions.filter(isRecurringTemplate)) {
+    for (const occurrenceDate of getOccurrenceDates(template, until)) {
+      if (from && occurrenceDate < from) continue
+
+      const key = occurrenceKey(template.id, occurrenceDate)
+      const exception = exceptionByKey.get(key)
+      const materialized =
+        instanceByKey.get(key) ??
+        transactions.find((t) => isLegacyInstance(t, template, occurrenceDate))
+
+      occurrences.push({
+        transaction: template,
+        occurrenceDate,
+        date: exception?.date ?? occurrenceDate,
+        amount: exception?.amount ?? template.amount,
+        description: exception?.description ?? template.description,
+        skipped: exception?.skip ?? false,
+        exception,
+        materialized,
+      })
+    }
+  }
+
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Occurrences due by `today` that still have to be recorded as transactions.
+ */
+export function getDueOccurrences(
+  transactions: Transaction[],
+  exceptions: RecurrenceException[],
+  today: string
+): RecurringOccurrence[] {
+  return listOccurrences(transactions, exceptions, undefined, today).filter(
+    (o) => !o.skipped && !o.materialized && o.date <= today
+  )
+}
+
+/**
+ * Bills (recurring expenses) expected in the next `days` days, skipped ones
+ * included so they can be restored.
+ */
+export function getUpcomingBills(
+  transactions: Transaction[],
+  exceptions: RecurrenceException[],
+  today: string,
+  days = 30
+): RecurringOccurrence[] {
+  const [year, month, day] = today.split('-').map(Number)
+  const until = getLocalDateString(new Date(year, month - 1, day + days))
+
+  return listOccurrences(transactions, exceptions, today, until).filter(
+    (o) => o.transaction.type === 'expense' && !o.materialized
+  )
+}
+
+/**
+ * Next scheduled date of a recurring transaction after `today`, or undefined
+ * once the recurrence has ended.
+ */
+export function getNextOccurrenceDate(transaction: Transaction, today: string): string | undefined {
+  if (!transaction.recurrence) return undefined
+
+  let date = transaction.date
+  for (let n = 1; n <= MAX_OCCURRENCES && date <= today; n++) {
+    date = getNthOccurrenceDate(transaction.date, transaction.recurrence.frequency, n)
+  }
+
+  const { endDate } = transaction.recurrence
+  return endDate && date > endDate ? undefined : date
+}
+
+/**
+ * Transaction recording an occurrence, linked back to its template. Card
+ * expenses are billed in the statement of the occurrence date.
+ */
+export function buildOccurrenceTransaction(
+  occurrence: RecurringOccurrence,
+  account?: Account
+): Omit<Transaction, 'id' | 'createdAt'> {
+  const { transaction } = occurrence
+
+  return {
+    type: transaction.type,
+    amount: occurrence.amount,
+    currency: transaction.currency,
+    categoryId: transaction.categoryId,
+    description: occurrence.description,
+    date: occurrence.date,
+    paymentMethod: transaction.paymentMethod,
+    accountId: transaction.accountId,
+    statementMonth:
+      account && isCreditCardAccount(account)
+        ? getStatementMonth(occurrence.date, account)
+        : undefined,
+    tags: transaction.tags,
+    isRecurring: false,
+    recurrenceParentId: transaction.id,
+    occurrenceDate: occurrence.occurrenceDate,
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { toSearchQuery, parseHighlights } from './search'
+
+describe('search', () => {
+  describe('toSearchQuery', () => {
+    it('should match every word as a prefix', () => {
+      expect(toSearchQuery('Estudar cálculo')).toBe("'estudar':* & 'cálculo':*")
+    })
+
+    it('should drop punctuation and tsquery operators', () => {
+      expect(toSearchQuery("  mercado! | (aluguel) & 'luz' ")).toBe(
+        "'mercado':* & 'aluguel':* & 'luz':*"
+      )
+    })
+
+    it('should list repeated words once', () => {
+      expect(toSearchQuery('prova Prova 2')).toBe("'prova':* & '2':*")
+    })
+
+    it('should return undefined when there is nothing to search', () => {
+      expect(toSearchQuery('')).toBeUndefined()
+      expect(toSearchQuery(' !? ')).toBeUndefined()
+    })
+  })
+
+  describe('parseHighlights', () => {
+    it('should split a snippet into plain and highlighted pieces', () => {
+      expect(parseHighlights('Revisar <mark>limites</mark> e <mark>derivadas</mark>')).toEqual([
+        { text: 'Revisar ', highlighted: false },
+        { text: 'limites', highlighted: true },
+        { text: ' e ', highlighted: false },
+        { text: 'derivadas', highlighted: true },
+      ])
+    })
+
+    it('should keep a snippet without matches as one plain piece', () => {
+      expect(parseHighlights('Lista 3')).toEqual([{ text: 'Lista 3', highlighted: false }])
+    })
+
+    it('should return no pieces for an empty snippet', () => {
+      expect(parseHighlights('')).toEqual([])
+    })
+  })
+})
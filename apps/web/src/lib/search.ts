@@ -0,0 +1,33 @@
+import type { SearchHighlight } from '@/types/search'
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+const HIGHLIGHT_PATTERN = /<mark>([\s\S]*?)<\/mark>/g
+
+// Turns what the user typed into a Postgres tsquery where every word must
+// match as a prefix ("estud calc" -> 'estud':* & 'calc':*), so results show up
+// while the last word is still being typed. Punctuation and tsquery operators
+// are dropped; undefined when nothing searchable is left
+export function toSearchQuery(input: string): string | undefined {
+  const words = input.toLowerCase().match(WORD_PATTERN)
+  if (!words) return undefined
+
+  return [...new Set(words)].map((word) => `'${word}':*`).join(' & ')
+}
+
+// Splits a snippet returned by search_everything into plain and highlighted
+// pieces, so the apps can render the matches without injecting HTML
+export function parseHighlights(snippet: string): SearchHighlight[] {
+  const pieces: SearchHighlight[] = []
+  let lastIndex = 0
+
+  for (const match of snippet.matchAll(HIGHLIGHT_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) pieces.push({ text: snippet.slice(lastIndex, index), highlighted: false })
+    if (match[1]) pieces.push({ text: match[1], highlighted: true })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < snippet.length) pieces.push({ text: snippet.slice(lastIndex), highlighted: false })
+
+  return pieces
+}
@@ -0,0 +1,426 @@
+import { describe, it, expect } from 'vitest'
+import type { Habit, HabitFrequency, HabitTracking } from '@/types'
+import { calculateHabitStreak, isCompletionSuccessful, isRelapse } from './streaks'
+
+function makeHabit(
+  frequency: HabitFrequency,
+  completions: Array<string | [string, number]>,
+  tracking: HabitTracking = { type: 'boolean' }
+): Pick<Habit, 'frequency' | 'tracking' | 'completions'> {
+  return {
+    frequency,
+    tracking,
+    completions: completions.map((c) => {
+      const [date, value] = typeof c === 'string' ? [c, 1] : c
+      return { date, value, completedAt: `${date}T12:00:00Z` }
+    }),
+  }
+}
+
+describe('streaks', () => {
+  describe('isCompletionSuccessful', () => {
+    it('should count any boolean completion', () => {
+      expect(isCompletionSuccessful({ type: 'boolean' }, { value: 1 })).toBe(true)
+      expect(isCompletionSuccessful({ type: 'boolean' }, { value: 0 })).toBe(false)
+    })
+
+    it('should only count quantitative completions that reach the target', () => {
+      const tracking: HabitTracking = { type: 'quantitative', target: 8, unit: 'glasses' }
+      expect(isCompletionSuccessful(tracking, { value: 5 })).toBe(false)
+      expect(isCompletionSuccessful(tracking, { value: 8 })).toBe(true)
+      expect(isCompletionSuccessful(tracking, { value: 10 })).toBe(true)
+    })
+
+    it('should count avoid days that stay within the limit', () => {
+      const tracking: HabitTracking = { type: 'avoid', limit: 2, unit: 'coffees' }
+      expect(isCompletionSuccessful(tracking, { value: 2 })).toBe(true)
+      expect(isCompletionSuccessful(tracking, { value: 3 })).toBe(false)
+      expect(isRelapse(tracking, { value: 3 })).toBe(true)
+      expect(isRelapse({ type: 'boolean' }, { value: 0 })).toBe(false)
+    })
+  })
+
+  describe('calculateHabitStreak', () => {
+    it('should return zero streaks without completions', () => {
+      expect(calculateHabitStreak(makeHabit({ type: 'daily' }, []), { today: '2024-01-10' })).toEqual({
+        currentStreak: 0,
+        longestStreak: 0,
+        lastCompletedDate: null,
+      })
+    })
+
+    it('should ignore completions after today', () => {
+      const habit = makeHabit({ type: 'daily' }, ['2024-01-10', '2024-01-11'])
+      const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+      expect(result.currentStreak).toBe(1)
+      expect(result.lastCompletedDate).toBe('2024-01-10')
+    })
+
+    it('should ignore duplicate completion dates', () => {
+      const habit = makeHabit({ type: 'daily' }, ['2024-01-09', '2024-01-09', '2024-01-10'])
+      expect(calculateHabitStreak(habit, { today: '2024-01-10' }).currentStreak).toBe(2)
+    })
+
+    describe('daily', () => {
+      const frequency: HabitFrequency = { type: 'daily' }
+
+      it('should count consecutive days ending today', () => {
+        const habit = makeHabit(frequency, ['2024-01-08', '2024-01-09', '2024-01-10'])
+        const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+        expect(result.currentStreak).toBe(3)
+        expect(result.longestStreak).toBe(3)
+      })
+
+      it('should keep the streak while today is still pending', () => {
+        const habit = makeHabit(frequency, ['2024-01-08', '2024-01-09'])
+        expect(calculateHabitStreak(habit, { today: '2024-01-10' }).currentStreak).toBe(2)
+      })
+
+      it('should break the streak after a missed day', () => {
+        const habit = makeHabit(frequency, ['2024-01-07', '2024-01-08'])
+        const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+        expect(result.currentStreak).toBe(0)
+        expect(result.longestStreak).toBe(2)
+      })
+
+      it('should track the longest streak across gaps', () => {
+        const habit = makeHabit(frequency, [
+          '2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04',
+          '2024-01-08', '2024-01-09', '2024-01-10',
+        ])
+        const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+        expect(result.currentStreak).toBe(3)
+        expect(result.longestStreak).toBe(4)
+      })
+
+      it('should count across month boundaries', () => {
+        const habit = makeHabit(frequency, ['2024-01-30', '2024-01-31', '2024-02-01'])
+        expect(calculateHabitStreak(habit, { today: '2024-02-01' }).currentStreak).toBe(3)
+      })
+    })
+
+    describe('specificDays', () => {
+      // Mon, Wed, Fri
+      const frequency: HabitFrequency = { type: 'specificDays', days: [1, 3, 5] }
+
+      it('should count scheduled occurrences and skip unscheduled days', () => {
+        // Mon 8, Wed 10, Fri 12 of January 2024
+        const habit = makeHabit(frequency, ['2024-01-08', '2024-01-10', '2024-01-12'])
+        const result = calculateHabitStreak(habit, { today: '2024-01-14' })
+        expect(result.currentStreak).toBe(3)
+        expect(result.longestStreak).toBe(3)
+      })
+
+      it('should keep the streak while today is a pending scheduled day', () => {
+        const habit = makeHabit(frequency, ['2024-01-10', '2024-01-12'])
+        expect(calculateHabitStreak(habit, { today: '2024-01-15' }).currentStreak).toBe(2)
+      })
+
+      it('should break the streak when a scheduled day is missed', () => {
+        const habit = makeHabit(frequency, ['2024-01-08', '2024-01-12'])
+        const result = calculateHabitStreak(habit, { today: '2024-01-12' })
+        expect(result.currentStreak).toBe(1)
+        expect(result.longestStreak).toBe(1)
+      })
+
+      it('should not count completions on unscheduled days', () => {
+        const habit = makeHabit(frequency, ['2024-01-08', '2024-01-09', '2024-01-10'])
+        expect(calculateHabitStreak(habit, { today: '2024-01-10' }).currentStreak).toBe(2)
+      })
+    })
+
+    describe('weekly', () => {
+      const frequency: HabitFrequency = { type: 'weekly', daysPerWeek: 2 }
+
+      it('should count consecutive weeks that met the quota', () => {
+        // Weeks starting Sunday Dec 31, Jan 7 and Jan 14
+        const habit = makeHabit(frequency, [
+          '2024-01-01', '2024-01-04',
+          '2024-01-08', '2024-01-12',
+          '2024-01-14', '2024-01-16',
+        ])
+        const result = calculateHabitStreak(habit, { today: '2024-01-17' })
+        expect(result.currentStreak).toBe(3)
+        expect(result.longestStreak).toBe(3)
+      })
+
+      it('should keep the streak while the current week is in progress', () => {
+        const habit = makeHabit(frequency, ['2024-01-08', '2024-01-12', '2024-01-15'])
+        expect(calculateHabitStreak(habit, { today: '2024-01-17' }).currentStreak).toBe(1)
+      })
+
+      it('should break the streak when a past week missed the quota', () => {
+        const habit = makeHabit(frequency, ['2024-01-01', '2024-01-04', '2024-01-08'])
+        const result = calculateHabitStreak(habit, { today: '2024-01-17' })
+        expect(result.currentStreak).toBe(0)
+        expect(result.longestStreak).toBe(1)
+      })
+
+      it('should respect weekStartsOn', () => {
+        // Sun Jan 7 and Mon Jan 8 fall in different weeks when weeks start on Monday
+        const habit = makeHabit(frequency, ['2024-01-07', '2024-01-08'])
+        expect(
+          calculateHabitStreak(habit, { today: '2024-01-13', weekStartsOn: 0 }).currentStreak
+        ).toBe(1)
+        expect(
+          calculateHabitStreak(habit, { today: '2024-01-13', weekStartsOn: 1 }).currentStreak
+        ).toBe(0)
+      })
+    })
+
+    describe('monthly', () => {
+      const frequency: HabitFrequency = { type: 'monthly', timesPerMonth: 2 }
+
+      it('should count consecutive months that met the quota', () => {
+        const habit = makeHabit(frequency, [
+          '2023-12-05', '2023-12-20',
+          '2024-01-02', '2024-01-31',
+          '2024-02-10', '2024-02-11',
+        ])
+        const result = calculateHabitStreak(habit, { today: '2024-02-15' })
+        expect(result.currentStreak).toBe(3)
+        expect(result.longestStreak).toBe(3)
+      })
+
+      it('should keep the streak while the current month is in progress', () => {
+        const habit = makeHabit(frequency, ['2024-01-02', '2024-01-31', '2024-02-10'])
+        expect(calculateHabitStreak(habit, { today: '2024-02-15' }).currentStreak).toBe(1)
+      })
+
+      it('should break the streak when a past month missed the quota', () => {
+        const habit = makeHabit(frequency, ['2023-11-01', '2023-11-02', '2023-12-05'])
+        const result = calculateHabitStreak(habit, { today: '2024-01-15' })
+        expect(result.currentStreak).toBe(0)
+        expect(result.longestStreak).toBe(1)
+      })
+
+      it('should continue across years', () => {
+        const habit = makeHabit(frequency, ['2023-12-01', '2023-12-02', '2024-01-01', '2024-01-02'])
+        expect(calculateHabitStreak(habit, { today: '2024-01-02' }).currentStreak).toBe(2)
+      })
+    })
+
+    describe('interval', () => {
+      const frequency: HabitFrequency = { type: 'interval', everyDays: 3 }
+
+      it('should count completions that follow each other within the interval', () => {
+        const habit = makeHabit(frequency, ['2024-01-01', '2024-01-04', '2024-01-06'])
+        const result = calculateHabitStreak(habit, { today: '2024-01-08' })
+        expect(result.currentStreak).toBe(3)
+        expect(result.longestStreak).toBe(3)
+      })
+
+      it('should keep the streak until the interval since the last completion passes', () => {
+        const habit = makeHabit(frequency, ['2024-01-01', '2024-01-04'])
+        expect(calculateHabitStreak(habit, { today: '2024-01-07' }).currentStreak).toBe(2)
+        expect(calculateHabitStreak(habit, { today: '2024-01-08' }).currentStreak).toBe(0)
+      })
+
+      it('should restart after a gap longer than the interval', () => {
+        const habit = makeHabit(frequency, ['2024-01-01', '2024-01-03', '2024-01-05', '2024-01-10'])
+        const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+        expect(result.currentStreak).toBe(1)
+        expect(result.longestStreak).toBe(3)
+      })
+    })
+
+    describe('nthWeekday', () => {
+      // 2nd Tuesday: Jan 9, Feb 13, Mar 12 2024
+      const frequency: HabitFrequency = { type: 'nthWeekday', week: 2, weekday: 2 }
+
+      it('should count consecutive monthly occurrences', () => {
+        const habit = makeHabit(frequency, ['2024-01-09', '2024-02-13', '2024-03-12'])
+        const result = calculateHabitStreak(habit, { today: '2024-03-20' })
+        expect(result.currentStreak).toBe(3)
+        expect(result.longestStreak).toBe(3)
+      })
+
+      it('should keep the streak on the day of a pending occurrence', () => {
+        const habit = makeHabit(frequency, ['2024-01-09', '2024-02-13'])
+        expect(calculateHabitStreak(habit, { today: '2024-03-12' }).currentStreak).toBe(2)
+      })
+
+      it('should break the streak when an occurrence is missed', () => {
+        const habit = makeHabit(frequency, ['2024-01-09', '2024-02-13'])
+        const result = calculateHabitStreak(habit, { today: '2024-03-13' })
+        expect(result.currentStreak).toBe(0)
+        expect(result.longestStreak).toBe(2)
+      })
+
+      it('should ignore completions on other days', () => {
+        const habit = makeHabit(frequency, ['2024-01-09', '2024-01-10', '2024-02-13'])
+        expect(calculateHabitStreak(habit, { today: '2024-02-20' }).currentStreak).toBe(2)
+      })
+    })
+
+    describe('rest days', () => {
+      it('should not break a daily streak on a frozen day', () => {
+        const habit = makeHabit({ type: 'daily' }, ['2024-01-08', '2024-01-10'])
+        const result = calculateHabitStreak(habit, {
+          today: '2024-01-10',
+          frozenDates: ['2024-01-09'],
+        })
+        expect(result.currentStreak).toBe(2)
+        expect(result.longestStreak).toBe(2)
+      })
+
+      it('should not break a daily streak during a vacation', () => {
+        const habit = makeHabit({ type: 'daily' }, ['2024-01-01', '2024-01-02', '2024-01-09'])
+        const result = calculateHabitStreak(habit, {
+          today: '2024-01-09',
+          vacations: [{ startDate: '2024-01-03', endDate: '2024-01-08' }],
+        })
+        expect(result.currentStreak).toBe(3)
+      })
+
+      it('should keep a streak alive while the vacation is still going', () => {
+        const habit = makeHabit({ type: 'daily' }, ['2024-01-01', '2024-01-02'])
+        const result = calculateHabitStreak(habit, {
+          today: '2024-01-05',
+          vacations: [{ startDate: '2024-01-03', endDate: '2024-01-10' }],
+        })
+        expect(result.currentStreak).toBe(2)
+      })
+
+      it('should still count completions logged on rest days', () => {
+        const habit = makeHabit({ type: 'daily' }, ['2024-01-08', '2024-01-09', '2024-01-10'])
+        const result = calculateHabitStreak(habit, {
+          today: '2024-01-10',
+          frozenDates: ['2024-01-09'],
+        })
+        expect(result.currentStreak).toBe(3)
+      })
+
+      it('should treat a missed week with a rest day as neutral', () => {
+        const habit = makeHabit({ type: 'weekly', daysPerWeek: 2 }, [
+          '2024-01-01', '2024-01-04',
+          '2024-01-08',
+          '2024-01-14', '2024-01-16',
+        ])
+        const result = calculateHabitStreak(habit, {
+          today: '2024-01-17',
+          frozenDates: ['2024-01-10'],
+        })
+        expect(result.currentStreak).toBe(2)
+      })
+
+      it('should treat a missed month with a vacation as neutral', () => {
+        const habit = makeHabit({ type: 'monthly', timesPerMonth: 2 }, [
+          '2023-11-01', '2023-11-02',
+          '2024-01-01', '2024-01-02',
+        ])
+        const result = calculateHabitStreak(habit, {
+          today: '2024-01-15',
+          vacations: [{ startDate: '2023-12-20', endDate: '2023-12-31' }],
+        })
+        expect(result.currentStreak).toBe(2)
+      })
+
+      it('should not count rest days towards an interval', () => {
+        const habit = makeHabit({ type: 'interval', everyDays: 3 }, ['2024-01-01', '2024-01-07'])
+        const options = {
+          today: '2024-01-08',
+          vacations: [{ startDate: '2024-01-03', endDate: '2024-01-05' }],
+        }
+        expect(calculateHabitStreak(habit, options).currentStreak).toBe(2)
+        expect(calculateHabitStreak(habit, { today: '2024-01-08' }).currentStreak).toBe(1)
+      })
+
+      it('should not break an nthWeekday streak on a frozen occurrence', () => {
+        const habit = makeHabit({ type: 'nthWeekday', week: 2, weekday: 2 }, ['2024-01-09', '2024-03-12'])
+        const result = calculateHabitStreak(habit, {
+          today: '2024-03-20',
+          frozenDates: ['2024-02-13'],
+        })
+        expect(result.currentStreak).toBe(2)
+      })
+    })
+
+    describe('quantitative habits', () => {
+      const tracking: HabitTracking = { type: 'quantitative', target: 8, unit: 'glasses' }
+
+      it('should only count days that reached the target', () => {
+        const habit = makeHabit(
+          { type: 'daily' },
+          [['2024-01-08', 8], ['2024-01-09', 3], ['2024-01-10', 9]],
+          tracking
+        )
+        const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+        expect(result.currentStreak).toBe(1)
+        expect(result.longestStreak).toBe(1)
+        expect(result.lastCompletedDate).toBe('2024-01-10')
+      })
+
+      it('should keep the streak while today is still below the target', () => {
+        const habit = makeHabit(
+          { type: 'daily' },
+          [['2024-01-09', 8], ['2024-01-10', 4]],
+          tracking
+        )
+        const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+        expect(result.currentStreak).toBe(1)
+        expect(result.lastCompletedDate).toBe('2024-01-09')
+      })
+    })
+
+    describe('avoid habits', () => {
+      const noSugar: HabitTracking = { type: 'avoid', limit: 0 }
+      const created = (habit: ReturnType<typeof makeHabit>, createdAt: string) => ({
+        ...habit,
+        createdAt,
+      })
+
+      it('should count clean days since the habit was created', () => {
+        const habit = created(makeHabit({ type: 'daily' }, [], noSugar), '2024-01-01T09:00:00Z')
+        const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+        expect(result.currentStreak).toBe(9)
+        expect(result.longestStreak).toBe(9)
+        expect(result.lastCompletedDate).toBe('2024-01-09')
+      })
+
+      it('should restart the count after a relapse', () => {
+        const habit = created(
+          makeHabit({ type: 'daily' }, [['2024-01-05', 1]], noSugar),
+          '2024-01-01T09:00:00Z'
+        )
+        const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+        expect(result.currentStreak).toBe(4)
+        expect(result.longestStreak).toBe(4)
+      })
+
+      it('should drop to zero on a relapse today', () => {
+        const habit = created(
+          makeHabit({ type: 'daily' }, [['2024-01-10', 1]], noSugar),
+          '2024-01-01T09:00:00Z'
+        )
+        const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+        expect(result.currentStreak).toBe(0)
+        expect(result.longestStreak).toBe(9)
+        expect(result.lastCompletedDate).toBeNull()
+      })
+
+      it('should not break the streak while staying within the limit', () => {
+        const habit = created(
+          makeHabit({ type: 'daily' }, [['2024-01-03', 2], ['2024-01-06', 3], ['2024-01-08', 1]], {
+            type: 'avoid',
+            limit: 2,
+            unit: 'coffees',
+          }),
+          '2024-01-01T09:00:00Z'
+        )
+        const result = calculateHabitStreak(habit, { today: '2024-01-10' })
+        expect(result.currentStreak).toBe(3)
+        expect(result.longestStreak).toBe(5)
+      })
+
+      it('should forgive a frozen relapse', () => {
+        const habit = created(
+          makeHabit({ type: 'daily' }, [['2024-01-05', 1]], noSugar),
+          '2024-01-01T09:00:00Z'
+        )
+        const result = calculateHabitStreak(habit, { today: '2024-01-10', frozenDates: ['2024-01-05'] })
+        expect(result.currentStreak).toBe(8)
+      })
+    })
+  })
+})
@@ -53,9 +53,9 @@ export interface Database {
           area_id: string | null
           title: string
           description: string | null
-          frequency_type: 'daily' | 'weekly' | 'specificDays' | 'monthly'
+          frequency_type: 'daily' | 'weekly' | 'specificDays' | 'monthly' | 'interval' | 'nthWeekday'
           frequency_data: Json
-          tracking_type: 'boolean' | 'quantitative'
+          tracking_type: 'boolean' | 'quantitative' | 'avoid'
           tracking_target: number | null
           tracking_unit: string | null
           color: string
@@ -73,9 +73,9 @@ export interface Database {
           area_id?: string | null
           title: string
           description?: string | null
-          frequency_type: 'daily' | 'weekly' | 'specificDays' | 'monthly'
+          frequency_type: 'daily' | 'weekly' | 'specificDays' | 'monthly' | 'interval' | 'nthWeekday'
           frequency_data?: Json
-          tracking_type: 'boolean' | 'quantitative'
+          tracking_type: 'boolean' | 'quantitative' | 'avoid'
           tracking_target?: number | null
           tracking_unit?: string | null
           color?: string
@@ -93,9 +93,9 @@ export interface Database {
           area_id?: string | null
           title?: string
           description?: string | null
-          frequency_type?: 'daily' | 'weekly' | 'specificDays' | 'monthly'
+          frequency_type?: 'daily' | 'weekly' | 'specificDays' | 'monthly' | 'interval' | 'nthWeekday'
           frequency_data?: Json
-          tracking_type?: 'boolean' | 'quantitative'
+          tracking_type?: 'boolean' | 'quantitative' | 'avoid'
           tracking_target?: number | null
           tracking_unit?: string | null
           color?: string
@@ -182,6 +182,7 @@ export interface Database {
           recurrence_type: 'daily' | 'weekly' | 'monthly' | 'yearly' | null
           recurrence_interval: number | null
           recurrence_end_date: string | null
+          recurrence_rule: string | null
           order: number
           created_at: string
           completed_at: string | null
@@ -201,6 +202,7 @@ export interface Database {
           recurrence_type?: 'daily' | 'weekly' | 'monthly' | 'yearly' | null
           recurrence_interval?: number | null
           recurrence_end_date?: string | null
+          recurrence_rule?: string | null
           order?: number
           created_at?: string
           completed_at?: string | null
@@ -220,6 +222,7 @@ export interface Database {
           recurrence_type?: 'daily' | 'weekly' | 'monthly' | 'yearly' | null
           recurrence_interval?: number | null
           recurrence_end_date?: string | null
+          recurrence_rule?: string | null
           order?: number
           created_at?: string
           completed_at?: string | null
@@ -251,6 +254,26 @@ export interface Database {
           created_at?: string
         }
       }
+      task_dependencies: {
+        Row: {
+          user_id: string
+          task_id: string
+          blocked_by_id: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          task_id: string
+          blocked_by_id: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          task_id?: string
+          blocked_by_id?: string
+          created_at?: string
+        }
+      }
       metric_entries: {
         Row: {
           id: string
@@ -292,6 +315,7 @@ export interface Database {
           tasks_completed: number
           current_streak: number
           longest_streak: number
+          freeze_tokens: number
           updated_at: string
         }
         Insert: {
@@ -302,6 +326,7 @@ export interface Database {
           tasks_completed?: number
           current_streak?: number
           longest_streak?: number
+          freeze_tokens?: number
           updated_at?: string
         }
         Update: {
@@ -312,6 +337,7 @@ export interface Database {
           tasks_completed?: number
           current_streak?: number
           longest_streak?: number
+          freeze_tokens?: number
           updated_at?: string
         }
       }
@@ -364,6 +390,55 @@ export interface Database {
           last_completed_date?: string | null
         }
       }
+      habit_freezes: {
+        Row: {
+          id: string
+          user_id: string
+          habit_id: string
+          date: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          habit_id: string
+          date: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          habit_id?: string
+          date?: string
+          created_at?: string
+        }
+      }
+      vacations: {
+        Row: {
+          id: string
+          user_id: string
+          start_date: string
+          end_date: string
+          note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          start_date: string
+          end_date: string
+          note?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          start_date?: string
+          end_date?: string
+          note?: string | null
+          created_at?: string
+        }
+      }
       transaction_categories: {
         Row: {
           id: string
@@ -399,21 +474,72 @@ export interface Database {
           created_at?: string
         }
       }
+      accounts: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          type: 'checking' | 'savings' | 'credit_card' | 'cash' | 'investment'
+          opening_balance: number
+          currency: string | null
+          closing_day: number | null
+          due_day: number | null
+          color: string
+          is_archived: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          type: 'checking' | 'savings' | 'credit_card' | 'cash' | 'investment'
+          opening_balance?: number
+          currency?: string | null
+          closing_day?: number | null
+          due_day?: number | null
+          color?: string
+          is_archived?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          type?: 'checking' | 'savings' | 'credit_card' | 'cash' | 'investment'
+          opening_balance?: number
+          currency?: string | null
+          closing_day?: number | null
+          due_day?: number | null
+          color?: string
+          is_archived?: boolean
+          created_at?: string
+        }
+      }
       transactions: {
         Row: {
           id: string
           user_id: string
           category_id: string
-          type: 'income' | 'expense'
+          type: 'income' | 'expense' | 'transfer'
           amount: number
+          currency: string | null
           description: string
           date: string
           payment_method: string | null
+          account_id: string | null
+          to_account_id: string | null
+          statement_month: string | null
+          installment_group_id: string | null
+          installment_number: number | null
+          installment_count: number | null
           tags: string[]
           is_recurring: boolean
           recurrence_frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly' | null
           recurrence_next_date: string | null
           recurrence_end_date: string | null
+          recurrence_parent_id: string | null
+          occurrence_date: string | null
+          external_id: string | null
           created_at: string
           updated_at: string | null
         }
@@ -421,16 +547,26 @@ export interface Database {
           id?: string
           user_id: string
           category_id: string
-          type: 'income' | 'expense'
+          type: 'income' | 'expense' | 'transfer'
           amount: number
+          currency: string | null
           description: string
           date: string
           payment_method?: string | null
+          account_id?: string | null
+          to_account_id?: string | null
+          statement_month?: string | null
+          installment_group_id?: string | null
+          installment_number?: number | null
+          installment_count?: number | null
           tags?: string[]
           is_recurring?: boolean
           recurrence_frequency?: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly' | null
           recurrence_next_date?: string | null
           recurrence_end_date?: string | null
+          recurrence_parent_id?: string | null
+          occurrence_date?: string | null
+          external_id?: string | null
           created_at?: string
           updated_at?: string | null
         }
@@ -438,16 +574,26 @@ export interface Database {
           id?: string
           user_id?: string
           category_id?: string
-          type?: 'income' | 'expense'
+          type?: 'income' | 'expense' | 'transfer'
           amount?: number
+          currency?: string | null
           description?: string
           date?: string
           payment_method?: string | null
+          account_id?: string | null
+          to_account_id?: string | null
+          statement_month?: string | null
+          installment_group_id?: string | null
+          installment_number?: number | null
+          installment_count?: number | null
           tags?: string[]
           is_recurring?: boolean
           recurrence_frequency?: 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly' | null
           recurrence_next_date?: string | null
           recurrence_end_date?: string | null
+          recurrence_parent_id?: string | null
+          occurrence_date?: string | null
+          external_id?: string | null
           created_at?: string
           updated_at?: string | null
         }
@@ -475,6 +621,155 @@ export interface Database {
           month?: string
         }
       }
+      budget_templates: {
+        Row: {
+          id: string
+          user_id: string
+          category_id: string
+          amount: number
+          period: 'monthly' | 'yearly'
+          rollover: boolean
+          start_month: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          category_id: string
+          amount: number
+          period?: 'monthly' | 'yearly'
+          rollover?: boolean
+          start_month: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          category_id?: string
+          amount?: number
+          period?: 'monthly' | 'yearly'
+          rollover?: boolean
+          start_month?: string
+          created_at?: string
+        }
+      }
+      recurrence_exceptions: {
+        Row: {
+          id: string
+          user_id: string
+          transaction_id: string
+          occurrence_date: string
+          skip: boolean
+          amount: number | null
+          description: string | null
+          date: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          transaction_id: string
+          occurrence_date: string
+          skip?: boolean
+          amount?: number | null
+          description?: string | null
+          date?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          transaction_id?: string
+          occurrence_date?: string
+          skip?: boolean
+          amount?: number | null
+          description?: string | null
+          date?: string | null
+          created_at?: string
+        }
+      }
+      exchange_rates: {
+        Row: {
+          id: string
+          user_id: string
+          from_currency: string
+          to_currency: string
+          rate: number
+          date: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          from_currency: string
+          to_currency: string
+          rate: number
+          date: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          from_currency?: string
+          to_currency?: string
+          rate?: number
+          date?: string
+          created_at?: string
+        }
+      }
+      categorization_rules: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          priority: number
+          is_active: boolean
+          transaction_type: 'income' | 'expense' | null
+          description_match: 'contains' | 'regex' | null
+          description_pattern: string | null
+          min_amount: number | null
+          max_amount: number | null
+          payment_method: string | null
+          required_tags: string[]
+          category_id: string
+          add_tags: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          priority?: number
+          is_active?: boolean
+          transaction_type?: 'income' | 'expense' | null
+          description_match?: 'contains' | 'regex' | null
+          description_pattern?: string | null
+          min_amount?: number | null
+          max_amount?: number | null
+          payment_method?: string | null
+          required_tags?: string[]
+          category_id: string
+          add_tags?: string[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          priority?: number
+          is_active?: boolean
+          transaction_type?: 'income' | 'expense' | null
+          description_match?: 'contains' | 'regex' | null
+          description_pattern?: string | null
+          min_amount?: number | null
+          max_amount?: number | null
+          payment_method?: string | null
+          required_tags?: string[]
+          category_id?: string
+          add_tags?: string[]
+          created_at?: string
+        }
+      }
       financial_goals: {
         Row: {
           id: string
@@ -483,9 +778,11 @@ export interface Database {
           description: string | null
           target_amount: number
           current_amount: number
+          currency: string | null
           deadline: string | null
           color: string
           icon: string | null
+          contribution_category_id: string | null
           created_at: string
           completed_at: string | null
         }
@@ -496,9 +793,11 @@ export interface Database {
           description?: string | null
           target_amount: number
           current_amount?: number
+          currency?: string | null
           deadline?: string | null
           color?: string
           icon?: string | null
+          contribution_category_id?: string | null
           created_at?: string
           completed_at?: string | null
         }
@@ -509,9 +808,11 @@ export interface Database {
           description?: string | null
           target_amount?: number
           current_amount?: number
+          currency?: string | null
           deadline?: string | null
           color?: string
           icon?: string | null
+          contribution_category_id?: string | null
           created_at?: string
           completed_at?: string | null
         }
@@ -524,6 +825,7 @@ export interface Database {
           amount: number
           date: string
           note: string | null
+          transaction_id: string | null
           created_at: string
         }
         Insert: {
@@ -533,6 +835,7 @@ export interface Database {
           amount: number
           date: string
           note?: string | null
+          transaction_id?: string | null
           created_at?: string
         }
         Update: {
@@ -542,6 +845,150 @@ export interface Database {
           amount?: number
           date?: string
           note?: string | null
+          transaction_id?: string | null
+          created_at?: string
+        }
+      }
+      investment_assets: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          ticker: string | null
+          type: 'stock' | 'fund' | 'fixed_income' | 'crypto' | 'other'
+          currency: string | null
+          account_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          ticker?: string | null
+          type?: 'stock' | 'fund' | 'fixed_income' | 'crypto' | 'other'
+          currency?: string | null
+          account_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          ticker?: string | null
+          type?: 'stock' | 'fund' | 'fixed_income' | 'crypto' | 'other'
+          currency?: string | null
+          account_id?: string | null
+          created_at?: string
+        }
+      }
+      investment_prices: {
+        Row: {
+          id: string
+          user_id: string
+          asset_id: string
+          price: number
+          date: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          asset_id: string
+          price: number
+          date: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          asset_id?: string
+          price?: number
+          date?: string
+          created_at?: string
+        }
+      }
+      investment_events: {
+        Row: {
+          id: string
+          user_id: string
+          asset_id: string
+          type: 'buy' | 'sell' | 'dividend'
+          date: string
+          quantity: number
+          price: number
+          fees: number
+          amount: number
+          transaction_id: string | null
+          note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          asset_id: string
+          type: 'buy' | 'sell' | 'dividend'
+          date: string
+          quantity?: number
+          price?: number
+          fees?: number
+          amount: number
+          transaction_id?: string | null
+          note?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          asset_id?: string
+          type?: 'buy' | 'sell' | 'dividend'
+          date?: string
+          quantity?: number
+          price?: number
+          fees?: number
+          amount?: number
+          transaction_id?: string | null
+          note?: string | null
+          created_at?: string
+        }
+      }
+      investment_simulations: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          initial_amount: number
+          monthly_contribution: number
+          annual_rate: number
+          period_years: number
+          compounding_frequency: 'monthly' | 'quarterly' | 'yearly'
+          yield_index: 'fixed' | 'cdi' | 'ipca'
+          index_rate: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          initial_amount?: number
+          monthly_contribution?: number
+          annual_rate: number
+          period_years: number
+          compounding_frequency?: 'monthly' | 'quarterly' | 'yearly'
+          yield_index?: 'fixed' | 'cdi' | 'ipca'
+          index_rate?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          initial_amount?: number
+          monthly_contribution?: number
+          annual_rate?: number
+          period_years?: number
+          compounding_frequency?: 'monthly' | 'quarterly' | 'yearly'
+          yield_index?: 'fixed' | 'cdi' | 'ipca'
+          index_rate?: number | null
           created_at?: string
         }
       }
@@ -552,6 +999,8 @@ export interface Database {
           date: string
           focus_minutes: number
           completed_at: string
+          task_id: string | null
+          habit_id: string | null
         }
         Insert: {
           id?: string
@@ -559,6 +1008,8 @@ export interface Database {
           date: string
           focus_minutes: number
           completed_at?: string
+          task_id?: string | null
+          habit_id?: string | null
         }
         Update: {
           id?: string
@@ -566,6 +1017,8 @@ export interface Database {
           date?: string
           focus_minutes?: number
           completed_at?: string
+          task_id?: string | null
+          habit_id?: string | null
         }
       }
       notebooks: {
@@ -635,6 +1088,105 @@ export interface Database {
           updated_at?: string
         }
       }
+      page_links: {
+        Row: {
+          id: string
+          user_id: string
+          page_id: string
+          target_type: 'page' | 'task' | 'habit' | 'project'
+          target_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          page_id: string
+          target_type: 'page' | 'task' | 'habit' | 'project'
+          target_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          page_id?: string
+          target_type?: 'page' | 'task' | 'habit' | 'project'
+          target_id?: string
+          created_at?: string
+        }
+      }
+      flashcards: {
+        Row: {
+          id: string
+          user_id: string
+          notebook_id: string
+          page_id: string | null
+          front: string
+          back: string
+          ease: number
+          interval: number
+          repetitions: number
+          due_date: string
+          last_reviewed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          notebook_id: string
+          page_id?: string | null
+          front: string
+          back: string
+          ease?: number
+          interval?: number
+          repetitions?: number
+          due_date?: string
+          last_reviewed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          notebook_id?: string
+          page_id?: string | null
+          front?: string
+          back?: string
+          ease?: number
+          interval?: number
+          repetitions?: number
+          due_date?: string
+          last_reviewed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      page_revisions: {
+        Row: {
+          id: string
+          user_id: string
+          page_id: string
+          title: string
+          content: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          page_id: string
+          title: string
+          content?: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          page_id?: string
+          title?: string
+          content?: Json
+          created_at?: string
+        }
+      }
       push_subscriptions: {
         Row: {
           id: string
@@ -668,6 +1220,7 @@ export interface Database {
           onboarding_completed: boolean
           user_name: string | null
           currency: string
+          budget_mode: 'limits' | 'envelopes'
           pomodoro_settings: Json
           updated_at: string
         }
@@ -680,6 +1233,7 @@ export interface Database {
           onboarding_completed?: boolean
           user_name?: string | null
           currency?: string
+          budget_mode?: 'limits' | 'envelopes'
           pomodoro_settings?: Json
           updated_at?: string
         }
@@ -692,13 +1246,55 @@ export interface Database {
           onboarding_completed?: boolean
           user_name?: string | null
           currency?: string
+          budget_mode?: 'limits' | 'envelopes'
           pomodoro_settings?: Json
           updated_at?: string
         }
       }
     }
-    Views: Record<string, never>
-    Functions: Record<string, never>
+    Views: {
+      habit_summaries: {
+        Row: {
+          habit_id: string
+          user_id: string
+          total_completions: number
+          first_completion: string | null
+          last_completion: string | null
+          current_streak: number
+          longest_streak: number
+        }
+      }
+    }
+    Functions: {
+      search_everything: {
+        Args: {
+          search_query: string
+          result_limit?: number
+        }
+        Returns: {
+          type: string
+          id: string
+          title: string | null
+          snippet: string | null
+          rank: number
+          parent_id: string | null
+          date: string | null
+        }[]
+      }
+      spend_habit_freeze: {
+        Args: {
+          freeze_habit_id: string
+          freeze_date: string
+        }
+        Returns: {
+          id: string
+          user_id: string
+          habit_id: string
+          date: string
+          created_at: string
+        }[]
+      }
+    }
     Enums: Record<string, never>
   }
 }
@@ -718,12 +1314,20 @@ export type DbHabitCompletion = Tables<'habit_completions'>
 export type DbProject = Tables<'projects'>
 export type DbTask = Tables<'tasks'>
 export type DbSubtask = Tables<'subtasks'>
+export type DbTaskDependency = Tables<'task_dependencies'>
 export type DbMetricEntry = Tables<'metric_entries'>
 export type DbUserStats = Tables<'user_stats'>
 export type DbAchievement = Tables<'achievements'>
 export type DbHabitStreak = Tables<'habit_streaks'>
+export type DbHabitFreeze = Tables<'habit_freezes'>
+export type DbVacation = Tables<'vacations'>
+export type DbHabitSummary = Database['public']['Views']['habit_summaries']['Row']
+export type DbAccount = Tables<'accounts'>
 export type DbTransaction = Tables<'transactions'>
 export type DbBudget = Tables<'budgets'>
+export type DbBudgetTemplate = Tables<'budget_templates'>
+export type DbRecurrenceException = Tables<'recurrence_exceptions'>
+export type DbCategorizationRule = Tables<'categorization_rules'>
 export type DbFinancialGoal = Tables<'financial_goals'>
 export type DbGoalContribution = Tables<'goal_contributions'>
 export type DbPomodoroSession = Tables<'pomodoro_sessions'>
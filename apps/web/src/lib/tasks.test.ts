@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import type { Task } from '@/types'
+import {
+  getDependencyChain,
+  getDependencyStages,
+  getOpenBlockers,
+  getTasksUnblockedBy,
+  isTaskBlocked,
+  wouldCreateCycle,
+} from './tasks'
+
+type DependencyTask = Pick<Task, 'id' | 'status' | 'blockedBy'>
+
+function makeTask(
+  id: string,
+  blockedBy: string[] = [],
+  status: Task['status'] = 'pending'
+): DependencyTask {
+  return { id, status, blockedBy }
+}
+
+describe('task dependency utilities', () => {
+  describe('getOpenBlockers / isTaskBlocked', () => {
+    it('should only count blockers that are not done', () => {
+      const tasks = [makeTask('a', [], 'done'), makeTask('b'), makeTask('c', ['a', 'b'])]
+
+      expect(getOpenBlockers(tasks[2], tasks).map((t) => t.id)).toEqual(['b'])
+      expect(isTaskBlocked(tasks[2], tasks)).toBe(true)
+    })
+
+    it('should not be blocked once every blocker is done', () => {
+      const tasks = [makeTask('a', [], 'done'), makeTask('b', ['a'])]
+
+      expect(isTaskBlocked(tasks[1], tasks)).toBe(false)
+    })
+
+    it('should ignore blockers that are not in the list', () => {
+      expect(isTaskBlocked(makeTask('a', ['missing']), [])).toBe(false)
+    })
+  })
+
+  describe('wouldCreateCycle', () => {
+    const dependencies = [
+      { taskId: 'b', blockedById: 'a' },
+      { taskId: 'c', blockedById: 'b' },
+    ]
+
+    it('should reject a task blocking itself', () => {
+      expect(wouldCreateCycle([], 'a', 'a')).toBe(true)
+    })
+
+    it('should reject direct and transitive loops', () => {
+      expect(wouldCreateCycle(dependencies, 'a', 'b')).toBe(true)
+      expect(wouldCreateCycle(dependencies, 'a', 'c')).toBe(true)
+    })
+
+    it('should allow edges that keep the graph acyclic', () => {
+      expect(wouldCreateCycle(dependencies, 'c', 'a')).toBe(false)
+      expect(wouldCreateCycle(dependencies, 'd', 'c')).toBe(false)
+    })
+  })
+
+  describe('getTasksUnblockedBy', () => {
+    it('should return dependents whose last open blocker was completed', () => {
+      const tasks = [
+        makeTask('a', [], 'done'),
+        makeTask('b', [], 'done'),
+        makeTask('c', ['a', 'b']),
+        makeTask('d', ['a', 'e']),
+        makeTask('e'),
+      ]
+
+      expect(getTasksUnblockedBy('a', tasks).map((t) => t.id)).toEqual(['c'])
+    })
+
+    it('should skip dependents that are already done', () => {
+      const tasks = [makeTask('a', [], 'done'), makeTask('b', ['a'], 'done')]
+
+      expect(getTasksUnblockedBy('a', tasks)).toEqual([])
+    })
+  })
+
+  describe('getDependencyChain', () => {
+    it('should include upstream and downstream tasks but not siblings', () => {
+      const tasks = [
+        makeTask('design'),
+        makeTask('build', ['design']),
+        makeTask('docs', ['design']),
+        makeTask('release', ['build']),
+      ]
+
+      expect([...getDependencyChain('build', tasks)].sort()).toEqual(['design', 'release'])
+    })
+
+    it('should be empty for a task without dependencies', () => {
+      expect(getDependencyChain('a', [makeTask('a'), makeTask('b')]).size).toBe(0)
+    })
+  })
+
+  describe('getDependencyStages', () => {
+    it('should place each task one stage after its deepest blocker', () => {
+      const tasks = [
+        makeTask('design'),
+        makeTask('build', ['design']),
+        makeTask('docs', ['design']),
+        makeTask('release', ['build', 'docs', 'design']),
+        makeTask('unrelated'),
+      ]
+
+      const stages = getDependencyStages(tasks).map((stage) => stage.map((t) => t.id))
+
+      expect(stages).toEqual([['design'], ['build', 'docs'], ['release']])
+    })
+
+    it('should not loop forever on a cycle', () => {
+      const tasks = [makeTask('a', ['b']), makeTask('b', ['a'])]
+
+      expect(getDependencyStages(tasks).flat()).toHaveLength(2)
+    })
+  })
+})
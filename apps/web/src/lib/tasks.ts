@@ -0,0 +1,139 @@
+import type { Task, TaskDependency } from '@/types'
+
+type DependencyTask = Pick<Task, 'id' | 'status' | 'blockedBy'>
+
+/**
+ * Blockers of a task that are not done yet. Blockers missing from `tasks`
+ * (e.g. outside the loaded list) are ignored.
+ */
+export function getOpenBlockers<T extends DependencyTask>(
+  task: Pick<Task, 'blockedBy'>,
+  tasks: T[]
+): T[] {
+  if (task.blockedBy.length === 0) return []
+  const blockers = new Set(task.blockedBy)
+  return tasks.filter((t) => blockers.has(t.id) && t.status !== 'done')
+}
+
+/**
+ * Whether a task is still waiting on at least one unfinished blocker.
+ */
+export function isTaskBlocked(task: Pick<Task, 'blockedBy'>, tasks: DependencyTask[]): boolean {
+  return getOpenBlockers(task, tasks).length > 0
+}
+
+/**
+ * Whether making `taskId` wait on `blockedById` would close a loop, i.e. the
+ * blocker already depends (directly or transitively) on the task.
+ */
+export function wouldCreateCycle(
+  dependencies: TaskDependency[],
+  taskId: string,
+  blockedById: string
+): boolean {
+  if (taskId === blockedById) return true
+
+  const blockersOf = new Map<string, string[]>()
+  for (const d of dependencies) {
+    const existing = blockersOf.get(d.taskId) ?? []
+    existing.push(d.blockedById)
+    blockersOf.set(d.taskId, existing)
+  }
+
+  const visited = new Set<string>()
+  const stack = [blockedById]
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    if (current === taskId) return true
+    if (visited.has(current)) continue
+    visited.add(current)
+    stack.push(...(blockersOf.get(current) ?? []))
+  }
+
+  return false
+}
+
+/**
+ * Open tasks whose last unfinished blocker is `completedId`, so they become
+ * actionable once it is done.
+ */
+export function getTasksUnblockedBy<T extends DependencyTask>(completedId: string, tasks: T[]): T[] {
+  return tasks.filter(
+    (task) =>
+      task.status !== 'done' &&
+      task.blockedBy.includes(completedId) &&
+      getOpenBlockers(task, tasks).every((blocker) => blocker.id === completedId)
+  )
+}
+
+/**
+ * IDs of every task connected to `taskId` through dependencies, in either
+ * direction (everything it waits on and everything waiting on it).
+ */
+export function getDependencyChain(taskId: string, tasks: DependencyTask[]): Set<string> {
+  const dependentsOf = new Map<string, string[]>()
+  for (const task of tasks) {
+    for (const id of task.blockedBy) {
+      dependentsOf.set(id, [...(dependentsOf.get(id) ?? []), task.id])
+    }
+  }
+  const byId = new Map(tasks.map((t) => [t.id, t]))
+
+  const walk = (next: (id: string) => string[]): string[] => {
+    const seen = new Set<string>()
+    const stack = next(taskId)
+    while (stack.length > 0) {
+      const current = stack.pop()!
+      if (seen.has(current) || current === taskId) continue
+      seen.add(current)
+      stack.push(...next(current))
+    }
+    return [...seen]
+  }
+
+  return new Set([
+    ...walk((id) => [...(byId.get(id)?.blockedBy ?? [])]),
+    ...walk((id) => [...(dependentsOf.get(id) ?? [])]),
+  ])
+}
+
+/**
+ * Group the tasks that take part in a dependency into stages: stage 0 has no
+ * blockers, and every other task sits one stage after its deepest blocker.
+ * Tasks with no dependencies either way are left out.
+ */
+export function getDependencyStages<T extends DependencyTask>(tasks: T[]): T[][] {
+  const byId = new Map(tasks.map((t) => [t.id, t]))
+  const blocking = new Set(tasks.flatMap((t) => t.blockedBy.filter((id) => byId.has(id))))
+  const linked = tasks.filter(
+    (t) => blocking.has(t.id) || t.blockedBy.some((id) => byId.has(id))
+  )
+
+  const stageOf = new Map<string, number>()
+  const visiting = new Set<string>()
+
+  const getStage = (task: T): number => {
+    const cached = stageOf.get(task.id)
+    if (cached !== undefined) return cached
+    // Guard against cycles created outside the app
+    if (visiting.has(task.id)) return 0
+    visiting.add(task.id)
+
+    let stage = 0
+    for (const id of task.blockedBy) {
+      const blocker = byId.get(id)
+      if (blocker) stage = Math.max(stage, getStage(blocker) + 1)
+    }
+
+    visiting.delete(task.id)
+    stageOf.set(task.id, stage)
+    return stage
+  }
+
+  const stages: T[][] = []
+  for (const task of linked) {
+    const stage = getStage(task)
+    stages[stage] = [...(stages[stage] ?? []), task]
+  }
+  return stages.filter(Boolean)
+}
@@ -1,9 +1,19 @@
 import { describe, it, expect, vi } from 'vitest'
 import {
   transactionsService,
+  accountsService,
+  categorizationRulesService,
   categoriesService,
   budgetsService,
+  budgetTemplatesService,
+  exchangeRatesService,
   goalsService,
+  recurringTransactionsService,
+  recurrenceExceptionsService,
+  investmentAssetsService,
+  investmentPricesService,
+  investmentEventsService,
+  investmentSimulationsService,
 } from './finances.service'
 import type { SupabaseClient } from '@supabase/supabase-js'
 
@@ -16,9 +26,12 @@ interface MockChain {
   upsert: ReturnType<typeof vi.fn>
   eq: ReturnType<typeof vi.fn>
   in: ReturnType<typeof vi.fn>
+  or: ReturnType<typeof vi.fn>
   gte: ReturnType<typeof vi.fn>
   lte: ReturnType<typeof vi.fn>
   order: ReturnType<typeof vi.fn>
+  limit: ReturnType<typeof vi.fn>
+  range: ReturnType<typeof vi.fn>
   single: ReturnType<typeof vi.fn>
   then: ReturnType<typeof vi.fn>
 }
@@ -45,9 +58,12 @@ function createMockSupabase() {
   mockChain.upsert = vi.fn(() => mockChain)
   mockChain.eq = vi.fn(() => mockChain)
   mockChain.in = vi.fn(() => mockChain)
+  mockChain.or = vi.fn(() => mockChain)
   mockChain.gte = vi.fn(() => mockChain)
   mockChain.lte = vi.fn(() => mockChain)
   mockChain.order = vi.fn(() => mockChain)
+  mockChain.limit = vi.fn(() => mockChain)
+  mockChain.range = vi.fn(() => mockChain)
   mockChain.single = vi.fn(() => mockChain)
 
   // Make mockChain thenable
@@ -87,14 +103,24 @@ const mockDbTransaction = {
   category_id: 'cat-1',
   type: 'expense' as const,
   amount: 150.0,
+  currency: null,
   description: 'Groceries',
   date: '2024-01-15',
   payment_method: 'credit_card',
+  account_id: null,
+  to_account_id: null,
+  statement_month: null,
+  installment_group_id: null,
+  installment_number: null,
+  installment_count: null,
   tags: ['food', 'essentials'],
   is_recurring: false,
   recurrence_frequency: null,
   recurrence_next_date: null,
   recurrence_end_date: null,
+  recurrence_parent_id: null,
+  occurrence_date: null,
+  external_id: null,
   created_at: '2024-01-15T10:00:00Z',
   updated_at: null,
 }
@@ -111,6 +137,38 @@ const mockDbCategory = {
   created_at: '2024-01-01T00:00:00Z',
 }
 
+const mockDbAccount = {
+  id: 'acc-1',
+  user_id: 'test-user-id',
+  name: 'Checking',
+  type: 'checking' as const,
+  opening_balance: '1500.00',
+  currency: null,
+  closing_day: null,
+  due_day: null,
+  color: '#3b82f6',
+  is_archived: false,
+  created_at: '2024-01-01T00:00:00Z',
+}
+
+const mockDbRule = {
+  id: 'rule-1',
+  user_id: 'test-user-id',
+  name: 'Delivery',
+  priority: 0,
+  is_active: true,
+  transaction_type: 'expense' as const,
+  description_match: 'contains' as const,
+  description_pattern: 'ifood',
+  min_amount: null,
+  max_amount: '100.00',
+  payment_method: null,
+  required_tags: [],
+  category_id: 'food',
+  add_tags: ['delivery'],
+  created_at: '2024-01-01T00:00:00Z',
+}
+
 const mockDbBudget = {
   id: 'budget-1',
   user_id: 'test-user-id',
@@ -119,6 +177,39 @@ const mockDbBudget = {
   month: '2024-01',
 }
 
+const mockDbBudgetTemplate = {
+  id: 'tpl-1',
+  user_id: 'test-user-id',
+  category_id: 'cat-1',
+  amount: '1200.00',
+  period: 'yearly' as const,
+  rollover: true,
+  start_month: '2024-01',
+  created_at: '2024-01-01T00:00:00Z',
+}
+
+const mockDbRecurrenceException = {
+  id: 'exc-1',
+  user_id: 'test-user-id',
+  transaction_id: 'rent',
+  occurrence_date: '2024-02-10',
+  skip: false,
+  amount: '1600.00',
+  description: null,
+  date: null,
+  created_at: '2024-02-01T00:00:00Z',
+}
+
+const mockDbExchangeRate = {
+  id: 'rate-1',
+  user_id: 'test-user-id',
+  from_currency: 'USD' as const,
+  to_currency: 'BRL' as const,
+  rate: '4.95000000',
+  date: '2024-01-15',
+  created_at: '2024-01-15T10:00:00Z',
+}
+
 const mockDbGoal = {
   id: 'goal-1',
   user_id: 'test-user-id',
@@ -126,9 +217,11 @@ const mockDbGoal = {
   description: 'Save for emergencies',
   target_amount: 10000,
   current_amount: 2500,
+  currency: null,
   deadline: '2024-12-31',
   color: '#22c55e',
   icon: 'piggy-bank',
+  contribution_category_id: null,
   created_at: '2024-01-01T00:00:00Z',
   completed_at: null,
 }
@@ -140,9 +233,50 @@ const mockDbContribution = {
   amount: 500,
   date: '2024-01-15',
   note: 'Monthly savings',
+  transaction_id: null,
   created_at: '2024-01-15T10:00:00Z',
 }
 
+const mockDbInvestmentAsset = {
+  id: 'asset-1',
+  user_id: 'test-user-id',
+  name: 'Petrobras',
+  ticker: 'PETR4',
+  type: 'stock' as const,
+  currency: null,
+  account_id: 'broker-1',
+  created_at: '2024-01-01T00:00:00Z',
+}
+
+const mockDbInvestmentEvent = {
+  id: 'event-1',
+  user_id: 'test-user-id',
+  asset_id: 'asset-1',
+  type: 'buy' as const,
+  date: '2024-01-10',
+  quantity: '100',
+  price: '30.5',
+  fees: '10',
+  amount: '3060',
+  transaction_id: null,
+  note: null,
+  created_at: '2024-01-10T10:00:00Z',
+}
+
+const mockDbInvestmentSimulation = {
+  id: 'sim-1',
+  user_id: 'test-user-id',
+  name: 'CDB 110%',
+  initial_amount: '1000',
+  monthly_contribution: '500',
+  annual_rate: '110',
+  period_years: 5,
+  compounding_frequency: 'monthly' as const,
+  yield_index: 'cdi' as const,
+  index_rate: '10.65',
+  created_at: '2024-01-01T00:00:00Z',
+}
+
 describe('transactionsService', () => {
   describe('getAll', () => {
     it('fetches all transactions', async () => {
@@ -171,6 +305,19 @@ describe('transactionsService', () => {
       expect(result).toEqual([])
     })
 
+    it('reads every page of transactions', async () => {
+      const mockSupabase = createMockSupabase()
+      const fullPage = Array.from({ length: 1000 }, (_, i) => ({ ...mockDbTransaction, id: `txn-${i}` }))
+      mockSupabase.queueResult({ data: fullPage, error: null })
+      mockSupabase.queueResult({ data: [mockDbTransaction], error: null })
+
+      const result = await transactionsService.getAll(mockSupabase)
+
+      expect(mockSupabase.mockChain.range).toHaveBeenCalledWith(0, 999)
+      expect(mockSupabase.mockChain.range).toHaveBeenCalledWith(1000, 1999)
+      expect(result).toHaveLength(1001)
+    })
+
     it('throws error when fetch fails', async () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.queueResult({ data: null, error: { message: 'Database error' } })
@@ -181,6 +328,35 @@ describe('transactionsService', () => {
     })
   })
 
+  describe('getImportCandidates', () => {
+    it('fetches transactions in the statement dates and with its bank identifiers', async () => {
+      const mockSupabase = createMockSupabase()
+      const edited = { ...mockDbTransaction, id: 'txn-edited', date: '2023-12-20', external_id: 'fitid-2' }
+      mockSupabase.queueResult({ data: [mockDbTransaction], error: null }) // date range
+      mockSupabase.queueResult({ data: [edited, mockDbTransaction], error: null }) // bank identifiers
+
+      const result = await transactionsService.getImportCandidates(mockSupabase, [
+        { date: '2024-01-20', externalId: 'fitid-2' },
+        { date: '2024-01-05', externalId: 'fitid-1' },
+        { date: '2024-01-10' },
+      ])
+
+      expect(mockSupabase.mockChain.gte).toHaveBeenCalledWith('date', '2024-01-05')
+      expect(mockSupabase.mockChain.lte).toHaveBeenCalledWith('date', '2024-01-20')
+      expect(mockSupabase.mockChain.in).toHaveBeenCalledWith('external_id', ['fitid-2', 'fitid-1'])
+      expect(result.map((t) => t.id)).toEqual(['txn-1', 'txn-edited'])
+    })
+
+    it('does nothing for an empty statement', async () => {
+      const mockSupabase = createMockSupabase()
+
+      const result = await transactionsService.getImportCandidates(mockSupabase, [])
+
+      expect(result).toEqual([])
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+
   describe('getByMonth', () => {
     it('fetches transactions for a specific month', async () => {
       const mockSupabase = createMockSupabase()
@@ -277,6 +453,47 @@ describe('transactionsService', () => {
       expect(result.recurrence?.frequency).toBe('monthly')
     })
 
+    it('applies categorization rules to uncategorized transactions', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbRule], error: null })
+      mockSupabase.queueResult({ data: [], error: null })
+      mockSupabase.queueResult({ data: mockDbTransaction, error: null })
+
+      await transactionsService.create(mockSupabase, {
+        type: 'expense',
+        amount: 45,
+        categoryId: 'other-expense',
+        description: 'IFOOD *Pizzaria',
+        date: '2024-01-15',
+        tags: ['dinner'],
+        isRecurring: false,
+      })
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('categorization_rules')
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ category_id: 'food', tags: ['dinner', 'delivery'] })
+      )
+    })
+
+    it('keeps a category picked by hand without loading rules', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbTransaction, error: null })
+
+      await transactionsService.create(mockSupabase, {
+        type: 'expense',
+        amount: 45,
+        categoryId: 'entertainment',
+        description: 'IFOOD *Pizzaria',
+        date: '2024-01-15',
+        isRecurring: false,
+      })
+
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('categorization_rules')
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ category_id: 'entertainment' })
+      )
+    })
+
     it('throws error when user not authenticated', async () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.auth.getUser = vi.fn().mockResolvedValue({
@@ -298,6 +515,197 @@ describe('transactionsService', () => {
     })
   })
 
+  describe('transfers', () => {
+    it('stores the transfer category and destination account', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({
+        data: {
+          ...mockDbTransaction,
+          type: 'transfer',
+          category_id: 'transfer',
+          account_id: 'acc-1',
+          to_account_id: 'acc-2',
+        },
+        error: null,
+      })
+
+      const result = await transactionsService.create(mockSupabase, {
+        type: 'transfer',
+        amount: 500,
+        categoryId: '',
+        description: 'Savings',
+        date: '2024-01-15',
+        accountId: 'acc-1',
+        toAccountId: 'acc-2',
+        isRecurring: false,
+      })
+
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('categorization_rules')
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'transfer',
+          category_id: 'transfer',
+          account_id: 'acc-1',
+          to_account_id: 'acc-2',
+        })
+      )
+      expect(result).toMatchObject({ accountId: 'acc-1', toAccountId: 'acc-2' })
+    })
+
+    it('drops the destination account on other transaction types', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbTransaction, error: null })
+
+      await transactionsService.create(mockSupabase, {
+        type: 'expense',
+        amount: 50,
+        categoryId: 'food',
+        description: 'Lunch',
+        date: '2024-01-15',
+        accountId: 'acc-1',
+        toAccountId: 'acc-2',
+        isRecurring: false,
+      })
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ account_id: 'acc-1', to_account_id: null })
+      )
+    })
+  })
+
+  describe('createCardPurchase', () => {
+    it('inserts one transaction per installment, each in its own statement', async () => {
+      const card = {
+        id: 'card-1',
+        name: 'Nubank',
+        type: 'credit_card' as const,
+        openingBalance: 0,
+        closingDay: 3,
+        dueDay: 10,
+        color: '#8b5cf6',
+        isArchived: false,
+        createdAt: '2024-01-01T00:00:00Z',
+      }
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({
+        data: [
+          {
+            ...mockDbTransaction,
+            amount: 50,
+            account_id: 'card-1',
+            statement_month: '2024-02',
+            installment_group_id: 'group-1',
+            installment_number: 1,
+            installment_count: 2,
+          },
+        ],
+        error: null,
+      })
+
+      const result = await transactionsService.createCardPurchase(
+        mockSupabase,
+        {
+          type: 'expense',
+          amount: 100,
+          categoryId: 'shopping',
+          description: 'Headphones',
+          date: '2024-01-20',
+          isRecurring: false,
+        },
+        card,
+        2
+      )
+
+      const [rows] = mockSupabase.mockChain.insert.mock.calls[0] as [Record<string, unknown>[]]
+      expect(rows).toHaveLength(2)
+      expect(rows[1]).toMatchObject({
+        account_id: 'card-1',
+        amount: 50,
+        date: '2024-02-20',
+        statement_month: '2024-03',
+        installment_number: 2,
+        installment_count: 2,
+      })
+      expect(rows[0].installment_group_id).toBe(rows[1].installment_group_id)
+      expect(result[0].installment).toEqual({ groupId: 'group-1', number: 1, count: 2 })
+    })
+  })
+
+  describe('createMany', () => {
+    it('inserts all transactions in one request', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({
+        data: [mockDbTransaction, { ...mockDbTransaction, id: 'txn-2' }],
+        error: null,
+      })
+
+      const result = await transactionsService.createMany(mockSupabase, [
+        {
+          type: 'expense',
+          amount: 150,
+          categoryId: 'cat-1',
+          description: 'Groceries',
+          date: '2024-01-15',
+          externalId: 'fitid-1',
+          isRecurring: false,
+        },
+        {
+          type: 'expense',
+          amount: 20,
+          categoryId: 'cat-1',
+          description: 'Coffee',
+          date: '2024-01-16',
+          isRecurring: false,
+        },
+      ])
+
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1)
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          user_id: 'test-user-id',
+          description: 'Groceries',
+          external_id: 'fitid-1',
+        }),
+        expect.objectContaining({
+          user_id: 'test-user-id',
+          description: 'Coffee',
+          tags: [],
+          external_id: null,
+        }),
+      ])
+      expect(result.map((t) => t.id)).toEqual(['txn-1', 'txn-2'])
+    })
+
+    it('categorizes uncategorized rows with the rules', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbRule], error: null })
+      mockSupabase.queueResult({ data: [], error: null })
+      mockSupabase.queueResult({ data: [mockDbTransaction], error: null })
+
+      await transactionsService.createMany(mockSupabase, [
+        {
+          type: 'expense',
+          amount: 30,
+          categoryId: 'other-expense',
+          description: 'IFOOD',
+          date: '2024-01-15',
+          isRecurring: false,
+        },
+      ])
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith([
+        expect.objectContaining({ category_id: 'food', tags: ['delivery'] }),
+      ])
+    })
+
+    it('skips the request when there is nothing to import', async () => {
+      const mockSupabase = createMockSupabase()
+
+      expect(await transactionsService.createMany(mockSupabase, [])).toEqual([])
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+
   describe('update', () => {
     it('updates transaction amount', async () => {
       const updatedTransaction = { ...mockDbTransaction, amount: 200 }
@@ -363,8 +771,27 @@ describe('transactionsService', () => {
       expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('id', 'txn-1')
     })
 
+    it('skips the occurrence when deleting a recorded one', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({
+        data: { recurrence_parent_id: 'rent', occurrence_date: '2024-02-10' },
+        error: null,
+      })
+      mockSupabase.queueResult({ error: null })
+      mockSupabase.queueResult({ data: { ...mockDbRecurrenceException, skip: true }, error: null })
+      mockSupabase.queueResult({ error: null })
+
+      await transactionsService.delete(mockSupabase, 'txn-1')
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ transaction_id: 'rent', occurrence_date: '2024-02-10', skip: true }),
+        { onConflict: 'transaction_id,occurrence_date' }
+      )
+    })
+
     it('throws error when delete fails', async () => {
       const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbTransaction, error: null })
       mockSupabase.queueResult({ error: { message: 'Delete failed' } })
 
       await expect(transactionsService.delete(mockSupabase, 'txn-1')).rejects.toEqual({
@@ -374,6 +801,387 @@ describe('transactionsService', () => {
   })
 })
 
+describe('recurringTransactionsService', () => {
+  describe('materializeDue', () => {
+    const mockDbTemplate = {
+      ...mockDbTransaction,
+      id: 'rent',
+      amount: '1500.00',
+      description: 'Aluguel',
+      date: '2024-01-10',
+      is_recurring: true,
+      recurrence_frequency: 'monthly' as const,
+    }
+
+    it('records due occurrences once and moves nextDate forward', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbTemplate], error: null })
+      mockSupabase.queueResult({ data: [mockDbRecurrenceException], error: null })
+      mockSupabase.queueResult({ data: [], error: null })
+      mockSupabase.queueResult({ data: [], error: null })
+
+      await recurringTransactionsService.materializeDue(mockSupabase, 'user-2', '2024-03-15')
+
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('user_id', 'user-2')
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            user_id: 'user-2',
+            amount: 1600,
+            date: '2024-02-10',
+            is_recurring: false,
+            recurrence_parent_id: 'rent',
+            occurrence_date: '2024-02-10',
+          }),
+          expect.objectContaining({ amount: 1500, occurrence_date: '2024-03-10' }),
+        ],
+        { onConflict: 'recurrence_parent_id,occurrence_date', ignoreDuplicates: true }
+      )
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledWith({
+        recurrence_next_date: '2024-04-10',
+      })
+    })
+
+    it('reads every page of transactions before recording', async () => {
+      const mockSupabase = createMockSupabase()
+      const instances = Array.from({ length: 1000 }, (_, i) => ({
+        ...mockDbTransaction,
+        id: `txn-${i}`,
+      }))
+      mockSupabase.queueResult({ data: instances, error: null })
+      // The March occurrence was recorded long ago, on the second page
+      mockSupabase.queueResult({
+        data: [
+          mockDbTemplate,
+          {
+            ...mockDbTemplate,
+            id: 'rent-mar',
+            date: '2024-03-10',
+            is_recurring: false,
+            recurrence_frequency: null,
+            recurrence_parent_id: 'rent',
+            occurrence_date: '2024-03-10',
+          },
+        ],
+        error: null,
+      })
+      mockSupabase.queueResult({ data: [], error: null }) // exceptions
+      mockSupabase.queueResult({ data: [], error: null }) // accounts
+      mockSupabase.queueResult({ data: [], error: null }) // upsert
+
+      await recurringTransactionsService.materializeDue(mockSupabase, 'user-2', '2024-03-15')
+
+      expect(mockSupabase.mockChain.range).toHaveBeenCalledWith(1000, 1999)
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        [expect.objectContaining({ occurrence_date: '2024-02-10' })],
+        expect.anything()
+      )
+    })
+
+    it('fails when nextDate cannot be moved forward', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbTemplate], error: null })
+      mockSupabase.queueResult({ data: [], error: null }) // exceptions
+      mockSupabase.queueResult({ data: [], error: null }) // accounts
+      mockSupabase.queueResult({ data: [], error: null }) // upsert
+      mockSupabase.queueResult({ error: { message: 'update failed' } })
+
+      await expect(
+        recurringTransactionsService.materializeDue(mockSupabase, 'user-2', '2024-03-15')
+      ).rejects.toEqual({ message: 'update failed' })
+    })
+
+    it('does nothing when no occurrence is due', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbTemplate], error: null })
+      mockSupabase.queueResult({ data: [], error: null })
+
+      const result = await recurringTransactionsService.materializeDue(
+        mockSupabase,
+        'user-2',
+        '2024-02-01'
+      )
+
+      expect(result).toEqual([])
+      expect(mockSupabase.mockChain.upsert).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('recurrenceExceptionsService', () => {
+  describe('getAll', () => {
+    it('fetches exceptions with numeric amounts', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbRecurrenceException], error: null })
+
+      const result = await recurrenceExceptionsService.getAll(mockSupabase)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('recurrence_exceptions')
+      expect(result).toEqual([
+        {
+          id: 'exc-1',
+          transactionId: 'rent',
+          occurrenceDate: '2024-02-10',
+          skip: false,
+          amount: 1600,
+          description: undefined,
+          date: undefined,
+          createdAt: '2024-02-01T00:00:00Z',
+        },
+      ])
+    })
+  })
+
+  describe('upsert', () => {
+    it('updates the recorded occurrence with the edit', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbRecurrenceException, error: null })
+      mockSupabase.queueResult({ error: null })
+
+      await recurrenceExceptionsService.upsert(mockSupabase, 'rent', '2024-02-10', { amount: 1600 })
+
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledWith({ amount: 1600 })
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('recurrence_parent_id', 'rent')
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('occurrence_date', '2024-02-10')
+    })
+
+    it('deletes the recorded occurrence when skipping', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: { ...mockDbRecurrenceException, skip: true }, error: null })
+      mockSupabase.queueResult({ error: null })
+
+      const result = await recurrenceExceptionsService.upsert(mockSupabase, 'rent', '2024-02-10', {
+        skip: true,
+      })
+
+      expect(result.skip).toBe(true)
+      expect(mockSupabase.mockChain.delete).toHaveBeenCalled()
+      expect(mockSupabase.mockChain.update).not.toHaveBeenCalled()
+    })
+
+    it('throws error when user not authenticated', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.auth.getUser = vi.fn().mockResolvedValue({
+        data: { user: null },
+        error: null,
+      })
+
+      await expect(
+        recurrenceExceptionsService.upsert(mockSupabase, 'rent', '2024-02-10', { skip: true })
+      ).rejects.toThrow('User not authenticated')
+    })
+  })
+})
+
+describe('accountsService', () => {
+  describe('getAll', () => {
+    it('fetches accounts with numeric opening balances', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbAccount], error: null })
+
+      const result = await accountsService.getAll(mockSupabase)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('accounts')
+      expect(result).toEqual([
+        {
+          id: 'acc-1',
+          name: 'Checking',
+          type: 'checking',
+          openingBalance: 1500,
+          color: '#3b82f6',
+          isArchived: false,
+          createdAt: '2024-01-01T00:00:00Z',
+        },
+      ])
+    })
+  })
+
+  describe('create', () => {
+    it('creates an account for the current user', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbAccount, error: null })
+
+      await accountsService.create(mockSupabase, {
+        name: 'Checking',
+        type: 'checking',
+        openingBalance: 1500,
+        color: '#3b82f6',
+      })
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith({
+        user_id: 'test-user-id',
+        name: 'Checking',
+        type: 'checking',
+        opening_balance: 1500,
+        currency: null,
+        closing_day: null,
+        due_day: null,
+        color: '#3b82f6',
+      })
+    })
+
+    it('throws error when user not authenticated', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.auth.getUser = vi.fn().mockResolvedValue({
+        data: { user: null },
+        error: null,
+      })
+
+      await expect(
+        accountsService.create(mockSupabase, {
+          name: 'Cash',
+          type: 'cash',
+          openingBalance: 0,
+          color: '#22c55e',
+        })
+      ).rejects.toThrow('User not authenticated')
+    })
+  })
+
+  describe('update', () => {
+    it('archives an account', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: { ...mockDbAccount, is_archived: true }, error: null })
+
+      const result = await accountsService.update(mockSupabase, 'acc-1', { isArchived: true })
+
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledWith({ is_archived: true })
+      expect(result.isArchived).toBe(true)
+    })
+  })
+
+  describe('delete', () => {
+    it('deletes an account without transfers', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [], error: null })
+      mockSupabase.queueResult({ data: null, error: null })
+
+      const result = await accountsService.delete(mockSupabase, 'acc-1')
+
+      expect(mockSupabase.mockChain.or).toHaveBeenCalledWith(
+        'account_id.eq.acc-1,to_account_id.eq.acc-1'
+      )
+      expect(mockSupabase.mockChain.delete).toHaveBeenCalled()
+      expect(result).toBe('deleted')
+    })
+
+    it('archives an account that has transfers instead', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [{ id: 'txn-transfer' }], error: null })
+      mockSupabase.queueResult({ data: { ...mockDbAccount, is_archived: true }, error: null })
+
+      const result = await accountsService.delete(mockSupabase, 'acc-1')
+
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledWith({ is_archived: true })
+      expect(mockSupabase.mockChain.delete).not.toHaveBeenCalled()
+      expect(result).toBe('archived')
+    })
+  })
+})
+
+describe('categorizationRulesService', () => {
+  describe('getAll', () => {
+    it('fetches rules in priority order', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbRule], error: null })
+
+      const result = await categorizationRulesService.getAll(mockSupabase)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('categorization_rules')
+      expect(mockSupabase.mockChain.order).toHaveBeenCalledWith('priority', { ascending: true })
+      expect(result[0]).toMatchObject({
+        id: 'rule-1',
+        descriptionPattern: 'ifood',
+        maxAmount: 100,
+        minAmount: undefined,
+        categoryId: 'food',
+        addTags: ['delivery'],
+      })
+    })
+  })
+
+  describe('create', () => {
+    it('creates a rule for the current user', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbRule, error: null })
+
+      await categorizationRulesService.create(mockSupabase, {
+        name: 'Delivery',
+        priority: 0,
+        isActive: true,
+        descriptionMatch: 'contains',
+        descriptionPattern: 'ifood',
+        categoryId: 'food',
+      })
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'test-user-id',
+          description_pattern: 'ifood',
+          category_id: 'food',
+        })
+      )
+    })
+
+    it('throws error when user not authenticated', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.auth.getUser = vi.fn().mockResolvedValue({
+        data: { user: null },
+        error: null,
+      })
+
+      await expect(
+        categorizationRulesService.create(mockSupabase, {
+          name: 'Delivery',
+          priority: 0,
+          isActive: true,
+          categoryId: 'food',
+        })
+      ).rejects.toThrow('User not authenticated')
+    })
+  })
+
+  describe('update', () => {
+    it('clears conditions set to undefined', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbRule, error: null })
+
+      await categorizationRulesService.update(mockSupabase, 'rule-1', {
+        priority: 3,
+        maxAmount: undefined,
+      })
+
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledWith({ priority: 3, max_amount: null })
+    })
+  })
+
+  describe('reapply', () => {
+    it('updates the past transactions the rules change', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbRule], error: null })
+      mockSupabase.queueResult({ data: [], error: null })
+      mockSupabase.queueResult({
+        data: [
+          { ...mockDbTransaction, category_id: 'other-expense', amount: 30, description: 'iFood', tags: [] },
+          { ...mockDbTransaction, id: 'txn-2', category_id: 'other-expense', description: 'Mercado' },
+        ],
+        error: null,
+      })
+      mockSupabase.queueResult({ data: mockDbTransaction, error: null })
+
+      const updated = await categorizationRulesService.reapply(mockSupabase)
+
+      expect(updated).toBe(1)
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledTimes(1)
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledWith({
+        category_id: 'food',
+        tags: ['delivery'],
+      })
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('id', 'txn-1')
+    })
+  })
+})
+
 describe('categoriesService', () => {
   describe('getAll', () => {
     it('fetches all categories', async () => {
@@ -541,6 +1349,143 @@ describe('budgetsService', () => {
   })
 })
 
+describe('budgetTemplatesService', () => {
+  describe('getAll', () => {
+    it('fetches templates with numeric amounts', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbBudgetTemplate], error: null })
+
+      const result = await budgetTemplatesService.getAll(mockSupabase)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('budget_templates')
+      expect(result).toEqual([
+        {
+          id: 'tpl-1',
+          categoryId: 'cat-1',
+          amount: 1200,
+          period: 'yearly',
+          rollover: true,
+          startMonth: '2024-01',
+          createdAt: '2024-01-01T00:00:00Z',
+        },
+      ])
+    })
+  })
+
+  describe('upsert', () => {
+    it('replaces the template of the same category', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbBudgetTemplate, error: null })
+
+      await budgetTemplatesService.upsert(mockSupabase, {
+        categoryId: 'cat-1',
+        amount: 1200,
+        period: 'yearly',
+        rollover: true,
+        startMonth: '2024-01',
+      })
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        {
+          user_id: 'test-user-id',
+          category_id: 'cat-1',
+          amount: 1200,
+          period: 'yearly',
+          rollover: true,
+          start_month: '2024-01',
+        },
+        { onConflict: 'user_id,category_id' }
+      )
+    })
+
+    it('throws error when user not authenticated', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.auth.getUser = vi.fn().mockResolvedValue({
+        data: { user: null },
+        error: null,
+      })
+
+      await expect(
+        budgetTemplatesService.upsert(mockSupabase, {
+          categoryId: 'cat-1',
+          amount: 500,
+          period: 'monthly',
+          rollover: false,
+          startMonth: '2024-01',
+        })
+      ).rejects.toThrow('User not authenticated')
+    })
+  })
+
+  describe('delete', () => {
+    it('deletes a template', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ error: null })
+
+      await budgetTemplatesService.delete(mockSupabase, 'tpl-1')
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('budget_templates')
+      expect(mockSupabase.mockChain.delete).toHaveBeenCalled()
+    })
+  })
+})
+
+describe('exchangeRatesService', () => {
+  describe('getAll', () => {
+    it('fetches rates with numeric values', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbExchangeRate], error: null })
+
+      const result = await exchangeRatesService.getAll(mockSupabase)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('exchange_rates')
+      expect(result).toEqual([
+        {
+          id: 'rate-1',
+          fromCurrency: 'USD',
+          toCurrency: 'BRL',
+          rate: 4.95,
+          date: '2024-01-15',
+          createdAt: '2024-01-15T10:00:00Z',
+        },
+      ])
+    })
+  })
+
+  describe('upsertMany', () => {
+    it('replaces rates of the same pair and date', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbExchangeRate], error: null })
+
+      await exchangeRatesService.upsertMany(mockSupabase, [
+        { fromCurrency: 'USD', toCurrency: 'BRL', rate: 4.95, date: '2024-01-15' },
+      ])
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        [
+          {
+            user_id: 'test-user-id',
+            from_currency: 'USD',
+            to_currency: 'BRL',
+            rate: 4.95,
+            date: '2024-01-15',
+          },
+        ],
+        { onConflict: 'user_id,from_currency,to_currency,date' }
+      )
+    })
+
+    it('skips the request when there is nothing to save', async () => {
+      const mockSupabase = createMockSupabase()
+
+      const result = await exchangeRatesService.upsertMany(mockSupabase, [])
+
+      expect(result).toEqual([])
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+})
+
 describe('goalsService', () => {
   describe('getAll', () => {
     it('fetches all goals with contributions', async () => {
@@ -734,6 +1679,23 @@ describe('goalsService', () => {
       expect(result.goal.currentAmount).toBe(10000)
     })
 
+    it('uses the given date for backdated contributions', async () => {
+      const backdated = { ...mockDbContribution, date: '2024-01-05' }
+
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbGoal, error: null }) // get current goal
+      mockSupabase.queueResult({ data: backdated, error: null }) // insert contribution
+      mockSupabase.queueResult({ data: mockDbGoal, error: null }) // update goal amount
+      mockSupabase.queueResult({ data: [backdated], error: null }) // get all contributions
+
+      const result = await goalsService.addContribution(mockSupabase, 'goal-1', 500, undefined, '2024-01-05')
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 500, date: '2024-01-05' })
+      )
+      expect(result.contribution.date).toBe('2024-01-05')
+    })
+
     it('throws error when user not authenticated', async () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.auth.getUser = vi.fn().mockResolvedValue({
@@ -746,4 +1708,251 @@ describe('goalsService', () => {
       ).rejects.toThrow('User not authenticated')
     })
   })
+
+  describe('syncAutoContributions', () => {
+    // Goals saved on the web carry the base currency explicitly
+    const plannedGoal = { ...mockDbGoal, currency: 'BRL', contribution_category_id: 'savings' }
+    const savings = {
+      ...mockDbTransaction,
+      id: 'txn-savings',
+      category_id: 'savings',
+      amount: '800.00',
+      description: 'Poupança',
+      date: '2024-02-05',
+    }
+
+    it('contributes new expenses in the contribution category once', async () => {
+      const linked = { ...mockDbContribution, transaction_id: 'txn-linked' }
+      const created = {
+        ...mockDbContribution,
+        id: 'contrib-2',
+        amount: '800.00',
+        transaction_id: 'txn-savings',
+      }
+
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [plannedGoal, mockDbGoal], error: null }) // goals
+      mockSupabase.queueResult({ data: [linked], error: null }) // contributions
+      mockSupabase.queueResult({
+        data: [savings, { ...savings, id: 'txn-linked' }],
+        error: null,
+      }) // expenses
+      mockSupabase.queueResult({ data: { currency: 'BRL' }, error: null }) // base currency
+      mockSupabase.queueResult({ data: [created], error: null }) // insert contributions
+      mockSupabase.queueResult({ data: null, error: null }) // update goal amount
+
+      const result = await goalsService.syncAutoContributions(
+        mockSupabase,
+        'user-2',
+        '2024-03-15'
+      )
+
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('user_id', 'user-2')
+      expect(mockSupabase.mockChain.in).toHaveBeenCalledWith('category_id', ['savings'])
+      expect(mockSupabase.mockChain.gte).toHaveBeenCalledWith('date', '2024-01-01')
+      expect(mockSupabase.mockChain.lte).toHaveBeenCalledWith('date', '2024-03-15')
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        [
+          {
+            goal_id: 'goal-1',
+            user_id: 'user-2',
+            amount: 800,
+            date: '2024-02-05',
+            note: 'Poupança',
+            transaction_id: 'txn-savings',
+          },
+        ],
+        { onConflict: 'goal_id,transaction_id', ignoreDuplicates: true }
+      )
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledWith({
+        current_amount: 3300,
+        completed_at: null,
+      })
+      expect(result).toEqual([
+        expect.objectContaining({ amount: 800, transactionId: 'txn-savings' }),
+      ])
+    })
+
+    it('does nothing when no goal has a contribution category', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbGoal], error: null })
+
+      const result = await goalsService.syncAutoContributions(mockSupabase, 'user-2', '2024-03-15')
+
+      expect(result).toEqual([])
+      expect(mockSupabase.mockChain.upsert).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('investmentAssetsService', () => {
+  describe('create', () => {
+    it('creates an asset held in an account', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbInvestmentAsset, error: null })
+
+      const result = await investmentAssetsService.create(mockSupabase, {
+        name: 'Petrobras',
+        ticker: 'PETR4',
+        type: 'stock',
+        accountId: 'broker-1',
+      })
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith({
+        user_id: 'test-user-id',
+        name: 'Petrobras',
+        ticker: 'PETR4',
+        type: 'stock',
+        currency: null,
+        account_id: 'broker-1',
+      })
+      expect(result.accountId).toBe('broker-1')
+      expect(result.currency).toBeUndefined()
+    })
+  })
+})
+
+describe('investmentPricesService', () => {
+  describe('upsert', () => {
+    it('replaces the price of the same day', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({
+        data: {
+          id: 'price-1',
+          user_id: 'test-user-id',
+          asset_id: 'asset-1',
+          price: '32.1',
+          date: '2024-02-01',
+          created_at: '2024-02-01T10:00:00Z',
+        },
+        error: null,
+      })
+
+      const result = await investmentPricesService.upsert(mockSupabase, 'asset-1', 32.1, '2024-02-01')
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        { user_id: 'test-user-id', asset_id: 'asset-1', price: 32.1, date: '2024-02-01' },
+        { onConflict: 'asset_id,date' }
+      )
+      expect(result.price).toBe(32.1)
+    })
+  })
+})
+
+describe('investmentEventsService', () => {
+  const buy = {
+    assetId: 'asset-1',
+    type: 'buy' as const,
+    date: '2024-01-10',
+    quantity: 100,
+    price: 30.5,
+    fees: 10,
+    amount: 3060,
+  }
+
+  describe('getAll', () => {
+    it('fetches events with numeric values', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbInvestmentEvent], error: null })
+
+      const [event] = await investmentEventsService.getAll(mockSupabase)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('investment_events')
+      expect(event).toMatchObject({ quantity: 100, price: 30.5, fees: 10, amount: 3060 })
+    })
+  })
+
+  describe('create', () => {
+    it('records the event alone by default', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbInvestmentEvent, error: null })
+
+      await investmentEventsService.create(mockSupabase, buy)
+
+      expect(mockSupabase.from).toHaveBeenCalledTimes(1)
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ asset_id: 'asset-1', transaction_id: null })
+      )
+    })
+
+    it('links the transfer that paid for a buy', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({
+        data: { ...mockDbTransaction, id: 'txn-buy', type: 'transfer' },
+        error: null,
+      })
+      mockSupabase.queueResult({
+        data: { ...mockDbInvestmentEvent, transaction_id: 'txn-buy' },
+        error: null,
+      })
+
+      const result = await investmentEventsService.create(mockSupabase, buy, {
+        asset: {
+          id: 'asset-1',
+          name: 'Petrobras',
+          type: 'stock',
+          accountId: 'broker-1',
+          createdAt: '2024-01-01T00:00:00Z',
+        },
+        accountId: 'checking-1',
+        description: 'PETR4',
+      })
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          type: 'transfer',
+          amount: 3060,
+          account_id: 'checking-1',
+          to_account_id: 'broker-1',
+        })
+      )
+      expect(mockSupabase.mockChain.insert).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ transaction_id: 'txn-buy' })
+      )
+      expect(result.transactionId).toBe('txn-buy')
+    })
+  })
+
+  describe('delete', () => {
+    it('deletes the transaction recorded with the event', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: { transaction_id: 'txn-buy' }, error: null })
+      mockSupabase.queueResult({ error: null }) // event
+      mockSupabase.queueResult({ data: { recurrence_parent_id: null }, error: null })
+      mockSupabase.queueResult({ error: null }) // transaction
+
+      await investmentEventsService.delete(mockSupabase, 'event-1')
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('transactions')
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('id', 'txn-buy')
+    })
+  })
+})
+
+describe('investmentSimulationsService', () => {
+  describe('getAll', () => {
+    it('fetches saved simulations', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbInvestmentSimulation], error: null })
+
+      const result = await investmentSimulationsService.getAll(mockSupabase)
+
+      expect(result).toEqual([
+        {
+          id: 'sim-1',
+          name: 'CDB 110%',
+          initialAmount: 1000,
+          monthlyContribution: 500,
+          annualRate: 110,
+          periodYears: 5,
+          compoundingFrequency: 'monthly',
+          yieldIndex: 'cdi',
+          indexRate: 10.65,
+          createdAt: '2024-01-01T00:00:00Z',
+        },
+      ])
+    })
+  })
 })
@@ -1,5 +1,6 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Achievement, UserStats, StreakData } from '@/types'
+import { completionsService } from '@/services/habits.service'
 
 // Database row types
 interface DbUserStats {
@@ -10,6 +11,7 @@ interface DbUserStats {
   tasks_completed: number
   current_streak: number
   longest_streak: number
+  freeze_tokens: number
   updated_at: string
 }
 
@@ -36,9 +38,13 @@ const LEVEL_THRESHOLDS = [
   5050, 6100, 7250, 8500, 9850, 11300, 12850, 14500, 16250, 18100,
 ]
 
+// Streak freezes: one is earned per level gained, up to a maximum in stock
+const MAX_FREEZE_TOKENS = 3
+
 // XP rewards
 const XP_REWARDS = {
   HABIT_COMPLETION: 10,
+  CLEAN_DAY: 5, // Each day an avoid habit stays within its limit
   TASK_COMPLETION: 15,
   ACHIEVEMENT_UNLOCK: 50,
 } as const
@@ -52,6 +58,11 @@ function calculateLevel(totalXp: number): number {
   return 1
 }
 
+function getFreezeTokens(current: DbUserStats | null, newLevel: number): number {
+  const levelsGained = Math.max(0, newLevel - (current?.level ?? 1))
+  return Math.min(MAX_FREEZE_TOKENS, (current?.freeze_tokens ?? 0) + levelsGained)
+}
+
 // Transform database row to frontend type
 function toUserStats(row: DbUserStats): UserStats {
   return {
@@ -61,6 +72,7 @@ function toUserStats(row: DbUserStats): UserStats {
     tasksCompleted: row.tasks_completed,
     currentStreak: row.current_streak,
     longestStreak: row.longest_streak,
+    freezeTokens: row.freeze_tokens ?? 0,
   }
 }
 
@@ -126,6 +138,7 @@ export const userStatsService = {
         tasks_completed: currentStats?.tasks_completed ?? 0,
         current_streak: currentStats?.current_streak ?? 0,
         longest_streak: currentStats?.longest_streak ?? 0,
+        freeze_tokens: getFreezeTokens(currentStats, newLevel),
       })
       .select()
       .single()
@@ -161,6 +174,7 @@ export const userStatsService = {
         tasks_completed: currentStats?.tasks_completed ?? 0,
         current_streak: currentStats?.current_streak ?? 0,
         longest_streak: currentStats?.longest_streak ?? 0,
+        freeze_tokens: getFreezeTokens(currentStats, newLevel),
       })
       .select()
       .single()
@@ -196,6 +210,7 @@ export const userStatsService = {
         tasks_completed: newTasksCompleted,
         current_streak: currentStats?.current_streak ?? 0,
         longest_streak: currentStats?.longest_streak ?? 0,
+        freeze_tokens: getFreezeTokens(currentStats, newLevel),
       })
       .select()
       .single()
@@ -337,69 +352,33 @@ export const habitStreaksService = {
     return toStreakData(data as DbHabitStreak)
   },
 
-  async updateStreak(
-    supabase: SupabaseClient,
-    habitId: string,
-    date: string
-  ): Promise<StreakData> {
+  async updateStreak(supabase: SupabaseClient, habitId: string): Promise<StreakData> {
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) throw new Error('User not authenticated')
 
-    // Get existing streak
-    const { data: existing } = await supabase
-      .from('habit_streaks')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('habit_id', habitId)
-      .single()
-
-    const existingStreak = existing as DbHabitStreak | null
-
-    // Calculate new streak
-    const completionDate = new Date(date)
-    const lastDate = existingStreak?.last_completed_date
-      ? new Date(existingStreak.last_completed_date)
-      : null
-
-    let newStreak = 1
-    if (lastDate) {
-      const diffDays = Math.floor(
-        (completionDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24)
-      )
-
-      if (diffDays === 1) {
-        // Consecutive day
-        newStreak = (existingStreak?.current_streak || 0) + 1
-      } else if (diffDays === 0) {
-        // Same day
-        newStreak = existingStreak?.current_streak || 1
-      }
-      // If diffDays > 1, streak breaks (newStreak stays 1)
-    }
-
-    const longestStreak = Math.max(newStreak, existingStreak?.longest_streak || 0)
+    // Recalculates from the completion history, freezes and vacations,
+    // and refreshes the global streaks in user_stats
+    await completionsService.updateStreak(supabase, habitId)
 
-    const { data, error } = await supabase
-      .from('habit_streaks')
-      .upsert({
-        user_id: user.id,
-        habit_id: habitId,
-        current_streak: newStreak,
-        longest_streak: longestStreak,
-        last_completed_date: date,
-      })
-      .select()
-      .single()
-
-    if (error) throw error
+    const streak = await this.getForHabit(supabase, habitId)
+    return streak ?? { habitId, currentStreak: 0, longestStreak: 0 }
+  },
 
-    // Update global streaks in user_stats
-    const allStreaks = await this.getAll(supabase)
-    const maxCurrentStreak = Math.max(...allStreaks.map((s) => s.currentStreak), 0)
-    const maxLongestStreak = Math.max(...allStreaks.map((s) => s.longestStreak), 0)
-    await userStatsService.updateStreaks(supabase, maxCurrentStreak, maxLongestStreak)
+  /**
+   * Refresh the clean streak of an avoid habit and award XP for the clean days
+   * gained since it was last stored. Avoid habits have nothing to complete, so
+   * this replaces incrementHabitsCompleted for them.
+   */
+  async claimCleanDays(supabase: SupabaseClient, habitId: string): Promise<StreakData> {
+    const previous = await this.getForHabit(supabase, habitId)
+    const streak = await this.updateStreak(supabase, habitId)
+
+    const cleanDaysGained = streak.currentStreak - (previous?.currentStreak ?? 0)
+    if (cleanDaysGained > 0) {
+      await userStatsService.addXp(supabase, cleanDaysGained * XP_REWARDS.CLEAN_DAY)
+    }
 
-    return toStreakData(data as DbHabitStreak)
+    return streak
   },
 }
 
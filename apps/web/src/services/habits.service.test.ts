@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { habitsService, completionsService } from './habits.service'
+import {
+  habitsService,
+  completionsService,
+  habitFreezesService,
+  vacationsService,
+} from './habits.service'
 import type { SupabaseClient } from '@supabase/supabase-js'
 
 // Type for mock chain with all Supabase query methods
@@ -13,8 +18,10 @@ interface MockChain {
   in: ReturnType<typeof vi.fn>
   is: ReturnType<typeof vi.fn>
   gte: ReturnType<typeof vi.fn>
+  lte: ReturnType<typeof vi.fn>
   order: ReturnType<typeof vi.fn>
   limit: ReturnType<typeof vi.fn>
+  range: ReturnType<typeof vi.fn>
   single: ReturnType<typeof vi.fn>
   then: ReturnType<typeof vi.fn>
   // Internal state for test result control
@@ -50,8 +57,10 @@ function createMockSupabase() {
   mockChain.in = vi.fn(() => mockChain)
   mockChain.is = vi.fn(() => mockChain)
   mockChain.gte = vi.fn(() => mockChain)
+  mockChain.lte = vi.fn(() => mockChain)
   mockChain.order = vi.fn(() => mockChain)
   mockChain.limit = vi.fn(() => mockChain)
+  mockChain.range = vi.fn(() => mockChain)
 
   // Single is terminal but still returns mockChain for thenable support
   mockChain.single = vi.fn(() => mockChain)
@@ -75,6 +84,7 @@ function createMockSupabase() {
       }),
     },
     from: vi.fn(() => mockChain),
+    rpc: vi.fn(() => mockChain),
     mockChain,
     queueResult,
     setDefaultResult: (result: { data?: unknown; error: unknown }) => {
@@ -118,6 +128,11 @@ const mockDbCompletion = {
   completed_at: '2024-01-15T10:00:00Z',
 }
 
+// Completion rows for the given dates
+function completionRows(...dates: string[]) {
+  return dates.map((date) => ({ ...mockDbCompletion, date }))
+}
+
 describe('habitsService', () => {
   describe('getAll', () => {
     it('fetches all habits with completions', async () => {
@@ -142,6 +157,16 @@ describe('habitsService', () => {
       expect(result[0].completions).toHaveLength(1)
     })
 
+    it('loads completions from the requested date', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbHabit], error: null })
+      mockSupabase.queueResult({ data: [], error: null })
+
+      await habitsService.getAll(mockSupabase, { completionsFrom: '2023-01-01' })
+
+      expect(mockSupabase.mockChain.gte).toHaveBeenCalledWith('date', '2023-01-01')
+    })
+
     it('returns empty array when no habits exist', async () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.queueResult({ data: [], error: null })
@@ -174,6 +199,20 @@ describe('habitsService', () => {
       expect(result?.title).toBe('Exercise')
     })
 
+    it('loads the whole history newest first, page by page', async () => {
+      const mockSupabase = createMockSupabase()
+      const fullPage = Array.from({ length: 1000 }, () => mockDbCompletion)
+      mockSupabase.queueResult({ data: mockDbHabit, error: null }) // habit query
+      mockSupabase.queueResult({ data: fullPage, error: null }) // first page
+      mockSupabase.queueResult({ data: completionRows('2021-06-01'), error: null }) // last page
+
+      const result = await habitsService.getById(mockSupabase, 'habit-1')
+
+      expect(mockSupabase.mockChain.order).toHaveBeenCalledWith('date', { ascending: false })
+      expect(mockSupabase.mockChain.range).toHaveBeenCalledWith(1000, 1999)
+      expect(result?.completions).toHaveLength(1001)
+    })
+
     it('returns null when habit not found', async () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.queueResult({ data: null, error: { code: 'PGRST116', message: 'Not found' } })
@@ -249,6 +288,37 @@ describe('habitsService', () => {
       })
     })
 
+    it('creates an avoid habit with its daily limit', async () => {
+      const avoidHabit = {
+        ...mockDbHabit,
+        tracking_type: 'avoid' as const,
+        tracking_target: 2,
+        tracking_unit: 'coffees',
+      }
+
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [], error: null }) // max order
+      mockSupabase.queueResult({ data: avoidHabit, error: null }) // insert habit
+      mockSupabase.queueResult({ error: null }) // insert streak
+
+      const result = await habitsService.create(mockSupabase, {
+        title: 'Max 2 coffees',
+        areaId: 'health',
+        frequency: { type: 'daily' },
+        tracking: { type: 'avoid', limit: 2, unit: 'coffees' },
+        color: '#ef4444',
+      })
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tracking_type: 'avoid',
+          tracking_target: 2,
+          tracking_unit: 'coffees',
+        })
+      )
+      expect(result.tracking).toEqual({ type: 'avoid', limit: 2, unit: 'coffees' })
+    })
+
     it('creates a habit with weekly frequency', async () => {
       const weeklyHabit = {
         ...mockDbHabit,
@@ -451,7 +521,10 @@ describe('completionsService', () => {
       // Queue results in order
       mockSupabase.queueResult({ data: null, error: { code: 'PGRST116' } }) // check exists
       mockSupabase.queueResult({ data: mockDbCompletion, error: null }) // insert completion
-      mockSupabase.queueResult({ data: [{ date: '2024-01-15' }], error: null }) // get completions for streak
+      mockSupabase.queueResult({ data: mockDbHabit, error: null }) // get habit for streak
+      mockSupabase.queueResult({ data: completionRows('2024-01-15'), error: null }) // get completions for streak
+      mockSupabase.queueResult({ data: [], error: null }) // freezes
+      mockSupabase.queueResult({ data: [], error: null }) // vacations
       mockSupabase.queueResult({ data: { longest_streak: 5 }, error: null }) // get current streak
       mockSupabase.queueResult({ error: null }) // upsert streak
       mockSupabase.queueResult({ data: [{ current_streak: 5, longest_streak: 10 }], error: null }) // all streaks
@@ -469,6 +542,7 @@ describe('completionsService', () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.queueResult({ data: mockDbCompletion, error: null }) // check exists
       mockSupabase.queueResult({ error: null }) // delete completion
+      mockSupabase.queueResult({ data: mockDbHabit, error: null }) // get habit for streak
       mockSupabase.queueResult({ data: [], error: null }) // get completions for streak
       mockSupabase.queueResult({ error: null }) // upsert streak
       mockSupabase.queueResult({ data: [], error: null }) // all streaks
@@ -501,7 +575,10 @@ describe('completionsService', () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.queueResult({ data: mockDbCompletion, error: null }) // check exists
       mockSupabase.queueResult({ data: updatedCompletion, error: null }) // update completion
-      mockSupabase.queueResult({ data: [{ date: '2024-01-15' }], error: null }) // get completions for streak
+      mockSupabase.queueResult({ data: mockDbHabit, error: null }) // get habit for streak
+      mockSupabase.queueResult({ data: completionRows('2024-01-15'), error: null }) // get completions for streak
+      mockSupabase.queueResult({ data: [], error: null }) // freezes
+      mockSupabase.queueResult({ data: [], error: null }) // vacations
       mockSupabase.queueResult({ data: { longest_streak: 1 }, error: null }) // get current streak
       mockSupabase.queueResult({ error: null }) // upsert streak
       mockSupabase.queueResult({ data: [{ current_streak: 1, longest_streak: 1 }], error: null }) // all streaks
@@ -524,7 +601,10 @@ describe('completionsService', () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.queueResult({ data: null, error: { code: 'PGRST116' } }) // check exists
       mockSupabase.queueResult({ data: newCompletion, error: null }) // insert completion
-      mockSupabase.queueResult({ data: [{ date: '2024-01-15' }], error: null }) // get completions for streak
+      mockSupabase.queueResult({ data: mockDbHabit, error: null }) // get habit for streak
+      mockSupabase.queueResult({ data: completionRows('2024-01-15'), error: null }) // get completions for streak
+      mockSupabase.queueResult({ data: [], error: null }) // freezes
+      mockSupabase.queueResult({ data: [], error: null }) // vacations
       mockSupabase.queueResult({ data: null, error: null }) // get current streak (none)
       mockSupabase.queueResult({ error: null }) // upsert streak
       mockSupabase.queueResult({ data: [{ current_streak: 1, longest_streak: 1 }], error: null }) // all streaks
@@ -542,10 +622,43 @@ describe('completionsService', () => {
     })
   })
 
+  describe('logRelapse', () => {
+    it('adds to the amount already logged that day', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2024-01-15T12:00:00'))
+      const avoidHabit = { ...mockDbHabit, tracking_type: 'avoid' as const, tracking_target: 2 }
+
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: { value: 2 }, error: null }) // logged so far
+      mockSupabase.queueResult({ data: mockDbCompletion, error: null }) // check exists
+      mockSupabase.queueResult({ data: { ...mockDbCompletion, value: 3 }, error: null }) // update
+      mockSupabase.queueResult({ data: avoidHabit, error: null }) // get habit for streak
+      mockSupabase.queueResult({ data: [{ ...mockDbCompletion, value: 3 }], error: null }) // get completions for streak
+      mockSupabase.queueResult({ data: [], error: null }) // freezes
+      mockSupabase.queueResult({ data: [], error: null }) // vacations
+      mockSupabase.queueResult({ data: { longest_streak: 14 }, error: null }) // current streak
+      mockSupabase.queueResult({ error: null }) // upsert streak
+      mockSupabase.queueResult({ data: [], error: null }) // all streaks
+      mockSupabase.queueResult({ data: null, error: null }) // user stats
+      mockSupabase.queueResult({ error: null }) // upsert user stats
+
+      const result = await completionsService.logRelapse(mockSupabase, 'habit-1', '2024-01-15')
+      vi.useRealTimers()
+
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledWith({ value: 3 })
+      expect(result.completion.value).toBe(3)
+      // Over the limit today, so the clean streak restarts
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ current_streak: 0, longest_streak: 14 })
+      )
+    })
+  })
+
   describe('removeCompletion', () => {
     it('removes a completion by habit and date', async () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.queueResult({ error: null }) // delete
+      mockSupabase.queueResult({ data: mockDbHabit, error: null }) // get habit for streak
       mockSupabase.queueResult({ data: [], error: null }) // get completions for streak
       mockSupabase.queueResult({ error: null }) // upsert streak
       mockSupabase.queueResult({ data: [], error: null }) // all streaks
@@ -559,6 +672,40 @@ describe('completionsService', () => {
     })
   })
 
+  describe('importCompletions', () => {
+    it('bulk upserts completions and recomputes the streak once', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ error: null }) // bulk upsert
+      mockSupabase.queueResult({ data: mockDbHabit, error: null }) // get habit for streak
+      mockSupabase.queueResult({ data: [], error: null }) // get completions for streak
+      mockSupabase.queueResult({ error: null }) // upsert streak
+      mockSupabase.queueResult({ data: [], error: null }) // all streaks
+      mockSupabase.queueResult({ data: null, error: null }) // user stats
+      mockSupabase.queueResult({ error: null }) // upsert user stats
+
+      await completionsService.importCompletions(mockSupabase, 'habit-1', [
+        { date: '2024-01-14', value: 1, completedAt: '2024-01-14T10:00:00Z' },
+        { date: '2024-01-15', value: 1, completedAt: '2024-01-15T10:00:00Z' },
+      ])
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ habit_id: 'habit-1', date: '2024-01-14', user_id: 'test-user-id' }),
+          expect.objectContaining({ habit_id: 'habit-1', date: '2024-01-15', user_id: 'test-user-id' }),
+        ],
+        { onConflict: 'habit_id,date' }
+      )
+    })
+
+    it('does nothing when there are no completions', async () => {
+      const mockSupabase = createMockSupabase()
+
+      await completionsService.importCompletions(mockSupabase, 'habit-1', [])
+
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+
   describe('getStreaks', () => {
     it('returns map of habit streaks', async () => {
       const mockStreaks = [
@@ -585,6 +732,84 @@ describe('completionsService', () => {
     })
   })
 
+  describe('getRange', () => {
+    it('fetches completions between two dates', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: completionRows('2023-03-01', '2023-03-02'), error: null })
+
+      const result = await completionsService.getRange(mockSupabase, 'habit-1', '2023-01-01', '2023-12-31')
+
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('habit_id', 'habit-1')
+      expect(mockSupabase.mockChain.gte).toHaveBeenCalledWith('date', '2023-01-01')
+      expect(mockSupabase.mockChain.lte).toHaveBeenCalledWith('date', '2023-12-31')
+      expect(result.map((c) => c.date)).toEqual(['2023-03-01', '2023-03-02'])
+    })
+
+    it('keeps fetching while pages are full', async () => {
+      const mockSupabase = createMockSupabase()
+      const fullPage = Array.from({ length: 1000 }, () => mockDbCompletion)
+      mockSupabase.queueResult({ data: fullPage, error: null })
+      mockSupabase.queueResult({ data: completionRows('2024-01-16'), error: null })
+
+      const result = await completionsService.getRange(mockSupabase, 'habit-1', '2020-01-01', '2024-01-16')
+
+      expect(mockSupabase.mockChain.range).toHaveBeenCalledWith(0, 999)
+      expect(mockSupabase.mockChain.range).toHaveBeenCalledWith(1000, 1999)
+      expect(result).toHaveLength(1001)
+    })
+  })
+
+  describe('getSummary', () => {
+    const mockDbSummary = {
+      habit_id: 'habit-1',
+      user_id: 'test-user-id',
+      total_completions: 420,
+      first_completion: '2022-05-01',
+      last_completion: '2024-01-15',
+      current_streak: 4,
+      longest_streak: 60,
+    }
+
+    it('returns the lifetime summary of a habit', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbSummary, error: null })
+
+      const result = await completionsService.getSummary(mockSupabase, 'habit-1')
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('habit_summaries')
+      expect(result).toEqual({
+        habitId: 'habit-1',
+        totalCompletions: 420,
+        firstCompletion: '2022-05-01',
+        lastCompletion: '2024-01-15',
+        currentStreak: 4,
+        longestStreak: 60,
+      })
+    })
+
+    it('returns null when the habit does not exist', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: null, error: { code: 'PGRST116' } })
+
+      const result = await completionsService.getSummary(mockSupabase, 'missing')
+
+      expect(result).toBeNull()
+    })
+
+    it('returns summaries for every habit', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({
+        data: [mockDbSummary, { ...mockDbSummary, habit_id: 'habit-2', first_completion: null, last_completion: null }],
+        error: null,
+      })
+
+      const result = await completionsService.getSummaries(mockSupabase)
+
+      expect(result).toHaveLength(2)
+      expect(result[1].firstCompletion).toBeUndefined()
+    })
+  })
+
   describe('updateStreak', () => {
     it('calculates correct streak for consecutive days', async () => {
       const mockSupabase = createMockSupabase()
@@ -595,7 +820,10 @@ describe('completionsService', () => {
       const twoDaysAgo = new Date(Date.now() - 2 * 86400000).toISOString().split('T')[0]
 
       // Queue results
-      mockSupabase.queueResult({ data: [{ date: today }, { date: yesterday }, { date: twoDaysAgo }], error: null }) // completions
+      mockSupabase.queueResult({ data: mockDbHabit, error: null }) // get habit for streak
+      mockSupabase.queueResult({ data: completionRows(today, yesterday, twoDaysAgo), error: null }) // get completions for streak
+      mockSupabase.queueResult({ data: [], error: null }) // freezes
+      mockSupabase.queueResult({ data: [], error: null }) // vacations
       mockSupabase.queueResult({ data: { longest_streak: 2 }, error: null }) // current streak
       mockSupabase.queueResult({ error: null }) // upsert streak
       mockSupabase.queueResult({ data: [{ current_streak: 3, longest_streak: 3 }], error: null }) // all streaks
@@ -606,12 +834,97 @@ describe('completionsService', () => {
 
       // Verify upsert was called
       expect(mockSupabase.from).toHaveBeenCalledWith('habit_streaks')
-      expect(mockSupabase.mockChain.upsert).toHaveBeenCalled()
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ current_streak: 3, longest_streak: 3, last_completed_date: today })
+      )
+    })
+
+    it('counts completions within the interval for interval habits', async () => {
+      const mockSupabase = createMockSupabase()
+      const daysAgo = (n: number) => new Date(Date.now() - n * 86400000).toISOString().split('T')[0]
+
+      // Every 3 days: gaps of 2 and 3 days keep the streak, a 5-day gap breaks it
+      mockSupabase.queueResult({
+        data: { ...mockDbHabit, frequency_type: 'interval', frequency_data: { everyDays: 3 } },
+        error: null,
+      }) // get habit for streak
+      mockSupabase.queueResult({
+        data: completionRows(daysAgo(2), daysAgo(4), daysAgo(7), daysAgo(12)),
+        error: null,
+      }) // get completions for streak
+      mockSupabase.queueResult({ data: [], error: null }) // freezes
+      mockSupabase.queueResult({ data: [], error: null }) // vacations
+      mockSupabase.queueResult({ data: { longest_streak: 1 }, error: null }) // current streak
+      mockSupabase.queueResult({ error: null }) // upsert streak
+      mockSupabase.queueResult({ data: [], error: null }) // all streaks
+      mockSupabase.queueResult({ data: null, error: null }) // user stats
+      mockSupabase.queueResult({ error: null }) // upsert user stats
+
+      await completionsService.updateStreak(mockSupabase, 'habit-1')
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ current_streak: 3, longest_streak: 3 })
+      )
+    })
+
+    it('resets interval streak once the interval has passed', async () => {
+      const mockSupabase = createMockSupabase()
+      const daysAgo = (n: number) => new Date(Date.now() - n * 86400000).toISOString().split('T')[0]
+
+      mockSupabase.queueResult({
+        data: { ...mockDbHabit, frequency_type: 'interval', frequency_data: { everyDays: 3 } },
+        error: null,
+      }) // get habit for streak
+      mockSupabase.queueResult({ data: completionRows(daysAgo(4), daysAgo(6)), error: null }) // get completions for streak
+      mockSupabase.queueResult({ data: [], error: null }) // freezes
+      mockSupabase.queueResult({ data: [], error: null }) // vacations
+      mockSupabase.queueResult({ data: { longest_streak: 2 }, error: null }) // current streak
+      mockSupabase.queueResult({ error: null }) // upsert streak
+      mockSupabase.queueResult({ data: [], error: null }) // all streaks
+      mockSupabase.queueResult({ data: null, error: null }) // user stats
+      mockSupabase.queueResult({ error: null }) // upsert user stats
+
+      await completionsService.updateStreak(mockSupabase, 'habit-1')
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ current_streak: 0, longest_streak: 2 })
+      )
+    })
+
+    it('counts consecutive months for nthWeekday habits', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2024-03-20T12:00:00Z'))
+      const mockSupabase = createMockSupabase()
+
+      // 2nd Tuesday: Mar 12, Feb 13, Jan 9 done; Dec 12 missed
+      mockSupabase.queueResult({
+        data: { ...mockDbHabit, frequency_type: 'nthWeekday', frequency_data: { week: 2, weekday: 2 } },
+        error: null,
+      }) // get habit for streak
+      mockSupabase.queueResult({
+        data: completionRows('2024-03-12', '2024-02-13', '2024-01-09', '2023-11-14'),
+        error: null,
+      }) // get completions for streak
+      mockSupabase.queueResult({ data: [], error: null }) // freezes
+      mockSupabase.queueResult({ data: [], error: null }) // vacations
+      mockSupabase.queueResult({ data: { longest_streak: 1 }, error: null }) // current streak
+      mockSupabase.queueResult({ error: null }) // upsert streak
+      mockSupabase.queueResult({ data: [], error: null }) // all streaks
+      mockSupabase.queueResult({ data: null, error: null }) // user stats
+      mockSupabase.queueResult({ error: null }) // upsert user stats
+
+      await completionsService.updateStreak(mockSupabase, 'habit-1')
+      vi.useRealTimers()
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ current_streak: 3, longest_streak: 3 })
+      )
     })
 
     it('resets streak when no completions', async () => {
       const mockSupabase = createMockSupabase()
 
+      mockSupabase.queueResult({ data: mockDbHabit, error: null }) // get habit for streak
       mockSupabase.queueResult({ data: [], error: null }) // no completions
       mockSupabase.queueResult({ error: null }) // upsert streak
       mockSupabase.queueResult({ data: [], error: null }) // all streaks
@@ -628,5 +941,185 @@ describe('completionsService', () => {
         })
       )
     })
+
+    it('counts clean days for an avoid habit with nothing logged', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2024-01-11T12:00:00'))
+      const avoidHabit = { ...mockDbHabit, tracking_type: 'avoid' as const, tracking_target: 0 }
+
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: avoidHabit, error: null }) // get habit for streak
+      mockSupabase.queueResult({ data: [], error: null }) // no relapses
+      mockSupabase.queueResult({ data: [], error: null }) // freezes
+      mockSupabase.queueResult({ data: [], error: null }) // vacations
+      mockSupabase.queueResult({ data: null, error: null }) // current streak
+      mockSupabase.queueResult({ error: null }) // upsert streak
+      mockSupabase.queueResult({ data: [], error: null }) // all streaks
+      mockSupabase.queueResult({ data: null, error: null }) // user stats
+      mockSupabase.queueResult({ error: null }) // upsert user stats
+
+      await completionsService.updateStreak(mockSupabase, 'habit-1')
+      vi.useRealTimers()
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ current_streak: 10, longest_streak: 10 })
+      )
+    })
+  })
+})
+
+describe('habitFreezesService', () => {
+  describe('getByHabit', () => {
+    it('returns the freezes of a habit', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({
+        data: [{ id: 'freeze-1', user_id: 'test-user-id', habit_id: 'habit-1', date: '2024-01-14', created_at: '2024-01-15T08:00:00Z' }],
+        error: null,
+      })
+
+      const result = await habitFreezesService.getByHabit(mockSupabase, 'habit-1')
+
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('habit_id', 'habit-1')
+      expect(result).toEqual([
+        { id: 'freeze-1', habitId: 'habit-1', date: '2024-01-14', createdAt: '2024-01-15T08:00:00Z' },
+      ])
+    })
+  })
+
+  describe('spend', () => {
+    it('uses a token and recomputes the streak with the frozen day', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2024-01-16T12:00:00'))
+      const mockSupabase = createMockSupabase()
+      const freezeRow = { id: 'freeze-1', user_id: 'test-user-id', habit_id: 'habit-1', date: '2024-01-15', created_at: '2024-01-16T08:00:00Z' }
+
+      mockSupabase.queueResult({ data: [freezeRow], error: null }) // spend token and insert freeze
+      mockSupabase.queueResult({ data: mockDbHabit, error: null }) // get habit for streak
+      mockSupabase.queueResult({ data: completionRows('2024-01-13', '2024-01-14', '2024-01-16'), error: null }) // get completions for streak
+      mockSupabase.queueResult({ data: [{ date: '2024-01-15' }], error: null }) // freezes
+      mockSupabase.queueResult({ data: [], error: null }) // vacations
+      mockSupabase.queueResult({ data: { longest_streak: 2 }, error: null }) // current streak
+      mockSupabase.queueResult({ error: null }) // upsert streak
+      mockSupabase.queueResult({ data: [], error: null }) // all streaks
+      mockSupabase.queueResult({ data: null, error: null }) // user stats
+      mockSupabase.queueResult({ error: null }) // upsert user stats
+
+      const result = await habitFreezesService.spend(mockSupabase, 'habit-1', '2024-01-15')
+      vi.useRealTimers()
+
+      expect(result.date).toBe('2024-01-15')
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('spend_habit_freeze', {
+        freeze_habit_id: 'habit-1',
+        freeze_date: '2024-01-15',
+      })
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ current_streak: 3, longest_streak: 3 })
+      )
+    })
+
+    it('throws when no tokens are left', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [], error: null }) // no token to spend
+
+      await expect(
+        habitFreezesService.spend(mockSupabase, 'habit-1', '2024-01-15')
+      ).rejects.toThrow('No streak freezes available')
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('importFreezes', () => {
+    it('inserts the freezes without spending tokens', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ error: null })
+
+      await habitFreezesService.importFreezes(mockSupabase, [
+        { habitId: 'habit-1', date: '2024-01-14' },
+        { habitId: 'habit-2', date: '2024-01-15' },
+      ])
+
+      expect(mockSupabase.rpc).not.toHaveBeenCalled()
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        [
+          { user_id: 'test-user-id', habit_id: 'habit-1', date: '2024-01-14' },
+          { user_id: 'test-user-id', habit_id: 'habit-2', date: '2024-01-15' },
+        ],
+        { onConflict: 'habit_id,date', ignoreDuplicates: true }
+      )
+    })
+
+    it('does nothing without freezes', async () => {
+      const mockSupabase = createMockSupabase()
+
+      await habitFreezesService.importFreezes(mockSupabase, [])
+
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('vacationsService', () => {
+  const mockDbVacation = {
+    id: 'vacation-1',
+    user_id: 'test-user-id',
+    start_date: '2024-07-01',
+    end_date: '2024-07-14',
+    note: 'Beach',
+    created_at: '2024-06-01T10:00:00Z',
+  }
+
+  describe('getAll', () => {
+    it('returns vacations', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbVacation], error: null })
+
+      const result = await vacationsService.getAll(mockSupabase)
+
+      expect(result).toEqual([
+        { id: 'vacation-1', startDate: '2024-07-01', endDate: '2024-07-14', note: 'Beach', createdAt: '2024-06-01T10:00:00Z' },
+      ])
+    })
+  })
+
+  describe('create', () => {
+    it('creates a vacation', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbVacation, error: null })
+
+      const result = await vacationsService.create(mockSupabase, {
+        startDate: '2024-07-01',
+        endDate: '2024-07-14',
+        note: 'Beach',
+      })
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith({
+        user_id: 'test-user-id',
+        start_date: '2024-07-01',
+        end_date: '2024-07-14',
+        note: 'Beach',
+      })
+      expect(result.id).toBe('vacation-1')
+    })
+
+    it('rejects a range that ends before it starts', async () => {
+      const mockSupabase = createMockSupabase()
+
+      await expect(
+        vacationsService.create(mockSupabase, { startDate: '2024-07-14', endDate: '2024-07-01' })
+      ).rejects.toThrow('Vacation end date must not be before its start date')
+    })
+  })
+
+  describe('delete', () => {
+    it('deletes a vacation', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ error: null })
+
+      await vacationsService.delete(mockSupabase, 'vacation-1')
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('vacations')
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('id', 'vacation-1')
+    })
   })
 })
+
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { notebooksService } from './notebooks.service'
 import type { SupabaseClient } from '@supabase/supabase-js'
+import type { NotebookPage } from '@/types'
 
 // Mock Supabase client factory
 function createMockSupabase(overrides: Record<string, unknown> = {}) {
@@ -10,6 +11,7 @@ function createMockSupabase(overrides: Record<string, unknown> = {}) {
     update: vi.fn().mockReturnThis(),
     delete: vi.fn().mockReturnThis(),
     eq: vi.fn().mockReturnThis(),
+    or: vi.fn().mockReturnThis(),
     single: vi.fn().mockResolvedValue({ data: null, error: null }),
     order: vi.fn().mockReturnThis(),
     limit: vi.fn().mockReturnThis(),
@@ -371,4 +373,287 @@ describe('notebooksService', () => {
       ).rejects.toEqual({ message: 'Reorder failed' })
     })
   })
+
+  describe('updatePage', () => {
+    const mockUpdatedData = {
+      id: 'page-1',
+      notebook_id: 'notebook-1',
+      user_id: 'test-user-id',
+      title: 'Limites',
+      content: [],
+      order: 0,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-02T00:00:00Z',
+    }
+
+    it('should rebuild the links index and the flashcards when the content changes', async () => {
+      const mockSupabase = createMockSupabase()
+      // Page as it was, then the updated page
+      mockSupabase.mockChain.single
+        .mockResolvedValueOnce({ data: mockUpdatedData, error: null })
+        .mockResolvedValueOnce({ data: mockUpdatedData, error: null })
+
+      await notebooksService.updatePage(mockSupabase, 'page-1', { content: [] })
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('page_links')
+      expect(mockSupabase.from).toHaveBeenCalledWith('flashcards')
+      expect(mockSupabase.mockChain.delete).toHaveBeenCalled()
+    })
+
+    it('should keep the links index and the flashcards when only the title changes', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.mockChain.single.mockResolvedValueOnce({ data: mockUpdatedData, error: null })
+
+      await notebooksService.updatePage(mockSupabase, 'page-1', { title: 'Limites' })
+
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('page_links')
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('flashcards')
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('page_revisions')
+    })
+
+    it('should offer the page as it was for a revision before replacing its content', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.mockChain.single
+        .mockResolvedValueOnce({ data: mockUpdatedData, error: null })
+        .mockResolvedValueOnce({ data: mockUpdatedData, error: null })
+      const capture = vi
+        .spyOn(notebooksService, 'capturePageRevision')
+        .mockResolvedValueOnce(false)
+
+      await notebooksService.updatePage(mockSupabase, 'page-1', { content: [] }, { forceRevision: true })
+
+      expect(capture).toHaveBeenCalledWith(
+        mockSupabase,
+        expect.objectContaining({ id: 'page-1', title: 'Limites' }),
+        [],
+        { force: true }
+      )
+      capture.mockRestore()
+    })
+  })
+
+  describe('page revisions', () => {
+    const page: NotebookPage = {
+      id: 'page-1',
+      notebookId: 'notebook-1',
+      userId: 'test-user-id',
+      title: 'Limites',
+      content: [
+        {
+          id: 'block-1',
+          type: 'paragraph',
+          props: { textColor: 'default', backgroundColor: 'default', textAlignment: 'left' },
+          content: [{ type: 'text', text: 'Limite de sen(x)/x em 0 é 1', styles: {} }],
+          children: [],
+        },
+      ],
+      order: 0,
+      createdAt: '2026-10-01T00:00:00Z',
+      updatedAt: '2026-10-18T11:00:00Z',
+    }
+    const now = new Date('2026-10-18T12:00:00Z')
+
+    it('should keep the page as it was and prune old revisions', async () => {
+      const deleteIn = vi.fn().mockResolvedValue({ error: null })
+      const mockSupabase = createMockSupabase({ in: deleteIn })
+      mockSupabase.mockChain.order.mockResolvedValueOnce({
+        data: [
+          { id: 'revision-2', created_at: '2026-10-18T11:00:00Z' },
+          { id: 'revision-1', created_at: '2026-08-01T10:00:00Z' },
+        ],
+        error: null,
+      })
+      mockSupabase.mockChain.single.mockResolvedValueOnce({
+        data: { id: 'revision-3', created_at: '2026-10-18T12:00:00Z' },
+        error: null,
+      })
+
+      const captured = await notebooksService.capturePageRevision(mockSupabase, page, [], { now })
+
+      expect(captured).toBe(true)
+      expect(mockSupabase.from).toHaveBeenCalledWith('page_revisions')
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith({
+        user_id: 'test-user-id',
+        page_id: 'page-1',
+        title: 'Limites',
+        content: page.content,
+      })
+      expect(deleteIn).toHaveBeenCalledWith('id', ['revision-1'])
+    })
+
+    it('should wait for the interval while the page is edited', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.mockChain.order.mockResolvedValueOnce({
+        data: [{ id: 'revision-1', created_at: '2026-10-18T11:55:00Z' }],
+        error: null,
+      })
+
+      const captured = await notebooksService.capturePageRevision(
+        mockSupabase,
+        page,
+        [
+          {
+            id: 'block-1',
+            type: 'paragraph',
+            props: { textColor: 'default', backgroundColor: 'default', textAlignment: 'left' },
+            content: [{ type: 'text', text: 'Limite de sen(x)/x em 0 é 1 por L\'Hôpital', styles: {} }],
+            children: [],
+          },
+        ],
+        { now }
+      )
+
+      expect(captured).toBe(false)
+      expect(mockSupabase.mockChain.insert).not.toHaveBeenCalled()
+    })
+
+    it('should restore a revision keeping the current page as a revision', async () => {
+      const mockSupabase = createMockSupabase()
+      const updatePage = vi.spyOn(notebooksService, 'updatePage').mockResolvedValueOnce(page)
+
+      await notebooksService.restorePageRevision(mockSupabase, {
+        id: 'revision-1',
+        pageId: 'page-1',
+        title: 'Limites',
+        content: page.content,
+        createdAt: '2026-10-18T10:00:00Z',
+      })
+
+      expect(updatePage).toHaveBeenCalledWith(
+        mockSupabase,
+        'page-1',
+        { title: 'Limites', content: page.content },
+        { forceRevision: true }
+      )
+      updatePage.mockRestore()
+    })
+  })
+
+  describe('syncPageLinks', () => {
+    it('should link the pages, tasks, habits and projects the content refers to', async () => {
+      const mockSupabase = createMockSupabase()
+      // Candidate pages, then candidate tasks
+      mockSupabase.mockChain.or
+        .mockResolvedValueOnce({
+          data: [
+            { id: 'page-2', title: 'Derivadas' },
+            { id: 'page-3', title: 'Integrais' },
+          ],
+          error: null,
+        })
+        .mockResolvedValueOnce({ data: [{ id: 'task-1', title: 'Lista 3 ' }], error: null })
+      mockSupabase.mockChain.eq.mockResolvedValueOnce({ error: null })
+      mockSupabase.mockChain.insert.mockResolvedValueOnce({ error: null })
+
+      await notebooksService.syncPageLinks(mockSupabase, {
+        id: 'page-1',
+        notebookId: 'notebook-1',
+        userId: 'test-user-id',
+        title: 'Limites',
+        content: [
+          {
+            id: 'block-1',
+            type: 'paragraph',
+            props: { textColor: 'default', backgroundColor: 'default', textAlignment: 'left' },
+            content: [
+              { type: 'text', text: 'Antes de [[derivadas]], faça @task[Lista 3]', styles: {} },
+            ],
+            children: [],
+          },
+        ],
+        order: 0,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      })
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('notebook_pages')
+      expect(mockSupabase.from).toHaveBeenCalledWith('tasks')
+      expect(mockSupabase.mockChain.or).toHaveBeenCalledWith('title.ilike."derivadas"')
+      expect(mockSupabase.mockChain.or).toHaveBeenCalledWith('title.ilike."lista 3"')
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('page_id', 'page-1')
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith([
+        { user_id: 'test-user-id', page_id: 'page-1', target_type: 'page', target_id: 'page-2' },
+        { user_id: 'test-user-id', page_id: 'page-1', target_type: 'task', target_id: 'task-1' },
+      ])
+    })
+
+    it('should match titles literally', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.mockChain.or.mockResolvedValueOnce({ data: [], error: null })
+      mockSupabase.mockChain.eq.mockResolvedValueOnce({ error: null })
+
+      await notebooksService.syncPageLinks(mockSupabase, {
+        id: 'page-1',
+        notebookId: 'notebook-1',
+        userId: 'test-user-id',
+        title: 'Limites',
+        content: [
+          {
+            id: 'block-1',
+            type: 'paragraph',
+            props: { textColor: 'default', backgroundColor: 'default', textAlignment: 'left' },
+            content: [{ type: 'text', text: 'Revisar @task[50% (cap_1), "b"]', styles: {} }],
+            children: [],
+          },
+        ],
+        order: 0,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      })
+
+      expect(mockSupabase.mockChain.or).toHaveBeenCalledWith(
+        'title.ilike."50\\\\% (cap\\\\_1), \\"b\\""'
+      )
+      expect(mockSupabase.mockChain.insert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getBacklinks', () => {
+    it('should list the pages linking to the target, most recently edited first', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.mockChain.eq.mockReturnValueOnce(mockSupabase.mockChain).mockResolvedValueOnce({
+        data: [
+          {
+            page_id: 'page-1',
+            notebook_pages: {
+              id: 'page-1',
+              notebook_id: 'notebook-1',
+              title: 'Limites',
+              updated_at: '2024-01-01T00:00:00Z',
+            },
+          },
+          {
+            page_id: 'page-2',
+            notebook_pages: {
+              id: 'page-2',
+              notebook_id: 'notebook-2',
+              title: 'Revisão',
+              updated_at: '2024-02-01T00:00:00Z',
+            },
+          },
+        ],
+        error: null,
+      })
+
+      const result = await notebooksService.getBacklinks(mockSupabase, 'habit', 'habit-1')
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('page_links')
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('target_type', 'habit')
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('target_id', 'habit-1')
+      expect(result).toEqual([
+        {
+          pageId: 'page-2',
+          notebookId: 'notebook-2',
+          title: 'Revisão',
+          updatedAt: '2024-02-01T00:00:00Z',
+        },
+        {
+          pageId: 'page-1',
+          notebookId: 'notebook-1',
+          title: 'Limites',
+          updatedAt: '2024-01-01T00:00:00Z',
+        },
+      ])
+    })
+  })
 })
@@ -10,8 +10,16 @@ import type {
   UpdateNotebookData,
   CreatePageData,
   UpdatePageData,
+  NoteBlock,
+  PageBacklink,
+  PageLinkTargetType,
+  PageRevision,
 } from '@/types'
 import type { Block } from '@blocknote/core'
+import { extractNoteReferences } from '@/lib/links'
+import { blocksToMarkdown } from '@/lib/markdown'
+import { shouldCaptureRevision, getRevisionsToPrune } from '@/lib/page-revisions'
+import { flashcardsService } from '@/services/flashcards.service'
 
 // Database row types
 interface DbNotebook {
@@ -37,6 +45,47 @@ interface DbNotebookPage {
   updated_at: string
 }
 
+interface DbPageLink {
+  user_id: string
+  page_id: string
+  target_type: PageLinkTargetType
+  target_id: string
+}
+
+interface DbPageRevision {
+  id: string
+  user_id: string
+  page_id: string
+  title: string
+  content: unknown
+  created_at: string
+}
+
+interface DbPageBacklink {
+  page_id: string
+  notebook_pages: Pick<DbNotebookPage, 'id' | 'notebook_id' | 'title' | 'updated_at'>
+}
+
+// Tables that [[page]] links and @task/@habit/@project mentions resolve against
+const LINK_TARGET_TABLES: Record<PageLinkTargetType, string> = {
+  page: 'notebook_pages',
+  task: 'tasks',
+  habit: 'habits',
+  project: 'projects',
+}
+
+// PostgREST or() filter on rows whose title is one of `titles`, ignoring
+// case. LIKE wildcards are escaped so titles match literally, then every
+// value is quoted since titles may contain commas or parentheses
+function titleFilter(titles: string[]): string {
+  return titles
+    .map((title) => {
+      const pattern = title.replace(/[\\%_]/g, '\\$&').replace(/["\\]/g, '\\$&')
+      return `title.ilike."${pattern}"`
+    })
+    .join(',')
+}
+
 // Transform database row to frontend type
 function toNotebook(row: DbNotebook): Notebook {
   return {
@@ -65,6 +114,16 @@ function toNotebookPage(row: DbNotebookPage): NotebookPage {
   }
 }
 
+function toPageRevision(row: DbPageRevision): PageRevision {
+  return {
+    id: row.id,
+    pageId: row.page_id,
+    title: row.title,
+    content: (row.content as Block[]) || [],
+    createdAt: row.created_at,
+  }
+}
+
 function toNotebookPageSummary(row: Pick<DbNotebookPage, 'id' | 'notebook_id' | 'title' | 'order' | 'created_at' | 'updated_at'>): NotebookPageSummary {
   return {
     id: row.id,
@@ -260,10 +319,32 @@ export const notebooksService = {
 
     if (error) throw error
 
-    return toNotebookPage(data as DbNotebookPage)
+    const page = toNotebookPage(data as DbNotebookPage)
+    if (page.content.length > 0) {
+      await this.syncPageLinks(supabase, page)
+      await flashcardsService.syncPageFlashcards(supabase, page)
+    }
+
+    return page
   },
 
-  async updatePage(supabase: SupabaseClient, id: string, input: UpdatePageData): Promise<NotebookPage> {
+  // Content changes may first keep the page as it was as a revision (see
+  // capturePageRevision); forceRevision keeps it whatever the last one's age
+  async updatePage(
+    supabase: SupabaseClient,
+    id: string,
+    input: UpdatePageData,
+    options: { forceRevision?: boolean } = {}
+  ): Promise<NotebookPage> {
+    if (input.content !== undefined) {
+      const previous = await this.getPage(supabase, id)
+      if (previous) {
+        await this.capturePageRevision(supabase, previous, input.content, {
+          force: options.forceRevision,
+        })
+      }
+    }
+
     const updateData: Record<string, unknown> = {}
     if (input.title !== undefined) updateData.title = input.title
     if (input.content !== undefined) updateData.content = input.content
@@ -278,7 +359,13 @@ export const notebooksService = {
 
     if (error) throw error
 
-    return toNotebookPage(data as DbNotebookPage)
+    const page = toNotebookPage(data as DbNotebookPage)
+    if (input.content !== undefined) {
+      await this.syncPageLinks(supabase, page)
+      await flashcardsService.syncPageFlashcards(supabase, page)
+    }
+
+    return page
   },
 
   async deletePage(supabase: SupabaseClient, id: string): Promise<void> {
@@ -301,4 +388,194 @@ export const notebooksService = {
       if (error) throw error
     }
   },
+
+  // =====================================================
+  // PAGE LINKS
+  // =====================================================
+
+  // Rebuilds the links index of a page from its content. References resolve
+  // by title ignoring case; those matching nothing are left out
+  async syncPageLinks(supabase: SupabaseClient, page: NotebookPage): Promise<void> {
+    const references = extractNoteReferences(page.content as NoteBlock[])
+
+    const rows: DbPageLink[] = []
+    const types = [...new Set(references.map((r) => r.type))]
+    for (const type of types) {
+      const titles = new Set(
+        references.filter((r) => r.type === type).map((r) => r.title.toLowerCase())
+      )
+
+      // Only the referenced rows are fetched, not the whole table
+      const { data, error } = await supabase
+        .from(LINK_TARGET_TABLES[type])
+        .select('id, title')
+        .or(titleFilter([...titles]))
+
+      if (error) throw error
+
+      for (const target of (data ?? []) as { id: string; title: string }[]) {
+        if (titles.has(target.title.trim().toLowerCase()) && target.id !== page.id) {
+          rows.push({
+            user_id: page.userId,
+            page_id: page.id,
+            target_type: type,
+            target_id: target.id,
+          })
+        }
+      }
+    }
+
+    const { error: deleteError } = await supabase
+      .from('page_links')
+      .delete()
+      .eq('page_id', page.id)
+
+    if (deleteError) throw deleteError
+
+    if (rows.length === 0) return
+
+    const { error } = await supabase.from('page_links').insert(rows)
+
+    if (error) throw error
+  },
+
+  // Pages that link to a page or mention a task, habit or project
+  async getBacklinks(
+    supabase: SupabaseClient,
+    targetType: PageLinkTargetType,
+    targetId: string
+  ): Promise<PageBacklink[]> {
+    const { data, error } = await supabase
+      .from('page_links')
+      .select('page_id, notebook_pages!inner(id, notebook_id, title, updated_at)')
+      .eq('target_type', targetType)
+      .eq('target_id', targetId)
+
+    if (error) throw error
+
+    return ((data ?? []) as unknown as DbPageBacklink[])
+      .map((row) => ({
+        pageId: row.notebook_pages.id,
+        notebookId: row.notebook_pages.notebook_id,
+        title: row.notebook_pages.title,
+        updatedAt: row.notebook_pages.updated_at,
+      }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  },
+
+  // =====================================================
+  // PAGE REVISIONS
+  // =====================================================
+
+  // Newest first
+  async getPageRevisions(supabase: SupabaseClient, pageId: string): Promise<PageRevision[]> {
+    const { data, error } = await supabase
+      .from('page_revisions')
+      .select('*')
+      .eq('page_id', pageId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return ((data ?? []) as DbPageRevision[]).map(toPageRevision)
+  },
+
+  /**
+   * Keeps a page as it is before its content is replaced, when the edit is
+   * worth a revision (lib/page-revisions.ts), and drops the revisions the
+   * retention policy no longer keeps. With force the time since the last
+   * revision is ignored. Returns whether a revision was taken.
+   */
+  async capturePageRevision(
+    supabase: SupabaseClient,
+    page: NotebookPage,
+    nextContent: Block[],
+    options: { force?: boolean; now?: Date } = {}
+  ): Promise<boolean> {
+    const now = options.now ?? new Date()
+
+    const { data, error } = await supabase
+      .from('page_revisions')
+      .select('id, created_at')
+      .eq('page_id', page.id)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    const revisions = ((data ?? []) as Pick<DbPageRevision, 'id' | 'created_at'>[]).map((row) => ({
+      id: row.id,
+      createdAt: row.created_at,
+    }))
+
+    const capture = shouldCaptureRevision({
+      previousText: blocksToMarkdown(page.content as NoteBlock[]),
+      nextText: blocksToMarkdown(nextContent as NoteBlock[]),
+      lastRevisionAt: options.force ? undefined : revisions[0]?.createdAt,
+      now,
+    })
+    if (!capture) return false
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('page_revisions')
+      .insert({
+        user_id: page.userId,
+        page_id: page.id,
+        title: page.title,
+        content: page.content,
+      })
+      .select('id, created_at')
+      .single()
+
+    if (insertError) throw insertError
+
+    const pruned = getRevisionsToPrune(
+      [{ id: inserted.id, createdAt: inserted.created_at }, ...revisions],
+      now
+    )
+    if (pruned.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('page_revisions')
+        .delete()
+        .in('id', pruned)
+
+      if (deleteError) throw deleteError
+    }
+
+    return true
+  },
+
+  // Restores the revisions of a page from a backup, keeping their dates
+  async importPageRevisions(
+    supabase: SupabaseClient,
+    pageId: string,
+    revisions: PageRevision[]
+  ): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    if (revisions.length === 0) return
+
+    const { error } = await supabase.from('page_revisions').insert(
+      revisions.map((revision) => ({
+        user_id: user.id,
+        page_id: pageId,
+        title: revision.title,
+        content: revision.content,
+        created_at: revision.createdAt,
+      }))
+    )
+
+    if (error) throw error
+  },
+
+  // Puts a revision back; the page as it was becomes a revision itself, so
+  // restoring can be undone
+  async restorePageRevision(supabase: SupabaseClient, revision: PageRevision): Promise<NotebookPage> {
+    return this.updatePage(
+      supabase,
+      revision.pageId,
+      { title: revision.title, content: revision.content },
+      { forceRevision: true }
+    )
+  },
 }
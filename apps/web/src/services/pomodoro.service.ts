@@ -0,0 +1,171 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PomodoroSession } from '@/types'
+import { completionsService } from '@/services/habits.service'
+
+// Database row type (matching Supabase schema)
+interface DbPomodoroSession {
+  id: string
+  user_id: string
+  date: string
+  focus_minutes: number
+  completed_at: string
+  task_id: string | null
+  habit_id: string | null
+}
+
+export type CreatePomodoroSessionData = Omit<PomodoroSession, 'id'>
+
+const SESSIONS_PAGE_SIZE = 1000
+
+// Transform database row to frontend type
+function toPomodoroSession(row: DbPomodoroSession): PomodoroSession {
+  return {
+    id: row.id,
+    date: row.date,
+    focusMinutes: row.focus_minutes,
+    completedAt: row.completed_at,
+    taskId: row.task_id ?? undefined,
+    habitId: row.habit_id ?? undefined,
+  }
+}
+
+function toDbInsert(userId: string, session: CreatePomodoroSessionData) {
+  return {
+    user_id: userId,
+    date: session.date,
+    focus_minutes: session.focusMinutes,
+    completed_at: session.completedAt,
+    task_id: session.taskId ?? null,
+    habit_id: session.habitId ?? null,
+  }
+}
+
+// Add focused minutes on top of what was already logged for the habit that day
+async function logHabitMinutes(
+  supabase: SupabaseClient,
+  rows: DbPomodoroSession[]
+): Promise<void> {
+  const totals = new Map<string, { habitId: string; date: string; minutes: number }>()
+  for (const row of rows) {
+    if (!row.habit_id) continue
+    const key = `${row.habit_id}:${row.date}`
+    const entry = totals.get(key) ?? { habitId: row.habit_id, date: row.date, minutes: 0 }
+    entry.minutes += row.focus_minutes
+    totals.set(key, entry)
+  }
+
+  for (const { habitId, date, minutes } of totals.values()) {
+    const { data: existing } = await supabase
+      .from('habit_completions')
+      .select('value')
+      .eq('habit_id', habitId)
+      .eq('date', date)
+      .single()
+
+    const currentValue = (existing as { value: number } | null)?.value ?? 0
+    await completionsService.setCompletionValue(supabase, habitId, date, currentValue + minutes)
+  }
+}
+
+export const pomodoroService = {
+  async getAll(supabase: SupabaseClient): Promise<PomodoroSession[]> {
+    // Read page by page, PostgREST caps responses at 1000 rows by default.
+    // Completion times are unique per user, so no session moves between pages.
+    const rows: DbPomodoroSession[] = []
+    for (let offset = 0; ; offset += SESSIONS_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('pomodoro_sessions')
+        .select('*')
+        .order('completed_at', { ascending: false })
+        .range(offset, offset + SESSIONS_PAGE_SIZE - 1)
+
+      if (error) throw error
+
+      const page = (data ?? []) as DbPomodoroSession[]
+      rows.push(...page)
+      if (page.length < SESSIONS_PAGE_SIZE) break
+    }
+    return rows.map(toPomodoroSession)
+  },
+
+  async getByDateRange(
+    supabase: SupabaseClient,
+    startDate: string,
+    endDate: string
+  ): Promise<PomodoroSession[]> {
+    const { data, error } = await supabase
+      .from('pomodoro_sessions')
+      .select('*')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('completed_at', { ascending: false })
+
+    if (error) throw error
+    return ((data ?? []) as DbPomodoroSession[]).map(toPomodoroSession)
+  },
+
+  async create(
+    supabase: SupabaseClient,
+    session: CreatePomodoroSessionData
+  ): Promise<PomodoroSession> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('pomodoro_sessions')
+      .insert(toDbInsert(user.id, session))
+      .select()
+      .single()
+
+    if (error) throw error
+
+    const row = data as DbPomodoroSession
+    await logHabitMinutes(supabase, [row])
+
+    return toPomodoroSession(row)
+  },
+
+  /**
+   * Upload sessions recorded on a device before they reached the server
+   * (offline, logged out, or from before sessions were synced at all).
+   * Sessions are keyed by completion time, so re-sending is a no-op and
+   * habit minutes are only logged for sessions that were actually inserted.
+   */
+  async importSessions(
+    supabase: SupabaseClient,
+    sessions: CreatePomodoroSessionData[]
+  ): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    if (sessions.length === 0) return
+
+    const { data, error } = await supabase
+      .from('pomodoro_sessions')
+      .upsert(
+        sessions.map((session) => toDbInsert(user.id, session)),
+        { onConflict: 'user_id,completed_at', ignoreDuplicates: true }
+      )
+      .select()
+
+    if (error) throw error
+    await logHabitMinutes(supabase, (data ?? []) as DbPomodoroSession[])
+  },
+
+  // Total focused minutes per task, to compare against Task.estimatedMinutes
+  async getFocusMinutesByTask(supabase: SupabaseClient): Promise<Map<string, number>> {
+    const { data, error } = await supabase
+      .from('pomodoro_sessions')
+      .select('task_id, focus_minutes')
+      .not('task_id', 'is', null)
+
+    if (error) throw error
+
+    const minutesByTask = new Map<string, number>()
+    for (const row of (data ?? []) as Pick<DbPomodoroSession, 'task_id' | 'focus_minutes'>[]) {
+      if (!row.task_id) continue
+      minutesByTask.set(row.task_id, (minutesByTask.get(row.task_id) ?? 0) + row.focus_minutes)
+    }
+    return minutesByTask
+  },
+}
@@ -807,6 +807,33 @@ export const projectMetricsService = {
     return toProjectMetric(data as DbProjectMetric)
   },
 
+  async addEntry(
+    supabase: SupabaseClient,
+    metricId: string,
+    value: number,
+    date: string
+  ): Promise<ProjectMetricEntry> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('project_metric_entries')
+      .insert({
+        metric_id: metricId,
+        user_id: user.id,
+        value,
+        date,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return toProjectMetricEntry(data as DbProjectMetricEntry)
+  },
+
   async getHistory(
     supabase: SupabaseClient,
     metricId: string,
@@ -0,0 +1,46 @@
+// Search Service - full-text search across notes, tasks, habits, projects and transactions
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SearchResult, SearchResultType } from '@/types'
+import { toSearchQuery, parseHighlights } from '@/lib/search'
+
+// Row returned by the search_everything function
+interface DbSearchResult {
+  type: SearchResultType
+  id: string
+  title: string | null
+  snippet: string | null
+  rank: number
+  parent_id: string | null
+  date: string | null
+}
+
+// Transform database row to frontend type
+function toSearchResult(row: DbSearchResult): SearchResult {
+  return {
+    type: row.type,
+    id: row.id,
+    title: row.title ?? '',
+    snippet: parseHighlights(row.snippet ?? ''),
+    rank: row.rank,
+    parentId: row.parent_id ?? undefined,
+    date: row.date ?? undefined,
+  }
+}
+
+export const searchService = {
+  // Best ranked matches first; nothing is searched until there is a word
+  async search(supabase: SupabaseClient, query: string, limit = 20): Promise<SearchResult[]> {
+    const searchQuery = toSearchQuery(query)
+    if (!searchQuery) return []
+
+    const { data, error } = await supabase.rpc('search_everything', {
+      search_query: searchQuery,
+      result_limit: limit,
+    })
+
+    if (error) throw error
+
+    return ((data ?? []) as DbSearchResult[]).map(toSearchResult)
+  },
+}
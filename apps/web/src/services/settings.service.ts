@@ -1,5 +1,5 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
-import type { UserSettings, Theme, Locale, HealthGoals } from '@/types'
+import type { UserSettings, Theme, Locale, HealthGoals, BudgetMode } from '@/types'
 
 // Database row type (matching Supabase schema)
 interface DbUserSettings {
@@ -11,6 +11,7 @@ interface DbUserSettings {
   onboarding_completed: boolean
   user_name: string | null
   currency: string
+  budget_mode: BudgetMode | null
   pomodoro_settings: PomodoroSettings | null
   health_goals: HealthGoals | null
   updated_at: string
@@ -49,6 +50,7 @@ function toFullUserSettings(row: DbUserSettings): FullUserSettings {
     onboardingCompleted: row.onboarding_completed,
     userName: row.user_name ?? undefined,
     currency: row.currency as import('@/types/finances').CurrencyCode | undefined,
+    budgetMode: row.budget_mode ?? 'limits',
     pomodoroSettings: row.pomodoro_settings ?? DEFAULT_POMODORO_SETTINGS,
     healthGoals: row.health_goals ?? undefined,
   }
@@ -89,6 +91,7 @@ export const settingsService = {
     if (updates.onboardingCompleted !== undefined) dbUpdates.onboarding_completed = updates.onboardingCompleted
     if (updates.userName !== undefined) dbUpdates.user_name = updates.userName
     if (updates.currency !== undefined) dbUpdates.currency = updates.currency
+    if (updates.budgetMode !== undefined) dbUpdates.budget_mode = updates.budgetMode
     if (updates.pomodoroSettings !== undefined) dbUpdates.pomodoro_settings = updates.pomodoroSettings
     if (updates.healthGoals !== undefined) dbUpdates.health_goals = updates.healthGoals
 
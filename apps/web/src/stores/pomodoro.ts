@@ -1,8 +1,9 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { useShallow } from 'zustand/react/shallow'
+import type { PomodoroSession, PomodoroFocusTarget } from '@/types'
 import { createClient } from '@/lib/supabase/client'
 import { userStatsService } from '@/services/gamification.service'
+import { getTodayString } from '@/lib/utils'
 
 export type PomodoroPhase = 'focus' | 'shortBreak' | 'longBreak'
 export type TimerStatus = 'idle' | 'running' | 'paused'
@@ -16,26 +17,19 @@ interface PomodoroSettings {
   autoStartFocus: boolean
 }
 
-interface PomodoroSession {
-  id: string
-  date: string
-  focusMinutes: number
-  completedAt: string
-}
-
 interface PomodoroState {
   // Timer state
   status: TimerStatus
   phase: PomodoroPhase
   timeRemaining: number // seconds
   sessionsCompleted: number
+  focusTarget: PomodoroFocusTarget | null
 
   // Settings
   settings: PomodoroSettings
 
-  // History
+  // Completed sessions not yet uploaded to the server
   sessions: PomodoroSession[]
-  totalFocusMinutes: number
 
   // Actions
   startTimer: () => void
@@ -45,6 +39,8 @@ interface PomodoroState {
   skipPhase: () => void
   completeSession: () => void
   updateSettings: (settings: Partial<PomodoroSettings>) => void
+  setFocusTarget: (target: PomodoroFocusTarget | null) => void
+  markSessionsSynced: (ids: string[]) => void
 }
 
 const DEFAULT_SETTINGS: PomodoroSettings = {
@@ -60,10 +56,6 @@ function generateId(): string {
   return crypto.randomUUID()
 }
 
-function getTodayString(): string {
-  return new Date().toISOString().split('T')[0]
-}
-
 function getPhaseTime(phase: PomodoroPhase, settings: PomodoroSettings): number {
   switch (phase) {
     case 'focus':
@@ -82,9 +74,9 @@ export const usePomodoroStore = create<PomodoroState>()(
       phase: 'focus',
       timeRemaining: DEFAULT_SETTINGS.focusDuration * 60,
       sessionsCompleted: 0,
+      focusTarget: null,
       settings: DEFAULT_SETTINGS,
       sessions: [],
-      totalFocusMinutes: 0,
 
       startTimer: () => {
         set({ status: 'running' })
@@ -142,7 +134,7 @@ export const usePomodoroStore = create<PomodoroState>()(
       },
 
       completeSession: () => {
-        const { phase, sessionsCompleted, settings } = get()
+        const { phase, sessionsCompleted, settings, focusTarget } = get()
 
         // If completing a focus session, record it and award XP
         if (phase === 'focus') {
@@ -151,11 +143,12 @@ export const usePomodoroStore = create<PomodoroState>()(
             date: getTodayString(),
             focusMinutes: settings.focusDuration,
             completedAt: new Date().toISOString(),
+            taskId: focusTarget?.type === 'task' ? focusTarget.id : undefined,
+            habitId: focusTarget?.type === 'habit' ? focusTarget.id : undefined,
           }
 
           set((state) => ({
             sessions: [...state.sessions, session],
-            totalFocusMinutes: state.totalFocusMinutes + settings.focusDuration,
           }))
 
           // Award XP for completing a focus session (20 XP)
@@ -212,22 +205,24 @@ export const usePomodoroStore = create<PomodoroState>()(
           }
         })
       },
+
+      setFocusTarget: (target) => {
+        set({ focusTarget: target })
+      },
+
+      markSessionsSynced: (ids) => {
+        set((state) => ({
+          sessions: state.sessions.filter((s) => !ids.includes(s.id)),
+        }))
+      },
     }),
     {
       name: 'hagu-pomodoro',
       partialize: (state) => ({
         settings: state.settings,
         sessions: state.sessions,
-        totalFocusMinutes: state.totalFocusMinutes,
+        focusTarget: state.focusTarget,
       }),
     }
   )
 )
-
-// Selector hooks
-export function useTodaySessions(): PomodoroSession[] {
-  const today = getTodayString()
-  return usePomodoroStore(
-    useShallow((state) => state.sessions.filter((s) => s.date === today))
-  )
-}
@@ -0,0 +1,20 @@
+// Search Types
+
+// What a search can find
+export type SearchResultType = 'page' | 'task' | 'habit' | 'project' | 'objective' | 'transaction'
+
+// Piece of a snippet; highlighted pieces are the words that matched
+export interface SearchHighlight {
+  text: string
+  highlighted: boolean
+}
+
+export interface SearchResult {
+  type: SearchResultType
+  id: string
+  title: string
+  snippet: SearchHighlight[]
+  rank: number
+  parentId?: string // Notebook of a page, project of an objective
+  date?: string // YYYY-MM-DD: last edit of a page, due date, transaction date
+}
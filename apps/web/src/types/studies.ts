@@ -2,6 +2,102 @@
 
 import type { Block } from '@blocknote/core'
 
+// Subset of the BlockNote document model that both apps read and write
+// without the editor (e.g. to convert pages to and from Markdown)
+export interface NoteTextStyles {
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strike?: boolean
+  code?: boolean
+  textColor?: string
+  backgroundColor?: string
+}
+
+export interface NoteStyledText {
+  type: 'text'
+  text: string
+  styles: NoteTextStyles
+}
+
+export interface NoteLink {
+  type: 'link'
+  href: string
+  content: NoteStyledText[]
+}
+
+export type NoteInlineContent = NoteStyledText | NoteLink
+
+export interface NoteBlock {
+  id?: string
+  type: string
+  props?: Record<string, unknown>
+  content?: NoteInlineContent[]
+  children?: NoteBlock[]
+}
+
+// What a page can link to: [[Page title]] or an @task/@habit/@project mention
+export type PageLinkTargetType = 'page' | 'task' | 'habit' | 'project'
+
+export interface NoteReference {
+  type: PageLinkTargetType
+  title: string
+}
+
+// Page that links to or mentions something
+export interface PageBacklink {
+  pageId: string
+  notebookId: string
+  title: string
+  updatedAt: string
+}
+
+// Flashcards: written in a page as "Question :: Answer", or added to a
+// notebook on their own
+export type FlashcardGrade = 'again' | 'hard' | 'good' | 'easy'
+
+// Spaced-repetition state of a card (see lib/flashcards.ts)
+export interface FlashcardSchedule {
+  ease: number // Ease factor, never below 1.3
+  interval: number // Days between the last review and the next one
+  repetitions: number // Reviews in a row not graded "again"
+  dueDate: string // YYYY-MM-DD
+}
+
+export interface Flashcard extends FlashcardSchedule {
+  id: string
+  notebookId: string
+  pageId?: string // Page the card is written in; standalone cards have none
+  front: string
+  back: string
+  lastReviewedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Card written in a page
+export interface PageFlashcard {
+  front: string
+  back: string
+}
+
+export interface CreateFlashcardData {
+  notebookId: string
+  front: string
+  back: string
+}
+
+export interface UpdateFlashcardData {
+  front?: string
+  back?: string
+}
+
+export interface FlashcardSessionResult {
+  reviewed: number
+  xpEarned: number
+  completedHabitIds: string[] // Habits linked to the reviewed notebooks that the session completed
+}
+
 // Notebook (Caderno)
 export interface Notebook {
   id: string
@@ -40,6 +136,24 @@ export interface NotebookPageSummary {
   updatedAt: string
 }
 
+// Page as it was before an edit, kept so it can be compared and restored
+// (see lib/page-revisions.ts)
+export interface PageRevision {
+  id: string
+  pageId: string
+  title: string
+  content: Block[]
+  createdAt: string
+}
+
+// Line of the diff between two versions of a page, in Markdown
+export type RevisionDiffLineType = 'added' | 'removed' | 'unchanged'
+
+export interface RevisionDiffLine {
+  type: RevisionDiffLineType
+  text: string
+}
+
 // Form types
 export interface CreateNotebookData {
   title: string
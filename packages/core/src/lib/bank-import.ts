@@ -0,0 +1,303 @@
+import type {
+  Transaction,
+  CsvLayout,
+  CsvPresetId,
+  ImportedTransaction,
+  ImportPreviewRow,
+  StatementDateFormat,
+} from '../types/finances'
+
+/**
+ * CSV layouts of common Brazilian bank exports.
+ */
+export const CSV_PRESETS: Record<CsvPresetId, CsvLayout> = {
+  // Nubank checking account: Data,Valor,Identificador,Descrição
+  nubank: {
+    delimiter: ',',
+    hasHeader: true,
+    dateColumn: 'Data',
+    amountColumn: 'Valor',
+    idColumn: 'Identificador',
+    descriptionColumn: 'Descrição',
+    dateFormat: 'DD/MM/YYYY',
+    decimalSeparator: '.',
+  },
+  // Nubank credit card: date,title,amount (purchases are positive)
+  nubankCard: {
+    delimiter: ',',
+    hasHeader: true,
+    dateColumn: 'date',
+    descriptionColumn: 'title',
+    amountColumn: 'amount',
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: '.',
+    expensesArePositive: true,
+  },
+  // Itaú statement: date;description;amount without a header
+  itau: {
+    delimiter: ';',
+    hasHeader: false,
+    dateColumn: 0,
+    descriptionColumn: 1,
+    amountColumn: 2,
+    dateFormat: 'DD/MM/YYYY',
+    decimalSeparator: ',',
+  },
+}
+
+function parseStatementDate(value: string, format: StatementDateFormat): string {
+  const parts = value.trim().split(/[-/]/)
+  if (parts.length !== 3) throw new Error(`Invalid statement date: ${value}`)
+
+  const [year, month, day] =
+    format === 'YYYY-MM-DD'
+      ? parts
+      : format === 'DD/MM/YYYY'
+        ? [parts[2], parts[1], parts[0]]
+        : [parts[2], parts[0], parts[1]]
+
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+}
+
+/**
+ * Parse a statement amount such as "-1.234,56", "R$ 50,00" or "(12.50)".
+ */
+export function parseStatementAmount(value: string, decimalSeparator: '.' | ','): number {
+  let cleaned = value.replace(/[^\d.,()-]/g, '')
+  const isParenthesized = cleaned.startsWith('(') && cleaned.endsWith(')')
+  cleaned = cleaned.replace(/[()]/g, '')
+
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ','
+  cleaned = cleaned.split(thousandsSeparator).join('').replace(decimalSeparator, '.')
+
+  const amount = Number(cleaned)
+  if (cleaned === '' || Number.isNaN(amount)) throw new Error(`Invalid statement amount: ${value}`)
+  return isParenthesized ? -amount : amount
+}
+
+function toImportedTransaction(
+  date: string,
+  signedAmount: number,
+  description: string,
+  externalId?: string
+): ImportedTransaction {
+  return {
+    date,
+    amount: Math.abs(signedAmount),
+    type: signedAmount < 0 ? 'expense' : 'income',
+    description: description.trim(),
+    externalId: externalId || undefined,
+  }
+}
+
+/**
+ * Parse an OFX/QFX statement. Handles both the SGML (OFX 1.x, unclosed
+ * leaf tags) and XML (OFX 2.x) flavours.
+ */
+export function parseOfx(content: string): ImportedTransaction[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? []
+
+  return blocks.map((block) => {
+    const fields = new Map<string, string>()
+    for (const [, tag, value] of block.matchAll(/<(\w+)>([^<\r\n]*)/g)) {
+      fields.set(tag.toUpperCase(), value.trim())
+    }
+
+    const posted = fields.get('DTPOSTED') ?? ''
+    const date = `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`
+    // Some Brazilian banks write TRNAMT with a decimal comma
+    const amount = Number((fields.get('TRNAMT') ?? '').replace(',', '.'))
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(amount)) {
+      throw new Error('Invalid OFX transaction')
+    }
+
+    return toImportedTransaction(
+      date,
+      amount,
+      fields.get('MEMO') || fields.get('NAME') || '',
+      fields.get('FITID')
+    )
+  })
+}
+
+// Split CSV text into rows of fields, honouring quoted fields
+function splitCsv(content: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  row.push(field)
+  rows.push(row)
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''))
+}
+
+/**
+ * Parse a CSV statement using the given column layout.
+ */
+export function parseCsv(content: string, layout: CsvLayout): ImportedTransaction[] {
+  // Drop the UTF-8 BOM some banks prepend
+  const rows = splitCsv(content.replace(/^\uFEFF/, ''), layout.delimiter)
+  const header = layout.hasHeader ? (rows.shift() ?? []).map((h) => h.trim()) : []
+
+  const columnIndex = (column: number | string): number => {
+    if (typeof column === 'number') return column
+    const index = header.findIndex((h) => h.toLowerCase() === column.toLowerCase())
+    if (index === -1) throw new Error(`Column not found in CSV header: ${column}`)
+    return index
+  }
+
+  const dateIndex = columnIndex(layout.dateColumn)
+  const descriptionIndex = columnIndex(layout.descriptionColumn)
+  const amountIndex = columnIndex(layout.amountColumn)
+  const idIndex = layout.idColumn !== undefined ? columnIndex(layout.idColumn) : undefined
+
+  return rows.map((row) => {
+    const amount = parseStatementAmount(row[amountIndex] ?? '', layout.decimalSeparator)
+    return toImportedTransaction(
+      parseStatementDate(row[dateIndex] ?? '', layout.dateFormat),
+      layout.expensesArePositive ? -amount : amount,
+      row[descriptionIndex] ?? '',
+      idIndex !== undefined ? row[idIndex]?.trim() : undefined
+    )
+  })
+}
+
+/**
+ * Guess which bank preset produced a CSV export from its first line.
+ */
+export function detectCsvPreset(content: string): CsvPresetId | null {
+  const firstLine = content.replace(/^\uFEFF/, '').trimStart().split(/\r?\n/)[0].toLowerCase()
+
+  if (firstLine.startsWith('data,valor,identificador')) return 'nubank'
+  if (firstLine.startsWith('date,title,amount')) return 'nubankCard'
+  if (/^\d{2}\/\d{2}\/\d{4};/.test(firstLine)) return 'itau'
+  return null
+}
+
+// Encoding an OFX header declares: the XML declaration in OFX 2.x, ENCODING
+// and CHARSET (a Windows code page number, usually 1252) in OFX 1.x
+function getDeclaredEncoding(header: string): string | undefined {
+  const xmlEncoding = header.match(/<\?xml[^>]*encoding=["']([\w-]+)["']/i)?.[1]
+  if (xmlEncoding) return xmlEncoding
+  if (/^\s*ENCODING:\s*UTF-8\s*$/im.test(header)) return 'utf-8'
+
+  const charset = header.match(/^\s*CHARSET:\s*([\w-]+)\s*$/im)?.[1]
+  if (!charset || charset.toUpperCase() === 'NONE') return undefined
+  return /^\d+$/.test(charset) ? `windows-${charset}` : charset
+}
+
+/**
+ * Decode a statement file. OFX files are read in the encoding their header
+ * declares; files without one, like bank CSVs, are read as UTF-8 unless they
+ * aren't valid UTF-8, and then as windows-1252, which Brazilian banks use.
+ */
+export function decodeStatement(bytes: Uint8Array): string {
+  // Headers are plain ASCII, so any single-byte decoding reads them
+  const header = new TextDecoder('windows-1252').decode(bytes.subarray(0, 1024))
+  const encoding = getDeclaredEncoding(header)
+  if (encoding) {
+    try {
+      return new TextDecoder(encoding).decode(bytes)
+    } catch {
+      // Unknown label, fall through to detection
+    }
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes)
+  }
+}
+
+/**
+ * Parse a bank statement: OFX/QFX is recognised by its content, CSV uses the
+ * given layout or falls back to a detected bank preset.
+ */
+export function parseStatement(content: string, layout?: CsvLayout): ImportedTransaction[] {
+  if (/<OFX>/i.test(content)) return parseOfx(content)
+
+  const preset = detectCsvPreset(content)
+  const csvLayout = layout ?? (preset ? CSV_PRESETS[preset] : undefined)
+  if (!csvLayout) throw new Error('Unrecognized statement format')
+  return parseCsv(content, csvLayout)
+}
+
+/**
+ * Lowercase a description and strip accents and repeated whitespace, so
+ * "Padaria  Pão" and "PADARIA PAO" compare equal.
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Pair each imported row with the existing transaction it duplicates: the one
+ * carrying the same bank identifier, or else one with the same date, type and
+ * amount and a matching description (equal, or one containing the other).
+ * Transactions whose bank identifiers differ are never paired, and an existing
+ * transaction is matched at most once, so two identical purchases on the same
+ * day only flag one of them if only one was recorded.
+ */
+export function buildImportPreview(
+  imported: ImportedTransaction[],
+  existing: Pick<Transaction, 'id' | 'date' | 'type' | 'amount' | 'description' | 'externalId'>[]
+): ImportPreviewRow[] {
+  const available = new Set(existing.map((t) => t.id))
+
+  return imported.map((transaction) => {
+    const description = normalizeDescription(transaction.description)
+    const duplicate =
+      (transaction.externalId
+        ? existing.find((t) => available.has(t.id) && t.externalId === transaction.externalId)
+        : undefined) ??
+      existing.find((t) => {
+        if (!available.has(t.id)) return false
+        if (t.externalId && transaction.externalId) return false
+        if (t.date !== transaction.date || t.type !== transaction.type) return false
+        if (Math.abs(t.amount - transaction.amount) >= 0.005) return false
+        const existingDescription = normalizeDescription(t.description)
+        if (!description || !existingDescription) return description === existingDescription
+        return (
+          existingDescription.includes(description) || description.includes(existingDescription)
+        )
+      })
+
+    if (!duplicate) return { transaction }
+    available.delete(duplicate.id)
+    return { transaction, duplicateOfId: duplicate.id }
+  })
+}
@@ -0,0 +1,199 @@
+import type {
+  Transaction,
+  TransactionType,
+  TransactionCategory,
+  CategorizationRule,
+  CategorySuggestion,
+} from '../types/finances'
+import { normalizeDescription } from './bank-import'
+
+type RuleSubject = Pick<Transaction, 'type' | 'amount' | 'description' | 'paymentMethod' | 'tags'>
+type CategoryTypes = Pick<TransactionCategory, 'id' | 'type'>[]
+
+/**
+ * Built-in fallback categories. A transaction filed under one of these is
+ * considered uncategorized, so rules are allowed to replace its category.
+ */
+export const UNCATEGORIZED_CATEGORY_IDS: Record<Exclude<TransactionType, 'transfer'>, string> = {
+  expense: 'other-expense',
+  income: 'other-income',
+}
+
+// Types of the built-in categories; custom ones are looked up in the
+// user's transaction_categories
+const BUILT_IN_CATEGORY_TYPES: Record<string, TransactionType> = {
+  food: 'expense',
+  transport: 'expense',
+  housing: 'expense',
+  entertainment: 'expense',
+  health: 'expense',
+  education: 'expense',
+  shopping: 'expense',
+  bills: 'expense',
+  subscriptions: 'expense',
+  'other-expense': 'expense',
+  salary: 'income',
+  freelance: 'income',
+  investments: 'income',
+  bonus: 'income',
+  'other-income': 'income',
+}
+
+// Past transactions must share at least this share of words to count as similar
+const SIMILARITY_THRESHOLD = 0.5
+
+// Transfers are never categorized, so rules leave them alone
+export function isUncategorized(transaction: Pick<Transaction, 'type' | 'categoryId'>): boolean {
+  if (transaction.type === 'transfer') return false
+  return (
+    !transaction.categoryId ||
+    transaction.categoryId === UNCATEGORIZED_CATEGORY_IDS[transaction.type]
+  )
+}
+
+function matchesDescription(rule: CategorizationRule, description: string): boolean {
+  if (!rule.descriptionPattern) return true
+
+  if (rule.descriptionMatch === 'regex') {
+    try {
+      return new RegExp(rule.descriptionPattern, 'i').test(description)
+    } catch {
+      // An invalid pattern never matches rather than breaking transaction creation
+      return false
+    }
+  }
+  return normalizeDescription(description).includes(normalizeDescription(rule.descriptionPattern))
+}
+
+function getCategoryType(categoryId: string, categories: CategoryTypes): TransactionType | undefined {
+  return (
+    categories.find((category) => category.id === categoryId)?.type ??
+    BUILT_IN_CATEGORY_TYPES[categoryId]
+  )
+}
+
+/**
+ * Whether every condition set on the rule holds for the transaction.
+ * Amount bounds are inclusive. A rule only files transactions of its
+ * category's type, so a rule without a type set never moves income into an
+ * expense category or the other way around.
+ */
+export function matchesRule(
+  rule: CategorizationRule,
+  transaction: RuleSubject,
+  categories: CategoryTypes = []
+): boolean {
+  if (getCategoryType(rule.categoryId, categories) !== transaction.type) return false
+  if (rule.transactionType && rule.transactionType !== transaction.type) return false
+  if (rule.minAmount !== undefined && transaction.amount < rule.minAmount) return false
+  if (rule.maxAmount !== undefined && transaction.amount > rule.maxAmount) return false
+  if (rule.paymentMethod && rule.paymentMethod !== transaction.paymentMethod) return false
+  if (rule.requiredTags?.some((tag) => !transaction.tags?.includes(tag))) return false
+  return matchesDescription(rule, transaction.description)
+}
+
+/**
+ * First active rule, by priority, that matches the transaction.
+ */
+export function findMatchingRule(
+  rules: CategorizationRule[],
+  transaction: RuleSubject,
+  categories: CategoryTypes
+): CategorizationRule | undefined {
+  return rules
+    .filter((rule) => rule.isActive)
+    .sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt))
+    .find((rule) => matchesRule(rule, transaction, categories))
+}
+
+/**
+ * Apply the first matching rule: its category replaces the transaction's and
+ * its tags are added to the existing ones. Unmatched transactions are
+ * returned unchanged.
+ */
+export function applyCategorizationRules<T extends RuleSubject & { categoryId: string }>(
+  transaction: T,
+  rules: CategorizationRule[],
+  categories: CategoryTypes
+): T {
+  const rule = findMatchingRule(rules, transaction, categories)
+  if (!rule) return transaction
+
+  const tags = [...(transaction.tags ?? [])]
+  for (const tag of rule.addTags ?? []) {
+    if (!tags.includes(tag)) tags.push(tag)
+  }
+  return { ...transaction, categoryId: rule.categoryId, tags }
+}
+
+/**
+ * Category and tag changes from re-running the rules over past transactions.
+ * By default only uncategorized transactions are touched, so categories
+ * picked by hand are kept.
+ */
+export function getRuleChanges(
+  transactions: Transaction[],
+  rules: CategorizationRule[],
+  categories: CategoryTypes,
+  options: { onlyUncategorized?: boolean } = {}
+): { id: string; categoryId: string; tags: string[] }[] {
+  const { onlyUncategorized = true } = options
+
+  return transactions.flatMap((transaction) => {
+    if (onlyUncategorized && !isUncategorized(transaction)) return []
+
+    const result = applyCategorizationRules(transaction, rules, categories)
+    const tags = result.tags ?? []
+    const tagsChanged = tags.length !== (transaction.tags ?? []).length
+    if (result.categoryId === transaction.categoryId && !tagsChanged) return []
+    return [{ id: transaction.id, categoryId: result.categoryId, tags }]
+  })
+}
+
+function tokenize(description: string): Set<string> {
+  return new Set(
+    normalizeDescription(description)
+      .split(/[^a-z0-9]+/)
+      // Numbers are usually dates, card digits or document ids, not the merchant
+      .filter((token) => token.length > 2 && !/^\d+$/.test(token))
+  )
+}
+
+/**
+ * Suggest a category from how the user filed past transactions with similar
+ * descriptions (at least half of the words in common). Uncategorized history
+ * is ignored. Returns null when nothing similar was found.
+ */
+export function suggestCategory(
+  description: string,
+  type: TransactionType,
+  history: Pick<Transaction, 'type' | 'description' | 'categoryId'>[]
+): CategorySuggestion | null {
+  const tokens = tokenize(description)
+  if (tokens.size === 0) return null
+
+  const votes = new Map<string, number>()
+  let totalVotes = 0
+  let matches = 0
+
+  for (const past of history) {
+    if (past.type !== type || isUncategorized(past)) continue
+
+    const pastTokens = tokenize(past.description)
+    const shared = [...tokens].filter((token) => pastTokens.has(token)).length
+    const similarity = shared / new Set([...tokens, ...pastTokens]).size
+    if (similarity < SIMILARITY_THRESHOLD) continue
+
+    votes.set(past.categoryId, (votes.get(past.categoryId) ?? 0) + similarity)
+    totalVotes += similarity
+    matches++
+  }
+
+  let best: [string, number] | undefined
+  for (const entry of votes) {
+    if (!best || entry[1] > best[1]) best = entry
+  }
+  if (!best) return null
+
+  return { categoryId: best[0], confidence: best[1] / totalVotes, matches }
+}
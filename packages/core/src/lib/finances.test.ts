@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import type { Transaction } from '../types/finances'
+import type {
+  Account,
+  BudgetTemplate,
+  ExchangeRate,
+  ForecastAdjustment,
+  RecurringOccurrence,
+  Transaction,
+} from '../types/finances'
 
 // Mock getCurrencyConfig since it uses require() which doesn't work in Vitest
 const mockCurrencies = {
@@ -30,15 +37,23 @@ import {
   formatCurrency,
   getCurrencyConfig,
   parseCurrencyInput,
+  findExchangeRate,
+  toBaseAmount,
+  getMissingRateCurrencies,
+  parseExchangeRatesCsv,
   getLocalDateString,
   getCurrentMonth,
   calculateMonthlyBalance,
+  calculateAccountBalances,
+  calculateTotalBalance,
   calculateCategorySummaries,
   filterTransactionsByDateRange,
   filterTransactionsByMonth,
+  getBudgetMonth,
   calculateNextRecurrenceDate,
   getMonthsBetween,
   getLastNMonths,
+  calculateCashFlowForecast,
   calculateCompoundInterest,
   formatPercentage,
   getMonthName,
@@ -172,6 +187,79 @@ describe('finances utilities', () => {
     })
   })
 
+  describe('exchange rates', () => {
+    const rate = (overrides: Partial<ExchangeRate>): ExchangeRate => ({
+      id: 'rate-1',
+      fromCurrency: 'USD',
+      toCurrency: 'BRL',
+      rate: 5,
+      date: '2024-01-01',
+      createdAt: '2024-01-01T00:00:00Z',
+      ...overrides,
+    })
+    const rates = [
+      rate({ id: 'a', date: '2024-01-01', rate: 5 }),
+      rate({ id: 'b', date: '2024-02-01', rate: 4 }),
+      rate({ id: 'c', fromCurrency: 'BRL', toCurrency: 'EUR', rate: 0.2 }),
+    ]
+    const conversion = { baseCurrency: 'BRL' as const, rates }
+
+    it('uses the latest rate on or before the date', () => {
+      expect(findExchangeRate(rates, 'USD', 'BRL', '2024-01-31')).toBe(5)
+      expect(findExchangeRate(rates, 'USD', 'BRL', '2024-02-01')).toBe(4)
+      expect(findExchangeRate(rates, 'USD', 'BRL', '2023-12-01')).toBe(5)
+    })
+
+    it('inverts rates stored the other way round', () => {
+      expect(findExchangeRate(rates, 'BRL', 'USD', '2024-02-10')).toBe(0.25)
+      expect(findExchangeRate(rates, 'EUR', 'BRL', '2024-01-10')).toBe(5)
+      expect(findExchangeRate(rates, 'GBP', 'BRL', '2024-01-10')).toBeUndefined()
+      expect(findExchangeRate(rates, 'GBP', 'GBP', '2024-01-10')).toBe(1)
+    })
+
+    it('converts amounts to the base currency', () => {
+      expect(toBaseAmount({ amount: 10, currency: 'USD', date: '2024-01-15' }, conversion)).toBe(50)
+      expect(toBaseAmount({ amount: 10, date: '2024-01-15' }, conversion)).toBe(10)
+      expect(toBaseAmount({ amount: 10, currency: 'USD', date: '2024-01-15' })).toBe(10)
+      // Without a rate the amount is kept as it is
+      expect(toBaseAmount({ amount: 10, currency: 'GBP', date: '2024-01-15' }, conversion)).toBe(10)
+    })
+
+    it('lists currencies without a rate to the base currency', () => {
+      const transactions = [
+        createTransaction({ currency: 'GBP' }),
+        createTransaction({ currency: 'USD' }),
+        createTransaction({ currency: 'JPY' }),
+        createTransaction({ currency: 'GBP' }),
+      ]
+
+      expect(getMissingRateCurrencies(transactions, conversion)).toEqual(['GBP', 'JPY'])
+    })
+  })
+
+  describe('parseExchangeRatesCsv', () => {
+    it('parses comma separated rates with a header', () => {
+      const csv = 'date,from,to,rate\n2024-01-15,usd,BRL,4.95\n2024-01-16,EUR,BRL,5.4\n'
+
+      expect(parseExchangeRatesCsv(csv)).toEqual([
+        { date: '2024-01-15', fromCurrency: 'USD', toCurrency: 'BRL', rate: 4.95 },
+        { date: '2024-01-16', fromCurrency: 'EUR', toCurrency: 'BRL', rate: 5.4 },
+      ])
+    })
+
+    it('parses semicolon separated rates with decimal commas', () => {
+      expect(parseExchangeRatesCsv('15/01/2024;USD;BRL;4,95')).toEqual([
+        { date: '2024-01-15', fromCurrency: 'USD', toCurrency: 'BRL', rate: 4.95 },
+      ])
+    })
+
+    it('rejects unknown currencies and invalid rates', () => {
+      expect(() => parseExchangeRatesCsv('2024-01-15,XYZ,BRL,1')).toThrow('Unsupported currency')
+      expect(() => parseExchangeRatesCsv('2024-01-15,USD,BRL,abc')).toThrow('Invalid exchange rate')
+      expect(() => parseExchangeRatesCsv('2024-01-15,USD,BRL,0')).toThrow('Invalid exchange rate')
+    })
+  })
+
   describe('getLocalDateString', () => {
     it('formats date as YYYY-MM-DD', () => {
       const date = new Date(2024, 0, 15) // January 15, 2024
@@ -271,6 +359,118 @@ describe('finances utilities', () => {
 
       expect(result.balance).toBe(-1000)
     })
+
+    it('leaves transfers out of income and expenses', () => {
+      const transactions: Transaction[] = [
+        createTransaction({ type: 'income', amount: 1000, date: '2024-01-10' }),
+        createTransaction({
+          type: 'transfer',
+          amount: 400,
+          date: '2024-01-12',
+          accountId: 'checking',
+          toAccountId: 'savings',
+        }),
+      ]
+
+      const result = calculateMonthlyBalance(transactions, '2024-01')
+
+      expect(result.totalIncome).toBe(1000)
+      expect(result.totalExpenses).toBe(0)
+      expect(result.balance).toBe(1000)
+    })
+
+    it('converts foreign currency transactions to the base currency', () => {
+      const transactions: Transaction[] = [
+        createTransaction({ type: 'income', amount: 1000, currency: 'USD', date: '2024-01-10' }),
+        createTransaction({ type: 'expense', amount: 300, date: '2024-01-15' }),
+        createTransaction({ type: 'expense', amount: 20, currency: 'USD', date: '2024-01-20' }),
+      ]
+      const conversion = {
+        baseCurrency: 'BRL' as const,
+        rates: [
+          {
+            id: 'rate-1',
+            fromCurrency: 'USD' as const,
+            toCurrency: 'BRL' as const,
+            rate: 5,
+            date: '2024-01-01',
+            createdAt: '2024-01-01T00:00:00Z',
+          },
+        ],
+      }
+
+      const result = calculateMonthlyBalance(transactions, '2024-01', conversion)
+
+      expect(result.totalIncome).toBe(5000)
+      expect(result.totalExpenses).toBe(400)
+      expect(result.balance).toBe(4600)
+    })
+  })
+
+  describe('calculateAccountBalances', () => {
+    const account = (id: string, type: Account['type'], openingBalance: number): Account => ({
+      id,
+      name: id,
+      type,
+      openingBalance,
+      color: '#3b82f6',
+      isArchived: false,
+      createdAt: '2024-01-01T00:00:00Z',
+    })
+    const accounts = [
+      account('checking', 'checking', 1000),
+      account('savings', 'savings', 0),
+      account('card', 'credit_card', -200),
+    ]
+    const transactions: Transaction[] = [
+      createTransaction({ type: 'income', amount: 3000, accountId: 'checking' }),
+      createTransaction({ type: 'expense', amount: 150, accountId: 'card' }),
+      createTransaction({ type: 'transfer', amount: 500, accountId: 'checking', toAccountId: 'savings' }),
+      createTransaction({ type: 'transfer', amount: 200, accountId: 'checking', toAccountId: 'card' }),
+      createTransaction({ type: 'expense', amount: 80 }),
+    ]
+
+    it('applies income, expenses and transfers to each account', () => {
+      expect(calculateAccountBalances(accounts, transactions)).toEqual({
+        checking: 3300,
+        savings: 500,
+        card: -150,
+      })
+    })
+
+    it('keeps transfers out of the total balance', () => {
+      // 800 opening + 3000 income - 150 - 80 expenses
+      expect(calculateTotalBalance(transactions, accounts)).toBe(3570)
+      expect(calculateTotalBalance(transactions)).toBe(2770)
+    })
+
+    it('converts amounts into the currency of each account', () => {
+      const conversion = {
+        baseCurrency: 'BRL' as const,
+        rates: [
+          {
+            id: 'rate-1',
+            fromCurrency: 'USD' as const,
+            toCurrency: 'BRL' as const,
+            rate: 5,
+            date: '2024-01-01',
+            createdAt: '2024-01-01T00:00:00Z',
+          },
+        ],
+      }
+      const wallet: Account = { ...account('wallet', 'cash', 10), currency: 'USD' }
+      const travel: Transaction[] = [
+        createTransaction({ type: 'transfer', amount: 500, accountId: 'checking', toAccountId: 'wallet' }),
+        createTransaction({ type: 'expense', amount: 30, currency: 'USD', accountId: 'wallet' }),
+      ]
+
+      expect(calculateAccountBalances([accounts[0], wallet], travel, conversion)).toEqual({
+        checking: 500,
+        wallet: 80,
+      })
+      // 1000 + 50 opening - 150 spent abroad
+      expect(calculateTotalBalance(travel, [accounts[0], wallet], conversion)).toBe(900)
+    })
   })
 
   describe('calculateCategorySummaries', () => {
@@ -324,6 +524,33 @@ describe('finances utilities', () => {
       const result = calculateCategorySummaries([], 'expense')
       expect(result).toHaveLength(0)
     })
+
+    it('sums categories in the base currency', () => {
+      const transactions: Transaction[] = [
+        createTransaction({ type: 'expense', amount: 100, categoryId: 'food' }),
+        createTransaction({ type: 'expense', amount: 60, currency: 'EUR', categoryId: 'travel' }),
+      ]
+      const conversion = {
+        baseCurrency: 'BRL' as const,
+        rates: [
+          {
+            id: 'rate-1',
+            fromCurrency: 'EUR' as const,
+            toCurrency: 'BRL' as const,
+            rate: 5,
+            date: '2024-01-01',
+            createdAt: '2024-01-01T00:00:00Z',
+          },
+        ],
+      }
+
+      const result = calculateCategorySummaries(transactions, 'expense', conversion)
+
+      expect(result.find((c) => c.categoryId === 'travel')).toMatchObject({
+        total: 300,
+        percentage: 75,
+      })
+    })
   })
 
   describe('filterTransactionsByDateRange', () => {
@@ -388,6 +615,15 @@ describe('finances utilities', () => {
     })
   })
 
+  describe('getBudgetMonth', () => {
+    it('uses the statement month of credit card purchases', () => {
+      expect(getBudgetMonth(createTransaction({ date: '2024-01-15' }))).toBe('2024-01')
+      expect(
+        getBudgetMonth(createTransaction({ date: '2024-01-28', statementMonth: '2024-03' }))
+      ).toBe('2024-03')
+    })
+  })
+
   describe('calculateNextRecurrenceDate', () => {
     it('calculates next daily recurrence', () => {
       const result = calculateNextRecurrenceDate('2024-01-15', 'daily')
@@ -488,6 +724,136 @@ describe('finances utilities', () => {
     })
   })
 
+  describe('calculateCashFlowForecast', () => {
+    const account: Account = {
+      id: 'acc-1',
+      name: 'Checking',
+      type: 'checking',
+      openingBalance: 1000,
+      color: '#3b82f6',
+      isArchived: false,
+      createdAt: '2024-01-01T00:00:00Z',
+    }
+    const rent = createTransaction({
+      id: 'rent',
+      amount: 1500,
+      categoryId: 'housing',
+      date: '2024-01-20',
+      isRecurring: true,
+      recurrence: { frequency: 'monthly' },
+    })
+    const occurrence = (date: string): RecurringOccurrence => ({
+      transaction: rent,
+      occurrenceDate: date,
+      date,
+      amount: 1500,
+      description: 'Rent',
+      skipped: false,
+    })
+    const transactions = [
+      rent,
+      createTransaction({ id: 'salary', type: 'income', amount: 4500, date: '2024-03-05' }),
+      createTransaction({ id: 'food-jan', categoryId: 'food', amount: 400, date: '2024-01-10' }),
+      createTransaction({ id: 'food-feb', categoryId: 'food', amount: 200, date: '2024-02-10' }),
+      createTransaction({ id: 'food-mar', categoryId: 'food', amount: 50, date: '2024-03-12' }),
+      createTransaction({
+        id: 'tv-2',
+        categoryId: 'shopping',
+        amount: 300,
+        date: '2024-04-20',
+        installment: { groupId: 'tv', number: 2, count: 2 },
+      }),
+    ]
+    const occurrences = [occurrence('2024-03-20'), occurrence('2024-04-20')]
+
+    it('projects recurring, scheduled and average variable spending', () => {
+      const [march, april] = calculateCashFlowForecast(transactions, [account], '2024-03-15', 2, {
+        occurrences,
+      })
+
+      // 1000 + 4500 - 1500 - 400 - 200 - 50 already happened
+      expect(march).toMatchObject({ fixedExpenses: 1500, variableExpenses: 150, balance: 1700 })
+      expect(april).toMatchObject({ fixedExpenses: 1800, variableExpenses: 200, balance: -300 })
+    })
+
+    it('uses budgets, counting fixed expenses towards them', () => {
+      const template: BudgetTemplate = {
+        id: 'tpl-1',
+        categoryId: 'food',
+        amount: 500,
+        period: 'monthly',
+        rollover: false,
+        startMonth: '2024-01',
+        createdAt: '2024-01-01T00:00:00Z',
+      }
+      const templates = [template, { ...template, id: 'tpl-2', categoryId: 'housing', amount: 1600 }]
+      const [, april] = calculateCashFlowForecast(transactions, [account], '2024-03-15', 2, {
+        occurrences,
+        templates,
+      })
+
+      expect(april.variableExpenses).toBe(500 + 100)
+    })
+
+    it('does not take fixed expenses off the average of their category', () => {
+      const withRepairs = [
+        ...transactions,
+        createTransaction({ id: 'repair-jan', categoryId: 'housing', amount: 600, date: '2024-01-25' }),
+        createTransaction({ id: 'repair-feb', categoryId: 'housing', amount: 300, date: '2024-02-25' }),
+      ]
+      const [march, april] = calculateCashFlowForecast(withRepairs, [account], '2024-03-15', 2, {
+        occurrences,
+      })
+
+      // Housing averages 300 on top of the rent; food 200, 50 already spent in March
+      expect(march.variableExpenses).toBe(150 + 300)
+      expect(april.variableExpenses).toBe(200 + 300)
+    })
+
+    it('sets money aside for goals until their deadline', () => {
+      const goal = {
+        id: 'goal-1',
+        name: 'Trip',
+        targetAmount: 1500,
+        currentAmount: 300,
+        deadline: '2024-05-31',
+        color: '#22c55e',
+        contributions: [],
+        createdAt: '2024-01-01T00:00:00Z',
+      }
+      const forecast = calculateCashFlowForecast([], [], '2024-03-15', 4, { goals: [goal] })
+
+      expect(forecast.map((m) => m.goalContributions)).toEqual([400, 400, 400, 0])
+
+      // Expenses in the contribution category already move the money
+      const funded = { ...goal, contributionCategoryId: 'savings' }
+      const fundedForecast = calculateCashFlowForecast([], [], '2024-03-15', 4, {
+        goals: [funded],
+      })
+
+      expect(fundedForecast.every((m) => m.goalContributions === 0)).toBe(true)
+    })
+
+    it('applies only enabled what-if items', () => {
+      const repair: ForecastAdjustment = {
+        id: 'a',
+        description: 'Car repair',
+        type: 'expense',
+        amount: 800,
+        month: '2024-04',
+        enabled: true,
+      }
+      const adjustments: ForecastAdjustment[] = [
+        repair,
+        { ...repair, id: 'b', description: 'Laptop', amount: 5000, enabled: false },
+        { ...repair, id: 'c', description: 'Bonus', type: 'income', amount: 300 },
+      ]
+      const [, april] = calculateCashFlowForecast([], [], '2024-03-15', 2, { adjustments })
+
+      expect(april).toMatchObject({ adjustments: -500, net: -500, balance: -500 })
+    })
+  })
+
   describe('calculateCompoundInterest', () => {
     it('calculates compound interest with monthly compounding', () => {
       const result = calculateCompoundInterest(10000, 500, 10, 5, 'monthly')
@@ -1,17 +1,29 @@
 import type {
   Transaction,
+  Account,
   MonthlyBalance,
   CategorySummary,
   CurrencyCode,
   CurrencyConfig,
-  CURRENCIES,
+  CurrencyConversion,
+  ExchangeRate,
   RecurrenceFrequency,
+  RecurringOccurrence,
+  BudgetTemplate,
+  FinancialGoal,
+  CashFlowForecastMonth,
+  ForecastAdjustment,
 } from '../types/finances'
 import { parseLocalDate } from './utils'
+import { shiftMonth } from './credit-card'
+import { CURRENCIES } from '../types/finances'
 
 // Re-export currencies for convenience
 export { CURRENCIES } from '../types/finances'
 
+// Category stored on transfers, which are not filed under income or expense
+export const TRANSFER_CATEGORY_ID = 'transfer'
+
 /**
  * Format a number as currency
  */
@@ -49,6 +61,157 @@ export function parseCurrencyInput(value: string): number {
   return parseFloat(normalized) || 0
 }
 
+type Convertible = Pick<Transaction, 'amount' | 'currency' | 'date'>
+
+export type ExchangeRateInput = Omit<ExchangeRate, 'id' | 'createdAt'>
+
+/**
+ * Whether a string is one of the supported currency codes
+ */
+export function isCurrencyCode(value: string): value is CurrencyCode {
+  return value in CURRENCIES
+}
+
+/**
+ * Rate to convert `from` into `to` on `date`: the latest rate on or before
+ * the date, or the oldest one after it for dates before the first rate.
+ * Rates stored the other way round are inverted. Returns undefined when the
+ * pair has no rates at all.
+ */
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: string
+): number | undefined {
+  if (from === to) return 1
+
+  let latest: { date: string; rate: number } | undefined
+  let oldestAfter: { date: string; rate: number } | undefined
+
+  for (const r of rates) {
+    const rate =
+      r.fromCurrency === from && r.toCurrency === to
+        ? r.rate
+        : r.fromCurrency === to && r.toCurrency === from
+          ? 1 / r.rate
+          : undefined
+    if (rate === undefined) continue
+
+    if (r.date <= date) {
+      if (!latest || r.date > latest.date) latest = { date: r.date, rate }
+    } else if (!oldestAfter || r.date < oldestAfter.date) {
+      oldestAfter = { date: r.date, rate }
+    }
+  }
+
+  return (latest ?? oldestAfter)?.rate
+}
+
+/**
+ * Convert an amount between currencies, or undefined without a rate.
+ */
+export function convertAmount(
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: string,
+  rates: ExchangeRate[]
+): number | undefined {
+  const rate = findExchangeRate(rates, from, to, date)
+  return rate === undefined ? undefined : amount * rate
+}
+
+/**
+ * Amount in the base currency, using the rate of its date. Amounts without a
+ * currency are already in the base currency; amounts with no rate are kept
+ * as they are (see getMissingRateCurrencies to warn about them).
+ */
+export function toBaseAmount(item: Convertible, conversion?: CurrencyConversion): number {
+  if (!conversion || !item.currency) return item.amount
+
+  return (
+    convertAmount(item.amount, item.currency, conversion.baseCurrency, item.date, conversion.rates) ??
+    item.amount
+  )
+}
+
+/**
+ * Whether an amount is in a currency other than the base one.
+ */
+export function isForeignCurrency(
+  item: Pick<Transaction, 'currency'>,
+  baseCurrency: CurrencyCode
+): boolean {
+  return item.currency !== undefined && item.currency !== baseCurrency
+}
+
+/**
+ * Currencies used by the transactions that have no rate to the base currency.
+ */
+export function getMissingRateCurrencies(
+  transactions: Convertible[],
+  conversion: CurrencyConversion
+): CurrencyCode[] {
+  const missing = new Set<CurrencyCode>()
+
+  for (const t of transactions) {
+    if (
+      t.currency &&
+      !missing.has(t.currency) &&
+      findExchangeRate(conversion.rates, t.currency, conversion.baseCurrency, t.date) === undefined
+    ) {
+      missing.add(t.currency)
+    }
+  }
+
+  return [...missing].sort()
+}
+
+function parseRateDate(value: string): string {
+  const trimmed = value.trim()
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed
+
+  const match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (!match) throw new Error(`Invalid exchange rate date: ${value}`)
+  return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`
+}
+
+/**
+ * Parse exchange rates from CSV with the columns date, from, to and rate,
+ * e.g. "2024-01-15,USD,BRL,4.95" (1 USD = 4.95 BRL). Dates may be
+ * YYYY-MM-DD or DD/MM/YYYY. Files separated by ";" use a decimal comma.
+ * A header row is skipped.
+ */
+export function parseExchangeRatesCsv(content: string): ExchangeRateInput[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+  if (lines.length === 0) return []
+
+  const delimiter = lines[0].includes(';') ? ';' : ','
+  const rows = lines.map((line) => line.split(delimiter).map((field) => field.trim()))
+  const hasHeader = !/\d/.test(rows[0][0] ?? '')
+
+  return rows.slice(hasHeader ? 1 : 0).map((fields) => {
+    const [date, from, to, rateValue] = fields
+    const fromCurrency = (from ?? '').toUpperCase()
+    const toCurrency = (to ?? '').toUpperCase()
+
+    if (!isCurrencyCode(fromCurrency) || !isCurrencyCode(toCurrency)) {
+      throw new Error(`Unsupported currency: ${fields.join(delimiter)}`)
+    }
+
+    const rate = Number(delimiter === ';' ? rateValue?.replace(',', '.') : rateValue)
+    if (!rateValue || Number.isNaN(rate) || rate <= 0) {
+      throw new Error(`Invalid exchange rate: ${fields.join(delimiter)}`)
+    }
+
+    return { date: parseRateDate(date), fromCurrency, toCurrency, rate }
+  })
+}
+
 /**
  * Get a date string in YYYY-MM-DD format using local timezone
  */
@@ -72,11 +235,14 @@ export function getCurrentMonth(): string {
 // Note: getTodayString is exported from utils.ts to avoid duplication
 
 /**
- * Calculate monthly balance from transactions
+ * Calculate monthly balance from transactions.
+ * Transfers between accounts count towards neither income nor expenses.
+ * With a conversion, amounts in other currencies are converted to the base one.
  */
 export function calculateMonthlyBalance(
   transactions: Transaction[],
-  month: string
+  month: string,
+  conversion?: CurrencyConversion
 ): MonthlyBalance {
   const monthTransactions = transactions.filter((t) =>
     t.date.startsWith(month)
@@ -84,11 +250,11 @@ export function calculateMonthlyBalance(
 
   const totalIncome = monthTransactions
     .filter((t) => t.type === 'income')
-    .reduce((sum, t) => sum + t.amount, 0)
+    .reduce((sum, t) => sum + toBaseAmount(t, conversion), 0)
 
   const totalExpenses = monthTransactions
     .filter((t) => t.type === 'expense')
-    .reduce((sum, t) => sum + t.amount, 0)
+    .reduce((sum, t) => sum + toBaseAmount(t, conversion), 0)
 
   return {
     month,
@@ -100,21 +266,96 @@ export function calculateMonthlyBalance(
 }
 
 /**
- * Calculate category summaries for a given period
+ * Current balance of each account, in the account's currency: its opening
+ * balance plus income, minus expenses, with transfers moving money from the
+ * source to the destination. Transactions without an account are ignored.
+ * With a conversion, transactions in another currency are converted at the
+ * rate of their date, so a transfer between accounts in different currencies
+ * arrives converted.
+ */
+export function calculateAccountBalances(
+  accounts: Account[],
+  transactions: Transaction[],
+  conversion?: CurrencyConversion
+): Record<string, number> {
+  const balances: Record<string, number> = {}
+  const currencies: Record<string, CurrencyCode | undefined> = {}
+  for (const account of accounts) {
+    balances[account.id] = account.openingBalance
+    currencies[account.id] = account.currency
+  }
+
+  const add = (accountId: string | undefined, amount: number, t: Transaction) => {
+    if (!accountId || !(accountId in balances)) return
+
+    const from = t.currency ?? conversion?.baseCurrency
+    const to = currencies[accountId] ?? conversion?.baseCurrency
+    balances[accountId] +=
+      conversion && from && to
+        ? (convertAmount(amount, from, to, t.date, conversion.rates) ?? amount)
+        : amount
+  }
+
+  for (const t of transactions) {
+    if (t.type === 'income') {
+      add(t.accountId, t.amount, t)
+    } else if (t.type === 'expense') {
+      add(t.accountId, -t.amount, t)
+    } else {
+      add(t.accountId, -t.amount, t)
+      add(t.toAccountId, t.amount, t)
+    }
+  }
+
+  return balances
+}
+
+/**
+ * Overall balance: opening balances of all accounts plus all income minus all
+ * expenses. Transfers only move money around and leave it unchanged.
+ * With a conversion, opening balances are converted at the rate of the day
+ * the account was created and transactions at the rate of their date.
+ */
+export function calculateTotalBalance(
+  transactions: Transaction[],
+  accounts: Account[] = [],
+  conversion?: CurrencyConversion
+): number {
+  const openingBalance = accounts.reduce(
+    (sum, a) =>
+      sum +
+      toBaseAmount(
+        { amount: a.openingBalance, currency: a.currency, date: a.createdAt.slice(0, 10) },
+        conversion
+      ),
+    0
+  )
+
+  return transactions.reduce((sum, t) => {
+    if (t.type === 'income') return sum + toBaseAmount(t, conversion)
+    if (t.type === 'expense') return sum - toBaseAmount(t, conversion)
+    return sum
+  }, openingBalance)
+}
+
+/**
+ * Calculate category summaries for a given period, in the base currency when
+ * a conversion is given
  */
 export function calculateCategorySummaries(
   transactions: Transaction[],
-  type: 'income' | 'expense'
+  type: 'income' | 'expense',
+  conversion?: CurrencyConversion
 ): CategorySummary[] {
   const filtered = transactions.filter((t) => t.type === type)
-  const total = filtered.reduce((sum, t) => sum + t.amount, 0)
+  const total = filtered.reduce((sum, t) => sum + toBaseAmount(t, conversion), 0)
 
   const byCategory = filtered.reduce(
     (acc, t) => {
       if (!acc[t.categoryId]) {
         acc[t.categoryId] = { total: 0, count: 0 }
       }
-      acc[t.categoryId].total += t.amount
+      acc[t.categoryId].total += toBaseAmount(t, conversion)
       acc[t.categoryId].count += 1
       return acc
     },
@@ -150,6 +391,15 @@ export function filterTransactionsByMonth(
   return transactions.filter((t) => t.date.startsWith(month))
 }
 
+/**
+ * Month a transaction counts towards in budgets. Credit card purchases count
+ * in the month their statement is due, so each installment lands in the
+ * month it is billed.
+ */
+export function getBudgetMonth(transaction: Pick<Transaction, 'date' | 'statementMonth'>): string {
+  return transaction.statementMonth ?? transaction.date.slice(0, 7)
+}
+
 /**
  * Calculate next recurrence date
  */
@@ -224,6 +474,158 @@ export function getLastNMonths(n: number): string[] {
   return months
 }
 
+/**
+ * Month-by-month cash flow forecast, starting with the current month, from
+ * today's total balance.
+ *
+ * Income and fixed expenses come from recurring occurrences (skips and edits
+ * applied) and from transactions already recorded with a future date, such as
+ * card installments. Variable spending follows the budget of each category or,
+ * where there is none, the average of the last `historyMonths` full months,
+ * leaving out recurring and installment expenses. Everything already spent or
+ * scheduled in the month counts towards a budget; only variable spending
+ * already recorded counts towards an average, which has no fixed expenses. Goals with a deadline set aside
+ * an even share of what is missing every month until then, unless expenses
+ * in their contribution category already fund them.
+ */
+export function calculateCashFlowForecast(
+  transactions: Transaction[],
+  accounts: Account[],
+  today: string,
+  months: number,
+  options: {
+    occurrences?: RecurringOccurrence[]
+    templates?: BudgetTemplate[]
+    goals?: FinancialGoal[]
+    adjustments?: ForecastAdjustment[]
+    conversion?: CurrencyConversion
+    historyMonths?: number
+  } = {}
+): CashFlowForecastMonth[] {
+  const { occurrences = [], templates = [], goals = [], adjustments = [], conversion } = options
+  const historyMonths = options.historyMonths ?? 3
+  const currentMonth = today.slice(0, 7)
+  const forecastMonths = Array.from({ length: months }, (_, i) => shiftMonth(currentMonth, i))
+
+  const income = new Map<string, number>()
+  const fixed = new Map<string, number>()
+  // Expenses already spent or scheduled, per category and month, and the
+  // variable ones among them
+  const committed = new Map<string, number>()
+  const committedVariable = new Map<string, number>()
+  const add = (totals: Map<string, number>, key: string, amount: number) =>
+    totals.set(key, (totals.get(key) ?? 0) + amount)
+
+  const isVariable = (t: Transaction) => !t.isRecurring && !t.recurrenceParentId && !t.installment
+  const firstHistoryMonth = shiftMonth(currentMonth, -historyMonths)
+  const history = new Map<string, number>()
+
+  for (const t of transactions) {
+    if (t.type === 'transfer') continue
+    const month = t.date.slice(0, 7)
+    const amount = toBaseAmount(t, conversion)
+
+    if (t.date > today) {
+      add(t.type === 'income' ? income : fixed, month, amount)
+    }
+    if (t.type !== 'expense') continue
+
+    if (month >= currentMonth) {
+      add(committed, `${t.categoryId}:${month}`, amount)
+      if (isVariable(t)) add(committedVariable, `${t.categoryId}:${month}`, amount)
+    } else if (month >= firstHistoryMonth && isVariable(t)) {
+      add(history, t.categoryId, amount)
+    }
+  }
+
+  for (const o of occurrences) {
+    if (o.skipped || o.materialized || o.date <= today) continue
+    const month = o.date.slice(0, 7)
+    const amount = toBaseAmount(
+      { amount: o.amount, currency: o.transaction.currency, date: o.date },
+      conversion
+    )
+
+    if (o.transaction.type === 'income') {
+      add(income, month, amount)
+    } else if (o.transaction.type === 'expense') {
+      add(fixed, month, amount)
+      add(committed, `${o.transaction.categoryId}:${month}`, amount)
+    }
+  }
+
+  // Spending still expected in a category: what is left of its budget, or of
+  // its recent average
+  const expected = (categoryId: string, month: string): number => {
+    const key = `${categoryId}:${month}`
+    const template = templates.find((t) => t.categoryId === categoryId && t.startMonth <= month)
+    if (template) {
+      const budget = template.period === 'yearly' ? template.amount / 12 : template.amount
+      return Math.max(0, budget - (committed.get(key) ?? 0))
+    }
+    const average = (history.get(categoryId) ?? 0) / historyMonths
+    return Math.max(0, average - (committedVariable.get(key) ?? 0))
+  }
+  const categoryIds = new Set([...history.keys(), ...templates.map((t) => t.categoryId)])
+
+  const goalPlans = goals
+    .filter(
+      (g) =>
+        !g.completedAt &&
+        !g.contributionCategoryId &&
+        g.deadline &&
+        g.deadline.slice(0, 7) >= currentMonth
+    )
+    .map((g) => {
+      const deadlineMonth = g.deadline!.slice(0, 7)
+      const missing = Math.max(0, g.targetAmount - g.currentAmount)
+      const monthsLeft = getMonthsBetween(currentMonth, deadlineMonth).length
+      return {
+        deadlineMonth,
+        monthly: toBaseAmount(
+          { amount: missing / monthsLeft, currency: g.currency, date: today },
+          conversion
+        ),
+      }
+    })
+
+  let balance = calculateTotalBalance(
+    transactions.filter((t) => t.date <= today),
+    accounts,
+    conversion
+  )
+
+  return forecastMonths.map((month) => {
+    let variableExpenses = 0
+    for (const categoryId of categoryIds) {
+      variableExpenses += expected(categoryId, month)
+    }
+
+    const goalContributions = goalPlans
+      .filter((p) => month <= p.deadlineMonth)
+      .reduce((sum, p) => sum + p.monthly, 0)
+    const adjustmentsTotal = adjustments
+      .filter((a) => a.enabled && a.month === month)
+      .reduce((sum, a) => sum + (a.type === 'income' ? a.amount : -a.amount), 0)
+    const monthIncome = income.get(month) ?? 0
+    const fixedExpenses = fixed.get(month) ?? 0
+    const net =
+      monthIncome - fixedExpenses - variableExpenses - goalContributions + adjustmentsTotal
+    balance += net
+
+    return {
+      month,
+      income: monthIncome,
+      fixedExpenses,
+      variableExpenses,
+      goalContributions,
+      adjustments: adjustmentsTotal,
+      net,
+      balance,
+    }
+  })
+}
+
 /**
  * Calculate compound interest
  */
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractPageFlashcards,
+  createFlashcardSchedule,
+  scheduleFlashcard,
+  getDueFlashcards,
+} from './flashcards'
+import { markdownToBlocks } from './markdown'
+
+describe('flashcards', () => {
+  describe('extractPageFlashcards', () => {
+    it('should find "question :: answer" blocks at any depth', () => {
+      const blocks = markdownToBlocks(
+        [
+          '# Limites',
+          'Limite de sen(x)/x em 0 :: 1',
+          '- Derivada de **x²** :: 2x',
+          '  - Derivada de e^x :: e^x',
+          'Texto sem cartão',
+        ].join('\n')
+      )
+
+      expect(extractPageFlashcards(blocks)).toEqual([
+        { front: 'Limite de sen(x)/x em 0', back: '1' },
+        { front: 'Derivada de x²', back: '2x' },
+        { front: 'Derivada de e^x', back: 'e^x' },
+      ])
+    })
+
+    it('should split on the first separator only', () => {
+      const blocks = markdownToBlocks('Operador de escopo em C++ :: ::')
+
+      expect(extractPageFlashcards(blocks)).toEqual([
+        { front: 'Operador de escopo em C++', back: '::' },
+      ])
+    })
+
+    it('should skip code, blank sides and repeated questions', () => {
+      const blocks = markdownToBlocks(
+        [
+          '```',
+          'std::vector :: lista',
+          '```',
+          ':: sem pergunta',
+          'Sem resposta ::',
+          'Use std::vector para listas',
+          'Capital :: Brasília',
+          'capital :: Lima',
+        ].join('\n')
+      )
+
+      expect(extractPageFlashcards(blocks)).toEqual([{ front: 'Capital', back: 'Brasília' }])
+    })
+  })
+
+  describe('scheduleFlashcard', () => {
+    const today = '2026-10-18'
+
+    it('should make a new card due today', () => {
+      expect(createFlashcardSchedule(today)).toEqual({
+        ease: 2.5,
+        interval: 0,
+        repetitions: 0,
+        dueDate: today,
+      })
+    })
+
+    it('should space good answers 1 and 6 days apart, then by the ease', () => {
+      const first = scheduleFlashcard(createFlashcardSchedule(today), 'good', today)
+      expect(first).toEqual({ ease: 2.5, interval: 1, repetitions: 1, dueDate: '2026-10-19' })
+
+      const second = scheduleFlashcard(first, 'good', '2026-10-19')
+      expect(second).toEqual({ ease: 2.5, interval: 6, repetitions: 2, dueDate: '2026-10-25' })
+
+      const third = scheduleFlashcard(second, 'good', '2026-10-25')
+      expect(third).toEqual({ ease: 2.5, interval: 15, repetitions: 3, dueDate: '2026-11-09' })
+    })
+
+    it('should start the card over on "again" and lower the ease', () => {
+      const schedule = { ease: 2.5, interval: 15, repetitions: 3, dueDate: today }
+
+      expect(scheduleFlashcard(schedule, 'again', today)).toEqual({
+        ease: 1.96,
+        interval: 1,
+        repetitions: 0,
+        dueDate: '2026-10-19',
+      })
+    })
+
+    it('should grow the interval less on "hard" and more on "easy"', () => {
+      const schedule = { ease: 2.5, interval: 10, repetitions: 3, dueDate: today }
+
+      expect(scheduleFlashcard(schedule, 'hard', today)).toEqual({
+        ease: 2.36,
+        interval: 12,
+        repetitions: 4,
+        dueDate: '2026-10-30',
+      })
+      expect(scheduleFlashcard(schedule, 'easy', today)).toEqual({
+        ease: 2.6,
+        interval: 34,
+        repetitions: 4,
+        dueDate: '2026-11-21',
+      })
+    })
+
+    it('should never lower the ease below 1.3', () => {
+      const schedule = { ease: 1.4, interval: 1, repetitions: 0, dueDate: today }
+
+      expect(scheduleFlashcard(schedule, 'again', today).ease).toBe(1.3)
+    })
+  })
+
+  describe('getDueFlashcards', () => {
+    it('should return cards due up to today, the most overdue first', () => {
+      const cards = [
+        { id: 'a', ease: 2.5, interval: 1, repetitions: 1, dueDate: '2026-10-18' },
+        { id: 'b', ease: 2.5, interval: 6, repetitions: 2, dueDate: '2026-10-25' },
+        { id: 'c', ease: 2.5, interval: 1, repetitions: 1, dueDate: '2026-10-10' },
+      ]
+
+      expect(getDueFlashcards(cards, '2026-10-18').map((card) => card.id)).toEqual(['c', 'a'])
+    })
+  })
+})
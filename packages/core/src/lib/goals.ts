@@ -0,0 +1,207 @@
+import type {
+  CurrencyCode,
+  FinancialGoal,
+  GoalPlan,
+  RecurrenceFrequency,
+  Transaction,
+} from '../types/finances'
+import { getMonthsBetween } from './finances'
+import { shiftMonth } from './credit-card'
+import { isRecurringTemplate } from './recurring-transactions'
+
+export interface PendingGoalContribution {
+  goalId: string
+  transactionId: string
+  amount: number
+  date: string
+  note?: string
+}
+
+// Months of contribution history the current pace is taken from
+const PACE_MONTHS = 3
+
+const OCCURRENCES_PER_MONTH: Record<RecurrenceFrequency, number> = {
+  daily: 365 / 12,
+  weekly: 52 / 12,
+  biweekly: 26 / 12,
+  monthly: 1,
+  yearly: 1 / 12,
+}
+
+export function getGoalRemaining(goal: FinancialGoal): number {
+  return Math.max(0, goal.targetAmount - goal.currentAmount)
+}
+
+// Auto contributions only come from expenses in the goal's own currency. An
+// unset currency is the base currency, on the goal and on the expense alike
+function isContributionExpense(
+  goal: FinancialGoal,
+  transaction: Transaction,
+  baseCurrency: CurrencyCode
+): boolean {
+  return (
+    !!goal.contributionCategoryId &&
+    transaction.type === 'expense' &&
+    transaction.categoryId === goal.contributionCategoryId &&
+    (transaction.currency ?? baseCurrency) === (goal.currency ?? baseCurrency)
+  )
+}
+
+/**
+ * Amount to set aside every month, the current one included, to reach the
+ * target by the deadline. A past deadline needs everything that is missing
+ * right away; goals without a deadline have no required amount.
+ */
+export function getRequiredMonthlyContribution(
+  goal: FinancialGoal,
+  today: string
+): number | undefined {
+  if (!goal.deadline) return undefined
+
+  const remaining = getGoalRemaining(goal)
+  const currentMonth = today.slice(0, 7)
+  const deadlineMonth = goal.deadline.slice(0, 7)
+  if (deadlineMonth < currentMonth) return remaining
+
+  return remaining / getMonthsBetween(currentMonth, deadlineMonth).length
+}
+
+/**
+ * Average contributed per month over the last `months` months, the current
+ * one included. Goals created more recently average over their own lifetime.
+ */
+export function getAverageMonthlyContribution(
+  goal: FinancialGoal,
+  today: string,
+  months: number = PACE_MONTHS
+): number {
+  const currentMonth = today.slice(0, 7)
+  const windowStart = shiftMonth(currentMonth, -(months - 1))
+  const createdMonth = goal.createdAt.slice(0, 7)
+  const firstMonth = createdMonth > windowStart ? createdMonth : windowStart
+  if (firstMonth > currentMonth) return 0
+
+  const total = goal.contributions
+    .filter((c) => c.date.slice(0, 7) >= firstMonth && c.date <= today)
+    .reduce((sum, c) => sum + c.amount, 0)
+
+  return total / getMonthsBetween(firstMonth, currentMonth).length
+}
+
+/**
+ * Monthly amount that recurring expenses in the goal's contribution category
+ * are scheduled to put into it.
+ */
+export function getPlannedMonthlyContribution(
+  goal: FinancialGoal,
+  transactions: Transaction[],
+  today: string,
+  baseCurrency: CurrencyCode
+): number {
+  return transactions
+    .filter(
+      (t) =>
+        isRecurringTemplate(t) &&
+        isContributionExpense(goal, t, baseCurrency) &&
+        (!t.recurrence!.endDate || t.recurrence!.endDate >= today)
+    )
+    .reduce((sum, t) => sum + t.amount * OCCURRENCES_PER_MONTH[t.recurrence!.frequency], 0)
+}
+
+/**
+ * Month (YYYY-MM) the goal is reached contributing `monthly` every month from
+ * the current one on, or undefined when nothing is being contributed.
+ */
+export function projectGoalCompletion(
+  goal: FinancialGoal,
+  monthly: number,
+  today: string
+): string | undefined {
+  const remaining = getGoalRemaining(goal)
+  const currentMonth = today.slice(0, 7)
+  if (remaining === 0) return currentMonth
+  if (monthly <= 0) return undefined
+
+  // Tolerance keeps an exact required amount from spilling into one more month
+  const monthsNeeded = Math.ceil(remaining / monthly - 1e-9)
+  return shiftMonth(currentMonth, monthsNeeded - 1)
+}
+
+/**
+ * Contribution plan of a goal. The pace is what recurring expenses in its
+ * contribution category schedule, or the recent average when there are none;
+ * a goal is off track when that pace does not reach the target by the
+ * deadline.
+ */
+export function getGoalPlan(
+  goal: FinancialGoal,
+  transactions: Transaction[],
+  today: string,
+  baseCurrency: CurrencyCode
+): GoalPlan {
+  const remaining = getGoalRemaining(goal)
+  const requiredMonthly = getRequiredMonthlyContribution(goal, today)
+  const averageMonthly = getAverageMonthlyContribution(goal, today)
+  const plannedMonthly = getPlannedMonthlyContribution(goal, transactions, today, baseCurrency)
+  const pace = plannedMonthly > 0 ? plannedMonthly : averageMonthly
+  const projectedCompletion = projectGoalCompletion(goal, pace, today)
+
+  let status: GoalPlan['status']
+  if (goal.completedAt || remaining === 0) {
+    status = 'completed'
+  } else if (!goal.deadline) {
+    status = 'no_deadline'
+  } else if (projectedCompletion && projectedCompletion <= goal.deadline.slice(0, 7)) {
+    status = 'on_track'
+  } else {
+    status = 'off_track'
+  }
+
+  return { remaining, requiredMonthly, averageMonthly, plannedMonthly, projectedCompletion, status }
+}
+
+/**
+ * Contributions still to be made by expenses in each goal's contribution
+ * category: those recorded since the goal was created and not linked to a
+ * contribution yet, oldest first, until the target is reached.
+ */
+export function getPendingGoalContributions(
+  goals: FinancialGoal[],
+  transactions: Transaction[],
+  today: string,
+  baseCurrency: CurrencyCode
+): PendingGoalContribution[] {
+  const pending: PendingGoalContribution[] = []
+
+  for (const goal of goals) {
+    if (!goal.contributionCategoryId || goal.completedAt) continue
+
+    const linked = new Set(goal.contributions.map((c) => c.transactionId).filter(Boolean))
+    const since = goal.createdAt.slice(0, 10)
+    let remaining = getGoalRemaining(goal)
+
+    const expenses = transactions
+      .filter(
+        (t) =>
+          isContributionExpense(goal, t, baseCurrency) &&
+          t.date >= since &&
+          t.date <= today &&
+          !linked.has(t.id)
+      )
+      .sort((a, b) => a.date.localeCompare(b.date))
+
+    for (const t of expenses) {
+      if (remaining <= 0) break
+      pending.push({
+        goalId: goal.id,
+        transactionId: t.id,
+        amount: t.amount,
+        date: t.date,
+        note: t.description,
+      })
+      remaining -= t.amount
+    }
+  }
+
+  return pending
+}
@@ -0,0 +1,104 @@
+import type { Habit, HabitFrequency, Vacation } from '../types'
+import { parseLocalDate } from './utils'
+
+const MS_PER_DAY = 86400000
+
+function toDateString(date: Date): string {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (negative if `to` is earlier).
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseLocalDate(to).getTime() - parseLocalDate(from).getTime()) / MS_PER_DAY)
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days (negative to go back).
+ */
+export function addDays(date: string, days: number): string {
+  const d = parseLocalDate(date)
+  d.setDate(d.getDate() + days)
+  return toDateString(d)
+}
+
+/**
+ * Date of the Nth weekday in a month, e.g. the 2nd Tuesday or (week -1) the last Friday.
+ * `month` is 0-11 and `weekday` is 0-6 (Sun-Sat).
+ */
+export function getNthWeekdayOfMonth(
+  year: number,
+  month: number,
+  week: number,
+  weekday: number
+): string {
+  if (week === -1) {
+    const lastDay = new Date(year, month + 1, 0)
+    const offset = (lastDay.getDay() - weekday + 7) % 7
+    return toDateString(new Date(year, month, lastDay.getDate() - offset))
+  }
+
+  const firstDay = new Date(year, month, 1)
+  const offset = (weekday - firstDay.getDay() + 7) % 7
+  return toDateString(new Date(year, month, 1 + offset + (week - 1) * 7))
+}
+
+/**
+ * Most recent Nth-weekday date on or before the given date.
+ */
+export function getPreviousNthWeekday(date: string, week: number, weekday: number): string {
+  const d = parseLocalDate(date)
+  const candidate = getNthWeekdayOfMonth(d.getFullYear(), d.getMonth(), week, weekday)
+  if (candidate <= date) return candidate
+  return getNthWeekdayOfMonth(d.getFullYear(), d.getMonth() - 1, week, weekday)
+}
+
+/**
+ * Whether the date falls inside one of the vacation ranges.
+ */
+export function isVacationDay(
+  date: string,
+  vacations: Pick<Vacation, 'startDate' | 'endDate'>[] = []
+): boolean {
+  return vacations.some((v) => date >= v.startDate && date <= v.endDate)
+}
+
+/**
+ * Whether a habit should be done on the given date (YYYY-MM-DD).
+ * Weekly and monthly habits have no fixed days, so they are due every day
+ * until their quota is met. Nothing is due during a vacation.
+ */
+export function isHabitDueOn(
+  habit: Pick<Habit, 'frequency' | 'completions'>,
+  date: string,
+  vacations: Pick<Vacation, 'startDate' | 'endDate'>[] = []
+): boolean {
+  const frequency: HabitFrequency = habit.frequency
+  if (isVacationDay(date, vacations)) return false
+
+  switch (frequency.type) {
+    case 'daily':
+    case 'weekly':
+    case 'monthly':
+      return true
+    case 'specificDays':
+      return frequency.days.includes(parseLocalDate(date).getDay())
+    case 'interval': {
+      // Due again once `everyDays` days have passed since the last completion
+      if (habit.completions.some((c) => c.date === date)) return true
+      const lastCompletion = habit.completions
+        .map((c) => c.date)
+        .filter((d) => d < date)
+        .sort()
+        .pop()
+      if (!lastCompletion) return true
+      return daysBetween(lastCompletion, date) >= frequency.everyDays
+    }
+    case 'nthWeekday':
+      return getPreviousNthWeekday(date, frequency.week, frequency.weekday) === date
+  }
+}
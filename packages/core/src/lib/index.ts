@@ -1,6 +1,22 @@
 // Shared utilities
 export * from './utils'
 export * from './finances'
+export * from './habits'
+export * from './streaks'
+export * from './tasks'
+export * from './recurrence'
+export * from './bank-import'
+export * from './categorization'
+export * from './credit-card'
+export * from './budgets'
+export * from './recurring-transactions'
+export * from './investments'
+export * from './goals'
+export * from './markdown'
+export * from './links'
+export * from './flashcards'
+export * from './page-revisions'
+export * from './search'
 // Note: currency.ts was merged into finances.ts
 // Note: data.ts and achievement-checker.ts are web-specific, kept in apps/web
 
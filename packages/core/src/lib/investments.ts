@@ -0,0 +1,277 @@
+import type {
+  CurrencyConversion,
+  InvestmentAsset,
+  InvestmentEvent,
+  InvestmentEventType,
+  InvestmentPosition,
+  InvestmentPrice,
+  InvestmentSimulation,
+  PortfolioHistoryPoint,
+  PortfolioSummary,
+  Transaction,
+} from '../types/finances'
+import { toBaseAmount } from './finances'
+import { shiftMonth } from './credit-card'
+
+export type InvestmentAssetInput = Omit<InvestmentAsset, 'id' | 'createdAt'>
+export type InvestmentEventInput = Omit<InvestmentEvent, 'id' | 'createdAt' | 'transactionId'>
+export type InvestmentSimulationInput = Omit<InvestmentSimulation, 'id' | 'createdAt'>
+
+// The CDI accrues on business days, 252 of them in a year by convention
+const BUSINESS_DAYS_PER_YEAR = 252
+
+export const INVESTMENTS_CATEGORY_ID = 'investments'
+
+/**
+ * Yearly rate (%) a simulation yields. A percentage of the CDI applies to its
+ * daily rate, so 100% of the CDI yields exactly the CDI; an IPCA spread
+ * compounds on top of inflation.
+ */
+export function getEffectiveAnnualRate(
+  simulation: Pick<InvestmentSimulation, 'annualRate' | 'yieldIndex' | 'indexRate'>
+): number {
+  const { annualRate, yieldIndex, indexRate = 0 } = simulation
+
+  if (yieldIndex === 'cdi') {
+    const dailyCdi = Math.pow(1 + indexRate / 100, 1 / BUSINESS_DAYS_PER_YEAR) - 1
+    return (Math.pow(1 + dailyCdi * (annualRate / 100), BUSINESS_DAYS_PER_YEAR) - 1) * 100
+  }
+  if (yieldIndex === 'ipca') {
+    return ((1 + indexRate / 100) * (1 + annualRate / 100) - 1) * 100
+  }
+  return annualRate
+}
+
+/**
+ * Cash moved by an event: paid on buys, fees included, and received on sells
+ * net of fees. Dividends are entered as an amount.
+ */
+export function getEventAmount(
+  type: InvestmentEventType,
+  quantity: number,
+  price: number,
+  fees: number
+): number {
+  if (type === 'buy') return quantity * price + fees
+  if (type === 'sell') return quantity * price - fees
+  return 0
+}
+
+function compareEvents(a: InvestmentEvent, b: InvestmentEvent): number {
+  return a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+}
+
+/**
+ * Latest unit price of an asset on or before `date`: the last manual price or
+ * the price of the last buy or sell, whichever is more recent.
+ */
+export function getLatestPrice(
+  assetId: string,
+  events: InvestmentEvent[],
+  prices: InvestmentPrice[],
+  date?: string
+): { price: number; date: string } | undefined {
+  let latest: { price: number; date: string } | undefined
+
+  for (const p of prices) {
+    if (p.assetId !== assetId || (date && p.date > date)) continue
+    if (!latest || p.date > latest.date) latest = { price: p.price, date: p.date }
+  }
+  for (const e of events) {
+    if (e.assetId !== assetId || e.type === 'dividend' || (date && e.date > date)) continue
+    // A manual price on the same day wins over the trade price
+    if (!latest || e.date > latest.date) latest = { price: e.price, date: e.date }
+  }
+
+  return latest
+}
+
+/**
+ * Position in an asset from its events up to `date` (all of them by default).
+ */
+export function calculatePosition(
+  asset: InvestmentAsset,
+  events: InvestmentEvent[],
+  prices: InvestmentPrice[],
+  date?: string
+): InvestmentPosition {
+  const assetEvents = events
+    .filter((e) => e.assetId === asset.id && (!date || e.date <= date))
+    .sort(compareEvents)
+
+  let quantity = 0
+  let costBasis = 0
+  let invested = 0
+  let realizedGain = 0
+  let dividends = 0
+
+  for (const e of assetEvents) {
+    if (e.type === 'buy') {
+      quantity += e.quantity
+      costBasis += e.amount
+      invested += e.amount
+    } else if (e.type === 'sell') {
+      const sold = Math.min(e.quantity, quantity)
+      const soldCost = quantity > 0 ? (costBasis / quantity) * sold : 0
+      realizedGain += e.amount - soldCost
+      costBasis -= soldCost
+      quantity -= sold
+    } else {
+      dividends += e.amount
+    }
+  }
+
+  const latest = getLatestPrice(asset.id, assetEvents, prices, date)
+  const marketValue = quantity * (latest?.price ?? 0)
+  const unrealizedGain = marketValue - costBasis
+  const totalReturn = unrealizedGain + realizedGain + dividends
+
+  return {
+    asset,
+    quantity,
+    averageCost: quantity > 0 ? costBasis / quantity : 0,
+    costBasis,
+    price: latest?.price,
+    priceDate: latest?.date,
+    marketValue,
+    unrealizedGain,
+    realizedGain,
+    dividends,
+    totalReturn,
+    returnPercentage: invested > 0 ? (totalReturn / invested) * 100 : 0,
+  }
+}
+
+/**
+ * Positions of every asset, the ones sold out included so their realized
+ * gains still count.
+ */
+export function calculatePositions(
+  assets: InvestmentAsset[],
+  events: InvestmentEvent[],
+  prices: InvestmentPrice[],
+  date?: string
+): InvestmentPosition[] {
+  return assets.map((asset) => calculatePosition(asset, events, prices, date))
+}
+
+// Amount of a position in the base currency, at the rate of `date`
+function toBase(
+  amount: number,
+  asset: InvestmentAsset,
+  date: string,
+  conversion?: CurrencyConversion
+): number {
+  return toBaseAmount({ amount, currency: asset.currency, date }, conversion)
+}
+
+/**
+ * Totals of the portfolio in the base currency, converted at the rate of `date`.
+ */
+export function calculatePortfolioSummary(
+  positions: InvestmentPosition[],
+  events: InvestmentEvent[],
+  date: string,
+  conversion?: CurrencyConversion
+): PortfolioSummary {
+  const summary = positions.reduce(
+    (totals, p) => ({
+      marketValue: totals.marketValue + toBase(p.marketValue, p.asset, date, conversion),
+      costBasis: totals.costBasis + toBase(p.costBasis, p.asset, date, conversion),
+      unrealizedGain: totals.unrealizedGain + toBase(p.unrealizedGain, p.asset, date, conversion),
+      realizedGain: totals.realizedGain + toBase(p.realizedGain, p.asset, date, conversion),
+      dividends: totals.dividends + toBase(p.dividends, p.asset, date, conversion),
+    }),
+    { marketValue: 0, costBasis: 0, unrealizedGain: 0, realizedGain: 0, dividends: 0 }
+  )
+
+  const assetById = new Map(positions.map((p) => [p.asset.id, p.asset]))
+  const invested = events.reduce((sum, e) => {
+    const asset = assetById.get(e.assetId)
+    return e.type === 'buy' && asset && e.date <= date
+      ? sum + toBase(e.amount, asset, date, conversion)
+      : sum
+  }, 0)
+  const totalReturn = summary.unrealizedGain + summary.realizedGain + summary.dividends
+
+  return {
+    ...summary,
+    totalReturn,
+    returnPercentage: invested > 0 ? (totalReturn / invested) * 100 : 0,
+  }
+}
+
+function getMonthEnd(month: string): string {
+  const [year, mon] = month.split('-').map(Number)
+  return `${month}-${String(new Date(year, mon, 0).getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Portfolio value and cost basis at the end of each of the last `months`
+ * months, the current one ending today. Each month uses the latest price
+ * known by then.
+ */
+export function calculatePortfolioHistory(
+  assets: InvestmentAsset[],
+  events: InvestmentEvent[],
+  prices: InvestmentPrice[],
+  today: string,
+  months = 12,
+  conversion?: CurrencyConversion
+): PortfolioHistoryPoint[] {
+  const currentMonth = today.slice(0, 7)
+  const history: PortfolioHistoryPoint[] = []
+
+  for (let i = months - 1; i >= 0; i--) {
+    const month = shiftMonth(currentMonth, -i)
+    const date = i === 0 ? today : getMonthEnd(month)
+    const positions = calculatePositions(assets, events, prices, date)
+
+    history.push({
+      month,
+      value: positions.reduce(
+        (sum, p) => sum + toBase(p.marketValue, p.asset, date, conversion),
+        0
+      ),
+      invested: positions.reduce(
+        (sum, p) => sum + toBase(p.costBasis, p.asset, date, conversion),
+        0
+      ),
+    })
+  }
+
+  return history
+}
+
+/**
+ * Transaction recording the money an event moved. Buys and sells are
+ * transfers between `accountId` and the investment account the asset is held
+ * in, so they need both; dividends are income paid into `accountId`, or the
+ * asset's account when none is given.
+ */
+export function buildEventTransaction(
+  event: InvestmentEventInput,
+  asset: InvestmentAsset,
+  options: { accountId?: string; description: string }
+): Omit<Transaction, 'id' | 'createdAt'> | undefined {
+  const { accountId, description } = options
+  const base = {
+    amount: event.amount,
+    currency: asset.currency,
+    categoryId: INVESTMENTS_CATEGORY_ID,
+    description,
+    date: event.date,
+    isRecurring: false,
+  }
+
+  if (event.type === 'dividend') {
+    const target = accountId ?? asset.accountId
+    return target ? { ...base, type: 'income', accountId: target } : undefined
+  }
+
+  if (!accountId || !asset.accountId) return undefined
+
+  return event.type === 'buy'
+    ? { ...base, type: 'transfer', accountId, toAccountId: asset.accountId }
+    : { ...base, type: 'transfer', accountId: asset.accountId, toAccountId: accountId }
+}
@@ -0,0 +1,134 @@
+import type { RevisionDiffLine } from '../types/studies'
+
+// Autosave writes a page every few seconds while it is edited; a revision is
+// taken at most this often, so a revision covers a whole editing burst
+export const REVISION_INTERVAL_MINUTES = 10
+
+// Every revision of the last day is kept, then the last one of each day up to
+// this many days back, and never more than MAX_PAGE_REVISIONS per page
+export const REVISION_RETENTION_DAYS = 30
+export const MAX_PAGE_REVISIONS = 50
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+/**
+ * Whether saving a page should first keep its current text as a revision.
+ * Nothing is kept for empty pages or edits that leave the text as it was;
+ * otherwise a revision is taken once per interval, or right away when the
+ * edit removes more than half of the page, so a select-all-delete can always
+ * be undone.
+ */
+export function shouldCaptureRevision(options: {
+  previousText: string
+  nextText: string
+  lastRevisionAt?: string
+  now: Date
+}): boolean {
+  const { previousText, nextText, lastRevisionAt, now } = options
+
+  if (!previousText.trim() || previousText === nextText) return false
+  if (!lastRevisionAt) return true
+  if (nextText.trim().length < previousText.trim().length / 2) return true
+
+  return now.getTime() - new Date(lastRevisionAt).getTime() >= REVISION_INTERVAL_MINUTES * MINUTE_MS
+}
+
+// Ids of the revisions the retention policy lets go
+export function getRevisionsToPrune(
+  revisions: { id: string; createdAt: string }[],
+  now: Date
+): string[] {
+  const newestFirst = [...revisions].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  const keptDays = new Set<string>()
+  const pruned: string[] = []
+  let kept = 0
+
+  for (const revision of newestFirst) {
+    const age = now.getTime() - new Date(revision.createdAt).getTime()
+    const day = revision.createdAt.slice(0, 10)
+
+    const keep =
+      kept < MAX_PAGE_REVISIONS &&
+      (age < DAY_MS || (age < REVISION_RETENTION_DAYS * DAY_MS && !keptDays.has(day)))
+
+    if (keep) {
+      kept++
+      keptDays.add(day)
+    } else {
+      pruned.push(revision.id)
+    }
+  }
+
+  return pruned
+}
+
+/**
+ * Line diff from one version of a page to another (longest common
+ * subsequence). Lines shared at the start and end are matched first, so
+ * typical edits only compare the few lines in between.
+ */
+export function diffRevisionLines(previousText: string, nextText: string): RevisionDiffLine[] {
+  const before = previousText ? previousText.split('\n') : []
+  const after = nextText ? nextText.split('\n') : []
+
+  let start = 0
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++
+  }
+
+  let end = 0
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++
+  }
+
+  const changedBefore = before.slice(start, before.length - end)
+  const changedAfter = after.slice(start, after.length - end)
+
+  // lengths[i][j]: longest common subsequence of changedBefore[i..] and
+  // changedAfter[j..]
+  const lengths = Array.from({ length: changedBefore.length + 1 }, () =>
+    new Array<number>(changedAfter.length + 1).fill(0)
+  )
+  for (let i = changedBefore.length - 1; i >= 0; i--) {
+    for (let j = changedAfter.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        changedBefore[i] === changedAfter[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const lines: RevisionDiffLine[] = before
+    .slice(0, start)
+    .map((text) => ({ type: 'unchanged' as const, text }))
+
+  let i = 0
+  let j = 0
+  while (i < changedBefore.length || j < changedAfter.length) {
+    if (i < changedBefore.length && j < changedAfter.length && changedBefore[i] === changedAfter[j]) {
+      lines.push({ type: 'unchanged', text: changedBefore[i] })
+      i++
+      j++
+    } else if (
+      i < changedBefore.length &&
+      (j === changedAfter.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      lines.push({ type: 'removed', text: changedBefore[i] })
+      i++
+    } else {
+      lines.push({ type: 'added', text: changedAfter[j] })
+      j++
+    }
+  }
+
+  for (const text of before.slice(before.length - end)) {
+    lines.push({ type: 'unchanged', text })
+  }
+
+  return lines
+}
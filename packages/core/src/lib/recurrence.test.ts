@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { getNextOccurrence, parseRRule, serializeRRule } from './recurrence'
+
+describe('recurrence rules', () => {
+  describe('serializeRRule / parseRRule', () => {
+    it('should round-trip a weekday rule with an end date', () => {
+      const pattern = { type: 'weekly' as const, interval: 2, weekdays: [1, 4], endDate: '2024-12-31' }
+      const rule = serializeRRule(pattern)
+
+      expect(rule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20241231')
+      expect(parseRRule(rule)).toEqual(pattern)
+    })
+
+    it('should round-trip counts and the completion-based mode', () => {
+      const pattern = { type: 'daily' as const, interval: 3, count: 5, fromCompletion: true }
+
+      expect(parseRRule(serializeRRule(pattern))).toEqual(pattern)
+    })
+
+    it('should parse positional BYDAY values and date-time UNTIL', () => {
+      expect(parseRRule('RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20250101T000000Z')).toEqual({
+        type: 'monthly',
+        interval: 1,
+        weekdays: [5],
+        setPosition: -1,
+        endDate: '2025-01-01',
+      })
+    })
+
+    it('should reject rules the engine cannot honour', () => {
+      expect(() => parseRRule('FREQ=HOURLY')).toThrow('Unsupported recurrence frequency')
+      expect(() => parseRRule('FREQ=YEARLY;BYWEEKNO=20')).toThrow('Unsupported RRULE part')
+    })
+  })
+
+  describe('getNextOccurrence', () => {
+    it('should step simple frequencies by their interval', () => {
+      expect(getNextOccurrence({ type: 'daily', interval: 3 }, '2024-01-30')).toBe('2024-02-02')
+      expect(getNextOccurrence({ type: 'weekly', interval: 2 }, '2024-01-01')).toBe('2024-01-15')
+      expect(getNextOccurrence({ type: 'yearly', interval: 1 }, '2024-03-10')).toBe('2025-03-10')
+    })
+
+    it('should clamp month days to shorter months', () => {
+      expect(getNextOccurrence({ type: 'monthly', interval: 1 }, '2024-01-31')).toBe('2024-02-29')
+    })
+
+    it('should find the next listed weekday within and across weeks', () => {
+      const mondayAndThursday = { type: 'weekly' as const, interval: 1, weekdays: [1, 4] }
+
+      // 2024-01-01 is a Monday
+      expect(getNextOccurrence(mondayAndThursday, '2024-01-01')).toBe('2024-01-04')
+      expect(getNextOccurrence(mondayAndThursday, '2024-01-04')).toBe('2024-01-08')
+    })
+
+    it('should skip whole weeks when the interval is above one', () => {
+      const pattern = { type: 'weekly' as const, interval: 2, weekdays: [1, 4] }
+
+      expect(getNextOccurrence(pattern, '2024-01-04')).toBe('2024-01-15')
+    })
+
+    it('should resolve the last business day of the month', () => {
+      const pattern = parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1')
+
+      // March 2024 ends on a Sunday, so its last business day is Friday the 29th
+      expect(getNextOccurrence(pattern, '2024-02-29')).toBe('2024-03-29')
+      expect(getNextOccurrence(pattern, '2024-03-29')).toBe('2024-04-30')
+    })
+
+    it('should resolve the Nth weekday of the month', () => {
+      const secondTuesday = parseRRule('FREQ=MONTHLY;BYDAY=2TU')
+
+      expect(getNextOccurrence(secondTuesday, '2024-01-01')).toBe('2024-01-09')
+      expect(getNextOccurrence(secondTuesday, '2024-01-09')).toBe('2024-02-13')
+    })
+
+    it('should count month days from the end when negative', () => {
+      expect(getNextOccurrence({ type: 'monthly', interval: 1, monthDays: [-1] }, '2024-04-30')).toBe(
+        '2024-05-31'
+      )
+    })
+
+    it('should end the series at the end date or when the count runs out', () => {
+      expect(
+        getNextOccurrence({ type: 'daily', interval: 1, endDate: '2024-01-01' }, '2024-01-01')
+      ).toBeNull()
+      expect(getNextOccurrence({ type: 'daily', interval: 1, count: 1 }, '2024-01-01')).toBeNull()
+      expect(getNextOccurrence({ type: 'daily', interval: 1, count: 2 }, '2024-01-01')).toBe(
+        '2024-01-02'
+      )
+    })
+
+    it('should give up on rules that never match', () => {
+      expect(
+        getNextOccurrence({ type: 'monthly', interval: 1, monthDays: [31], setPosition: 2 }, '2024-01-01')
+      ).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,204 @@
+import type { RecurrencePattern } from '../types'
+import { addDays } from './habits'
+import { parseLocalDate } from './utils'
+
+// RFC 5545 weekday codes, indexed like Date.getDay() (0 = Sunday)
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+const FREQUENCIES: Record<string, RecurrencePattern['type']> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+}
+
+// Not part of RFC 5545, so it travels as an extension (X-) rule part
+const FROM_COMPLETION_PART = 'X-HAGU-FROM'
+
+// Upper bound on periods scanned for the next match, so rules that can never
+// match (e.g. the 31st with BYSETPOS=5) give up instead of looping forever
+const MAX_PERIODS = 1000
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Serialize a recurrence pattern as an RFC 5545 RRULE value (without the
+ * `RRULE:` prefix), e.g. `FREQ=WEEKLY;BYDAY=MO,TH;UNTIL=20241231`.
+ */
+export function serializeRRule(pattern: RecurrencePattern): string {
+  const parts = [`FREQ=${pattern.type.toUpperCase()}`]
+
+  if (pattern.interval > 1) parts.push(`INTERVAL=${pattern.interval}`)
+  if (pattern.weekdays?.length) {
+    parts.push(`BYDAY=${pattern.weekdays.map((d) => WEEKDAY_CODES[d]).join(',')}`)
+  }
+  if (pattern.monthDays?.length) parts.push(`BYMONTHDAY=${pattern.monthDays.join(',')}`)
+  if (pattern.setPosition) parts.push(`BYSETPOS=${pattern.setPosition}`)
+  if (pattern.count) parts.push(`COUNT=${pattern.count}`)
+  if (pattern.endDate) parts.push(`UNTIL=${pattern.endDate.replace(/-/g, '')}`)
+  if (pattern.fromCompletion) parts.push(`${FROM_COMPLETION_PART}=COMPLETION`)
+
+  return parts.join(';')
+}
+
+/**
+ * Parse an RFC 5545 RRULE value (with or without the `RRULE:` prefix).
+ * Throws for rule parts the recurrence engine cannot honour.
+ */
+export function parseRRule(rule: string): RecurrencePattern {
+  const values = new Map<string, string>()
+  for (const part of rule.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue
+    const [key, value] = part.split('=')
+    values.set(key.toUpperCase(), value ?? '')
+  }
+
+  const type = FREQUENCIES[values.get('FREQ')?.toUpperCase() ?? '']
+  if (!type) {
+    throw new Error(`Unsupported recurrence frequency: ${values.get('FREQ') ?? '(missing)'}`)
+  }
+
+  const pattern: RecurrencePattern = {
+    type,
+    interval: Number(values.get('INTERVAL') ?? 1) || 1,
+  }
+
+  for (const [key, value] of values) {
+    switch (key) {
+      case 'FREQ':
+      case 'INTERVAL':
+      case 'WKST':
+        break
+      case 'BYDAY': {
+        // Monthly rules may carry the position on the day, e.g. 2TU or -1FR
+        const days = value.split(',').map((code) => {
+          const match = /^([+-]?\d+)?([A-Z]{2})$/i.exec(code)
+          const weekday = match ? WEEKDAY_CODES.indexOf(match[2].toUpperCase()) : -1
+          if (weekday === -1) throw new Error(`Invalid BYDAY value: ${code}`)
+          return { position: match![1] ? Number(match![1]) : undefined, weekday }
+        })
+        const positions = new Set(days.map((d) => d.position))
+        if (positions.size > 1) throw new Error(`Mixed BYDAY positions are not supported: ${value}`)
+        pattern.weekdays = days.map((d) => d.weekday)
+        if (days[0].position) pattern.setPosition = days[0].position
+        break
+      }
+      case 'BYMONTHDAY':
+        pattern.monthDays = value.split(',').map(Number)
+        break
+      case 'BYSETPOS':
+        pattern.setPosition = Number(value)
+        break
+      case 'COUNT':
+        pattern.count = Number(value)
+        break
+      case 'UNTIL':
+        pattern.endDate = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`
+        break
+      case FROM_COMPLETION_PART:
+        pattern.fromCompletion = value.toUpperCase() === 'COMPLETION'
+        break
+      default:
+        throw new Error(`Unsupported RRULE part: ${key}`)
+    }
+  }
+
+  return pattern
+}
+
+// Keep the Nth (1-based, negative from the end) of a period's candidate dates
+function applySetPosition(dates: string[], setPosition?: number): string[] {
+  if (!setPosition) return dates
+  const picked = setPosition > 0 ? dates[setPosition - 1] : dates[dates.length + setPosition]
+  return picked ? [picked] : []
+}
+
+// Days of a month matching the rule. Without BYMONTHDAY/BYDAY the anchor's day
+// is used, clamped to shorter months (the 31st falls on Feb 28/29)
+function expandMonth(
+  year: number,
+  month: number,
+  pattern: RecurrencePattern,
+  anchorDay: number
+): string[] {
+  const lastDay = new Date(year, month + 1, 0).getDate()
+
+  if (!pattern.monthDays?.length && !pattern.weekdays?.length) {
+    return [formatDate(year, month, Math.min(anchorDay, lastDay))]
+  }
+
+  const monthDays = pattern.monthDays?.map((d) => (d < 0 ? lastDay + 1 + d : d))
+  const days: string[] = []
+  for (let day = 1; day <= lastDay; day++) {
+    if (monthDays && !monthDays.includes(day)) continue
+    if (pattern.weekdays?.length && !pattern.weekdays.includes(new Date(year, month, day).getDay())) {
+      continue
+    }
+    days.push(formatDate(year, month, day))
+  }
+  return days
+}
+
+// Candidate dates of the period `offset` periods after the one holding `anchor`
+function expandPeriod(pattern: RecurrencePattern, anchor: string, offset: number): string[] {
+  const anchorDate = parseLocalDate(anchor)
+
+  switch (pattern.type) {
+    case 'daily': {
+      const date = addDays(anchor, offset)
+      const d = parseLocalDate(date)
+      if (pattern.weekdays?.length && !pattern.weekdays.includes(d.getDay())) return []
+      if (pattern.monthDays?.length && !pattern.monthDays.includes(d.getDate())) return []
+      return [date]
+    }
+    case 'weekly': {
+      // Weeks start on Monday, the RFC 5545 default (WKST=MO)
+      const weekStart = addDays(anchor, -((anchorDate.getDay() + 6) % 7) + offset * 7)
+      const weekdays = pattern.weekdays?.length ? pattern.weekdays : [anchorDate.getDay()]
+      const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)).filter((date) =>
+        weekdays.includes(parseLocalDate(date).getDay())
+      )
+      return applySetPosition(days, pattern.setPosition)
+    }
+    case 'monthly': {
+      const first = new Date(anchorDate.getFullYear(), anchorDate.getMonth() + offset, 1)
+      const days = expandMonth(first.getFullYear(), first.getMonth(), pattern, anchorDate.getDate())
+      return applySetPosition(days, pattern.setPosition)
+    }
+    case 'yearly': {
+      // Yearly rules stay in the anchor's month
+      const days = expandMonth(
+        anchorDate.getFullYear() + offset,
+        anchorDate.getMonth(),
+        pattern,
+        anchorDate.getDate()
+      )
+      return applySetPosition(days, pattern.setPosition)
+    }
+  }
+}
+
+/**
+ * Next date (YYYY-MM-DD) strictly after `after` that matches the pattern,
+ * treating `after` as the start of the series. Returns null once the series
+ * is over: no occurrences left in `count`, or the next date is past `endDate`.
+ */
+export function getNextOccurrence(pattern: RecurrencePattern, after: string): string | null {
+  if (pattern.count !== undefined && pattern.count <= 1) return null
+
+  const interval = Math.max(1, pattern.interval)
+  for (let period = 0; period <= MAX_PERIODS; period++) {
+    // Period 0 is the anchor's own week/month/year, later ones step by the interval
+    const offset = period * interval
+    if (pattern.type === 'daily' && offset === 0) continue
+
+    const next = expandPeriod(pattern, after, offset).find((date) => date > after)
+    if (next) {
+      return pattern.endDate && next > pattern.endDate ? null : next
+    }
+  }
+
+  return null
+}
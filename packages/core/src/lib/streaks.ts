@@ -0,0 +1,282 @@
+import type { Habit, HabitCompletion, HabitTracking, Vacation } from '../types'
+import { addDays, getNthWeekdayOfMonth, isVacationDay } from './habits'
+import { getTodayString, parseLocalDate } from './utils'
+
+export interface HabitStreak {
+  currentStreak: number
+  longestStreak: number
+  lastCompletedDate: string | null
+}
+
+export interface StreakOptions {
+  today?: string // YYYY-MM-DD, defaults to the local date
+  weekStartsOn?: 0 | 1 // 0 = Sunday, 1 = Monday
+  frozenDates?: string[] // Missed days protected by a streak freeze
+  vacations?: Pick<Vacation, 'startDate' | 'endDate'>[] // Ranges when every habit is paused
+}
+
+type StreakHabit = Pick<Habit, 'frequency' | 'tracking' | 'completions'> &
+  Partial<Pick<Habit, 'createdAt'>>
+
+/**
+ * Whether a completion counts towards a streak.
+ * Quantitative habits only count once the logged value reaches the target,
+ * and avoid habits while the logged value stays within the limit.
+ */
+export function isCompletionSuccessful(
+  tracking: HabitTracking,
+  completion: Pick<HabitCompletion, 'value'>
+): boolean {
+  if (tracking.type === 'quantitative') return completion.value >= tracking.target
+  if (tracking.type === 'avoid') return completion.value <= tracking.limit
+  return completion.value > 0
+}
+
+/**
+ * Whether a logged day of an avoid habit went over its limit.
+ */
+export function isRelapse(
+  tracking: HabitTracking,
+  completion: Pick<HabitCompletion, 'value'>
+): boolean {
+  return tracking.type === 'avoid' && !isCompletionSuccessful(tracking, completion)
+}
+
+// YYYY-MM part of a YYYY-MM-DD date
+function getMonthKey(date: string): string {
+  return date.slice(0, 7)
+}
+
+function getNextMonthKey(month: string): string {
+  return getMonthKey(addDays(`${month}-01`, 31))
+}
+
+function getWeekStart(date: string, weekStartsOn: 0 | 1): string {
+  const offset = (parseLocalDate(date).getDay() - weekStartsOn + 7) % 7
+  return addDays(date, -offset)
+}
+
+// Count how many entries at the end of the list are met, and the longest run of met entries
+function countRuns(occurrences: boolean[]): { current: number; longest: number } {
+  let run = 0
+  let longest = 0
+  for (const met of occurrences) {
+    run = met ? run + 1 : 0
+    longest = Math.max(longest, run)
+  }
+  return { current: run, longest }
+}
+
+// Days from `from` (exclusive) to `to` (inclusive) that aren't rest days
+function countActiveDays(from: string, to: string, isRestDay: (date: string) => boolean): number {
+  let count = 0
+  for (let date = addDays(from, 1); date <= to; date = addDays(date, 1)) {
+    if (!isRestDay(date)) count++
+  }
+  return count
+}
+
+function hasRestDay(from: string, to: string, isRestDay: (date: string) => boolean): boolean {
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (isRestDay(date)) return true
+  }
+  return false
+}
+
+/**
+ * Whether each scheduled occurrence from the first completion up to today was met,
+ * oldest first. Missed occurrences are left out (neither met nor broken) when they
+ * include today, so a habit isn't broken before the user had the chance to do it,
+ * or when they fall on frozen or vacation days.
+ */
+function getOccurrences(
+  habit: StreakHabit,
+  dates: string[],
+  today: string,
+  weekStartsOn: 0 | 1,
+  isRestDay: (date: string) => boolean
+): boolean[] {
+  const done = new Set(dates)
+  const first = dates[0]
+  const occurrences: boolean[] = []
+  const { frequency } = habit
+
+  const pushOccurrence = (met: boolean, neutralIfMissed: boolean) => {
+    if (neutralIfMissed && !met) return
+    occurrences.push(met)
+  }
+
+  switch (frequency.type) {
+    case 'daily':
+    case 'specificDays':
+      for (let date = first; date <= today; date = addDays(date, 1)) {
+        if (
+          frequency.type === 'specificDays' &&
+          !frequency.days.includes(parseLocalDate(date).getDay())
+        ) {
+          continue
+        }
+        pushOccurrence(done.has(date), date === today || isRestDay(date))
+      }
+      break
+
+    case 'weekly':
+      for (
+        let weekStart = getWeekStart(first, weekStartsOn);
+        weekStart <= today;
+        weekStart = addDays(weekStart, 7)
+      ) {
+        const weekEnd = addDays(weekStart, 6)
+        const count = dates.filter((d) => d >= weekStart && d <= weekEnd).length
+        pushOccurrence(
+          count >= frequency.daysPerWeek,
+          today <= weekEnd || hasRestDay(weekStart, weekEnd, isRestDay)
+        )
+      }
+      break
+
+    case 'monthly':
+      for (
+        let month = getMonthKey(first);
+        month <= getMonthKey(today);
+        month = getNextMonthKey(month)
+      ) {
+        const count = dates.filter((d) => getMonthKey(d) === month).length
+        const monthEnd = addDays(`${getNextMonthKey(month)}-01`, -1)
+        pushOccurrence(
+          count >= frequency.timesPerMonth,
+          month === getMonthKey(today) || hasRestDay(`${month}-01`, monthEnd, isRestDay)
+        )
+      }
+      break
+
+    case 'nthWeekday': {
+      const start = parseLocalDate(first)
+      for (let month = 0; ; month++) {
+        const dueDate = getNthWeekdayOfMonth(
+          start.getFullYear(),
+          start.getMonth() + month,
+          frequency.week,
+          frequency.weekday
+        )
+        if (dueDate > today) break
+        if (dueDate < first) continue
+        pushOccurrence(done.has(dueDate), dueDate === today || isRestDay(dueDate))
+      }
+      break
+    }
+
+    case 'interval':
+      // Interval habits have no fixed schedule, see calculateIntervalStreak
+      break
+  }
+
+  return occurrences
+}
+
+// Interval habits keep their streak while each completion follows the previous
+// one within the interval, and until the interval since the last one has passed.
+// Rest days don't count towards the interval
+function calculateIntervalStreak(
+  everyDays: number,
+  dates: string[],
+  today: string,
+  isRestDay: (date: string) => boolean
+) {
+  let run = 1
+  let longest = 1
+  for (let i = 1; i < dates.length; i++) {
+    run = countActiveDays(dates[i - 1], dates[i], isRestDay) <= everyDays ? run + 1 : 1
+    longest = Math.max(longest, run)
+  }
+
+  const lastDate = dates[dates.length - 1]
+  return {
+    current: countActiveDays(lastDate, today, isRestDay) <= everyDays ? run : 0,
+    longest,
+  }
+}
+
+// Avoid habits count clean days: full days since the habit was created or since
+// the last relapse. Today is still in progress, so it only counts from tomorrow.
+// Relapses on rest days are forgiven and rest days don't add to the count
+function calculateCleanStreak(
+  habit: StreakHabit,
+  today: string,
+  isRestDay: (date: string) => boolean
+): HabitStreak {
+  const relapses = [
+    ...new Set(
+      habit.completions
+        .filter((c) => c.date <= today && isRelapse(habit.tracking, c) && !isRestDay(c.date))
+        .map((c) => c.date)
+    ),
+  ].sort()
+
+  const loggedDates = habit.completions.map((c) => c.date).sort()
+  const start = [habit.createdAt?.slice(0, 10), loggedDates[0]]
+    .filter((d): d is string => !!d)
+    .sort()[0]
+
+  if (!start || start > today) {
+    return { currentStreak: 0, longestStreak: 0, lastCompletedDate: null }
+  }
+
+  const yesterday = addDays(today, -1)
+  let longest = 0
+  // Each run goes from the day after a relapse (or the start) to the day before the next one
+  let runStart = start
+  for (const relapse of relapses) {
+    longest = Math.max(longest, countActiveDays(addDays(runStart, -1), addDays(relapse, -1), isRestDay))
+    runStart = addDays(relapse, 1)
+  }
+  const current = countActiveDays(addDays(runStart, -1), yesterday, isRestDay)
+
+  return {
+    currentStreak: current,
+    longestStreak: Math.max(longest, current),
+    lastCompletedDate: current > 0 ? yesterday : null,
+  }
+}
+
+/**
+ * Current and longest streak of a habit, measured in the units its frequency is
+ * scheduled in: days for daily habits, scheduled days for specificDays, weeks for
+ * weekly, months for monthly and nthWeekday, and completions for interval habits.
+ * Avoid habits count clean days instead, see calculateCleanStreak.
+ * Frozen and vacation days never break a streak.
+ */
+export function calculateHabitStreak(habit: StreakHabit, options: StreakOptions = {}): HabitStreak {
+  const today = options.today ?? getTodayString()
+  const weekStartsOn = options.weekStartsOn ?? 0
+  const frozenDates = new Set(options.frozenDates)
+  const isRestDay = (date: string) =>
+    frozenDates.has(date) || isVacationDay(date, options.vacations)
+
+  if (habit.tracking.type === 'avoid') {
+    return calculateCleanStreak(habit, today, isRestDay)
+  }
+
+  const dates = [
+    ...new Set(
+      habit.completions
+        .filter((c) => c.date <= today && isCompletionSuccessful(habit.tracking, c))
+        .map((c) => c.date)
+    ),
+  ].sort()
+
+  if (dates.length === 0) {
+    return { currentStreak: 0, longestStreak: 0, lastCompletedDate: null }
+  }
+
+  const { current, longest } =
+    habit.frequency.type === 'interval'
+      ? calculateIntervalStreak(habit.frequency.everyDays, dates, today, isRestDay)
+      : countRuns(getOccurrences(habit, dates, today, weekStartsOn, isRestDay))
+
+  return {
+    currentStreak: current,
+    longestStreak: longest,
+    lastCompletedDate: dates[dates.length - 1],
+  }
+}
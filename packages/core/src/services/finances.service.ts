@@ -1,14 +1,49 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type {
   Transaction,
+  Account,
+  AccountType,
   TransactionCategory,
   Budget,
+  BudgetPeriod,
+  BudgetTemplate,
   FinancialGoal,
   GoalContribution,
   TransactionType,
   RecurrenceFrequency,
+  CategorizationRule,
+  RuleMatchMode,
+  CurrencyCode,
+  ExchangeRate,
+  RecurrenceException,
+  RecurrenceExceptionChanges,
+  CompoundingFrequency,
+  InvestmentAsset,
+  InvestmentAssetType,
+  InvestmentEvent,
+  InvestmentEventType,
+  InvestmentPrice,
+  InvestmentSimulation,
+  YieldIndex,
+  ImportedTransaction,
 } from '../types/finances'
 import { getTodayString } from '../lib/utils'
+import { TRANSFER_CATEGORY_ID, type ExchangeRateInput } from '../lib/finances'
+import { applyCategorizationRules, getRuleChanges, isUncategorized } from '../lib/categorization'
+import { isCreditCardAccount, splitInstallments } from '../lib/credit-card'
+import type { BudgetTemplateInput } from '../lib/budgets'
+import {
+  buildOccurrenceTransaction,
+  getDueOccurrences,
+  getNextOccurrenceDate,
+} from '../lib/recurring-transactions'
+import {
+  buildEventTransaction,
+  type InvestmentAssetInput,
+  type InvestmentEventInput,
+  type InvestmentSimulationInput,
+} from '../lib/investments'
+import { getPendingGoalContributions } from '../lib/goals'
 
 // Database row types
 interface DbTransaction {
@@ -17,18 +52,42 @@ interface DbTransaction {
   category_id: string
   type: TransactionType
   amount: number
+  currency: CurrencyCode | null
   description: string
   date: string
   payment_method: string | null
+  account_id: string | null
+  to_account_id: string | null
+  statement_month: string | null
+  installment_group_id: string | null
+  installment_number: number | null
+  installment_count: number | null
   tags: string[]
   is_recurring: boolean
   recurrence_frequency: RecurrenceFrequency | null
   recurrence_next_date: string | null
   recurrence_end_date: string | null
+  recurrence_parent_id: string | null
+  occurrence_date: string | null
+  external_id: string | null
   created_at: string
   updated_at: string | null
 }
 
+interface DbAccount {
+  id: string
+  user_id: string
+  name: string
+  type: AccountType
+  opening_balance: number
+  currency: CurrencyCode | null
+  closing_day: number | null
+  due_day: number | null
+  color: string
+  is_archived: boolean
+  created_at: string
+}
+
 interface DbTransactionCategory {
   id: string
   user_id: string
@@ -49,6 +108,17 @@ interface DbBudget {
   month: string
 }
 
+interface DbBudgetTemplate {
+  id: string
+  user_id: string
+  category_id: string
+  amount: number
+  period: BudgetPeriod
+  rollover: boolean
+  start_month: string
+  created_at: string
+}
+
 interface DbFinancialGoal {
   id: string
   user_id: string
@@ -56,13 +126,37 @@ interface DbFinancialGoal {
   description: string | null
   target_amount: number
   current_amount: number
+  currency: CurrencyCode | null
   deadline: string | null
   color: string
   icon: string | null
+  contribution_category_id: string | null
   created_at: string
   completed_at: string | null
 }
 
+interface DbExchangeRate {
+  id: string
+  user_id: string
+  from_currency: CurrencyCode
+  to_currency: CurrencyCode
+  rate: number
+  date: string
+  created_at: string
+}
+
+interface DbRecurrenceException {
+  id: string
+  user_id: string
+  transaction_id: string
+  occurrence_date: string
+  skip: boolean
+  amount: number | null
+  description: string | null
+  date: string | null
+  created_at: string
+}
+
 interface DbGoalContribution {
   id: string
   goal_id: string
@@ -70,19 +164,128 @@ interface DbGoalContribution {
   amount: number
   date: string
   note: string | null
+  transaction_id: string | null
+  created_at: string
+}
+
+interface DbCategorizationRule {
+  id: string
+  user_id: string
+  name: string
+  priority: number
+  is_active: boolean
+  transaction_type: TransactionType | null
+  description_match: RuleMatchMode | null
+  description_pattern: string | null
+  min_amount: number | null
+  max_amount: number | null
+  payment_method: string | null
+  required_tags: string[]
+  category_id: string
+  add_tags: string[]
+  created_at: string
+}
+
+interface DbInvestmentAsset {
+  id: string
+  user_id: string
+  name: string
+  ticker: string | null
+  type: InvestmentAssetType
+  currency: CurrencyCode | null
+  account_id: string | null
+  created_at: string
+}
+
+interface DbInvestmentPrice {
+  id: string
+  user_id: string
+  asset_id: string
+  price: number
+  date: string
+  created_at: string
+}
+
+interface DbInvestmentEvent {
+  id: string
+  user_id: string
+  asset_id: string
+  type: InvestmentEventType
+  date: string
+  quantity: number
+  price: number
+  fees: number
+  amount: number
+  transaction_id: string | null
+  note: string | null
+  created_at: string
+}
+
+interface DbInvestmentSimulation {
+  id: string
+  user_id: string
+  name: string
+  initial_amount: number
+  monthly_contribution: number
+  annual_rate: number
+  period_years: number
+  compounding_frequency: CompoundingFrequency
+  yield_index: YieldIndex
+  index_rate: number | null
   created_at: string
 }
 
 // Transform functions
+function toTransactionInsert(userId: string, transaction: Omit<Transaction, 'id' | 'createdAt'>) {
+  const isTransfer = transaction.type === 'transfer'
+
+  return {
+    user_id: userId,
+    category_id: isTransfer ? TRANSFER_CATEGORY_ID : transaction.categoryId,
+    type: transaction.type,
+    amount: transaction.amount,
+    currency: transaction.currency ?? null,
+    description: transaction.description,
+    date: transaction.date,
+    payment_method: transaction.paymentMethod ?? null,
+    account_id: transaction.accountId ?? null,
+    to_account_id: isTransfer ? (transaction.toAccountId ?? null) : null,
+    statement_month: transaction.statementMonth ?? null,
+    installment_group_id: transaction.installment?.groupId ?? null,
+    installment_number: transaction.installment?.number ?? null,
+    installment_count: transaction.installment?.count ?? null,
+    tags: transaction.tags ?? [],
+    is_recurring: transaction.isRecurring,
+    recurrence_frequency: transaction.recurrence?.frequency ?? null,
+    recurrence_next_date: transaction.recurrence?.nextDate ?? null,
+    recurrence_end_date: transaction.recurrence?.endDate ?? null,
+    recurrence_parent_id: transaction.recurrenceParentId ?? null,
+    occurrence_date: transaction.occurrenceDate ?? null,
+    external_id: transaction.externalId ?? null,
+  }
+}
+
 function toTransaction(row: DbTransaction): Transaction {
   return {
     id: row.id,
     type: row.type,
     amount: Number(row.amount),
+    currency: row.currency ?? undefined,
     categoryId: row.category_id,
     description: row.description,
     date: row.date,
     paymentMethod: row.payment_method ?? undefined,
+    accountId: row.account_id ?? undefined,
+    toAccountId: row.to_account_id ?? undefined,
+    statementMonth: row.statement_month ?? undefined,
+    installment:
+      row.installment_group_id && row.installment_number && row.installment_count
+        ? {
+            groupId: row.installment_group_id,
+            number: row.installment_number,
+            count: row.installment_count,
+          }
+        : undefined,
     tags: row.tags ?? [],
     isRecurring: row.is_recurring,
     recurrence: row.recurrence_frequency
@@ -92,11 +295,69 @@ function toTransaction(row: DbTransaction): Transaction {
           endDate: row.recurrence_end_date ?? undefined,
         }
       : undefined,
+    recurrenceParentId: row.recurrence_parent_id ?? undefined,
+    occurrenceDate: row.occurrence_date ?? undefined,
+    externalId: row.external_id ?? undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at ?? undefined,
   }
 }
 
+function toAccount(row: DbAccount): Account {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    openingBalance: Number(row.opening_balance),
+    currency: row.currency ?? undefined,
+    closingDay: row.closing_day ?? undefined,
+    dueDay: row.due_day ?? undefined,
+    color: row.color,
+    isArchived: row.is_archived,
+    createdAt: row.created_at,
+  }
+}
+
+function toCategorizationRule(row: DbCategorizationRule): CategorizationRule {
+  return {
+    id: row.id,
+    name: row.name,
+    priority: row.priority,
+    isActive: row.is_active,
+    transactionType: row.transaction_type ?? undefined,
+    descriptionMatch: row.description_match ?? undefined,
+    descriptionPattern: row.description_pattern ?? undefined,
+    minAmount: row.min_amount !== null ? Number(row.min_amount) : undefined,
+    maxAmount: row.max_amount !== null ? Number(row.max_amount) : undefined,
+    paymentMethod: row.payment_method ?? undefined,
+    requiredTags: row.required_tags ?? [],
+    categoryId: row.category_id,
+    addTags: row.add_tags ?? [],
+    createdAt: row.created_at,
+  }
+}
+
+function toCategorizationRuleColumns(
+  rule: Partial<Omit<CategorizationRule, 'id' | 'createdAt'>>
+): Record<string, unknown> {
+  const columns: Record<string, unknown> = {}
+
+  if (rule.name !== undefined) columns.name = rule.name
+  if (rule.priority !== undefined) columns.priority = rule.priority
+  if (rule.isActive !== undefined) columns.is_active = rule.isActive
+  if ('transactionType' in rule) columns.transaction_type = rule.transactionType ?? null
+  if ('descriptionMatch' in rule) columns.description_match = rule.descriptionMatch ?? null
+  if ('descriptionPattern' in rule) columns.description_pattern = rule.descriptionPattern ?? null
+  if ('minAmount' in rule) columns.min_amount = rule.minAmount ?? null
+  if ('maxAmount' in rule) columns.max_amount = rule.maxAmount ?? null
+  if ('paymentMethod' in rule) columns.payment_method = rule.paymentMethod ?? null
+  if (rule.requiredTags !== undefined) columns.required_tags = rule.requiredTags
+  if (rule.categoryId !== undefined) columns.category_id = rule.categoryId
+  if (rule.addTags !== undefined) columns.add_tags = rule.addTags
+
+  return columns
+}
+
 function toCategory(row: DbTransactionCategory): TransactionCategory {
   return {
     id: row.id,
@@ -118,6 +379,18 @@ function toBudget(row: DbBudget): Budget {
   }
 }
 
+function toBudgetTemplate(row: DbBudgetTemplate): BudgetTemplate {
+  return {
+    id: row.id,
+    categoryId: row.category_id,
+    amount: Number(row.amount),
+    period: row.period,
+    rollover: row.rollover,
+    startMonth: row.start_month,
+    createdAt: row.created_at,
+  }
+}
+
 function toGoal(row: DbFinancialGoal, contributions: GoalContribution[] = []): FinancialGoal {
   return {
     id: row.id,
@@ -125,21 +398,123 @@ function toGoal(row: DbFinancialGoal, contributions: GoalContribution[] = []): F
     description: row.description ?? undefined,
     targetAmount: Number(row.target_amount),
     currentAmount: Number(row.current_amount),
+    currency: row.currency ?? undefined,
     deadline: row.deadline ?? undefined,
     color: row.color,
     icon: row.icon ?? undefined,
+    contributionCategoryId: row.contribution_category_id ?? undefined,
     contributions,
     createdAt: row.created_at,
     completedAt: row.completed_at ?? undefined,
   }
 }
 
+function toExchangeRate(row: DbExchangeRate): ExchangeRate {
+  return {
+    id: row.id,
+    fromCurrency: row.from_currency,
+    toCurrency: row.to_currency,
+    rate: Number(row.rate),
+    date: row.date,
+    createdAt: row.created_at,
+  }
+}
+
+function toRecurrenceException(row: DbRecurrenceException): RecurrenceException {
+  return {
+    id: row.id,
+    transactionId: row.transaction_id,
+    occurrenceDate: row.occurrence_date,
+    skip: row.skip,
+    amount: row.amount !== null ? Number(row.amount) : undefined,
+    description: row.description ?? undefined,
+    date: row.date ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+function toInvestmentAsset(row: DbInvestmentAsset): InvestmentAsset {
+  return {
+    id: row.id,
+    name: row.name,
+    ticker: row.ticker ?? undefined,
+    type: row.type,
+    currency: row.currency ?? undefined,
+    accountId: row.account_id ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+function toInvestmentPrice(row: DbInvestmentPrice): InvestmentPrice {
+  return {
+    id: row.id,
+    assetId: row.asset_id,
+    price: Number(row.price),
+    date: row.date,
+    createdAt: row.created_at,
+  }
+}
+
+function toInvestmentEvent(row: DbInvestmentEvent): InvestmentEvent {
+  return {
+    id: row.id,
+    assetId: row.asset_id,
+    type: row.type,
+    date: row.date,
+    quantity: Number(row.quantity),
+    price: Number(row.price),
+    fees: Number(row.fees),
+    amount: Number(row.amount),
+    transactionId: row.transaction_id ?? undefined,
+    note: row.note ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+function toInvestmentSimulation(row: DbInvestmentSimulation): InvestmentSimulation {
+  return {
+    id: row.id,
+    name: row.name,
+    initialAmount: Number(row.initial_amount),
+    monthlyContribution: Number(row.monthly_contribution),
+    annualRate: Number(row.annual_rate),
+    periodYears: row.period_years,
+    compoundingFrequency: row.compounding_frequency,
+    yieldIndex: row.yield_index,
+    indexRate: row.index_rate !== null ? Number(row.index_rate) : undefined,
+    createdAt: row.created_at,
+  }
+}
+
 function toContribution(row: DbGoalContribution): GoalContribution {
   return {
     id: row.id,
     amount: Number(row.amount),
     date: row.date,
     note: row.note ?? undefined,
+    transactionId: row.transaction_id ?? undefined,
+  }
+}
+
+// PostgREST caps responses at 1000 rows by default
+const PAGE_SIZE = 1000
+
+// Values of an `in` filter go in the URL, which servers cap at a few KB
+const EXTERNAL_ID_BATCH_SIZE = 100
+
+// Reads every row of a query page by page. The query needs a unique order so
+// no row moves between pages while they are read.
+async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await fetchPage(offset, offset + PAGE_SIZE - 1)
+    if (error) throw error
+
+    const page = (data ?? []) as T[]
+    rows.push(...page)
+    if (page.length < PAGE_SIZE) return rows
   }
 }
 
@@ -148,13 +523,15 @@ function toContribution(row: DbGoalContribution): GoalContribution {
 // ============================================
 export const transactionsService = {
   async getAll(supabase: SupabaseClient): Promise<Transaction[]> {
-    const { data, error } = await supabase
-      .from('transactions')
-      .select('*')
-      .order('date', { ascending: false })
-
-    if (error) throw error
-    return (data ?? []).map(toTransaction)
+    const data = await fetchAllRows<DbTransaction>((from, to) =>
+      supabase
+        .from('transactions')
+        .select('*')
+        .order('date', { ascending: false })
+        .order('id')
+        .range(from, to)
+    )
+    return data.map(toTransaction)
   },
 
   async getByMonth(supabase: SupabaseClient, month: string): Promise<Transaction[]> {
@@ -174,6 +551,42 @@ export const transactionsService = {
     return (data ?? []).map(toTransaction)
   },
 
+  // Transactions a bank statement could duplicate: those dated within it, and
+  // those carrying one of its bank identifiers even if their date was edited
+  async getImportCandidates(
+    supabase: SupabaseClient,
+    imported: Pick<ImportedTransaction, 'date' | 'externalId'>[]
+  ): Promise<Transaction[]> {
+    if (imported.length === 0) return []
+
+    const dates = imported.map((t) => t.date).sort()
+    const inRange = await fetchAllRows<DbTransaction>((from, to) =>
+      supabase
+        .from('transactions')
+        .select('*')
+        .gte('date', dates[0])
+        .lte('date', dates[dates.length - 1])
+        .order('date', { ascending: true })
+        .order('id')
+        .range(from, to)
+    )
+
+    const externalIds = [...new Set(imported.flatMap((t) => (t.externalId ? [t.externalId] : [])))]
+    const withExternalId: DbTransaction[] = []
+    for (let i = 0; i < externalIds.length; i += EXTERNAL_ID_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*')
+        .in('external_id', externalIds.slice(i, i + EXTERNAL_ID_BATCH_SIZE))
+
+      if (error) throw error
+      withExternalId.push(...((data ?? []) as DbTransaction[]))
+    }
+
+    const rows = new Map([...inRange, ...withExternalId].map((row) => [row.id, row]))
+    return [...rows.values()].map(toTransaction)
+  },
+
   async getById(supabase: SupabaseClient, id: string): Promise<Transaction | null> {
     const { data, error } = await supabase
       .from('transactions')
@@ -195,22 +608,22 @@ export const transactionsService = {
     const { data: userData } = await supabase.auth.getUser()
     if (!userData.user) throw new Error('User not authenticated')
 
+    // Rules only fill in a category, they never override one picked by hand
+    const [rules, categories] = isUncategorized(transaction)
+      ? await Promise.all([
+          categorizationRulesService.getAll(supabase),
+          categoriesService.getAll(supabase),
+        ])
+      : [[], []]
+
     const { data, error } = await supabase
       .from('transactions')
-      .insert({
-        user_id: userData.user.id,
-        category_id: transaction.categoryId,
-        type: transaction.type,
-        amount: transaction.amount,
-        description: transaction.description,
-        date: transaction.date,
-        payment_method: transaction.paymentMethod ?? null,
-        tags: transaction.tags ?? [],
-        is_recurring: transaction.isRecurring,
-        recurrence_frequency: transaction.recurrence?.frequency ?? null,
-        recurrence_next_date: transaction.recurrence?.nextDate ?? null,
-        recurrence_end_date: transaction.recurrence?.endDate ?? null,
-      })
+      .insert(
+        toTransactionInsert(
+          userData.user.id,
+          applyCategorizationRules(transaction, rules, categories)
+        )
+      )
       .select()
       .single()
 
@@ -218,6 +631,58 @@ export const transactionsService = {
     return toTransaction(data)
   },
 
+  // Bulk insert, used by the bank statement import
+  async createMany(
+    supabase: SupabaseClient,
+    transactions: Omit<Transaction, 'id' | 'createdAt'>[]
+  ): Promise<Transaction[]> {
+    if (transactions.length === 0) return []
+
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const userId = userData.user.id
+    const [rules, categories] = transactions.some(isUncategorized)
+      ? await Promise.all([
+          categorizationRulesService.getAll(supabase),
+          categoriesService.getAll(supabase),
+        ])
+      : [[], []]
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .insert(
+        transactions.map((t) =>
+          toTransactionInsert(userId, isUncategorized(t) ? applyCategorizationRules(t, rules, categories) : t)
+        )
+      )
+      .select()
+
+    if (error) throw error
+    return ((data ?? []) as DbTransaction[]).map(toTransaction)
+  },
+
+  // Credit card purchase, split into one transaction per installment. Each
+  // installment is billed in its own statement when the card has a schedule.
+  async createCardPurchase(
+    supabase: SupabaseClient,
+    purchase: Omit<Transaction, 'id' | 'createdAt'>,
+    card: Account,
+    installments: number = 1
+  ): Promise<Transaction[]> {
+    return this.createMany(
+      supabase,
+      splitInstallments(
+        { ...purchase, accountId: card.id },
+        {
+          count: installments,
+          groupId: crypto.randomUUID(),
+          schedule: isCreditCardAccount(card) ? card : undefined,
+        }
+      )
+    )
+  },
+
   async update(
     supabase: SupabaseClient,
     id: string,
@@ -228,9 +693,13 @@ export const transactionsService = {
     if (updates.categoryId !== undefined) updateData.category_id = updates.categoryId
     if (updates.type !== undefined) updateData.type = updates.type
     if (updates.amount !== undefined) updateData.amount = updates.amount
+    if ('currency' in updates) updateData.currency = updates.currency ?? null
     if (updates.description !== undefined) updateData.description = updates.description
     if (updates.date !== undefined) updateData.date = updates.date
     if (updates.paymentMethod !== undefined) updateData.payment_method = updates.paymentMethod ?? null
+    if ('accountId' in updates) updateData.account_id = updates.accountId ?? null
+    if ('toAccountId' in updates) updateData.to_account_id = updates.toAccountId ?? null
+    if ('statementMonth' in updates) updateData.statement_month = updates.statementMonth ?? null
     if (updates.tags !== undefined) updateData.tags = updates.tags
     if (updates.isRecurring !== undefined) updateData.is_recurring = updates.isRecurring
     if (updates.recurrence !== undefined) {
@@ -251,12 +720,383 @@ export const transactionsService = {
   },
 
   async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { data: row } = await supabase
+      .from('transactions')
+      .select('recurrence_parent_id, occurrence_date')
+      .eq('id', id)
+      .single()
+
     const { error } = await supabase
       .from('transactions')
       .delete()
       .eq('id', id)
 
-    if (error) throw error
+    if (error) throw error
+
+    // A deleted occurrence is skipped, or the scheduler would record it again
+    if (row?.recurrence_parent_id && row.occurrence_date) {
+      await recurrenceExceptionsService.upsert(supabase, row.recurrence_parent_id, row.occurrence_date, {
+        skip: true,
+      })
+    }
+  },
+
+  // Deletes every installment of a purchase
+  async deleteInstallments(supabase: SupabaseClient, groupId: string): Promise<void> {
+    const { error } = await supabase
+      .from('transactions')
+      .delete()
+      .eq('installment_group_id', groupId)
+
+    if (error) throw error
+  },
+}
+
+// ============================================
+// RECURRING TRANSACTIONS SERVICE
+// ============================================
+
+export const recurringTransactionsService = {
+  // Records every due occurrence of the user's recurring transactions. Called
+  // by the scheduler with a service-role client, so queries filter by user
+  // instead of relying on RLS. Occurrences already recorded are left alone,
+  // which makes running it again harmless. The first run for a template
+  // backfills every occurrence since its own date, so a template dated in
+  // the past gets all of its missed occurrences at once.
+  async materializeDue(
+    supabase: SupabaseClient,
+    userId: string,
+    today: string = getTodayString()
+  ): Promise<Transaction[]> {
+    // Every transaction is needed to recognize occurrences already recorded,
+    // legacy ones included, so they are read page by page
+    const transactionsData = await fetchAllRows<DbTransaction>((from, to) =>
+      supabase
+        .from('transactions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+        .order('id')
+        .range(from, to)
+    )
+
+    const { data: exceptionsData, error: exceptionsError } = await supabase
+      .from('recurrence_exceptions')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (exceptionsError) throw exceptionsError
+
+    const transactions = transactionsData.map(toTransaction)
+    const exceptions = ((exceptionsData ?? []) as DbRecurrenceException[]).map(toRecurrenceException)
+    const due = getDueOccurrences(transactions, exceptions, today)
+    if (due.length === 0) return []
+
+    const { data: accountsData, error: accountsError } = await supabase
+      .from('accounts')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (accountsError) throw accountsError
+
+    const accounts = ((accountsData ?? []) as DbAccount[]).map(toAccount)
+
+    const { data, error: insertError } = await supabase
+      .from('transactions')
+      .upsert(
+        due.map((occurrence) =>
+          toTransactionInsert(
+            userId,
+            buildOccurrenceTransaction(
+              occurrence,
+              accounts.find((a) => a.id === occurrence.transaction.accountId)
+            )
+          )
+        ),
+        { onConflict: 'recurrence_parent_id,occurrence_date', ignoreDuplicates: true }
+      )
+      .select()
+
+    if (insertError) throw insertError
+
+    // Keep nextDate pointing at the upcoming occurrence
+    const templates = [...new Set(due.map((o) => o.transaction))]
+    for (const template of templates) {
+      const { error: updateError } = await supabase
+        .from('transactions')
+        .update({ recurrence_next_date: getNextOccurrenceDate(template, today) ?? null })
+        .eq('id', template.id)
+
+      if (updateError) throw updateError
+    }
+
+    return ((data ?? []) as DbTransaction[]).map(toTransaction)
+  },
+}
+
+// ============================================
+// RECURRENCE EXCEPTIONS SERVICE
+// ============================================
+export const recurrenceExceptionsService = {
+  async getAll(supabase: SupabaseClient): Promise<RecurrenceException[]> {
+    const data = await fetchAllRows<DbRecurrenceException>((from, to) =>
+      supabase
+        .from('recurrence_exceptions')
+        .select('*')
+        .order('occurrence_date', { ascending: true })
+        .order('id')
+        .range(from, to)
+    )
+    return data.map(toRecurrenceException)
+  },
+
+  // Skips or edits a single occurrence, replacing any earlier exception. An
+  // occurrence already recorded is deleted when skipped, or updated to match.
+  async upsert(
+    supabase: SupabaseClient,
+    transactionId: string,
+    occurrenceDate: string,
+    changes: RecurrenceExceptionChanges
+  ): Promise<RecurrenceException> {
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('recurrence_exceptions')
+      .upsert(
+        {
+          user_id: userData.user.id,
+          transaction_id: transactionId,
+          occurrence_date: occurrenceDate,
+          skip: changes.skip ?? false,
+          amount: changes.amount ?? null,
+          description: changes.description ?? null,
+          date: changes.date ?? null,
+        },
+        { onConflict: 'transaction_id,occurrence_date' }
+      )
+      .select()
+      .single()
+
+    if (error) throw error
+
+    if (changes.skip) {
+      const { error: deleteError } = await supabase
+        .from('transactions')
+        .delete()
+        .eq('recurrence_parent_id', transactionId)
+        .eq('occurrence_date', occurrenceDate)
+
+      if (deleteError) throw deleteError
+    } else {
+      const updateData: Record<string, unknown> = {}
+      if (changes.amount !== undefined) updateData.amount = changes.amount
+      if (changes.description !== undefined) updateData.description = changes.description
+      if (changes.date !== undefined) updateData.date = changes.date
+
+      if (Object.keys(updateData).length > 0) {
+        const { error: updateError } = await supabase
+          .from('transactions')
+          .update(updateData)
+          .eq('recurrence_parent_id', transactionId)
+          .eq('occurrence_date', occurrenceDate)
+
+        if (updateError) throw updateError
+      }
+    }
+
+    return toRecurrenceException(data)
+  },
+
+  // Back to the regular schedule; a skipped occurrence is recorded again on
+  // the next scheduler run
+  async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('recurrence_exceptions')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+}
+
+// ============================================
+// ACCOUNTS SERVICE
+// ============================================
+export const accountsService = {
+  async getAll(supabase: SupabaseClient): Promise<Account[]> {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return ((data ?? []) as DbAccount[]).map(toAccount)
+  },
+
+  async create(
+    supabase: SupabaseClient,
+    account: Omit<Account, 'id' | 'createdAt' | 'isArchived'>
+  ): Promise<Account> {
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .insert({
+        user_id: userData.user.id,
+        name: account.name,
+        type: account.type,
+        opening_balance: account.openingBalance,
+        currency: account.currency ?? null,
+        closing_day: account.closingDay ?? null,
+        due_day: account.dueDay ?? null,
+        color: account.color,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return toAccount(data)
+  },
+
+  async update(
+    supabase: SupabaseClient,
+    id: string,
+    updates: Partial<Omit<Account, 'id' | 'createdAt'>>
+  ): Promise<Account> {
+    const updateData: Record<string, unknown> = {}
+
+    if (updates.name !== undefined) updateData.name = updates.name
+    if (updates.type !== undefined) updateData.type = updates.type
+    if (updates.openingBalance !== undefined) updateData.opening_balance = updates.openingBalance
+    if ('currency' in updates) updateData.currency = updates.currency ?? null
+    if ('closingDay' in updates) updateData.closing_day = updates.closingDay ?? null
+    if ('dueDay' in updates) updateData.due_day = updates.dueDay ?? null
+    if (updates.color !== undefined) updateData.color = updates.color
+    if (updates.isArchived !== undefined) updateData.is_archived = updates.isArchived
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return toAccount(data)
+  },
+
+  /**
+   * Deletes an account; its income and expenses are kept without an account.
+   * A transfer can't lose either of its accounts, so an account that sent or
+   * received one is archived instead. Returns what was done.
+   */
+  async delete(supabase: SupabaseClient, id: string): Promise<'deleted' | 'archived'> {
+    const { data: transfers, error: transfersError } = await supabase
+      .from('transactions')
+      .select('id')
+      .eq('type', 'transfer')
+      .or(`account_id.eq.${id},to_account_id.eq.${id}`)
+      .limit(1)
+
+    if (transfersError) throw transfersError
+
+    if ((transfers ?? []).length > 0) {
+      await this.update(supabase, id, { isArchived: true })
+      return 'archived'
+    }
+
+    const { error } = await supabase
+      .from('accounts')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+    return 'deleted'
+  },
+}
+
+// ============================================
+// CATEGORIZATION RULES SERVICE
+// ============================================
+export const categorizationRulesService = {
+  async getAll(supabase: SupabaseClient): Promise<CategorizationRule[]> {
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .select('*')
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return ((data ?? []) as DbCategorizationRule[]).map(toCategorizationRule)
+  },
+
+  async create(
+    supabase: SupabaseClient,
+    rule: Omit<CategorizationRule, 'id' | 'createdAt'>
+  ): Promise<CategorizationRule> {
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .insert({ user_id: userData.user.id, ...toCategorizationRuleColumns(rule) })
+      .select()
+      .single()
+
+    if (error) throw error
+    return toCategorizationRule(data)
+  },
+
+  async update(
+    supabase: SupabaseClient,
+    id: string,
+    updates: Partial<Omit<CategorizationRule, 'id' | 'createdAt'>>
+  ): Promise<CategorizationRule> {
+    const { data, error } = await supabase
+      .from('categorization_rules')
+      .update(toCategorizationRuleColumns(updates))
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return toCategorizationRule(data)
+  },
+
+  async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('categorization_rules')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  /**
+   * Re-run the rules over past transactions and save the ones that change.
+   * Returns how many transactions were updated.
+   */
+  async reapply(
+    supabase: SupabaseClient,
+    options: { onlyUncategorized?: boolean } = {}
+  ): Promise<number> {
+    const [rules, categories, transactions] = await Promise.all([
+      this.getAll(supabase),
+      categoriesService.getAll(supabase),
+      transactionsService.getAll(supabase),
+    ])
+
+    const changes = getRuleChanges(transactions, rules, categories, options)
+    for (const change of changes) {
+      await transactionsService.update(supabase, change.id, {
+        categoryId: change.categoryId,
+        tags: change.tags,
+      })
+    }
+
+    return changes.length
   },
 }
 
@@ -314,13 +1154,15 @@ export const categoriesService = {
 // ============================================
 export const budgetsService = {
   async getAll(supabase: SupabaseClient): Promise<Budget[]> {
-    const { data, error } = await supabase
-      .from('budgets')
-      .select('*')
-      .order('month', { ascending: false })
-
-    if (error) throw error
-    return (data ?? []).map(toBudget)
+    const data = await fetchAllRows<DbBudget>((from, to) =>
+      supabase
+        .from('budgets')
+        .select('*')
+        .order('month', { ascending: false })
+        .order('id')
+        .range(from, to)
+    )
+    return data.map(toBudget)
   },
 
   async getByMonth(supabase: SupabaseClient, month: string): Promise<Budget[]> {
@@ -370,6 +1212,111 @@ export const budgetsService = {
   },
 }
 
+// ============================================
+// BUDGET TEMPLATES SERVICE
+// ============================================
+export const budgetTemplatesService = {
+  async getAll(supabase: SupabaseClient): Promise<BudgetTemplate[]> {
+    const { data, error } = await supabase
+      .from('budget_templates')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return (data ?? []).map(toBudgetTemplate)
+  },
+
+  // One template per category: saving again replaces the existing one
+  async upsert(supabase: SupabaseClient, template: BudgetTemplateInput): Promise<BudgetTemplate> {
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('budget_templates')
+      .upsert(
+        {
+          user_id: userData.user.id,
+          category_id: template.categoryId,
+          amount: template.amount,
+          period: template.period,
+          rollover: template.rollover,
+          start_month: template.startMonth,
+        },
+        { onConflict: 'user_id,category_id' }
+      )
+      .select()
+      .single()
+
+    if (error) throw error
+    return toBudgetTemplate(data)
+  },
+
+  async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('budget_templates')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+}
+
+// ============================================
+// EXCHANGE RATES SERVICE
+// ============================================
+export const exchangeRatesService = {
+  async getAll(supabase: SupabaseClient): Promise<ExchangeRate[]> {
+    const data = await fetchAllRows<DbExchangeRate>((from, to) =>
+      supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('date', { ascending: false })
+        .order('id')
+        .range(from, to)
+    )
+    return data.map(toExchangeRate)
+  },
+
+  // Saves rates, replacing the ones already stored for the same pair and date.
+  // Used both for a single manual entry and for CSV imports.
+  async upsertMany(
+    supabase: SupabaseClient,
+    rates: ExchangeRateInput[]
+  ): Promise<ExchangeRate[]> {
+    if (rates.length === 0) return []
+
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const userId = userData.user.id
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        rates.map((rate) => ({
+          user_id: userId,
+          from_currency: rate.fromCurrency,
+          to_currency: rate.toCurrency,
+          rate: rate.rate,
+          date: rate.date,
+        })),
+        { onConflict: 'user_id,from_currency,to_currency,date' }
+      )
+      .select()
+
+    if (error) throw error
+    return ((data ?? []) as DbExchangeRate[]).map(toExchangeRate)
+  },
+
+  async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('exchange_rates')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+}
+
 // ============================================
 // FINANCIAL GOALS SERVICE
 // ============================================
@@ -386,16 +1333,18 @@ export const goalsService = {
 
     // Get all contributions for these goals
     const goalIds = goalsData.map((g) => g.id)
-    const { data: contributionsData, error: contributionsError } = await supabase
-      .from('goal_contributions')
-      .select('*')
-      .in('goal_id', goalIds)
-      .order('date', { ascending: false })
-
-    if (contributionsError) throw contributionsError
+    const contributionsData = await fetchAllRows<DbGoalContribution>((from, to) =>
+      supabase
+        .from('goal_contributions')
+        .select('*')
+        .in('goal_id', goalIds)
+        .order('date', { ascending: false })
+        .order('id')
+        .range(from, to)
+    )
 
     // Group contributions by goal
-    const contributionsByGoal = (contributionsData ?? []).reduce(
+    const contributionsByGoal = contributionsData.reduce(
       (acc, row) => {
         const contribution = toContribution(row)
         if (!acc[row.goal_id]) acc[row.goal_id] = []
@@ -447,9 +1396,11 @@ export const goalsService = {
         description: goal.description ?? null,
         target_amount: goal.targetAmount,
         current_amount: 0,
+        currency: goal.currency ?? null,
         deadline: goal.deadline ?? null,
         color: goal.color,
         icon: goal.icon ?? null,
+        contribution_category_id: goal.contributionCategoryId ?? null,
       })
       .select()
       .single()
@@ -469,9 +1420,13 @@ export const goalsService = {
     if (updates.description !== undefined) updateData.description = updates.description ?? null
     if (updates.targetAmount !== undefined) updateData.target_amount = updates.targetAmount
     if (updates.currentAmount !== undefined) updateData.current_amount = updates.currentAmount
+    if ('currency' in updates) updateData.currency = updates.currency ?? null
     if (updates.deadline !== undefined) updateData.deadline = updates.deadline ?? null
     if (updates.color !== undefined) updateData.color = updates.color
     if (updates.icon !== undefined) updateData.icon = updates.icon ?? null
+    if ('contributionCategoryId' in updates) {
+      updateData.contribution_category_id = updates.contributionCategoryId ?? null
+    }
     if (updates.completedAt !== undefined) updateData.completed_at = updates.completedAt ?? null
 
     const { data, error } = await supabase
@@ -507,7 +1462,9 @@ export const goalsService = {
     supabase: SupabaseClient,
     goalId: string,
     amount: number,
-    note?: string
+    note?: string,
+    date: string = getTodayString(),
+    transactionId?: string
   ): Promise<{ contribution: GoalContribution; goal: FinancialGoal }> {
     const { data: userData } = await supabase.auth.getUser()
     if (!userData.user) throw new Error('User not authenticated')
@@ -525,15 +1482,15 @@ export const goalsService = {
     const isCompleted = newCurrentAmount >= Number(goalData.target_amount)
 
     // Create contribution
-    const today = getTodayString()
     const { data: contributionData, error: contributionError } = await supabase
       .from('goal_contributions')
       .insert({
         goal_id: goalId,
         user_id: userData.user.id,
         amount,
-        date: today,
+        date,
         note: note ?? null,
+        transaction_id: transactionId ?? null,
       })
       .select()
       .single()
@@ -567,4 +1524,383 @@ export const goalsService = {
       goal: toGoal(updatedGoalData, contributions),
     }
   },
+
+  /**
+   * Contribute the expenses recorded in each goal's contribution category
+   * that were not contributed yet. Takes the user explicitly so the scheduled
+   * job can run it with an admin client; safe to run repeatedly.
+   */
+  async syncAutoContributions(
+    supabase: SupabaseClient,
+    userId: string,
+    today: string = getTodayString()
+  ): Promise<GoalContribution[]> {
+    const { data: goalsData, error: goalsError } = await supabase
+      .from('financial_goals')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (goalsError) throw goalsError
+
+    const planned = ((goalsData ?? []) as DbFinancialGoal[]).filter(
+      (g) => g.contribution_category_id && !g.completed_at
+    )
+    if (planned.length === 0) return []
+
+    const contributionRows = await fetchAllRows<DbGoalContribution>((from, to) =>
+      supabase
+        .from('goal_contributions')
+        .select('*')
+        .in('goal_id', planned.map((g) => g.id))
+        .order('id')
+        .range(from, to)
+    )
+
+    // Only expenses that can still contribute: in one of the contribution
+    // categories and recorded since the oldest of these goals was created
+    const categoryIds = [...new Set(planned.map((g) => g.contribution_category_id as string))]
+    const since = planned.map((g) => g.created_at.slice(0, 10)).sort()[0]
+    const transactionsData = await fetchAllRows<DbTransaction>((from, to) =>
+      supabase
+        .from('transactions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('type', 'expense')
+        .in('category_id', categoryIds)
+        .gte('date', since)
+        .lte('date', today)
+        .order('date', { ascending: true })
+        .order('id')
+        .range(from, to)
+    )
+
+    // Expenses and goals without a currency are in the base currency
+    const { data: settingsData, error: settingsError } = await supabase
+      .from('user_settings')
+      .select('currency')
+      .eq('user_id', userId)
+      .single()
+
+    if (settingsError && settingsError.code !== 'PGRST116') throw settingsError
+
+    const goals = planned.map((row) =>
+      toGoal(row, contributionRows.filter((c) => c.goal_id === row.id).map(toContribution))
+    )
+    const transactions = transactionsData.map(toTransaction)
+    const pending = getPendingGoalContributions(
+      goals,
+      transactions,
+      today,
+      (settingsData?.currency as CurrencyCode | undefined) ?? 'BRL'
+    )
+    if (pending.length === 0) return []
+
+    const { data, error: insertError } = await supabase
+      .from('goal_contributions')
+      .upsert(
+        pending.map((p) => ({
+          goal_id: p.goalId,
+          user_id: userId,
+          amount: p.amount,
+          date: p.date,
+          note: p.note ?? null,
+          transaction_id: p.transactionId,
+        })),
+        { onConflict: 'goal_id,transaction_id', ignoreDuplicates: true }
+      )
+      .select()
+
+    if (insertError) throw insertError
+
+    const created = (data ?? []) as DbGoalContribution[]
+    for (const goal of goals) {
+      const added = created
+        .filter((c) => c.goal_id === goal.id)
+        .reduce((sum, c) => sum + Number(c.amount), 0)
+      if (added === 0) continue
+
+      const currentAmount = goal.currentAmount + added
+      const { error: updateError } = await supabase
+        .from('financial_goals')
+        .update({
+          current_amount: currentAmount,
+          completed_at: currentAmount >= goal.targetAmount ? new Date().toISOString() : null,
+        })
+        .eq('id', goal.id)
+
+      if (updateError) throw updateError
+    }
+
+    return created.map(toContribution)
+  },
+}
+
+// ============================================
+// INVESTMENT ASSETS SERVICE
+// ============================================
+export const investmentAssetsService = {
+  async getAll(supabase: SupabaseClient): Promise<InvestmentAsset[]> {
+    const { data, error } = await supabase
+      .from('investment_assets')
+      .select('*')
+      .order('name', { ascending: true })
+
+    if (error) throw error
+    return ((data ?? []) as DbInvestmentAsset[]).map(toInvestmentAsset)
+  },
+
+  async create(supabase: SupabaseClient, asset: InvestmentAssetInput): Promise<InvestmentAsset> {
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('investment_assets')
+      .insert({
+        user_id: userData.user.id,
+        name: asset.name,
+        ticker: asset.ticker ?? null,
+        type: asset.type,
+        currency: asset.currency ?? null,
+        account_id: asset.accountId ?? null,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return toInvestmentAsset(data)
+  },
+
+  async update(
+    supabase: SupabaseClient,
+    id: string,
+    updates: Partial<InvestmentAssetInput>
+  ): Promise<InvestmentAsset> {
+    const updateData: Record<string, unknown> = {}
+
+    if (updates.name !== undefined) updateData.name = updates.name
+    if ('ticker' in updates) updateData.ticker = updates.ticker ?? null
+    if (updates.type !== undefined) updateData.type = updates.type
+    if ('currency' in updates) updateData.currency = updates.currency ?? null
+    if ('accountId' in updates) updateData.account_id = updates.accountId ?? null
+
+    const { data, error } = await supabase
+      .from('investment_assets')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return toInvestmentAsset(data)
+  },
+
+  // Prices and events go with the asset; recorded transactions are kept
+  async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('investment_assets')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+}
+
+// ============================================
+// INVESTMENT PRICES SERVICE
+// ============================================
+export const investmentPricesService = {
+  async getAll(supabase: SupabaseClient): Promise<InvestmentPrice[]> {
+    const data = await fetchAllRows<DbInvestmentPrice>((from, to) =>
+      supabase
+        .from('investment_prices')
+        .select('*')
+        .order('date', { ascending: true })
+        .order('id')
+        .range(from, to)
+    )
+    return data.map(toInvestmentPrice)
+  },
+
+  // One price per asset and day: updating it again the same day replaces it
+  async upsert(
+    supabase: SupabaseClient,
+    assetId: string,
+    price: number,
+    date: string = getTodayString()
+  ): Promise<InvestmentPrice> {
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('investment_prices')
+      .upsert(
+        { user_id: userData.user.id, asset_id: assetId, price, date },
+        { onConflict: 'asset_id,date' }
+      )
+      .select()
+      .single()
+
+    if (error) throw error
+    return toInvestmentPrice(data)
+  },
+
+  async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('investment_prices')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+}
+
+// ============================================
+// INVESTMENT EVENTS SERVICE
+// ============================================
+export const investmentEventsService = {
+  async getAll(supabase: SupabaseClient): Promise<InvestmentEvent[]> {
+    const data = await fetchAllRows<DbInvestmentEvent>((from, to) =>
+      supabase
+        .from('investment_events')
+        .select('*')
+        .order('date', { ascending: true })
+        .order('id')
+        .range(from, to)
+    )
+    return data.map(toInvestmentEvent)
+  },
+
+  // Records a buy, sell or dividend. With `transaction`, the money it moved is
+  // recorded as well (see buildEventTransaction) and linked to the event
+  async create(
+    supabase: SupabaseClient,
+    event: InvestmentEventInput,
+    transaction?: { asset: InvestmentAsset; accountId?: string; description: string }
+  ): Promise<InvestmentEvent> {
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const linked = transaction && buildEventTransaction(event, transaction.asset, transaction)
+    const recorded = linked ? await transactionsService.create(supabase, linked) : undefined
+
+    const { data, error } = await supabase
+      .from('investment_events')
+      .insert({
+        user_id: userData.user.id,
+        asset_id: event.assetId,
+        type: event.type,
+        date: event.date,
+        quantity: event.quantity,
+        price: event.price,
+        fees: event.fees,
+        amount: event.amount,
+        transaction_id: recorded?.id ?? null,
+        note: event.note ?? null,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return toInvestmentEvent(data)
+  },
+
+  // Restores events from a backup, linked to the transactions already restored
+  async importEvents(
+    supabase: SupabaseClient,
+    events: Omit<InvestmentEvent, 'id' | 'createdAt'>[]
+  ): Promise<void> {
+    if (events.length === 0) return
+
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const userId = userData.user.id
+    const { error } = await supabase.from('investment_events').insert(
+      events.map((event) => ({
+        user_id: userId,
+        asset_id: event.assetId,
+        type: event.type,
+        date: event.date,
+        quantity: event.quantity,
+        price: event.price,
+        fees: event.fees,
+        amount: event.amount,
+        transaction_id: event.transactionId ?? null,
+        note: event.note ?? null,
+      }))
+    )
+
+    if (error) throw error
+  },
+
+  // The transaction recorded with the event goes with it
+  async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { data: row } = await supabase
+      .from('investment_events')
+      .select('transaction_id')
+      .eq('id', id)
+      .single()
+
+    const { error } = await supabase
+      .from('investment_events')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+
+    if (row?.transaction_id) {
+      await transactionsService.delete(supabase, row.transaction_id)
+    }
+  },
+}
+
+// ============================================
+// INVESTMENT SIMULATIONS SERVICE
+// ============================================
+export const investmentSimulationsService = {
+  async getAll(supabase: SupabaseClient): Promise<InvestmentSimulation[]> {
+    const { data, error } = await supabase
+      .from('investment_simulations')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return ((data ?? []) as DbInvestmentSimulation[]).map(toInvestmentSimulation)
+  },
+
+  async create(
+    supabase: SupabaseClient,
+    simulation: InvestmentSimulationInput
+  ): Promise<InvestmentSimulation> {
+    const { data: userData } = await supabase.auth.getUser()
+    if (!userData.user) throw new Error('User not authenticated')
+
+    const { data, error } = await supabase
+      .from('investment_simulations')
+      .insert({
+        user_id: userData.user.id,
+        name: simulation.name,
+        initial_amount: simulation.initialAmount,
+        monthly_contribution: simulation.monthlyContribution,
+        annual_rate: simulation.annualRate,
+        period_years: simulation.periodYears,
+        compounding_frequency: simulation.compoundingFrequency,
+        yield_index: simulation.yieldIndex,
+        index_rate: simulation.indexRate ?? null,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return toInvestmentSimulation(data)
+  },
+
+  async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('investment_simulations')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
 }
@@ -0,0 +1,348 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { flashcardsService } from './flashcards.service'
+import { habitsService, completionsService } from './habits.service'
+import { userStatsService } from './gamification.service'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Flashcard, Habit } from '../types'
+
+// Mock Supabase client factory
+function createMockSupabase() {
+  const mockChain = {
+    select: vi.fn().mockReturnThis(),
+    insert: vi.fn().mockReturnThis(),
+    update: vi.fn().mockReturnThis(),
+    delete: vi.fn().mockReturnThis(),
+    eq: vi.fn().mockReturnThis(),
+    in: vi.fn().mockReturnThis(),
+    lte: vi.fn().mockReturnThis(),
+    order: vi.fn().mockReturnThis(),
+    single: vi.fn().mockResolvedValue({ data: null, error: null }),
+  }
+
+  return {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'test-user-id' } },
+        error: null,
+      }),
+    },
+    from: vi.fn(() => mockChain),
+    mockChain,
+  } as unknown as SupabaseClient & { mockChain: typeof mockChain }
+}
+
+const mockRow = {
+  id: 'card-1',
+  user_id: 'test-user-id',
+  notebook_id: 'notebook-1',
+  page_id: null,
+  front: 'Capital do Peru',
+  back: 'Lima',
+  ease: 2.5,
+  interval: 0,
+  repetitions: 0,
+  due_date: '2026-10-18',
+  last_reviewed_at: null,
+  created_at: '2026-10-18T10:00:00Z',
+  updated_at: '2026-10-18T10:00:00Z',
+}
+
+const mockCard: Flashcard = {
+  id: 'card-1',
+  notebookId: 'notebook-1',
+  front: 'Capital do Peru',
+  back: 'Lima',
+  ease: 2.5,
+  interval: 0,
+  repetitions: 0,
+  dueDate: '2026-10-18',
+  createdAt: '2026-10-18T10:00:00Z',
+  updatedAt: '2026-10-18T10:00:00Z',
+}
+
+function createHabit(overrides: Partial<Habit>): Habit {
+  return {
+    id: 'habit-1',
+    title: 'Revisar cartões',
+    areaId: 'area-1',
+    frequency: { type: 'daily' },
+    tracking: { type: 'boolean' },
+    color: '#6366f1',
+    completions: [],
+    createdAt: '2026-10-01T00:00:00Z',
+    notebookId: 'notebook-1',
+    ...overrides,
+  }
+}
+
+describe('flashcardsService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('getDue', () => {
+    it('should fetch the cards of a notebook due up to the date', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.mockChain.order.mockResolvedValueOnce({ data: [mockRow], error: null })
+
+      const result = await flashcardsService.getDue(mockSupabase, 'notebook-1', '2026-10-18')
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('flashcards')
+      expect(mockSupabase.mockChain.lte).toHaveBeenCalledWith('due_date', '2026-10-18')
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('notebook_id', 'notebook-1')
+      expect(mockSupabase.mockChain.order).toHaveBeenCalledWith('due_date', { ascending: true })
+      expect(result).toEqual([{ ...mockCard, pageId: undefined, lastReviewedAt: undefined }])
+    })
+
+    it('should fetch due cards of every notebook', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.mockChain.order.mockResolvedValueOnce({ data: [], error: null })
+
+      await flashcardsService.getDue(mockSupabase, undefined, '2026-10-18')
+
+      expect(mockSupabase.mockChain.eq).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('create', () => {
+    it('should create a standalone card due today', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.mockChain.single.mockResolvedValueOnce({ data: mockRow, error: null })
+
+      await flashcardsService.create(
+        mockSupabase,
+        { notebookId: 'notebook-1', front: 'Capital do Peru', back: 'Lima' },
+        '2026-10-18'
+      )
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith({
+        user_id: 'test-user-id',
+        notebook_id: 'notebook-1',
+        page_id: null,
+        front: 'Capital do Peru',
+        back: 'Lima',
+        ease: 2.5,
+        interval: 0,
+        repetitions: 0,
+        due_date: '2026-10-18',
+      })
+    })
+
+    it('should throw if user is not authenticated', async () => {
+      const mockSupabase = createMockSupabase()
+      ;(mockSupabase.auth.getUser as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        data: { user: null },
+        error: null,
+      })
+
+      await expect(
+        flashcardsService.create(mockSupabase, { notebookId: 'notebook-1', front: 'a', back: 'b' })
+      ).rejects.toThrow('User not authenticated')
+    })
+  })
+
+  describe('review', () => {
+    it('should save the next review of the card', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.mockChain.single.mockResolvedValueOnce({ data: mockRow, error: null })
+
+      await flashcardsService.review(mockSupabase, mockCard, 'good', '2026-10-18')
+
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ease: 2.5,
+          interval: 1,
+          repetitions: 1,
+          due_date: '2026-10-19',
+        })
+      )
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('id', 'card-1')
+    })
+  })
+
+  describe('syncPageFlashcards', () => {
+    it('should add new questions, update answers and remove deleted cards', async () => {
+      const mockSupabase = createMockSupabase()
+      // Cards already saved for the page
+      mockSupabase.mockChain.eq
+        .mockResolvedValueOnce({
+          data: [
+            { ...mockRow, id: 'card-1', page_id: 'page-1', front: 'capital do peru', back: 'Cusco' },
+            { ...mockRow, id: 'card-2', page_id: 'page-1', front: 'Removida', back: 'x' },
+          ],
+          error: null,
+        })
+        .mockResolvedValueOnce({ error: null })
+      mockSupabase.mockChain.in.mockResolvedValueOnce({ error: null })
+      mockSupabase.mockChain.insert.mockResolvedValueOnce({ error: null })
+
+      await flashcardsService.syncPageFlashcards(
+        mockSupabase,
+        {
+          id: 'page-1',
+          notebookId: 'notebook-1',
+          userId: 'test-user-id',
+          title: 'Geografia',
+          content: [
+            {
+              id: 'block-1',
+              type: 'paragraph',
+              props: { textColor: 'default', backgroundColor: 'default', textAlignment: 'left' },
+              content: [{ type: 'text', text: 'Capital do Peru :: Lima', styles: {} }],
+              children: [],
+            },
+            {
+              id: 'block-2',
+              type: 'paragraph',
+              props: { textColor: 'default', backgroundColor: 'default', textAlignment: 'left' },
+              content: [{ type: 'text', text: 'Capital do Chile :: Santiago', styles: {} }],
+              children: [],
+            },
+          ],
+          order: 0,
+          createdAt: '2026-10-18T10:00:00Z',
+          updatedAt: '2026-10-18T10:00:00Z',
+        },
+        '2026-10-18'
+      )
+
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('page_id', 'page-1')
+      expect(mockSupabase.mockChain.update).toHaveBeenCalledWith({
+        front: 'Capital do Peru',
+        back: 'Lima',
+      })
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('id', 'card-1')
+      expect(mockSupabase.mockChain.in).toHaveBeenCalledWith('id', ['card-2'])
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith([
+        {
+          user_id: 'test-user-id',
+          notebook_id: 'notebook-1',
+          page_id: 'page-1',
+          front: 'Capital do Chile',
+          back: 'Santiago',
+          ease: 2.5,
+          interval: 0,
+          repetitions: 0,
+          due_date: '2026-10-18',
+        },
+      ])
+    })
+  })
+
+  describe('importFlashcards', () => {
+    it('should replace the cards of the notebook keeping their schedules', async () => {
+      const mockSupabase = createMockSupabase()
+
+      await flashcardsService.importFlashcards(mockSupabase, 'notebook-2', [
+        {
+          ...mockCard,
+          pageId: 'page-2',
+          interval: 6,
+          repetitions: 2,
+          dueDate: '2026-10-24',
+          lastReviewedAt: '2026-10-18T10:00:00Z',
+        },
+      ])
+
+      expect(mockSupabase.mockChain.delete).toHaveBeenCalled()
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('notebook_id', 'notebook-2')
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith([
+        expect.objectContaining({
+          notebook_id: 'notebook-2',
+          page_id: 'page-2',
+          interval: 6,
+          repetitions: 2,
+          due_date: '2026-10-24',
+          last_reviewed_at: '2026-10-18T10:00:00Z',
+        }),
+      ])
+    })
+  })
+
+  describe('completeSession', () => {
+    it('should award XP and complete the habits linked to the notebooks when asked to', async () => {
+      const mockSupabase = createMockSupabase()
+      const addXp = vi.spyOn(userStatsService, 'addXp').mockResolvedValue({} as never)
+      vi.spyOn(habitsService, 'getByNotebook').mockResolvedValue([
+        createHabit({ id: 'habit-1' }),
+        createHabit({ id: 'habit-2', tracking: { type: 'quantitative', target: 20, unit: 'cards' } }),
+        createHabit({
+          id: 'habit-3',
+          completions: [{ date: '2026-10-18', value: 1, completedAt: '2026-10-18T08:00:00Z' }],
+        }),
+        createHabit({ id: 'habit-4', tracking: { type: 'avoid', limit: 0 } }),
+      ])
+      const setCompletionValue = vi
+        .spyOn(completionsService, 'setCompletionValue')
+        .mockResolvedValue({} as never)
+
+      const result = await flashcardsService.completeSession(
+        mockSupabase,
+        { reviewed: 12, notebookIds: ['notebook-1', 'notebook-1'], completeHabits: true },
+        '2026-10-18'
+      )
+
+      expect(addXp).toHaveBeenCalledWith(mockSupabase, 24)
+      expect(habitsService.getByNotebook).toHaveBeenCalledTimes(1)
+      expect(setCompletionValue).toHaveBeenCalledTimes(2)
+      expect(setCompletionValue).toHaveBeenCalledWith(mockSupabase, 'habit-1', '2026-10-18', 1)
+      expect(setCompletionValue).toHaveBeenCalledWith(mockSupabase, 'habit-2', '2026-10-18', 12)
+      expect(result).toEqual({ reviewed: 12, xpEarned: 24, completedHabitIds: ['habit-1'] })
+    })
+
+    it('should add the cards reviewed to what a quantitative habit already logged', async () => {
+      const mockSupabase = createMockSupabase()
+      vi.spyOn(userStatsService, 'addXp').mockResolvedValue({} as never)
+      vi.spyOn(habitsService, 'getByNotebook').mockResolvedValue([
+        createHabit({
+          id: 'habit-1',
+          tracking: { type: 'quantitative', target: 20, unit: 'cards' },
+          completions: [{ date: '2026-10-18', value: 15, completedAt: '2026-10-18T08:00:00Z' }],
+        }),
+      ])
+      const setCompletionValue = vi
+        .spyOn(completionsService, 'setCompletionValue')
+        .mockResolvedValue({} as never)
+
+      const result = await flashcardsService.completeSession(
+        mockSupabase,
+        { reviewed: 8, notebookIds: ['notebook-1'], completeHabits: true },
+        '2026-10-18'
+      )
+
+      expect(setCompletionValue).toHaveBeenCalledWith(mockSupabase, 'habit-1', '2026-10-18', 23)
+      expect(result.completedHabitIds).toEqual(['habit-1'])
+    })
+
+    it('should leave the linked habits alone unless asked to complete them', async () => {
+      const mockSupabase = createMockSupabase()
+      vi.spyOn(userStatsService, 'addXp').mockResolvedValue({} as never)
+      const getByNotebook = vi.spyOn(habitsService, 'getByNotebook')
+      const setCompletionValue = vi.spyOn(completionsService, 'setCompletionValue')
+
+      const result = await flashcardsService.completeSession(
+        mockSupabase,
+        { reviewed: 5, notebookIds: ['notebook-1'] },
+        '2026-10-18'
+      )
+
+      expect(getByNotebook).not.toHaveBeenCalled()
+      expect(setCompletionValue).not.toHaveBeenCalled()
+      expect(result).toEqual({ reviewed: 5, xpEarned: 10, completedHabitIds: [] })
+    })
+
+    it('should do nothing when no card was reviewed', async () => {
+      const mockSupabase = createMockSupabase()
+      const addXp = vi.spyOn(userStatsService, 'addXp')
+
+      const result = await flashcardsService.completeSession(
+        mockSupabase,
+        { reviewed: 0, notebookIds: ['notebook-1'] },
+        '2026-10-18'
+      )
+
+      expect(addXp).not.toHaveBeenCalled()
+      expect(result).toEqual({ reviewed: 0, xpEarned: 0, completedHabitIds: [] })
+    })
+  })
+})
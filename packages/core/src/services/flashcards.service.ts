@@ -0,0 +1,322 @@
+// Flashcards Service - cards, spaced-repetition reviews and review sessions
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  Flashcard,
+  FlashcardGrade,
+  FlashcardSessionResult,
+  CreateFlashcardData,
+  UpdateFlashcardData,
+  NotebookPage,
+  NoteBlock,
+} from '../types'
+import {
+  extractPageFlashcards,
+  createFlashcardSchedule,
+  scheduleFlashcard,
+} from '../lib/flashcards'
+import { getTodayString } from '../lib/utils'
+import { habitsService, completionsService } from './habits.service'
+import { userStatsService } from './gamification.service'
+
+// Database row type
+interface DbFlashcard {
+  id: string
+  user_id: string
+  notebook_id: string
+  page_id: string | null
+  front: string
+  back: string
+  ease: number
+  interval: number
+  repetitions: number
+  due_date: string
+  last_reviewed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// XP for each card reviewed in a session
+const XP_PER_REVIEW = 2
+
+// Transform database row to frontend type
+function toFlashcard(row: DbFlashcard): Flashcard {
+  return {
+    id: row.id,
+    notebookId: row.notebook_id,
+    pageId: row.page_id ?? undefined,
+    front: row.front,
+    back: row.back,
+    ease: row.ease,
+    interval: row.interval,
+    repetitions: row.repetitions,
+    dueDate: row.due_date,
+    lastReviewedAt: row.last_reviewed_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+export const flashcardsService = {
+  async getByNotebook(supabase: SupabaseClient, notebookId: string): Promise<Flashcard[]> {
+    const { data, error } = await supabase
+      .from('flashcards')
+      .select('*')
+      .eq('notebook_id', notebookId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    return ((data ?? []) as DbFlashcard[]).map(toFlashcard)
+  },
+
+  // Cards due up to a date, in every notebook or in one; the most overdue first
+  async getDue(
+    supabase: SupabaseClient,
+    notebookId?: string,
+    date: string = getTodayString()
+  ): Promise<Flashcard[]> {
+    let query = supabase
+      .from('flashcards')
+      .select('*')
+      .lte('due_date', date)
+
+    if (notebookId) query = query.eq('notebook_id', notebookId)
+
+    const { data, error } = await query.order('due_date', { ascending: true })
+
+    if (error) throw error
+
+    return ((data ?? []) as DbFlashcard[]).map(toFlashcard)
+  },
+
+  // Standalone card, due right away
+  async create(
+    supabase: SupabaseClient,
+    input: CreateFlashcardData,
+    today: string = getTodayString()
+  ): Promise<Flashcard> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const schedule = createFlashcardSchedule(today)
+
+    const { data, error } = await supabase
+      .from('flashcards')
+      .insert({
+        user_id: user.id,
+        notebook_id: input.notebookId,
+        page_id: null,
+        front: input.front,
+        back: input.back,
+        ease: schedule.ease,
+        interval: schedule.interval,
+        repetitions: schedule.repetitions,
+        due_date: schedule.dueDate,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return toFlashcard(data as DbFlashcard)
+  },
+
+  async update(supabase: SupabaseClient, id: string, input: UpdateFlashcardData): Promise<Flashcard> {
+    const updateData: Record<string, unknown> = {}
+    if (input.front !== undefined) updateData.front = input.front
+    if (input.back !== undefined) updateData.back = input.back
+
+    const { data, error } = await supabase
+      .from('flashcards')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return toFlashcard(data as DbFlashcard)
+  },
+
+  async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('flashcards')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  // Grades a card and schedules its next review
+  async review(
+    supabase: SupabaseClient,
+    card: Flashcard,
+    grade: FlashcardGrade,
+    today: string = getTodayString()
+  ): Promise<Flashcard> {
+    const schedule = scheduleFlashcard(card, grade, today)
+
+    const { data, error } = await supabase
+      .from('flashcards')
+      .update({
+        ease: schedule.ease,
+        interval: schedule.interval,
+        repetitions: schedule.repetitions,
+        due_date: schedule.dueDate,
+        last_reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', card.id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return toFlashcard(data as DbFlashcard)
+  },
+
+  // Rebuilds the cards written in a page from its content. Cards are matched
+  // by question ignoring case, so editing an answer keeps the card's schedule
+  async syncPageFlashcards(
+    supabase: SupabaseClient,
+    page: NotebookPage,
+    today: string = getTodayString()
+  ): Promise<void> {
+    const cards = extractPageFlashcards(page.content as NoteBlock[])
+
+    const { data, error } = await supabase
+      .from('flashcards')
+      .select('*')
+      .eq('page_id', page.id)
+
+    if (error) throw error
+
+    const existing = new Map(
+      ((data ?? []) as DbFlashcard[]).map((row) => [row.front.toLowerCase(), row])
+    )
+
+    const inserts: Partial<DbFlashcard>[] = []
+    for (const card of cards) {
+      const row = existing.get(card.front.toLowerCase())
+      existing.delete(card.front.toLowerCase())
+
+      if (!row) {
+        const schedule = createFlashcardSchedule(today)
+        inserts.push({
+          user_id: page.userId,
+          notebook_id: page.notebookId,
+          page_id: page.id,
+          front: card.front,
+          back: card.back,
+          ease: schedule.ease,
+          interval: schedule.interval,
+          repetitions: schedule.repetitions,
+          due_date: schedule.dueDate,
+        })
+      } else if (row.front !== card.front || row.back !== card.back) {
+        const { error: updateError } = await supabase
+          .from('flashcards')
+          .update({ front: card.front, back: card.back })
+          .eq('id', row.id)
+
+        if (updateError) throw updateError
+      }
+    }
+
+    // Whatever is left was removed from the page
+    if (existing.size > 0) {
+      const { error: deleteError } = await supabase
+        .from('flashcards')
+        .delete()
+        .in('id', [...existing.values()].map((row) => row.id))
+
+      if (deleteError) throw deleteError
+    }
+
+    if (inserts.length === 0) return
+
+    const { error: insertError } = await supabase.from('flashcards').insert(inserts)
+
+    if (insertError) throw insertError
+  },
+
+  /**
+   * Replace a notebook's cards with the ones from a backup, keeping their
+   * schedules. Restoring the pages syncs their cards as new ones, so those are
+   * dropped first.
+   */
+  async importFlashcards(
+    supabase: SupabaseClient,
+    notebookId: string,
+    cards: Omit<Flashcard, 'id' | 'notebookId' | 'createdAt' | 'updatedAt'>[]
+  ): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const { error: deleteError } = await supabase
+      .from('flashcards')
+      .delete()
+      .eq('notebook_id', notebookId)
+
+    if (deleteError) throw deleteError
+
+    if (cards.length === 0) return
+
+    const { error } = await supabase.from('flashcards').insert(
+      cards.map((card) => ({
+        user_id: user.id,
+        notebook_id: notebookId,
+        page_id: card.pageId ?? null,
+        front: card.front,
+        back: card.back,
+        ease: card.ease,
+        interval: card.interval,
+        repetitions: card.repetitions,
+        due_date: card.dueDate,
+        last_reviewed_at: card.lastReviewedAt ?? null,
+      }))
+    )
+
+    if (error) throw error
+  },
+
+  /**
+   * Wrap up a review session: award XP for the cards reviewed and, when the
+   * user asks for it (`completeHabits`), count the session toward today's
+   * completion of the habits linked to the reviewed notebooks
+   * (Habit.notebookId). Quantitative habits get the cards reviewed added to
+   * what was already logged; habits already done today are left as they are,
+   * and avoid habits never count.
+   */
+  async completeSession(
+    supabase: SupabaseClient,
+    session: { reviewed: number; notebookIds: string[]; completeHabits?: boolean },
+    date: string = getTodayString()
+  ): Promise<FlashcardSessionResult> {
+    if (session.reviewed === 0) return { reviewed: 0, xpEarned: 0, completedHabitIds: [] }
+
+    const xpEarned = session.reviewed * XP_PER_REVIEW
+    await userStatsService.addXp(supabase, xpEarned)
+
+    const completedHabitIds: string[] = []
+    if (!session.completeHabits) return { reviewed: session.reviewed, xpEarned, completedHabitIds }
+
+    for (const notebookId of new Set(session.notebookIds)) {
+      const habits = await habitsService.getByNotebook(supabase, notebookId)
+
+      for (const habit of habits) {
+        if (habit.tracking.type === 'avoid') continue
+
+        const target = habit.tracking.type === 'quantitative' ? habit.tracking.target : 1
+        const current = habit.completions.find((c) => c.date === date)?.value ?? 0
+        if (current >= target) continue
+
+        const value = habit.tracking.type === 'quantitative' ? current + session.reviewed : target
+        await completionsService.setCompletionValue(supabase, habit.id, date, value)
+        if (value >= target) completedHabitIds.push(habit.id)
+      }
+    }
+
+    return { reviewed: session.reviewed, xpEarned, completedHabitIds }
+  },
+}
@@ -1,5 +1,15 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
-import type { Habit, HabitCompletion, HabitFrequency, HabitTracking } from '../types'
+import type {
+  Habit,
+  HabitCompletion,
+  HabitFreeze,
+  HabitFrequency,
+  HabitSummary,
+  HabitTracking,
+  Vacation,
+} from '../types'
+import type { StreakOptions } from '../lib/streaks'
+import { calculateHabitStreak } from '../lib/streaks'
 
 // Database row types
 interface DbHabit {
@@ -9,9 +19,9 @@ interface DbHabit {
   project_id: string | null
   title: string
   description: string | null
-  frequency_type: 'daily' | 'weekly' | 'specificDays' | 'monthly'
+  frequency_type: HabitFrequency['type']
   frequency_data: Record<string, unknown>
-  tracking_type: 'boolean' | 'quantitative'
+  tracking_type: HabitTracking['type']
   tracking_target: number | null
   tracking_unit: string | null
   color: string
@@ -42,45 +52,147 @@ interface DbHabitStreak {
   last_completed_date: string | null
 }
 
-// Transform database row to frontend type
-function toHabit(row: DbHabit, completions: HabitCompletion[] = []): Habit {
-  // Build frequency object
-  let frequency: HabitFrequency
-  switch (row.frequency_type) {
+interface DbHabitSummary {
+  habit_id: string
+  user_id: string
+  total_completions: number
+  first_completion: string | null
+  last_completion: string | null
+  current_streak: number
+  longest_streak: number
+}
+
+interface DbHabitFreeze {
+  id: string
+  user_id: string
+  habit_id: string
+  date: string
+  created_at: string
+}
+
+interface DbVacation {
+  id: string
+  user_id: string
+  start_date: string
+  end_date: string
+  note: string | null
+  created_at: string
+}
+
+export type CreateVacationData = Omit<Vacation, 'id' | 'createdAt'>
+
+export interface GetHabitsOptions {
+  // Earliest completion date to load (YYYY-MM-DD); defaults to RECENT_COMPLETIONS_DAYS ago
+  completionsFrom?: string
+}
+
+// Habit lists only need recent completions (today, this week, sparklines).
+// Screens showing history use completionsService.getRange and getSummary.
+export const RECENT_COMPLETIONS_DAYS = 90
+
+// PostgREST caps responses at 1000 rows by default
+const COMPLETIONS_PAGE_SIZE = 1000
+
+// Build frequency object from frequency_type/frequency_data columns
+function toFrequency(
+  type: DbHabit['frequency_type'],
+  data: Record<string, unknown> | null
+): HabitFrequency {
+  switch (type) {
     case 'daily':
-      frequency = { type: 'daily' }
-      break
+      return { type: 'daily' }
     case 'weekly':
-      frequency = {
+      return {
         type: 'weekly',
-        daysPerWeek: (row.frequency_data?.daysPerWeek as number) ?? 7,
+        daysPerWeek: (data?.daysPerWeek as number) ?? 7,
       }
-      break
     case 'specificDays':
-      frequency = {
+      return {
         type: 'specificDays',
-        days: (row.frequency_data?.days as number[]) ?? [],
+        days: (data?.days as number[]) ?? [],
       }
-      break
     case 'monthly':
-      frequency = {
+      return {
         type: 'monthly',
-        timesPerMonth: (row.frequency_data?.timesPerMonth as number) ?? 1,
+        timesPerMonth: (data?.timesPerMonth as number) ?? 1,
+      }
+    case 'interval':
+      return {
+        type: 'interval',
+        everyDays: (data?.everyDays as number) ?? 1,
+      }
+    case 'nthWeekday':
+      return {
+        type: 'nthWeekday',
+        week: (data?.week as number) ?? 1,
+        weekday: (data?.weekday as number) ?? 0,
       }
-      break
   }
+}
 
-  // Build tracking object
-  let tracking: HabitTracking
-  if (row.tracking_type === 'quantitative') {
-    tracking = {
-      type: 'quantitative',
-      target: row.tracking_target ?? 1,
-      unit: row.tracking_unit ?? '',
-    }
-  } else {
-    tracking = { type: 'boolean' }
+// Build frequency_data column from frequency object
+function toFrequencyData(frequency: HabitFrequency): Record<string, unknown> {
+  switch (frequency.type) {
+    case 'daily':
+      return {}
+    case 'weekly':
+      return { daysPerWeek: frequency.daysPerWeek }
+    case 'specificDays':
+      return { days: frequency.days }
+    case 'monthly':
+      return { timesPerMonth: frequency.timesPerMonth }
+    case 'interval':
+      return { everyDays: frequency.everyDays }
+    case 'nthWeekday':
+      return { week: frequency.week, weekday: frequency.weekday }
+  }
+}
+
+// Build tracking object from tracking_type/tracking_target/tracking_unit columns.
+// Avoid habits store their daily limit in tracking_target
+function toTracking(row: DbHabit): HabitTracking {
+  switch (row.tracking_type) {
+    case 'quantitative':
+      return {
+        type: 'quantitative',
+        target: row.tracking_target ?? 1,
+        unit: row.tracking_unit ?? '',
+      }
+    case 'avoid':
+      return {
+        type: 'avoid',
+        limit: row.tracking_target ?? 0,
+        unit: row.tracking_unit ?? undefined,
+      }
+    default:
+      return { type: 'boolean' }
   }
+}
+
+// Build tracking columns from tracking object
+function toTrackingColumns(tracking: HabitTracking) {
+  switch (tracking.type) {
+    case 'quantitative':
+      return {
+        tracking_type: tracking.type,
+        tracking_target: tracking.target,
+        tracking_unit: tracking.unit,
+      }
+    case 'avoid':
+      return {
+        tracking_type: tracking.type,
+        tracking_target: tracking.limit,
+        tracking_unit: tracking.unit ?? null,
+      }
+    case 'boolean':
+      return { tracking_type: tracking.type, tracking_target: null, tracking_unit: null }
+  }
+}
+
+// Transform database row to frontend type
+function toHabit(row: DbHabit, completions: HabitCompletion[] = []): Habit {
+  const frequency = toFrequency(row.frequency_type, row.frequency_data)
+  const tracking = toTracking(row)
 
   return {
     id: row.id,
@@ -109,8 +221,61 @@ function toCompletion(row: DbHabitCompletion): HabitCompletion {
   }
 }
 
+function toHabitFreeze(row: DbHabitFreeze): HabitFreeze {
+  return {
+    id: row.id,
+    habitId: row.habit_id,
+    date: row.date,
+    createdAt: row.created_at,
+  }
+}
+
+function toHabitSummary(row: DbHabitSummary): HabitSummary {
+  return {
+    habitId: row.habit_id,
+    totalCompletions: row.total_completions,
+    firstCompletion: row.first_completion ?? undefined,
+    lastCompletion: row.last_completion ?? undefined,
+    currentStreak: row.current_streak,
+    longestStreak: row.longest_streak,
+  }
+}
+
+function toVacation(row: DbVacation): Vacation {
+  return {
+    id: row.id,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    note: row.note ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+// Frozen and vacation days, which never break a streak
+async function getRestDays(
+  supabase: SupabaseClient,
+  habitId: string
+): Promise<Pick<StreakOptions, 'frozenDates' | 'vacations'>> {
+  const { data: freezes } = await supabase
+    .from('habit_freezes')
+    .select('date')
+    .eq('habit_id', habitId)
+
+  const { data: vacations } = await supabase
+    .from('vacations')
+    .select('start_date, end_date')
+
+  return {
+    frozenDates: ((freezes ?? []) as Pick<DbHabitFreeze, 'date'>[]).map((f) => f.date),
+    vacations: ((vacations ?? []) as Pick<DbVacation, 'start_date' | 'end_date'>[]).map((v) => ({
+      startDate: v.start_date,
+      endDate: v.end_date,
+    })),
+  }
+}
+
 export const habitsService = {
-  async getAll(supabase: SupabaseClient): Promise<Habit[]> {
+  async getAll(supabase: SupabaseClient, options: GetHabitsOptions = {}): Promise<Habit[]> {
     // Get habits
     const { data: habitsData, error: habitsError } = await supabase
       .from('habits')
@@ -123,10 +288,13 @@ export const habitsService = {
 
     if (habits.length === 0) return []
 
-    // Get completions for all habits (last 90 days for performance)
-    const ninetyDaysAgo = new Date()
-    ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90)
-    const startDate = ninetyDaysAgo.toISOString().split('T')[0]
+    // Get recent completions for all habits
+    let startDate = options.completionsFrom
+    if (!startDate) {
+      const recentStart = new Date()
+      recentStart.setDate(recentStart.getDate() - RECENT_COMPLETIONS_DAYS)
+      startDate = recentStart.toISOString().split('T')[0]
+    }
 
     const { data: completionsData, error: completionsError } = await supabase
       .from('habit_completions')
@@ -160,15 +328,24 @@ export const habitsService = {
       throw habitError
     }
 
-    // Get completions for this habit
-    const { data: completionsData, error: completionsError } = await supabase
-      .from('habit_completions')
-      .select('*')
-      .eq('habit_id', id)
+    // Full history, newest first, read page by page: streaks and the export
+    // are computed from all of it
+    const completions: HabitCompletion[] = []
 
-    if (completionsError) throw completionsError
+    for (let offset = 0; ; offset += COMPLETIONS_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('habit_completions')
+        .select('*')
+        .eq('habit_id', id)
+        .order('date', { ascending: false })
+        .range(offset, offset + COMPLETIONS_PAGE_SIZE - 1)
 
-    const completions = ((completionsData ?? []) as DbHabitCompletion[]).map(toCompletion)
+      if (error) throw error
+
+      const rows = (data ?? []) as DbHabitCompletion[]
+      completions.push(...rows.map(toCompletion))
+      if (rows.length < COMPLETIONS_PAGE_SIZE) break
+    }
 
     return toHabit(habitData as DbHabit, completions)
   },
@@ -277,7 +454,7 @@ export const habitsService = {
 
   async create(
     supabase: SupabaseClient,
-    habit: Omit<Habit, 'id' | 'createdAt' | 'completions'>
+    habit: Omit<Habit, 'id' | 'createdAt' | 'completions' | 'areaId'> & { areaId?: string }
   ): Promise<Habit> {
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) throw new Error('User not authenticated')
@@ -291,16 +468,6 @@ export const habitsService = {
 
     const maxOrder = allHabits && allHabits.length > 0 ? (allHabits[0] as DbHabit).order : -1
 
-    // Build frequency data
-    let frequencyData: Record<string, unknown> = {}
-    if (habit.frequency.type === 'weekly') {
-      frequencyData = { daysPerWeek: habit.frequency.daysPerWeek }
-    } else if (habit.frequency.type === 'specificDays') {
-      frequencyData = { days: habit.frequency.days }
-    } else if (habit.frequency.type === 'monthly') {
-      frequencyData = { timesPerMonth: habit.frequency.timesPerMonth }
-    }
-
     const { data, error } = await supabase
       .from('habits')
       .insert({
@@ -310,10 +477,8 @@ export const habitsService = {
         title: habit.title,
         description: habit.description,
         frequency_type: habit.frequency.type,
-        frequency_data: frequencyData,
-        tracking_type: habit.tracking.type,
-        tracking_target: habit.tracking.type === 'quantitative' ? habit.tracking.target : null,
-        tracking_unit: habit.tracking.type === 'quantitative' ? habit.tracking.unit : null,
+        frequency_data: toFrequencyData(habit.frequency),
+        ...toTrackingColumns(habit.tracking),
         color: habit.color,
         icon: habit.icon,
         order: maxOrder + 1,
@@ -357,26 +522,11 @@ export const habitsService = {
 
     if (updates.frequency) {
       dbUpdates.frequency_type = updates.frequency.type
-      let frequencyData: Record<string, unknown> = {}
-      if (updates.frequency.type === 'weekly') {
-        frequencyData = { daysPerWeek: updates.frequency.daysPerWeek }
-      } else if (updates.frequency.type === 'specificDays') {
-        frequencyData = { days: updates.frequency.days }
-      } else if (updates.frequency.type === 'monthly') {
-        frequencyData = { timesPerMonth: updates.frequency.timesPerMonth }
-      }
-      dbUpdates.frequency_data = frequencyData
+      dbUpdates.frequency_data = toFrequencyData(updates.frequency)
     }
 
     if (updates.tracking) {
-      dbUpdates.tracking_type = updates.tracking.type
-      if (updates.tracking.type === 'quantitative') {
-        dbUpdates.tracking_target = updates.tracking.target
-        dbUpdates.tracking_unit = updates.tracking.unit
-      } else {
-        dbUpdates.tracking_target = null
-        dbUpdates.tracking_unit = null
-      }
+      Object.assign(dbUpdates, toTrackingColumns(updates.tracking))
     }
 
     const { data, error } = await supabase
@@ -501,14 +651,11 @@ export const completionsService = {
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) return
 
-    // Get completions ordered by date
-    const { data: completions } = await supabase
-      .from('habit_completions')
-      .select('date')
-      .eq('habit_id', habitId)
-      .order('date', { ascending: false })
+    const habit = await habitsService.getById(supabase, habitId)
 
-    if (!completions || completions.length === 0) {
+    // Avoid habits build a clean streak from the day they were created,
+    // even before anything was logged
+    if (!habit || (habit.completions.length === 0 && habit.tracking.type !== 'avoid')) {
       // Reset streak
       await supabase
         .from('habit_streaks')
@@ -524,31 +671,9 @@ export const completionsService = {
       return
     }
 
-    // Calculate streak
-    const dates = completions.map((c) => c.date as string)
-    const today = new Date().toISOString().split('T')[0]
-    const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0]
-
-    let currentStreak = 0
-    const checkDate = dates[0] === today ? today : dates[0] === yesterday ? yesterday : null
-
-    if (checkDate) {
-      currentStreak = 1
-      let prevDate = new Date(checkDate)
-
-      for (let i = 1; i < dates.length; i++) {
-        const expectedPrev = new Date(prevDate)
-        expectedPrev.setDate(expectedPrev.getDate() - 1)
-        const expectedPrevStr = expectedPrev.toISOString().split('T')[0]
-
-        if (dates[i] === expectedPrevStr) {
-          currentStreak++
-          prevDate = expectedPrev
-        } else {
-          break
-        }
-      }
-    }
+    // Streak rules depend on the habit's frequency and target
+    const restDays = await getRestDays(supabase, habitId)
+    const streak = calculateHabitStreak(habit, restDays)
 
     // Get current longest streak
     const { data: streakData } = await supabase
@@ -557,14 +682,17 @@ export const completionsService = {
       .eq('habit_id', habitId)
       .single()
 
-    const longestStreak = Math.max(currentStreak, (streakData as DbHabitStreak | null)?.longest_streak ?? 0)
+    const longestStreak = Math.max(
+      streak.longestStreak,
+      (streakData as DbHabitStreak | null)?.longest_streak ?? 0
+    )
 
     await supabase.from('habit_streaks').upsert({
       user_id: user.id,
       habit_id: habitId,
-      current_streak: currentStreak,
+      current_streak: streak.currentStreak,
       longest_streak: longestStreak,
-      last_completed_date: dates[0],
+      last_completed_date: streak.lastCompletedDate,
     })
 
     // Update global stats
@@ -673,6 +801,27 @@ export const completionsService = {
     return { completion: toCompletion(data as DbHabitCompletion) }
   },
 
+  /**
+   * Log a relapse of an avoid habit, adding to what was already logged that day.
+   * The day breaks the clean streak once the total goes over the habit's limit.
+   */
+  async logRelapse(
+    supabase: SupabaseClient,
+    habitId: string,
+    date: string,
+    amount = 1
+  ): Promise<{ completion: HabitCompletion }> {
+    const { data: existing } = await supabase
+      .from('habit_completions')
+      .select('value')
+      .eq('habit_id', habitId)
+      .eq('date', date)
+      .single()
+
+    const currentValue = (existing as Pick<DbHabitCompletion, 'value'> | null)?.value ?? 0
+    return this.setCompletionValue(supabase, habitId, date, currentValue + amount)
+  },
+
   async removeCompletion(
     supabase: SupabaseClient,
     habitId: string,
@@ -689,4 +838,204 @@ export const completionsService = {
     // Update streak
     await this.updateStreak(supabase, habitId)
   },
+
+  /**
+   * Completions of a habit between two dates (inclusive), oldest first.
+   * Fetched page by page so long histories are not truncated.
+   */
+  async getRange(
+    supabase: SupabaseClient,
+    habitId: string,
+    from: string,
+    to: string
+  ): Promise<HabitCompletion[]> {
+    const completions: HabitCompletion[] = []
+
+    for (let offset = 0; ; offset += COMPLETIONS_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('habit_completions')
+        .select('*')
+        .eq('habit_id', habitId)
+        .gte('date', from)
+        .lte('date', to)
+        .order('date', { ascending: true })
+        .range(offset, offset + COMPLETIONS_PAGE_SIZE - 1)
+
+      if (error) throw error
+
+      const rows = (data ?? []) as DbHabitCompletion[]
+      completions.push(...rows.map(toCompletion))
+      if (rows.length < COMPLETIONS_PAGE_SIZE) break
+    }
+
+    return completions
+  },
+
+  async getSummary(supabase: SupabaseClient, habitId: string): Promise<HabitSummary | null> {
+    const { data, error } = await supabase
+      .from('habit_summaries')
+      .select('*')
+      .eq('habit_id', habitId)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      throw error
+    }
+
+    return toHabitSummary(data as DbHabitSummary)
+  },
+
+  async getSummaries(supabase: SupabaseClient): Promise<HabitSummary[]> {
+    const { data, error } = await supabase.from('habit_summaries').select('*')
+
+    if (error) throw error
+    return ((data ?? []) as DbHabitSummary[]).map(toHabitSummary)
+  },
+
+  async importCompletions(
+    supabase: SupabaseClient,
+    habitId: string,
+    completions: HabitCompletion[]
+  ): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    if (completions.length === 0) return
+
+    // Bulk upsert so restoring a backup doesn't recompute the streak per row
+    const { error } = await supabase
+      .from('habit_completions')
+      .upsert(
+        completions.map((c) => ({
+          habit_id: habitId,
+          user_id: user.id,
+          date: c.date,
+          value: c.value,
+          completed_at: c.completedAt,
+        })),
+        { onConflict: 'habit_id,date' }
+      )
+
+    if (error) throw error
+
+    await this.updateStreak(supabase, habitId)
+  },
+}
+
+// Streak freezes service
+export const habitFreezesService = {
+  async getAll(supabase: SupabaseClient): Promise<HabitFreeze[]> {
+    const { data, error } = await supabase
+      .from('habit_freezes')
+      .select('*')
+      .order('date', { ascending: false })
+
+    if (error) throw error
+    return ((data ?? []) as DbHabitFreeze[]).map(toHabitFreeze)
+  },
+
+  async getByHabit(supabase: SupabaseClient, habitId: string): Promise<HabitFreeze[]> {
+    const { data, error } = await supabase
+      .from('habit_freezes')
+      .select('*')
+      .eq('habit_id', habitId)
+      .order('date', { ascending: false })
+
+    if (error) throw error
+    return ((data ?? []) as DbHabitFreeze[]).map(toHabitFreeze)
+  },
+
+  /**
+   * Spend one of the user's freeze tokens to protect a missed day of a habit.
+   * Tokens are earned by leveling up (see userStatsService).
+   */
+  async spend(supabase: SupabaseClient, habitId: string, date: string): Promise<HabitFreeze> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    // Takes a token only while one is left and records the freeze in the same
+    // statement (see 026_spend_habit_freeze.sql)
+    const { data, error } = await supabase.rpc('spend_habit_freeze', {
+      freeze_habit_id: habitId,
+      freeze_date: date,
+    })
+
+    if (error) throw error
+
+    const freeze = ((data ?? []) as DbHabitFreeze[])[0]
+    if (!freeze) throw new Error('No streak freezes available')
+
+    await completionsService.updateStreak(supabase, habitId)
+
+    return toHabitFreeze(freeze)
+  },
+
+  /**
+   * Restore freezes from a backup. They were paid for when first spent, so no
+   * token is taken; streaks are recomputed once the completions are imported.
+   */
+  async importFreezes(
+    supabase: SupabaseClient,
+    freezes: Pick<HabitFreeze, 'habitId' | 'date'>[]
+  ): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    if (freezes.length === 0) return
+
+    const { error } = await supabase
+      .from('habit_freezes')
+      .upsert(
+        freezes.map((f) => ({ user_id: user.id, habit_id: f.habitId, date: f.date })),
+        { onConflict: 'habit_id,date', ignoreDuplicates: true }
+      )
+
+    if (error) throw error
+  },
+}
+
+// Vacations service (date ranges during which every habit is paused)
+export const vacationsService = {
+  async getAll(supabase: SupabaseClient): Promise<Vacation[]> {
+    const { data, error } = await supabase
+      .from('vacations')
+      .select('*')
+      .order('start_date', { ascending: false })
+
+    if (error) throw error
+    return ((data ?? []) as DbVacation[]).map(toVacation)
+  },
+
+  async create(supabase: SupabaseClient, vacation: CreateVacationData): Promise<Vacation> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    if (vacation.endDate < vacation.startDate) {
+      throw new Error('Vacation end date must not be before its start date')
+    }
+
+    const { data, error } = await supabase
+      .from('vacations')
+      .insert({
+        user_id: user.id,
+        start_date: vacation.startDate,
+        end_date: vacation.endDate,
+        note: vacation.note ?? null,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    return toVacation(data as DbVacation)
+  },
+
+  async delete(supabase: SupabaseClient, id: string): Promise<void> {
+    const { error } = await supabase
+      .from('vacations')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
 }
@@ -9,4 +9,7 @@ export * from './notebooks.service'
 export * from './finances.service'
 export * from './gamification.service'
 export * from './settings.service'
+export * from './pomodoro.service'
+export * from './search.service'
+export * from './flashcards.service'
 // push.service is web-specific (uses web-push), keep it in apps/web
@@ -0,0 +1,310 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { pomodoroService } from './pomodoro.service'
+import { completionsService } from './habits.service'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Type for mock chain with all Supabase query methods
+interface MockChain {
+  select: ReturnType<typeof vi.fn>
+  insert: ReturnType<typeof vi.fn>
+  upsert: ReturnType<typeof vi.fn>
+  eq: ReturnType<typeof vi.fn>
+  not: ReturnType<typeof vi.fn>
+  gte: ReturnType<typeof vi.fn>
+  lte: ReturnType<typeof vi.fn>
+  order: ReturnType<typeof vi.fn>
+  range: ReturnType<typeof vi.fn>
+  single: ReturnType<typeof vi.fn>
+  then: ReturnType<typeof vi.fn>
+}
+
+// Mock Supabase client factory with proper chaining support
+function createMockSupabase() {
+  let defaultResult: { data: unknown; error: unknown } = { data: null, error: null }
+  const resultQueue: Array<{ data: unknown; error: unknown }> = []
+
+  const mockChain = {} as MockChain
+
+  const getNextResult = () => {
+    if (resultQueue.length > 0) {
+      return resultQueue.shift()!
+    }
+    return defaultResult
+  }
+
+  // Define all chainable methods that return mockChain
+  mockChain.select = vi.fn(() => mockChain)
+  mockChain.insert = vi.fn(() => mockChain)
+  mockChain.upsert = vi.fn(() => mockChain)
+  mockChain.eq = vi.fn(() => mockChain)
+  mockChain.not = vi.fn(() => mockChain)
+  mockChain.gte = vi.fn(() => mockChain)
+  mockChain.lte = vi.fn(() => mockChain)
+  mockChain.order = vi.fn(() => mockChain)
+  mockChain.range = vi.fn(() => mockChain)
+  mockChain.single = vi.fn(() => mockChain)
+
+  // Make mockChain thenable
+  mockChain.then = vi.fn((resolve) => {
+    const result = getNextResult()
+    return Promise.resolve(result).then(resolve)
+  })
+
+  const queueResult = (result: { data?: unknown; error: unknown }) => {
+    resultQueue.push({ data: result.data ?? null, error: result.error })
+  }
+
+  return {
+    auth: {
+      getUser: vi.fn().mockResolvedValue({
+        data: { user: { id: 'test-user-id' } },
+        error: null,
+      }),
+    },
+    from: vi.fn(() => mockChain),
+    mockChain,
+    queueResult,
+    setDefaultResult: (result: { data?: unknown; error: unknown }) => {
+      defaultResult = { data: result.data ?? null, error: result.error }
+    },
+  } as unknown as SupabaseClient & {
+    mockChain: MockChain
+    queueResult: (result: { data?: unknown; error: unknown }) => void
+    setDefaultResult: (result: { data?: unknown; error: unknown }) => void
+  }
+}
+
+// Sample DB data
+const mockDbSession = {
+  id: 'session-1',
+  user_id: 'test-user-id',
+  date: '2024-01-15',
+  focus_minutes: 25,
+  completed_at: '2024-01-15T10:25:00Z',
+  task_id: null,
+  habit_id: null,
+}
+
+describe('pomodoroService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('getAll', () => {
+    it('fetches sessions newest first', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbSession], error: null })
+
+      const result = await pomodoroService.getAll(mockSupabase)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('pomodoro_sessions')
+      expect(mockSupabase.mockChain.order).toHaveBeenCalledWith('completed_at', { ascending: false })
+      expect(result).toEqual([
+        { id: 'session-1', date: '2024-01-15', focusMinutes: 25, completedAt: '2024-01-15T10:25:00Z' },
+      ])
+    })
+
+    it('reads every page of sessions', async () => {
+      const mockSupabase = createMockSupabase()
+      const fullPage = Array.from({ length: 1000 }, (_, i) => ({ ...mockDbSession, id: `session-${i}` }))
+      mockSupabase.queueResult({ data: fullPage, error: null })
+      mockSupabase.queueResult({ data: [mockDbSession], error: null })
+
+      const result = await pomodoroService.getAll(mockSupabase)
+
+      expect(mockSupabase.mockChain.range).toHaveBeenCalledWith(0, 999)
+      expect(mockSupabase.mockChain.range).toHaveBeenCalledWith(1000, 1999)
+      expect(result).toHaveLength(1001)
+    })
+
+    it('throws error when fetch fails', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: null, error: { message: 'Database error' } })
+
+      await expect(pomodoroService.getAll(mockSupabase)).rejects.toEqual({
+        message: 'Database error',
+      })
+    })
+  })
+
+  describe('getByDateRange', () => {
+    it('filters sessions by date', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbSession], error: null })
+
+      const result = await pomodoroService.getByDateRange(mockSupabase, '2024-01-01', '2024-01-31')
+
+      expect(mockSupabase.mockChain.gte).toHaveBeenCalledWith('date', '2024-01-01')
+      expect(mockSupabase.mockChain.lte).toHaveBeenCalledWith('date', '2024-01-31')
+      expect(result).toHaveLength(1)
+    })
+  })
+
+  describe('create', () => {
+    it('records a completed focus session', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: mockDbSession, error: null })
+
+      const result = await pomodoroService.create(mockSupabase, {
+        date: '2024-01-15',
+        focusMinutes: 25,
+        completedAt: '2024-01-15T10:25:00Z',
+      })
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith({
+        user_id: 'test-user-id',
+        date: '2024-01-15',
+        focus_minutes: 25,
+        completed_at: '2024-01-15T10:25:00Z',
+        task_id: null,
+        habit_id: null,
+      })
+      expect(result.focusMinutes).toBe(25)
+      expect(result.taskId).toBeUndefined()
+    })
+
+    it('stores the linked task', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: { ...mockDbSession, task_id: 'task-1' }, error: null })
+      const setCompletionValue = vi.spyOn(completionsService, 'setCompletionValue')
+
+      const result = await pomodoroService.create(mockSupabase, {
+        date: '2024-01-15',
+        focusMinutes: 25,
+        completedAt: '2024-01-15T10:25:00Z',
+        taskId: 'task-1',
+      })
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ task_id: 'task-1', habit_id: null })
+      )
+      expect(result.taskId).toBe('task-1')
+      expect(setCompletionValue).not.toHaveBeenCalled()
+    })
+
+    it('adds focused minutes to the linked habit completion', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: { ...mockDbSession, habit_id: 'habit-1' }, error: null })
+      mockSupabase.queueResult({ data: { value: 20 }, error: null }) // existing completion
+      const setCompletionValue = vi
+        .spyOn(completionsService, 'setCompletionValue')
+        .mockResolvedValue({ completion: { date: '2024-01-15', value: 45, completedAt: '' } })
+
+      await pomodoroService.create(mockSupabase, {
+        date: '2024-01-15',
+        focusMinutes: 25,
+        completedAt: '2024-01-15T10:25:00Z',
+        habitId: 'habit-1',
+      })
+
+      expect(setCompletionValue).toHaveBeenCalledWith(mockSupabase, 'habit-1', '2024-01-15', 45)
+    })
+
+    it('starts the habit completion from zero when nothing was logged yet', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: { ...mockDbSession, habit_id: 'habit-1' }, error: null })
+      mockSupabase.queueResult({ data: null, error: { code: 'PGRST116' } }) // no completion
+      const setCompletionValue = vi
+        .spyOn(completionsService, 'setCompletionValue')
+        .mockResolvedValue({ completion: { date: '2024-01-15', value: 25, completedAt: '' } })
+
+      await pomodoroService.create(mockSupabase, {
+        date: '2024-01-15',
+        focusMinutes: 25,
+        completedAt: '2024-01-15T10:25:00Z',
+        habitId: 'habit-1',
+      })
+
+      expect(setCompletionValue).toHaveBeenCalledWith(mockSupabase, 'habit-1', '2024-01-15', 25)
+    })
+
+    it('throws error when user not authenticated', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.auth.getUser = vi.fn().mockResolvedValue({
+        data: { user: null },
+        error: null,
+      })
+
+      await expect(
+        pomodoroService.create(mockSupabase, {
+          date: '2024-01-15',
+          focusMinutes: 25,
+          completedAt: '2024-01-15T10:25:00Z',
+        })
+      ).rejects.toThrow('User not authenticated')
+    })
+  })
+
+  describe('importSessions', () => {
+    it('upserts local sessions, ignoring ones already on the server', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ error: null })
+
+      await pomodoroService.importSessions(mockSupabase, [
+        { date: '2024-01-14', focusMinutes: 25, completedAt: '2024-01-14T09:25:00Z' },
+        { date: '2024-01-15', focusMinutes: 50, completedAt: '2024-01-15T09:50:00Z' },
+      ])
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ user_id: 'test-user-id', date: '2024-01-14', focus_minutes: 25, completed_at: '2024-01-14T09:25:00Z' }),
+          expect.objectContaining({ user_id: 'test-user-id', date: '2024-01-15', focus_minutes: 50, completed_at: '2024-01-15T09:50:00Z' }),
+        ],
+        { onConflict: 'user_id,completed_at', ignoreDuplicates: true }
+      )
+    })
+
+    it('logs habit minutes only for newly inserted sessions, summed per day', async () => {
+      const mockSupabase = createMockSupabase()
+      // Only two of the three sessions were new; the third was already uploaded
+      mockSupabase.queueResult({
+        data: [
+          { ...mockDbSession, id: 's1', habit_id: 'habit-1', completed_at: '2024-01-15T09:25:00Z' },
+          { ...mockDbSession, id: 's2', habit_id: 'habit-1', completed_at: '2024-01-15T10:25:00Z' },
+        ],
+        error: null,
+      })
+      mockSupabase.queueResult({ data: { value: 10 }, error: null }) // existing completion
+      const setCompletionValue = vi
+        .spyOn(completionsService, 'setCompletionValue')
+        .mockResolvedValue({ completion: { date: '2024-01-15', value: 60, completedAt: '' } })
+
+      await pomodoroService.importSessions(mockSupabase, [
+        { date: '2024-01-15', focusMinutes: 25, completedAt: '2024-01-15T08:25:00Z', habitId: 'habit-1' },
+        { date: '2024-01-15', focusMinutes: 25, completedAt: '2024-01-15T09:25:00Z', habitId: 'habit-1' },
+        { date: '2024-01-15', focusMinutes: 25, completedAt: '2024-01-15T10:25:00Z', habitId: 'habit-1' },
+      ])
+
+      expect(setCompletionValue).toHaveBeenCalledTimes(1)
+      expect(setCompletionValue).toHaveBeenCalledWith(mockSupabase, 'habit-1', '2024-01-15', 60)
+    })
+
+    it('does nothing when there are no sessions', async () => {
+      const mockSupabase = createMockSupabase()
+
+      await pomodoroService.importSessions(mockSupabase, [])
+
+      expect(mockSupabase.from).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getFocusMinutesByTask', () => {
+    it('sums focused minutes per task', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({
+        data: [
+          { task_id: 'task-1', focus_minutes: 25 },
+          { task_id: 'task-2', focus_minutes: 50 },
+          { task_id: 'task-1', focus_minutes: 25 },
+        ],
+        error: null,
+      })
+
+      const result = await pomodoroService.getFocusMinutesByTask(mockSupabase)
+
+      expect(mockSupabase.mockChain.not).toHaveBeenCalledWith('task_id', 'is', null)
+      expect(result.get('task-1')).toBe(50)
+      expect(result.get('task-2')).toBe(50)
+    })
+  })
+})
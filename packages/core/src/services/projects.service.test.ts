@@ -761,6 +761,21 @@ describe('projectMetricsService', () => {
     })
   })
 
+  describe('addEntry', () => {
+    it('records a history entry for the given date', async () => {
+      const supabase = createMockSupabase()
+      supabase.setDefaultResult({ data: { ...mockDbMetricEntry, date: '2024-01-10' }, error: null })
+
+      const result = await projectMetricsService.addEntry(supabase, 'metric-1', 250, '2024-01-10')
+
+      expect(supabase.from).toHaveBeenCalledWith('project_metric_entries')
+      expect(supabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ metric_id: 'metric-1', value: 250, date: '2024-01-10' })
+      )
+      expect(result.date).toBe('2024-01-10')
+    })
+  })
+
   describe('getHistory', () => {
     it('returns metric entries within date range', async () => {
       const supabase = createMockSupabase()
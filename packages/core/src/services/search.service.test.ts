@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest'
+import { searchService } from './search.service'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+function createMockSupabase(result: { data: unknown; error: unknown }) {
+  return {
+    rpc: vi.fn().mockResolvedValue(result),
+  } as unknown as SupabaseClient & { rpc: ReturnType<typeof vi.fn> }
+}
+
+describe('searchService', () => {
+  describe('search', () => {
+    it('should search with a prefix query and map the results', async () => {
+      const supabase = createMockSupabase({
+        data: [
+          {
+            type: 'page',
+            id: 'page-1',
+            title: 'Limites',
+            snippet: 'Revisar <mark>limites</mark> laterais',
+            rank: 0.6,
+            parent_id: 'notebook-1',
+            date: '2026-10-01',
+          },
+          {
+            type: 'habit',
+            id: 'habit-1',
+            title: 'Estudar limites',
+            snippet: 'Estudar <mark>limites</mark>',
+            rank: 0.3,
+            parent_id: null,
+            date: null,
+          },
+        ],
+        error: null,
+      })
+
+      const results = await searchService.search(supabase, 'Limites', 10)
+
+      expect(supabase.rpc).toHaveBeenCalledWith('search_everything', {
+        search_query: "'limites':*",
+        result_limit: 10,
+      })
+      expect(results).toEqual([
+        {
+          type: 'page',
+          id: 'page-1',
+          title: 'Limites',
+          snippet: [
+            { text: 'Revisar ', highlighted: false },
+            { text: 'limites', highlighted: true },
+            { text: ' laterais', highlighted: false },
+          ],
+          rank: 0.6,
+          parentId: 'notebook-1',
+          date: '2026-10-01',
+        },
+        {
+          type: 'habit',
+          id: 'habit-1',
+          title: 'Estudar limites',
+          snippet: [
+            { text: 'Estudar ', highlighted: false },
+            { text: 'limites', highlighted: true },
+          ],
+          rank: 0.3,
+          parentId: undefined,
+          date: undefined,
+        },
+      ])
+    })
+
+    it('should not search without words', async () => {
+      const supabase = createMockSupabase({ data: [], error: null })
+
+      const results = await searchService.search(supabase, '  ?! ')
+
+      expect(results).toEqual([])
+      expect(supabase.rpc).not.toHaveBeenCalled()
+    })
+
+    it('should throw on error', async () => {
+      const supabase = createMockSupabase({ data: null, error: { message: 'Database error' } })
+
+      await expect(searchService.search(supabase, 'mercado')).rejects.toEqual({
+        message: 'Database error',
+      })
+    })
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { tasksService, subtasksService } from './tasks.service'
+import { tasksService, subtasksService, taskDependenciesService } from './tasks.service'
 import type { SupabaseClient } from '@supabase/supabase-js'
 
 // Type for mock chain with all Supabase query methods
@@ -8,8 +8,10 @@ interface MockChain {
   insert: ReturnType<typeof vi.fn>
   update: ReturnType<typeof vi.fn>
   delete: ReturnType<typeof vi.fn>
+  upsert: ReturnType<typeof vi.fn>
   eq: ReturnType<typeof vi.fn>
   neq: ReturnType<typeof vi.fn>
+  is: ReturnType<typeof vi.fn>
   in: ReturnType<typeof vi.fn>
   order: ReturnType<typeof vi.fn>
   limit: ReturnType<typeof vi.fn>
@@ -36,8 +38,10 @@ function createMockSupabase() {
   mockChain.insert = vi.fn(() => mockChain)
   mockChain.update = vi.fn(() => mockChain)
   mockChain.delete = vi.fn(() => mockChain)
+  mockChain.upsert = vi.fn(() => mockChain)
   mockChain.eq = vi.fn(() => mockChain)
   mockChain.neq = vi.fn(() => mockChain)
+  mockChain.is = vi.fn(() => mockChain)
   mockChain.in = vi.fn(() => mockChain)
   mockChain.order = vi.fn(() => mockChain)
   mockChain.limit = vi.fn(() => mockChain)
@@ -91,7 +95,10 @@ const mockDbTask = {
   recurrence_type: null,
   recurrence_interval: null,
   recurrence_end_date: null,
+  recurrence_rule: null,
   linked_transaction_id: null,
+  linked_account_id: null,
+  linked_statement_month: null,
   order: 0,
   created_at: '2024-01-01T00:00:00Z',
   completed_at: null,
@@ -127,6 +134,21 @@ describe('tasksService', () => {
       expect(result[0].subtasks).toHaveLength(1)
     })
 
+    it('attaches blockers from task dependencies', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbTask], error: null }) // tasks query
+      mockSupabase.queueResult({ data: [], error: null }) // subtasks query
+      mockSupabase.queueResult({
+        data: [{ task_id: 'task-1', blocked_by_id: 'task-0' }],
+        error: null,
+      }) // dependencies query
+
+      const result = await tasksService.getAll(mockSupabase)
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('task_dependencies')
+      expect(result[0].blockedBy).toEqual(['task-0'])
+    })
+
     it('returns empty array when no tasks exist', async () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.queueResult({ data: [], error: null })
@@ -307,6 +329,33 @@ describe('tasksService', () => {
       })
     })
 
+    it('stores rich recurrence rules as an RRULE', async () => {
+      const recurringTask = {
+        ...mockDbTask,
+        recurrence_type: 'weekly' as const,
+        recurrence_interval: 1,
+        recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO,TH',
+      }
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [], error: null }) // max order query
+      mockSupabase.queueResult({ data: recurringTask, error: null }) // insert query
+
+      const result = await tasksService.create(mockSupabase, {
+        title: 'Gym',
+        status: 'pending',
+        tags: [],
+        recurrence: { type: 'weekly', interval: 1, weekdays: [1, 4] },
+      })
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recurrence_type: 'weekly',
+          recurrence_rule: 'FREQ=WEEKLY;BYDAY=MO,TH',
+        })
+      )
+      expect(result.recurrence).toEqual({ type: 'weekly', interval: 1, weekdays: [1, 4] })
+    })
+
     it('throws error when user not authenticated', async () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.auth.getUser = vi.fn().mockResolvedValue({
@@ -461,6 +510,24 @@ describe('tasksService', () => {
     })
   })
 
+  describe('getByLinkedStatement', () => {
+    it('finds the reminder for a credit card statement, even when done', async () => {
+      const reminder = {
+        ...mockDbTask,
+        status: 'done',
+        linked_account_id: 'card-1',
+        linked_statement_month: '2024-02',
+      }
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [reminder], error: null })
+
+      const result = await tasksService.getByLinkedStatement(mockSupabase, 'card-1', '2024-02')
+
+      expect(result?.linkedStatement).toEqual({ accountId: 'card-1', month: '2024-02' })
+      expect(mockSupabase.mockChain.eq).toHaveBeenCalledWith('linked_statement_month', '2024-02')
+    })
+  })
+
   describe('getByLinkedTransactionId', () => {
     it('finds task by linked transaction', async () => {
       const linkedTask = { ...mockDbTask, linked_transaction_id: 'txn-1' }
@@ -496,6 +563,7 @@ describe('tasksService', () => {
       // getById first
       mockSupabase.queueResult({ data: mockDbTask, error: null }) // current task
       mockSupabase.queueResult({ data: [mockDbSubtask], error: null }) // subtasks
+      mockSupabase.queueResult({ data: [], error: null }) // dependencies
       // update
       mockSupabase.queueResult({ data: completedTask, error: null }) // update result
 
@@ -521,6 +589,7 @@ describe('tasksService', () => {
       // getById first
       mockSupabase.queueResult({ data: doneTask, error: null }) // current task
       mockSupabase.queueResult({ data: [], error: null }) // subtasks
+      mockSupabase.queueResult({ data: [], error: null }) // dependencies
       // update
       mockSupabase.queueResult({ data: pendingTask, error: null }) // update result
 
@@ -530,6 +599,44 @@ describe('tasksService', () => {
       expect(result.task.completedAt).toBeUndefined()
     })
 
+    it('records a payment as the occurrence of its due date', async () => {
+      const paymentTask = { ...mockDbTask, linked_transaction_id: 'rent' }
+      const template = {
+        id: 'rent',
+        type: 'expense',
+        category_id: 'housing',
+        amount: 1500,
+        description: 'Aluguel',
+        date: '2023-12-20',
+        payment_method: null,
+        is_recurring: true,
+        recurrence_frequency: 'monthly',
+        recurrence_next_date: '2024-01-20',
+        recurrence_end_date: '2024-01-31',
+      }
+
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: paymentTask, error: null }) // current task
+      mockSupabase.queueResult({ data: [], error: null }) // subtasks
+      mockSupabase.queueResult({ data: [], error: null }) // dependencies
+      mockSupabase.queueResult({ data: { ...paymentTask, status: 'done' }, error: null }) // update
+      mockSupabase.queueResult({ data: template, error: null }) // linked transaction
+      mockSupabase.queueResult({ data: null, error: null }) // payment
+
+      await tasksService.setStatus(mockSupabase, 'task-1', 'done')
+
+      expect(mockSupabase.mockChain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 1500,
+          date: '2024-01-20',
+          is_recurring: false,
+          recurrence_parent_id: 'rent',
+          occurrence_date: '2024-01-20',
+        }),
+        { onConflict: 'recurrence_parent_id,occurrence_date', ignoreDuplicates: true }
+      )
+    })
+
     it('creates new recurring task when completing recurring task', async () => {
       const recurringTask = {
         ...mockDbTask,
@@ -553,6 +660,7 @@ describe('tasksService', () => {
       // getById
       mockSupabase.queueResult({ data: recurringTask, error: null })
       mockSupabase.queueResult({ data: [], error: null }) // subtasks
+      mockSupabase.queueResult({ data: [], error: null }) // dependencies
       // update
       mockSupabase.queueResult({ data: completedTask, error: null })
       // get max order for new task
@@ -569,6 +677,126 @@ describe('tasksService', () => {
       expect(result.newRecurringTask?.dueDate).toBe('2024-01-21')
     })
 
+    it('counts the next occurrence from today in completion mode', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date(2024, 1, 1, 12))
+
+      const recurringTask = {
+        ...mockDbTask,
+        recurrence_type: 'daily' as const,
+        recurrence_interval: 3,
+        recurrence_rule: 'FREQ=DAILY;INTERVAL=3;COUNT=4;X-HAGU-FROM=COMPLETION',
+      }
+      const mockSupabase = createMockSupabase()
+      // getById
+      mockSupabase.queueResult({ data: recurringTask, error: null })
+      mockSupabase.queueResult({ data: [], error: null }) // subtasks
+      mockSupabase.queueResult({ data: [], error: null }) // dependencies
+      // update
+      mockSupabase.queueResult({ data: { ...recurringTask, status: 'done' }, error: null })
+      // get max order for new task
+      mockSupabase.queueResult({ data: [{ order: 0 }], error: null })
+      // insert new recurring task
+      mockSupabase.queueResult({ data: { ...recurringTask, id: 'task-2' }, error: null })
+      // get subtasks for new task
+      mockSupabase.queueResult({ data: [], error: null })
+
+      await tasksService.setStatus(mockSupabase, 'task-1', 'done')
+      vi.useRealTimers()
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          due_date: '2024-02-04',
+          recurrence_rule: 'FREQ=DAILY;INTERVAL=3;COUNT=3;X-HAGU-FROM=COMPLETION',
+        })
+      )
+    })
+
+    it('does not create a next task once the count runs out', async () => {
+      const recurringTask = {
+        ...mockDbTask,
+        recurrence_type: 'daily' as const,
+        recurrence_interval: 1,
+        recurrence_rule: 'FREQ=DAILY;COUNT=1',
+      }
+      const mockSupabase = createMockSupabase()
+      // getById
+      mockSupabase.queueResult({ data: recurringTask, error: null })
+      mockSupabase.queueResult({ data: [], error: null }) // subtasks
+      mockSupabase.queueResult({ data: [], error: null }) // dependencies
+      // update
+      mockSupabase.queueResult({ data: { ...recurringTask, status: 'done' }, error: null })
+
+      const result = await tasksService.setStatus(mockSupabase, 'task-1', 'done')
+
+      expect(result.newRecurringTask).toBeUndefined()
+      expect(mockSupabase.mockChain.insert).not.toHaveBeenCalled()
+    })
+
+    it('reports tasks whose last blocker was completed', async () => {
+      const blockedTask = { ...mockDbTask, id: 'task-2', title: 'Ship it' }
+      const mockSupabase = createMockSupabase()
+      // getById
+      mockSupabase.queueResult({ data: mockDbTask, error: null })
+      mockSupabase.queueResult({ data: [], error: null }) // subtasks
+      mockSupabase.queueResult({ data: [], error: null }) // dependencies
+      // update
+      mockSupabase.queueResult({ data: { ...mockDbTask, status: 'done' }, error: null })
+      // dependents of the completed task
+      mockSupabase.queueResult({ data: [{ task_id: 'task-2' }], error: null })
+      mockSupabase.queueResult({ data: [blockedTask], error: null })
+      mockSupabase.queueResult({
+        data: [
+          { task_id: 'task-2', blocked_by_id: 'task-1' },
+          { task_id: 'task-2', blocked_by_id: 'task-3' },
+        ],
+        error: null,
+      })
+      mockSupabase.queueResult({
+        data: [
+          { id: 'task-1', status: 'done' },
+          { id: 'task-3', status: 'done' },
+        ],
+        error: null,
+      })
+
+      const result = await tasksService.setStatus(mockSupabase, 'task-1', 'done')
+
+      expect(result.unblockedTasks).toHaveLength(1)
+      expect(result.unblockedTasks[0]).toMatchObject({ id: 'task-2', title: 'Ship it' })
+    })
+
+    it('does not report dependents that still have open blockers', async () => {
+      const mockSupabase = createMockSupabase()
+      // getById
+      mockSupabase.queueResult({ data: mockDbTask, error: null })
+      mockSupabase.queueResult({ data: [], error: null }) // subtasks
+      mockSupabase.queueResult({ data: [], error: null }) // dependencies
+      // update
+      mockSupabase.queueResult({ data: { ...mockDbTask, status: 'done' }, error: null })
+      // dependents of the completed task
+      mockSupabase.queueResult({ data: [{ task_id: 'task-2' }], error: null })
+      mockSupabase.queueResult({ data: [{ ...mockDbTask, id: 'task-2' }], error: null })
+      mockSupabase.queueResult({
+        data: [
+          { task_id: 'task-2', blocked_by_id: 'task-1' },
+          { task_id: 'task-2', blocked_by_id: 'task-3' },
+        ],
+        error: null,
+      })
+      mockSupabase.queueResult({
+        data: [
+          { id: 'task-1', status: 'done' },
+          { id: 'task-3', status: 'pending' },
+        ],
+        error: null,
+      })
+
+      const result = await tasksService.setStatus(mockSupabase, 'task-1', 'done')
+
+      expect(result.unblockedTasks).toEqual([])
+    })
+
     it('throws error when user not authenticated', async () => {
       const mockSupabase = createMockSupabase()
       mockSupabase.auth.getUser = vi.fn().mockResolvedValue({
@@ -597,6 +825,58 @@ describe('tasksService', () => {
   })
 })
 
+describe('taskDependenciesService', () => {
+  const mockDbDependency = {
+    user_id: 'test-user-id',
+    task_id: 'task-2',
+    blocked_by_id: 'task-1',
+    created_at: '2024-01-01T00:00:00Z',
+  }
+
+  describe('add', () => {
+    it('inserts a dependency', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [], error: null }) // existing dependencies
+      mockSupabase.queueResult({ data: mockDbDependency, error: null }) // insert
+
+      const result = await taskDependenciesService.add(mockSupabase, 'task-2', 'task-1')
+
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith({
+        user_id: 'test-user-id',
+        task_id: 'task-2',
+        blocked_by_id: 'task-1',
+      })
+      expect(result).toEqual({ taskId: 'task-2', blockedById: 'task-1' })
+    })
+
+    it('rejects a dependency that would create a cycle', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbDependency], error: null })
+
+      await expect(
+        taskDependenciesService.add(mockSupabase, 'task-1', 'task-2')
+      ).rejects.toThrow('Task dependency would create a cycle')
+      expect(mockSupabase.mockChain.insert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('setBlockers', () => {
+    it('removes stale blockers and adds new ones', async () => {
+      const mockSupabase = createMockSupabase()
+      mockSupabase.queueResult({ data: [mockDbDependency], error: null }) // existing dependencies
+      mockSupabase.queueResult({ error: null }) // delete
+      mockSupabase.queueResult({ error: null }) // insert
+
+      await taskDependenciesService.setBlockers(mockSupabase, 'task-2', ['task-3'])
+
+      expect(mockSupabase.mockChain.in).toHaveBeenCalledWith('blocked_by_id', ['task-1'])
+      expect(mockSupabase.mockChain.insert).toHaveBeenCalledWith([
+        { user_id: 'test-user-id', task_id: 'task-2', blocked_by_id: 'task-3' },
+      ])
+    })
+  })
+})
+
 describe('subtasksService', () => {
   describe('add', () => {
     it('adds a subtask to a task', async () => {
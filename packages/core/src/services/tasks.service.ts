@@ -1,6 +1,16 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
-import type { Task, Subtask, TaskStatus, TaskPriority, RecurrencePattern } from '../types'
+import type {
+  Task,
+  Subtask,
+  TaskDependency,
+  TaskStatus,
+  TaskPriority,
+  RecurrencePattern,
+} from '../types'
 import { calculateNextRecurrenceDate } from '../lib/finances'
+import { getTasksUnblockedBy, wouldCreateCycle } from '../lib/tasks'
+import { getNextOccurrence, parseRRule, serializeRRule } from '../lib/recurrence'
+import { getTodayString } from '../lib/utils'
 import { areasService } from './areas.service'
 
 const FINANCES_AREA_SLUG = 'finances'
@@ -24,7 +34,10 @@ interface DbTask {
   recurrence_type: 'daily' | 'weekly' | 'monthly' | 'yearly' | null
   recurrence_interval: number | null
   recurrence_end_date: string | null
+  recurrence_rule: string | null
   linked_transaction_id: string | null
+  linked_account_id: string | null
+  linked_statement_month: string | null
   order: number
   created_at: string
   completed_at: string | null
@@ -39,40 +52,57 @@ interface DbSubtask {
   created_at: string
 }
 
+interface DbTaskDependency {
+  user_id: string
+  task_id: string
+  blocked_by_id: string
+  created_at: string
+}
+
+// Next due date of a recurring task, or null once its series is over.
+// Rules in "from completion" mode count from the day the task was completed
 function calculateNextDueDate(
-  currentDueDate: string,
-  recurrence: RecurrencePattern
-): string {
-  const date = new Date(currentDueDate)
-
-  switch (recurrence.type) {
-    case 'daily':
-      date.setDate(date.getDate() + recurrence.interval)
-      break
-    case 'weekly':
-      date.setDate(date.getDate() + recurrence.interval * 7)
-      break
-    case 'monthly':
-      date.setMonth(date.getMonth() + recurrence.interval)
-      break
-    case 'yearly':
-      date.setFullYear(date.getFullYear() + recurrence.interval)
-      break
-  }
+  recurrence: RecurrencePattern,
+  currentDueDate: string | undefined,
+  completedOn: string
+): string | null {
+  const from = recurrence.fromCompletion ? completedOn : currentDueDate
+  if (!from) return null
+  return getNextOccurrence(recurrence, from)
+}
 
-  return date.toISOString().split('T')[0]
+// The legacy type/interval/end date columns are kept in sync with the RRULE
+// so older clients still see an approximation of the rule
+function toRecurrenceColumns(recurrence: RecurrencePattern | undefined) {
+  return {
+    recurrence_type: recurrence?.type ?? null,
+    recurrence_interval: recurrence?.interval ?? null,
+    recurrence_end_date: recurrence?.endDate ?? null,
+    recurrence_rule: recurrence ? serializeRRule(recurrence) : null,
+  }
 }
 
-// Transform database row to frontend type
-function toTask(row: DbTask, subtasks: Subtask[] = []): Task {
-  let recurrence: RecurrencePattern | undefined
+function toRecurrence(row: DbTask): RecurrencePattern | undefined {
+  if (row.recurrence_rule) {
+    try {
+      return parseRRule(row.recurrence_rule)
+    } catch (error) {
+      console.error('Invalid task recurrence rule:', row.recurrence_rule, error)
+    }
+  }
   if (row.recurrence_type && row.recurrence_interval) {
-    recurrence = {
+    return {
       type: row.recurrence_type,
       interval: row.recurrence_interval,
       endDate: row.recurrence_end_date ?? undefined,
     }
   }
+  return undefined
+}
+
+// Transform database row to frontend type
+function toTask(row: DbTask, subtasks: Subtask[] = [], blockedBy: string[] = []): Task {
+  const recurrence = toRecurrence(row)
 
   return {
     id: row.id,
@@ -90,7 +120,12 @@ function toTask(row: DbTask, subtasks: Subtask[] = []): Task {
     estimatedMinutes: row.estimated_minutes ?? undefined,
     recurrence,
     subtasks,
+    blockedBy,
     linkedTransactionId: row.linked_transaction_id ?? undefined,
+    linkedStatement:
+      row.linked_account_id && row.linked_statement_month
+        ? { accountId: row.linked_account_id, month: row.linked_statement_month }
+        : undefined,
     createdAt: row.created_at,
     completedAt: row.completed_at ?? undefined,
   }
@@ -104,6 +139,77 @@ function toSubtask(row: DbSubtask): Subtask {
   }
 }
 
+function toTaskDependency(row: DbTaskDependency): TaskDependency {
+  return {
+    taskId: row.task_id,
+    blockedById: row.blocked_by_id,
+  }
+}
+
+// Blocker IDs grouped by the task they block
+async function getBlockedByMap(
+  supabase: SupabaseClient,
+  taskIds: string[]
+): Promise<Map<string, string[]>> {
+  const { data } = await supabase
+    .from('task_dependencies')
+    .select('task_id, blocked_by_id')
+    .in('task_id', taskIds)
+
+  const blockedByTask = new Map<string, string[]>()
+  for (const row of (data ?? []) as Pick<DbTaskDependency, 'task_id' | 'blocked_by_id'>[]) {
+    const existing = blockedByTask.get(row.task_id) ?? []
+    existing.push(row.blocked_by_id)
+    blockedByTask.set(row.task_id, existing)
+  }
+  return blockedByTask
+}
+
+// Open tasks that were only waiting on the given (now done) task
+async function getTasksUnblockedByCompletion(
+  supabase: SupabaseClient,
+  completedId: string
+): Promise<Task[]> {
+  const { data: dependentRows } = await supabase
+    .from('task_dependencies')
+    .select('task_id')
+    .eq('blocked_by_id', completedId)
+
+  const dependentIds = ((dependentRows ?? []) as Pick<DbTaskDependency, 'task_id'>[]).map(
+    (row) => row.task_id
+  )
+  if (dependentIds.length === 0) return []
+
+  const { data: dependentsData } = await supabase
+    .from('tasks')
+    .select('*')
+    .in('id', dependentIds)
+    .neq('status', 'done')
+
+  const dependents = (dependentsData ?? []) as DbTask[]
+  if (dependents.length === 0) return []
+
+  const blockedBy = await getBlockedByMap(supabase, dependents.map((t) => t.id))
+  const blockerIds = [...new Set([...blockedBy.values()].flat())]
+
+  const { data: blockersData } = await supabase
+    .from('tasks')
+    .select('id, status')
+    .in('id', blockerIds)
+
+  const blockers = ((blockersData ?? []) as Pick<DbTask, 'id' | 'status'>[]).map((row) => ({
+    id: row.id,
+    status: row.status,
+    blockedBy: [] as string[],
+  }))
+
+  const candidates = dependents.map((row) => toTask(row, [], blockedBy.get(row.id) ?? []))
+  const unblocked = new Set(
+    getTasksUnblockedBy(completedId, [...candidates, ...blockers]).map((t) => t.id)
+  )
+  return candidates.filter((t) => unblocked.has(t.id))
+}
+
 export const tasksService = {
   async getAll(supabase: SupabaseClient): Promise<Task[]> {
     const { data: tasksData, error: tasksError } = await supabase
@@ -137,7 +243,10 @@ export const tasksService = {
       subtasksByTask.set(s.task_id, existing)
     })
 
-    return tasks.map((t) => toTask(t, subtasksByTask.get(t.id) ?? []))
+    const blockedBy = await getBlockedByMap(supabase, taskIds)
+    return tasks.map((t) =>
+      toTask(t, subtasksByTask.get(t.id) ?? [], blockedBy.get(t.id) ?? [])
+    )
   },
 
   async getById(supabase: SupabaseClient, id: string): Promise<Task | null> {
@@ -159,8 +268,9 @@ export const tasksService = {
       .order('order', { ascending: true })
 
     const subtasks = ((subtasksData ?? []) as DbSubtask[]).map(toSubtask)
+    const blockedBy = await getBlockedByMap(supabase, [id])
 
-    return toTask(taskData as DbTask, subtasks)
+    return toTask(taskData as DbTask, subtasks, blockedBy.get(id) ?? [])
   },
 
   async getByProject(supabase: SupabaseClient, projectId: string): Promise<Task[]> {
@@ -190,7 +300,10 @@ export const tasksService = {
       subtasksByTask.set(s.task_id, existing)
     })
 
-    return tasks.map((t) => toTask(t, subtasksByTask.get(t.id) ?? []))
+    const blockedBy = await getBlockedByMap(supabase, taskIds)
+    return tasks.map((t) =>
+      toTask(t, subtasksByTask.get(t.id) ?? [], blockedBy.get(t.id) ?? [])
+    )
   },
 
   async getByObjective(supabase: SupabaseClient, objectiveId: string): Promise<Task[]> {
@@ -220,7 +333,10 @@ export const tasksService = {
       subtasksByTask.set(s.task_id, existing)
     })
 
-    return tasks.map((t) => toTask(t, subtasksByTask.get(t.id) ?? []))
+    const blockedBy = await getBlockedByMap(supabase, taskIds)
+    return tasks.map((t) =>
+      toTask(t, subtasksByTask.get(t.id) ?? [], blockedBy.get(t.id) ?? [])
+    )
   },
 
   async getByArea(supabase: SupabaseClient, areaId: string): Promise<Task[]> {
@@ -250,7 +366,10 @@ export const tasksService = {
       subtasksByTask.set(s.task_id, existing)
     })
 
-    return tasks.map((t) => toTask(t, subtasksByTask.get(t.id) ?? []))
+    const blockedBy = await getBlockedByMap(supabase, taskIds)
+    return tasks.map((t) =>
+      toTask(t, subtasksByTask.get(t.id) ?? [], blockedBy.get(t.id) ?? [])
+    )
   },
 
   async getByNotebook(supabase: SupabaseClient, notebookId: string): Promise<Task[]> {
@@ -280,7 +399,10 @@ export const tasksService = {
       subtasksByTask.set(s.task_id, existing)
     })
 
-    return tasks.map((t) => toTask(t, subtasksByTask.get(t.id) ?? []))
+    const blockedBy = await getBlockedByMap(supabase, taskIds)
+    return tasks.map((t) =>
+      toTask(t, subtasksByTask.get(t.id) ?? [], blockedBy.get(t.id) ?? [])
+    )
   },
 
   async getByPage(supabase: SupabaseClient, pageId: string): Promise<Task[]> {
@@ -310,7 +432,10 @@ export const tasksService = {
       subtasksByTask.set(s.task_id, existing)
     })
 
-    return tasks.map((t) => toTask(t, subtasksByTask.get(t.id) ?? []))
+    const blockedBy = await getBlockedByMap(supabase, taskIds)
+    return tasks.map((t) =>
+      toTask(t, subtasksByTask.get(t.id) ?? [], blockedBy.get(t.id) ?? [])
+    )
   },
 
   async getByStatus(supabase: SupabaseClient, status: TaskStatus): Promise<Task[]> {
@@ -340,12 +465,15 @@ export const tasksService = {
       subtasksByTask.set(s.task_id, existing)
     })
 
-    return tasks.map((t) => toTask(t, subtasksByTask.get(t.id) ?? []))
+    const blockedBy = await getBlockedByMap(supabase, taskIds)
+    return tasks.map((t) =>
+      toTask(t, subtasksByTask.get(t.id) ?? [], blockedBy.get(t.id) ?? [])
+    )
   },
 
   async create(
     supabase: SupabaseClient,
-    task: Omit<Task, 'id' | 'createdAt' | 'subtasks'>
+    task: Omit<Task, 'id' | 'createdAt' | 'subtasks' | 'blockedBy'>
   ): Promise<Task> {
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) throw new Error('User not authenticated')
@@ -375,10 +503,10 @@ export const tasksService = {
         status: task.status,
         tags: task.tags,
         estimated_minutes: task.estimatedMinutes,
-        recurrence_type: task.recurrence?.type,
-        recurrence_interval: task.recurrence?.interval,
-        recurrence_end_date: task.recurrence?.endDate,
+        ...toRecurrenceColumns(task.recurrence),
         linked_transaction_id: task.linkedTransactionId || null,
+        linked_account_id: task.linkedStatement?.accountId ?? null,
+        linked_statement_month: task.linkedStatement?.month ?? null,
         order: maxOrder + 1,
       })
       .select()
@@ -392,7 +520,7 @@ export const tasksService = {
   async update(
     supabase: SupabaseClient,
     id: string,
-    updates: Partial<Omit<Task, 'id' | 'createdAt' | 'subtasks'>>
+    updates: Partial<Omit<Task, 'id' | 'createdAt' | 'subtasks' | 'blockedBy'>>
   ): Promise<Task> {
     const dbUpdates: Record<string, unknown> = {}
 
@@ -411,15 +539,7 @@ export const tasksService = {
     if (updates.completedAt !== undefined) dbUpdates.completed_at = updates.completedAt
 
     if (updates.recurrence !== undefined) {
-      if (updates.recurrence) {
-        dbUpdates.recurrence_type = updates.recurrence.type
-        dbUpdates.recurrence_interval = updates.recurrence.interval
-        dbUpdates.recurrence_end_date = updates.recurrence.endDate
-      } else {
-        dbUpdates.recurrence_type = null
-        dbUpdates.recurrence_interval = null
-        dbUpdates.recurrence_end_date = null
-      }
+      Object.assign(dbUpdates, toRecurrenceColumns(updates.recurrence))
     }
 
     const { data, error } = await supabase
@@ -438,8 +558,9 @@ export const tasksService = {
       .order('order', { ascending: true })
 
     const subtasks = ((subtasksData ?? []) as DbSubtask[]).map(toSubtask)
+    const blockedBy = await getBlockedByMap(supabase, [id])
 
-    return toTask(data as DbTask, subtasks)
+    return toTask(data as DbTask, subtasks, blockedBy.get(id) ?? [])
   },
 
   async delete(supabase: SupabaseClient, id: string): Promise<void> {
@@ -479,15 +600,36 @@ export const tasksService = {
       .order('order', { ascending: true })
 
     const subtasks = ((subtasksData ?? []) as DbSubtask[]).map(toSubtask)
+    const blockedBy = await getBlockedByMap(supabase, [task.id])
+
+    return toTask(task, subtasks, blockedBy.get(task.id) ?? [])
+  },
+
+  // Unlike transaction reminders, completed statement reminders count too:
+  // each statement is only ever reminded once.
+  async getByLinkedStatement(
+    supabase: SupabaseClient,
+    accountId: string,
+    month: string
+  ): Promise<Task | null> {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('linked_account_id', accountId)
+      .eq('linked_statement_month', month)
+      .limit(1)
+
+    if (error) throw error
+    if (!data || data.length === 0) return null
 
-    return toTask(task, subtasks)
+    return toTask(data[0] as DbTask)
   },
 
   async setStatus(
     supabase: SupabaseClient,
     id: string,
     status: TaskStatus
-  ): Promise<{ task: Task; newRecurringTask?: Task }> {
+  ): Promise<{ task: Task; newRecurringTask?: Task; unblockedTasks: Task[] }> {
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) throw new Error('User not authenticated')
 
@@ -517,7 +659,18 @@ export const tasksService = {
           .in('id', nextTaskIds)
       }
 
-      // Delete the expense that was created for this payment
+      // Delete the expense that was created for this payment, unless its date
+      // has passed: the scheduler records due occurrences on its own, so the
+      // payment would just come back (it can be skipped instead)
+      if (currentTask.dueDate > getTodayString()) {
+        await supabase
+          .from('transactions')
+          .delete()
+          .eq('recurrence_parent_id', currentTask.linkedTransactionId)
+          .eq('occurrence_date', currentTask.dueDate)
+      }
+
+      // Payments recorded before occurrences were linked to their template
       const { data: templateTransaction } = await supabase
         .from('transactions')
         .select('category_id, amount, description')
@@ -531,6 +684,7 @@ export const tasksService = {
           .eq('user_id', user.id)
           .eq('date', currentTask.dueDate)
           .eq('is_recurring', false)
+          .is('recurrence_parent_id', null)
           .eq('category_id', templateTransaction.category_id)
           .eq('amount', templateTransaction.amount)
       }
@@ -546,16 +700,19 @@ export const tasksService = {
 
     if (error) throw error
 
-    const updatedTask = toTask(data as DbTask, currentTask.subtasks)
+    const updatedTask = toTask(data as DbTask, currentTask.subtasks, currentTask.blockedBy)
 
     // Generate next recurring task when completing a recurring task
-    if (status === 'done' && currentTask.recurrence && currentTask.dueDate) {
-      const nextDueDate = calculateNextDueDate(currentTask.dueDate, currentTask.recurrence)
+    if (status === 'done' && currentTask.recurrence) {
+      const { recurrence } = currentTask
+      const nextDueDate = calculateNextDueDate(recurrence, currentTask.dueDate, getTodayString())
 
-      const shouldCreate =
-        !currentTask.recurrence.endDate || nextDueDate <= currentTask.recurrence.endDate
+      if (nextDueDate) {
+        // COUNT tracks the occurrences left, so the next task carries one fewer
+        const nextRecurrence: RecurrencePattern = recurrence.count
+          ? { ...recurrence, count: recurrence.count - 1 }
+          : recurrence
 
-      if (shouldCreate) {
         // Get max order
         const { data: allTasks } = await supabase
           .from('tasks')
@@ -578,9 +735,7 @@ export const tasksService = {
             status: 'pending',
             tags: currentTask.tags,
             estimated_minutes: currentTask.estimatedMinutes,
-            recurrence_type: currentTask.recurrence.type,
-            recurrence_interval: currentTask.recurrence.interval,
-            recurrence_end_date: currentTask.recurrence.endDate,
+            ...toRecurrenceColumns(nextRecurrence),
             order: maxOrder + 1,
           })
           .select()
@@ -625,19 +780,26 @@ export const tasksService = {
         // Use the task's due date as the transaction date
         const paymentDate = currentTask.dueDate || new Date().toISOString().split('T')[0]
 
-        await supabase.from('transactions').insert({
-          user_id: user.id,
-          type: transactionData.type,
-          category_id: transactionData.category_id,
-          amount: transactionData.amount,
-          description: transactionData.description,
-          date: paymentDate,
-          payment_method: transactionData.payment_method,
-          is_recurring: false, // This is an instance, not a template
-          recurrence_frequency: null,
-          recurrence_next_date: null,
-          recurrence_end_date: null,
-        })
+        // Recorded as the occurrence of that date, so the scheduler (or an
+        // earlier completion) having recorded it already is not a duplicate
+        await supabase.from('transactions').upsert(
+          {
+            user_id: user.id,
+            type: transactionData.type,
+            category_id: transactionData.category_id,
+            amount: transactionData.amount,
+            description: transactionData.description,
+            date: paymentDate,
+            payment_method: transactionData.payment_method,
+            is_recurring: false, // This is an instance, not a template
+            recurrence_frequency: null,
+            recurrence_next_date: null,
+            recurrence_end_date: null,
+            recurrence_parent_id: currentTask.linkedTransactionId,
+            occurrence_date: paymentDate,
+          },
+          { onConflict: 'recurrence_parent_id,occurrence_date', ignoreDuplicates: true }
+        )
 
         // Use the completed task's due date as the base, not the transaction's stored date
         // This ensures we calculate the next date correctly even if recurrence_next_date is stale
@@ -697,7 +859,13 @@ export const tasksService = {
       }
     }
 
-    return { task: updatedTask, newRecurringTask }
+    // Dependents waiting only on this task can now be worked on
+    const unblockedTasks =
+      status === 'done' && currentTask.status !== 'done'
+        ? await getTasksUnblockedByCompletion(supabase, id)
+        : []
+
+    return { task: updatedTask, newRecurringTask, unblockedTasks }
   },
 
   async reorder(supabase: SupabaseClient, orderedIds: string[]): Promise<void> {
@@ -712,6 +880,104 @@ export const tasksService = {
   },
 }
 
+// Task dependencies service
+export const taskDependenciesService = {
+  async getAll(supabase: SupabaseClient): Promise<TaskDependency[]> {
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .select('*')
+
+    if (error) throw error
+    return ((data ?? []) as DbTaskDependency[]).map(toTaskDependency)
+  },
+
+  async add(
+    supabase: SupabaseClient,
+    taskId: string,
+    blockedById: string
+  ): Promise<TaskDependency> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const dependencies = await this.getAll(supabase)
+    if (wouldCreateCycle(dependencies, taskId, blockedById)) {
+      throw new Error('Task dependency would create a cycle')
+    }
+
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .insert({ user_id: user.id, task_id: taskId, blocked_by_id: blockedById })
+      .select()
+      .single()
+
+    if (error) throw error
+    return toTaskDependency(data as DbTaskDependency)
+  },
+
+  async remove(supabase: SupabaseClient, taskId: string, blockedById: string): Promise<void> {
+    const { error } = await supabase
+      .from('task_dependencies')
+      .delete()
+      .eq('task_id', taskId)
+      .eq('blocked_by_id', blockedById)
+
+    if (error) throw error
+  },
+
+  /**
+   * Replace a task's blockers with the given list. New blockers are checked
+   * for cycles before anything is written.
+   */
+  async setBlockers(
+    supabase: SupabaseClient,
+    taskId: string,
+    blockedByIds: string[]
+  ): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('User not authenticated')
+
+    const dependencies = await this.getAll(supabase)
+    const current = dependencies.filter((d) => d.taskId === taskId).map((d) => d.blockedById)
+    const toAdd = blockedByIds.filter((id) => !current.includes(id))
+    const toRemove = current.filter((id) => !blockedByIds.includes(id))
+
+    // Check against the graph as it will be once stale blockers are gone
+    const remaining = dependencies.filter(
+      (d) => d.taskId !== taskId || !toRemove.includes(d.blockedById)
+    )
+    for (const blockedById of toAdd) {
+      if (wouldCreateCycle(remaining, taskId, blockedById)) {
+        throw new Error('Task dependency would create a cycle')
+      }
+      remaining.push({ taskId, blockedById })
+    }
+
+    if (toRemove.length > 0) {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('task_id', taskId)
+        .in('blocked_by_id', toRemove)
+
+      if (error) throw error
+    }
+
+    if (toAdd.length > 0) {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .insert(
+          toAdd.map((blockedById) => ({
+            user_id: user.id,
+            task_id: taskId,
+            blocked_by_id: blockedById,
+          }))
+        )
+
+      if (error) throw error
+    }
+  },
+}
+
 // Subtasks service
 export const subtasksService = {
   async add(supabase: SupabaseClient, taskId: string, title: string): Promise<Subtask> {
@@ -1,6 +1,8 @@
 // Finance-specific types for expense tracking and financial management
 
-export type TransactionType = 'income' | 'expense'
+export type TransactionType = 'income' | 'expense' | 'transfer'
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash' | 'investment'
 
 export type CompoundingFrequency = 'monthly' | 'quarterly' | 'yearly'
 
@@ -10,10 +12,19 @@ export interface Transaction {
   id: string
   type: TransactionType
   amount: number
+  currency?: CurrencyCode // unset means the base currency
   categoryId: string
   description: string
   date: string // ISO date (YYYY-MM-DD)
   paymentMethod?: string
+  accountId?: string
+  toAccountId?: string // destination account, transfers only
+  statementMonth?: string // YYYY-MM credit card statement it is billed in
+  installment?: {
+    groupId: string // shared by all installments of the same purchase
+    number: number // 1-based
+    count: number
+  }
   tags?: string[]
   isRecurring: boolean
   recurrence?: {
@@ -21,10 +32,67 @@ export interface Transaction {
     nextDate?: string
     endDate?: string
   }
+  recurrenceParentId?: string // recurring transaction this is an occurrence of
+  occurrenceDate?: string // scheduled date of the occurrence, before any edit
+  externalId?: string // bank identifier, for transactions imported from a statement
   createdAt: string
   updatedAt?: string
 }
 
+// Skip or one-off edit of a single occurrence of a recurring transaction
+export interface RecurrenceException {
+  id: string
+  transactionId: string
+  occurrenceDate: string // scheduled date, YYYY-MM-DD
+  skip: boolean
+  amount?: number
+  description?: string
+  date?: string // moved to another day
+  createdAt: string
+}
+
+export type RecurrenceExceptionChanges = Partial<
+  Pick<RecurrenceException, 'skip' | 'amount' | 'description' | 'date'>
+>
+
+// One scheduled occurrence of a recurring transaction, with its edits applied
+export interface RecurringOccurrence {
+  transaction: Transaction // the recurring transaction
+  occurrenceDate: string
+  date: string
+  amount: number
+  description: string
+  skipped: boolean
+  exception?: RecurrenceException
+  materialized?: Transaction // already recorded as a transaction
+}
+
+export interface Account {
+  id: string
+  name: string
+  type: AccountType
+  openingBalance: number // credit cards start negative when there is an open bill
+  currency?: CurrencyCode // unset means the base currency
+  closingDay?: number // credit cards only
+  dueDay?: number // credit cards only
+  color: string
+  isArchived: boolean
+  createdAt: string
+}
+
+export type StatementStatus = 'open' | 'closed'
+
+export interface CreditCardStatement {
+  accountId: string
+  accountName: string
+  month: string // YYYY-MM, the month the statement is due
+  closingDate: string
+  dueDate: string
+  status: StatementStatus
+  total: number // purchases minus refunds; payments are not deducted
+  transactions: Transaction[]
+}
+
 export interface TransactionCategory {
   id: string
   name: string
@@ -43,15 +111,54 @@ export interface Budget {
   month: string // YYYY-MM format
 }
 
+export type BudgetPeriod = 'monthly' | 'yearly'
+
+// 'limits' caps spending per category; 'envelopes' allocates income into
+// categories and carries every envelope's balance forward
+export type BudgetMode = 'limits' | 'envelopes'
+
+// Recurring budget for a category, applied to every month from startMonth on.
+// A Budget row for the same category overrides it for that single month
+export interface BudgetTemplate {
+  id: string
+  categoryId: string
+  amount: number // per month, or per year for yearly budgets
+  period: BudgetPeriod
+  rollover: boolean // carry unspent (or overspent) amounts into the next month
+  startMonth: string // YYYY-MM format
+  createdAt: string
+}
+
+export interface BudgetStatus {
+  categoryId: string
+  period: BudgetPeriod
+  allocated: number // this month's share of the budget
+  carried: number // rolled over from previous months, negative when overspent
+  available: number // allocated + carried
+  spent: number
+  remaining: number // available - spent
+  percentage: number // spent / available * 100, not capped
+  template?: BudgetTemplate
+  budget?: Budget // single-month override
+}
+
+export interface EnvelopeSummary {
+  income: number
+  assigned: number
+  toAssign: number // income not allocated yet, including previous months
+}
+
 export interface FinancialGoal {
   id: string
   name: string
   description?: string
   targetAmount: number
   currentAmount: number
+  currency?: CurrencyCode // unset means the base currency
   deadline?: string
   color: string
   icon?: string
+  contributionCategoryId?: string // expenses in this category count as contributions
   contributions: GoalContribution[]
   createdAt: string
   completedAt?: string
@@ -62,19 +169,109 @@ export interface GoalContribution {
   amount: number
   date: string
   note?: string
+  transactionId?: string // expense that made the contribution, for automatic ones
+}
+
+// Where a goal stands against its deadline at the current contribution pace
+export type GoalPlanStatus = 'completed' | 'on_track' | 'off_track' | 'no_deadline'
+
+export interface GoalPlan {
+  remaining: number
+  requiredMonthly?: number // needed every month to reach the target by the deadline
+  averageMonthly: number // contributed per month lately
+  plannedMonthly: number // scheduled by recurring expenses in the contribution category
+  projectedCompletion?: string // YYYY-MM, unset when nothing is being contributed
+  status: GoalPlanStatus
 }
 
+// How a simulation's yield is set: a fixed yearly rate, a percentage of the
+// CDI (e.g. 110% of the CDI) or a spread over the IPCA (IPCA + 6%)
+export type YieldIndex = 'fixed' | 'cdi' | 'ipca'
+
 export interface InvestmentSimulation {
   id: string
   name: string
   initialAmount: number
   monthlyContribution: number
-  annualRate: number // percentage (e.g., 12 for 12%)
+  annualRate: number // percentage: the yearly rate, the % of the CDI or the spread over the IPCA
   periodYears: number
   compoundingFrequency: CompoundingFrequency
+  yieldIndex: YieldIndex
+  indexRate?: number // expected yearly CDI or IPCA (%), unused for fixed rates
   createdAt: string
 }
 
+export type InvestmentAssetType = 'stock' | 'fund' | 'fixed_income' | 'crypto' | 'other'
+
+export interface InvestmentAsset {
+  id: string
+  name: string
+  ticker?: string
+  type: InvestmentAssetType
+  currency?: CurrencyCode // unset means the base currency
+  accountId?: string // investment account the asset is held in
+  createdAt: string
+}
+
+// Price of one unit of an asset, entered by hand
+export interface InvestmentPrice {
+  id: string
+  assetId: string
+  price: number
+  date: string // YYYY-MM-DD
+  createdAt: string
+}
+
+export type InvestmentEventType = 'buy' | 'sell' | 'dividend'
+
+export interface InvestmentEvent {
+  id: string
+  assetId: string
+  type: InvestmentEventType
+  date: string // YYYY-MM-DD
+  quantity: number // 0 for dividends
+  price: number // per unit, 0 for dividends
+  fees: number
+  amount: number // cash moved: paid on buys (fees included), received on sells and dividends
+  transactionId?: string // transaction that moved the money, if recorded
+  note?: string
+  createdAt: string
+}
+
+// Holding of an asset, derived from its events. The cost basis follows the
+// average cost method: sells take out the average cost of the units sold
+export interface InvestmentPosition {
+  asset: InvestmentAsset
+  quantity: number
+  averageCost: number
+  costBasis: number // average cost of the units still held
+  price?: number // latest known unit price
+  priceDate?: string
+  marketValue: number
+  unrealizedGain: number // market value - cost basis
+  realizedGain: number // from sells
+  dividends: number
+  totalReturn: number // unrealized + realized + dividends
+  returnPercentage: number // total return / amount ever invested * 100
+}
+
+export interface PortfolioSummary {
+  marketValue: number
+  costBasis: number
+  unrealizedGain: number
+  realizedGain: number
+  dividends: number
+  totalReturn: number
+  returnPercentage: number
+}
+
+// Portfolio at the end of a month, in the base currency
+export interface PortfolioHistoryPoint {
+  month: string // YYYY-MM
+  value: number
+  invested: number // cost basis of the units held
+}
+
 export interface MonthlyBalance {
   month: string // YYYY-MM
   totalIncome: number
@@ -83,6 +280,28 @@ export interface MonthlyBalance {
   transactionCount: number
 }
 
+// Projected cash flow of a future month, in the base currency
+export interface CashFlowForecastMonth {
+  month: string // YYYY-MM
+  income: number // recurring and already scheduled income
+  fixedExpenses: number // recurring bills and scheduled expenses, like installments
+  variableExpenses: number // budgets, or average spending where there is none
+  goalContributions: number // needed to reach goals by their deadline
+  adjustments: number // what-if items, income minus expenses
+  net: number
+  balance: number // projected at the end of the month
+}
+
+// One-off item added to the forecast to see its effect
+export interface ForecastAdjustment {
+  id: string
+  description: string
+  type: 'income' | 'expense'
+  amount: number // in the base currency
+  month: string // YYYY-MM
+  enabled: boolean
+}
+
 export interface CategorySummary {
   categoryId: string
   total: number
@@ -90,7 +309,79 @@ export interface CategorySummary {
   percentage: number
 }
 
-export type CurrencyCode = 'BRL' | 'USD' | 'EUR' | 'GBP'
+// Bank statement import
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY'
+
+export interface CsvLayout {
+  delimiter: ',' | ';' | '\t'
+  hasHeader: boolean
+  // Columns are referenced by index or, when the file has a header, by name
+  dateColumn: number | string
+  descriptionColumn: number | string
+  amountColumn: number | string
+  idColumn?: number | string
+  dateFormat: StatementDateFormat
+  decimalSeparator: '.' | ','
+  expensesArePositive?: boolean // card statements list purchases as positive amounts
+}
+
+export type CsvPresetId = 'nubank' | 'nubankCard' | 'itau'
+
+export interface ImportedTransaction {
+  date: string // ISO date (YYYY-MM-DD)
+  amount: number // always positive, the sign is in `type`
+  type: Exclude<TransactionType, 'transfer'>
+  description: string
+  externalId?: string // bank identifier (OFX FITID, Nubank "Identificador")
+}
+
+export interface ImportPreviewRow {
+  transaction: ImportedTransaction
+  duplicateOfId?: string // existing transaction that looks like the same entry
+}
+
+// Categorization rules
+
+export type RuleMatchMode = 'contains' | 'regex'
+
+export interface CategorizationRule {
+  id: string
+  name: string
+  priority: number // lower runs first
+  isActive: boolean
+  // Conditions; unset ones match any transaction
+  transactionType?: TransactionType
+  descriptionMatch?: RuleMatchMode
+  descriptionPattern?: string
+  minAmount?: number
+  maxAmount?: number
+  paymentMethod?: string
+  requiredTags?: string[]
+  // Outcome
+  categoryId: string
+  addTags?: string[]
+  createdAt: string
+}
+
+export interface CategorySuggestion {
+  categoryId: string
+  confidence: number // 0-1 share of similar past transactions in this category
+  matches: number // how many similar past transactions were found
+}
+
+export type CurrencyCode =
+  | 'BRL'
+  | 'USD'
+  | 'EUR'
+  | 'GBP'
+  | 'ARS'
+  | 'AUD'
+  | 'CAD'
+  | 'CHF'
+  | 'CLP'
+  | 'JPY'
+  | 'MXN'
 
 export interface CurrencyConfig {
   code: CurrencyCode
@@ -104,4 +395,28 @@ export const CURRENCIES: Record<CurrencyCode, CurrencyConfig> = {
   USD: { code: 'USD', symbol: '$', locale: 'en-US', decimalPlaces: 2 },
   EUR: { code: 'EUR', symbol: '€', locale: 'de-DE', decimalPlaces: 2 },
   GBP: { code: 'GBP', symbol: '£', locale: 'en-GB', decimalPlaces: 2 },
+  ARS: { code: 'ARS', symbol: '$', locale: 'es-AR', decimalPlaces: 2 },
+  AUD: { code: 'AUD', symbol: 'A$', locale: 'en-AU', decimalPlaces: 2 },
+  CAD: { code: 'CAD', symbol: 'C$', locale: 'en-CA', decimalPlaces: 2 },
+  CHF: { code: 'CHF', symbol: 'CHF', locale: 'de-CH', decimalPlaces: 2 },
+  CLP: { code: 'CLP', symbol: '$', locale: 'es-CL', decimalPlaces: 0 },
+  JPY: { code: 'JPY', symbol: '¥', locale: 'ja-JP', decimalPlaces: 0 },
+  MXN: { code: 'MXN', symbol: '$', locale: 'es-MX', decimalPlaces: 2 },
+}
+
+// Exchange rates
+
+export interface ExchangeRate {
+  id: string
+  fromCurrency: CurrencyCode
+  toCurrency: CurrencyCode
+  rate: number // 1 fromCurrency = rate toCurrency
+  date: string // ISO date (YYYY-MM-DD) the rate applies from
+  createdAt: string
+}
+
+// Everything needed to convert amounts into the user's base currency
+export interface CurrencyConversion {
+  baseCurrency: CurrencyCode
+  rates: ExchangeRate[]
 }
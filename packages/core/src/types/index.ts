@@ -4,10 +4,13 @@ export type HabitFrequency =
   | { type: 'weekly'; daysPerWeek: number }
   | { type: 'specificDays'; days: number[] } // 0-6 (Sun-Sat)
   | { type: 'monthly'; timesPerMonth: number }
+  | { type: 'interval'; everyDays: number } // Every N days after the last completion
+  | { type: 'nthWeekday'; week: number; weekday: number } // week 1-4 or -1 (last), weekday 0-6
 
 export type HabitTracking =
   | { type: 'boolean' }
   | { type: 'quantitative'; target: number; unit: string }
+  | { type: 'avoid'; limit: number; unit?: string } // Break a bad habit: stay at or under `limit` per day
 
 export interface HabitCompletion {
   date: string // ISO date string (YYYY-MM-DD)
@@ -33,6 +36,16 @@ export interface Habit {
   notebookId?: string // Link to a study notebook
 }
 
+// Lifetime totals for a habit, independent of which completions are loaded
+export interface HabitSummary {
+  habitId: string
+  totalCompletions: number
+  firstCompletion?: string
+  lastCompletion?: string
+  currentStreak: number
+  longestStreak: number // Best streak ever recorded
+}
+
 // Task Types
 export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent'
 export type TaskStatus = 'pending' | 'in_progress' | 'done'
@@ -43,10 +56,21 @@ export interface Subtask {
   done: boolean
 }
 
+// Mirrors the RFC 5545 RRULE parts it maps to (see lib/recurrence.ts)
 export interface RecurrencePattern {
   type: 'daily' | 'weekly' | 'monthly' | 'yearly'
   interval: number // every X days/weeks/months
-  endDate?: string
+  endDate?: string // UNTIL
+  weekdays?: number[] // BYDAY, 0-6 (Sun-Sat)
+  monthDays?: number[] // BYMONTHDAY, negative counts from the end of the month
+  setPosition?: number // BYSETPOS, e.g. -1 for "last" (last business day of the month)
+  count?: number // COUNT, occurrences left including this one
+  fromCompletion?: boolean // next date counts from the completion date, not the due date
+}
+
+export interface TaskDependency {
+  taskId: string
+  blockedById: string
 }
 
 export interface Task {
@@ -65,7 +89,9 @@ export interface Task {
   estimatedMinutes?: number
   recurrence?: RecurrencePattern
   subtasks: Subtask[]
+  blockedBy: string[] // IDs of tasks that must be done first
   linkedTransactionId?: string
+  linkedStatement?: { accountId: string; month: string } // credit card statement a payment reminder is for
   createdAt: string
   completedAt?: string
 }
@@ -111,6 +137,21 @@ export interface StreakData {
   lastCompletedDate?: string
 }
 
+export interface HabitFreeze {
+  id: string
+  habitId: string
+  date: string // Missed day protected by a streak freeze (YYYY-MM-DD)
+  createdAt: string
+}
+
+export interface Vacation {
+  id: string
+  startDate: string // YYYY-MM-DD, inclusive
+  endDate: string // YYYY-MM-DD, inclusive
+  note?: string
+  createdAt: string
+}
+
 export interface UserStats {
   totalXp: number
   level: number
@@ -118,6 +159,24 @@ export interface UserStats {
   tasksCompleted: number
   currentStreak: number
   longestStreak: number
+  freezeTokens: number // Streak freezes available to spend
+}
+
+// Pomodoro Types
+export interface PomodoroSession {
+  id: string
+  date: string // YYYY-MM-DD
+  focusMinutes: number
+  completedAt: string
+  taskId?: string // Minutes count towards the task's actual time
+  habitId?: string // Minutes are logged into a quantitative habit
+}
+
+// What a focus session is spent on, picked before starting the timer
+export interface PomodoroFocusTarget {
+  type: 'task' | 'habit'
+  id: string
+  title: string
 }
 
 // Settings Types
@@ -163,24 +222,60 @@ export interface UserSettings {
   currency?: import('./finances').CurrencyCode
   homeWidgets?: HomeWidget[]
   hideBalances?: boolean
+  budgetMode?: import('./finances').BudgetMode
   healthGoals?: HealthGoals
 }
 
 // Re-export finance types
 export type {
   Transaction,
+  RecurrenceException,
+  RecurrenceExceptionChanges,
+  RecurringOccurrence,
   TransactionType,
   TransactionCategory,
+  AccountType,
+  Account,
+  StatementStatus,
+  CreditCardStatement,
   Budget,
+  BudgetPeriod,
+  BudgetMode,
+  BudgetTemplate,
+  BudgetStatus,
+  EnvelopeSummary,
   FinancialGoal,
   GoalContribution,
+  GoalPlanStatus,
+  GoalPlan,
   InvestmentSimulation,
+  YieldIndex,
+  InvestmentAssetType,
+  InvestmentAsset,
+  InvestmentPrice,
+  InvestmentEventType,
+  InvestmentEvent,
+  InvestmentPosition,
+  PortfolioSummary,
+  PortfolioHistoryPoint,
   MonthlyBalance,
+  CashFlowForecastMonth,
+  ForecastAdjustment,
   CategorySummary,
   CurrencyCode,
   CurrencyConfig,
+  ExchangeRate,
+  CurrencyConversion,
   CompoundingFrequency,
   RecurrenceFrequency,
+  StatementDateFormat,
+  CsvLayout,
+  CsvPresetId,
+  ImportedTransaction,
+  ImportPreviewRow,
+  RuleMatchMode,
+  CategorizationRule,
+  CategorySuggestion,
 } from './finances'
 
 export { CURRENCIES } from './finances'
@@ -198,10 +293,35 @@ export type {
   UpdatePageData,
   NotebookColor,
   NotebookIcon,
+  NoteTextStyles,
+  NoteStyledText,
+  NoteLink,
+  NoteInlineContent,
+  NoteBlock,
+  PageLinkTargetType,
+  NoteReference,
+  PageBacklink,
+  FlashcardGrade,
+  FlashcardSchedule,
+  Flashcard,
+  PageFlashcard,
+  CreateFlashcardData,
+  UpdateFlashcardData,
+  FlashcardSessionResult,
+  PageRevision,
+  RevisionDiffLineType,
+  RevisionDiffLine,
 } from './studies'
 
 export { NOTEBOOK_COLORS, NOTEBOOK_ICONS } from './studies'
 
+// Re-export search types
+export type {
+  SearchResultType,
+  SearchHighlight,
+  SearchResult,
+} from './search'
+
 // Re-export project types
 export type {
   Project,
@@ -233,19 +353,48 @@ export {
 } from './projects'
 
 // App Data for Export/Import
+// Bump APP_DATA_VERSION whenever the backup shape changes incompatibly
+export const APP_DATA_VERSION = 2
+
+export type ProjectBackup = import('./projects').Project & {
+  objectives: import('./projects').Objective[]
+  milestones: import('./projects').Milestone[]
+  metrics: Array<import('./projects').ProjectMetric & { history: import('./projects').ProjectMetricEntry[] }>
+}
+
+export type NotebookBackup = import('./studies').Notebook & {
+  pages: Array<import('./studies').NotebookPage & { revisions?: import('./studies').PageRevision[] }>
+  flashcards?: import('./studies').Flashcard[]
+}
+
 export interface AppData {
-  version: string
+  version: typeof APP_DATA_VERSION
   exportedAt: string
-  habits: Habit[]
-  tasks: Task[]
-  projects: import('./projects').Project[]
+  habits: Habit[] // includes full completion history
+  tasks: Task[] // includes subtasks
+  projects: ProjectBackup[]
   areas: LifeArea[]
   metrics: MetricEntry[]
+  notebooks: NotebookBackup[]
   achievements: Achievement[]
   streaks: StreakData[]
-  stats: UserStats
-  settings: UserSettings
-  transactions?: import('./finances').Transaction[]
-  financialGoals?: import('./finances').FinancialGoal[]
-  budgets?: import('./finances').Budget[]
+  stats: UserStats | null
+  settings: UserSettings | null
+  transactions: import('./finances').Transaction[]
+  categories: import('./finances').TransactionCategory[] // custom categories only
+  budgets: import('./finances').Budget[]
+  financialGoals: import('./finances').FinancialGoal[] // includes contributions
+  // Missing from backups made before they were included
+  accounts?: import('./finances').Account[]
+  exchangeRates?: import('./finances').ExchangeRate[]
+  budgetTemplates?: import('./finances').BudgetTemplate[]
+  recurrenceExceptions?: import('./finances').RecurrenceException[]
+  investmentAssets?: import('./finances').InvestmentAsset[]
+  investmentPrices?: import('./finances').InvestmentPrice[]
+  investmentEvents?: import('./finances').InvestmentEvent[]
+  investmentSimulations?: import('./finances').InvestmentSimulation[]
+  categorizationRules?: import('./finances').CategorizationRule[]
+  pomodoroSessions?: PomodoroSession[]
+  habitFreezes?: HabitFreeze[]
+  vacations?: Vacation[]
 }
@@ -0,0 +1,6 @@
+-- Make pomodoro sessions safe to upload more than once
+-- Devices keep sessions locally until they reach the server, so the same
+-- session can be sent again after a failed or repeated sync
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pomodoro_user_completed_at
+ON pomodoro_sessions(user_id, completed_at);
@@ -0,0 +1,11 @@
+-- Link pomodoro sessions to the task or habit being worked on
+-- Task sessions add up to the task's actual time; habit sessions log minutes
+-- into the habit's completion for that day
+
+ALTER TABLE pomodoro_sessions
+ADD COLUMN task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+ADD COLUMN habit_id UUID REFERENCES habits(id) ON DELETE SET NULL;
+
+-- Index for summing focused minutes per task
+CREATE INDEX idx_pomodoro_task ON pomodoro_sessions(task_id)
+WHERE task_id IS NOT NULL;
@@ -0,0 +1,9 @@
+-- Allow "every N days" and "Nth weekday of month" habit frequencies
+-- frequency_data holds { everyDays } for interval and { week, weekday } for nthWeekday
+
+ALTER TABLE habits
+DROP CONSTRAINT IF EXISTS habits_frequency_type_check;
+
+ALTER TABLE habits
+ADD CONSTRAINT habits_frequency_type_check
+CHECK (frequency_type IN ('daily', 'weekly', 'specificDays', 'monthly', 'interval', 'nthWeekday'));
@@ -0,0 +1,45 @@
+-- Streak freezes and planned rest days
+-- Users earn freeze tokens when they level up and can spend one to protect a
+-- missed day of a habit. Vacations pause every habit for a date range.
+-- Streak calculation treats frozen and vacation days as neutral
+
+ALTER TABLE user_stats
+ADD COLUMN IF NOT EXISTS freeze_tokens INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS habit_freezes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  habit_id UUID REFERENCES habits(id) ON DELETE CASCADE NOT NULL,
+  date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT unique_habit_freeze UNIQUE (habit_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_habit_freezes_user ON habit_freezes(user_id);
+
+ALTER TABLE habit_freezes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own habit_freezes" ON habit_freezes FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own habit_freezes" ON habit_freezes FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete own habit_freezes" ON habit_freezes FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS vacations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT vacations_date_range_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vacations_user ON vacations(user_id, start_date);
+
+ALTER TABLE vacations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own vacations" ON vacations FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own vacations" ON vacations FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own vacations" ON vacations FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own vacations" ON vacations FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,20 @@
+-- Per-habit lifetime summaries
+-- Habit lists only load recent completions, so lifetime stats (total
+-- completions, first completion, best streak) come from this view instead
+-- of pulling every completion row to the client.
+-- security_invoker makes the view respect the RLS policies of its tables
+
+CREATE OR REPLACE VIEW habit_summaries
+WITH (security_invoker = true) AS
+SELECT
+  h.id AS habit_id,
+  h.user_id,
+  COUNT(c.id)::INTEGER AS total_completions,
+  MIN(c.date) AS first_completion,
+  MAX(c.date) AS last_completion,
+  COALESCE(MAX(s.current_streak), 0) AS current_streak,
+  COALESCE(MAX(s.longest_streak), 0) AS longest_streak
+FROM habits h
+LEFT JOIN habit_completions c ON c.habit_id = h.id
+LEFT JOIN habit_streaks s ON s.habit_id = h.id
+GROUP BY h.id, h.user_id;
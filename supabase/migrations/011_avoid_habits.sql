@@ -0,0 +1,10 @@
+-- Allow "avoid" habits for breaking bad habits (e.g. no sugar, max 2 coffees)
+-- tracking_target holds the daily limit and each completion holds how much was
+-- logged that day; a day over the limit counts as a relapse
+
+ALTER TABLE habits
+DROP CONSTRAINT IF EXISTS habits_tracking_type_check;
+
+ALTER TABLE habits
+ADD CONSTRAINT habits_tracking_type_check
+CHECK (tracking_type IN ('boolean', 'quantitative', 'avoid'));
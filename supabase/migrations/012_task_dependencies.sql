@@ -0,0 +1,44 @@
+-- Task dependencies
+-- A task can be blocked by other tasks; it stays out of the "today" lists
+-- until every blocker is done. Cycles are rejected here as well as in the app
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  task_id UUID REFERENCES tasks(id) ON DELETE CASCADE NOT NULL,
+  blocked_by_id UUID REFERENCES tasks(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (task_id, blocked_by_id),
+  CONSTRAINT task_dependencies_not_self CHECK (task_id <> blocked_by_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_user ON task_dependencies(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked_by ON task_dependencies(blocked_by_id);
+
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own task_dependencies" ON task_dependencies FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own task_dependencies" ON task_dependencies FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete own task_dependencies" ON task_dependencies FOR DELETE USING (auth.uid() = user_id);
+
+-- Reject an edge when the blocker already depends (directly or not) on the task
+CREATE OR REPLACE FUNCTION check_task_dependency_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE upstream(id) AS (
+      SELECT blocked_by_id FROM task_dependencies WHERE task_id = NEW.blocked_by_id
+      UNION
+      SELECT d.blocked_by_id FROM task_dependencies d JOIN upstream u ON d.task_id = u.id
+    )
+    SELECT 1 FROM upstream WHERE id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'Task dependency would create a cycle';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER task_dependencies_no_cycles
+  BEFORE INSERT ON task_dependencies
+  FOR EACH ROW EXECUTE FUNCTION check_task_dependency_cycle();
@@ -0,0 +1,7 @@
+-- Rich task recurrence stored as an RFC 5545 RRULE value
+-- (e.g. FREQ=WEEKLY;BYDAY=MO,TH or FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1)
+-- recurrence_type/interval/end_date are still written so older clients keep
+-- a reasonable approximation of the rule; recurrence_rule wins when present
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
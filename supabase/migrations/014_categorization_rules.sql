@@ -0,0 +1,31 @@
+-- Transaction categorization rules
+-- Evaluated in priority order (lowest first) when a transaction is created
+-- without a specific category; the first matching rule sets the category and
+-- may add tags. Empty conditions match any transaction
+
+CREATE TABLE IF NOT EXISTS categorization_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  transaction_type VARCHAR(10) CHECK (transaction_type IN ('income', 'expense')),
+  description_match VARCHAR(10) CHECK (description_match IN ('contains', 'regex')),
+  description_pattern VARCHAR(500),
+  min_amount NUMERIC(12, 2),
+  max_amount NUMERIC(12, 2),
+  payment_method VARCHAR(50),
+  required_tags TEXT[] NOT NULL DEFAULT '{}',
+  category_id VARCHAR(100) NOT NULL,
+  add_tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_categorization_rules_user ON categorization_rules(user_id, priority);
+
+ALTER TABLE categorization_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own categorization_rules" ON categorization_rules FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own categorization_rules" ON categorization_rules FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own categorization_rules" ON categorization_rules FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own categorization_rules" ON categorization_rules FOR DELETE USING (auth.uid() = user_id);
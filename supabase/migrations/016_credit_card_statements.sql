@@ -0,0 +1,36 @@
+-- Credit card statements and installments
+-- Credit card accounts close their statement on closing_day and are paid on
+-- due_day. Card purchases are stored with the statement month (YYYY-MM, the
+-- month the statement is due) they are billed in, and purchases split into
+-- installments become one transaction per installment sharing a group id
+
+ALTER TABLE accounts
+ADD COLUMN IF NOT EXISTS closing_day SMALLINT CHECK (closing_day BETWEEN 1 AND 31),
+ADD COLUMN IF NOT EXISTS due_day SMALLINT CHECK (due_day BETWEEN 1 AND 31);
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS statement_month VARCHAR(7),
+ADD COLUMN IF NOT EXISTS installment_group_id UUID,
+ADD COLUMN IF NOT EXISTS installment_number SMALLINT,
+ADD COLUMN IF NOT EXISTS installment_count SMALLINT;
+
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_installment_check CHECK (
+  (installment_group_id IS NULL) = (installment_number IS NULL)
+  AND (installment_group_id IS NULL) = (installment_count IS NULL)
+  AND (installment_number IS NULL OR installment_number BETWEEN 1 AND installment_count)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_statement ON transactions(account_id, statement_month)
+WHERE statement_month IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_installment_group ON transactions(installment_group_id)
+WHERE installment_group_id IS NOT NULL;
+
+-- Payment reminders for credit card statements: one per statement, ever
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS linked_account_id UUID REFERENCES accounts(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS linked_statement_month VARCHAR(7);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_linked_statement_unique
+ON tasks(linked_account_id, linked_statement_month)
+WHERE linked_account_id IS NOT NULL;
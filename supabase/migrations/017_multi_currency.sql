@@ -0,0 +1,35 @@
+-- Multi-currency
+-- Transactions, accounts and goals can carry their own currency; NULL means
+-- the user's base currency (user_settings.currency). Amounts are converted to
+-- the base currency with a user-maintained exchange rate table, using the
+-- latest rate on or before each transaction's date
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+
+ALTER TABLE accounts
+ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+
+ALTER TABLE financial_goals
+ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_currency VARCHAR(3) NOT NULL,
+  to_currency VARCHAR(3) NOT NULL,
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (from_currency <> to_currency),
+  UNIQUE (user_id, from_currency, to_currency, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_user ON exchange_rates(user_id, date);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own exchange_rates" ON exchange_rates FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own exchange_rates" ON exchange_rates FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own exchange_rates" ON exchange_rates FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own exchange_rates" ON exchange_rates FOR DELETE USING (auth.uid() = user_id);
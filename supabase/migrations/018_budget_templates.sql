@@ -0,0 +1,32 @@
+-- Budget templates, rollover and envelopes
+-- A template budgets a category for every month from start_month on, so it no
+-- longer has to be re-entered monthly. Rows in `budgets` keep working as
+-- single-month overrides. Yearly templates spread their amount across the
+-- months of the year, and rollover carries each month's leftover (or overspent)
+-- amount into the next one
+
+CREATE TABLE IF NOT EXISTS budget_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category_id VARCHAR(100) NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  period VARCHAR(10) NOT NULL DEFAULT 'monthly' CHECK (period IN ('monthly', 'yearly')),
+  rollover BOOLEAN NOT NULL DEFAULT false,
+  start_month VARCHAR(7) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_budget_templates_user ON budget_templates(user_id);
+
+ALTER TABLE budget_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own budget_templates" ON budget_templates FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own budget_templates" ON budget_templates FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own budget_templates" ON budget_templates FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own budget_templates" ON budget_templates FOR DELETE USING (auth.uid() = user_id);
+
+-- Envelope mode allocates income into categories instead of capping spending
+ALTER TABLE user_settings
+ADD COLUMN IF NOT EXISTS budget_mode VARCHAR(10) NOT NULL DEFAULT 'limits'
+  CHECK (budget_mode IN ('limits', 'envelopes'));
@@ -0,0 +1,35 @@
+-- Materialized recurring transactions
+-- A scheduled job records each due occurrence of a recurring income or expense
+-- as a regular transaction, so balances are right even when nobody opens the
+-- app. Occurrences point back to their recurring transaction; the unique
+-- (recurrence_parent_id, occurrence_date) pair makes re-running the job safe
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+ALTER TABLE transactions
+ADD CONSTRAINT unique_transaction_occurrence UNIQUE (recurrence_parent_id, occurrence_date);
+
+-- Skipped or edited occurrences, keyed by their scheduled date
+CREATE TABLE IF NOT EXISTS recurrence_exceptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  skip BOOLEAN NOT NULL DEFAULT false,
+  amount NUMERIC(12, 2),
+  description TEXT,
+  date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (transaction_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurrence_exceptions_user ON recurrence_exceptions(user_id);
+
+ALTER TABLE recurrence_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recurrence_exceptions" ON recurrence_exceptions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own recurrence_exceptions" ON recurrence_exceptions FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own recurrence_exceptions" ON recurrence_exceptions FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own recurrence_exceptions" ON recurrence_exceptions FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,97 @@
+-- Investment portfolio
+-- Assets are held through buy, sell and dividend events; quantities and cost
+-- basis are derived from the events rather than stored. Prices are entered by
+-- hand and kept as a history so the portfolio value can be charted over time.
+-- An event can point to the transaction that moved its money. Simulations of
+-- the compound-interest calculator are saved too, including fixed-income
+-- yields set as a percentage of the CDI or a spread over the IPCA
+
+CREATE TABLE IF NOT EXISTS investment_assets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  ticker VARCHAR(20),
+  type VARCHAR(20) NOT NULL DEFAULT 'stock'
+    CHECK (type IN ('stock', 'fund', 'fixed_income', 'crypto', 'other')),
+  currency VARCHAR(3),
+  account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_investment_assets_user ON investment_assets(user_id);
+
+ALTER TABLE investment_assets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own investment_assets" ON investment_assets FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own investment_assets" ON investment_assets FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own investment_assets" ON investment_assets FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own investment_assets" ON investment_assets FOR DELETE USING (auth.uid() = user_id);
+
+-- One manual price per asset and day
+CREATE TABLE IF NOT EXISTS investment_prices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  asset_id UUID NOT NULL REFERENCES investment_assets(id) ON DELETE CASCADE,
+  price NUMERIC(18, 8) NOT NULL CHECK (price >= 0),
+  date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (asset_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_investment_prices_user ON investment_prices(user_id, date);
+
+ALTER TABLE investment_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own investment_prices" ON investment_prices FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own investment_prices" ON investment_prices FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own investment_prices" ON investment_prices FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own investment_prices" ON investment_prices FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS investment_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  asset_id UUID NOT NULL REFERENCES investment_assets(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL CHECK (type IN ('buy', 'sell', 'dividend')),
+  date DATE NOT NULL,
+  quantity NUMERIC(18, 8) NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  price NUMERIC(18, 8) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  fees NUMERIC(12, 2) NOT NULL DEFAULT 0 CHECK (fees >= 0),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount >= 0),
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_investment_events_user ON investment_events(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_investment_events_asset ON investment_events(asset_id);
+
+ALTER TABLE investment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own investment_events" ON investment_events FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own investment_events" ON investment_events FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own investment_events" ON investment_events FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own investment_events" ON investment_events FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS investment_simulations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  initial_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  monthly_contribution NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  annual_rate NUMERIC(8, 4) NOT NULL,
+  period_years INTEGER NOT NULL CHECK (period_years > 0),
+  compounding_frequency VARCHAR(10) NOT NULL DEFAULT 'monthly'
+    CHECK (compounding_frequency IN ('monthly', 'quarterly', 'yearly')),
+  yield_index VARCHAR(10) NOT NULL DEFAULT 'fixed' CHECK (yield_index IN ('fixed', 'cdi', 'ipca')),
+  index_rate NUMERIC(8, 4),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_investment_simulations_user ON investment_simulations(user_id);
+
+ALTER TABLE investment_simulations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own investment_simulations" ON investment_simulations FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own investment_simulations" ON investment_simulations FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own investment_simulations" ON investment_simulations FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own investment_simulations" ON investment_simulations FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+-- ============================================
+-- Goal contribution plans
+-- Expenses recorded in a goal's contribution category (e.g. a recurring
+-- transfer to savings) count as contributions to it. Each automatic
+-- contribution points back to its expense; the unique (goal_id,
+-- transaction_id) pair makes re-running the sync safe
+
+ALTER TABLE financial_goals
+ADD COLUMN IF NOT EXISTS contribution_category_id VARCHAR(100);
+
+ALTER TABLE goal_contributions
+ADD COLUMN IF NOT EXISTS transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL;
+
+ALTER TABLE goal_contributions
+ADD CONSTRAINT unique_goal_contribution_transaction UNIQUE (goal_id, transaction_id);
@@ -0,0 +1,27 @@
+-- Page links
+-- Notebook pages link to other pages with [[Page title]] and mention tasks,
+-- habits and projects with @task[Title], @habit[Title] and @project[Title].
+-- The index is rebuilt from the page content whenever the page is saved, so
+-- backlinks can be listed without reading every page. Targets are resolved by
+-- title at save time; target_id has no foreign key because it points to
+-- different tables depending on target_type
+
+CREATE TABLE IF NOT EXISTS page_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  page_id UUID NOT NULL REFERENCES notebook_pages(id) ON DELETE CASCADE,
+  target_type VARCHAR(20) NOT NULL
+    CHECK (target_type IN ('page', 'task', 'habit', 'project')),
+  target_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (page_id, target_type, target_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_links_target ON page_links(user_id, target_type, target_id);
+
+ALTER TABLE page_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own page_links" ON page_links FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own page_links" ON page_links FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own page_links" ON page_links FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own page_links" ON page_links FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,117 @@
+-- Full-text search
+-- Notebook pages, tasks, habits, projects, objectives and transactions get a
+-- generated search_vector with both the Portuguese and the English
+-- configuration, so stemming works whichever language the text is in. Titles
+-- weigh more than descriptions and page content. search_everything runs one
+-- prefix query (e.g. 'estud':* & 'calc':*) over all of them and returns the
+-- best ranked matches with a highlighted snippet; it runs as the caller, so
+-- row level security limits it to the user's own rows
+
+-- Text of a BlockNote document: every "text" value, in document order
+CREATE OR REPLACE FUNCTION note_content_text(content JSONB)
+RETURNS TEXT AS $$
+  SELECT coalesce(string_agg(value #>> '{}', ' '), '')
+  FROM jsonb_path_query(content, 'strict $.**.text') AS value
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Vector of a title (weight A) and a body (weight B) in both languages
+CREATE OR REPLACE FUNCTION search_document(title TEXT, body TEXT)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('portuguese', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('portuguese', coalesce(body, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(body, '')), 'B')
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE notebook_pages
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (search_document(title, note_content_text(content))) STORED;
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (search_document(title, description)) STORED;
+
+ALTER TABLE habits
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (search_document(title, description)) STORED;
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (search_document(title, description)) STORED;
+
+ALTER TABLE objectives
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (search_document(title, description)) STORED;
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (search_document(description, NULL)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_notebook_pages_search ON notebook_pages USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_habits_search ON habits USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_projects_search ON projects USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_objectives_search ON objectives USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_transactions_search ON transactions USING GIN (search_vector);
+
+-- Matches are highlighted between <mark> and </mark> in the snippet; parent_id
+-- is the notebook of a page and the project of an objective
+CREATE OR REPLACE FUNCTION search_everything(search_query TEXT, result_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  type TEXT,
+  id UUID,
+  title TEXT,
+  snippet TEXT,
+  rank REAL,
+  parent_id UUID,
+  date TEXT
+) AS $$
+  WITH q AS (
+    SELECT to_tsquery('portuguese', search_query) || to_tsquery('english', search_query) AS query
+  ),
+  matches AS (
+    SELECT 'page' AS type, p.id, p.title, note_content_text(p.content) AS body,
+      ts_rank(p.search_vector, q.query) AS rank, p.notebook_id AS parent_id,
+      p.updated_at::date::text AS date
+    FROM notebook_pages p, q WHERE p.search_vector @@ q.query
+    UNION ALL
+    SELECT 'task', t.id, t.title, t.description, ts_rank(t.search_vector, q.query),
+      NULL, t.due_date::text
+    FROM tasks t, q WHERE t.search_vector @@ q.query
+    UNION ALL
+    SELECT 'habit', h.id, h.title, h.description, ts_rank(h.search_vector, q.query),
+      NULL, NULL
+    FROM habits h, q WHERE h.search_vector @@ q.query AND h.archived_at IS NULL
+    UNION ALL
+    SELECT 'project', pr.id, pr.title, pr.description, ts_rank(pr.search_vector, q.query),
+      NULL, NULL
+    FROM projects pr, q WHERE pr.search_vector @@ q.query
+    UNION ALL
+    SELECT 'objective', o.id, o.title, o.description, ts_rank(o.search_vector, q.query),
+      o.project_id, o.due_date::text
+    FROM objectives o, q WHERE o.search_vector @@ q.query
+    UNION ALL
+    SELECT 'transaction', tr.id, tr.description, NULL, ts_rank(tr.search_vector, q.query),
+      NULL, tr.date::text
+    FROM transactions tr, q WHERE tr.search_vector @@ q.query
+  ),
+  best AS (
+    SELECT * FROM matches ORDER BY rank DESC, date DESC NULLS LAST LIMIT result_limit
+  )
+  SELECT
+    best.type,
+    best.id,
+    best.title,
+    ts_headline(
+      'portuguese',
+      coalesce(nullif(best.body, ''), best.title),
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=8, MaxFragments=1'
+    ),
+    best.rank,
+    best.parent_id,
+    best.date
+  FROM best, q
+  ORDER BY best.rank DESC, best.date DESC NULLS LAST
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,37 @@
+-- Flashcards
+-- Cards are written in a notebook page as "Question :: Answer" or added to a
+-- notebook on their own (page_id NULL). Page cards are rebuilt from the page
+-- content whenever it is saved, matched by question so their review history
+-- survives edits to the answer. ease, interval, repetitions and due_date are
+-- the SM-2 scheduling state (see packages/core/src/lib/flashcards.ts)
+
+CREATE TABLE IF NOT EXISTS flashcards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  notebook_id UUID NOT NULL REFERENCES notebooks(id) ON DELETE CASCADE,
+  page_id UUID REFERENCES notebook_pages(id) ON DELETE CASCADE,
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  ease REAL NOT NULL DEFAULT 2.5 CHECK (ease >= 1.3),
+  interval INTEGER NOT NULL DEFAULT 0 CHECK (interval >= 0),
+  repetitions INTEGER NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+  due_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  last_reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcards_due ON flashcards(user_id, due_date);
+CREATE INDEX IF NOT EXISTS idx_flashcards_notebook ON flashcards(notebook_id);
+CREATE INDEX IF NOT EXISTS idx_flashcards_page ON flashcards(page_id);
+
+CREATE TRIGGER update_flashcards_updated_at
+  BEFORE UPDATE ON flashcards
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE flashcards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own flashcards" ON flashcards FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own flashcards" ON flashcards FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own flashcards" ON flashcards FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own flashcards" ON flashcards FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- Notebook page revisions
+-- Saving a page overwrites its content, so the page as it was is kept here
+-- first: at most every few minutes while it is edited, and right away when an
+-- edit removes most of the page. Old revisions are thinned out by the app
+-- (see packages/core/src/lib/page-revisions.ts)
+
+CREATE TABLE IF NOT EXISTS page_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  page_id UUID NOT NULL REFERENCES notebook_pages(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  content JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_revisions_page ON page_revisions(page_id, created_at DESC);
+
+ALTER TABLE page_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own page revisions" ON page_revisions FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own page revisions" ON page_revisions FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete own page revisions" ON page_revisions FOR DELETE USING (auth.uid() = user_id);
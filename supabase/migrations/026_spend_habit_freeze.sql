@@ -0,0 +1,18 @@
+-- Spend a streak freeze in one statement
+-- The token is taken only while one is left and the freeze is recorded in the
+-- same statement, so two devices cannot both spend the user's last token. A
+-- day that is already frozen rolls the whole statement back, token included.
+-- Returns no row when there is no token to spend
+
+CREATE OR REPLACE FUNCTION spend_habit_freeze(freeze_habit_id UUID, freeze_date DATE)
+RETURNS SETOF habit_freezes AS $$
+  WITH spent AS (
+    UPDATE user_stats
+    SET freeze_tokens = freeze_tokens - 1
+    WHERE user_id = auth.uid() AND freeze_tokens > 0
+    RETURNING user_id
+  )
+  INSERT INTO habit_freezes (user_id, habit_id, date)
+  SELECT user_id, freeze_habit_id, freeze_date FROM spent
+  RETURNING *
+$$ LANGUAGE sql;
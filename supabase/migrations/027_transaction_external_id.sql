@@ -0,0 +1,11 @@
+-- Bank identifiers of imported transactions
+-- OFX statements carry a FITID and some bank CSVs an "Identificador" per
+-- transaction; it is kept so importing the same statement again skips the
+-- transactions already in the app, even after they were edited
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_external_id
+ON transactions(user_id, external_id)
+WHERE external_id IS NOT NULL;